@@ -0,0 +1,302 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { DashboardHeaderClient } from "@/components/dashboard-header-client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, FileUp, Trash2 } from "lucide-react"
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns"
+import { toast } from "sonner"
+import {
+  ACCOUNTING_EXPORT_FORMATS,
+  ACCOUNTING_EXPORT_SOURCES,
+  accountingExportFormatLabels,
+  accountingExportSourceLabels,
+  type AccountingExportFormat,
+  type AccountingExportSource,
+} from "@/lib/accounting-settings"
+import type { AccountingExportCounts, AccountingExportFile } from "@/lib/accounting-export"
+
+interface ExportSummary {
+  id: number
+  format: AccountingExportFormat
+  sources: AccountingExportSource[]
+  periodStart: string
+  periodEnd: string
+  counts: AccountingExportCounts | null
+  createdAt: string
+}
+
+const countLabels: Record<keyof AccountingExportCounts, string> = {
+  invoice: "invoices",
+  credit_note: "credit notes",
+  payment: "payments",
+  refund: "refunds",
+  expense: "expenses",
+  payout: "payouts",
+}
+
+function describeCounts(counts: AccountingExportCounts | null) {
+  if (!counts) return "-"
+  const parts = (Object.keys(countLabels) as Array<keyof AccountingExportCounts>)
+    .filter((key) => counts[key] > 0)
+    .map((key) => `${counts[key]} ${countLabels[key]}`)
+  return parts.length ? parts.join(", ") : "Nothing"
+}
+
+function downloadFiles(files: AccountingExportFile[]) {
+  for (const file of files) {
+    const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8;` })
+    const url = window.URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = file.name
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    window.URL.revokeObjectURL(url)
+  }
+}
+
+export default function AccountingExportPage() {
+  const lastMonth = subMonths(new Date(), 1)
+  const [startDate, setStartDate] = useState(format(startOfMonth(lastMonth), "yyyy-MM-dd"))
+  const [endDate, setEndDate] = useState(format(endOfMonth(lastMonth), "yyyy-MM-dd"))
+  const [exportFormat, setExportFormat] = useState<AccountingExportFormat>("xero")
+  const [sources, setSources] = useState<AccountingExportSource[]>(ACCOUNTING_EXPORT_SOURCES)
+  const [pending, setPending] = useState<AccountingExportCounts | null>(null)
+  const [exports, setExports] = useState<ExportSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  const fetchExports = async () => {
+    try {
+      const response = await fetch("/api/accounting/exports")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load exports")
+      }
+      setExports(data.exports)
+    } catch (error) {
+      console.error("Error fetching accounting exports:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to load exports")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchPending = useCallback(async () => {
+    if (!startDate || !endDate) return
+    try {
+      const response = await fetch(`/api/accounting/exports/pending?startDate=${startDate}&endDate=${endDate}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to count records to export")
+      }
+      setPending(data.pending)
+    } catch (error) {
+      console.error("Error counting pending export:", error)
+      setPending(null)
+    }
+  }, [startDate, endDate])
+
+  useEffect(() => {
+    fetchExports()
+  }, [])
+
+  useEffect(() => {
+    fetchPending()
+  }, [fetchPending])
+
+  const toggleSource = (source: AccountingExportSource, checked: boolean) => {
+    setSources((prev) =>
+      checked ? ACCOUNTING_EXPORT_SOURCES.filter((s) => s === source || prev.includes(s)) : prev.filter((s) => s !== source)
+    )
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const response = await fetch("/api/accounting/exports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: exportFormat, sources, startDate, endDate }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to create export")
+      }
+      downloadFiles(data.files)
+      toast.success("Export started")
+      fetchExports()
+      fetchPending()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create export")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleDownload = async (exportId: number) => {
+    try {
+      const response = await fetch(`/api/accounting/exports/${exportId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load export")
+      }
+      downloadFiles(data.files)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load export")
+    }
+  }
+
+  const handleDelete = async (exportId: number) => {
+    if (!window.confirm("Delete this export? Its records can then be exported again, so only do this if the files were never imported.")) {
+      return
+    }
+    try {
+      const response = await fetch(`/api/accounting/exports/${exportId}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to delete export")
+      }
+      toast.success("Export deleted")
+      fetchExports()
+      fetchPending()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete export")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeaderClient />
+
+      <main className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="space-y-1">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Accounting Export</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Invoices, payments, expenses and payouts for Xero or QuickBooks. Records are only ever exported once.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New export</CardTitle>
+            <CardDescription>
+              {pending ? `Not yet exported in this range: ${describeCounts(pending)}` : "Choose a date range"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="export-start">From</Label>
+                <Input id="export-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-end">To</Label>
+                <Input id="export-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-format">Format</Label>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as AccountingExportFormat)}>
+                  <SelectTrigger id="export-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNTING_EXPORT_FORMATS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {accountingExportFormatLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {ACCOUNTING_EXPORT_SOURCES.map((source) => (
+                <div key={source} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-source-${source}`}
+                    checked={sources.includes(source)}
+                    onCheckedChange={(checked) => toggleSource(source, checked === true)}
+                  />
+                  <Label htmlFor={`export-source-${source}`} className="font-normal">
+                    {accountingExportSourceLabels[source]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleExport} disabled={exporting || sources.length === 0 || !startDate || !endDate}>
+              <FileUp className="mr-2 h-4 w-4" />
+              {exporting ? "Exporting..." : "Export"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Previous exports</CardTitle>
+            <CardDescription>Download a batch again, or delete it to release its records</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+              </div>
+            ) : exports.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing has been exported yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Exported</TableHead>
+                      <TableHead>Format</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Records</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {exports.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>{format(new Date(item.createdAt), "dd MMM yyyy HH:mm")}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{accountingExportFormatLabels[item.format] ?? item.format}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(item.periodStart), "dd MMM yyyy")} -{" "}
+                          {format(new Date(new Date(item.periodEnd).getTime() - 1), "dd MMM yyyy")}
+                        </TableCell>
+                        <TableCell>{describeCounts(item.counts)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" title="Download again" onClick={() => handleDownload(item.id)}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Delete export" onClick={() => handleDelete(item.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertTriangle, ChevronLeft, Clock, Loader2, Play, RefreshCw, Shield } from "lucide-react"
+import { toast } from "sonner"
+import { format, formatDistanceToNow } from "date-fns"
+
+interface TaskStatus {
+  name: string
+  label: string
+  description: string
+  scope: "company" | "global"
+  intervalMinutes: number
+  lastRunAt: string | null
+  lastSuccessAt: string | null
+  nextRunAt: string
+  failuresLast24h: number
+  running: boolean
+}
+
+interface TaskRun {
+  id: number
+  task: string
+  companyId: number | null
+  companyName: string | null
+  trigger: string
+  status: "running" | "succeeded" | "failed"
+  attempts: number
+  result: Record<string, unknown> | null
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+  durationMs: number | null
+}
+
+interface SchedulerStatus {
+  tasks: TaskStatus[]
+  recentRuns: TaskRun[]
+  cronConfigured: boolean
+}
+
+function formatInterval(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60)
+    return days === 1 ? "Daily" : `Every ${days} days`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return hours === 1 ? "Hourly" : `Every ${hours} hours`
+  }
+  return `Every ${minutes} minutes`
+}
+
+function formatResult(result: Record<string, unknown> | null) {
+  if (!result) return "—"
+  return Object.entries(result)
+    .filter(([, value]) => typeof value === "number")
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(", ") || "—"
+}
+
+const statusStyles: Record<TaskRun["status"], string> = {
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  running: "bg-blue-100 text-blue-700",
+}
+
+export default function AdminSchedulerPage() {
+  const router = useRouter()
+  const [status, setStatus] = useState<SchedulerStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [runningTask, setRunningTask] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/scheduler")
+      if (res.status === 401) {
+        router.push("/admin/login")
+        return
+      }
+      if (!res.ok) {
+        throw new Error("Failed to load scheduler status")
+      }
+      setStatus(await res.json())
+    } catch {
+      toast.error("Failed to load scheduler status")
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const runNow = async (task: TaskStatus) => {
+    setRunningTask(task.name)
+    try {
+      const res = await fetch("/api/admin/scheduler", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ task: task.name }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to run task")
+      }
+      if (data.failed > 0) {
+        toast.warning(`${task.label}: ${data.succeeded} succeeded, ${data.failed} failed`)
+      } else {
+        toast.success(`${task.label} completed (${data.succeeded} run${data.succeeded === 1 ? "" : "s"})`)
+      }
+      await loadStatus()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run task")
+    } finally {
+      setRunningTask(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  const failedRuns = status?.recentRuns.filter((run) => run.status === "failed") ?? []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary">
+              <Shield className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">Scheduler</h1>
+              <p className="text-xs text-muted-foreground">Background tasks and run history</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={loadStatus}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/admin">
+                <ChevronLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {status && !status.cronConfigured && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              CRON_SECRET is not set, so scheduled runs are disabled. Set it and point Vercel Cron or{" "}
+              <code>npm run scheduler</code> at <code>/api/cron</code>.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tasks</CardTitle>
+            <CardDescription>Each task runs once per window; company tasks run for every active company</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead>Last success</TableHead>
+                  <TableHead>Next run</TableHead>
+                  <TableHead>Failures (24h)</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {status?.tasks.map((task) => (
+                  <TableRow key={task.name}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {task.label}
+                        {task.running && (
+                          <Badge variant="secondary" className="bg-blue-100 text-blue-700">
+                            Running
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{task.description}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatInterval(task.intervalMinutes)}
+                      <p className="text-xs text-muted-foreground capitalize">{task.scope}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {task.lastRunAt ? formatDistanceToNow(new Date(task.lastRunAt), { addSuffix: true }) : "Never"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {task.lastSuccessAt
+                        ? formatDistanceToNow(new Date(task.lastSuccessAt), { addSuffix: true })
+                        : "Never"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div className="flex items-center gap-1">
+                        <Clock className="h-3 w-3 text-muted-foreground" />
+                        {format(new Date(task.nextRunAt), "d MMM HH:mm")}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {task.failuresLast24h > 0 ? (
+                        <Badge variant="secondary" className="bg-red-100 text-red-700">
+                          {task.failuresLast24h}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">0</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={runningTask !== null || task.running}
+                        onClick={() => runNow(task)}
+                      >
+                        {runningTask === task.name ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Play className="h-4 w-4 mr-2" />
+                        )}
+                        Run now
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {failedRuns.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-700">
+                <AlertTriangle className="h-5 w-5" />
+                Recent Failures
+              </CardTitle>
+              <CardDescription>Failed runs are retried automatically in the next cron pass</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {failedRuns.map((run) => (
+                <div key={run.id} className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {status?.tasks.find((task) => task.name === run.task)?.label ?? run.task}
+                      {run.companyName && <span className="text-muted-foreground"> · {run.companyName}</span>}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(run.startedAt), "d MMM HH:mm")} · attempt {run.attempts}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-red-700">{run.error}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History</CardTitle>
+            <CardDescription>The 50 most recent runs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {status?.recentRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No runs recorded yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status?.recentRuns.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm">{format(new Date(run.startedAt), "d MMM HH:mm:ss")}</TableCell>
+                      <TableCell className="text-sm">
+                        {status.tasks.find((task) => task.name === run.task)?.label ?? run.task}
+                      </TableCell>
+                      <TableCell className="text-sm">{run.companyName ?? "All companies"}</TableCell>
+                      <TableCell className="text-sm capitalize">{run.trigger}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={statusStyles[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {run.durationMs !== null ? `${(run.durationMs / 1000).toFixed(1)}s` : "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                        {run.status === "failed" ? run.error : formatResult(run.result)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { AccountingExportError, deleteAccountingExport, getAccountingExport } from "@/lib/accounting-export"
+
+// GET /api/accounting/exports/[id] - An export with its files, to download again
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const exportId = parseInt(id)
+    if (isNaN(exportId)) {
+      return NextResponse.json({ error: "Invalid export ID" }, { status: 400 })
+    }
+
+    const result = await getAccountingExport(session.companyId, exportId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AccountingExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching accounting export:", error)
+    return NextResponse.json({ error: "Failed to fetch accounting export" }, { status: 500 })
+  }
+}
+
+// DELETE /api/accounting/exports/[id] - Delete an export so its records can be exported again
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const exportId = parseInt(id)
+    if (isNaN(exportId)) {
+      return NextResponse.json({ error: "Invalid export ID" }, { status: 400 })
+    }
+
+    await deleteAccountingExport(session.companyId, exportId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccountingExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting accounting export:", error)
+    return NextResponse.json({ error: "Failed to delete accounting export" }, { status: 500 })
+  }
+}
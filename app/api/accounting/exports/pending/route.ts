@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import {
+  AccountingExportError,
+  getPendingAccountingExport,
+  parseAccountingExportPeriod,
+} from "@/lib/accounting-export"
+import { ACCOUNTING_EXPORT_SOURCES } from "@/lib/accounting-settings"
+
+// GET /api/accounting/exports/pending - Count records in a date range that haven't been exported yet
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const period = parseAccountingExportPeriod(searchParams.get("startDate"), searchParams.get("endDate"))
+
+    const pending = await getPendingAccountingExport(session.companyId, ACCOUNTING_EXPORT_SOURCES, period)
+    return NextResponse.json({ pending })
+  } catch (error) {
+    if (error instanceof AccountingExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error counting pending accounting export:", error)
+    return NextResponse.json({ error: "Failed to count records to export" }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import {
+  AccountingExportError,
+  createAccountingExport,
+  isAccountingExportFormat,
+  isAccountingExportSource,
+  listAccountingExports,
+  parseAccountingExportPeriod,
+} from "@/lib/accounting-export"
+
+// GET /api/accounting/exports - Past accounting exports, newest first
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const exports = await listAccountingExports(session.companyId)
+    return NextResponse.json({ exports })
+  } catch (error) {
+    console.error("Error fetching accounting exports:", error)
+    return NextResponse.json({ error: "Failed to fetch accounting exports" }, { status: 500 })
+  }
+}
+
+// POST /api/accounting/exports - Export everything not yet exported in a date range
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!isAccountingExportFormat(body.format)) {
+      return NextResponse.json({ error: "Format must be xero or quickbooks" }, { status: 400 })
+    }
+
+    const sources = Array.isArray(body.sources) ? body.sources.filter(isAccountingExportSource) : []
+    const period = parseAccountingExportPeriod(body.startDate, body.endDate)
+
+    const result = await createAccountingExport(session.companyId, {
+      format: body.format,
+      sources,
+      period,
+      createdById: session.id,
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof AccountingExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating accounting export:", error)
+    return NextResponse.json({ error: "Failed to create accounting export" }, { status: 500 })
+  }
+}
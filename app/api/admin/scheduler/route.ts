@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { cookies } from "next/headers"
+import { jwtVerify } from "jose"
+import { db } from "@/lib/db"
+import { getScheduledTask, getSchedulerStatus, runTask } from "@/lib/scheduler"
+
+const JWT_SECRET = new TextEncoder().encode(
+  process.env.JWT_SECRET || "your-super-secret-jwt-key-change-in-production"
+)
+
+// Verify admin session middleware
+async function verifyAdmin() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get("admin_token")?.value
+
+  if (!token) {
+    return null
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, JWT_SECRET)
+    return payload.adminId as number
+  } catch {
+    return null
+  }
+}
+
+// GET /api/admin/scheduler - Task status and recent run history
+export async function GET() {
+  if (!db) {
+    return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+  }
+
+  const adminId = await verifyAdmin()
+  if (!adminId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const status = await getSchedulerStatus()
+    return NextResponse.json({
+      ...status,
+      cronConfigured: Boolean(process.env.CRON_SECRET),
+    })
+  } catch (error) {
+    console.error("Error fetching scheduler status:", error)
+    return NextResponse.json({ error: "Failed to fetch scheduler status" }, { status: 500 })
+  }
+}
+
+// POST /api/admin/scheduler - Run a task now
+export async function POST(request: NextRequest) {
+  if (!db) {
+    return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+  }
+
+  const adminId = await verifyAdmin()
+  if (!adminId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const task = getScheduledTask(body.task)
+    if (!task) {
+      return NextResponse.json({ error: "Unknown task" }, { status: 400 })
+    }
+
+    const companyId = body.companyId ? parseInt(body.companyId) : null
+    if (companyId !== null && !Number.isFinite(companyId)) {
+      return NextResponse.json({ error: "Invalid company" }, { status: 400 })
+    }
+
+    const outcomes = await runTask(task, { trigger: "manual", companyId })
+    const locked = outcomes.length === 1 && outcomes[0].reason === "Task is already running"
+    if (locked) {
+      return NextResponse.json({ error: "Task is already running" }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      succeeded: outcomes.filter((outcome) => outcome.status === "succeeded").length,
+      failed: outcomes.filter((outcome) => outcome.status === "failed").length,
+      runs: outcomes,
+    })
+  } catch (error) {
+    console.error("Error running scheduled task:", error)
+    return NextResponse.json({ error: "Failed to run task" }, { status: 500 })
+  }
+}
@@ -4,7 +4,7 @@ import { requireAuth } from "@/lib/auth"
 import { eq, and } from "drizzle-orm"
 import { unlink } from "fs/promises"
 import path from "path"
-import { UPLOAD_DIR } from "@/lib/file-storage"
+import { deleteStoredFiles, withSignedUrls } from "@/lib/storage"
 
 // GET /api/attachments/[id] - Get a specific attachment
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -25,7 +25,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
     }
 
-    return NextResponse.json(attachment)
+    return NextResponse.json(await withSignedUrls(attachment))
   } catch (error) {
     console.error("Get attachment error:", error)
     return NextResponse.json({ error: "Failed to fetch attachment" }, { status: 500 })
@@ -43,7 +43,7 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       return NextResponse.json({ error: "Invalid attachment ID" }, { status: 400 })
     }
 
-    // Get attachment to delete file from disk
+    // Get attachment to delete its file
     const attachment = await db!.query.attachments.findFirst({
       where: and(eq(schema.attachments.id, attachmentId), eq(schema.attachments.companyId, session.companyId)),
     })
@@ -55,10 +55,16 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     // Delete from database
     await db!.delete(schema.attachments).where(eq(schema.attachments.id, attachmentId))
 
-    // Delete file from disk
+    if (attachment.storageKey) {
+      await deleteStoredFiles(attachment.storageKey, attachment.thumbnailKey)
+      return NextResponse.json({ message: "Attachment deleted successfully" })
+    }
+
+    // Uploads from before private storage still live under public/
     try {
-      const filePath = path.join(process.cwd(), "public", attachment.url)
-      await unlink(filePath)
+      if (attachment.url) {
+        await unlink(path.join(process.cwd(), "public", attachment.url))
+      }
 
       // Delete thumbnail if exists
       if (attachment.thumbnailUrl) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and, desc } from "drizzle-orm"
+import { withSignedUrls } from "@/lib/storage"
 
 // GET /api/attachments - Get attachments with optional filtering
 export async function GET(request: NextRequest) {
@@ -47,7 +48,7 @@ export async function GET(request: NextRequest) {
       orderBy: [desc(schema.attachments.createdAt)],
     })
 
-    return NextResponse.json(attachments)
+    return NextResponse.json(await Promise.all(attachments.map(withSignedUrls)))
   } catch (error) {
     console.error("Get attachments error:", error)
     return NextResponse.json({ error: "Failed to fetch attachments" }, { status: 500 })
@@ -4,6 +4,13 @@ import * as schema from "@/lib/db/schema"
 import { eq, and } from "drizzle-orm"
 import { requireAuth } from "@/lib/auth"
 import { sendJobAssignmentEmail } from "@/lib/email"
+import { findDuplicateCustomers } from "@/lib/customer-merge"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 const parseDurationMinutes = (value?: string | null) => {
   if (!value) return 60
@@ -75,6 +82,7 @@ export async function POST(
       planId,
       createCustomer = true,
       sendNotification = true,
+      overrideReason,
     } = body
 
     const scheduledStart = scheduledFor
@@ -119,97 +127,145 @@ export async function POST(
       }
     }
 
-    // Determine customer ID
-    let customerId = bookingRequest.customerId
+    if (assignedTo) {
+      const assignee = await db.query.employees.findFirst({
+        where: and(eq(schema.employees.id, assignedTo), eq(schema.employees.companyId, session.companyId)),
+      })
+      if (!assignee) {
+        return NextResponse.json({ error: "Assigned employee not found" }, { status: 404 })
+      }
+    }
+
+    // Generate job title based on service type
+    const serviceTypeLabels: Record<string, string> = {
+      regular: "Regular Cleaning",
+      deep_clean: "Deep Cleaning",
+      move_in: "Move-In Cleaning",
+      move_out: "Move-Out Cleaning",
+      one_time: "One-Time Cleaning",
+      spring_clean: "Spring Cleaning",
+    }
+    
+    const jobTitle = title || serviceTypeLabels[bookingRequest.serviceType] || "Cleaning Service"
+    const jobWindow = getJobWindow({
+      scheduledFor: scheduledStart,
+      scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : null,
+      durationMinutes: resolvedDurationMinutes,
+    })
+
+    // The clash check, the customer and the job share a transaction so a clash leaves nothing behind
+    const converted = await db.transaction(async (tx) => {
+      const conflictCheck =
+        jobWindow && assignedTo
+          ? await assertNoSchedulingConflicts(
+              tx,
+              session.companyId,
+              [{ kind: "job", employeeIds: [assignedTo], ...jobWindow }],
+              { overrideReason, role: session.role },
+            )
+          : null
+
+      // Determine customer ID
+      let customerId = bookingRequest.customerId
+
+      // Create customer if doesn't exist
+      if (!customerId && createCustomer) {
+        const [newCustomer] = await tx
+          .insert(schema.customers)
+          .values({
+            companyId: session.companyId,
+            firstName: bookingRequest.customerFirstName,
+            lastName: bookingRequest.customerLastName,
+            email: bookingRequest.customerEmail,
+            phone: bookingRequest.customerPhone,
+            address: bookingRequest.address,
+            addressLine2: bookingRequest.addressLine2,
+            city: bookingRequest.city,
+            postcode: bookingRequest.postcode,
+            accessInstructions: bookingRequest.accessInstructions,
+            customerType: bookingRequest.propertyType === "office" ? "commercial" : "residential",
+            status: "active",
+            source: bookingRequest.source || "booking_request",
+          })
+          .returning()
+
+        customerId = newCustomer.id
+
+        // Update booking request with new customer ID
+        await tx
+          .update(schema.bookingRequests)
+          .set({ customerId: newCustomer.id })
+          .where(eq(schema.bookingRequests.id, requestId))
+      }
+
+      if (!customerId) {
+        return null
+      }
 
-    // Create customer if doesn't exist
-    if (!customerId && createCustomer) {
-      const [newCustomer] = await db
-        .insert(schema.customers)
+      // Create the job
+      const [job] = await tx
+        .insert(schema.jobs)
         .values({
           companyId: session.companyId,
-          firstName: bookingRequest.customerFirstName,
-          lastName: bookingRequest.customerLastName,
-          email: bookingRequest.customerEmail,
-          phone: bookingRequest.customerPhone,
-          address: bookingRequest.address,
+          customerId,
+          title: jobTitle,
+          description: bookingRequest.specialRequirements || null,
+          assignedTo: assignedTo || null,
+          planId,
+          location: bookingRequest.address,
           addressLine2: bookingRequest.addressLine2,
           city: bookingRequest.city,
           postcode: bookingRequest.postcode,
           accessInstructions: bookingRequest.accessInstructions,
-          customerType: bookingRequest.propertyType === "office" ? "commercial" : "residential",
-          status: "active",
-          source: bookingRequest.source || "booking_request",
+          scheduledFor: scheduledStart,
+          scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : null,
+          durationMinutes: resolvedDurationMinutes,
+          recurrence: bookingRequest.frequency !== "one_time" ? bookingRequest.frequency : null,
+          status: assignedTo ? "scheduled" : "pending",
+          priority: bookingRequest.priority || "normal",
+          estimatedPrice: estimatedPrice || bookingRequest.quotedPrice || bookingRequest.estimatedPrice,
+          currency: bookingRequest.currency || "GBP",
+          serviceAreaId: bookingRequest.serviceAreaId,
+          // The surcharge and itemised quote only describe the price when the booking's own estimate is used
+          areaSurcharge: estimatedPrice || bookingRequest.quotedPrice ? null : bookingRequest.areaSurcharge,
+          priceBreakdown: estimatedPrice || bookingRequest.quotedPrice ? null : bookingRequest.priceBreakdown,
+          internalNotes: `Converted from booking request #${requestId}`,
+          employeePay: employeePay !== undefined && employeePay !== null ? employeePay : null,
         })
         .returning()
 
-      customerId = newCustomer.id
-
-      // Update booking request with new customer ID
-      await db
+      // Update booking request status
+      await tx
         .update(schema.bookingRequests)
-        .set({ customerId: newCustomer.id })
+        .set({
+          status: "converted",
+          convertedToJobId: job.id,
+          convertedAt: new Date(),
+          convertedBy: session.id,
+          updatedAt: new Date(),
+        })
         .where(eq(schema.bookingRequests.id, requestId))
-    }
 
-    if (!customerId) {
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: job.id,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return { customerId, job }
+    })
+
+    if (!converted) {
       return NextResponse.json(
         { error: "Customer ID is required. Either create a customer or link to an existing one." },
         { status: 400 }
       )
     }
-
-    // Generate job title based on service type
-    const serviceTypeLabels: Record<string, string> = {
-      regular: "Regular Cleaning",
-      deep_clean: "Deep Cleaning",
-      move_in: "Move-In Cleaning",
-      move_out: "Move-Out Cleaning",
-      one_time: "One-Time Cleaning",
-      spring_clean: "Spring Cleaning",
-    }
-    
-    const jobTitle = title || serviceTypeLabels[bookingRequest.serviceType] || "Cleaning Service"
-
-    // Create the job
-    const [newJob] = await db
-      .insert(schema.jobs)
-      .values({
-        companyId: session.companyId,
-        customerId,
-        title: jobTitle,
-        description: bookingRequest.specialRequirements || null,
-        assignedTo: assignedTo || null,
-        planId,
-        location: bookingRequest.address,
-        addressLine2: bookingRequest.addressLine2,
-        city: bookingRequest.city,
-        postcode: bookingRequest.postcode,
-        accessInstructions: bookingRequest.accessInstructions,
-        scheduledFor: scheduledStart,
-        scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : null,
-        durationMinutes: resolvedDurationMinutes,
-        recurrence: bookingRequest.frequency !== "one_time" ? bookingRequest.frequency : null,
-        status: assignedTo ? "scheduled" : "pending",
-        priority: bookingRequest.priority || "normal",
-        estimatedPrice: estimatedPrice || bookingRequest.quotedPrice || bookingRequest.estimatedPrice,
-        currency: bookingRequest.currency || "GBP",
-        internalNotes: `Converted from booking request #${requestId}`,
-        employeePay: employeePay !== undefined && employeePay !== null ? employeePay : null,
-      })
-      .returning()
-
-    // Update booking request status
-    await db
-      .update(schema.bookingRequests)
-      .set({
-        status: "converted",
-        convertedToJobId: newJob.id,
-        convertedAt: new Date(),
-        convertedBy: session.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(schema.bookingRequests.id, requestId))
+    const { customerId, job: newJob } = converted
 
     try {
       const planTasks = await db.query.planTasks.findMany({
@@ -299,6 +355,21 @@ export async function POST(
       }
     }
 
+    // A new customer from a booking is the usual way a second record for someone creeps in
+    let possibleDuplicates: { id: number; name: string; score: number }[] = []
+    if (!bookingRequest.customerId) {
+      try {
+        const matches = await findDuplicateCustomers(session.companyId, { customerId, limit: 3 })
+        possibleDuplicates = matches.map((match) => ({
+          id: match.otherCustomer.id,
+          name: match.otherCustomer.name,
+          score: match.score,
+        }))
+      } catch (duplicateError) {
+        console.error("Failed to check for duplicate customers:", duplicateError)
+      }
+    }
+
     // Fetch the complete job with customer info
     const [completeJob] = await db
       .select({
@@ -328,8 +399,12 @@ export async function POST(
           : null,
       },
       customerCreated: !bookingRequest.customerId,
+      possibleDuplicates,
     })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Error converting booking request:", error)
     return NextResponse.json(
       { error: "Failed to convert booking request" },
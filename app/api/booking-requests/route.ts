@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
-import { bookingRequests, customers, companies } from "@/lib/db/schema"
+import { bookingRequests, customers, companies, employees, jobs } from "@/lib/db/schema"
 import { eq, and, desc, sql } from "drizzle-orm"
 import { requireAuth } from "@/lib/auth"
-import { sendBookingRequestAcknowledgmentEmail, sendNewBookingRequestToCompanyEmail } from "@/lib/email"
+import {
+  sendBookingRequestAcknowledgmentEmail,
+  sendJobAssignmentEmail,
+  sendJobConfirmationEmail,
+  sendNewBookingRequestToCompanyEmail,
+} from "@/lib/email"
+import { isCompanyNotificationEnabled } from "@/lib/notification-settings"
+import { BookingError, confirmHeldBooking, releaseBookingHold } from "@/lib/instant-booking"
+import { normalizeBookingSettings } from "@/lib/booking-settings"
+import { resolveServiceArea } from "@/lib/service-areas"
+import { normalizePriceBook } from "@/lib/price-book"
+import { calculatePrice, parsePricingInput, PricingError, type PriceQuote } from "@/lib/pricing"
+import type { Job } from "@/lib/db/schema"
 
 /**
  * GET /api/booking-requests
@@ -94,9 +106,9 @@ export async function POST(request: NextRequest) {
       preferredTimeSlot,
       alternateDate,
       frequency,
-      estimatedPrice,
       source,
       referralCode,
+      holdToken,
     } = body
 
     // Validate required fields
@@ -119,8 +131,43 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if customer already exists by email, or create a new customer
-    let existingCustomerId = customerId
+    // Out-of-area bookings are turned away or flagged, depending on the company's setting
+    const { hasAreas, match: areaMatch } = await resolveServiceArea(company.id, {
+      postcode,
+      address: [address, city],
+    })
+    const outOfArea = hasAreas && !areaMatch
+    if (outOfArea && normalizeBookingSettings(company.bookingSettings).outOfAreaPolicy === "reject") {
+      return NextResponse.json(
+        { error: `Sorry, ${company.name} doesn't cover ${postcode || "this address"} yet.`, outOfArea: true },
+        { status: 422 }
+      )
+    }
+
+    // The estimate comes from the company's price book rather than the browser, so it matches the invoice
+    let quote: PriceQuote | null = null
+    const pricingInput = parsePricingInput(body)
+    if (pricingInput) {
+      try {
+        quote = calculatePrice(normalizePriceBook(company.priceBook), pricingInput, areaMatch?.area)
+      } catch (error) {
+        if (!(error instanceof PricingError)) throw error
+      }
+    }
+
+    // A customer id from the browser is only trusted when it is this company's customer with this
+    // email; otherwise match by email, or create a new customer
+    let existingCustomerId: number | null = null
+    if (customerId) {
+      const portalCustomer = await db.query.customers.findFirst({
+        where: and(
+          eq(customers.id, Number(customerId)),
+          eq(customers.companyId, companyId),
+          eq(customers.email, customerEmail.toLowerCase())
+        ),
+      })
+      existingCustomerId = portalCustomer?.id ?? null
+    }
     if (!existingCustomerId) {
       const existingCustomer = await db.query.customers.findFirst({
         where: and(
@@ -181,35 +228,127 @@ export async function POST(request: NextRequest) {
         preferredTimeSlot: preferredTimeSlot || null,
         alternateDate: alternateDate ? new Date(alternateDate) : null,
         frequency: frequency || "one_time",
-        estimatedPrice: estimatedPrice ? estimatedPrice.toString() : null,
+        estimatedPrice: quote ? quote.total.toFixed(2) : null,
+        priceBreakdown: quote,
+        serviceAreaId: areaMatch?.area.id ?? null,
+        areaSurcharge: quote && quote.areaSurcharge > 0 ? quote.areaSurcharge.toFixed(2) : null,
+        outOfArea: outOfArea ? 1 : 0,
         source: source || "website",
         referralCode: referralCode || null,
         status: "pending",
       })
       .returning()
 
-    // Send acknowledgment email to customer
-    try {
-      await sendBookingRequestAcknowledgmentEmail({
-        to: customerEmail,
-        customerName: `${customerFirstName} ${customerLastName}`,
-        serviceType,
-        preferredDate: preferredDate ? new Date(preferredDate) : null,
-        preferredTimeSlot: preferredTimeSlot || null,
-        address,
-        city: city || null,
-        postcode: postcode || null,
-        estimatedPrice: estimatedPrice ? estimatedPrice.toString() : null,
-        frequency: frequency || "one_time",
-        companyName: company.name,
-        companyEmail: company.email || null,
-        companyPhone: company.phone || null,
-        portalUrl: `${process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"}/portal`,
-      })
-      console.log(`Booking acknowledgment email sent to ${customerEmail}`)
-    } catch (emailError) {
-      // Log email error but don't fail the request
-      console.error("Failed to send booking acknowledgment email:", emailError)
+    // A time picked on the booking page becomes a job straight away; if it has gone in the
+    // meantime the request is left pending for the company to schedule
+    let bookedJob: Job | null = null
+    let bookedEmployeeId: number | null = null
+    let bookingNotice: string | null = null
+    if (holdToken && outOfArea) {
+      await releaseBookingHold(String(holdToken))
+      bookingNotice = `Your address is outside ${company.name}'s usual area, so we've sent your request to them to arrange a time.`
+    } else if (holdToken && existingCustomerId) {
+      try {
+        const confirmed = await confirmHeldBooking(company.id, {
+          token: String(holdToken),
+          bookingRequestId: newRequest.id,
+        })
+        bookedJob = confirmed.job
+        bookedEmployeeId = confirmed.employeeId
+      } catch (bookingError) {
+        if (!(bookingError instanceof BookingError)) throw bookingError
+        bookingNotice = `${bookingError.message}. We've sent your request to ${company.name} to arrange a time.`
+      }
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+
+    if (bookedJob) {
+      const employee = bookedEmployeeId
+        ? await db.query.employees.findFirst({ where: eq(employees.id, bookedEmployeeId) })
+        : null
+      const employeeName = employee ? `${employee.firstName} ${employee.lastName}` : null
+
+      try {
+        await sendJobConfirmationEmail({
+          to: customerEmail,
+          customerName: `${customerFirstName} ${customerLastName}`,
+          jobTitle: bookedJob.title,
+          jobDescription: bookedJob.description || "",
+          scheduledDate: bookedJob.scheduledFor,
+          scheduledEndDate: bookedJob.scheduledEnd,
+          durationMinutes: bookedJob.durationMinutes || 120,
+          location: bookedJob.location || "",
+          city: bookedJob.city || "",
+          postcode: bookedJob.postcode || "",
+          accessInstructions: bookedJob.accessInstructions || "",
+          estimatedPrice: bookedJob.estimatedPrice || "0",
+          currency: bookedJob.currency || "GBP",
+          employeeName,
+          companyName: company.name,
+          companyPhone: company.phone || "",
+          companyEmail: company.email || "",
+          customMessage: null,
+          jobUrl: `${baseUrl}/portal/dashboard`,
+          rescheduleUrl: `${baseUrl}/portal/dashboard`,
+        })
+        await db
+          .update(jobs)
+          .set({ customerConfirmationSent: 1, customerConfirmationSentAt: new Date(), updatedAt: new Date() })
+          .where(eq(jobs.id, bookedJob.id))
+      } catch (emailError) {
+        console.error("Failed to send booking confirmation email:", emailError)
+      }
+
+      if (employee?.email) {
+        try {
+          await sendJobAssignmentEmail({
+            employeeEmail: employee.email,
+            employeeName: `${employee.firstName} ${employee.lastName}`,
+            jobTitle: bookedJob.title,
+            jobDescription: bookedJob.description || "",
+            customerName: `${customerFirstName} ${customerLastName}`,
+            customerPhone: customerPhone || null,
+            address: [address, city, postcode].filter(Boolean).join(", "),
+            scheduledDate: bookedJob.scheduledFor || new Date(),
+            scheduledTime: bookedJob.scheduledFor
+              ? bookedJob.scheduledFor.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })
+              : null,
+            estimatedDuration: bookedJob.durationMinutes ? `${bookedJob.durationMinutes} minutes` : null,
+            specialInstructions: accessInstructions || null,
+            companyName: company.name,
+            jobUrl: `${baseUrl}/employee/jobs/${bookedJob.id}`,
+          })
+        } catch (emailError) {
+          console.error("Failed to send job assignment email:", emailError)
+        }
+      }
+    }
+
+    // Send acknowledgment email to customer; a booked job gets its confirmation instead
+    if (!bookedJob) {
+      try {
+        await sendBookingRequestAcknowledgmentEmail({
+          to: customerEmail,
+          customerName: `${customerFirstName} ${customerLastName}`,
+          serviceType,
+          preferredDate: preferredDate ? new Date(preferredDate) : null,
+          preferredTimeSlot: preferredTimeSlot || null,
+          address,
+          city: city || null,
+          postcode: postcode || null,
+          estimatedPrice: newRequest.estimatedPrice,
+          frequency: frequency || "one_time",
+          companyName: company.name,
+          companyEmail: company.email || null,
+          companyPhone: company.phone || null,
+          portalUrl: `${baseUrl}/portal`,
+        })
+        console.log(`Booking acknowledgment email sent to ${customerEmail}`)
+      } catch (emailError) {
+        // Log email error but don't fail the request
+        console.error("Failed to send booking acknowledgment email:", emailError)
+      }
     }
 
     // Send notification email to company
@@ -227,11 +366,11 @@ export async function POST(request: NextRequest) {
           address,
           city: city || null,
           postcode: postcode || null,
-          estimatedPrice: estimatedPrice ? estimatedPrice.toString() : null,
+          estimatedPrice: newRequest.estimatedPrice,
           frequency: frequency || "one_time",
           specialRequirements: specialRequirements || null,
           bookingId: newRequest.id,
-          dashboardUrl: `${process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"}/booking-requests`,
+          dashboardUrl: `${baseUrl}/booking-requests`,
         })
         console.log(`Booking notification email sent to company ${company.email}`)
       } catch (emailError) {
@@ -239,7 +378,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json(newRequest, { status: 201 })
+    return NextResponse.json(
+      {
+        ...newRequest,
+        status: bookedJob ? "converted" : newRequest.status,
+        convertedToJobId: bookedJob?.id ?? null,
+        booking: bookedJob
+          ? { status: "booked", jobId: bookedJob.id, scheduledFor: bookedJob.scheduledFor, scheduledEnd: bookedJob.scheduledEnd }
+          : { status: "requested", notice: bookingNotice },
+      },
+      { status: 201 }
+    )
   } catch (error) {
     console.error("Error creating booking request:", error)
     return NextResponse.json(
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { eq } from "drizzle-orm"
+import {
+  defaultLeaveSettings,
+  normalizeLeaveSettings,
+  CompanyLeaveSettings,
+} from "@/lib/leave-settings"
+
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const company = await db.query.companies.findFirst({
+      where: eq(schema.companies.id, session.companyId),
+    })
+
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    const settings = normalizeLeaveSettings(company.leaveSettings)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error("Get leave settings error:", error)
+    return NextResponse.json({ error: "Failed to load leave settings" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const normalized: CompanyLeaveSettings = normalizeLeaveSettings(body?.settings ?? body)
+
+    const [updated] = await db
+      .update(schema.companies)
+      .set({
+        leaveSettings: normalized,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.companies.id, session.companyId))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ settings: normalized })
+  } catch (error) {
+    console.error("Update leave settings error:", error)
+    return NextResponse.json({
+      error: "Failed to update leave settings",
+      settings: defaultLeaveSettings,
+    }, { status: 500 })
+  }
+}
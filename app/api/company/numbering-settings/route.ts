@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { eq } from "drizzle-orm"
+import {
+  DOCUMENT_SERIES,
+  defaultNumberingSettings,
+  documentSeriesLabels,
+  hasSequenceToken,
+  normalizeNumberingSettings,
+  CompanyNumberingSettings,
+} from "@/lib/numbering-settings"
+
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const company = await db.query.companies.findFirst({
+      where: eq(schema.companies.id, session.companyId),
+    })
+
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    const settings = normalizeNumberingSettings(company.numberingSettings)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error("Get numbering settings error:", error)
+    return NextResponse.json({ error: "Failed to load numbering settings" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const incoming = body?.settings ?? body
+
+    // Normalizing would quietly fall back to the default, so reject patterns that can't number anything
+    for (const series of DOCUMENT_SERIES) {
+      const pattern = incoming?.[series]?.pattern
+      if (typeof pattern === "string" && !hasSequenceToken(pattern)) {
+        return NextResponse.json(
+          { error: `${documentSeriesLabels[series]} format must include a {SEQ} token` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const normalized: CompanyNumberingSettings = normalizeNumberingSettings(incoming)
+
+    const [updated] = await db
+      .update(schema.companies)
+      .set({
+        numberingSettings: normalized,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.companies.id, session.companyId))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ settings: normalized })
+  } catch (error) {
+    console.error("Update numbering settings error:", error)
+    return NextResponse.json({
+      error: "Failed to update numbering settings",
+      settings: defaultNumberingSettings,
+    }, { status: 500 })
+  }
+}
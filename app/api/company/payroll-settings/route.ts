@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { eq } from "drizzle-orm"
+import {
+  defaultPayrollSettings,
+  normalizePayrollSettings,
+  CompanyPayrollSettings,
+} from "@/lib/payroll-settings"
+
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const company = await db.query.companies.findFirst({
+      where: eq(schema.companies.id, session.companyId),
+    })
+
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    const settings = normalizePayrollSettings(company.payrollSettings)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error("Get payroll settings error:", error)
+    return NextResponse.json({ error: "Failed to load payroll settings" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const normalized: CompanyPayrollSettings = normalizePayrollSettings(body?.settings ?? body)
+
+    const [updated] = await db
+      .update(schema.companies)
+      .set({
+        payrollSettings: normalized,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.companies.id, session.companyId))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ settings: normalized })
+  } catch (error) {
+    console.error("Update payroll settings error:", error)
+    return NextResponse.json({
+      error: "Failed to update payroll settings",
+      settings: defaultPayrollSettings,
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { eq } from "drizzle-orm"
+import { defaultVatSettings, normalizeVatSettings, CompanyVatSettings } from "@/lib/vat-settings"
+
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const company = await db.query.companies.findFirst({
+      where: eq(schema.companies.id, session.companyId),
+    })
+
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    const settings = normalizeVatSettings(company.vatSettings)
+
+    return NextResponse.json({ settings, vatNumber: company.taxId })
+  } catch (error) {
+    console.error("Get VAT settings error:", error)
+    return NextResponse.json({ error: "Failed to load VAT settings" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const normalized: CompanyVatSettings = normalizeVatSettings(body?.settings ?? body)
+    const vatNumber = typeof body?.vatNumber === "string" ? body.vatNumber.trim().slice(0, 100) : undefined
+
+    const [updated] = await db
+      .update(schema.companies)
+      .set({
+        vatSettings: normalized,
+        ...(vatNumber !== undefined && { taxId: vatNumber || null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.companies.id, session.companyId))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ settings: normalized, vatNumber: updated.taxId })
+  } catch (error) {
+    console.error("Update VAT settings error:", error)
+    return NextResponse.json({
+      error: "Failed to update VAT settings",
+      settings: defaultVatSettings,
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getContractHistory } from "@/lib/contract-lifecycle"
+
+// GET /api/contracts/[id]/history - Lifecycle history of a contract, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const contractId = parseInt(id)
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: "Invalid contract ID" }, { status: 400 })
+    }
+
+    const history = await getContractHistory(session.companyId, contractId)
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error("Error fetching contract history:", error)
+    return NextResponse.json({ error: "Failed to fetch contract history" }, { status: 500 })
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
-import { eq, and, inArray } from "drizzle-orm"
+import { eq, and, desc, inArray } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import {
+  ContractLifecycleError,
+  firstInvoiceDate,
+  parseLifecycleSettings,
+  recordContractHistory,
+} from "@/lib/contract-lifecycle"
 
 // GET /api/contracts/[id]
 export async function GET(
@@ -28,6 +34,21 @@ export async function GET(
       ),
       with: {
         customer: true,
+        // Latest e-signature, with its signed PDF
+        signatures: {
+          where: eq(schema.documentSignatures.status, "signed"),
+          orderBy: [desc(schema.documentSignatures.signedAt)],
+          limit: 1,
+          columns: {
+            id: true,
+            signerName: true,
+            signerEmail: true,
+            signingMethod: true,
+            ipAddress: true,
+            signedAt: true,
+            signedDocumentHash: true,
+          },
+        },
       },
     })
 
@@ -72,7 +93,7 @@ export async function PATCH(
       return NextResponse.json({ error: "Contract not found" }, { status: 404 })
     }
 
-    const updateData: any = { updatedAt: new Date() }
+    const updateData: any = { updatedAt: new Date(), ...parseLifecycleSettings(body) }
     
     if (body.title !== undefined) updateData.title = body.title
     if (body.description !== undefined) updateData.description = body.description
@@ -81,7 +102,6 @@ export async function PATCH(
     if (body.endDate !== undefined) updateData.endDate = body.endDate ? new Date(body.endDate) : null
     if (body.autoRenew !== undefined) updateData.autoRenew = body.autoRenew ? 1 : 0
     if (body.amount !== undefined) updateData.amount = body.amount.toString()
-    if (body.billingFrequency !== undefined) updateData.billingFrequency = body.billingFrequency
     if (body.status !== undefined) updateData.status = body.status
     if (body.notes !== undefined) updateData.notes = body.notes
     if (body.terms !== undefined) updateData.terms = body.terms
@@ -113,6 +133,10 @@ export async function PATCH(
     if (body.status === "active" && !existing.signedAt) {
       updateData.signedAt = new Date()
     }
+    // Billing starts when the contract first becomes active
+    if (body.status === "active" && !existing.nextInvoiceDate && updateData.nextInvoiceDate === undefined) {
+      updateData.nextInvoiceDate = firstInvoiceDate({ ...existing, ...updateData })
+    }
     if (body.status === "cancelled" && !existing.cancelledAt) {
       updateData.cancelledAt = new Date()
     }
@@ -130,14 +154,36 @@ export async function PATCH(
       }
     }
 
-    const [updated] = await db
-      .update(schema.contracts)
-      .set(updateData)
-      .where(eq(schema.contracts.id, contractId))
-      .returning()
+    const updated = await db.transaction(async (tx) => {
+      const [contract] = await tx
+        .update(schema.contracts)
+        .set(updateData)
+        .where(eq(schema.contracts.id, contractId))
+        .returning()
+
+      if (body.status !== undefined && body.status !== existing.status) {
+        await recordContractHistory(
+          {
+            companyId: session.companyId,
+            contractId,
+            event: "status_changed",
+            fromStatus: existing.status,
+            toStatus: contract.status,
+            userId: session.id,
+            description: `Status changed from ${existing.status} to ${contract.status}`,
+          },
+          tx,
+        )
+      }
+
+      return contract
+    })
 
     return NextResponse.json(updated)
   } catch (error) {
+    if (error instanceof ContractLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error updating contract:", error)
     return NextResponse.json({ error: "Failed to update contract" }, { status: 500 })
   }
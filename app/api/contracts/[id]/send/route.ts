@@ -4,6 +4,7 @@ import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
 import { sendEmail } from "@/lib/email"
 import { generateContractPDF } from "@/lib/pdf-generator"
+import { createSignatureRequest, getSigningUrl } from "@/lib/e-signatures"
 
 // POST /api/contracts/[id]/send - Send contract notification email to customer
 export async function POST(
@@ -88,32 +89,46 @@ export async function POST(
       })
     }
 
-    const pdfDoc = generateContractPDF({
-      contractNumber: contract.contractNumber,
-      title: contract.title,
-      description: contract.description,
-      frequency: contract.frequency,
-      amount: contract.amount,
-      billingFrequency: contract.billingFrequency,
-      startDate: contract.startDate ? contract.startDate.toISOString() : null,
-      endDate: contract.endDate ? contract.endDate.toISOString() : null,
-      autoRenew: contract.autoRenew === 1,
-      status: contract.status,
-      terms: contract.terms,
-      notes: contract.notes,
-      company: {
-        name: companyName,
-      },
-      customer: {
-        name: customerName,
-        email: customer.email,
-        phone: customer.phone,
-        address: customer.address,
-        city: customer.city,
-        postcode: customer.postcode,
-      },
-    })
-    const pdfBuffer = Buffer.from(pdfDoc.output("arraybuffer"))
+    // Draft contracts go out with a signing link, and the PDF attached is the one being signed
+    let signingUrl: string | null = null
+    let pdfBuffer: Buffer
+    if (contract.status === "draft" && type !== "cancelled") {
+      const signingRequest = await createSignatureRequest(
+        session.companyId,
+        { type: "contract", id: contract.id },
+        { sentTo: customer.email },
+      )
+      signingUrl = getSigningUrl(signingRequest.signature.token)
+      pdfBuffer = signingRequest.pdf
+    } else {
+      pdfBuffer = Buffer.from(
+        generateContractPDF({
+          contractNumber: contract.contractNumber,
+          title: contract.title,
+          description: contract.description,
+          frequency: contract.frequency,
+          amount: contract.amount,
+          billingFrequency: contract.billingFrequency,
+          startDate: contract.startDate ? contract.startDate.toISOString() : null,
+          endDate: contract.endDate ? contract.endDate.toISOString() : null,
+          autoRenew: contract.autoRenew === 1,
+          status: contract.status,
+          terms: contract.terms,
+          notes: contract.notes,
+          company: {
+            name: companyName,
+          },
+          customer: {
+            name: customerName,
+            email: customer.email,
+            phone: customer.phone,
+            address: customer.address,
+            city: customer.city,
+            postcode: customer.postcode,
+          },
+        }).output("arraybuffer"),
+      )
+    }
     const pdfFilename = `contract-${contract.contractNumber}.pdf`
 
     const html = `
@@ -169,6 +184,13 @@ export async function POST(
                 </table>
               </div>
               
+              ${signingUrl ? `
+              <p style="margin: 0 0 20px; color: #4a4a4a; font-size: 16px;">Please review the attached contract and sign it online.</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${signingUrl}" style="display: inline-block; background-color: #4f46e5; color: #ffffff; text-decoration: none; padding: 12px 28px; border-radius: 6px; font-size: 16px; font-weight: 600;">Review &amp; Sign Contract</a>
+              </div>
+              <p style="margin: 0 0 20px; color: #6b6b6b; font-size: 13px;">Or copy this link into your browser: ${signingUrl}</p>
+              ` : ""}
               <p style="margin: 20px 0 0; color: #6b6b6b; font-size: 14px;">
                 If you have any questions about your contract, please don't hesitate to contact us.
               </p>
@@ -215,11 +237,13 @@ export async function POST(
       return NextResponse.json({
         success: true,
         message: `Contract notification sent to ${customer.email}`,
+        signingUrl,
       })
     } else {
       return NextResponse.json({
         success: false,
         warning: `Email delivery failed: ${emailError}`,
+        signingUrl,
       })
     }
   } catch (error) {
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { ContractLifecycleError, requestContractTermination } from "@/lib/contract-lifecycle"
+
+// POST /api/contracts/[id]/terminate - Give notice on a contract, cancelling its visits after the last day
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const contractId = parseInt(id)
+    if (isNaN(contractId)) {
+      return NextResponse.json({ error: "Invalid contract ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const terminationDate = body.terminationDate ? new Date(body.terminationDate) : null
+    if (terminationDate && isNaN(terminationDate.getTime())) {
+      return NextResponse.json({ error: "Invalid termination date" }, { status: 400 })
+    }
+
+    const result = await requestContractTermination(session.companyId, contractId, {
+      reason: typeof body.reason === "string" ? body.reason : "",
+      terminationDate,
+      waiveNoticePeriod: body.waiveNoticePeriod === true,
+      userId: session.id,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof ContractLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error terminating contract:", error)
+    return NextResponse.json({ error: "Failed to terminate contract" }, { status: 500 })
+  }
+}
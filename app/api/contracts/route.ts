@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, desc, and, inArray } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { ContractLifecycleError, parseLifecycleSettings, recordContractHistory } from "@/lib/contract-lifecycle"
 
 // GET /api/contracts - List all contracts for the company
 export async function GET(request: NextRequest) {
@@ -19,6 +21,21 @@ export async function GET(request: NextRequest) {
       where: eq(schema.contracts.companyId, session.companyId),
       with: {
         customer: true,
+        // Latest e-signature, with its signed PDF
+        signatures: {
+          where: eq(schema.documentSignatures.status, "signed"),
+          orderBy: [desc(schema.documentSignatures.signedAt)],
+          limit: 1,
+          columns: {
+            id: true,
+            signerName: true,
+            signerEmail: true,
+            signingMethod: true,
+            ipAddress: true,
+            signedAt: true,
+            signedDocumentHash: true,
+          },
+        },
       },
       orderBy: [desc(schema.contracts.createdAt)],
     })
@@ -53,7 +70,6 @@ export async function POST(request: NextRequest) {
       endDate,
       autoRenew,
       amount,
-      billingFrequency,
       notes,
       terms,
       scheduleDays,
@@ -81,11 +97,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "End date cannot be in the past" }, { status: 400 })
     }
 
-    // Generate contract number
-    const existingContracts = await db.query.contracts.findMany({
-      where: eq(schema.contracts.companyId, session.companyId),
-    })
-    const contractNumber = `C-${new Date().getFullYear()}-${String(existingContracts.length + 1).padStart(4, "0")}`
+    const lifecycleSettings = parseLifecycleSettings(body)
 
     const parsedEmployeeIds = Array.isArray(employeeIds)
       ? employeeIds
@@ -104,34 +116,56 @@ export async function POST(request: NextRequest) {
         ).map((employee) => employee.id)
       : []
 
-    const [contract] = await db
-      .insert(schema.contracts)
-      .values({
-        companyId: session.companyId,
-        customerId,
-        quoteId: quoteId || null,
-        contractNumber,
-        title,
-        description,
-        frequency,
-        startDate: new Date(startDate),
-        endDate: endDate ? new Date(endDate) : null,
-        autoRenew: autoRenew ? 1 : 0,
-        amount: amount.toString(),
-        billingFrequency,
-        notes,
-        terms,
-        status: "draft",
-        scheduleDays: scheduleDays || [],
-        hoursPerWeek: hoursPerWeek ? hoursPerWeek.toString() : null,
-        hourlyRate: hourlyRate ? hourlyRate.toString() : null,
-        annualValue: annualValue ? annualValue.toString() : null,
-        employeeIds: validEmployeeIds,
-      })
-      .returning()
+    // Number the contract in the same transaction that creates it
+    const contract = await db.transaction(async (tx) => {
+      const contractNumber = await allocateDocumentNumber(tx, session.companyId, "contract", { customerId })
+
+      const [created] = await tx
+        .insert(schema.contracts)
+        .values({
+          companyId: session.companyId,
+          customerId,
+          quoteId: quoteId || null,
+          contractNumber,
+          title,
+          description,
+          frequency,
+          startDate: new Date(startDate),
+          endDate: endDate ? new Date(endDate) : null,
+          autoRenew: autoRenew ? 1 : 0,
+          amount: amount.toString(),
+          notes,
+          terms,
+          status: "draft",
+          scheduleDays: scheduleDays || [],
+          hoursPerWeek: hoursPerWeek ? hoursPerWeek.toString() : null,
+          hourlyRate: hourlyRate ? hourlyRate.toString() : null,
+          annualValue: annualValue ? annualValue.toString() : null,
+          employeeIds: validEmployeeIds,
+          ...lifecycleSettings,
+        })
+        .returning()
+
+      await recordContractHistory(
+        {
+          companyId: session.companyId,
+          contractId: created.id,
+          event: "created",
+          toStatus: created.status,
+          userId: session.id,
+          description: `Contract ${contractNumber} created`,
+        },
+        tx,
+      )
+
+      return created
+    })
 
     return NextResponse.json(contract, { status: 201 })
   } catch (error) {
+    if (error instanceof ContractLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating contract:", error)
     return NextResponse.json({ error: "Failed to create contract" }, { status: 500 })
   }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getCreditNotePdfData } from "@/lib/credit-notes"
+
+// GET /api/credit-notes/[id]/pdf - Get credit note data for PDF generation
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const pdfData = await getCreditNotePdfData(session.companyId, parseInt(id))
+
+    if (!pdfData) {
+      return NextResponse.json({ error: "Credit note not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(pdfData)
+  } catch (error) {
+    console.error("Error fetching credit note PDF data:", error)
+    return NextResponse.json({ error: "Failed to fetch credit note data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CreditNoteError, refundCreditNote } from "@/lib/credit-notes"
+
+// POST /api/credit-notes/[id]/refund - Record money paid back to the customer against a credit note
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const creditNoteId = parseInt(id)
+    if (isNaN(creditNoteId)) {
+      return NextResponse.json({ error: "Invalid credit note ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const result = await refundCreditNote(session.companyId, creditNoteId, {
+      amount: body.amount !== undefined && body.amount !== "" ? parseFloat(body.amount) : undefined,
+      method: typeof body.method === "string" ? body.method : undefined,
+      reference: body.reference || null,
+      notes: body.notes || null,
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof CreditNoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error refunding credit note:", error)
+    return NextResponse.json({ error: "Failed to record refund" }, { status: 500 })
+  }
+}
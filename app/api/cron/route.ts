@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { timingSafeEqual } from "crypto"
+import { db } from "@/lib/db"
+import { runDueTasks, type RunTrigger } from "@/lib/scheduler"
+
+// Scheduled tasks can take a while when there are many companies
+export const maxDuration = 300
+
+function isAuthorized(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const provided = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? ""
+  const expected = Buffer.from(secret)
+  const actual = Buffer.from(provided)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+async function handleCron(request: NextRequest) {
+  if (!process.env.CRON_SECRET) {
+    return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 })
+  }
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!db) {
+    return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const taskNames = searchParams.get("tasks")?.split(",").filter(Boolean)
+    const trigger: RunTrigger = searchParams.get("trigger") === "worker" ? "worker" : "cron"
+
+    const outcomes = await runDueTasks({ trigger, taskNames })
+
+    return NextResponse.json({
+      success: true,
+      succeeded: outcomes.filter((outcome) => outcome.status === "succeeded").length,
+      failed: outcomes.filter((outcome) => outcome.status === "failed").length,
+      skipped: outcomes.filter((outcome) => outcome.status === "skipped").length,
+      runs: outcomes.filter((outcome) => outcome.status !== "skipped"),
+    })
+  } catch (error) {
+    console.error("Error running scheduled tasks:", error)
+    return NextResponse.json({ error: "Failed to run scheduled tasks" }, { status: 500 })
+  }
+}
+
+// GET /api/cron - Run due scheduled tasks (called by Vercel Cron with the CRON_SECRET bearer token)
+export async function GET(request: NextRequest) {
+  return handleCron(request)
+}
+
+// POST /api/cron - Same as GET, for external schedulers and the local worker
+export async function POST(request: NextRequest) {
+  return handleCron(request)
+}
@@ -3,6 +3,8 @@ import { db } from "@/lib/db"
 import { contracts } from "@/lib/db/schema"
 import { and, eq } from "drizzle-orm"
 import { verify } from "jsonwebtoken"
+import { createSignatureRequest, parseSignatureInput, signDocument, SignatureError } from "@/lib/e-signatures"
+import { getClientIp } from "@/lib/rate-limit"
 
 const JWT_SECRET = process.env.NEXTAUTH_SECRET
 if (!JWT_SECRET) {
@@ -29,11 +31,16 @@ function getCustomerFromToken(request: NextRequest) {
   return decoded.customerId
 }
 
+// POST /api/customer-portal/contracts/[id]/sign - Customer e-signs a draft contract in the portal
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const customerId = getCustomerFromToken(request)
     const { id } = await params
     const contractId = parseInt(id)
@@ -54,18 +61,28 @@ export async function POST(
       return NextResponse.json({ error: "Only draft contracts can be signed" }, { status: 400 })
     }
 
-    const [updated] = await db
-      .update(contracts)
-      .set({
-        status: "active",
-        signedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(contracts.id, contractId))
-      .returning()
+    const body = await request.json().catch(() => ({}))
+    const input = parseSignatureInput(body)
+
+    // Signed as it reads now, which replaces any signing link still outstanding
+    const { signature } = await createSignatureRequest(contract.companyId, { type: "contract", id: contractId })
+    const ipAddress = getClientIp(request)
+    await signDocument(signature, input, {
+      signingMethod: "portal",
+      ipAddress: ipAddress === "unknown" ? null : ipAddress,
+      userAgent: request.headers.get("user-agent"),
+    })
+
+    const updated = await db.query.contracts.findFirst({
+      where: eq(contracts.id, contractId),
+    })
 
     return NextResponse.json(updated)
   } catch (error: any) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error signing contract:", error)
 
     if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { invoices, customers } from "@/lib/db/schema"
+import { eq, and } from "drizzle-orm"
+import { verify } from "jsonwebtoken"
+import { createInvoiceCheckoutSession, InvoicePaymentError } from "@/lib/invoice-payments"
+
+const JWT_SECRET = process.env.NEXTAUTH_SECRET
+
+function getCustomerFromToken(request: NextRequest) {
+  if (!JWT_SECRET) {
+    throw new Error("Server configuration error")
+  }
+
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized")
+  }
+
+  const token = authHeader.substring(7)
+  const decoded = verify(token, JWT_SECRET) as { customerId: number; type: string }
+
+  if (decoded.type !== "customer") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded.customerId
+}
+
+// POST /api/customer-portal/invoices/[id]/checkout - Pay an invoice by card from the portal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const { id } = await params
+    const invoiceId = parseInt(id)
+
+    if (isNaN(invoiceId)) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 })
+    }
+
+    const [result] = await db
+      .select({ invoice: invoices, customerEmail: customers.email })
+      .from(invoices)
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.customerId, customerId)))
+      .limit(1)
+
+    if (!result) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const amount = body?.amount !== undefined ? parseFloat(body.amount) : undefined
+
+    const session = await createInvoiceCheckoutSession(result.invoice, {
+      amount,
+      customerEmail: result.customerEmail,
+      cancelPath: "/portal/dashboard",
+    })
+
+    return NextResponse.json({ url: session.url })
+  } catch (error: any) {
+    if (error instanceof InvoicePaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Portal invoice checkout error:", error)
+    return NextResponse.json({ error: "Failed to start payment" }, { status: 500 })
+  }
+}
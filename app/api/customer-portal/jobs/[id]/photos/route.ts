@@ -3,6 +3,7 @@ import { db } from "@/lib/db"
 import { jobs, taskVerificationPhotos, employees } from "@/lib/db/schema"
 import { eq, and } from "drizzle-orm"
 import { verify } from "jsonwebtoken"
+import { withSignedUrls } from "@/lib/storage"
 
 const JWT_SECRET = process.env.NEXTAUTH_SECRET
 
@@ -68,6 +69,8 @@ export async function GET(
         id: taskVerificationPhotos.id,
         url: taskVerificationPhotos.url,
         thumbnailUrl: taskVerificationPhotos.thumbnailUrl,
+        storageKey: taskVerificationPhotos.storageKey,
+        thumbnailKey: taskVerificationPhotos.thumbnailKey,
         caption: taskVerificationPhotos.caption,
         capturedAt: taskVerificationPhotos.capturedAt,
         uploadedAt: taskVerificationPhotos.uploadedAt,
@@ -79,7 +82,8 @@ export async function GET(
 
     // Get employee names for photos
     const photosWithUploader = await Promise.all(
-      photos.map(async (photo) => {
+      photos.map(async (row) => {
+        const photo = await withSignedUrls(row)
         let uploaderName = null
         if (photo.employeeId) {
           const employee = await db!.query.employees.findFirst({
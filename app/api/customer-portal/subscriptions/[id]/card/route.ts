@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { subscriptions } from "@/lib/db/schema"
+import { and, eq } from "drizzle-orm"
+import { verify } from "jsonwebtoken"
+import { createCardSetupSession, SubscriptionError } from "@/lib/subscriptions"
+
+const JWT_SECRET = process.env.NEXTAUTH_SECRET
+
+function getCustomerFromToken(request: NextRequest) {
+  if (!JWT_SECRET) {
+    throw new Error("Server configuration error")
+  }
+
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized")
+  }
+
+  const token = authHeader.substring(7)
+  const decoded = verify(token, JWT_SECRET) as { customerId: number; type: string }
+
+  if (decoded.type !== "customer") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded.customerId
+}
+
+// POST /api/customer-portal/subscriptions/[id]/card - Start saving a new card for a subscription
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const { id } = await params
+    const subscriptionId = parseInt(id)
+
+    if (isNaN(subscriptionId)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 })
+    }
+
+    const subscription = await db.query.subscriptions.findFirst({
+      where: and(eq(subscriptions.id, subscriptionId), eq(subscriptions.customerId, customerId)),
+    })
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+
+    const session = await createCardSetupSession(subscription)
+    return NextResponse.json({ url: session.url })
+  } catch (error: any) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Portal subscription card setup error:", error)
+    return NextResponse.json({ error: "Failed to start card setup" }, { status: 500 })
+  }
+}
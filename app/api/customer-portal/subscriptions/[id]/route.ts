@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { subscriptions } from "@/lib/db/schema"
+import { and, eq } from "drizzle-orm"
+import { verify } from "jsonwebtoken"
+import {
+  cancelSubscription,
+  pauseSubscription,
+  resumeSubscription,
+  skipNextVisit,
+  SubscriptionError,
+} from "@/lib/subscriptions"
+
+const JWT_SECRET = process.env.NEXTAUTH_SECRET
+
+function getCustomerFromToken(request: NextRequest) {
+  if (!JWT_SECRET) {
+    throw new Error("Server configuration error")
+  }
+
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized")
+  }
+
+  const token = authHeader.substring(7)
+  const decoded = verify(token, JWT_SECRET) as { customerId: number; type: string }
+
+  if (decoded.type !== "customer") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded.customerId
+}
+
+// PATCH /api/customer-portal/subscriptions/[id] - Pause, resume, skip the next visit of or cancel a subscription
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const { id } = await params
+    const subscriptionId = parseInt(id)
+
+    if (isNaN(subscriptionId)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 })
+    }
+
+    const subscription = await db.query.subscriptions.findFirst({
+      where: and(eq(subscriptions.id, subscriptionId), eq(subscriptions.customerId, customerId)),
+    })
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { companyId } = subscription
+
+    switch (body?.action) {
+      case "pause": {
+        const resumeAt = body.resumeAt ? new Date(body.resumeAt) : null
+        if (resumeAt && isNaN(resumeAt.getTime())) {
+          return NextResponse.json({ error: "Invalid resume date" }, { status: 400 })
+        }
+        return NextResponse.json(await pauseSubscription(companyId, subscriptionId, { resumeAt }))
+      }
+      case "resume":
+        return NextResponse.json(await resumeSubscription(companyId, subscriptionId))
+      case "skip": {
+        const result = await skipNextVisit(companyId, subscriptionId)
+        return NextResponse.json(result.subscription)
+      }
+      case "cancel":
+        return NextResponse.json(await cancelSubscription(companyId, subscriptionId, { reason: body.reason }))
+      default:
+        return NextResponse.json({ error: "Action must be pause, resume, skip or cancel" }, { status: 400 })
+    }
+  } catch (error: any) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Error updating subscription:", error)
+    return NextResponse.json({ error: "Failed to update subscription" }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { subscriptions } from "@/lib/db/schema"
+import { and, eq } from "drizzle-orm"
+import { verify } from "jsonwebtoken"
+import { stripe } from "@/lib/stripe"
+import { recordCardSetup } from "@/lib/subscriptions"
+
+const JWT_SECRET = process.env.NEXTAUTH_SECRET
+
+function getCustomerFromToken(request: NextRequest) {
+  if (!JWT_SECRET) {
+    throw new Error("Server configuration error")
+  }
+
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized")
+  }
+
+  const token = authHeader.substring(7)
+  const decoded = verify(token, JWT_SECRET) as { customerId: number; type: string }
+
+  if (decoded.type !== "customer") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded.customerId
+}
+
+// POST /api/customer-portal/subscriptions/card-setup - Save the card once the customer is back from Stripe.
+// The webhook does the same; whichever arrives first records it.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const body = await request.json().catch(() => ({}))
+    if (typeof body?.sessionId !== "string" || !body.sessionId) {
+      return NextResponse.json({ error: "Session ID is required" }, { status: 400 })
+    }
+
+    const session = await stripe.checkout.sessions.retrieve(body.sessionId)
+    const subscriptionId = parseInt(session.metadata?.subscriptionId || "0")
+    const subscription = subscriptionId
+      ? await db.query.subscriptions.findFirst({
+          where: and(eq(subscriptions.id, subscriptionId), eq(subscriptions.customerId, customerId)),
+          columns: { id: true },
+        })
+      : null
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+
+    const result = await recordCardSetup(session)
+    const updated = await db.query.subscriptions.findFirst({
+      where: eq(subscriptions.id, subscription.id),
+    })
+
+    return NextResponse.json({ saved: result.recorded || !!updated?.stripePaymentMethodId, subscription: updated })
+  } catch (error: any) {
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Portal subscription card setup error:", error)
+    return NextResponse.json({ error: "Failed to save card" }, { status: 500 })
+  }
+}
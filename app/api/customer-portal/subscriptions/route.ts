@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { customers, subscriptionPlans } from "@/lib/db/schema"
+import { and, asc, eq } from "drizzle-orm"
+import { verify } from "jsonwebtoken"
+import {
+  createCardSetupSession,
+  createSubscription,
+  getCustomerSubscriptions,
+  SubscriptionError,
+} from "@/lib/subscriptions"
+
+const JWT_SECRET = process.env.NEXTAUTH_SECRET
+
+function getCustomerFromToken(request: NextRequest) {
+  if (!JWT_SECRET) {
+    throw new Error("Server configuration error")
+  }
+
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized")
+  }
+
+  const token = authHeader.substring(7)
+  const decoded = verify(token, JWT_SECRET) as { customerId: number; type: string }
+
+  if (decoded.type !== "customer") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded.customerId
+}
+
+// GET /api/customer-portal/subscriptions - The customer's subscriptions and the plans they can subscribe to
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, customerId),
+      columns: { companyId: true },
+    })
+    if (!customer) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const plans = await db.query.subscriptionPlans.findMany({
+      where: and(eq(subscriptionPlans.companyId, customer.companyId), eq(subscriptionPlans.isActive, 1)),
+      orderBy: [asc(subscriptionPlans.amount)],
+    })
+    const subscriptions = await getCustomerSubscriptions(customerId)
+
+    return NextResponse.json({ plans, subscriptions })
+  } catch (error: any) {
+    console.error("Error fetching customer subscriptions:", error)
+
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json({ error: "Failed to fetch subscriptions" }, { status: 500 })
+  }
+}
+
+// POST /api/customer-portal/subscriptions - Subscribe to a plan; returns the page for saving a card
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const customerId = getCustomerFromToken(request)
+    const body = await request.json().catch(() => ({}))
+    const planId = parseInt(body?.planId)
+    if (!planId) {
+      return NextResponse.json({ error: "Choose a plan" }, { status: 400 })
+    }
+
+    const subscription = await createSubscription(customerId, {
+      planId,
+      firstVisitDate: String(body.firstVisitDate || ""),
+      visitTime: String(body.visitTime || ""),
+    })
+    const session = await createCardSetupSession(subscription)
+
+    return NextResponse.json({ subscription, url: session.url }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error.message === "Unauthorized" || error.name === "JsonWebTokenError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Error creating subscription:", error)
+    return NextResponse.json({ error: "Failed to create subscription" }, { status: 500 })
+  }
+}
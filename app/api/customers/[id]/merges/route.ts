@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CustomerMergeError, listCustomerMerges, mergeCustomers } from "@/lib/customer-merge"
+
+// GET /api/customers/[id]/merges - Merges this customer was part of
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const customerId = parseInt(id)
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 })
+    }
+
+    const merges = await listCustomerMerges(session.companyId, customerId)
+    return NextResponse.json({ merges })
+  } catch (error) {
+    console.error("List customer merges error:", error)
+    return NextResponse.json({ error: "Failed to fetch customer merges" }, { status: 500 })
+  }
+}
+
+// POST /api/customers/[id]/merges - Merge another customer into this one
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const survivorId = parseInt(id)
+    if (isNaN(survivorId)) {
+      return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const mergedCustomerId = Number(body.mergedCustomerId)
+    if (!Number.isInteger(mergedCustomerId)) {
+      return NextResponse.json({ error: "mergedCustomerId is required" }, { status: 400 })
+    }
+
+    const result = await mergeCustomers(session.companyId, {
+      survivorId,
+      mergedCustomerId,
+      userId: session.id,
+    })
+    return NextResponse.json({ success: true, ...result }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CustomerMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Merge customers error:", error)
+    return NextResponse.json({ error: "Failed to merge customers" }, { status: 500 })
+  }
+}
@@ -4,7 +4,9 @@ import { requireAuth } from "@/lib/auth"
 import { eq, and, ne } from "drizzle-orm"
 import { createErrorResponse, createConflictError, createValidationError } from "@/lib/api-errors"
 import { formatUKPhone } from "@/lib/phone-validation"
+import { geocodeToColumns, type CoordinateColumns } from "@/lib/geocoding"
 import { sendCustomerDeactivatedEmail, sendCustomerReactivatedEmail } from "@/lib/email"
+import { MERGED_STATUS } from "@/lib/customer-merge"
 
 async function notifyCustomerStatusChange(params: {
   customer: { firstName: string; lastName: string; email: string }
@@ -111,6 +113,13 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Customer not found" }, { status: 404 })
     }
 
+    if (existingCustomer.status === MERGED_STATUS) {
+      return NextResponse.json(
+        { error: "This customer has been merged into another record. Undo the merge to edit it." },
+        { status: 409 },
+      )
+    }
+
     const body = await request.json()
 
     const {
@@ -140,6 +149,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       source,
       referredBy,
       notes,
+      paymentRemindersOptOut,
       additionalAddresses,
     } = body
 
@@ -186,6 +196,15 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       }
     }
 
+    // Only hit the geocoder when the address actually changed
+    const addressChanged =
+      (address || null) !== existingCustomer.address ||
+      (city || null) !== existingCustomer.city ||
+      (postcode || null) !== existingCustomer.postcode
+    const coordinates: CoordinateColumns = addressChanged
+      ? await geocodeToColumns([address, city, postcode])
+      : { latitude: existingCustomer.latitude, longitude: existingCustomer.longitude }
+
     const previousStatus = existingCustomer.status || "active"
     const nextStatus = typeof status === "string" && status.length > 0 ? status : previousStatus
 
@@ -203,6 +222,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         city: city || null,
         postcode: postcode || null,
         country: country || "UK",
+        ...coordinates,
         customerType: customerType || "residential",
         status: nextStatus,
         billingAddress: billingAddress || null,
@@ -219,6 +239,9 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         source: source || null,
         referredBy: referredBy || null,
         notes: notes || null,
+        ...(paymentRemindersOptOut !== undefined && {
+          paymentRemindersOptOut: paymentRemindersOptOut ? 1 : 0,
+        }),
         updatedAt: new Date(),
       })
       .where(eq(schema.customers.id, customerId))
@@ -245,6 +268,14 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       // Update existing and insert new addresses
       for (const addr of additionalAddresses) {
         if (addr.id && existingIds.has(addr.id)) {
+          const existing = existingAddresses.find((a) => a.id === addr.id)!
+          const addressCoordinates: CoordinateColumns =
+            existing.address !== addr.address ||
+            existing.city !== (addr.city || null) ||
+            existing.postcode !== (addr.postcode || null)
+              ? await geocodeToColumns([addr.address, addr.city, addr.postcode])
+              : { latitude: existing.latitude, longitude: existing.longitude }
+
           // Update existing
           await db
             .update(schema.customerAddresses)
@@ -255,6 +286,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
               city: addr.city || null,
               postcode: addr.postcode || null,
               country: addr.country || null,
+              ...addressCoordinates,
               accessInstructions: addr.accessInstructions ?? null,
               parkingInstructions: addr.parkingInstructions ?? null,
               specialInstructions: addr.specialInstructions ?? null,
@@ -270,6 +302,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
             city: addr.city || null,
             postcode: addr.postcode || null,
             country: addr.country || null,
+            ...(await geocodeToColumns([addr.address, addr.city, addr.postcode])),
             accessInstructions: addr.accessInstructions ?? null,
             parkingInstructions: addr.parkingInstructions ?? null,
             specialInstructions: addr.specialInstructions ?? null,
@@ -384,6 +417,13 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       return NextResponse.json({ error: "Customer not found" }, { status: 404 })
     }
 
+    if (existingCustomer.status === MERGED_STATUS) {
+      return NextResponse.json(
+        { error: "This customer has been merged into another record. Undo the merge to change it." },
+        { status: 409 },
+      )
+    }
+
     const previousStatus = existingCustomer.status || "active"
     const nextStatus = "inactive"
 
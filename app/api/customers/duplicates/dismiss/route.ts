@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CustomerMergeError, dismissDuplicate } from "@/lib/customer-merge"
+
+// POST /api/customers/duplicates/dismiss - Mark two customers as not duplicates
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const customerId = Number(body.customerId)
+    const otherCustomerId = Number(body.otherCustomerId)
+    if (!Number.isInteger(customerId) || !Number.isInteger(otherCustomerId)) {
+      return NextResponse.json({ error: "customerId and otherCustomerId are required" }, { status: 400 })
+    }
+
+    await dismissDuplicate(session.companyId, customerId, otherCustomerId, session.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CustomerMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Dismiss duplicate customers error:", error)
+    return NextResponse.json({ error: "Failed to dismiss duplicate" }, { status: 500 })
+  }
+}
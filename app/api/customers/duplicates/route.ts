@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CustomerMergeError, findDuplicateCustomers } from "@/lib/customer-merge"
+
+// GET /api/customers/duplicates - Likely duplicate customer pairs, optionally for one customer
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const customerIdParam = searchParams.get("customerId")
+    let customerId: number | undefined
+    if (customerIdParam !== null) {
+      customerId = parseInt(customerIdParam)
+      if (isNaN(customerId)) {
+        return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 })
+      }
+    }
+
+    const duplicates = await findDuplicateCustomers(session.companyId, { customerId })
+    return NextResponse.json({ duplicates })
+  } catch (error) {
+    if (error instanceof CustomerMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Find duplicate customers error:", error)
+    return NextResponse.json({ error: "Failed to find duplicate customers" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CustomerMergeError, undoCustomerMerge } from "@/lib/customer-merge"
+
+// POST /api/customers/merges/[id]/undo - Split a merged customer back out
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const mergeId = parseInt(id)
+    if (isNaN(mergeId)) {
+      return NextResponse.json({ error: "Invalid merge ID" }, { status: 400 })
+    }
+
+    const result = await undoCustomerMerge(session.companyId, mergeId, session.id)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof CustomerMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Undo customer merge error:", error)
+    return NextResponse.json({ error: "Failed to undo merge" }, { status: 500 })
+  }
+}
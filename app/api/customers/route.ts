@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
-import { eq, and, or, ilike, desc } from "drizzle-orm"
+import { eq, and, or, ilike, desc, ne } from "drizzle-orm"
 import { createErrorResponse, createValidationError, createConflictError } from "@/lib/api-errors"
 import { isValidUKPhone, formatUKPhone } from "@/lib/phone-validation"
+import { geocodeToColumns } from "@/lib/geocoding"
+import { MERGED_STATUS } from "@/lib/customer-merge"
 
 // GET /api/customers - Get all customers for the company
 export async function GET(request: NextRequest) {
@@ -27,7 +29,8 @@ export async function GET(request: NextRequest) {
             )
           : undefined,
         type ? eq(schema.customers.customerType, type) : undefined,
-        status ? eq(schema.customers.status, status) : undefined,
+        // Merged records only show up when asked for; their data lives on the surviving customer
+        status ? eq(schema.customers.status, status) : ne(schema.customers.status, MERGED_STATUS),
       ),
       orderBy: [desc(schema.customers.createdAt)],
       with: {
@@ -154,6 +157,8 @@ export async function POST(request: NextRequest) {
       return createConflictError("A customer with this phone number already exists in your company")
     }
 
+    const coordinates = await geocodeToColumns([address, city, postcode])
+
     // Create customer
     console.log("About to insert customer into database...")
     const [customer] = await db
@@ -170,6 +175,7 @@ export async function POST(request: NextRequest) {
         city: city || null,
         postcode,
         country: country || "United Kingdom",
+        ...coordinates,
         customerType: customerType || "residential",
         status: status || "active",
         billingAddress: billingAddress || null,
@@ -193,8 +199,9 @@ export async function POST(request: NextRequest) {
 
     if (Array.isArray(additionalAddresses) && additionalAddresses.length > 0) {
       try {
-        await db.insert(schema.customerAddresses).values(
-          additionalAddresses.map((addr: any) => ({
+        const addressRows = []
+        for (const addr of additionalAddresses) {
+          addressRows.push({
             customerId: customer.id,
             label: addr.label || null,
             address: addr.address,
@@ -202,12 +209,14 @@ export async function POST(request: NextRequest) {
             city: addr.city || null,
             postcode: addr.postcode || null,
             country: addr.country || null,
+            ...(await geocodeToColumns([addr.address, addr.city, addr.postcode])),
             accessInstructions: addr.accessInstructions || null,
             parkingInstructions: addr.parkingInstructions || null,
             specialInstructions: addr.specialInstructions || null,
             createdAt: new Date(),
-          }))
-        )
+          })
+        }
+        await db.insert(schema.customerAddresses).values(addressRows)
       } catch (addressError) {
         console.error("Failed to create additional addresses:", addressError)
       }
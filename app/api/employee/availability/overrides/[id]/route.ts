@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import { AvailabilityError, deleteAvailabilityOverride } from "@/lib/employee-availability"
+
+/**
+ * DELETE /api/employee/availability/overrides/[id]
+ * Remove a date override so the weekly pattern applies again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const overrideId = parseInt(id)
+    if (isNaN(overrideId)) {
+      return NextResponse.json({ error: "Invalid override ID" }, { status: 400 })
+    }
+
+    await deleteAvailabilityOverride(session.id, overrideId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting availability override:", error)
+    return NextResponse.json({ error: "Failed to delete availability override" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import { AvailabilityError, normalizeOverride, saveAvailabilityOverride } from "@/lib/employee-availability"
+
+/**
+ * POST /api/employee/availability/overrides
+ * Mark a specific date as unavailable or with different hours
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const override = await saveAvailabilityOverride(session.companyId, session.id, normalizeOverride(body))
+
+    return NextResponse.json(override, { status: 201 })
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error saving availability override:", error)
+    return NextResponse.json({ error: "Failed to save availability override" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import {
+  AvailabilityError,
+  getEmployeeAvailability,
+  normalizeWindows,
+  setWeeklyAvailability,
+} from "@/lib/employee-availability"
+
+/**
+ * GET /api/employee/availability
+ * The logged-in employee's weekly windows and upcoming date overrides
+ */
+export async function GET() {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await getEmployeeAvailability(session.id))
+  } catch (error) {
+    console.error("Error fetching availability:", error)
+    return NextResponse.json({ error: "Failed to fetch availability" }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/employee/availability
+ * Replace the logged-in employee's weekly windows
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const windows = await setWeeklyAvailability(session.companyId, session.id, normalizeWindows(body?.windows))
+
+    return NextResponse.json({ windows })
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating availability:", error)
+    return NextResponse.json({ error: "Failed to update availability" }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import { SkillsError, deleteCertification, updateCertification } from "@/lib/employee-skills"
+
+/**
+ * PATCH /api/employee/certifications/[id]
+ * Update one of the logged-in employee's certifications
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const certificationId = parseInt(id)
+    if (isNaN(certificationId)) {
+      return NextResponse.json({ error: "Invalid certification ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const certification = await updateCertification(session.companyId, session.id, certificationId, body)
+
+    return NextResponse.json(certification)
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating certification:", error)
+    return NextResponse.json({ error: "Failed to update certification" }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/employee/certifications/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const certificationId = parseInt(id)
+    if (isNaN(certificationId)) {
+      return NextResponse.json({ error: "Invalid certification ID" }, { status: 400 })
+    }
+
+    await deleteCertification(session.companyId, session.id, certificationId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting certification:", error)
+    return NextResponse.json({ error: "Failed to delete certification" }, { status: 500 })
+  }
+}
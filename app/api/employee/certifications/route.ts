@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import { SkillsError, createCertificationFromForm, listEmployeeCertifications } from "@/lib/employee-skills"
+
+/**
+ * GET /api/employee/certifications
+ * The logged-in employee's certifications with expiry status
+ */
+export async function GET() {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await listEmployeeCertifications(session.companyId, session.id))
+  } catch (error) {
+    console.error("Error fetching certifications:", error)
+    return NextResponse.json({ error: "Failed to fetch certifications" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/employee/certifications
+ * Add a certification from a multipart form, optionally with the certificate as "file"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const certification = await createCertificationFromForm(session.companyId, session.id, formData, null)
+
+    return NextResponse.json(certification, { status: 201 })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating certification:", error)
+    return NextResponse.json({ error: "Failed to create certification" }, { status: 500 })
+  }
+}
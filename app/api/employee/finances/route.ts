@@ -3,6 +3,7 @@ import { db } from "@/lib/db"
 import { jobs, employees, employeePayouts, customers, cleaningPlans, jobAssignments } from "@/lib/db/schema"
 import { eq, and, gte, lte, desc, sql, ne } from "drizzle-orm"
 import { getEmployeeSession } from "@/lib/auth"
+import { getJobPay, getPayrollSettings, listEmployeePayslips } from "@/lib/payroll"
 
 /**
  * GET /api/employee/finances
@@ -46,7 +47,11 @@ export async function GET(request: NextRequest) {
     }
 
     const hourlyRate = parseFloat(employee.hourlyRate || "0")
-    const currency = "GBP"
+    const { currency } = await getPayrollSettings(db, session.companyId)
+
+    // What the employee earns for a job; customer prices are never used
+    const jobEarnings = ({ job, assignment }: { job: typeof jobs.$inferSelect; assignment: typeof jobAssignments.$inferSelect }) =>
+      getJobPay({ payAmount: assignment.payAmount, employeePay: job.employeePay, durationMinutes: job.durationMinutes }, hourlyRate) ?? 0
 
     // Get all completed jobs for this employee in the period
     const completedJobs = await db
@@ -117,29 +122,10 @@ export async function GET(request: NextRequest) {
       .limit(20)
 
     // Calculate earnings from completed jobs
-    const completedEarnings = completedJobs.reduce((total, { job, assignment }) => {
-      // Use assignment pay if available, otherwise job pricing, otherwise hourly rate
-      const assignmentPay = assignment?.payAmount ? parseFloat(assignment.payAmount) : 0
-      if (assignmentPay > 0) return total + assignmentPay
-
-      const price = parseFloat(job.actualPrice || job.estimatedPrice || "0")
-      if (price > 0) return total + price
-
-      const durationHours = (job.durationMinutes || 60) / 60
-      return total + (durationHours * hourlyRate)
-    }, 0)
+    const completedEarnings = completedJobs.reduce((total, row) => total + jobEarnings(row), 0)
 
     // Calculate estimated earnings from scheduled jobs
-    const scheduledEarnings = scheduledJobs.reduce((total, { job, assignment }) => {
-      const assignmentPay = assignment?.payAmount ? parseFloat(assignment.payAmount) : 0
-      if (assignmentPay > 0) return total + assignmentPay
-
-      const price = parseFloat(job.estimatedPrice || "0")
-      if (price > 0) return total + price
-
-      const durationHours = (job.durationMinutes || 60) / 60
-      return total + (durationHours * hourlyRate)
-    }, 0)
+    const scheduledEarnings = scheduledJobs.reduce((total, row) => total + jobEarnings(row), 0)
 
     // Calculate total hours worked in the period
     const getPlanMinutes = (estimatedDuration: string | null | undefined) => {
@@ -172,27 +158,17 @@ export async function GET(request: NextRequest) {
     const paidJobs = completedJobs.filter(({ job }) => paidJobIds.has(job.id))
     const outstandingJobs = completedJobs.filter(({ job }) => !paidJobIds.has(job.id))
 
-    const paidAmount = paidJobs.reduce((total, { job, assignment }) => {
-      const assignmentPay = assignment?.payAmount ? parseFloat(assignment.payAmount) : 0
-      if (assignmentPay > 0) return total + assignmentPay
-      const price = parseFloat(job.actualPrice || job.estimatedPrice || "0")
-      if (price > 0) return total + price
-      const durationHours = (job.durationMinutes || 60) / 60
-      return total + (durationHours * hourlyRate)
-    }, 0)
+    const paidAmount = paidJobs.reduce((total, row) => total + jobEarnings(row), 0)
 
-    const outstandingAmount = outstandingJobs.reduce((total, { job, assignment }) => {
-      const assignmentPay = assignment?.payAmount ? parseFloat(assignment.payAmount) : 0
-      if (assignmentPay > 0) return total + assignmentPay
-      const price = parseFloat(job.actualPrice || job.estimatedPrice || "0")
-      if (price > 0) return total + price
-      const durationHours = (job.durationMinutes || 60) / 60
-      return total + (durationHours * hourlyRate)
-    }, 0)
+    const outstandingAmount = outstandingJobs.reduce((total, row) => total + jobEarnings(row), 0)
 
     // Get lifetime stats
     const allTimeCompleted = await db
-      .select({ count: sql<number>`count(*)`, total: sql<number>`COALESCE(SUM(CAST(COALESCE(actual_price, estimated_price, '0') AS DECIMAL)), 0)` })
+      .select({
+        payAmount: jobAssignments.payAmount,
+        employeePay: jobs.employeePay,
+        durationMinutes: jobs.durationMinutes,
+      })
       .from(jobAssignments)
       .innerJoin(jobs, eq(jobAssignments.jobId, jobs.id))
       .where(
@@ -214,6 +190,8 @@ export async function GET(request: NextRequest) {
         )
       )
 
+    const payslips = await listEmployeePayslips(session.companyId, session.id)
+
     // Format jobs for response
     const formatJob = ({ job, assignment, customer, plan }: any) => ({
       id: job.id,
@@ -228,12 +206,7 @@ export async function GET(request: NextRequest) {
       actualPrice: job.actualPrice,
       status: job.status,
       location: [job.location, job.city, job.postcode].filter(Boolean).join(", "),
-      earnings: assignment?.payAmount
-        ? parseFloat(assignment.payAmount)
-        : job.employeePay
-          ? parseFloat(job.employeePay)
-        : parseFloat(job.actualPrice || job.estimatedPrice || "0") || 
-          ((job.durationMinutes || 60) / 60) * hourlyRate,
+      earnings: jobEarnings({ job, assignment }),
       isPaid: paidJobIds.has(job.id),
     })
 
@@ -259,8 +232,9 @@ export async function GET(request: NextRequest) {
         currency,
       },
       lifetime: {
-        totalJobsCompleted: Number(allTimeCompleted[0]?.count || 0),
-        totalEarned: Math.round(Number(allTimeCompleted[0]?.total || 0) * 100) / 100,
+        totalJobsCompleted: allTimeCompleted.length,
+        totalEarned:
+          Math.round(allTimeCompleted.reduce((total, job) => total + (getJobPay(job, hourlyRate) ?? 0), 0) * 100) / 100,
         totalPaidOut: Math.round(Number(totalPaidOut[0]?.total || 0) * 100) / 100,
       },
       completedJobs: completedJobs.map(formatJob),
@@ -279,6 +253,7 @@ export async function GET(request: NextRequest) {
         paidAt: p.paidAt,
         createdAt: p.createdAt,
       })),
+      payslips,
     })
   } catch (error) {
     console.error("Error fetching employee finances:", error)
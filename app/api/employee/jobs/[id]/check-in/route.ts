@@ -12,32 +12,11 @@ import {
   sendInvoiceWithPDFEmail 
 } from "@/lib/email"
 import { generateInvoicePDF } from "@/lib/pdf-generator"
-
-// Maximum distance in meters to be considered "at the job site"
-const MAX_CHECK_IN_DISTANCE = 200 // 200 meters
-
-/**
- * Calculate distance between two GPS coordinates using Haversine formula
- */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371e3 // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180
-  const φ2 = (lat2 * Math.PI) / 180
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-  return R * c // Distance in meters
-}
+import { priceInvoice } from "@/lib/invoice-utils"
+import { jobInvoiceLines } from "@/lib/pricing"
+import { calculateDistanceMeters, ensureJobCoordinates, parseCoordinates } from "@/lib/geocoding"
+import { normalizeCompanyCheckInSettings } from "@/lib/check-in-settings"
+import { allocateDocumentNumber } from "@/lib/numbering"
 
 /**
  * GET /api/employee/jobs/[id]/check-in
@@ -249,22 +228,42 @@ export async function POST(
       }
     }
 
-    // Calculate distance from job site (if job has location)
+    // Calculate distance from job site using the job's geocoded coordinates
     let distanceFromJobSite: number | null = null
     let isWithinRange = false
 
     // Check if we have valid coordinates (not 0,0)
-    const hasValidLocation = hasLocation && 
-      parseFloat(latitude) !== 0 && 
-      parseFloat(longitude) !== 0
-
-    // For now, we'll mark as within range if we have coordinates
-    // In production, you'd geocode the job address to get lat/lng
-    if (hasValidLocation) {
-      // If job has coordinates stored, calculate distance
-      // For now, assume within range since we don't have job coordinates yet
-      isWithinRange = true
-      distanceFromJobSite = 0
+    const employeeCoordinates = hasLocation ? parseCoordinates(latitude, longitude) : null
+    const hasValidLocation = employeeCoordinates !== null
+
+    const company = await db.query.companies.findFirst({
+      where: eq(companies.id, session.companyId),
+    })
+    const checkInSettings = normalizeCompanyCheckInSettings(company?.checkInSettings)
+
+    if (employeeCoordinates) {
+      const jobCoordinates = await ensureJobCoordinates(job)
+      if (jobCoordinates) {
+        distanceFromJobSite = calculateDistanceMeters(employeeCoordinates, jobCoordinates)
+        isWithinRange = distanceFromJobSite <= checkInSettings.radiusMeters
+      } else {
+        // The job address couldn't be located, so there's nothing to measure against
+        isWithinRange = true
+      }
+    }
+
+    if (!isWithinRange && checkInSettings.enforcement === "block") {
+      const action = type === "check_in" ? "check in" : "check out"
+      return NextResponse.json(
+        {
+          error: hasValidLocation
+            ? `You are ${Math.round(distanceFromJobSite!)}m from the job site. You must be within ${checkInSettings.radiusMeters}m to ${action}.`
+            : `Your location is required to ${action}. Please enable location services and try again.`,
+          distanceFromJobSite: distanceFromJobSite !== null ? Math.round(distanceFromJobSite) : null,
+          allowedDistance: checkInSettings.radiusMeters,
+        },
+        { status: 403 },
+      )
     }
 
     // Create check-in record
@@ -279,7 +278,7 @@ export async function POST(
         longitude: longitude || "0",
         locationAccuracy: locationAccuracy || null,
         capturedAddress: capturedAddress || (hasValidLocation ? null : "Location unavailable"),
-        distanceFromJobSite: distanceFromJobSite?.toString() || null,
+        distanceFromJobSite: distanceFromJobSite !== null ? distanceFromJobSite.toFixed(2) : null,
         isWithinRange: isWithinRange ? 1 : 0,
         deviceType: deviceType || null,
         deviceModel: deviceModel || null,
@@ -351,10 +350,6 @@ export async function POST(
         where: eq(customers.id, job.customerId)
       }) : null
 
-      const company = await db.query.companies.findFirst({
-        where: eq(companies.id, session.companyId)
-      })
-
       const allowEmployeeUpdates = isCompanyNotificationEnabled(company?.notificationSettings, "employeeUpdates")
 
       const employee = await db.query.employees.findFirst({
@@ -441,83 +436,59 @@ export async function POST(
 
           // Create invoice automatically
           let invoice = null
-          let invoiceItemsList: Array<{ title: string; description: string | null; quantity: string; unitPrice: string; amount: string }> = []
+          let invoiceItemsList: Array<{
+            title: string
+            description: string | null
+            quantity: string
+            unitPrice: string
+            amount: string
+            taxRate: string
+            taxAmount: string
+          }> = []
           let pdfBuffer: Buffer | undefined
           
           try {
-            // Generate invoice number
-            const lastInvoice = await db
-              .select({ invoiceNumber: invoices.invoiceNumber })
-              .from(invoices)
-              .where(eq(invoices.companyId, session.companyId))
-              .orderBy(desc(invoices.id))
-              .limit(1)
-
-            const formatDate = (date: Date) => {
-              const dd = String(date.getDate()).padStart(2, "0")
-              const mm = String(date.getMonth() + 1).padStart(2, "0")
-              const yyyy = date.getFullYear()
-              return `${dd}-${mm}-${yyyy}`
-            }
-
-            let invoiceNumber = "INV-0001"
-            if (lastInvoice.length > 0) {
-              const lastNumber = parseInt(lastInvoice[0].invoiceNumber.split("-")[1])
-              invoiceNumber = `INV-${String(lastNumber + 1).padStart(4, "0")}`
-            }
-            const invoiceDate = job.scheduledFor ? new Date(job.scheduledFor) : new Date()
-            const customerNameLabel = `${customer.firstName} ${customer.lastName}`.trim()
-            invoiceNumber = `${invoiceNumber} - ${customerNameLabel} - ${formatDate(invoiceDate)}`
-
             // Calculate price
             const price = parseFloat(job.actualPrice || job.estimatedPrice || (planPriceValue ? planPriceValue.toFixed(2) : "0"))
-            const taxRate = 0 // Can be configured per company
-            const taxAmount = (price * taxRate) / 100
-            const total = price + taxAmount
-
-            // Create the invoice
-            const [newInvoice] = await db
-              .insert(invoices)
-              .values({
-                companyId: session.companyId,
-                invoiceNumber,
+
+            // Create the invoice and its item, numbering the invoice in the same transaction
+            invoice = await db.transaction(async (tx) => {
+              const invoiceNumber = await allocateDocumentNumber(tx, session.companyId, "invoice", {
+                date: job.scheduledFor ? new Date(job.scheduledFor) : new Date(),
+                customerId: customer.id,
+              })
+
+              // Priced at the company's default VAT rate
+              const priced = await priceInvoice(tx, session.companyId, {
+                items: jobInvoiceLines(job, price),
                 customerId: customer.id,
-                jobId: job.id,
-                subtotal: price.toFixed(2),
-                taxRate: taxRate.toFixed(2),
-                taxAmount: taxAmount.toFixed(2),
-                discountAmount: "0",
-                total: total.toFixed(2),
-                amountDue: total.toFixed(2),
-                status: "sent",
-                issuedAt: new Date(),
-                dueAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due in 14 days
-                notes: `Service completed on ${new Date().toLocaleDateString("en-GB")}`,
               })
-              .returning()
-
-            invoice = newInvoice
-
-            // Create invoice item
-            invoiceItemsList = [{
-              title: job.title,
-              description: job.description,
-              quantity: "1",
-              unitPrice: price.toFixed(2),
-              amount: price.toFixed(2),
-            }]
-
-            await db.insert(invoiceItems).values({
-              invoiceId: invoice.id,
-              title: job.title,
-              description: job.description,
-              quantity: "1",
-              unitPrice: price.toFixed(2),
-              amount: price.toFixed(2),
-              sortOrder: 0,
+              invoiceItemsList = priced.items
+
+              const [newInvoice] = await tx
+                .insert(invoices)
+                .values({
+                  companyId: session.companyId,
+                  invoiceNumber,
+                  customerId: customer.id,
+                  jobId: job.id,
+                  ...priced.invoice,
+                  amountDue: priced.invoice.total,
+                  status: "sent",
+                  issuedAt: new Date(),
+                  dueAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due in 14 days
+                  notes: `Service completed on ${new Date().toLocaleDateString("en-GB")}`,
+                })
+                .returning()
+
+              await tx.insert(invoiceItems).values(
+                priced.items.map((item) => ({ ...item, invoiceId: newInvoice.id })),
+              )
+
+              return newInvoice
             })
 
-            console.log(`Invoice ${invoiceNumber} created for job ${job.id}`)
+            console.log(`Invoice ${invoice.invoiceNumber} created for job ${job.id}`)
           } catch (invoiceError) {
             console.error("Failed to create invoice:", invoiceError)
           }
@@ -541,6 +512,7 @@ export async function POST(
                   address: company.address,
                   city: company.city,
                   postcode: company.postcode,
+                  vatNumber: company.taxId,
                 },
                 customer: {
                   name: customerName,
@@ -556,6 +528,8 @@ export async function POST(
                 taxAmount: invoice.taxAmount || "0",
                 discountAmount: invoice.discountAmount || "0",
                 total: invoice.total || "0",
+                pricesIncludeVat: invoice.pricesIncludeVat === 1,
+                reverseCharge: invoice.reverseCharge === 1,
                 notes: invoice.notes,
                 terms: invoice.terms,
               })
@@ -682,6 +656,11 @@ export async function POST(
       success: true,
       checkIn,
       message: type === "check_in" ? "Checked in successfully!" : "Checked out successfully!",
+      // Out-of-range check-ins are allowed under the "flag" policy but marked for review
+      warning:
+        !isWithinRange && hasValidLocation
+          ? `You appear to be ${Math.round(distanceFromJobSite!)}m from the job site. This ${type === "check_in" ? "check-in" : "check-out"} has been flagged for review.`
+          : null,
     })
   } catch (error) {
     console.error("Error creating check-in:", error)
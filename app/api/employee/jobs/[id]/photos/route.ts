@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
-import { taskVerificationPhotos, jobs, jobTasks, employees, jobCheckIns, jobAssignments } from "@/lib/db/schema"
+import { taskVerificationPhotos, jobs, jobTasks, employees, jobCheckIns, jobAssignments, companies } from "@/lib/db/schema"
 import { eq, and, desc, ne } from "drizzle-orm"
 import { getEmployeeSession } from "@/lib/auth"
-import { uploadToSupabaseStorage } from "@/lib/supabase"
+import { storeUpload, withSignedUrls } from "@/lib/storage"
 import { validateFile } from "@/lib/file-storage"
+import { calculateDistanceMeters, ensureJobCoordinates, parseCoordinates } from "@/lib/geocoding"
+import { normalizeCompanyCheckInSettings } from "@/lib/check-in-settings"
 
 /**
  * GET /api/employee/jobs/[id]/photos
@@ -53,7 +55,7 @@ export async function GET(
       .where(eq(taskVerificationPhotos.jobId, jobId))
       .orderBy(desc(taskVerificationPhotos.capturedAt))
 
-    return NextResponse.json(photos)
+    return NextResponse.json(await Promise.all(photos.map(withSignedUrls)))
   } catch (error) {
     console.error("Error fetching photos:", error)
     return NextResponse.json({ error: "Failed to fetch photos" }, { status: 500 })
@@ -145,12 +147,32 @@ export async function POST(
     const timestamp = Date.now()
     const extension = file.name.split(".").pop() || "jpg"
     const fileName = `job-${jobId}-${timestamp}.${extension}`
-    const storagePath = `verification-photos/${session.companyId}/${fileName}`
 
-    // Upload to Supabase Storage
-    const { url } = await uploadToSupabaseStorage(file, "Cleaning Photos", storagePath)
+    // Measure how far from the job site the photo was taken
+    const photoCoordinates = parseCoordinates(latitude, longitude)
+    const jobCoordinates = photoCoordinates ? await ensureJobCoordinates(job.job) : null
+    const distanceFromJobSite =
+      photoCoordinates && jobCoordinates ? calculateDistanceMeters(photoCoordinates, jobCoordinates) : null
 
-    // Save to database with file URL
+    let verificationStatus = "pending"
+    if (distanceFromJobSite !== null) {
+      const company = await db.query.companies.findFirst({
+        where: eq(companies.id, session.companyId),
+      })
+      const { radiusMeters } = normalizeCompanyCheckInSettings(company?.checkInSettings)
+      verificationStatus = distanceFromJobSite <= radiusMeters ? "verified" : "flagged"
+    } else if (photoCoordinates) {
+      verificationStatus = "verified"
+    }
+
+    // Upload to private storage, with a thumbnail
+    const { storageKey, thumbnailKey } = await storeUpload(file, {
+      companyId: session.companyId,
+      category: "verification-photos",
+      fileName,
+    })
+
+    // Save to database with the storage keys
     const [photo] = await db
       .insert(taskVerificationPhotos)
       .values({
@@ -160,8 +182,8 @@ export async function POST(
         employeeId: session.id,
         fileName,
         originalName: file.name,
-        url,
-        thumbnailUrl: url,
+        storageKey,
+        thumbnailKey,
         mimeType: file.type,
         sizeBytes: file.size,
         latitude: latitude || null,
@@ -172,15 +194,15 @@ export async function POST(
         deviceModel: deviceModel || null,
         userAgent: request.headers.get("user-agent") || null,
         capturedAt: new Date(),
-        verificationStatus: latitude && longitude ? "verified" : "pending",
-        distanceFromJobSite: null,
+        verificationStatus,
+        distanceFromJobSite: distanceFromJobSite !== null ? distanceFromJobSite.toFixed(2) : null,
         caption: caption || null,
       })
       .returning()
 
     return NextResponse.json({
       success: true,
-      photo,
+      photo: await withSignedUrls(photo),
     })
   } catch (error) {
     console.error("Error uploading photo:", error)
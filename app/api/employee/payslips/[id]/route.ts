@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getEmployeeSession } from "@/lib/auth"
+import { getPayslipPdfData } from "@/lib/payroll"
+
+/**
+ * GET /api/employee/payslips/[id]
+ * Get one of the logged-in employee's approved payslips for PDF generation
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const pdfData = await getPayslipPdfData(session.companyId, parseInt(id), session.id)
+
+    if (!pdfData) {
+      return NextResponse.json({ error: "Payslip not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(pdfData)
+  } catch (error) {
+    console.error("Error fetching payslip:", error)
+    return NextResponse.json({ error: "Failed to fetch payslip" }, { status: 500 })
+  }
+}
@@ -6,7 +6,8 @@ import { eq } from "drizzle-orm"
 
 /**
  * PATCH /api/employee/profile
- * Update the current employee's profile (skills, certifications, languages)
+ * Update the current employee's profile (languages). Skills, certifications and availability
+ * have their own routes.
  */
 export async function PATCH(request: NextRequest) {
   try {
@@ -21,17 +22,11 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { skills, certifications, languages } = body
+    const { languages } = body
 
     // Validate - only allow these fields to be updated
-    const updateData: Partial<{ skills: string; certifications: string; languages: string }> = {}
-    
-    if (skills !== undefined) {
-      updateData.skills = skills
-    }
-    if (certifications !== undefined) {
-      updateData.certifications = certifications
-    }
+    const updateData: Partial<{ languages: string }> = {}
+
     if (languages !== undefined) {
       updateData.languages = languages
     }
@@ -50,10 +50,7 @@ export async function GET() {
       employmentType: employee.employmentType,
       startDate: employee.startDate,
       hourlyRate: employee.hourlyRate,
-      skills: employee.skills,
-      certifications: employee.certifications,
       languages: employee.languages,
-      availability: employee.availability,
       emergencyContactName: employee.emergencyContactName,
       emergencyContactPhone: employee.emergencyContactPhone,
       emergencyContactRelation: employee.emergencyContactRelation,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getEmployeeSession } from "@/lib/auth"
+import { SkillsError, getEmployeeSkills, listSkills, setEmployeeSkills } from "@/lib/employee-skills"
+
+/**
+ * GET /api/employee/skills
+ * The logged-in employee's skills and the company catalogue to pick from
+ */
+export async function GET() {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const [skills, catalogue] = await Promise.all([getEmployeeSkills(session.id), listSkills(session.companyId)])
+
+    return NextResponse.json({
+      skills,
+      catalogue: catalogue.map(({ id, name, description }) => ({ id, name, description })),
+    })
+  } catch (error) {
+    console.error("Error fetching skills:", error)
+    return NextResponse.json({ error: "Failed to fetch skills" }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/employee/skills
+ * Replace the logged-in employee's skills with entries from the catalogue
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const skills = await setEmployeeSkills(session.companyId, session.id, body?.skills)
+
+    return NextResponse.json({ skills })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating skills:", error)
+    return NextResponse.json({ error: "Failed to update skills" }, { status: 500 })
+  }
+}
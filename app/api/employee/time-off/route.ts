@@ -3,6 +3,8 @@ import { db } from "@/lib/db"
 import { timeOffRequests, employees } from "@/lib/db/schema"
 import { eq, and, desc, gte } from "drizzle-orm"
 import { getEmployeeSession } from "@/lib/auth"
+import { format } from "date-fns"
+import { countLeaveDays, getEmployeeLeaveBalance, loadBankHolidayDates } from "@/lib/leave"
 
 /**
  * GET /api/employee/time-off
@@ -10,6 +12,10 @@ import { getEmployeeSession } from "@/lib/auth"
  */
 export async function GET(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await getEmployeeSession()
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
@@ -50,6 +56,8 @@ export async function GET(request: NextRequest) {
       0
     )
 
+    const balance = await getEmployeeLeaveBalance(session.companyId, session.id)
+
     return NextResponse.json({
       requests,
       summary: {
@@ -58,6 +66,7 @@ export async function GET(request: NextRequest) {
         deniedCount,
         daysUsedThisYear,
       },
+      balance,
     })
   } catch (error) {
     console.error("Error fetching time-off requests:", error)
@@ -71,6 +80,10 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await getEmployeeSession()
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
@@ -96,15 +109,33 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate total days (excluding weekends for simplicity)
-    let totalDays = 0
-    const current = new Date(start)
-    while (current <= end) {
-      const dayOfWeek = current.getDay()
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        totalDays++
-      }
-      current.setDate(current.getDate() + 1)
+    // Get employee to ensure we have the correct companyId from the database
+    const employee = await db
+      .select()
+      .from(employees)
+      .where(eq(employees.id, session.id))
+      .limit(1)
+
+    if (!employee.length) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const companyId = employee[0].companyId
+
+    // Working days, leaving out weekends and the company's bank holidays
+    const bankHolidayDates = await loadBankHolidayDates(
+      db,
+      companyId,
+      format(start, "yyyy-MM-dd"),
+      format(end, "yyyy-MM-dd")
+    )
+    const totalDays = countLeaveDays(start, end, bankHolidayDates)
+
+    if (totalDays === 0) {
+      return NextResponse.json(
+        { error: "The selected dates don't include any working days" },
+        { status: 400 }
+      )
     }
 
     // Check for overlapping requests
@@ -132,18 +163,6 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the request
-    // Get employee to ensure we have the correct companyId from the database
-    const employee = await db
-      .select()
-      .from(employees)
-      .where(eq(employees.id, session.id))
-      .limit(1)
-
-    if (!employee.length) {
-      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
-    }
-
-    const companyId = employee[0].companyId
     console.log("[employee time-off POST] Creating request with companyId:", companyId, "employeeId:", session.id)
     
     const [newRequest] = await db
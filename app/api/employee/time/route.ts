@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getEmployeeSession } from "@/lib/auth"
+import { parseISO } from "date-fns"
+import {
+  TimesheetError,
+  clockIn,
+  clockOut,
+  endBreak,
+  getClockStatus,
+  getEmployeeTimesheet,
+  startBreak,
+} from "@/lib/timesheets"
+
+/**
+ * GET /api/employee/time
+ * Clock status and the logged-in employee's timesheet for the week containing ?week= (default this week)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const week = request.nextUrl.searchParams.get("week")
+    const date = week ? parseISO(week) : new Date()
+    if (Number.isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid week" }, { status: 400 })
+    }
+
+    const [clock, timesheet] = await Promise.all([
+      getClockStatus(session.companyId, session.id),
+      getEmployeeTimesheet(session.companyId, session.id, date),
+    ])
+
+    return NextResponse.json({ clock, ...timesheet })
+  } catch (error) {
+    console.error("Error fetching timesheet:", error)
+    return NextResponse.json({ error: "Failed to fetch timesheet" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/employee/time
+ * Clock in or out, or start or end a break. Body: { action, jobId?, latitude?, longitude?, notes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    switch (body?.action) {
+      case "clock_in":
+        return NextResponse.json(await clockIn(session.companyId, session.id, body), { status: 201 })
+      case "clock_out":
+        return NextResponse.json(await clockOut(session.companyId, session.id, body))
+      case "start_break":
+        return NextResponse.json(await startBreak(session.companyId, session.id), { status: 201 })
+      case "end_break":
+        return NextResponse.json(await endBreak(session.companyId, session.id))
+      default:
+        return NextResponse.json(
+          { error: "Invalid action. Must be 'clock_in', 'clock_out', 'start_break' or 'end_break'" },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error recording time:", error)
+    return NextResponse.json({ error: "Failed to record time" }, { status: 500 })
+  }
+}
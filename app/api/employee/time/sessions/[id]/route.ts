@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getEmployeeSession } from "@/lib/auth"
+import { deleteWorkSession, TimesheetError, updateWorkSession } from "@/lib/timesheets"
+
+/**
+ * PATCH /api/employee/time/sessions/[id]
+ * Correct one of the logged-in employee's sessions while their timesheet is open. A reason is required.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const sessionId = parseInt(id)
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: "Invalid work session ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const updated = await updateWorkSession(
+      session.companyId,
+      sessionId,
+      { startedAt: body.startedAt, endedAt: body.endedAt, breakMinutes: body.breakMinutes, notes: body.notes, reason: body.reason },
+      { type: "employee", employeeId: session.id }
+    )
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating work session:", error)
+    return NextResponse.json({ error: "Failed to update time" }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/employee/time/sessions/[id]
+ * Remove one of the logged-in employee's sessions while their timesheet is open
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const sessionId = parseInt(id)
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: "Invalid work session ID" }, { status: 400 })
+    }
+
+    await deleteWorkSession(session.companyId, sessionId, { type: "employee", employeeId: session.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting work session:", error)
+    return NextResponse.json({ error: "Failed to delete time" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getEmployeeSession } from "@/lib/auth"
+import { addWorkSession, TimesheetError } from "@/lib/timesheets"
+
+/**
+ * POST /api/employee/time/sessions
+ * Add time the logged-in employee forgot to clock. Body: { startedAt, endedAt, breakMinutes?, notes?, reason }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body?.startedAt || !body?.endedAt) {
+      return NextResponse.json({ error: "Start and end times are required" }, { status: 400 })
+    }
+    if (typeof body.reason !== "string" || !body.reason.trim()) {
+      return NextResponse.json({ error: "Say why the time wasn't clocked" }, { status: 400 })
+    }
+
+    const workSession = await addWorkSession(
+      session.companyId,
+      { startedAt: body.startedAt, endedAt: body.endedAt, breakMinutes: body.breakMinutes, notes: body.notes, reason: body.reason },
+      { type: "employee", employeeId: session.id }
+    )
+
+    return NextResponse.json(workSession, { status: 201 })
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error adding work session:", error)
+    return NextResponse.json({ error: "Failed to add time" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getEmployeeSession } from "@/lib/auth"
+import { submitTimesheet, TimesheetError } from "@/lib/timesheets"
+
+/**
+ * POST /api/employee/timesheets/[id]/submit
+ * Submit the logged-in employee's weekly timesheet for approval. Body: { notes? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getEmployeeSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const timesheetId = parseInt(id)
+    if (isNaN(timesheetId)) {
+      return NextResponse.json({ error: "Invalid timesheet ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const timesheet = await submitTimesheet(session.companyId, session.id, timesheetId, body?.notes)
+
+    return NextResponse.json({ success: true, timesheet, message: "Timesheet submitted for approval" })
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error submitting timesheet:", error)
+    return NextResponse.json({ error: "Failed to submit timesheet" }, { status: 500 })
+  }
+}
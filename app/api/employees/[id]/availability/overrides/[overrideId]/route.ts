@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { and, eq } from "drizzle-orm"
+import { AvailabilityError, deleteAvailabilityOverride } from "@/lib/employee-availability"
+
+// DELETE /api/employees/[id]/availability/overrides/[overrideId] - Go back to the weekly pattern for that date
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; overrideId: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, overrideId } = await params
+    const employeeId = parseInt(id)
+    if (isNaN(employeeId) || isNaN(parseInt(overrideId))) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 })
+    }
+
+    const employee = await db.query.employees.findFirst({
+      where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, session.companyId)),
+    })
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    await deleteAvailabilityOverride(employeeId, parseInt(overrideId))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Delete availability override error:", error)
+    return NextResponse.json({ error: "Failed to delete availability override" }, { status: 500 })
+  }
+}
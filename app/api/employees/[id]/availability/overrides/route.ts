@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { and, eq } from "drizzle-orm"
+import { AvailabilityError, normalizeOverride, saveAvailabilityOverride } from "@/lib/employee-availability"
+
+// POST /api/employees/[id]/availability/overrides - Set availability for a specific date
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employeeId = parseInt(id)
+    if (isNaN(employeeId)) {
+      return NextResponse.json({ error: "Invalid employee ID" }, { status: 400 })
+    }
+
+    const employee = await db.query.employees.findFirst({
+      where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, session.companyId)),
+    })
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const override = await saveAvailabilityOverride(session.companyId, employeeId, normalizeOverride(body))
+
+    return NextResponse.json(override, { status: 201 })
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Save availability override error:", error)
+    return NextResponse.json({ error: "Failed to save availability override" }, { status: 500 })
+  }
+}
@@ -2,49 +2,78 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { getSession } from "@/lib/auth"
 import { and, eq } from "drizzle-orm"
+import {
+  AvailabilityError,
+  getEmployeeAvailability,
+  normalizeWindows,
+  setWeeklyAvailability,
+} from "@/lib/employee-availability"
 
-export async function PATCH(
+async function findEmployee(companyId: number, id: string) {
+  const employeeId = parseInt(id)
+  if (isNaN(employeeId) || !db) return null
+  return db.query.employees.findFirst({
+    where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, companyId)),
+  })
+}
+
+// GET /api/employees/[id]/availability - Weekly windows and upcoming date overrides
+export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await getSession()
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
     const { id } = await params
-    const employeeId = parseInt(id)
-    if (isNaN(employeeId)) {
-      return NextResponse.json({ error: "Invalid employee ID" }, { status: 400 })
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
     }
 
-    const body = await request.json()
-    const availability = body?.availability
+    return NextResponse.json(await getEmployeeAvailability(employee.id))
+  } catch (error) {
+    console.error("Get availability error:", error)
+    return NextResponse.json({ error: "Failed to fetch availability" }, { status: 500 })
+  }
+}
 
-    if (!availability || typeof availability !== "object") {
-      return NextResponse.json({ error: "Availability data is required" }, { status: 400 })
+// PUT /api/employees/[id]/availability - Replace the weekly windows
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
     }
 
-    const existingEmployee = await db.query.employees.findFirst({
-      where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, session.companyId)),
-    })
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
 
-    if (!existingEmployee) {
+    const { id } = await params
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
       return NextResponse.json({ error: "Employee not found" }, { status: 404 })
     }
 
-    const [updated] = await db
-      .update(schema.employees)
-      .set({
-        availability: JSON.stringify(availability),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, session.companyId)))
-      .returning()
+    const body = await request.json()
+    const windows = await setWeeklyAvailability(session.companyId, employee.id, normalizeWindows(body?.windows))
 
-    return NextResponse.json(updated)
+    return NextResponse.json({ windows })
   } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Update availability error:", error)
     return NextResponse.json({ error: "Failed to update availability" }, { status: 500 })
   }
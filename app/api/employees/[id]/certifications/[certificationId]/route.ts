@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { SkillsError, deleteCertification, updateCertification } from "@/lib/employee-skills"
+
+// PATCH /api/employees/[id]/certifications/[certificationId] - Update or renew a certification
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; certificationId: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, certificationId } = await params
+    if (isNaN(parseInt(id)) || isNaN(parseInt(certificationId))) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const certification = await updateCertification(
+      session.companyId,
+      parseInt(id),
+      parseInt(certificationId),
+      body,
+    )
+
+    return NextResponse.json(certification)
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Update certification error:", error)
+    return NextResponse.json({ error: "Failed to update certification" }, { status: 500 })
+  }
+}
+
+// DELETE /api/employees/[id]/certifications/[certificationId]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; certificationId: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, certificationId } = await params
+    if (isNaN(parseInt(id)) || isNaN(parseInt(certificationId))) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 })
+    }
+
+    await deleteCertification(session.companyId, parseInt(id), parseInt(certificationId))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Delete certification error:", error)
+    return NextResponse.json({ error: "Failed to delete certification" }, { status: 500 })
+  }
+}
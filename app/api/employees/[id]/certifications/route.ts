@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { and, eq } from "drizzle-orm"
+import { SkillsError, createCertificationFromForm, listEmployeeCertifications } from "@/lib/employee-skills"
+
+async function findEmployee(companyId: number, id: string) {
+  const employeeId = parseInt(id)
+  if (isNaN(employeeId) || !db) return null
+  return db.query.employees.findFirst({
+    where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, companyId)),
+  })
+}
+
+// GET /api/employees/[id]/certifications - Certifications with expiry status and evidence
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(await listEmployeeCertifications(session.companyId, employee.id))
+  } catch (error) {
+    console.error("Get certifications error:", error)
+    return NextResponse.json({ error: "Failed to fetch certifications" }, { status: 500 })
+  }
+}
+
+// POST /api/employees/[id]/certifications - Record a certification from a multipart form, with an optional certificate "file"
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const certification = await createCertificationFromForm(session.companyId, employee.id, formData, session.id)
+
+    return NextResponse.json(certification, { status: 201 })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Create certification error:", error)
+    return NextResponse.json({ error: "Failed to create certification" }, { status: 500 })
+  }
+}
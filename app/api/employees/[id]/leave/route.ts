@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { parseISO } from "date-fns"
+import {
+  LeaveError,
+  addLeaveAdjustment,
+  getEmployeeLeaveBalance,
+  listLeaveAdjustments,
+} from "@/lib/leave"
+
+// GET /api/employees/[id]/leave - Holiday balance and manual adjustments for a leave year (?date=)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employeeId = parseInt(id)
+    if (isNaN(employeeId)) {
+      return NextResponse.json({ error: "Invalid employee ID" }, { status: 400 })
+    }
+
+    const dateParam = request.nextUrl.searchParams.get("date")
+    const date = dateParam ? parseISO(dateParam) : undefined
+    if (date && Number.isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    const balance = await getEmployeeLeaveBalance(session.companyId, employeeId, date)
+    const adjustments = await listLeaveAdjustments(session.companyId, employeeId, balance.leaveYear.start)
+
+    return NextResponse.json({ balance, adjustments })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get employee leave error:", error)
+    return NextResponse.json({ error: "Failed to fetch leave balance" }, { status: 500 })
+  }
+}
+
+// POST /api/employees/[id]/leave - Add or take away days for the leave year containing "date"
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employeeId = parseInt(id)
+    if (isNaN(employeeId)) {
+      return NextResponse.json({ error: "Invalid employee ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const adjustment = await addLeaveAdjustment(session.companyId, employeeId, body, session.id)
+
+    return NextResponse.json(adjustment, { status: 201 })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Create leave adjustment error:", error)
+    return NextResponse.json({ error: "Failed to add leave adjustment" }, { status: 500 })
+  }
+}
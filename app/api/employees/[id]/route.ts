@@ -70,11 +70,10 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       salary,
       paymentFrequency,
       payType,
-      skills,
-      certifications,
+      contractedHoursPerWeek,
+      annualLeaveDays,
       languages,
       performanceRating,
-      availability,
       emergencyContactName,
       emergencyContactPhone,
       emergencyContactRelation,
@@ -178,11 +177,10 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         salary: salary || null,
         paymentFrequency: paymentFrequency || null,
         payType: payType || null,
-        skills: skills || null,
-        certifications: certifications || null,
+        contractedHoursPerWeek: contractedHoursPerWeek || null,
+        annualLeaveDays: annualLeaveDays || null,
         languages: languages || null,
         performanceRating: performanceRating || null,
-        availability: availability || null,
         emergencyContactName: emergencyContactName || null,
         emergencyContactPhone: emergencyContactPhone || null,
         emergencyContactRelation: emergencyContactRelation || null,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { and, eq } from "drizzle-orm"
+import { SkillsError, getEmployeeSkills, listSkills, setEmployeeSkills } from "@/lib/employee-skills"
+
+async function findEmployee(companyId: number, id: string) {
+  const employeeId = parseInt(id)
+  if (isNaN(employeeId) || !db) return null
+  return db.query.employees.findFirst({
+    where: and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, companyId)),
+  })
+}
+
+// GET /api/employees/[id]/skills - Skills the employee has, with levels, and the catalogue to pick from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const [skills, catalogue] = await Promise.all([getEmployeeSkills(employee.id), listSkills(session.companyId)])
+
+    return NextResponse.json({ skills, catalogue })
+  } catch (error) {
+    console.error("Get employee skills error:", error)
+    return NextResponse.json({ error: "Failed to fetch skills" }, { status: 500 })
+  }
+}
+
+// PUT /api/employees/[id]/skills - Replace the employee's skills
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employee = await findEmployee(session.companyId, id)
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const skills = await setEmployeeSkills(session.companyId, employee.id, body?.skills)
+
+    return NextResponse.json({ skills })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Update employee skills error:", error)
+    return NextResponse.json({ error: "Failed to update skills" }, { status: 500 })
+  }
+}
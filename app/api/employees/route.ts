@@ -18,6 +18,7 @@ export async function GET() {
     const employees = await db.query.employees.findMany({
       where: eq(schema.employees.companyId, session.companyId),
       orderBy: (employees, { desc }) => [desc(employees.createdAt)],
+      with: { availabilityWindows: true },
     })
 
     // Never return password hashes to the client.
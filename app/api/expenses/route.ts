@@ -64,6 +64,8 @@ export async function POST(request: NextRequest) {
       receiptNumber,
       receiptUrl,
       taxDeductible,
+      vatAmount,
+      vatReclaimable,
       notes,
       expenseDate,
       jobId,
@@ -85,6 +87,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const vat = vatAmount !== undefined && vatAmount !== "" && vatAmount !== null ? parseFloat(vatAmount) : 0
+    if (isNaN(vat) || vat < 0 || vat > parseFloat(amount)) {
+      return NextResponse.json(
+        { error: "VAT amount must be between 0 and the expense amount" },
+        { status: 400 }
+      )
+    }
+
     // Create expense
     const [expense] = await db
       .insert(expenses)
@@ -100,6 +110,8 @@ export async function POST(request: NextRequest) {
         receiptNumber: receiptNumber || null,
         receiptUrl: receiptUrl || null,
         taxDeductible: taxDeductible !== undefined ? (taxDeductible ? 1 : 0) : 1,
+        vatAmount: vat.toFixed(2),
+        vatReclaimable: vatReclaimable && vat > 0 ? 1 : 0,
         notes: notes || null,
         expenseDate: expenseDate ? new Date(expenseDate) : new Date(),
       })
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { verifyLocalSignature } from "@/lib/storage/local"
+
+// GET /api/files/[...key] - Serve a file from local storage. Only valid with a signed, unexpired URL from lib/storage.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await context.params
+    const key = segments.join("/")
+    const { searchParams } = request.nextUrl
+    const expires = Number(searchParams.get("expires"))
+    const signature = searchParams.get("signature") || ""
+
+    if (!/^[0-9a-f]+$/i.test(signature) || !verifyLocalSignature(key, expires, signature)) {
+      return NextResponse.json({ error: "Link expired or invalid" }, { status: 403 })
+    }
+
+    const storage = getStorage()
+    if (storage.driver !== "local") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    const file = await storage.get(key)
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000))
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.body.length),
+        "Cache-Control": `private, max-age=${maxAge}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Serve file error:", error)
+    return NextResponse.json({ error: "Failed to fetch file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { commitImport, ImportError } from "@/lib/imports"
+
+// POST /api/imports/[id]/commit - Write the valid rows of a previewed import in one batch
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const importId = parseInt(id)
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 })
+    }
+
+    const result = await commitImport(session.companyId, importId)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Commit import error:", error)
+    return NextResponse.json({ error: "Failed to import rows" }, { status: 500 })
+  }
+}
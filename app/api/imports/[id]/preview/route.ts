@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { ImportError, previewImport } from "@/lib/imports"
+
+// POST /api/imports/[id]/preview - Dry run: validate every row and show what it would do. Body: { mapping, duplicateMode? }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const importId = parseInt(id)
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    return NextResponse.json(
+      await previewImport(session.companyId, importId, { mapping: body?.mapping, duplicateMode: body?.duplicateMode })
+    )
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Preview import error:", error)
+    return NextResponse.json({ error: "Failed to preview import" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { ImportError, rollbackImport } from "@/lib/imports"
+
+// POST /api/imports/[id]/rollback - Remove what an import created and restore what it updated
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const importId = parseInt(id)
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 })
+    }
+
+    const result = await rollbackImport(session.companyId, importId, session.id)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Roll back import error:", error)
+    return NextResponse.json({ error: "Failed to roll back import" }, { status: 500 })
+  }
+}
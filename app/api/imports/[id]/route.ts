@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getImport, ImportError } from "@/lib/imports"
+
+// GET /api/imports/[id] - An import with its headings, column mapping and first few rows
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const importId = parseInt(id)
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 })
+    }
+
+    return NextResponse.json(await getImport(session.companyId, importId))
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get import error:", error)
+    return NextResponse.json({ error: "Failed to fetch import" }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { createImport, ImportError, isImportEntity, listImports, IMPORT_ENTITIES } from "@/lib/imports"
+
+// GET /api/imports - Recent imports, optionally for one kind of record (?entityType=customers)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const entityType = request.nextUrl.searchParams.get("entityType")
+    if (entityType === null) {
+      return NextResponse.json(await listImports(session.companyId))
+    }
+    if (!isImportEntity(entityType)) {
+      return NextResponse.json({ error: `Invalid entity type. Must be one of: ${IMPORT_ENTITIES.join(", ")}` }, { status: 400 })
+    }
+
+    return NextResponse.json(await listImports(session.companyId, entityType))
+  } catch (error) {
+    console.error("List imports error:", error)
+    return NextResponse.json({ error: "Failed to fetch imports" }, { status: 500 })
+  }
+}
+
+// POST /api/imports - Upload a CSV or XLSX file (multipart: file, entityType) as a draft import
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    const entityType = formData.get("entityType")
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+    if (!isImportEntity(entityType)) {
+      return NextResponse.json({ error: `Invalid entity type. Must be one of: ${IMPORT_ENTITIES.join(", ")}` }, { status: 400 })
+    }
+
+    const created = await createImport(session.companyId, { entityType, file, createdById: session.id })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Create import error:", error)
+    return NextResponse.json({ error: "Failed to read file" }, { status: 500 })
+  }
+}
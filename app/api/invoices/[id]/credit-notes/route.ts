@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CreditNoteError, createCreditNote, getInvoiceCreditNotes, type CreditNoteLineInput } from "@/lib/credit-notes"
+
+// GET /api/invoices/[id]/credit-notes - List credit notes issued against an invoice
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const invoiceId = parseInt(id)
+    if (isNaN(invoiceId)) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 })
+    }
+
+    const creditNotes = await getInvoiceCreditNotes(session.companyId, invoiceId)
+    return NextResponse.json(creditNotes)
+  } catch (error) {
+    console.error("Error fetching credit notes:", error)
+    return NextResponse.json({ error: "Failed to fetch credit notes" }, { status: 500 })
+  }
+}
+
+// POST /api/invoices/[id]/credit-notes - Issue a full or per-line credit note
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const invoiceId = parseInt(id)
+    if (isNaN(invoiceId)) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const lines: CreditNoteLineInput[] | undefined = Array.isArray(body.lines)
+      ? body.lines.map((line: any) => ({
+          invoiceItemId: parseInt(line.invoiceItemId),
+          quantity: parseFloat(line.quantity),
+        }))
+      : undefined
+
+    const result = await createCreditNote(session.companyId, invoiceId, {
+      lines: body.full ? undefined : lines,
+      reason: typeof body.reason === "string" ? body.reason : null,
+      createdById: session.id,
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof CreditNoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating credit note:", error)
+    return NextResponse.json({ error: "Failed to create credit note" }, { status: 500 })
+  }
+}
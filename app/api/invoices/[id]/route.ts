@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { invoices, invoiceItems, payments, customers, jobs } from "@/lib/db/schema"
-import { eq, and, sum } from "drizzle-orm"
+import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { reconcileInvoicePayments } from "@/lib/invoice-payments"
+import { getInvoiceCreditNotes } from "@/lib/credit-notes"
+import { priceInvoice } from "@/lib/invoice-utils"
+
+// Statuses only reachable through credit notes and voiding
+const LOCKED_STATUSES = ["credited", "void"]
 
 // GET /api/invoices/[id] - Get a single invoice with items and payments
 export async function GET(
@@ -51,10 +57,13 @@ export async function GET(
       .from(payments)
       .where(eq(payments.invoiceId, parseInt(id)))
 
+    const creditNotes = await getInvoiceCreditNotes(companyId, invoice.invoice.id)
+
     return NextResponse.json({
       ...invoice,
       items,
       payments: invoicePayments,
+      creditNotes,
     })
   } catch (error) {
     console.error("Error fetching invoice:", error)
@@ -85,6 +94,8 @@ export async function PUT(
       items,
       taxRate,
       discountAmount,
+      pricesIncludeVat,
+      reverseCharge,
       notes,
       terms,
       footer,
@@ -108,66 +119,77 @@ export async function PUT(
       return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
     }
 
-    // Calculate totals
-    const subtotal = items.reduce(
-      (sum: number, item: any) => sum + parseFloat(item.amount || 0),
-      0
-    )
-    const taxAmount = (subtotal * parseFloat(taxRate || 0)) / 100
-    const total = subtotal + taxAmount - parseFloat(discountAmount || 0)
-
-    // Get total payments
-    const [paymentsSum] = await db
-      .select({ total: sum(payments.amount) })
-      .from(payments)
-      .where(eq(payments.invoiceId, parseInt(id)))
+    // Issued invoices are part of the accounting record; corrections go through credit notes
+    const editsContent = [items, customerId, jobId, taxRate, discountAmount, pricesIncludeVat, reverseCharge].some((value) => value !== undefined)
+    if (existing.status !== "draft" && editsContent) {
+      return NextResponse.json(
+        { error: "Only draft invoices can be edited. Issue a credit note to correct a sent invoice." },
+        { status: 409 }
+      )
+    }
 
-    const amountPaid = parseFloat(paymentsSum?.total || "0")
-    const amountDue = total - amountPaid
-
-    // Update invoice
-    const [updated] = await db
-      .update(invoices)
-      .set({
-        customerId: customerId ? parseInt(customerId) : existing.customerId,
-        jobId: jobId ? parseInt(jobId) : null,
-        subtotal: subtotal.toFixed(2),
-        taxRate: taxRate || "0",
-        taxAmount: taxAmount.toFixed(2),
-        discountAmount: discountAmount || "0",
-        total: total.toFixed(2),
-        amountPaid: amountPaid.toFixed(2),
-        amountDue: amountDue.toFixed(2),
-        status: status || existing.status,
-        issuedAt: issuedAt ? new Date(issuedAt) : existing.issuedAt,
-        dueAt: dueAt ? new Date(dueAt) : existing.dueAt,
-        paidAt: amountDue <= 0 ? new Date() : null,
-        notes,
-        terms,
-        footer,
-        updatedAt: new Date(),
-      })
-      .where(eq(invoices.id, parseInt(id)))
-      .returning()
-
-    // Delete existing items and recreate
-    await db.delete(invoiceItems).where(eq(invoiceItems.invoiceId, parseInt(id)))
-
-    if (items && items.length > 0) {
-      await db.insert(invoiceItems).values(
-        items.map((item: any, index: number) => ({
-          invoiceId: parseInt(id),
-          title: item.title,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: item.amount,
-          taxable: item.taxable !== false,
-          sortOrder: index,
-        }))
+    if (status && LOCKED_STATUSES.includes(status) && status !== existing.status) {
+      return NextResponse.json(
+        { error: "Use a credit note or void the invoice instead of setting this status" },
+        { status: 400 }
       )
     }
 
+    if (existing.status === "void") {
+      return NextResponse.json({ error: "Voided invoices can't be changed" }, { status: 409 })
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const priced = items
+        ? await priceInvoice(tx, companyId, {
+            items,
+            customerId: customerId ? parseInt(customerId) : existing.customerId,
+            taxRate: taxRate !== undefined && taxRate !== null && taxRate !== "" ? parseFloat(taxRate) : undefined,
+            discountAmount: parseFloat(discountAmount ?? existing.discountAmount ?? 0),
+            pricesIncludeVat: typeof pricesIncludeVat === "boolean" ? pricesIncludeVat : existing.pricesIncludeVat === 1,
+            // A new customer may change whether the reverse charge applies
+            reverseCharge:
+              typeof reverseCharge === "boolean"
+                ? reverseCharge
+                : customerId
+                  ? undefined
+                  : existing.reverseCharge === 1,
+          })
+        : null
+
+      await tx
+        .update(invoices)
+        .set({
+          ...(priced && {
+            ...priced.invoice,
+            customerId: customerId ? parseInt(customerId) : existing.customerId,
+            jobId: jobId ? parseInt(jobId) : null,
+          }),
+          status: status || existing.status,
+          issuedAt: issuedAt ? new Date(issuedAt) : existing.issuedAt,
+          dueAt: dueAt ? new Date(dueAt) : existing.dueAt,
+          notes: notes !== undefined ? notes : existing.notes,
+          terms: terms !== undefined ? terms : existing.terms,
+          footer: footer !== undefined ? footer : existing.footer,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, existing.id))
+
+      if (priced) {
+        // Delete existing items and recreate
+        await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, existing.id))
+
+        if (priced.items.length > 0) {
+          await tx.insert(invoiceItems).values(
+            priced.items.map((item) => ({ ...item, invoiceId: existing.id }))
+          )
+        }
+      }
+
+      // Recalculate paid and due amounts against the (possibly new) total
+      return reconcileInvoicePayments(existing.id, tx)
+    })
+
     return NextResponse.json(updated)
   } catch (error) {
     console.error("Error updating invoice:", error)
@@ -207,6 +229,13 @@ export async function DELETE(
       return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
     }
 
+    if (existing.status !== "draft") {
+      return NextResponse.json(
+        { error: "Only draft invoices can be deleted. Void the invoice instead." },
+        { status: 409 }
+      )
+    }
+
     // Delete invoice (cascade will delete items and payments)
     await db.delete(invoices).where(eq(invoices.id, parseInt(id)))
 
@@ -5,6 +5,7 @@ import { eq, and } from "drizzle-orm"
 import { requireAuth } from "@/lib/auth"
 import { sendPaymentRequestEmail } from "@/lib/email"
 import { generateInvoicePdfBuffer } from "@/lib/invoices-pdf"
+import { getInvoicePaymentUrl } from "@/lib/invoice-payments"
 
 /**
  * POST /api/invoices/[id]/send-payment-request
@@ -67,8 +68,7 @@ export async function POST(
       return NextResponse.json({ error: "Company not found" }, { status: 404 })
     }
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
-    const paymentUrl = `${baseUrl}/portal/dashboard`
+    const paymentUrl = await getInvoicePaymentUrl(invoiceId)
     let pdfBuffer: Buffer
 
     try {
@@ -83,7 +83,7 @@ export async function POST(
       customerEmail: invoice.customer.email,
       customerName: `${invoice.customer.firstName} ${invoice.customer.lastName}`,
       invoiceNumber: invoice.invoice.invoiceNumber,
-      amount: invoice.invoice.total?.toString() || "0",
+      amount: invoice.invoice.amountDue?.toString() || "0",
       currency: invoice.invoice.currency || "GBP",
       dueDate: invoice.invoice.dueAt || new Date(),
       companyName: company.name,
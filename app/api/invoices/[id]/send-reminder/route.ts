@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
-import { invoices, invoiceItems, customers, companies } from "@/lib/db/schema"
+import { invoices, customers } from "@/lib/db/schema"
 import { eq, and } from "drizzle-orm"
 import { requireAuth } from "@/lib/auth"
-import { sendPaymentReminderEmail } from "@/lib/email"
-import { generateInvoicePDF } from "@/lib/pdf-generator"
+import { ReminderError, sendPaymentReminder } from "@/lib/reminders"
 
 // POST /api/invoices/[id]/send-reminder - Send payment reminder with PDF
 export async function POST(
@@ -28,11 +27,9 @@ export async function POST(
       .select({
         invoice: invoices,
         customer: customers,
-        company: companies,
       })
       .from(invoices)
-      .leftJoin(customers, eq(invoices.customerId, customers.id))
-      .leftJoin(companies, eq(invoices.companyId, companies.id))
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
       .where(
         and(
           eq(invoices.id, invoiceId),
@@ -44,83 +41,22 @@ export async function POST(
       return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
     }
 
-    if (!invoiceData.customer?.email) {
-      return NextResponse.json({ error: "Customer email not found" }, { status: 400 })
-    }
-
-    const items = await db
-      .select()
-      .from(invoiceItems)
-      .where(eq(invoiceItems.invoiceId, invoiceId))
-      .orderBy(invoiceItems.sortOrder)
-
-    const pdfDoc = generateInvoicePDF({
-      invoiceNumber: invoiceData.invoice.invoiceNumber,
-      issuedAt: invoiceData.invoice.issuedAt?.toISOString() || null,
-      dueAt: invoiceData.invoice.dueAt?.toISOString() || null,
-      status: invoiceData.invoice.status,
-      company: {
-        name: invoiceData.company?.name || "Company Name",
-        email: invoiceData.company?.email || "",
-        phone: invoiceData.company?.phone || null,
-        address: invoiceData.company?.address || null,
-        city: invoiceData.company?.city || null,
-        postcode: invoiceData.company?.postcode || null,
-      },
-      customer: {
-        name: invoiceData.customer
-          ? `${invoiceData.customer.firstName || ""} ${invoiceData.customer.lastName || ""}`.trim()
-          : "Customer Name",
-        email: invoiceData.customer?.email || "",
-        phone: invoiceData.customer?.phone || null,
-        address: invoiceData.customer?.address || null,
-        city: invoiceData.customer?.city || null,
-        postcode: invoiceData.customer?.postcode || null,
-      },
-      items: items.map((item) => ({
-        title: item.title,
-        description: item.description,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        amount: item.amount,
-      })),
-      subtotal: invoiceData.invoice.subtotal,
-      taxRate: invoiceData.invoice.taxRate,
-      taxAmount: invoiceData.invoice.taxAmount,
-      discountAmount: invoiceData.invoice.discountAmount,
-      total: invoiceData.invoice.total,
-      notes: invoiceData.invoice.notes,
-      terms: invoiceData.invoice.terms,
-    })
-
-    const pdfBuffer = Buffer.from(pdfDoc.output("arraybuffer"))
-
-    // Calculate days overdue
-    const dueDate = invoiceData.invoice.dueAt ? new Date(invoiceData.invoice.dueAt) : new Date()
-    const today = new Date()
-    const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)))
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
-
-    await sendPaymentReminderEmail({
-      customerEmail: invoiceData.customer.email,
-      customerName: `${invoiceData.customer.firstName || ""} ${invoiceData.customer.lastName || ""}`.trim() || "Customer",
-      invoiceNumber: invoiceData.invoice.invoiceNumber,
-      amount: invoiceData.invoice.total,
-      currency: "EUR",
-      dueDate,
-      daysOverdue,
-      companyName: invoiceData.company?.name || "Company",
-      paymentUrl: `${baseUrl}/portal/dashboard`,
-      pdfBuffer,
+    const { invoice, customer } = invoiceData
+    const result = await sendPaymentReminder(invoice.id, invoice.customerId, session.companyId, {
+      trigger: "manual",
+      sentById: session.id,
     })
 
     return NextResponse.json({
       success: true,
-      customerName: `${invoiceData.customer.firstName || ""} ${invoiceData.customer.lastName || ""}`.trim() || "Customer",
-      customerEmail: invoiceData.customer.email,
-      invoiceNumber: invoiceData.invoice.invoiceNumber,
+      customerName: `${customer.firstName || ""} ${customer.lastName || ""}`.trim() || "Customer",
+      customerEmail: result.to,
+      invoiceNumber: invoice.invoiceNumber,
     })
   } catch (error) {
+    if (error instanceof ReminderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Send invoice reminder error:", error)
     return NextResponse.json({ error: "Failed to send reminder" }, { status: 500 })
   }
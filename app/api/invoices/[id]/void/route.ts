@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { CreditNoteError, voidInvoice } from "@/lib/credit-notes"
+
+// POST /api/invoices/[id]/void - Void an invoice by crediting what is left on it
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const invoiceId = parseInt(id)
+    if (isNaN(invoiceId)) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const result = await voidInvoice(session.companyId, invoiceId, {
+      reason: typeof body.reason === "string" ? body.reason : null,
+      createdById: session.id,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof CreditNoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error voiding invoice:", error)
+    return NextResponse.json({ error: "Failed to void invoice" }, { status: 500 })
+  }
+}
@@ -5,6 +5,8 @@ import { eq, and, desc, sql, or, like, gte, lte } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
 import { sendInvoiceWithPDFEmail } from "@/lib/email"
 import { generateInvoicePdfBuffer } from "@/lib/invoices-pdf"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { priceInvoice } from "@/lib/invoice-utils"
 
 // GET /api/invoices - List all invoices with filtering
 export async function GET(request: NextRequest) {
@@ -142,6 +144,8 @@ export async function POST(request: NextRequest) {
       items,
       taxRate,
       discountAmount,
+      pricesIncludeVat,
+      reverseCharge,
       notes,
       terms,
       footer,
@@ -157,33 +161,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate invoice number
-    const lastInvoice = await db
-      .select({ invoiceNumber: invoices.invoiceNumber })
-      .from(invoices)
-      .where(eq(invoices.companyId, companyId))
-      .orderBy(desc(invoices.id))
-      .limit(1)
-
-    const formatDate = (date: Date) => {
-      const dd = String(date.getDate()).padStart(2, "0")
-      const mm = String(date.getMonth() + 1).padStart(2, "0")
-      const yyyy = date.getFullYear()
-      return `${dd}-${mm}-${yyyy}`
-    }
-
-    let invoiceNumber = "INV-0001"
-    if (lastInvoice.length > 0) {
-      const lastNumber = parseInt(lastInvoice[0].invoiceNumber.split("-")[1])
-      invoiceNumber = `INV-${String(lastNumber + 1).padStart(4, "0")}`
-    }
-
-    const [customer] = await db
-      .select({ firstName: customers.firstName, lastName: customers.lastName })
-      .from(customers)
-      .where(eq(customers.id, parseInt(customerId)))
-      .limit(1)
-
     const [job] = jobId
       ? await db
           .select({ scheduledFor: jobs.scheduledFor })
@@ -193,55 +170,47 @@ export async function POST(request: NextRequest) {
       : []
 
     const invoiceDate = job?.scheduledFor ? new Date(job.scheduledFor) : new Date()
-    const customerNameLabel = customer
-      ? `${customer.firstName} ${customer.lastName}`.trim()
-      : "Customer"
-    invoiceNumber = `${invoiceNumber} - ${customerNameLabel} - ${formatDate(invoiceDate)}`
-
-    // Calculate totals
-    const subtotal = items.reduce(
-      (sum: number, item: any) => sum + parseFloat(item.amount || 0),
-      0
-    )
-    const taxAmount = (subtotal * parseFloat(taxRate || 0)) / 100
-    const total = subtotal + taxAmount - parseFloat(discountAmount || 0)
-
-    // Create invoice
-    const [invoice] = await db
-      .insert(invoices)
-      .values({
-        companyId,
-        invoiceNumber,
+
+    // Create invoice and items, numbering the invoice in the same transaction
+    const invoice = await db.transaction(async (tx) => {
+      const invoiceNumber = await allocateDocumentNumber(tx, companyId, "invoice", {
+        date: invoiceDate,
         customerId: parseInt(customerId),
-        jobId: jobId ? parseInt(jobId) : null,
-        subtotal: subtotal.toFixed(2),
-        taxRate: taxRate || "0",
-        taxAmount: taxAmount.toFixed(2),
-        discountAmount: discountAmount || "0",
-        total: total.toFixed(2),
-        amountDue: total.toFixed(2),
-        notes,
-        terms,
-        footer,
-        dueAt: dueAt ? new Date(dueAt) : null,
       })
-      .returning()
-
-    // Create invoice items
-    if (items && items.length > 0) {
-      await db.insert(invoiceItems).values(
-        items.map((item: any, index: number) => ({
-          invoiceId: invoice.id,
-          title: item.title,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: item.amount,
-          taxable: item.taxable !== false,
-          sortOrder: index,
-        }))
-      )
-    }
+
+      const priced = await priceInvoice(tx, companyId, {
+        items: items || [],
+        customerId: parseInt(customerId),
+        taxRate: taxRate !== undefined && taxRate !== null && taxRate !== "" ? parseFloat(taxRate) : undefined,
+        discountAmount: parseFloat(discountAmount || 0),
+        pricesIncludeVat: typeof pricesIncludeVat === "boolean" ? pricesIncludeVat : undefined,
+        reverseCharge: typeof reverseCharge === "boolean" ? reverseCharge : undefined,
+      })
+
+      const [created] = await tx
+        .insert(invoices)
+        .values({
+          companyId,
+          invoiceNumber,
+          customerId: parseInt(customerId),
+          jobId: jobId ? parseInt(jobId) : null,
+          ...priced.invoice,
+          amountDue: priced.invoice.total,
+          notes,
+          terms,
+          footer,
+          dueAt: dueAt ? new Date(dueAt) : null,
+        })
+        .returning()
+
+      if (priced.items.length > 0) {
+        await tx.insert(invoiceItems).values(
+          priced.items.map((item) => ({ ...item, invoiceId: created.id }))
+        )
+      }
+
+      return created
+    })
 
     // Get customer and company details to send invoice email
     const [customerDetails] = await db
@@ -266,7 +235,7 @@ export async function POST(request: NextRequest) {
           customerEmail: customerDetails.email,
           customerName: `${customerDetails.firstName} ${customerDetails.lastName}`,
           invoiceNumber: invoice.invoiceNumber,
-          amount: total.toFixed(2),
+          amount: invoice.total,
           currency: "EUR",
           dueDate: invoice.dueAt ? new Date(invoice.dueAt) : new Date(),
           companyName: companyDetails?.name || "Cleaning Company",
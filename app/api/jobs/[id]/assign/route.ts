@@ -3,6 +3,13 @@ import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and } from "drizzle-orm"
 import { sendJobAssignmentEmail } from "@/lib/email"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 // POST /api/jobs/[id]/assign - Assign employee to job
 export async function POST(
@@ -23,7 +30,7 @@ export async function POST(
     }
 
     const body = await request.json()
-    const { employeeId, teamMembers, sendNotification = true, notes } = body
+    const { employeeId, teamMembers, sendNotification = true, notes, overrideReason } = body
 
     if (!employeeId) {
       return NextResponse.json({ error: "Employee ID is required" }, { status: 400 })
@@ -63,40 +70,78 @@ export async function POST(
       return NextResponse.json({ error: "Employee not found" }, { status: 404 })
     }
 
+    const jobWindow = getJobWindow({
+      scheduledFor: job.scheduledFor,
+      scheduledEnd: job.scheduledEnd,
+      durationMinutes: job.durationMinutes,
+    })
+
     // Get company info for email
     const company = await db.query.companies.findFirst({
       where: eq(schema.companies.id, session.companyId),
     })
 
-    // Update job assignment - reset acceptance status for new employee
-    const [updatedJob] = await db
-      .update(schema.jobs)
-      .set({
-        assignedTo: employeeId,
-        teamMembers: teamMembers || null,
-        // Reset employee acceptance so new assignee sees Accept/Decline buttons
-        employeeAccepted: null,
-        employeeAcceptedAt: null,
-        // Set status back to scheduled (was pending after decline)
-        status: "scheduled",
-        internalNotes: notes ? `${job.internalNotes || ""}\n\nAssignment note: ${notes}` : job.internalNotes,
-        updatedAt: new Date(),
+    // The clash check and the assignment share a transaction so concurrent bookings can't both pass
+    const updatedJob = await db.transaction(async (tx) => {
+      const conflictCheck = jobWindow
+        ? await assertNoSchedulingConflicts(
+            tx,
+            session.companyId,
+            [
+              {
+                kind: "job",
+                id: jobId,
+                employeeIds: [employee.id],
+                ...jobWindow,
+                coordinates: parseCoordinates(job.latitude, job.longitude),
+              },
+            ],
+            { overrideReason, role: session.role },
+          )
+        : null
+
+      // Update job assignment - reset acceptance status for new employee
+      const [updated] = await tx
+        .update(schema.jobs)
+        .set({
+          assignedTo: employeeId,
+          teamMembers: teamMembers || null,
+          // Reset employee acceptance so new assignee sees Accept/Decline buttons
+          employeeAccepted: null,
+          employeeAcceptedAt: null,
+          // Set status back to scheduled (was pending after decline)
+          status: "scheduled",
+          internalNotes: notes ? `${job.internalNotes || ""}\n\nAssignment note: ${notes}` : job.internalNotes,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.jobs.id, jobId))
+        .returning()
+
+      // Log the assignment event using jobEvents table
+      await tx.insert(schema.jobEvents).values({
+        jobId: jobId,
+        type: "job_assigned",
+        message: `Job "${job.title}" assigned to ${employee.firstName} ${employee.lastName}`,
+        meta: JSON.stringify({
+          jobId,
+          employeeId,
+          previousAssignee: job.assignedTo,
+          assignedBy: session.id,
+        }),
+        actorId: null,
       })
-      .where(eq(schema.jobs.id, jobId))
-      .returning()
-
-    // Log the assignment event using jobEvents table
-    await db.insert(schema.jobEvents).values({
-      jobId: jobId,
-      type: "job_assigned",
-      message: `Job "${job.title}" assigned to ${employee.firstName} ${employee.lastName}`,
-      meta: JSON.stringify({
-        jobId,
-        employeeId,
-        previousAssignee: job.assignedTo,
-        assignedBy: session.id,
-      }),
-      actorId: null,
+
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: jobId,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return updated
     })
 
     // Send notification email to employee
@@ -151,6 +196,9 @@ export async function POST(
       message: `Job assigned to ${employee.firstName} ${employee.lastName}`,
     })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Assign job error:", error)
     return NextResponse.json({ error: "Failed to assign job" }, { status: 500 })
   }
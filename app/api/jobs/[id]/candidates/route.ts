@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { AutoAssignError, rankCandidatesForJob } from "@/lib/auto-assign"
+
+// GET /api/jobs/[id]/candidates - Employees ranked by how well they suit the job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const jobId = parseInt(id)
+    if (isNaN(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 })
+    }
+
+    const { candidates } = await rankCandidatesForJob(session.companyId, jobId)
+
+    return NextResponse.json({ candidates })
+  } catch (error) {
+    if (error instanceof AutoAssignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error ranking job candidates:", error)
+    return NextResponse.json({ error: "Failed to rank candidates" }, { status: 500 })
+  }
+}
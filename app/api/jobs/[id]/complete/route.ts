@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
-import { eq, and, isNull } from "drizzle-orm"
+import { eq, and } from "drizzle-orm"
 import { sendJobCompletedEmail } from "@/lib/email"
 import { randomBytes } from "crypto"
 import { generateInvoiceFromJob } from "@/lib/invoice-utils"
 import { generateInvoicePdfBuffer } from "@/lib/invoices-pdf"
+import { closeJobWorkSession } from "@/lib/timesheets"
 
 // POST /api/jobs/[id]/complete - Complete a job
 export async function POST(
@@ -93,22 +94,8 @@ export async function POST(
       .where(eq(schema.jobs.id, jobId))
       .returning()
 
-    // Close any open work session for this job (using endedAt instead of clockOut)
-    const openWorkSession = await db.query.workSessions.findFirst({
-      where: and(
-        eq(schema.workSessions.jobId, jobId),
-        isNull(schema.workSessions.endedAt)
-      ),
-    })
-
-    if (openWorkSession) {
-      await db
-        .update(schema.workSessions)
-        .set({
-          endedAt: completedAt,
-        })
-        .where(eq(schema.workSessions.id, openWorkSession.id))
-    }
+    // Close any open work session for this job
+    const closedWorkSession = await closeJobWorkSession(db, jobId, completedAt)
 
     // Log the event using jobEvents table
     await db.insert(schema.jobEvents).values({
@@ -131,10 +118,8 @@ export async function POST(
 
     // Calculate job duration
     let durationMinutes = job.durationMinutes || 60
-    if (openWorkSession?.startedAt) {
-      durationMinutes = Math.round(
-        (completedAt.getTime() - new Date(openWorkSession.startedAt).getTime()) / 60000
-      )
+    if (closedWorkSession?.durationMinutes != null) {
+      durationMinutes = closedWorkSession.durationMinutes
     }
 
     // Send notification email to customer
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and } from "drizzle-orm"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 // POST /api/jobs/[id]/duplicate - Duplicate a job
 export async function POST(
@@ -28,6 +35,7 @@ export async function POST(
       customerId,
       assignedTo,
       copyNotes = false,
+      overrideReason,
     } = body
 
     // Verify job exists and belongs to company
@@ -70,47 +78,91 @@ export async function POST(
       }
     }
 
-    // Create duplicate job
-    const [newJob] = await db
-      .insert(schema.jobs)
-      .values({
-        companyId: session.companyId,
-        title: `${originalJob.title} (Copy)`,
-        description: originalJob.description,
-        customerId: customerId || originalJob.customerId,
-        assignedTo: assignedTo || originalJob.assignedTo,
-        teamMembers: originalJob.teamMembers,
-        location: originalJob.location,
-        addressLine2: originalJob.addressLine2,
-        city: originalJob.city,
-        postcode: originalJob.postcode,
-        accessInstructions: originalJob.accessInstructions,
-        parkingInstructions: originalJob.parkingInstructions,
-        specialInstructions: originalJob.specialInstructions,
-        scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
-        scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : null,
-        durationMinutes: originalJob.durationMinutes,
-        status: "scheduled",
-        priority: originalJob.priority,
-        estimatedPrice: originalJob.estimatedPrice,
-        currency: originalJob.currency,
-        internalNotes: copyNotes ? originalJob.internalNotes : null,
-        planId: originalJob.planId,
+    const newScheduledFor = scheduledFor ? new Date(scheduledFor) : null
+    const newScheduledEnd = scheduledEnd ? new Date(scheduledEnd) : null
+    const newAssignee = assignedTo || originalJob.assignedTo
+    const jobWindow = getJobWindow({
+      scheduledFor: newScheduledFor,
+      scheduledEnd: newScheduledEnd,
+      durationMinutes: originalJob.durationMinutes,
+    })
+
+    // The clash check and the new job share a transaction so concurrent bookings can't both pass
+    const newJob = await db.transaction(async (tx) => {
+      const conflictCheck =
+        jobWindow && newAssignee
+          ? await assertNoSchedulingConflicts(
+              tx,
+              session.companyId,
+              [
+                {
+                  kind: "job",
+                  employeeIds: [newAssignee],
+                  ...jobWindow,
+                  coordinates: parseCoordinates(originalJob.latitude, originalJob.longitude),
+                },
+              ],
+              { overrideReason, role: session.role },
+            )
+          : null
+
+      // Create duplicate job
+      const [created] = await tx
+        .insert(schema.jobs)
+        .values({
+          companyId: session.companyId,
+          title: `${originalJob.title} (Copy)`,
+          description: originalJob.description,
+          customerId: customerId || originalJob.customerId,
+          assignedTo: newAssignee,
+          teamMembers: originalJob.teamMembers,
+          location: originalJob.location,
+          addressLine2: originalJob.addressLine2,
+          city: originalJob.city,
+          postcode: originalJob.postcode,
+          accessInstructions: originalJob.accessInstructions,
+          parkingInstructions: originalJob.parkingInstructions,
+          specialInstructions: originalJob.specialInstructions,
+          scheduledFor: newScheduledFor,
+          scheduledEnd: newScheduledEnd,
+          durationMinutes: originalJob.durationMinutes,
+          status: "scheduled",
+          priority: originalJob.priority,
+          estimatedPrice: originalJob.estimatedPrice,
+          serviceAreaId: originalJob.serviceAreaId,
+          areaSurcharge: originalJob.areaSurcharge,
+          priceBreakdown: originalJob.priceBreakdown,
+          currency: originalJob.currency,
+          internalNotes: copyNotes ? originalJob.internalNotes : null,
+          planId: originalJob.planId,
+        })
+        .returning()
+
+      // Log the event
+      // Note: actorId references employees table, company users stored in meta
+      await tx.insert(schema.jobEvents).values({
+        jobId: created.id,
+        type: "duplicated",
+        message: `Job duplicated from "${originalJob.title}"`,
+        meta: JSON.stringify({
+          originalJobId: jobId,
+          duplicatedByUserId: session.id,
+          duplicatedByRole: session.role,
+        }),
+        actorId: null,
       })
-      .returning()
-
-    // Log the event
-    // Note: actorId references employees table, company users stored in meta
-    await db.insert(schema.jobEvents).values({
-      jobId: newJob.id,
-      type: "duplicated",
-      message: `Job duplicated from "${originalJob.title}"`,
-      meta: JSON.stringify({
-        originalJobId: jobId,
-        duplicatedByUserId: session.id,
-        duplicatedByRole: session.role,
-      }),
-      actorId: null,
+
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: created.id,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return created
     })
 
     if (newJob.planId) {
@@ -150,6 +202,9 @@ export async function POST(
       message: "Job duplicated successfully",
     })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Duplicate job error:", error)
     return NextResponse.json({ error: "Failed to duplicate job" }, { status: 500 })
   }
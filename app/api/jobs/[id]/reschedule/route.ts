@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
-import { eq, and } from "drizzle-orm"
+import { eq, and, ne } from "drizzle-orm"
 import { sendJobRescheduledEmail } from "@/lib/email"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 // POST /api/jobs/[id]/reschedule - Reschedule a job
 export async function POST(
@@ -30,6 +37,7 @@ export async function POST(
       notifyCustomer = true,
       notifyEmployee = true,
       assignedTo,
+      overrideReason,
     } = body
 
     if (!newDate) {
@@ -85,53 +93,103 @@ export async function POST(
       }
     }
 
-    // Update job
-    const updateData: any = {
+    // Everyone who will be on the job at its new time
+    const assignmentRows = await db
+      .select({ employeeId: schema.jobAssignments.employeeId })
+      .from(schema.jobAssignments)
+      .where(and(eq(schema.jobAssignments.jobId, jobId), ne(schema.jobAssignments.status, "declined")))
+    const primaryAssignee = assignedTo || job.assignedTo
+    const employeeIds = new Set(
+      assignmentRows
+        .map((row) => row.employeeId)
+        .filter((employeeId) => !(assignedTo && employeeId === job.assignedTo)),
+    )
+    if (primaryAssignee) employeeIds.add(primaryAssignee)
+
+    const newWindow = getJobWindow({
       scheduledFor: newScheduledFor,
-      updatedAt: new Date(),
-    }
+      scheduledEnd: newScheduledEnd,
+      durationMinutes: job.durationMinutes,
+    })
+    // The clash check and the move share a transaction so concurrent bookings can't both pass
+    const updatedJob = await db.transaction(async (tx) => {
+      const conflictCheck = newWindow
+        ? await assertNoSchedulingConflicts(
+            tx,
+            session.companyId,
+            [
+              {
+                kind: "job",
+                id: jobId,
+                employeeIds: Array.from(employeeIds),
+                ...newWindow,
+                coordinates: parseCoordinates(job.latitude, job.longitude),
+              },
+            ],
+            { overrideReason, role: session.role },
+          )
+        : null
 
-    if (newScheduledEnd) {
-      updateData.scheduledEnd = newScheduledEnd
-    }
+      // Update job
+      const updateData: any = {
+        scheduledFor: newScheduledFor,
+        updatedAt: new Date(),
+      }
 
-    // If assignee is being changed, reset acceptance status
-    if (assignedTo && assignedTo !== job.assignedTo) {
-      updateData.assignedTo = assignedTo
-      updateData.employeeAccepted = null
-      updateData.employeeAcceptedAt = null
-      updateData.status = "scheduled" // Reset status for new assignee
-    } else if (assignedTo) {
-      updateData.assignedTo = assignedTo
-    }
+      if (newScheduledEnd) {
+        updateData.scheduledEnd = newScheduledEnd
+      }
 
-    // Reset status to scheduled if it was in-progress (and not already set above)
-    if (job.status === "in-progress" && !updateData.status) {
-      updateData.status = "scheduled"
-    }
+      // If assignee is being changed, reset acceptance status
+      if (assignedTo && assignedTo !== job.assignedTo) {
+        updateData.assignedTo = assignedTo
+        updateData.employeeAccepted = null
+        updateData.employeeAcceptedAt = null
+        updateData.status = "scheduled" // Reset status for new assignee
+      } else if (assignedTo) {
+        updateData.assignedTo = assignedTo
+      }
 
-    const [updatedJob] = await db
-      .update(schema.jobs)
-      .set(updateData)
-      .where(eq(schema.jobs.id, jobId))
-      .returning()
-
-    // Log the event
-    // Note: actorId references employees table, but company users are in users table
-    // Store company user info in meta instead, set actorId to null for company actions
-    await db.insert(schema.jobEvents).values({
-      jobId: jobId,
-      type: "rescheduled",
-      message: `Job "${job.title}" rescheduled from ${originalDate ? new Date(originalDate).toLocaleDateString() : 'unscheduled'} to ${newScheduledFor.toLocaleDateString()}`,
-      meta: JSON.stringify({
-        originalDate: originalDate?.toISOString(),
-        newDate: newScheduledFor.toISOString(),
-        reason,
-        rescheduledByUserId: session.id,
-        rescheduledByRole: session.role,
-        newAssignee: assignedTo,
-      }),
-      actorId: null, // Company user, not an employee
+      // Reset status to scheduled if it was in-progress (and not already set above)
+      if (job.status === "in-progress" && !updateData.status) {
+        updateData.status = "scheduled"
+      }
+
+      const [updated] = await tx
+        .update(schema.jobs)
+        .set(updateData)
+        .where(eq(schema.jobs.id, jobId))
+        .returning()
+
+      // Log the event
+      // Note: actorId references employees table, but company users are in users table
+      // Store company user info in meta instead, set actorId to null for company actions
+      await tx.insert(schema.jobEvents).values({
+        jobId: jobId,
+        type: "rescheduled",
+        message: `Job "${job.title}" rescheduled from ${originalDate ? new Date(originalDate).toLocaleDateString() : 'unscheduled'} to ${newScheduledFor.toLocaleDateString()}`,
+        meta: JSON.stringify({
+          originalDate: originalDate?.toISOString(),
+          newDate: newScheduledFor.toISOString(),
+          reason,
+          rescheduledByUserId: session.id,
+          rescheduledByRole: session.role,
+          newAssignee: assignedTo,
+        }),
+        actorId: null, // Company user, not an employee
+      })
+
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: jobId,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return updated
     })
 
     // Build full address without duplicating city/postcode already in location
@@ -200,6 +258,9 @@ export async function POST(
       newDate: newScheduledFor.toISOString(),
     })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Reschedule job error:", error)
     return NextResponse.json({ error: "Failed to reschedule job" }, { status: 500 })
   }
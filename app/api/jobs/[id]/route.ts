@@ -4,6 +4,15 @@ import { requireAuth } from "@/lib/auth"
 import { eq, and, inArray } from "drizzle-orm"
 import { generateSecureToken } from "@/lib/utils"
 import { sendJobAssignmentEmail, sendJobUnassignedEmail } from "@/lib/email"
+import { geocodeToColumns, parseCoordinates, type CoordinateColumns } from "@/lib/geocoding"
+import { applyAreaSurcharge, resolveServiceArea } from "@/lib/service-areas"
+import { parseStoredPriceQuote, repriceAreaSurcharge, type PriceQuote } from "@/lib/pricing"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 function buildFullAddress(job: {
   location?: string | null
@@ -158,6 +167,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       customerFeedback,
       internalNotes,
       planId,
+      overrideReason,
     } = body
 
     // Validate required fields
@@ -354,98 +364,197 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         ? employeePay
         : existingJob.employeePay ?? null
 
-    // Update job
-    const [updatedJob] = await db
-      .update(schema.jobs)
-      .set({
-        title,
-        description: description || null,
-        customerId,
-        assignedTo: resolvedAssignedTo,
-        teamMembers: teamMembers || null,
-        location: location || null,
-        addressLine2: addressLine2 || null,
-        city: city || null,
-        postcode: postcode || null,
-        accessInstructions: accessInstructions || null,
-        parkingInstructions: parkingInstructions || null,
-        specialInstructions: specialInstructions || null,
-        scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
-        scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : null,
-        durationMinutes: durationMinutes ?? existingJob.durationMinutes ?? 60,
-        recurrence: recurrence || "none",
-        recurrenceEndDate: recurrenceEndDate ? new Date(recurrenceEndDate) : null,
-        status: nextStatus,
-        priority: priority || "normal",
-        completedAt: completedAt ? new Date(completedAt) : null,
-        estimatedPrice: estimatedPrice || null,
-        actualPrice: actualPrice || null,
-        employeePay: resolvedEmployeePay,
-        currency: currency || "GBP",
-        qualityRating: qualityRating || null,
-        customerFeedback: customerFeedback || null,
-        internalNotes: internalNotes || null,
-        planId: planId || null,
-        // Reset employee acceptance when assignments change
-        ...(assignmentsChanged && !isCompletedJob ? { employeeAccepted: null, employeeAcceptedAt: null } : {}),
-        // Generate feedback token when job is marked as completed
-        feedbackToken: nextStatus === "completed" && !existingJob.feedbackToken 
-          ? generateSecureToken(32) 
-          : existingJob.feedbackToken,
-        updatedAt: new Date(),
+    // Only hit the geocoder when the job site actually changed
+    const addressChanged =
+      (location || null) !== existingJob.location ||
+      (city || null) !== existingJob.city ||
+      (postcode || null) !== existingJob.postcode
+    const coordinates: CoordinateColumns = addressChanged
+      ? await geocodeToColumns([location, city, postcode])
+      : { latitude: existingJob.latitude, longitude: existingJob.longitude }
+
+    // A move to another service area swaps the surcharge in the price, unless the price was edited too
+    let resolvedEstimatedPrice: string | null = estimatedPrice ? String(estimatedPrice) : null
+    let areaFields: {
+      serviceAreaId?: number | null
+      areaSurcharge?: string | null
+      priceBreakdown?: PriceQuote
+    } = {}
+    if (addressChanged) {
+      const { match } = await resolveServiceArea(session.companyId, {
+        postcode,
+        address: [location, city],
+        coordinates: parseCoordinates(coordinates.latitude, coordinates.longitude),
       })
-      .where(eq(schema.jobs.id, jobId))
-      .returning()
+      areaFields = { serviceAreaId: match?.area.id ?? null, areaSurcharge: null }
+      const priceUnchanged =
+        resolvedEstimatedPrice !== null &&
+        existingJob.estimatedPrice !== null &&
+        parseFloat(resolvedEstimatedPrice) === parseFloat(existingJob.estimatedPrice)
+      const storedQuote = parseStoredPriceQuote(existingJob.priceBreakdown)
+      if (priceUnchanged && storedQuote && storedQuote.total === parseFloat(resolvedEstimatedPrice!)) {
+        const quote = repriceAreaSurcharge(storedQuote, match?.area)
+        resolvedEstimatedPrice = quote.total.toFixed(2)
+        areaFields.areaSurcharge = quote.areaSurcharge > 0 ? quote.areaSurcharge.toFixed(2) : null
+        areaFields.priceBreakdown = quote
+      } else if (priceUnchanged) {
+        const basePrice = parseFloat(resolvedEstimatedPrice!) - (parseFloat(existingJob.areaSurcharge ?? "") || 0)
+        const priced = applyAreaSurcharge(match?.area, basePrice)
+        resolvedEstimatedPrice = priced.price
+        areaFields.areaSurcharge = priced.surcharge
+      }
+    }
 
-    if (shouldUpdateAssignments) {
-      if (removedAssignmentIds.length > 0) {
-        await db
-          .delete(schema.jobAssignments)
-          .where(
-            and(
-              eq(schema.jobAssignments.jobId, jobId),
-              inArray(schema.jobAssignments.employeeId, removedAssignmentIds)
+    const nextScheduledFor = scheduledFor ? new Date(scheduledFor) : null
+    const nextScheduledEnd = scheduledEnd ? new Date(scheduledEnd) : null
+    const nextDurationMinutes = durationMinutes ?? existingJob.durationMinutes ?? 60
+    const timeOf = (date: Date | null) => (date ? new Date(date).getTime() : null)
+    const scheduleChanged =
+      timeOf(nextScheduledFor) !== timeOf(existingJob.scheduledFor) ||
+      timeOf(nextScheduledEnd) !== timeOf(existingJob.scheduledEnd) ||
+      nextDurationMinutes !== existingJob.durationMinutes ||
+      addressChanged
+    const checkedEmployeeIds = Array.from(
+      new Set([...nextAssignmentIds, ...(resolvedAssignedTo ? [Number(resolvedAssignedTo)] : [])])
+    )
+    // Only a move, a new cleaner or a new site can create a clash; other edits leave it alone
+    const jobWindow =
+      !["completed", "cancelled"].includes(nextStatus) &&
+      (scheduleChanged || assignmentsChanged || resolvedAssignedTo !== existingJob.assignedTo)
+        ? getJobWindow({
+            scheduledFor: nextScheduledFor,
+            scheduledEnd: nextScheduledEnd,
+            durationMinutes: nextDurationMinutes,
+          })
+        : null
+
+    // The clash check and the changes share a transaction so concurrent bookings can't both pass
+    const updatedJob = await db.transaction(async (tx) => {
+      const conflictCheck =
+        jobWindow && checkedEmployeeIds.length > 0
+          ? await assertNoSchedulingConflicts(
+              tx,
+              session.companyId,
+              [
+                {
+                  kind: "job",
+                  id: jobId,
+                  employeeIds: checkedEmployeeIds,
+                  ...jobWindow,
+                  coordinates: parseCoordinates(coordinates.latitude, coordinates.longitude),
+                },
+              ],
+              { overrideReason, role: session.role },
             )
+          : null
+
+      // Update job
+      const [updated] = await tx
+        .update(schema.jobs)
+        .set({
+          title,
+          description: description || null,
+          customerId,
+          assignedTo: resolvedAssignedTo,
+          teamMembers: teamMembers || null,
+          location: location || null,
+          addressLine2: addressLine2 || null,
+          city: city || null,
+          postcode: postcode || null,
+          ...coordinates,
+          accessInstructions: accessInstructions || null,
+          parkingInstructions: parkingInstructions || null,
+          specialInstructions: specialInstructions || null,
+          scheduledFor: nextScheduledFor,
+          scheduledEnd: nextScheduledEnd,
+          durationMinutes: nextDurationMinutes,
+          recurrence: recurrence || "none",
+          recurrenceEndDate: recurrenceEndDate ? new Date(recurrenceEndDate) : null,
+          status: nextStatus,
+          priority: priority || "normal",
+          completedAt: completedAt ? new Date(completedAt) : null,
+          estimatedPrice: resolvedEstimatedPrice,
+          ...areaFields,
+          actualPrice: actualPrice || null,
+          employeePay: resolvedEmployeePay,
+          currency: currency || "GBP",
+          qualityRating: qualityRating || null,
+          customerFeedback: customerFeedback || null,
+          internalNotes: internalNotes || null,
+          planId: planId || null,
+          // Reset employee acceptance when assignments change
+          ...(assignmentsChanged && !isCompletedJob ? { employeeAccepted: null, employeeAcceptedAt: null } : {}),
+          // Generate feedback token when job is marked as completed
+          feedbackToken: nextStatus === "completed" && !existingJob.feedbackToken 
+            ? generateSecureToken(32) 
+            : existingJob.feedbackToken,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.jobs.id, jobId))
+        .returning()
+
+      if (shouldUpdateAssignments) {
+        if (removedAssignmentIds.length > 0) {
+          await tx
+            .delete(schema.jobAssignments)
+            .where(
+              and(
+                eq(schema.jobAssignments.jobId, jobId),
+                inArray(schema.jobAssignments.employeeId, removedAssignmentIds)
+              )
+            )
+        }
+
+        if (addedAssignmentIds.length > 0) {
+          const assignmentsToInsert = normalizedAssignmentsWithPay.filter((assignment) =>
+            addedAssignmentIds.includes(assignment.employeeId)
           )
-      }
+          if (assignmentsToInsert.length > 0) {
+            await tx.insert(schema.jobAssignments).values(
+              assignmentsToInsert.map((assignment) => ({
+                companyId: session.companyId,
+                jobId,
+                employeeId: assignment.employeeId,
+                payAmount: assignment.payAmount,
+                status: "assigned",
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              }))
+            )
+          }
+        }
 
-      if (addedAssignmentIds.length > 0) {
-        const assignmentsToInsert = normalizedAssignmentsWithPay.filter((assignment) =>
-          addedAssignmentIds.includes(assignment.employeeId)
+        const assignmentsToUpdate = normalizedAssignmentsWithPay.filter((assignment) =>
+          previousAssignmentIds.includes(assignment.employeeId)
         )
-        if (assignmentsToInsert.length > 0) {
-          await db.insert(schema.jobAssignments).values(
-            assignmentsToInsert.map((assignment) => ({
-              companyId: session.companyId,
-              jobId,
-              employeeId: assignment.employeeId,
+        for (const assignment of assignmentsToUpdate) {
+          await tx
+            .update(schema.jobAssignments)
+            .set({
               payAmount: assignment.payAmount,
-              status: "assigned",
-              createdAt: new Date(),
               updatedAt: new Date(),
-            }))
-          )
+            })
+            .where(
+              and(
+                eq(schema.jobAssignments.jobId, jobId),
+                eq(schema.jobAssignments.employeeId, assignment.employeeId)
+              )
+            )
         }
       }
 
-      const assignmentsToUpdate = normalizedAssignmentsWithPay.filter((assignment) =>
-        previousAssignmentIds.includes(assignment.employeeId)
-      )
-      for (const assignment of assignmentsToUpdate) {
-        await db
-          .update(schema.jobAssignments)
-          .set({
-            payAmount: assignment.payAmount,
-            updatedAt: new Date(),
-          })
-          .where(
-            and(
-              eq(schema.jobAssignments.jobId, jobId),
-              eq(schema.jobAssignments.employeeId, assignment.employeeId)
-            )
-          )
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: jobId,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
       }
-    }
+
+      return updated
+    })
 
     if (assignmentsChanged && isCompletedJob) {
       try {
@@ -558,6 +667,9 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
     return NextResponse.json(updatedJob)
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Update job error:", error)
     return NextResponse.json({ error: "Failed to update job" }, { status: 500 })
   }
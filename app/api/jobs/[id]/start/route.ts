@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and } from "drizzle-orm"
+import { startJobWorkSession, TimesheetError } from "@/lib/timesheets"
 
 // POST /api/jobs/[id]/start - Start/clock-in to a job
 export async function POST(
@@ -51,6 +52,16 @@ export async function POST(
 
     const startTime = new Date()
 
+    // Create work session for time tracking, on the employee's timesheet for the week
+    const workSession = await startJobWorkSession(
+      db,
+      session.companyId,
+      job.assignedTo || session.id,
+      jobId,
+      startTime,
+      notes || null
+    )
+
     // Update job status
     const [updatedJob] = await db
       .update(schema.jobs)
@@ -61,17 +72,6 @@ export async function POST(
       .where(eq(schema.jobs.id, jobId))
       .returning()
 
-    // Create work session for time tracking
-    const [workSession] = await db
-      .insert(schema.workSessions)
-      .values({
-        employeeId: job.assignedTo || session.id,
-        jobId: jobId,
-        startedAt: startTime,
-        notes: notes || null,
-      })
-      .returning()
-
     // Log the event using jobEvents table
     await db.insert(schema.jobEvents).values({
       jobId: jobId,
@@ -96,6 +96,9 @@ export async function POST(
       startTime: startTime.toISOString(),
     })
   } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Start job error:", error)
     return NextResponse.json({ error: "Failed to start job" }, { status: 500 })
   }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and, desc } from "drizzle-orm"
+import { withSignedUrls } from "@/lib/storage"
 
 // GET /api/jobs/[id]/timeline - Get job activity timeline
 export async function GET(
@@ -51,10 +52,12 @@ export async function GET(
     // Get attachments for this job (instead of jobPhotos)
     const attachments = await db.query.attachments.findMany({
       where: and(
-        eq(schema.attachments.jobId, jobId)
+        eq(schema.attachments.jobId, jobId),
+        eq(schema.attachments.companyId, session.companyId)
       ),
       orderBy: [desc(schema.attachments.createdAt)],
     })
+    const signedAttachments = await Promise.all(attachments.map(withSignedUrls))
 
     // Combine into unified timeline
     const timeline = [
@@ -103,7 +106,7 @@ export async function GET(
         return items
       }),
       // Attachments (photos/files)
-      ...attachments.map((attachment) => ({
+      ...signedAttachments.map((attachment) => ({
         id: `attachment-${attachment.id}`,
         type: "attachment_added",
         description: `File added: ${attachment.fileName || "file"}`,
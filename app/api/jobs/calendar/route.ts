@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
 import { eq, and, gte, lte } from "drizzle-orm"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  getScheduleConflicts,
+  recordConflictOverride,
+  type SchedulingConflict,
+} from "@/lib/scheduling-conflicts"
 
 type PublicHoliday = { date: string; title: string }
 type TimeOffByDate = Record<string, { employees: { id: number; name: string; type: string }[] }>
@@ -93,6 +102,12 @@ export async function GET(request: NextRequest) {
       },
     })
 
+    const conflictsByJob = new Map<number, SchedulingConflict[]>()
+    for (const conflict of await getScheduleConflicts(session.companyId, rangeStart, rangeEnd)) {
+      if (conflict.slotKind !== "job" || !conflict.slotId) continue
+      conflictsByJob.set(conflict.slotId, [...(conflictsByJob.get(conflict.slotId) ?? []), conflict])
+    }
+
     // Transform jobs into calendar events
     const events = jobs.map((job) => {
       const start = job.scheduledFor ? new Date(job.scheduledFor) : new Date()
@@ -130,6 +145,7 @@ export async function GET(request: NextRequest) {
           estimatedPrice: job.estimatedPrice,
           currency: job.currency,
           durationMinutes: job.durationMinutes,
+          conflicts: conflictsByJob.get(job.id) ?? [],
         },
       }
     })
@@ -268,10 +284,13 @@ export async function GET(request: NextRequest) {
 // POST /api/jobs/calendar - Bulk schedule/reschedule jobs
 export async function POST(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
     const session = await requireAuth()
     const body = await request.json()
 
-    const { action, jobIds, changes } = body
+    const { action, jobIds, changes, overrideReason } = body
 
     if (!action || !jobIds || !Array.isArray(jobIds)) {
       return NextResponse.json(
@@ -280,9 +299,62 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const results: { success: number[]; failed: number[] } = {
+    const results: { success: number[]; failed: number[]; conflicts: Record<number, SchedulingConflict[]> } = {
       success: [],
       failed: [],
+      conflicts: {},
+    }
+
+    // Each job is checked for clashes in the transaction that moves or assigns it
+    const moveJob = async (
+      job: typeof schema.jobs.$inferSelect,
+      employeeIds: number[],
+      window: ReturnType<typeof getJobWindow>,
+      update: Partial<typeof schema.jobs.$inferInsert>,
+    ) =>
+      db.transaction(async (tx) => {
+        const conflictCheck =
+          window && employeeIds.length > 0
+            ? await assertNoSchedulingConflicts(
+                tx,
+                session.companyId,
+                [
+                  {
+                    kind: "job",
+                    id: job.id,
+                    employeeIds,
+                    ...window,
+                    coordinates: parseCoordinates(job.latitude, job.longitude),
+                  },
+                ],
+                { overrideReason, role: session.role },
+              )
+            : null
+
+        await tx
+          .update(schema.jobs)
+          .set({ ...update, updatedAt: new Date() })
+          .where(eq(schema.jobs.id, job.id))
+
+        if (conflictCheck?.overrideReason) {
+          await recordConflictOverride(tx, session.companyId, {
+            entityType: "job",
+            entityId: job.id,
+            conflicts: conflictCheck.conflicts,
+            reason: conflictCheck.overrideReason,
+            overriddenById: session.id,
+          })
+        }
+      })
+
+    const assignedEmployeeIds = async (job: typeof schema.jobs.$inferSelect) => {
+      const rows = await db
+        .select({ employeeId: schema.jobAssignments.employeeId })
+        .from(schema.jobAssignments)
+        .where(eq(schema.jobAssignments.jobId, job.id))
+      const ids = new Set(rows.map((row) => row.employeeId))
+      if (job.assignedTo) ids.add(job.assignedTo)
+      return Array.from(ids)
     }
 
     for (const jobId of jobIds) {
@@ -301,36 +373,42 @@ export async function POST(request: NextRequest) {
         }
 
         switch (action) {
-          case "reschedule":
+          case "reschedule": {
             if (!changes.scheduledFor) {
               results.failed.push(jobId)
               continue
             }
-            await db
-              .update(schema.jobs)
-              .set({
-                scheduledFor: new Date(changes.scheduledFor),
-                scheduledEnd: changes.scheduledEnd ? new Date(changes.scheduledEnd) : null,
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.jobs.id, jobId))
+            const scheduledFor = new Date(changes.scheduledFor)
+            const scheduledEnd = changes.scheduledEnd ? new Date(changes.scheduledEnd) : null
+            await moveJob(
+              job,
+              await assignedEmployeeIds(job),
+              getJobWindow({ scheduledFor, scheduledEnd, durationMinutes: job.durationMinutes }),
+              { scheduledFor, scheduledEnd },
+            )
             results.success.push(jobId)
             break
+          }
 
-          case "assign":
+          case "assign": {
             if (!changes.assignedTo) {
               results.failed.push(jobId)
               continue
             }
-            await db
-              .update(schema.jobs)
-              .set({
-                assignedTo: changes.assignedTo,
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.jobs.id, jobId))
+            const employee = await db.query.employees.findFirst({
+              where: and(
+                eq(schema.employees.id, changes.assignedTo),
+                eq(schema.employees.companyId, session.companyId)
+              ),
+            })
+            if (!employee) {
+              results.failed.push(jobId)
+              continue
+            }
+            await moveJob(job, [employee.id], getJobWindow(job), { assignedTo: employee.id })
             results.success.push(jobId)
             break
+          }
 
           case "updateStatus":
             if (!changes.status) {
@@ -351,7 +429,11 @@ export async function POST(request: NextRequest) {
             results.failed.push(jobId)
         }
       } catch (err) {
-        console.error(`Failed to process job ${jobId}:`, err)
+        if (err instanceof SchedulingConflictError) {
+          results.conflicts[jobId] = err.conflicts
+        } else {
+          console.error(`Failed to process job ${jobId}:`, err)
+        }
         results.failed.push(jobId)
       }
     }
@@ -372,6 +454,19 @@ export async function POST(request: NextRequest) {
       }),
     })
 
+    // Clashing jobs are left as they were; resend with overrideReason to book them anyway
+    const conflicts = Object.values(results.conflicts).flat()
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${Object.keys(results.conflicts).length} jobs clash with the schedule`,
+          conflicts,
+          results,
+        },
+        { status: 409 }
+      )
+    }
+
     return NextResponse.json({
       success: true,
       results,
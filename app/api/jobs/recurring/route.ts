@@ -1,21 +1,66 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
-import { eq, and, gte, lt, sql } from "drizzle-orm"
-import { addDays, addWeeks, addMonths, startOfDay, endOfDay, parseISO } from "date-fns"
+import { eq, and, sql } from "drizzle-orm"
+import { addMonths, parseISO } from "date-fns"
+import {
+  addExdates,
+  buildRecurrenceSet,
+  formatRecurrenceSet,
+  parseRecurrenceSet,
+  splitJobSeries,
+  splitRecurrenceSet,
+  syncJobSeries,
+  toWeekday,
+  type RecurrenceSet,
+  type Weekday,
+} from "@/lib/recurrence"
+
+interface RecurrenceBody {
+  rrule?: string // RFC 5545 RRULE, e.g. "FREQ=MONTHLY;BYDAY=-1FR"
+  recurrence?: string // daily, weekly, biweekly, monthly (used when no rrule is given)
+  daysOfWeek?: number[] // For weekly: [0, 1, 2, 3, 4, 5, 6] where 0 = Sunday
+  endDate?: string
+  exdates?: string[] // Occurrence start times, or whole days (YYYY-MM-DD), to skip
+  timezone?: string
+}
+
+function parseWeekdays(daysOfWeek: unknown): Weekday[] | undefined {
+  if (!Array.isArray(daysOfWeek)) return undefined
+  return daysOfWeek
+    .map((day) => toWeekday(typeof day === "number" ? day : String(day)))
+    .filter((day): day is Weekday => Boolean(day))
+}
+
+function buildSetFromBody(body: RecurrenceBody, dtstart: Date): RecurrenceSet | null {
+  return buildRecurrenceSet({
+    rrule: body.rrule,
+    frequency: body.recurrence,
+    weekdays: parseWeekdays(body.daysOfWeek),
+    dtstart,
+    timezone: body.timezone,
+    until: body.endDate ? parseISO(body.endDate) : null,
+    exdates: Array.isArray(body.exdates) ? body.exdates : [],
+  })
+}
 
 // POST /api/jobs/recurring - Generate recurring jobs
 export async function POST(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await requireAuth()
     const body = await request.json()
 
     const {
       parentJobId,
-      recurrence, // daily, weekly, biweekly, monthly
+      recurrence,
+      rrule,
       startDate,
       endDate,
-      daysOfWeek, // For weekly: [0, 1, 2, 3, 4, 5, 6] where 0 = Sunday
+      skipBankHolidays = false,
       maxOccurrences = 52, // Safety limit
     } = body
 
@@ -23,7 +68,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Parent job ID is required" }, { status: 400 })
     }
 
-    if (!recurrence || recurrence === "none") {
+    if (!rrule && (!recurrence || recurrence === "none")) {
       return NextResponse.json({ error: "Recurrence pattern is required" }, { status: 400 })
     }
 
@@ -39,149 +84,62 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Parent job not found" }, { status: 404 })
     }
 
-    // Calculate dates for recurring jobs
-    const start = startDate ? parseISO(startDate) : (parentJob.scheduledFor || new Date())
+    // The parent job is the first visit; its time of day is used for every visit
+    const dtstart = parentJob.scheduledFor || (startDate ? parseISO(startDate) : new Date())
+    const start = startDate ? parseISO(startDate) : dtstart
     const end = endDate ? parseISO(endDate) : addMonths(start, 3) // Default 3 months
 
-    const jobDates: Date[] = []
-    let currentDate = new Date(start)
-    let occurrences = 0
-
-    while (currentDate <= end && occurrences < maxOccurrences) {
-      // Skip dates based on recurrence pattern
-      let shouldAdd = false
-
-      switch (recurrence) {
-        case "daily":
-          shouldAdd = true
-          break
-
-        case "weekly":
-          if (daysOfWeek && daysOfWeek.length > 0) {
-            shouldAdd = daysOfWeek.includes(currentDate.getDay())
-          } else {
-            shouldAdd = currentDate.getDay() === start.getDay()
-          }
-          break
-
-        case "biweekly":
-          const weeksDiff = Math.floor(
-            (currentDate.getTime() - start.getTime()) / (7 * 24 * 60 * 60 * 1000)
-          )
-          if (weeksDiff % 2 === 0) {
-            shouldAdd = currentDate.getDay() === start.getDay()
-          }
-          break
-
-        case "monthly":
-          shouldAdd = currentDate.getDate() === start.getDate()
-          break
-      }
-
-      if (shouldAdd && currentDate > start) {
-        jobDates.push(new Date(currentDate))
-        occurrences++
-      }
-
-      // Advance date
-      currentDate = addDays(currentDate, 1)
+    let recurrenceSet: RecurrenceSet | null
+    try {
+      recurrenceSet = buildSetFromBody(body, dtstart)
+    } catch (ruleError) {
+      return NextResponse.json(
+        { error: ruleError instanceof Error ? ruleError.message : "Invalid recurrence rule" },
+        { status: 400 }
+      )
     }
 
-    // Create recurring jobs
-    const createdJobs: any[] = []
-
-    for (const date of jobDates) {
-      // Calculate the scheduled end time
-      let scheduledEnd = null
-      if (parentJob.scheduledFor && parentJob.scheduledEnd) {
-        const duration = new Date(parentJob.scheduledEnd).getTime() - new Date(parentJob.scheduledFor).getTime()
-        scheduledEnd = new Date(date.getTime() + duration)
-      }
-
-      // Set the time from parent job
-      if (parentJob.scheduledFor) {
-        const parentTime = new Date(parentJob.scheduledFor)
-        date.setHours(parentTime.getHours(), parentTime.getMinutes(), 0, 0)
-      }
-
-      const [newJob] = await db
-        .insert(schema.jobs)
-        .values({
-          companyId: session.companyId,
-          title: parentJob.title,
-          description: parentJob.description,
-          customerId: parentJob.customerId,
-          assignedTo: parentJob.assignedTo,
-          teamMembers: parentJob.teamMembers,
-          location: parentJob.location,
-          addressLine2: parentJob.addressLine2,
-          city: parentJob.city,
-          postcode: parentJob.postcode,
-          accessInstructions: parentJob.accessInstructions,
-          parkingInstructions: parentJob.parkingInstructions,
-          specialInstructions: parentJob.specialInstructions,
-          scheduledFor: date,
-          scheduledEnd: scheduledEnd,
-          durationMinutes: parentJob.durationMinutes,
-          recurrence: "none", // Child jobs don't recurr
-          parentJobId: parentJobId,
-          status: "scheduled",
-          priority: parentJob.priority,
-          estimatedPrice: parentJob.estimatedPrice,
-          currency: parentJob.currency,
-          internalNotes: parentJob.internalNotes,
-          planId: parentJob.planId,
-        })
-        .returning()
-
-      createdJobs.push(newJob)
-
-      if (newJob.planId) {
-        try {
-          const planTasks = await db.query.planTasks.findMany({
-            where: eq(schema.planTasks.planId, newJob.planId),
-            orderBy: (tasks, { asc: ascTask }) => [ascTask(tasks.order)],
-          })
-
-          if (planTasks.length > 0) {
-            await db.insert(schema.jobTasks).values(
-              planTasks.map((task) => ({
-                jobId: newJob.id,
-                title: task.title,
-                description: task.description || null,
-                order: task.order ?? 0,
-              }))
-            )
-          }
-        } catch (taskError) {
-          console.error("Failed to create job tasks from plan:", taskError)
-        }
-      }
+    if (!recurrenceSet) {
+      return NextResponse.json({ error: "Unsupported recurrence pattern" }, { status: 400 })
     }
 
     // Update parent job with recurrence info
-    await db
+    const [seriesParent] = await db
       .update(schema.jobs)
       .set({
-        recurrence,
-        recurrenceEndDate: end,
+        recurrence: recurrence || "custom",
+        recurrenceRule: formatRecurrenceSet(recurrenceSet),
+        recurrenceEndDate: recurrenceSet.rule.until ?? end,
+        recurrenceId: dtstart,
         updatedAt: new Date(),
       })
       .where(eq(schema.jobs.id, parentJobId))
+      .returning()
+
+    // Create recurring jobs; visits that already exist in the series are kept
+    const { created: createdJobs, removedJobIds } = await syncJobSeries(seriesParent, {
+      from: start,
+      to: end,
+      limit: maxOccurrences,
+      skipBankHolidays,
+    })
 
     // Log the event
-    await db.insert(schema.eventLog).values({
+    await db.insert(schema.eventLogs).values({
       companyId: session.companyId,
       eventType: "recurring_jobs_created",
       entityType: "job",
-      entityId: parentJobId.toString(),
+      entityId: parentJobId,
+      userId: session.id,
       description: `${createdJobs.length} recurring jobs created for "${parentJob.title}"`,
       metadata: JSON.stringify({
         parentJobId,
         recurrence,
+        recurrenceRule: seriesParent.recurrenceRule,
         startDate: start.toISOString(),
         endDate: end.toISOString(),
         jobsCreated: createdJobs.length,
+        jobsRemoved: removedJobIds.length,
         createdBy: session.id,
       }),
     })
@@ -189,8 +147,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       jobsCreated: createdJobs.length,
+      jobsRemoved: removedJobIds.length,
       jobs: createdJobs,
       recurrence,
+      recurrenceRule: seriesParent.recurrenceRule,
       dateRange: {
         start: start.toISOString(),
         end: end.toISOString(),
@@ -202,9 +162,133 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// PATCH /api/jobs/recurring - Change the rule for a whole series or for "this and following" visits
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await requireAuth()
+    const body = await request.json()
+
+    const {
+      jobId,
+      scope = "all", // all, this_and_following
+      endDate,
+      skipBankHolidays = false,
+      maxOccurrences = 52,
+    } = body
+
+    if (!jobId) {
+      return NextResponse.json({ error: "Job ID is required" }, { status: 400 })
+    }
+
+    if (!["all", "this_and_following"].includes(scope)) {
+      return NextResponse.json({ error: "Scope must be 'all' or 'this_and_following'" }, { status: 400 })
+    }
+
+    const job = await db.query.jobs.findFirst({
+      where: and(eq(schema.jobs.id, jobId), eq(schema.jobs.companyId, session.companyId)),
+    })
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    const parentJob = job.parentJobId
+      ? await db.query.jobs.findFirst({
+          where: and(eq(schema.jobs.id, job.parentJobId), eq(schema.jobs.companyId, session.companyId)),
+        })
+      : job
+
+    if (!parentJob?.recurrenceRule) {
+      return NextResponse.json({ error: "Job is not part of a recurring series" }, { status: 400 })
+    }
+
+    const current = parseRecurrenceSet(parentJob.recurrenceRule, parentJob.scheduledFor)
+    const editFrom = scope === "this_and_following" ? job : parentJob
+    // A visit moved on its own keeps its original slot in the series
+    const dtstart = editFrom.recurrenceId ?? editFrom.scheduledFor ?? current.dtstart
+    // What is left of the current series from this visit on, with its remaining COUNT
+    const { after: remaining } = splitRecurrenceSet(current, dtstart)
+
+    let nextSet: RecurrenceSet | null
+    try {
+      if (body.rrule || body.recurrence) {
+        nextSet = buildSetFromBody({ ...body, timezone: body.timezone || current.timezone }, dtstart)
+        // Skipped visits stay skipped under the new rule
+        if (nextSet) addExdates(nextSet, [...remaining.exdates, ...(remaining.exdateDays ?? [])])
+      } else {
+        nextSet = addExdates(
+          { ...remaining, rule: { ...remaining.rule } },
+          Array.isArray(body.exdates) ? body.exdates : [],
+        )
+      }
+    } catch (ruleError) {
+      return NextResponse.json(
+        { error: ruleError instanceof Error ? ruleError.message : "Invalid recurrence rule" },
+        { status: 400 }
+      )
+    }
+
+    if (!nextSet) {
+      return NextResponse.json({ error: "Unsupported recurrence pattern" }, { status: 400 })
+    }
+
+    if (endDate && !nextSet.rule.count) {
+      nextSet.rule.until = parseISO(endDate)
+    }
+
+    const seriesHead = await splitJobSeries(editFrom, nextSet)
+
+    const from = editFrom.scheduledFor && editFrom.scheduledFor > new Date() ? editFrom.scheduledFor : new Date()
+    const { created, removedJobIds } = await syncJobSeries(seriesHead, {
+      from,
+      to: endDate ? parseISO(endDate) : addMonths(from, 3),
+      limit: maxOccurrences,
+      skipBankHolidays,
+    })
+
+    await db.insert(schema.eventLogs).values({
+      companyId: session.companyId,
+      eventType: "recurring_series_updated",
+      entityType: "job",
+      entityId: seriesHead.id,
+      userId: session.id,
+      description: `Recurring series for "${seriesHead.title}" updated (${scope === "all" ? "all visits" : "this and following visits"})`,
+      metadata: JSON.stringify({
+        jobId,
+        previousParentJobId: parentJob.id,
+        scope,
+        recurrenceRule: seriesHead.recurrenceRule,
+        jobsCreated: created.length,
+        jobsRemoved: removedJobIds.length,
+        updatedBy: session.id,
+      }),
+    })
+
+    return NextResponse.json({
+      success: true,
+      parentJobId: seriesHead.id,
+      recurrenceRule: seriesHead.recurrenceRule,
+      jobsCreated: created.length,
+      jobsRemoved: removedJobIds.length,
+      jobs: created,
+    })
+  } catch (error) {
+    console.error("Update recurring series error:", error)
+    return NextResponse.json({ error: "Failed to update recurring series" }, { status: 500 })
+  }
+}
+
 // GET /api/jobs/recurring - Get recurring job series
 export async function GET(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await requireAuth()
     const { searchParams } = new URL(request.url)
 
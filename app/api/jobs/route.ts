@@ -7,6 +7,14 @@ import { sendJobAssignmentEmail, sendJobCompletedEmail, sendJobCompletedToCompan
 import { isCompanyNotificationEnabled } from "@/lib/notification-settings"
 import { generateInvoiceFromJob } from "@/lib/invoice-utils"
 import { generateInvoicePdfBuffer } from "@/lib/invoices-pdf"
+import { geocodeToColumns, parseCoordinates } from "@/lib/geocoding"
+import { applyAreaSurcharge, resolveServiceArea } from "@/lib/service-areas"
+import { parsePricingInput, priceVisit, PricingError } from "@/lib/pricing"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 const parseDurationMinutes = (value?: string | null) => {
   if (!value) return 60
@@ -25,6 +33,10 @@ const parseDurationMinutes = (value?: string | null) => {
 // GET /api/jobs - Get all jobs for the company
 export async function GET(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await requireAuth()
     const { searchParams } = new URL(request.url)
 
@@ -113,6 +125,10 @@ export async function GET(request: NextRequest) {
 // POST /api/jobs - Create a new job
 export async function POST(request: NextRequest) {
   try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
     const session = await requireAuth()
     const body = await request.json()
 
@@ -144,6 +160,8 @@ export async function POST(request: NextRequest) {
       planId,
       employeePay,
       tasks,
+      overrideReason,
+      pricing,
     } = body
 
     const scheduledStart = scheduledFor ? new Date(scheduledFor) : null
@@ -283,57 +301,111 @@ export async function POST(request: NextRequest) {
     const primaryAssignment = normalizedAssignmentsWithPay[0]
     const primaryEmployeePay = primaryAssignment?.payAmount ?? (employeePay ?? null)
 
+    const coordinates = await geocodeToColumns([location, city, postcode])
+
+    // The service area surcharge goes on top of the quoted or plan price
+    const { match: areaMatch } = await resolveServiceArea(session.companyId, {
+      postcode,
+      address: [location, city],
+      coordinates: parseCoordinates(coordinates.latitude, coordinates.longitude),
+    })
+    // Jobs priced from the price book keep the itemised quote for their invoice
+    const pricingInput = parsePricingInput(pricing)
+    const quote = pricingInput ? await priceVisit(session.companyId, pricingInput, areaMatch?.area) : null
+    const priced = quote
+      ? { price: quote.total.toFixed(2), surcharge: quote.areaSurcharge > 0 ? quote.areaSurcharge.toFixed(2) : null }
+      : applyAreaSurcharge(areaMatch?.area, estimatedPrice || plan.price)
+    const resolvedEstimatedPrice = quote || priced.surcharge ? priced.price : estimatedPrice || null
+
     const resolvedActualPrice = backCreateComplete
-      ? (estimatedPrice || (plan?.price ? plan.price : null))
+      ? (resolvedEstimatedPrice || (plan?.price ? plan.price : null))
       : null
 
-    // Create job
-    const [newJob] = await db
-      .insert(schema.jobs)
-      .values({
-        companyId: session.companyId,
-        title,
-        description: description || null,
-        customerId,
-        assignedTo: primaryAssignment?.employeeId || null,
-        teamMembers: teamMembers || null,
-        location: location || null,
-        addressLine2: addressLine2 || null,
-        city: city || null,
-        postcode: postcode || null,
-        accessInstructions: accessInstructions || null,
-        parkingInstructions: parkingInstructions || null,
-        specialInstructions: specialInstructions || null,
-        scheduledFor: scheduledStart,
-        scheduledEnd: scheduledEndTime,
-        durationMinutes: resolvedDurationMinutes,
-        recurrence: recurrence || "none",
-        recurrenceEndDate: recurrenceEndDate ? new Date(recurrenceEndDate) : null,
-        status: backCreateComplete ? "completed" : "scheduled",
-        priority: priority || "normal",
-        estimatedPrice: estimatedPrice || null,
-        actualPrice: resolvedActualPrice,
-        currency: currency || "GBP",
-        internalNotes: internalNotes || null,
-        planId: planId || null,
-        employeePay: primaryEmployeePay !== undefined && primaryEmployeePay !== null ? primaryEmployeePay : null,
-        completedAt,
-      })
-      .returning()
+    // The clash check and the insert share a transaction so concurrent bookings can't both pass
+    const newJob = await db.transaction(async (tx) => {
+      // Back-created jobs record work that already happened, so there's nothing to clash with
+      const conflictCheck =
+        scheduledStart && scheduledEndTime && !backCreateComplete
+          ? await assertNoSchedulingConflicts(
+              tx,
+              session.companyId,
+              [
+                {
+                  kind: "job",
+                  employeeIds: assignmentEmployeeIds,
+                  start: scheduledStart,
+                  end: scheduledEndTime,
+                  coordinates: parseCoordinates(coordinates.latitude, coordinates.longitude),
+                },
+              ],
+              { overrideReason, role: session.role },
+            )
+          : null
 
-    if (normalizedAssignmentsWithPay.length > 0) {
-      await db.insert(schema.jobAssignments).values(
-        normalizedAssignmentsWithPay.map((assignment) => ({
+      // Create job
+      const [job] = await tx
+        .insert(schema.jobs)
+        .values({
           companyId: session.companyId,
-          jobId: newJob.id,
-          employeeId: assignment.employeeId,
-          payAmount: assignment.payAmount,
-          status: "assigned",
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        }))
-      )
-    }
+          title,
+          description: description || null,
+          customerId,
+          assignedTo: primaryAssignment?.employeeId || null,
+          teamMembers: teamMembers || null,
+          location: location || null,
+          addressLine2: addressLine2 || null,
+          city: city || null,
+          postcode: postcode || null,
+          ...coordinates,
+          accessInstructions: accessInstructions || null,
+          parkingInstructions: parkingInstructions || null,
+          specialInstructions: specialInstructions || null,
+          scheduledFor: scheduledStart,
+          scheduledEnd: scheduledEndTime,
+          durationMinutes: resolvedDurationMinutes,
+          recurrence: recurrence || "none",
+          recurrenceEndDate: recurrenceEndDate ? new Date(recurrenceEndDate) : null,
+          status: backCreateComplete ? "completed" : "scheduled",
+          priority: priority || "normal",
+          estimatedPrice: resolvedEstimatedPrice,
+          actualPrice: resolvedActualPrice,
+          serviceAreaId: areaMatch?.area.id ?? null,
+          areaSurcharge: priced.surcharge,
+          priceBreakdown: quote,
+          currency: currency || "GBP",
+          internalNotes: internalNotes || null,
+          planId: planId || null,
+          employeePay: primaryEmployeePay !== undefined && primaryEmployeePay !== null ? primaryEmployeePay : null,
+          completedAt,
+        })
+        .returning()
+
+      if (normalizedAssignmentsWithPay.length > 0) {
+        await tx.insert(schema.jobAssignments).values(
+          normalizedAssignmentsWithPay.map((assignment) => ({
+            companyId: session.companyId,
+            jobId: job.id,
+            employeeId: assignment.employeeId,
+            payAmount: assignment.payAmount,
+            status: "assigned",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          }))
+        )
+      }
+
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "job",
+          entityId: job.id,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return job
+    })
 
     const customTasks = Array.isArray(tasks) ? tasks : []
     if (customTasks.length > 0) {
@@ -460,7 +532,7 @@ export async function POST(request: NextRequest) {
                 .filter(Boolean) as string[]
               const employeeName = employeeNames.length === 1 ? employeeNames[0] : "Cleaning team"
               const jobCompletedAt = completedAt || new Date()
-              const emailPrice = estimatedPrice || (plan?.price ? plan.price : "0")
+              const emailPrice = resolvedEstimatedPrice || (plan?.price ? plan.price : "0")
               let invoiceNumber: string | undefined
               let pdfBuffer: Buffer | undefined
 
@@ -527,6 +599,12 @@ export async function POST(request: NextRequest) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Create job error:", error)
     return NextResponse.json({ error: "Failed to create job" }, { status: 500 })
   }
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { LeaveError, deleteLeaveAdjustment } from "@/lib/leave"
+
+// DELETE /api/leave/adjustments/[id] - Remove a manual holiday adjustment
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const adjustmentId = parseInt(id)
+    if (isNaN(adjustmentId)) {
+      return NextResponse.json({ error: "Invalid adjustment ID" }, { status: 400 })
+    }
+
+    await deleteLeaveAdjustment(session.companyId, adjustmentId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Delete leave adjustment error:", error)
+    return NextResponse.json({ error: "Failed to delete leave adjustment" }, { status: 500 })
+  }
+}
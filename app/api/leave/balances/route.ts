@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { parseISO } from "date-fns"
+import { LeaveError, listLeaveBalances } from "@/lib/leave"
+
+// GET /api/leave/balances - Holiday balances for every active employee (?date= picks the leave year)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const dateParam = request.nextUrl.searchParams.get("date")
+    const date = dateParam ? parseISO(dateParam) : undefined
+    if (date && Number.isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    const balances = await listLeaveBalances(session.companyId, date)
+    return NextResponse.json({ balances })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get leave balances error:", error)
+    return NextResponse.json({ error: "Failed to fetch leave balances" }, { status: 500 })
+  }
+}
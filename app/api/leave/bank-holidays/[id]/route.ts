@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { LeaveError, deleteBankHoliday } from "@/lib/leave"
+
+// DELETE /api/leave/bank-holidays/[id] - Remove a bank holiday
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const holidayId = parseInt(id)
+    if (isNaN(holidayId)) {
+      return NextResponse.json({ error: "Invalid bank holiday ID" }, { status: 400 })
+    }
+
+    await deleteBankHoliday(session.companyId, holidayId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Delete bank holiday error:", error)
+    return NextResponse.json({ error: "Failed to delete bank holiday" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { format } from "date-fns"
+import { LeaveError, importUkBankHolidays } from "@/lib/leave"
+
+const DIVISIONS = ["england-and-wales", "scotland", "northern-ireland"]
+
+// POST /api/leave/bank-holidays/import - Import UK bank holidays from gov.uk for a division, from today unless fromDate is given
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const division = body?.division || "england-and-wales"
+    if (!DIVISIONS.includes(division)) {
+      return NextResponse.json({ error: "Invalid division" }, { status: 400 })
+    }
+    const fromDate =
+      typeof body?.fromDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(body.fromDate)
+        ? body.fromDate
+        : format(new Date(), "yyyy-MM-dd")
+
+    const imported = await importUkBankHolidays(session.companyId, division, fromDate)
+    return NextResponse.json({ imported })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Import bank holidays error:", error)
+    return NextResponse.json({ error: "Failed to import bank holidays" }, { status: 500 })
+  }
+}
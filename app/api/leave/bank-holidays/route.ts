@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { LeaveError, addBankHoliday, listBankHolidays } from "@/lib/leave"
+
+// GET /api/leave/bank-holidays - Company bank holidays, optionally for one ?year= or a ?from=&to= range
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const year = searchParams.get("year")
+    let from = searchParams.get("from") || undefined
+    let to = searchParams.get("to") || undefined
+    if (year) {
+      if (!/^\d{4}$/.test(year)) {
+        return NextResponse.json({ error: "Invalid year" }, { status: 400 })
+      }
+      from = `${year}-01-01`
+      to = `${year}-12-31`
+    }
+
+    const holidays = await listBankHolidays(session.companyId, from, to)
+    return NextResponse.json({ holidays })
+  } catch (error) {
+    console.error("Get bank holidays error:", error)
+    return NextResponse.json({ error: "Failed to fetch bank holidays" }, { status: 500 })
+  }
+}
+
+// POST /api/leave/bank-holidays - Add a bank holiday
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const holiday = await addBankHoliday(session.companyId, body)
+
+    return NextResponse.json(holiday, { status: 201 })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Create bank holiday error:", error)
+    return NextResponse.json({ error: "Failed to add bank holiday" }, { status: 500 })
+  }
+}
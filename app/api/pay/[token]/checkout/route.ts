@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import {
+  createInvoiceCheckoutSession,
+  getInvoiceByPaymentToken,
+  InvoicePaymentError,
+} from "@/lib/invoice-payments"
+
+// POST /api/pay/[token]/checkout - Start a card payment for an invoice from its pay link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { token } = await params
+    const result = await getInvoiceByPaymentToken(token)
+
+    if (!result) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const amount = body?.amount !== undefined ? parseFloat(body.amount) : undefined
+
+    const session = await createInvoiceCheckoutSession(result.invoice, {
+      amount,
+      customerEmail: result.customer.email,
+    })
+
+    return NextResponse.json({ url: session.url })
+  } catch (error) {
+    if (error instanceof InvoicePaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Invoice checkout error:", error)
+    return NextResponse.json({ error: "Failed to start payment" }, { status: 500 })
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
-import { payments, invoices } from "@/lib/db/schema"
-import { eq, and, sum } from "drizzle-orm"
+import { payments } from "@/lib/db/schema"
+import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { reconcileInvoicePayments } from "@/lib/invoice-payments"
 
 // GET /api/payments/[id] - Get a single payment
 export async function GET(
@@ -71,35 +72,18 @@ export async function DELETE(
       return NextResponse.json({ error: "Payment not found" }, { status: 404 })
     }
 
+    if (payment.creditNoteId) {
+      return NextResponse.json(
+        { error: "Refunds made against a credit note can't be deleted" },
+        { status: 409 }
+      )
+    }
+
     // Delete payment
     await db.delete(payments).where(eq(payments.id, parseInt(id)))
 
     // Update invoice amounts
-    const [paymentsSum] = await db
-      .select({ total: sum(payments.amount) })
-      .from(payments)
-      .where(eq(payments.invoiceId, payment.invoiceId))
-
-    const [invoice] = await db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.id, payment.invoiceId))
-
-    if (invoice) {
-      const amountPaid = parseFloat(paymentsSum?.total || "0")
-      const amountDue = parseFloat(invoice.total) - amountPaid
-
-      await db
-        .update(invoices)
-        .set({
-          amountPaid: amountPaid.toFixed(2),
-          amountDue: amountDue.toFixed(2),
-          status: amountDue > 0 ? "sent" : "paid",
-          paidAt: amountDue <= 0 ? new Date() : null,
-          updatedAt: new Date(),
-        })
-        .where(eq(invoices.id, payment.invoiceId))
-    }
+    await reconcileInvoicePayments(payment.invoiceId)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { payments, invoices, customers, companies } from "@/lib/db/schema"
-import { eq, and, desc, sum } from "drizzle-orm"
+import { eq, and, desc } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
 import { sendPaymentReceiptEmail } from "@/lib/email"
+import { reconcileInvoicePayments } from "@/lib/invoice-payments"
 
 // GET /api/payments - List all payments
 export async function GET(request: NextRequest) {
@@ -129,6 +130,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
     }
 
+    if (invoice.status === "void") {
+      return NextResponse.json({ error: "Voided invoices can't take payments" }, { status: 400 })
+    }
+
     // Create payment
     const [payment] = await db
       .insert(payments)
@@ -147,24 +152,8 @@ export async function POST(request: NextRequest) {
       .returning()
 
     // Update invoice amounts
-    const [paymentsSum] = await db
-      .select({ total: sum(payments.amount) })
-      .from(payments)
-      .where(eq(payments.invoiceId, parseInt(invoiceId)))
-
-    const amountPaid = parseFloat(paymentsSum?.total || "0")
-    const amountDue = parseFloat(invoice.total) - amountPaid
-
-    await db
-      .update(invoices)
-      .set({
-        amountPaid: amountPaid.toFixed(2),
-        amountDue: amountDue.toFixed(2),
-        status: amountDue <= 0 ? "paid" : invoice.status,
-        paidAt: amountDue <= 0 ? new Date() : null,
-        updatedAt: new Date(),
-      })
-      .where(eq(invoices.id, parseInt(invoiceId)))
+    const updatedInvoice = await reconcileInvoicePayments(invoice.id)
+    const amountDue = parseFloat(updatedInvoice?.amountDue ?? "0")
 
     // Get customer and company info to send payment receipt email
     const [customer] = await db
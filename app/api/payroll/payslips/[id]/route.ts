@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { PayrollError, updatePayslipAdjustments } from "@/lib/payroll"
+
+// PATCH /api/payroll/payslips/[id] - Replace a draft payslip's manual additions and deductions
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const payslipId = parseInt(id)
+    if (isNaN(payslipId)) {
+      return NextResponse.json({ error: "Invalid payslip ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const payslip = await updatePayslipAdjustments(session.companyId, payslipId, body.adjustments)
+    return NextResponse.json(payslip)
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating payslip:", error)
+    return NextResponse.json({ error: "Failed to update payslip" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { approvePayrollRun, PayrollError } from "@/lib/payroll"
+
+// POST /api/payroll/runs/[id]/approve - Lock a draft run and create a payout for each payslip
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const runId = parseInt(id)
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid payroll run ID" }, { status: 400 })
+    }
+
+    const run = await approvePayrollRun(session.companyId, runId, session.id)
+    return NextResponse.json(run)
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error approving payroll run:", error)
+    return NextResponse.json({ error: "Failed to approve payroll run" }, { status: 500 })
+  }
+}
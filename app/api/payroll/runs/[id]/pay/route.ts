@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { markPayrollRunPaid, PayrollError } from "@/lib/payroll"
+
+// POST /api/payroll/runs/[id]/pay - Mark an approved run and its payouts as paid
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const runId = parseInt(id)
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid payroll run ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const run = await markPayrollRunPaid(session.companyId, runId, {
+      paymentMethod: body.paymentMethod,
+      transactionReference: body.transactionReference,
+      paidAt: body.paidAt,
+    })
+    return NextResponse.json(run)
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error marking payroll run as paid:", error)
+    return NextResponse.json({ error: "Failed to mark payroll run as paid" }, { status: 500 })
+  }
+}
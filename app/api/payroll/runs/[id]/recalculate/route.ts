@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { recalculatePayrollRun, PayrollError } from "@/lib/payroll"
+
+// POST /api/payroll/runs/[id]/recalculate - Rebuild a draft run's payslips from the latest work and jobs
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const runId = parseInt(id)
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid payroll run ID" }, { status: 400 })
+    }
+
+    const run = await recalculatePayrollRun(session.companyId, runId)
+    return NextResponse.json(run)
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error recalculating payroll run:", error)
+    return NextResponse.json({ error: "Failed to recalculate payroll run" }, { status: 500 })
+  }
+}
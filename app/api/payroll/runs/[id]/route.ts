@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { deletePayrollRun, getPayrollRun, PayrollError } from "@/lib/payroll"
+
+// GET /api/payroll/runs/[id] - A payroll run with its payslips
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const runId = parseInt(id)
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid payroll run ID" }, { status: 400 })
+    }
+
+    const run = await getPayrollRun(session.companyId, runId)
+    return NextResponse.json(run)
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching payroll run:", error)
+    return NextResponse.json({ error: "Failed to fetch payroll run" }, { status: 500 })
+  }
+}
+
+// DELETE /api/payroll/runs/[id] - Delete a draft run
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const runId = parseInt(id)
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid payroll run ID" }, { status: 400 })
+    }
+
+    await deletePayrollRun(session.companyId, runId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting payroll run:", error)
+    return NextResponse.json({ error: "Failed to delete payroll run" }, { status: 500 })
+  }
+}
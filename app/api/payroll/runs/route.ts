@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { createPayrollRun, listPayrollRuns, PayrollError } from "@/lib/payroll"
+
+// GET /api/payroll/runs - Payroll runs, newest pay period first
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const runs = await listPayrollRuns(session.companyId)
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error("Error fetching payroll runs:", error)
+    return NextResponse.json({ error: "Failed to fetch payroll runs" }, { status: 500 })
+  }
+}
+
+// POST /api/payroll/runs - Start a draft run for the pay period containing a date
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const run = await createPayrollRun(
+      session.companyId,
+      { frequency: body.frequency, date: body.date, notes: body.notes },
+      session.id,
+    )
+
+    return NextResponse.json(run, { status: 201 })
+  } catch (error) {
+    if (error instanceof PayrollError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating payroll run:", error)
+    return NextResponse.json({ error: "Failed to create payroll run" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { resolveCustomerServiceArea, resolveServiceArea } from "@/lib/service-areas"
+import { parsePricingInput, priceVisit, PricingError } from "@/lib/pricing"
+
+// POST /api/pricing - Itemised price-book quote for a visit, at a customer's or a given address
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = parsePricingInput(body)
+    if (!input) {
+      return NextResponse.json({ error: "Service type is required" }, { status: 400 })
+    }
+
+    // An address given with the request wins over the customer's saved one
+    const area =
+      body.postcode || body.location
+        ? (
+            await resolveServiceArea(session.companyId, {
+              postcode: body.postcode,
+              address: [body.location, body.city],
+            })
+          ).match?.area
+        : body.customerId
+          ? await resolveCustomerServiceArea(db, session.companyId, parseInt(body.customerId))
+          : null
+
+    const quote = await priceVisit(session.companyId, input, area)
+
+    return NextResponse.json({ quote })
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error pricing visit:", error)
+    return NextResponse.json({ error: "Failed to price visit" }, { status: 500 })
+  }
+}
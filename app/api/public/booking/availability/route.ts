@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { BookingError, getBookingAvailability } from "@/lib/instant-booking"
+import { checkRateLimit, getClientIp, rateLimitConfigs } from "@/lib/rate-limit"
+
+function parseCount(value: string | null) {
+  if (!value) return null
+  const parsed = parseInt(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+// GET /api/public/booking/availability - Bookable times for the public booking page
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = checkRateLimit(`booking-availability:${getClientIp(request)}`, rateLimitConfigs.bookingAvailability)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const companyId = parseInt(searchParams.get("companyId") || "")
+    if (isNaN(companyId)) {
+      return NextResponse.json({ error: "Invalid company ID" }, { status: 400 })
+    }
+    const serviceType = searchParams.get("serviceType")
+    if (!serviceType) {
+      return NextResponse.json({ error: "serviceType is required" }, { status: 400 })
+    }
+
+    const availability = await getBookingAvailability(
+      companyId,
+      {
+        serviceType,
+        bedrooms: parseCount(searchParams.get("bedrooms")),
+        bathrooms: parseCount(searchParams.get("bathrooms")),
+        postcode: searchParams.get("postcode"),
+      },
+      { from: searchParams.get("from"), days: parseCount(searchParams.get("days")) ?? undefined },
+    )
+
+    return NextResponse.json(availability)
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error loading booking availability:", error)
+    return NextResponse.json({ error: "Failed to load available times" }, { status: 500 })
+  }
+}
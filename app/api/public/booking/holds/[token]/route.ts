@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { releaseBookingHold } from "@/lib/instant-booking"
+
+// DELETE /api/public/booking/holds/[token] - Give a held time back
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { token } = await context.params
+    await releaseBookingHold(token)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error releasing booking hold:", error)
+    return NextResponse.json({ error: "Failed to release this time" }, { status: 500 })
+  }
+}
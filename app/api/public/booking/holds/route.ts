@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { BookingError, holdBookingSlot } from "@/lib/instant-booking"
+import { checkRateLimit, getClientIp, rateLimitConfigs } from "@/lib/rate-limit"
+
+// POST /api/public/booking/holds - Hold a bookable time while the customer finishes booking
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = checkRateLimit(`booking-hold:${getClientIp(request)}`, rateLimitConfigs.bookingHold)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const body = await request.json()
+    const companyId = parseInt(body.companyId)
+    if (isNaN(companyId)) {
+      return NextResponse.json({ error: "Invalid company ID" }, { status: 400 })
+    }
+    if (!body.serviceType || !body.start) {
+      return NextResponse.json({ error: "serviceType and start are required" }, { status: 400 })
+    }
+
+    const hold = await holdBookingSlot(companyId, {
+      serviceType: body.serviceType,
+      bedrooms: body.bedrooms ? parseInt(body.bedrooms) : null,
+      bathrooms: body.bathrooms ? parseInt(body.bathrooms) : null,
+      postcode: body.postcode || null,
+      start: body.start,
+    })
+
+    return NextResponse.json({ hold }, { status: 201 })
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error holding booking slot:", error)
+    return NextResponse.json({ error: "Failed to hold this time" }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { resolveServiceArea } from "@/lib/service-areas"
+import { getPriceBook, calculatePrice, parsePricingInput, PricingError } from "@/lib/pricing"
+import { checkRateLimit, getClientIp, rateLimitConfigs } from "@/lib/rate-limit"
+
+// GET /api/public/booking/pricing - A company's starting prices and add-ons for the booking page
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = checkRateLimit(`booking-pricing:${getClientIp(request)}`, rateLimitConfigs.bookingAvailability)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const companyId = parseInt(searchParams.get("companyId") || "")
+    if (isNaN(companyId)) {
+      return NextResponse.json({ error: "Invalid company ID" }, { status: 400 })
+    }
+
+    const priceBook = await getPriceBook(db, companyId)
+
+    return NextResponse.json({
+      servicePrices: priceBook.servicePrices,
+      addOns: priceBook.addOns,
+      frequencyDiscounts: priceBook.frequencyDiscounts,
+    })
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error loading booking prices:", error)
+    return NextResponse.json({ error: "Failed to load prices" }, { status: 500 })
+  }
+}
+
+// POST /api/public/booking/pricing - Itemised estimate for a booking, including any area surcharge
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = checkRateLimit(`booking-pricing:${getClientIp(request)}`, rateLimitConfigs.bookingAvailability)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const body = await request.json()
+    const companyId = parseInt(body.companyId)
+    if (isNaN(companyId)) {
+      return NextResponse.json({ error: "Invalid company ID" }, { status: 400 })
+    }
+
+    const input = parsePricingInput(body)
+    if (!input) {
+      return NextResponse.json({ error: "Service type is required" }, { status: 400 })
+    }
+
+    const priceBook = await getPriceBook(db, companyId)
+    const { match } = await resolveServiceArea(companyId, {
+      postcode: body.postcode,
+      address: [body.address, body.city],
+    })
+
+    return NextResponse.json({ quote: calculatePrice(priceBook, input, match?.area) })
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error pricing booking:", error)
+    return NextResponse.json({ error: "Failed to price booking" }, { status: 500 })
+  }
+}
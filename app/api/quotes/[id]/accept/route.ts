@@ -3,8 +3,11 @@ import { db, schema } from "@/lib/db"
 import { eq } from "drizzle-orm"
 import { isCompanyNotificationEnabled } from "@/lib/notification-settings"
 import { sendQuoteAcceptedNotification } from "@/lib/email"
+import { createSignatureRequest, parseSignatureInput, signDocument, SignatureError } from "@/lib/e-signatures"
+import { getClientIp } from "@/lib/rate-limit"
 
-// POST /api/quotes/[id]/accept - Customer accepts a quote (public endpoint)
+// POST /api/quotes/[id]/accept - Customer accepts a quote (public endpoint), e-signing it when a
+// signature is sent with the acceptance
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -58,16 +61,36 @@ export async function POST(
       return NextResponse.json({ error: "Quote was rejected" }, { status: 400 })
     }
 
-    // Update quote status
-    const [updated] = await db
-      .update(schema.quotes)
-      .set({
-        status: "accepted",
-        acceptedAt: new Date(),
-        updatedAt: new Date(),
+    let signedDocumentUrl: string | null = null
+    if (body.signature) {
+      // Signed as the quote reads now; signing accepts the quote
+      const input = parseSignatureInput(body.signature)
+      const { signature } = await createSignatureRequest(
+        quote.companyId,
+        { type: "quote", id: quoteId },
+        { sentTo: (quote.customer as any)?.email || null },
+      )
+      const ipAddress = getClientIp(request)
+      const signed = await signDocument(signature, input, {
+        signingMethod: "link",
+        ipAddress: ipAddress === "unknown" ? null : ipAddress,
+        userAgent: request.headers.get("user-agent"),
       })
-      .where(eq(schema.quotes.id, quoteId))
-      .returning()
+      signedDocumentUrl = `/api/sign/${signed.token}/document`
+    } else {
+      await db
+        .update(schema.quotes)
+        .set({
+          status: "accepted",
+          acceptedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.quotes.id, quoteId))
+    }
+
+    const updated = await db.query.quotes.findFirst({
+      where: eq(schema.quotes.id, quoteId),
+    })
 
     // Get company to send notification
     const company = await db.query.companies.findFirst({
@@ -92,8 +115,12 @@ export async function POST(
       success: true,
       message: "Quote accepted successfully",
       quote: updated,
+      signedDocumentUrl,
     })
   } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error accepting quote:", error)
     return NextResponse.json({ error: "Failed to accept quote" }, { status: 500 })
   }
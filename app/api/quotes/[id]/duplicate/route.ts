@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { allocateDocumentNumber } from "@/lib/numbering"
 
 // POST /api/quotes/[id]/duplicate - Duplicate a quote
 export async function POST(
@@ -37,48 +38,51 @@ export async function POST(
       return NextResponse.json({ error: "Quote not found" }, { status: 404 })
     }
 
-    // Generate new quote number
-    const existingQuotes = await db.query.quotes.findMany({
-      where: eq(schema.quotes.companyId, session.companyId),
-    })
-    const quoteNumber = `Q-${new Date().getFullYear()}-${String(existingQuotes.length + 1).padStart(4, "0")}`
+    const customerId = body.customerId || original.customerId
 
-    // Create duplicate
-    const [newQuote] = await db
-      .insert(schema.quotes)
-      .values({
-        companyId: session.companyId,
-        customerId: body.customerId || original.customerId,
-        quoteNumber,
-        title: body.title || `${original.title} (Copy)`,
-        description: original.description,
-        subtotal: original.subtotal,
-        taxRate: original.taxRate,
-        taxAmount: original.taxAmount,
-        discountAmount: original.discountAmount,
-        total: original.total,
-        currency: original.currency,
-        status: "draft",
-        validUntil: body.validUntil ? new Date(body.validUntil) : null,
-        notes: original.notes,
-        terms: original.terms,
-      })
-      .returning()
+    // Create duplicate and its items, numbering the new quote in the same transaction
+    const newQuote = await db.transaction(async (tx) => {
+      const quoteNumber = await allocateDocumentNumber(tx, session.companyId, "quote", { customerId })
 
-    // Duplicate items
-    if (original.items.length > 0) {
-      await db.insert(schema.quoteItems).values(
-        original.items.map((item, index) => ({
-          quoteId: newQuote.id,
-          title: item.title,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: item.amount,
-          sortOrder: index,
-        }))
-      )
-    }
+      const [created] = await tx
+        .insert(schema.quotes)
+        .values({
+          companyId: session.companyId,
+          customerId,
+          quoteNumber,
+          title: body.title || `${original.title} (Copy)`,
+          description: original.description,
+          subtotal: original.subtotal,
+          taxRate: original.taxRate,
+          taxAmount: original.taxAmount,
+          discountAmount: original.discountAmount,
+          total: original.total,
+          currency: original.currency,
+          status: "draft",
+          validUntil: body.validUntil ? new Date(body.validUntil) : null,
+          notes: original.notes,
+          terms: original.terms,
+        })
+        .returning()
+
+      // Duplicate items
+      if (original.items.length > 0) {
+        await tx.insert(schema.quoteItems).values(
+          original.items.map((item, index) => ({
+            quoteId: created.id,
+            title: item.title,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            amount: item.amount,
+            serviceAreaId: item.serviceAreaId,
+            sortOrder: index,
+          }))
+        )
+      }
+
+      return created
+    })
 
     // Get complete quote with items
     const complete = await db.query.quotes.findFirst({
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { resolveCustomerServiceArea, withAreaSurchargeItem } from "@/lib/service-areas"
 
 // GET /api/quotes/[id] - Get a single quote
 export async function GET(
@@ -87,6 +88,20 @@ export async function PATCH(
     if (body.taxAmount !== undefined) updateData.taxAmount = body.taxAmount.toString()
     if (body.discountAmount !== undefined) updateData.discountAmount = body.discountAmount.toString()
     if (body.total !== undefined) updateData.total = body.total.toString()
+
+    // New lines get the customer's current area surcharge, so the totals are worked out here
+    const quoteItems = Array.isArray(body.items)
+      ? withAreaSurchargeItem(body.items, await resolveCustomerServiceArea(db, session.companyId, existing.customerId))
+      : null
+    if (quoteItems) {
+      const subtotal = quoteItems.reduce((sum: number, item: any) => sum + (parseFloat(item.amount) || 0), 0)
+      const taxRate = parseFloat(body.taxRate ?? existing.taxRate ?? "0") || 0
+      const taxAmount = subtotal * (taxRate / 100)
+      const discountAmount = parseFloat(body.discountAmount ?? existing.discountAmount ?? "0") || 0
+      updateData.subtotal = subtotal.toString()
+      updateData.taxAmount = taxAmount.toString()
+      updateData.total = (subtotal + taxAmount - discountAmount).toString()
+    }
     
     // Handle status changes
     if (body.status === "sent" && !existing.sentAt) {
@@ -106,20 +121,21 @@ export async function PATCH(
       .returning()
 
     // Update items if provided
-    if (body.items) {
+    if (quoteItems) {
       // Delete existing items
       await db.delete(schema.quoteItems).where(eq(schema.quoteItems.quoteId, quoteId))
       
       // Insert new items
-      if (body.items.length > 0) {
+      if (quoteItems.length > 0) {
         await db.insert(schema.quoteItems).values(
-          body.items.map((item: any, index: number) => ({
+          quoteItems.map((item: any, index: number) => ({
             quoteId: quoteId,
             title: item.title,
             description: item.description,
             quantity: item.quantity?.toString() || "1",
             unitPrice: item.unitPrice?.toString() || "0",
             amount: item.amount?.toString() || "0",
+            serviceAreaId: item.serviceAreaId ?? null,
             sortOrder: index,
           }))
         )
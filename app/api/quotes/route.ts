@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, desc, and, gte, lte, like, or, sql } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { resolveCustomerServiceArea, withAreaSurchargeItem } from "@/lib/service-areas"
+import { parsePricingInput, priceQuoteItems, priceVisit, PricingError } from "@/lib/pricing"
 
 // GET /api/quotes - List all quotes for the company with filtering
 export async function GET(request: NextRequest) {
@@ -145,62 +148,77 @@ export async function POST(request: NextRequest) {
       validUntil,
       notes,
       terms,
+      pricing,
     } = body
 
     if (!customerId || !title) {
       return NextResponse.json({ error: "Customer and title are required" }, { status: 400 })
     }
 
-    // Generate quote number
-    const existingQuotes = await db.query.quotes.findMany({
-      where: eq(schema.quotes.companyId, session.companyId),
-    })
-    const quoteNumber = `Q-${new Date().getFullYear()}-${String(existingQuotes.length + 1).padStart(4, "0")}`
+    // The customer's service area surcharge is added as its own line
+    const area = await resolveCustomerServiceArea(db, session.companyId, customerId)
+    // Quotes sent with a visit to price start from the price book's lines
+    const pricingInput = parsePricingInput(pricing)
+    const pricedItems = pricingInput
+      ? priceQuoteItems(await priceVisit(session.companyId, pricingInput, area))
+      : []
+    const quoteItems = withAreaSurchargeItem([...pricedItems, ...(Array.isArray(items) ? items : [])], area)
 
     // Calculate totals
-    const subtotal = items?.reduce((sum: number, item: any) => sum + (parseFloat(item.amount) || 0), 0) || 0
+    const subtotal = quoteItems.reduce((sum: number, item: any) => sum + (parseFloat(item.amount) || 0), 0)
     const taxRate = body.taxRate || 0
     const taxAmount = subtotal * (taxRate / 100)
     const discountAmount = body.discountAmount || 0
     const total = subtotal + taxAmount - discountAmount
 
-    const [quote] = await db
-      .insert(schema.quotes)
-      .values({
-        companyId: session.companyId,
-        customerId,
-        quoteNumber,
-        title,
-        description,
-        subtotal: subtotal.toString(),
-        taxRate: taxRate.toString(),
-        taxAmount: taxAmount.toString(),
-        discountAmount: discountAmount.toString(),
-        total: total.toString(),
-        validUntil: validUntil ? new Date(validUntil) : null,
-        notes,
-        terms,
-        status: "draft",
-      })
-      .returning()
-
-    // Insert quote items
-    if (items && items.length > 0) {
-      await db.insert(schema.quoteItems).values(
-        items.map((item: any, index: number) => ({
-          quoteId: quote.id,
-          title: item.title,
-          description: item.description,
-          quantity: item.quantity?.toString() || "1",
-          unitPrice: item.unitPrice?.toString() || "0",
-          amount: item.amount?.toString() || "0",
-          sortOrder: index,
-        }))
-      )
-    }
+    // Create quote and items, numbering the quote in the same transaction
+    const quote = await db.transaction(async (tx) => {
+      const quoteNumber = await allocateDocumentNumber(tx, session.companyId, "quote", { customerId })
+
+      const [created] = await tx
+        .insert(schema.quotes)
+        .values({
+          companyId: session.companyId,
+          customerId,
+          quoteNumber,
+          title,
+          description,
+          subtotal: subtotal.toString(),
+          taxRate: taxRate.toString(),
+          taxAmount: taxAmount.toString(),
+          discountAmount: discountAmount.toString(),
+          total: total.toString(),
+          validUntil: validUntil ? new Date(validUntil) : null,
+          notes,
+          terms,
+          status: "draft",
+        })
+        .returning()
+
+      // Insert quote items
+      if (quoteItems.length > 0) {
+        await tx.insert(schema.quoteItems).values(
+          quoteItems.map((item: any, index: number) => ({
+            quoteId: created.id,
+            title: item.title,
+            description: item.description,
+            quantity: item.quantity?.toString() || "1",
+            unitPrice: item.unitPrice?.toString() || "0",
+            amount: item.amount?.toString() || "0",
+            serviceAreaId: item.serviceAreaId ?? null,
+            sortOrder: index,
+          }))
+        )
+      }
+
+      return created
+    })
 
     return NextResponse.json(quote, { status: 201 })
   } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating quote:", error)
     return NextResponse.json({ error: "Failed to create quote" }, { status: 500 })
   }
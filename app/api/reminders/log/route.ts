@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { getReminderLog } from "@/lib/reminders"
+
+// GET /api/reminders/log - Recently sent payment reminders
+export async function GET() {
+  try {
+    const session = await requireAuth()
+    const logs = await getReminderLog(session.companyId)
+
+    return NextResponse.json({
+      reminders: logs.map(({ log, invoiceNumber }) => ({
+        id: log.id,
+        invoiceId: log.invoiceId,
+        invoiceNumber,
+        recipient: log.recipient,
+        subject: log.subject,
+        tier: log.tier,
+        trigger: log.trigger,
+        offsetDays: log.offsetDays,
+        status: log.status,
+        error: log.error,
+        createdAt: log.createdAt,
+        sentAt: log.sentAt,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Error fetching reminder log:", error)
+    return NextResponse.json({ error: "Failed to fetch reminder log" }, { status: 500 })
+  }
+}
@@ -44,9 +44,12 @@ export async function GET(request: NextRequest) {
         invoiceNumber: item.invoice.invoiceNumber,
         customerName: item.customer?.name || `${item.customer?.firstName} ${item.customer?.lastName}`,
         customerEmail: item.customer?.email,
-        amount: item.invoice.total,
+        amount: item.invoice.amountDue,
+        currency: item.invoice.currency,
         dueDate: item.invoice.dueAt,
         status: item.invoice.status,
+        offsetDays: item.offsetDays,
+        tier: item.tier,
       })),
     })
   } catch (error: any) {
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
-import { invoices, expenses, payments } from "@/lib/db/schema"
-import { eq, and, sql, gte, lte } from "drizzle-orm"
+import { invoices, expenses, payments, creditNotes } from "@/lib/db/schema"
+import { eq, and, sql, gte, lte, isNotNull } from "drizzle-orm"
 import { requireAuth } from "@/lib/auth"
 
 // GET /api/reports/financial - Get financial overview and analytics
@@ -17,10 +17,10 @@ export async function GET(request: NextRequest) {
     const start = startDate ? new Date(startDate) : new Date(new Date().getFullYear(), 0, 1)
     const end = endDate ? new Date(endDate) : new Date()
 
-    // Get total revenue from paid invoices
+    // Get total revenue from paid invoices, net of credit notes
     const revenueResult = await db
       .select({
-        total: sql<string>`COALESCE(SUM(CAST(${invoices.total} AS DECIMAL)), 0)`,
+        total: sql<string>`COALESCE(SUM(CAST(${invoices.total} AS DECIMAL) - CAST(${invoices.amountCredited} AS DECIMAL)), 0)`,
       })
       .from(invoices)
       .where(
@@ -93,7 +93,7 @@ export async function GET(request: NextRequest) {
     const revenueByMonth = await db
       .select({
         month: sql<string>`TO_CHAR(${invoices.paidAt}, 'Mon YYYY')`,
-        amount: sql<string>`COALESCE(SUM(CAST(${invoices.total} AS DECIMAL)), 0)`,
+        amount: sql<string>`COALESCE(SUM(CAST(${invoices.total} AS DECIMAL) - CAST(${invoices.amountCredited} AS DECIMAL)), 0)`,
       })
       .from(invoices)
       .where(
@@ -107,6 +107,36 @@ export async function GET(request: NextRequest) {
       .groupBy(sql`TO_CHAR(${invoices.paidAt}, 'Mon YYYY')`)
       .orderBy(sql`MIN(${invoices.paidAt})`)
 
+    // Credit notes issued in the period
+    const creditNotesResult = await db
+      .select({
+        count: sql<number>`COUNT(*)`,
+        total: sql<string>`COALESCE(SUM(CAST(${creditNotes.total} AS DECIMAL)), 0)`,
+      })
+      .from(creditNotes)
+      .where(
+        and(
+          eq(creditNotes.companyId, session.companyId),
+          gte(creditNotes.issuedAt, start),
+          lte(creditNotes.issuedAt, end)
+        )
+      )
+
+    // Refunds paid out against credit notes (stored as negative payments)
+    const refundsResult = await db
+      .select({
+        total: sql<string>`COALESCE(SUM(-CAST(${payments.amount} AS DECIMAL)), 0)`,
+      })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.companyId, session.companyId),
+          isNotNull(payments.creditNoteId),
+          gte(payments.paidAt, start),
+          lte(payments.paidAt, end)
+        )
+      )
+
     // Get expenses by category
     const expensesByCategory = await db
       .select({
@@ -131,6 +161,9 @@ export async function GET(request: NextRequest) {
       outstandingInvoices,
       paidInvoices: Number(paidInvoicesCount[0]?.count || 0),
       overdueInvoices: Number(overdueInvoicesCount[0]?.count || 0),
+      creditNotesIssued: Number(creditNotesResult[0]?.count || 0),
+      totalCredited: parseFloat(creditNotesResult[0]?.total || "0"),
+      totalRefunded: parseFloat(refundsResult[0]?.total || "0"),
       revenueByMonth: revenueByMonth.map((item) => ({
         month: item.month,
         amount: parseFloat(item.amount),
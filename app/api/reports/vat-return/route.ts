@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { requireAuth } from "@/lib/auth"
+import { calculateVatReturn, getPreviousVatQuarter } from "@/lib/vat"
+
+// GET /api/reports/vat-return - VAT return boxes 1-9 for a period (defaults to the last full quarter)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await requireAuth()
+    const { searchParams } = new URL(request.url)
+
+    const startDate = searchParams.get("startDate")
+    const endDate = searchParams.get("endDate")
+
+    let period = getPreviousVatQuarter()
+    if (startDate || endDate) {
+      if (!startDate || !endDate) {
+        return NextResponse.json({ error: "Both startDate and endDate are required" }, { status: 400 })
+      }
+
+      const start = new Date(startDate)
+      const end = new Date(endDate)
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) {
+        return NextResponse.json({ error: "Invalid date range" }, { status: 400 })
+      }
+
+      // endDate is the last day of the period
+      start.setHours(0, 0, 0, 0)
+      end.setHours(0, 0, 0, 0)
+      end.setDate(end.getDate() + 1)
+      period = { start, end }
+    }
+
+    const vatReturn = await calculateVatReturn(db, session.companyId, period)
+
+    return NextResponse.json(vatReturn)
+  } catch (error) {
+    console.error("Error calculating VAT return:", error)
+    return NextResponse.json(
+      { error: "Failed to calculate VAT return" },
+      { status: 500 }
+    )
+  }
+}
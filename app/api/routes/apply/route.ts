@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { applyRouteOrder } from "@/lib/routing"
+
+// POST /api/routes/apply - Reschedule an employee's jobs to follow an optimized order
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+    const body = await request.json()
+    const { date, employeeId, jobIds, timeWindowMinutes } = body
+
+    if (!date || !employeeId || !Array.isArray(jobIds) || jobIds.length === 0) {
+      return NextResponse.json({ error: "Date, employee and job order are required" }, { status: 400 })
+    }
+
+    const routeDate = new Date(date)
+    if (isNaN(routeDate.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    const result = await applyRouteOrder({
+      companyId: session.companyId,
+      employeeId: parseInt(employeeId),
+      date: routeDate,
+      jobIds: jobIds.map((id: unknown) => Number(id)),
+      userId: session.id,
+      timeWindowMinutes,
+    })
+
+    return NextResponse.json({
+      success: true,
+      updatedJobs: result.updated,
+      route: result.route,
+      message: `Updated ${result.updated.length} job${result.updated.length === 1 ? "" : "s"}`,
+    })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Unauthorized") {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      }
+      if (error.message === "Employee not found") {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message.startsWith("Route has changed") || error.message.startsWith("This order")) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+    }
+    console.error("Apply route error:", error)
+    return NextResponse.json({ error: "Failed to apply route" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { planDailyRoutes } from "@/lib/routing"
+
+// GET /api/routes?date=YYYY-MM-DD - Current vs optimized route for each employee on a day
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+    const { searchParams } = new URL(request.url)
+
+    const dateParam = searchParams.get("date")
+    const employeeId = searchParams.get("employeeId")
+    const timeWindow = searchParams.get("timeWindowMinutes")
+
+    const date = dateParam ? new Date(dateParam) : new Date()
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    const routes = await planDailyRoutes(session.companyId, date, {
+      employeeId: employeeId ? parseInt(employeeId) : undefined,
+      timeWindowMinutes: timeWindow ? parseInt(timeWindow) : undefined,
+    })
+
+    const totals = routes.reduce(
+      (acc, route) => ({
+        currentMiles: acc.currentMiles + route.current.totalMiles,
+        optimizedMiles: acc.optimizedMiles + route.optimized.totalMiles,
+        savingMiles: acc.savingMiles + route.savingMiles,
+        savingCost: acc.savingCost + route.savingCost,
+      }),
+      { currentMiles: 0, optimizedMiles: 0, savingMiles: 0, savingCost: 0 },
+    )
+
+    return NextResponse.json({ date: date.toISOString(), routes, totals })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    console.error("Get routes error:", error)
+    return NextResponse.json({ error: "Failed to optimize routes" }, { status: 500 })
+  }
+}
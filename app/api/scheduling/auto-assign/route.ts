@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { applyAutoAssignments, planAutoAssignments } from "@/lib/auto-assign"
+
+// GET /api/scheduling/auto-assign - Preview who each unassigned job on a day would go to
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const date = new Date(searchParams.get("date") || "")
+    if (Number.isNaN(date.getTime())) {
+      return NextResponse.json({ error: "A valid date is required" }, { status: 400 })
+    }
+
+    const plan = await planAutoAssignments(session.companyId, date)
+
+    return NextResponse.json(plan)
+  } catch (error) {
+    console.error("Error planning auto-assignment:", error)
+    return NextResponse.json({ error: "Failed to plan auto-assignment" }, { status: 500 })
+  }
+}
+
+// POST /api/scheduling/auto-assign - Save a previewed set of assignments
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const assignments = Array.isArray(body.assignments)
+      ? body.assignments
+          .map((item: { jobId?: unknown; employeeId?: unknown }) => ({
+            jobId: Number(item?.jobId),
+            employeeId: Number(item?.employeeId),
+          }))
+          .filter((item: { jobId: number; employeeId: number }) => item.jobId > 0 && item.employeeId > 0)
+      : []
+
+    if (assignments.length === 0) {
+      return NextResponse.json({ error: "No assignments to save" }, { status: 400 })
+    }
+
+    const result = await applyAutoAssignments(session.companyId, assignments, {
+      userId: session.id,
+      sendNotification: body.sendNotification !== false,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error applying auto-assignment:", error)
+    return NextResponse.json({ error: "Failed to apply auto-assignment" }, { status: 500 })
+  }
+}
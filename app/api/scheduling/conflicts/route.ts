@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getScheduleConflicts } from "@/lib/scheduling-conflicts"
+
+// GET /api/scheduling/conflicts - Conflicts on assigned jobs and shifts in a date range
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const start = new Date(searchParams.get("startDate") || "")
+    const end = new Date(searchParams.get("endDate") || "")
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      return NextResponse.json({ error: "A valid start and end date are required" }, { status: 400 })
+    }
+
+    const conflicts = await getScheduleConflicts(session.companyId, start, end)
+
+    return NextResponse.json({ conflicts })
+  } catch (error) {
+    console.error("Error fetching scheduling conflicts:", error)
+    return NextResponse.json({ error: "Failed to fetch scheduling conflicts" }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { geocodeToColumns } from "@/lib/geocoding"
 
 // GET /api/service-areas/[id]
 export async function GET(
@@ -76,6 +77,16 @@ export async function PATCH(
     if (body.postcodes !== undefined) updateData.postcodes = JSON.stringify(body.postcodes)
     if (body.city !== undefined) updateData.city = body.city
     if (body.radius !== undefined) updateData.radius = body.radius
+    if (body.centerLat !== undefined) updateData.centerLat = body.centerLat
+    if (body.centerLng !== undefined) updateData.centerLng = body.centerLng
+    if (body.centerPostcode) {
+      const centre = await geocodeToColumns([body.centerPostcode, "UK"])
+      if (!centre.latitude) {
+        return NextResponse.json({ error: `Couldn't find ${body.centerPostcode}` }, { status: 400 })
+      }
+      updateData.centerLat = centre.latitude
+      updateData.centerLng = centre.longitude
+    }
     if (body.surchargeAmount !== undefined) updateData.surchargeAmount = body.surchargeAmount
     if (body.surchargePercent !== undefined) updateData.surchargePercent = body.surchargePercent
     if (body.isActive !== undefined) updateData.isActive = body.isActive ? 1 : 0
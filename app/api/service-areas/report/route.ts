@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { addDays, endOfMonth, isValid, parseISO, startOfDay, startOfMonth } from "date-fns"
+import { getServiceAreaReport } from "@/lib/service-areas"
+
+// GET /api/service-areas/report - Jobs, revenue and staff coverage per service area
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fromParam = searchParams.get("from")
+    const toParam = searchParams.get("to")
+    const from = fromParam ? parseISO(fromParam) : startOfMonth(new Date())
+    const to = toParam ? parseISO(toParam) : endOfMonth(new Date())
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 })
+    }
+
+    // The end date is inclusive
+    const areas = await getServiceAreaReport(session.companyId, startOfDay(from), addDays(startOfDay(to), 1))
+
+    return NextResponse.json({ from, to, areas })
+  } catch (error) {
+    console.error("Error building service area report:", error)
+    return NextResponse.json({ error: "Failed to build service area report" }, { status: 500 })
+  }
+}
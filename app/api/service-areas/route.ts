@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and, desc, ilike } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { geocodeToColumns } from "@/lib/geocoding"
 
 // GET /api/service-areas - List service areas
 export async function GET(request: NextRequest) {
@@ -62,12 +63,23 @@ export async function POST(request: NextRequest) {
       surchargePercent,
       notes,
       isActive,
+      centerLat,
+      centerLng,
+      centerPostcode,
     } = body
 
     if (!name) {
       return NextResponse.json({ error: "Service area name is required" }, { status: 400 })
     }
 
+    // Radius areas can be centred on a postcode instead of coordinates
+    const centre = centerPostcode
+      ? await geocodeToColumns([centerPostcode, "UK"])
+      : { latitude: centerLat ?? null, longitude: centerLng ?? null }
+    if (centerPostcode && !centre.latitude) {
+      return NextResponse.json({ error: `Couldn't find ${centerPostcode}` }, { status: 400 })
+    }
+
     const [area] = await db
       .insert(schema.serviceAreas)
       .values({
@@ -77,6 +89,8 @@ export async function POST(request: NextRequest) {
         postcodes: postcodes ? JSON.stringify(postcodes) : null,
         city: city || null,
         radius: radius || null,
+        centerLat: centre.latitude ? String(centre.latitude) : null,
+        centerLng: centre.longitude ? String(centre.longitude) : null,
         surchargeAmount: surchargeAmount || null,
         surchargePercent: surchargePercent || null,
         isActive: isActive === undefined ? 1 : isActive ? 1 : 0,
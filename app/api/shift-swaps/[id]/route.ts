@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { requireAuth } from "@/lib/auth"
-import { and, eq } from "drizzle-orm"
+import { and, eq, inArray } from "drizzle-orm"
 import { sendJobAssignmentEmail, sendShiftSwapDecisionEmail } from "@/lib/email"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  getJobWindow,
+  recordConflictOverride,
+  type ScheduleSlot,
+} from "@/lib/scheduling-conflicts"
 
 export async function PATCH(
   request: NextRequest,
@@ -49,15 +57,61 @@ export async function PATCH(
       where: eq(schema.companies.id, session.companyId),
     })
 
-    const formatJobTime = (job: typeof swap.fromJob) => {
-      const date = job?.scheduledFor ? new Date(job.scheduledFor) : null
+    // Loaded on their own so they are typed (the swap's job relations come back as row-or-array unions)
+    const swapJobs = new Map(
+      (
+        await db
+          .select({
+            id: schema.jobs.id,
+            scheduledFor: schema.jobs.scheduledFor,
+            scheduledEnd: schema.jobs.scheduledEnd,
+            durationMinutes: schema.jobs.durationMinutes,
+            latitude: schema.jobs.latitude,
+            longitude: schema.jobs.longitude,
+          })
+          .from(schema.jobs)
+          .where(
+            and(
+              inArray(schema.jobs.id, [swap.fromJobId, swap.toJobId]),
+              eq(schema.jobs.companyId, session.companyId)
+            )
+          )
+      ).map((job) => [job.id, job])
+    )
+
+    const formatJobTime = (job: { scheduledFor: Date | null } | undefined) => {
+      if (!job) return "Time TBD"
+      const date = job.scheduledFor ? new Date(job.scheduledFor) : null
       const time = date ? date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }) : "Time TBD"
       const day = date ? date.toLocaleDateString("en-GB") : "Date TBD"
       return `${day} ${time}`
     }
 
     if (status === "approved") {
+      // Each employee takes the other's job and gives up their own
+      const swapSlots: ScheduleSlot[] = []
+      for (const [jobId, employeeId, releasedJobId] of [
+        [swap.fromJobId, swap.toEmployeeId, swap.toJobId],
+        [swap.toJobId, swap.fromEmployeeId, swap.fromJobId],
+      ] as const) {
+        const job = swapJobs.get(jobId)
+        const jobWindow = job ? getJobWindow(job) : null
+        if (!job || !jobWindow) continue
+        swapSlots.push({
+          kind: "job",
+          id: job.id,
+          employeeIds: [employeeId],
+          ...jobWindow,
+          coordinates: parseCoordinates(job.latitude, job.longitude),
+          releasedJobIds: [releasedJobId],
+        })
+      }
       await db.transaction(async (tx) => {
+        const conflictCheck = await assertNoSchedulingConflicts(tx, session.companyId, swapSlots, {
+          overrideReason: body.overrideReason,
+          role: session.role,
+        })
+
         await tx
           .update(schema.jobs)
           .set({
@@ -82,6 +136,19 @@ export async function PATCH(
           .update(schema.shiftSwapRequests)
           .set({ status: "approved", updatedAt: new Date() })
           .where(eq(schema.shiftSwapRequests.id, swapId))
+
+        if (conflictCheck.overrideReason) {
+          for (const [index, slot] of swapSlots.entries()) {
+            if (!slot.id || conflictCheck.slotConflicts[index].length === 0) continue
+            await recordConflictOverride(tx, session.companyId, {
+              entityType: "job",
+              entityId: slot.id,
+              conflicts: conflictCheck.slotConflicts[index],
+              reason: conflictCheck.overrideReason,
+              overriddenById: session.id,
+            })
+          }
+        }
       })
 
       if (swap.toEmployee?.email && swap.fromJob) {
@@ -146,7 +213,7 @@ export async function PATCH(
             companyName: company?.name || "Your Company",
             status: "approved",
             jobTitle: swap.toJob?.title || "New assignment",
-            jobTime: swap.toJob ? formatJobTime(swap.toJob) : "Time TBD",
+            jobTime: formatJobTime(swapJobs.get(swap.toJobId)),
             otherEmployeeName: `${swap.toEmployee.firstName} ${swap.toEmployee.lastName}`,
           })
 
@@ -156,7 +223,7 @@ export async function PATCH(
             companyName: company?.name || "Your Company",
             status: "approved",
             jobTitle: swap.fromJob?.title || "New assignment",
-            jobTime: swap.fromJob ? formatJobTime(swap.fromJob) : "Time TBD",
+            jobTime: formatJobTime(swapJobs.get(swap.fromJobId)),
             otherEmployeeName: `${swap.fromEmployee.firstName} ${swap.fromEmployee.lastName}`,
           })
         } catch (emailError) {
@@ -177,7 +244,7 @@ export async function PATCH(
             companyName: company?.name || "Your Company",
             status: "rejected",
             jobTitle: swap.fromJob?.title || "Current assignment",
-            jobTime: swap.fromJob ? formatJobTime(swap.fromJob) : "Time TBD",
+            jobTime: formatJobTime(swapJobs.get(swap.fromJobId)),
             otherEmployeeName: `${swap.toEmployee.firstName} ${swap.toEmployee.lastName}`,
           })
 
@@ -187,7 +254,7 @@ export async function PATCH(
             companyName: company?.name || "Your Company",
             status: "rejected",
             jobTitle: swap.toJob?.title || "Current assignment",
-            jobTime: swap.toJob ? formatJobTime(swap.toJob) : "Time TBD",
+            jobTime: formatJobTime(swapJobs.get(swap.toJobId)),
             otherEmployeeName: `${swap.fromEmployee.firstName} ${swap.fromEmployee.lastName}`,
           })
         } catch (emailError) {
@@ -198,6 +265,9 @@ export async function PATCH(
 
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Error updating shift swap:", error)
     return NextResponse.json({ error: "Failed to update shift swap" }, { status: 500 })
   }
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 // GET /api/shifts/[id]
 export async function GET(
@@ -84,14 +89,53 @@ export async function PATCH(
     if (body.actualEndTime !== undefined) updateData.actualEndTime = new Date(body.actualEndTime)
     if (body.notes !== undefined) updateData.notes = body.notes
 
-    const [updated] = await db
-      .update(schema.shifts)
-      .set(updateData)
-      .where(eq(schema.shifts.id, shiftId))
-      .returning()
+    // Only moving a shift can create a new clash
+    const moved = body.startTime !== undefined || body.endTime !== undefined
+
+    // The clash check and the move share a transaction so concurrent bookings can't both pass
+    const updated = await db.transaction(async (tx) => {
+      const conflictCheck =
+        moved && (updateData.status ?? existing.status) !== "cancelled"
+          ? await assertNoSchedulingConflicts(
+              tx,
+              session.companyId,
+              [
+                {
+                  kind: "shift",
+                  id: shiftId,
+                  employeeIds: [existing.employeeId],
+                  start: updateData.startTime ?? existing.startTime,
+                  end: updateData.endTime ?? existing.endTime,
+                },
+              ],
+              { overrideReason: body.overrideReason, role: session.role },
+            )
+          : null
+
+      const [saved] = await tx
+        .update(schema.shifts)
+        .set(updateData)
+        .where(eq(schema.shifts.id, shiftId))
+        .returning()
+
+      if (conflictCheck?.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "shift",
+          entityId: shiftId,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return saved
+    })
 
     return NextResponse.json(updated)
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Error updating shift:", error)
     return NextResponse.json({ error: "Failed to update shift" }, { status: 500 })
   }
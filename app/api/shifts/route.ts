@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, desc, and, gte, lte } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import {
+  SchedulingConflictError,
+  assertNoSchedulingConflicts,
+  recordConflictOverride,
+} from "@/lib/scheduling-conflicts"
 
 // GET /api/shifts - List all shifts for the company
 export async function GET(request: NextRequest) {
@@ -68,6 +73,7 @@ export async function POST(request: NextRequest) {
       endTime,
       breakMinutes,
       notes,
+      overrideReason,
     } = body
 
     if (!employeeId || !startTime || !endTime) {
@@ -92,23 +98,48 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const [shift] = await db
-      .insert(schema.shifts)
-      .values({
-        companyId: session.companyId,
-        employeeId: parseInt(employeeId),
-        title,
-        shiftType,
-        startTime: new Date(startTime),
-        endTime: new Date(endTime),
-        breakMinutes: breakMinutes || 0,
-        notes,
-        status: "scheduled",
-      })
-      .returning()
+    // The clash check and the insert share a transaction so concurrent bookings can't both pass
+    const shift = await db.transaction(async (tx) => {
+      const conflictCheck = await assertNoSchedulingConflicts(
+        tx,
+        session.companyId,
+        [{ kind: "shift", employeeIds: [employee.id], start: new Date(startTime), end: new Date(endTime) }],
+        { overrideReason, role: session.role },
+      )
+
+      const [created] = await tx
+        .insert(schema.shifts)
+        .values({
+          companyId: session.companyId,
+          employeeId: parseInt(employeeId),
+          title,
+          shiftType,
+          startTime: new Date(startTime),
+          endTime: new Date(endTime),
+          breakMinutes: breakMinutes || 0,
+          notes,
+          status: "scheduled",
+        })
+        .returning()
+
+      if (conflictCheck.overrideReason) {
+        await recordConflictOverride(tx, session.companyId, {
+          entityType: "shift",
+          entityId: created.id,
+          conflicts: conflictCheck.conflicts,
+          reason: conflictCheck.overrideReason,
+          overriddenById: session.id,
+        })
+      }
+
+      return created
+    })
 
     return NextResponse.json(shift, { status: 201 })
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: error.status })
+    }
     console.error("Error creating shift:", error)
     return NextResponse.json({ error: "Failed to create shift" }, { status: 500 })
   }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSignatureRequestByToken, getSignatureRequestPdf, SignatureError } from "@/lib/e-signatures"
+import { checkRateLimit, getClientIp, rateLimitConfigs } from "@/lib/rate-limit"
+
+// GET /api/sign/[token]/document - The PDF behind a signing link, signed once it has been
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimit = checkRateLimit(`document-signing:${getClientIp(request)}`, rateLimitConfigs.documentSigning)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { token } = await params
+    const result = await getSignatureRequestByToken(token)
+    if (!result?.document || result.signature.status === "cancelled") {
+      return NextResponse.json({ error: "Invalid or expired signing link" }, { status: 404 })
+    }
+
+    const pdf = await getSignatureRequestPdf(result.signature)
+    const suffix = result.signature.status === "signed" ? "-signed" : ""
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${result.document.type}-${result.document.number}${suffix}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error loading document for signing:", error)
+    return NextResponse.json({ error: "Failed to load document" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import {
+  getSignatureRequestByToken,
+  parseSignatureInput,
+  signDocument,
+  SignatureError,
+} from "@/lib/e-signatures"
+import { checkRateLimit, getClientIp, rateLimitConfigs } from "@/lib/rate-limit"
+
+// POST /api/sign/[token] - Sign a contract or quote from its signing link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const ipAddress = getClientIp(request)
+    const rateLimit = checkRateLimit(`document-signing:${ipAddress}`, rateLimitConfigs.documentSigning)
+    if (!rateLimit.success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const { token } = await params
+    const result = await getSignatureRequestByToken(token)
+    if (!result) {
+      return NextResponse.json({ error: "Invalid or expired signing link" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = parseSignatureInput(body)
+
+    const signature = await signDocument(result.signature, input, {
+      signingMethod: "link",
+      ipAddress: ipAddress === "unknown" ? null : ipAddress,
+      userAgent: request.headers.get("user-agent"),
+    })
+
+    return NextResponse.json({
+      success: true,
+      signature: {
+        signerName: signature.signerName,
+        signedAt: signature.signedAt,
+        signedDocumentHash: signature.signedDocumentHash,
+      },
+    })
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error signing document:", error)
+    return NextResponse.json({ error: "Failed to sign document" }, { status: 500 })
+  }
+}
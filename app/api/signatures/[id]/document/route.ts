@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { and, eq } from "drizzle-orm"
+import { db, schema } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getSignedFileUrl } from "@/lib/storage"
+
+// GET /api/signatures/[id]/document - Download a signed contract or quote with its signature certificate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const signatureId = parseInt(id)
+    if (isNaN(signatureId)) {
+      return NextResponse.json({ error: "Invalid signature ID" }, { status: 400 })
+    }
+
+    const signature = await db.query.documentSignatures.findFirst({
+      where: and(
+        eq(schema.documentSignatures.id, signatureId),
+        eq(schema.documentSignatures.companyId, session.companyId)
+      ),
+    })
+
+    if (!signature?.signedDocumentKey) {
+      return NextResponse.json({ error: "Signed document not found" }, { status: 404 })
+    }
+
+    // Local storage hands out relative URLs
+    const url = await getSignedFileUrl(signature.signedDocumentKey)
+    return NextResponse.redirect(new URL(url, request.url))
+  } catch (error) {
+    console.error("Error downloading signed document:", error)
+    return NextResponse.json({ error: "Failed to download signed document" }, { status: 500 })
+  }
+}
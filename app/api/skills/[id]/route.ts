@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { SkillsError, deleteSkill, updateSkill } from "@/lib/employee-skills"
+
+// PATCH /api/skills/[id] - Rename or describe a skill
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const skillId = parseInt(id)
+    if (isNaN(skillId)) {
+      return NextResponse.json({ error: "Invalid skill ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const skill = await updateSkill(session.companyId, skillId, body)
+
+    return NextResponse.json(skill)
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Update skill error:", error)
+    return NextResponse.json({ error: "Failed to update skill" }, { status: 500 })
+  }
+}
+
+// DELETE /api/skills/[id] - Remove a skill from the catalogue and from every employee
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const skillId = parseInt(id)
+    if (isNaN(skillId)) {
+      return NextResponse.json({ error: "Invalid skill ID" }, { status: 400 })
+    }
+
+    await deleteSkill(session.companyId, skillId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Delete skill error:", error)
+    return NextResponse.json({ error: "Failed to delete skill" }, { status: 500 })
+  }
+}
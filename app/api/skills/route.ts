@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { SkillsError, createSkill, listSkills } from "@/lib/employee-skills"
+
+// GET /api/skills - The company's skills catalogue
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await listSkills(session.companyId))
+  } catch (error) {
+    console.error("Get skills error:", error)
+    return NextResponse.json({ error: "Failed to fetch skills" }, { status: 500 })
+  }
+}
+
+// POST /api/skills - Add a skill to the catalogue
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const skill = await createSkill(session.companyId, body)
+
+    return NextResponse.json(skill, { status: 201 })
+  } catch (error) {
+    if (error instanceof SkillsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Create skill error:", error)
+    return NextResponse.json({ error: "Failed to create skill" }, { status: 500 })
+  }
+}
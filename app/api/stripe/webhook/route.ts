@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { stripe } from "@/lib/stripe"
+import { recordChargeRefund, recordCheckoutPayment, recordPaymentIntentPayment } from "@/lib/invoice-payments"
+import { recordCardSetup } from "@/lib/subscriptions"
 import { eq } from "drizzle-orm"
 import Stripe from "stripe"
 
@@ -25,8 +27,24 @@ export async function POST(request: NextRequest) {
     }
 
     switch (event.type) {
-      case "checkout.session.completed": {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded": {
         const session = event.data.object as Stripe.Checkout.Session
+
+        // Customer paying one of a company's invoices
+        if (session.metadata?.type === "invoice") {
+          await recordCheckoutPayment(session)
+          break
+        }
+
+        // Customer saving the card for a subscription
+        if (session.metadata?.type === "subscription_card") {
+          await recordCardSetup(session)
+          break
+        }
+
+        if (event.type !== "checkout.session.completed") break
+
         const companyId = parseInt(session.metadata?.companyId || "0")
         const planKey = session.metadata?.planKey
 
@@ -45,6 +63,22 @@ export async function POST(request: NextRequest) {
         break
       }
 
+      case "payment_intent.succeeded": {
+        // Off-session subscription charges that were still processing when they were made
+        const paymentIntent = event.data.object as Stripe.PaymentIntent
+        if (paymentIntent.metadata?.subscriptionCycleId) {
+          await recordPaymentIntentPayment(paymentIntent)
+        }
+        break
+      }
+
+      case "charge.refunded": {
+        // Ignored unless the charge paid an invoice
+        const charge = event.data.object as Stripe.Charge
+        await recordChargeRefund(charge)
+        break
+      }
+
       case "customer.subscription.updated": {
         const subscription = event.data.object as Stripe.Subscription
         const companyId = parseInt(subscription.metadata?.companyId || "0")
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { and, desc, eq } from "drizzle-orm"
+import { getSession } from "@/lib/auth"
+import {
+  cancelSubscription,
+  pauseSubscription,
+  resumeSubscription,
+  retrySubscriptionCycle,
+  skipNextVisit,
+  SubscriptionError,
+} from "@/lib/subscriptions"
+
+// GET /api/subscriptions/[id] - Get a subscription with its billing cycles
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscriptionId = parseInt(id)
+    if (isNaN(subscriptionId)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 })
+    }
+
+    const subscription = await db.query.subscriptions.findFirst({
+      where: and(eq(schema.subscriptions.id, subscriptionId), eq(schema.subscriptions.companyId, session.companyId)),
+      with: {
+        customer: {
+          columns: { id: true, firstName: true, lastName: true, email: true },
+        },
+        plan: {
+          columns: { id: true, name: true },
+        },
+        cycles: {
+          orderBy: [desc(schema.subscriptionCycles.occurrenceAt)],
+          with: {
+            invoice: {
+              columns: { id: true, invoiceNumber: true, status: true, total: true, amountDue: true, currency: true },
+            },
+            job: {
+              columns: { id: true, status: true, assignedTo: true },
+            },
+          },
+        },
+      },
+    })
+
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(subscription)
+  } catch (error) {
+    console.error("Error fetching subscription:", error)
+    return NextResponse.json({ error: "Failed to fetch subscription" }, { status: 500 })
+  }
+}
+
+// PATCH /api/subscriptions/[id] - Pause, resume, skip the next visit of or cancel a subscription, or retry a payment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscriptionId = parseInt(id)
+    if (isNaN(subscriptionId)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { companyId } = session
+
+    switch (body?.action) {
+      case "pause": {
+        const resumeAt = body.resumeAt ? new Date(body.resumeAt) : null
+        if (resumeAt && isNaN(resumeAt.getTime())) {
+          return NextResponse.json({ error: "Invalid resume date" }, { status: 400 })
+        }
+        return NextResponse.json(await pauseSubscription(companyId, subscriptionId, { resumeAt }))
+      }
+      case "resume":
+        return NextResponse.json(await resumeSubscription(companyId, subscriptionId))
+      case "skip": {
+        const result = await skipNextVisit(companyId, subscriptionId)
+        return NextResponse.json(result.subscription)
+      }
+      case "cancel":
+        return NextResponse.json(await cancelSubscription(companyId, subscriptionId, { reason: body.reason }))
+      case "retry": {
+        const cycleId = parseInt(body.cycleId)
+        const cycle = cycleId
+          ? await db.query.subscriptionCycles.findFirst({
+              where: and(
+                eq(schema.subscriptionCycles.id, cycleId),
+                eq(schema.subscriptionCycles.subscriptionId, subscriptionId),
+              ),
+              columns: { id: true },
+            })
+          : null
+        if (!cycle) {
+          return NextResponse.json({ error: "Billing cycle not found" }, { status: 404 })
+        }
+        return NextResponse.json(await retrySubscriptionCycle(companyId, cycle.id))
+      }
+      default:
+        return NextResponse.json({ error: "Action must be pause, resume, skip, cancel or retry" }, { status: 400 })
+    }
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating subscription:", error)
+    return NextResponse.json({ error: "Failed to update subscription" }, { status: 500 })
+  }
+}
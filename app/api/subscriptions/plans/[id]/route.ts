@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { and, eq } from "drizzle-orm"
+import { getSession } from "@/lib/auth"
+import { parsePlanInput, SubscriptionError } from "@/lib/subscriptions"
+
+// PATCH /api/subscriptions/plans/[id] - Update a plan. Existing subscriptions keep the price they signed up at.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const planId = parseInt(id)
+    if (isNaN(planId)) {
+      return NextResponse.json({ error: "Invalid plan ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const values = parsePlanInput(body, true)
+
+    const [plan] = await db
+      .update(schema.subscriptionPlans)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(schema.subscriptionPlans.id, planId), eq(schema.subscriptionPlans.companyId, session.companyId)))
+      .returning()
+
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(plan)
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating subscription plan:", error)
+    return NextResponse.json({ error: "Failed to update subscription plan" }, { status: 500 })
+  }
+}
+
+// DELETE /api/subscriptions/plans/[id] - Delete a plan. Its subscriptions carry on unchanged.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const planId = parseInt(id)
+    if (isNaN(planId)) {
+      return NextResponse.json({ error: "Invalid plan ID" }, { status: 400 })
+    }
+
+    const [deleted] = await db
+      .delete(schema.subscriptionPlans)
+      .where(and(eq(schema.subscriptionPlans.id, planId), eq(schema.subscriptionPlans.companyId, session.companyId)))
+      .returning({ id: schema.subscriptionPlans.id })
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting subscription plan:", error)
+    return NextResponse.json({ error: "Failed to delete subscription plan" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { asc, eq } from "drizzle-orm"
+import { getSession } from "@/lib/auth"
+import { parsePlanInput, SubscriptionError, type SubscriptionPlanInput } from "@/lib/subscriptions"
+
+// GET /api/subscriptions/plans - List the plans customers can subscribe to
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const plans = await db.query.subscriptionPlans.findMany({
+      where: eq(schema.subscriptionPlans.companyId, session.companyId),
+      orderBy: [asc(schema.subscriptionPlans.amount)],
+    })
+
+    return NextResponse.json(plans)
+  } catch (error) {
+    console.error("Error fetching subscription plans:", error)
+    return NextResponse.json({ error: "Failed to fetch subscription plans" }, { status: 500 })
+  }
+}
+
+// POST /api/subscriptions/plans - Create a subscription plan
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const values = parsePlanInput(body) as SubscriptionPlanInput
+
+    const [plan] = await db
+      .insert(schema.subscriptionPlans)
+      .values({ ...values, companyId: session.companyId })
+      .returning()
+
+    return NextResponse.json(plan, { status: 201 })
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating subscription plan:", error)
+    return NextResponse.json({ error: "Failed to create subscription plan" }, { status: 500 })
+  }
+}
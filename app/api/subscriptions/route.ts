@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db, schema } from "@/lib/db"
+import { and, desc, eq } from "drizzle-orm"
+import { getSession } from "@/lib/auth"
+
+// GET /api/subscriptions - List customer subscriptions
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status")
+
+    const conditions: any[] = [eq(schema.subscriptions.companyId, session.companyId)]
+    if (status && status !== "all") {
+      conditions.push(eq(schema.subscriptions.status, status))
+    }
+
+    const subscriptions = await db.query.subscriptions.findMany({
+      where: and(...conditions),
+      orderBy: [desc(schema.subscriptions.createdAt)],
+      with: {
+        customer: {
+          columns: { id: true, firstName: true, lastName: true, email: true },
+        },
+        plan: {
+          columns: { id: true, name: true },
+        },
+      },
+    })
+
+    return NextResponse.json(subscriptions)
+  } catch (error) {
+    console.error("Error fetching subscriptions:", error)
+    return NextResponse.json({ error: "Failed to fetch subscriptions" }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { db } from "@/lib/db"
 import { timeOffRequests, employees } from "@/lib/db/schema"
 import { eq, and } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { approveTimeOffRequest, LeaveApprovalWarningError, LeaveError } from "@/lib/leave"
 
 // GET /api/time-off/[id] - Get a specific time-off request (admin view)
 export async function GET(
@@ -63,7 +64,8 @@ export async function GET(
   }
 }
 
-// PATCH /api/time-off/[id] - Approve or deny request (admin action)
+// PATCH /api/time-off/[id] - Approve or deny request (admin action). Approving holiday takes it from the
+// employee's balance; if that goes negative or overlaps assigned jobs, it needs acknowledgeWarnings.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -82,7 +84,7 @@ export async function PATCH(
     }
 
     const body = await request.json()
-    const { action, reviewNotes, status: newStatus } = body
+    const { action, reviewNotes, status: newStatus, acknowledgeWarnings } = body
 
     // Verify request exists and belongs to company
     const [existing] = await db
@@ -117,6 +119,20 @@ export async function PATCH(
 
       const finalStatus = action === "approve" ? "approved" : "denied"
 
+      if (finalStatus === "approved") {
+        const result = await approveTimeOffRequest(session.companyId, requestId, {
+          reviewedBy: session.id,
+          reviewNotes,
+          acknowledgeWarnings: acknowledgeWarnings === true,
+        })
+        return NextResponse.json({
+          success: true,
+          request: result.request,
+          warnings: result.warnings,
+          message: "Request approved successfully",
+        })
+      }
+
       const [updated] = await db
         .update(timeOffRequests)
         .set({
@@ -137,6 +153,15 @@ export async function PATCH(
     }
 
     // Handle direct status updates
+    if (newStatus === "approved" && existing.status === "pending") {
+      const result = await approveTimeOffRequest(session.companyId, requestId, {
+        reviewedBy: session.id,
+        reviewNotes,
+        acknowledgeWarnings: acknowledgeWarnings === true,
+      })
+      return NextResponse.json(result.request)
+    }
+
     if (newStatus) {
       const updateData: any = { 
         status: newStatus,
@@ -160,6 +185,12 @@ export async function PATCH(
 
     return NextResponse.json({ error: "No action or status provided" }, { status: 400 })
   } catch (error) {
+    if (error instanceof LeaveApprovalWarningError) {
+      return NextResponse.json({ error: error.message, warnings: error.warnings }, { status: error.status })
+    }
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error updating time-off request:", error)
     return NextResponse.json({ error: "Failed to update time-off request" }, { status: 500 })
   }
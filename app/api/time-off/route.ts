@@ -67,6 +67,7 @@ export async function GET(request: NextRequest) {
         startDate: timeOffRequests.startDate,
         endDate: timeOffRequests.endDate,
         totalDays: timeOffRequests.totalDays,
+        deductedDays: timeOffRequests.deductedDays,
         reason: timeOffRequests.reason,
         status: timeOffRequests.status,
         reviewedBy: timeOffRequests.reviewedBy,
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { getTimesheetDetail, reviewTimesheet, TimesheetError } from "@/lib/timesheets"
+
+// GET /api/timesheets/[id] - A timesheet with its sessions, breaks, edit history and variances against the schedule
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const timesheetId = parseInt(id)
+    if (isNaN(timesheetId)) {
+      return NextResponse.json({ error: "Invalid timesheet ID" }, { status: 400 })
+    }
+
+    return NextResponse.json(await getTimesheetDetail(session.companyId, timesheetId))
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get timesheet error:", error)
+    return NextResponse.json({ error: "Failed to fetch timesheet" }, { status: 500 })
+  }
+}
+
+// PATCH /api/timesheets/[id] - Approve a submitted timesheet or return it with comments. Body: { action, comments? }
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const timesheetId = parseInt(id)
+    if (isNaN(timesheetId)) {
+      return NextResponse.json({ error: "Invalid timesheet ID" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    if (body?.action !== "approve" && body?.action !== "return") {
+      return NextResponse.json({ error: "Invalid action. Must be 'approve' or 'return'" }, { status: 400 })
+    }
+
+    const timesheet = await reviewTimesheet(session.companyId, timesheetId, body.action, session.id, body.comments)
+
+    return NextResponse.json({ success: true, timesheet })
+  } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Review timesheet error:", error)
+    return NextResponse.json({ error: "Failed to update timesheet" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSession } from "@/lib/auth"
+import { listTimesheets, TIMESHEET_STATUSES } from "@/lib/timesheets"
+
+// GET /api/timesheets - Timesheets for review, filtered by ?status=, ?week= (week start) and ?employeeId=
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json({ error: "Database not configured" }, { status: 503 })
+    }
+
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const status = searchParams.get("status")
+    if (status && !(TIMESHEET_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+    const week = searchParams.get("week")
+    if (week && !/^\d{4}-\d{2}-\d{2}$/.test(week)) {
+      return NextResponse.json({ error: "Invalid week" }, { status: 400 })
+    }
+    const employeeId = searchParams.get("employeeId")
+
+    const timesheets = await listTimesheets(session.companyId, {
+      status,
+      weekStart: week,
+      employeeId: employeeId ? parseInt(employeeId) || null : null,
+    })
+
+    return NextResponse.json({ timesheets })
+  } catch (error) {
+    console.error("Get timesheets error:", error)
+    return NextResponse.json({ error: "Failed to fetch timesheets" }, { status: 500 })
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth"
 import { db, schema } from "@/lib/db"
-import { saveFile, validateFile, getFileType } from "@/lib/file-storage"
+import { validateFile, getFileType } from "@/lib/file-storage"
+import { storeUpload, withSignedUrls } from "@/lib/storage"
 
 // POST /api/upload - Upload a file
 export async function POST(request: NextRequest) {
@@ -25,8 +26,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: validation.error }, { status: 400 })
     }
 
-    // Save file to disk
-    const { fileName, url, thumbnailUrl } = await saveFile(file, category)
+    // Save file to private storage
+    const { fileName, storageKey, thumbnailKey } = await storeUpload(file, {
+      companyId: session.companyId,
+      category,
+    })
 
     // Save to database
     const [attachment] = await db!
@@ -37,8 +41,8 @@ export async function POST(request: NextRequest) {
         originalName: file.name,
         title: title || file.name,
         description: description || null,
-        url,
-        thumbnailUrl: thumbnailUrl || null,
+        storageKey,
+        thumbnailKey,
         mimeType: file.type,
         fileType: getFileType(file.type),
         sizeBytes: file.size,
@@ -52,7 +56,7 @@ export async function POST(request: NextRequest) {
       })
       .returning()
 
-    return NextResponse.json(attachment, { status: 201 })
+    return NextResponse.json(await withSignedUrls(attachment), { status: 201 })
   } catch (error) {
     console.error("Upload error:", error)
     return NextResponse.json({ error: "Failed to upload file" }, { status: 500 })
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { jobs, employees, customers, taskVerificationPhotos, jobTasks, jobCheckIns } from "@/lib/db/schema"
 import { eq, and, desc, gte, lte, sql } from "drizzle-orm"
+import { withSignedUrls } from "@/lib/storage"
 import { getSession } from "@/lib/auth"
 import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from "date-fns"
 
@@ -87,11 +88,15 @@ export async function GET(request: NextRequest) {
         }
 
         // Get verification photos
-        const photos = await db
-          .select()
-          .from(taskVerificationPhotos)
-          .where(eq(taskVerificationPhotos.jobId, job.id))
-          .orderBy(desc(taskVerificationPhotos.capturedAt))
+        const photos = await Promise.all(
+          (
+            await db
+              .select()
+              .from(taskVerificationPhotos)
+              .where(eq(taskVerificationPhotos.jobId, job.id))
+              .orderBy(desc(taskVerificationPhotos.capturedAt))
+          ).map(withSignedUrls)
+        )
 
         // Get tasks
         const tasks = await db
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
-import { eq, and, gte, lte } from "drizzle-orm"
+import { eq, and } from "drizzle-orm"
+import { endOfMonth, format, startOfMonth } from "date-fns"
 import { getSession } from "@/lib/auth"
+import { calculatePay, getPayrollSettings, type PayCalculation } from "@/lib/payroll"
+import { PAY_FREQUENCIES, resolvePayFrequency } from "@/lib/payroll-settings"
 
-// GET /api/wages - Calculate wages based on work sessions
+// GET /api/wages - Calculate wages for a date range using the company's pay rules
 export async function GET(request: NextRequest) {
   try {
     if (!db) {
@@ -20,6 +23,13 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get("startDate")
     const endDate = searchParams.get("endDate")
 
+    // Default to the current month
+    const now = new Date()
+    const period = {
+      start: format(startDate ? new Date(startDate) : startOfMonth(now), "yyyy-MM-dd"),
+      end: format(endDate ? new Date(endDate) : endOfMonth(now), "yyyy-MM-dd"),
+    }
+
     // Get all employees for the company
     const employeesConditions = [eq(schema.employees.companyId, session.companyId)]
     if (employeeId) employeesConditions.push(eq(schema.employees.id, parseInt(employeeId)))
@@ -28,57 +38,46 @@ export async function GET(request: NextRequest) {
       where: and(...employeesConditions),
     })
 
-    // Get work sessions for each employee
-    const database = db!  // We've already checked db is not null above
-    const wagesData = await Promise.all(
-      employees.map(async (employee) => {
-        const sessionConditions: any[] = [
-          eq(schema.workSessions.employeeId, employee.id),
-        ]
-        
-        if (startDate) sessionConditions.push(gte(schema.workSessions.startedAt, new Date(startDate)))
-        if (endDate) sessionConditions.push(lte(schema.workSessions.endedAt, new Date(endDate)))
-
-        const workSessions = await database.query.workSessions.findMany({
-          where: and(...sessionConditions),
-        })
-
-        // Calculate total hours and wages
-        let totalMinutes = 0
+    const settings = await getPayrollSettings(db, session.companyId)
 
-        workSessions.forEach((ws) => {
-          if (ws.startedAt && ws.endedAt) {
-            const duration = (ws.endedAt.getTime() - ws.startedAt.getTime()) / (1000 * 60)
-            totalMinutes += duration
-          } else if (ws.durationMinutes) {
-            totalMinutes += ws.durationMinutes
-          }
-        })
+    // Salaries depend on the pay frequency, so calculate each frequency separately
+    const calculations: PayCalculation[] = []
+    for (const frequency of PAY_FREQUENCIES) {
+      const group = employees.filter(
+        (employee) => resolvePayFrequency(employee.paymentFrequency, settings) === frequency,
+      )
+      calculations.push(...(await calculatePay(db, session.companyId, group, frequency, period, settings)))
+    }
 
-        const workedHours = totalMinutes / 60
-        const hourlyRate = employee.hourlyRate ? parseFloat(employee.hourlyRate) : 0
-        const totalWages = workedHours * hourlyRate
+    const wagesData = employees.map((employee) => {
+      const calculation = calculations.find((item) => item.employeeId === employee.id)
+      const totalWages = calculation?.lines.reduce((sum, line) => sum + line.amount, 0) ?? 0
+      const workedHours = calculation?.hoursWorked ?? 0
 
-        return {
-          employee: {
-            id: employee.id,
-            firstName: employee.firstName,
-            lastName: employee.lastName,
-            hourlyRate: employee.hourlyRate,
-          },
-          totalHours: Math.round(workedHours * 100) / 100,
-          totalMinutes: Math.round(totalMinutes),
-          totalWages: Math.round(totalWages * 100) / 100,
-          sessionsCount: workSessions.length,
-        }
-      })
-    )
+      return {
+        employee: {
+          id: employee.id,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          hourlyRate: employee.hourlyRate,
+          payType: calculation?.payType ?? "hourly",
+        },
+        totalHours: workedHours,
+        totalMinutes: Math.round(workedHours * 60),
+        totalWages: Math.round(totalWages * 100) / 100,
+        sessionsCount: calculation?.sessionsCount ?? 0,
+        jobsCount: calculation?.jobIds.length ?? 0,
+        lines: calculation?.lines ?? [],
+        warnings: calculation?.warnings ?? [],
+      }
+    })
 
     // Calculate summary
     const summary = {
       totalEmployees: wagesData.length,
       totalHours: wagesData.reduce((sum, w) => sum + w.totalHours, 0),
       totalWages: wagesData.reduce((sum, w) => sum + w.totalWages, 0),
+      currency: settings.currency,
     }
 
     return NextResponse.json({
@@ -90,4 +89,3 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Failed to calculate wages" }, { status: 500 })
   }
 }
-
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
-import { eq, and } from "drizzle-orm"
+import { eq } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { deleteWorkSession, TimesheetError, updateWorkSession } from "@/lib/timesheets"
 
 // GET /api/work-sessions/[id]
 export async function GET(
@@ -46,7 +47,7 @@ export async function GET(
   }
 }
 
-// PATCH /api/work-sessions/[id] - Update session (clock out, edit)
+// PATCH /api/work-sessions/[id] - Update session (clock out, edit). Sessions on approved timesheets are locked.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -63,38 +64,21 @@ export async function PATCH(
 
     const { id } = await params
     const sessionId = parseInt(id)
-    const body = await request.json()
-
-    const existing = await db.query.workSessions.findFirst({
-      where: eq(schema.workSessions.id, sessionId),
-      with: { employee: true },
-    })
-
-    if (!existing) {
-      return NextResponse.json({ error: "Work session not found" }, { status: 404 })
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: "Invalid work session ID" }, { status: 400 })
     }
 
-    // Verify employee belongs to the company
-    const employee = existing.employee
-    if (!employee || Array.isArray(employee) || employee.companyId !== session.companyId) {
-      return NextResponse.json({ error: "Work session not found" }, { status: 404 })
-    }
-
-    const updateData: any = {}
-    
-    if (body.endedAt !== undefined) updateData.endedAt = body.endedAt ? new Date(body.endedAt) : null
-    if (body.durationMinutes !== undefined) updateData.durationMinutes = body.durationMinutes
-    if (body.notes !== undefined) updateData.notes = body.notes
-    if (body.startedAt !== undefined) updateData.startedAt = new Date(body.startedAt)
-
-    const [updated] = await db
-      .update(schema.workSessions)
-      .set(updateData)
-      .where(eq(schema.workSessions.id, sessionId))
-      .returning()
+    const body = await request.json()
+    const updated = await updateWorkSession(session.companyId, sessionId, body, {
+      type: "manager",
+      userId: session.id,
+    })
 
     return NextResponse.json(updated)
   } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error updating work session:", error)
     return NextResponse.json({ error: "Failed to update work session" }, { status: 500 })
   }
@@ -117,26 +101,17 @@ export async function DELETE(
 
     const { id } = await params
     const sessionId = parseInt(id)
-
-    const existing = await db.query.workSessions.findFirst({
-      where: eq(schema.workSessions.id, sessionId),
-      with: { employee: true },
-    })
-
-    if (!existing) {
-      return NextResponse.json({ error: "Work session not found" }, { status: 404 })
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: "Invalid work session ID" }, { status: 400 })
     }
 
-    // Verify employee belongs to the company
-    const employee = existing.employee
-    if (!employee || Array.isArray(employee) || employee.companyId !== session.companyId) {
-      return NextResponse.json({ error: "Work session not found" }, { status: 404 })
-    }
-
-    await db.delete(schema.workSessions).where(eq(schema.workSessions.id, sessionId))
+    await deleteWorkSession(session.companyId, sessionId, { type: "manager", userId: session.id })
 
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error deleting work session:", error)
     return NextResponse.json({ error: "Failed to delete work session" }, { status: 500 })
   }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { db, schema } from "@/lib/db"
 import { eq, and, desc, gte, lte } from "drizzle-orm"
 import { getSession } from "@/lib/auth"
+import { addWorkSession, TimesheetError } from "@/lib/timesheets"
 
 // GET /api/work-sessions - List work sessions (for work hours overview)
 // Note: workSessions are filtered via employee.companyId relation
@@ -51,7 +52,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/work-sessions - Create work session (clock in)
+// POST /api/work-sessions - Add a work session for an employee (recorded in its edit history)
 export async function POST(request: NextRequest) {
   try {
     if (!db) {
@@ -64,41 +65,14 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { employeeId, jobId, startedAt, endedAt, durationMinutes, notes } = body
-
-    if (!employeeId) {
-      return NextResponse.json({ error: "Employee ID is required" }, { status: 400 })
-    }
-
-    // Verify employee belongs to the company
-    const employee = await db.query.employees.findFirst({
-      where: and(
-        eq(schema.employees.id, parseInt(employeeId)),
-        eq(schema.employees.companyId, session.companyId)
-      ),
-    })
-
-    if (!employee) {
-      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
-    }
-
-    const [workSession] = await db
-      .insert(schema.workSessions)
-      .values({
-        employeeId: parseInt(employeeId),
-        jobId: jobId ? parseInt(jobId) : null,
-        startedAt: startedAt ? new Date(startedAt) : new Date(),
-        endedAt: endedAt ? new Date(endedAt) : null,
-        durationMinutes: durationMinutes || null,
-        notes: notes || null,
-        createdAt: new Date(),
-      })
-      .returning()
+    const workSession = await addWorkSession(session.companyId, body, { type: "manager", userId: session.id })
 
     return NextResponse.json(workSession, { status: 201 })
   } catch (error) {
+    if (error instanceof TimesheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating work session:", error)
     return NextResponse.json({ error: "Failed to create work session" }, { status: 500 })
   }
 }
-
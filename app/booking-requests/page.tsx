@@ -26,6 +26,8 @@ import { Textarea } from "@/components/ui/textarea"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
 import { format, parseISO } from "date-fns"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 import { 
   Calendar, Clock, Home, User, Mail, Phone, MapPin,
   Eye, CheckCircle, XCircle, ArrowRight, Loader2,
@@ -57,6 +59,12 @@ interface BookingRequest {
   frequency: string
   estimatedPrice: string | null
   quotedPrice: string | null
+  areaSurcharge: string | null
+  outOfArea: number
+  priceBreakdown: {
+    lines: Array<{ kind: string; title: string; quantity: number; amount: number }>
+    total: number
+  } | null
   status: string
   priority: string
   adminNotes: string | null
@@ -372,7 +380,7 @@ function NeedsReassignmentSection({ employees }: { employees: Employee[] }) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete job?</AlertDialogTitle>
             <AlertDialogDescription>
-              This permanently removes "{jobToDelete?.title}". This cannot be undone.
+              This permanently removes &quot;{jobToDelete?.title}&quot;. This cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -413,6 +421,7 @@ export default function BookingRequestsPage() {
   const [quotedPrice, setQuotedPrice] = useState("")
   const [planId, setPlanId] = useState("")
   const [employeePay, setEmployeePay] = useState("")
+  const [pendingConflicts, setPendingConflicts] = useState<SchedulingConflict[] | null>(null)
 
   const fetchRequests = useCallback(async (showLoading = false) => {
     if (showLoading) setLoading(true)
@@ -550,7 +559,7 @@ export default function BookingRequestsPage() {
     }
   }
 
-  const handleConvert = async () => {
+  const handleConvert = async (overrideReason?: string) => {
     if (!selectedRequest) return
     if (!planId) {
       toast.error("Please select a cleaning plan")
@@ -586,16 +595,31 @@ export default function BookingRequestsPage() {
           planId: parseInt(planId),
           createCustomer: !selectedRequest.customerId,
           sendNotification: true,
+          overrideReason,
         }),
       })
 
       if (!response.ok) {
         const data = await response.json()
+        if (response.status === 409 && Array.isArray(data.conflicts)) {
+          setPendingConflicts(data.conflicts)
+          return
+        }
         throw new Error(data.error || "Failed to convert")
       }
 
+      setPendingConflicts(null)
+
       const data = await response.json()
       toast.success("Booking converted to job successfully!")
+      if (data.customerCreated && data.possibleDuplicates?.length > 0) {
+        const customerId = data.job?.customer?.id
+        toast.warning(`The new customer may be a duplicate of ${data.possibleDuplicates[0].name}`, {
+          action: customerId
+            ? { label: "Review", onClick: () => router.push(`/customers/${customerId}`) }
+            : undefined,
+        })
+      }
       setConvertOpen(false)
       setDetailsOpen(false)
       fetchRequests()
@@ -796,6 +820,11 @@ export default function BookingRequestsPage() {
                               <div className="flex items-center gap-2">
                                 <MapPin className="h-3.5 w-3.5" />
                                 <span>{[request.city, request.postcode].filter(Boolean).join(", ") || "Location not set"}</span>
+                                {request.outOfArea === 1 && (
+                                  <Badge variant="outline" className="border-orange-300 text-orange-700">
+                                    Out of area
+                                  </Badge>
+                                )}
                               </div>
                               <div className="flex items-center gap-2">
                                 <Calendar className="h-3.5 w-3.5" />
@@ -859,6 +888,11 @@ export default function BookingRequestsPage() {
                               <div className="text-sm">
                                 <p>{request.city}</p>
                                 <p className="text-muted-foreground">{request.postcode}</p>
+                                {request.outOfArea === 1 && (
+                                  <Badge variant="outline" className="mt-1 border-orange-300 text-orange-700">
+                                    Out of area
+                                  </Badge>
+                                )}
                               </div>
                             </TableCell>
                             <TableCell>
@@ -939,6 +973,9 @@ export default function BookingRequestsPage() {
                     <p>{selectedRequest.address}</p>
                     {selectedRequest.addressLine2 && <p>{selectedRequest.addressLine2}</p>}
                     <p>{selectedRequest.city}, {selectedRequest.postcode}</p>
+                    {selectedRequest.outOfArea === 1 && (
+                      <p className="mt-2 text-orange-700">This address is outside all of your service areas.</p>
+                    )}
                     {selectedRequest.accessInstructions && (
                       <p className="mt-2 text-muted-foreground">
                         <strong>Access:</strong> {selectedRequest.accessInstructions}
@@ -993,6 +1030,24 @@ export default function BookingRequestsPage() {
                     <p className="text-2xl font-bold">
                       £{selectedRequest.quotedPrice || selectedRequest.estimatedPrice || "TBD"}
                     </p>
+                    {selectedRequest.priceBreakdown && !selectedRequest.quotedPrice ? (
+                      <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                        {selectedRequest.priceBreakdown.lines.map((line, index) => (
+                          <p key={`${line.kind}-${index}`}>
+                            {line.title}
+                            {line.quantity > 1 && ` × ${line.quantity}`}: {line.amount < 0 ? "-" : ""}£
+                            {Math.abs(line.amount).toFixed(2)}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      selectedRequest.areaSurcharge &&
+                      !selectedRequest.quotedPrice && (
+                        <p className="text-xs text-muted-foreground">
+                          Includes £{selectedRequest.areaSurcharge} area surcharge
+                        </p>
+                      )
+                    )}
                   </div>
                 <div className="text-right text-sm text-muted-foreground">
                     Submitted {format(parseISO(selectedRequest.createdAt), "MMM d, yyyy 'at' HH:mm")}
@@ -1177,13 +1232,20 @@ export default function BookingRequestsPage() {
               <Button variant="outline" onClick={() => setConvertOpen(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleConvert} disabled={converting || !planId}>
+              <Button onClick={() => handleConvert()} disabled={converting || !planId}>
                 {converting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Create Job
               </Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <ConflictOverrideDialog
+          conflicts={pendingConflicts}
+          onOpenChange={(isOpen) => !isOpen && setPendingConflicts(null)}
+          onConfirm={(reason) => handleConvert(reason)}
+          submitting={converting}
+        />
       </main>
     </div>
   )
@@ -12,6 +12,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import {
   Dialog,
   DialogContent,
@@ -62,6 +63,7 @@ import {
   Loader2,
   X,
   Mail,
+  PenLine,
 } from "lucide-react"
 import { toast } from "sonner"
 import jsPDF from "jspdf"
@@ -96,14 +98,45 @@ interface Customer {
   createdAt: string
   signedAt?: string | null
   cancelledAt?: string | null
+  signatures?: ContractSignature[]
     // New fields
     scheduleDays?: ScheduleDay[] | null
     hoursPerWeek?: string | null
     hourlyRate?: string | null
     annualValue?: string | null
     employeeIds?: number[] | null
+    // Lifecycle
+    billingBasis?: string
+    nextInvoiceDate?: string | null
+    renewalNoticeDays?: number
+    renewalTermMonths?: number | null
+    renewalUpliftPercent?: string
+    renewalNoticeSentAt?: string | null
+    noticePeriodDays?: number
+    terminationDate?: string | null
+    terminationReason?: string | null
   }
 
+interface ContractHistoryEntry {
+  id: number
+  event: string
+  fromStatus: string | null
+  toStatus: string | null
+  description: string
+  createdAt: string
+  user?: { firstName: string; lastName: string } | null
+}
+
+interface ContractSignature {
+  id: number
+  signerName: string | null
+  signerEmail: string | null
+  signingMethod: string | null
+  ipAddress: string | null
+  signedAt: string | null
+  signedDocumentHash: string | null
+}
+
 interface ScheduleDay {
   day: string
   startTime: string
@@ -194,6 +227,15 @@ export default function ContractsPage() {
   const [isGenerating, setIsGenerating] = useState(false)
   const [employees, setEmployees] = useState<Employee[]>([])
   const [taskInputs, setTaskInputs] = useState<Record<string, string>>({})
+  const [history, setHistory] = useState<ContractHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [terminateDialogOpen, setTerminateDialogOpen] = useState(false)
+  const [isTerminating, setIsTerminating] = useState(false)
+  const [terminateForm, setTerminateForm] = useState({
+    reason: "",
+    terminationDate: "",
+    waiveNoticePeriod: false,
+  })
 
   // Form state for create/edit
   const [formData, setFormData] = useState({
@@ -214,6 +256,11 @@ export default function ContractsPage() {
     hourlyRate: "",
     annualValue: "",
     employeeIds: [] as string[],
+    billingBasis: "fixed",
+    renewalNoticeDays: "30",
+    renewalTermMonths: "",
+    renewalUpliftPercent: "0",
+    noticePeriodDays: "30",
   })
 
   // Generate jobs form state
@@ -308,10 +355,23 @@ export default function ContractsPage() {
         hourlyRate: "",
         annualValue: "",
         employeeIds: [],
+        billingBasis: "fixed",
+        renewalNoticeDays: "30",
+        renewalTermMonths: "",
+        renewalUpliftPercent: "0",
+        noticePeriodDays: "30",
       })
       setTaskInputs({})
     }
 
+  const lifecyclePayload = () => ({
+    billingBasis: formData.billingBasis,
+    renewalNoticeDays: parseInt(formData.renewalNoticeDays) || 0,
+    renewalTermMonths: formData.renewalTermMonths ? parseInt(formData.renewalTermMonths) : null,
+    renewalUpliftPercent: parseFloat(formData.renewalUpliftPercent) || 0,
+    noticePeriodDays: parseInt(formData.noticePeriodDays) || 0,
+  })
+
   const handleCreate = async () => {
     if (!formData.customerId || !formData.title || !formData.frequency || !formData.startDate || !formData.endDate || !formData.amount) {
       toast.error("Please fill in all required fields")
@@ -350,10 +410,14 @@ export default function ContractsPage() {
             hourlyRate: formData.hourlyRate ? parseFloat(formData.hourlyRate) : null,
             annualValue: formData.annualValue ? parseFloat(formData.annualValue) : null,
             employeeIds: formData.employeeIds,
+            ...lifecyclePayload(),
           }),
         })
 
-      if (!response.ok) throw new Error("Failed to create contract")
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to create contract")
+      }
       
       const newContract = await response.json()
       toast.success("Contract created successfully")
@@ -365,7 +429,7 @@ export default function ContractsPage() {
       await sendContractNotification(newContract.id, "new")
     } catch (error) {
       console.error("Error creating contract:", error)
-      toast.error("Failed to create contract")
+      toast.error(error instanceof Error ? error.message : "Failed to create contract")
     } finally {
       setIsSaving(false)
     }
@@ -405,10 +469,14 @@ export default function ContractsPage() {
             hourlyRate: formData.hourlyRate ? parseFloat(formData.hourlyRate) : null,
             annualValue: formData.annualValue ? parseFloat(formData.annualValue) : null,
             employeeIds: formData.employeeIds,
+            ...lifecyclePayload(),
           }),
         })
 
-      if (!response.ok) throw new Error("Failed to update contract")
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to update contract")
+      }
       
       toast.success("Contract updated successfully")
       setEditDialogOpen(false)
@@ -418,7 +486,7 @@ export default function ContractsPage() {
       await sendContractNotification(selectedContract.id, "update")
     } catch (error) {
       console.error("Error updating contract:", error)
-      toast.error("Failed to update contract")
+      toast.error(error instanceof Error ? error.message : "Failed to update contract")
     } finally {
       setIsSaving(false)
     }
@@ -460,7 +528,7 @@ export default function ContractsPage() {
   const handleSendContract = async (contractId: number) => {
     const result = await sendContractNotification(contractId, "update")
     if (result?.success) {
-      toast.success("Contract sent to customer")
+      toast.success(result.signingUrl ? "Contract sent to customer for signing" : "Contract sent to customer")
     } else if (result?.warning) {
       toast.warning(result.warning)
     } else {
@@ -509,9 +577,69 @@ export default function ContractsPage() {
     }
   }
 
+  const fetchHistory = async (contractId: number) => {
+    setHistoryLoading(true)
+    try {
+      const response = await fetch(`/api/contracts/${contractId}/history`)
+      if (!response.ok) throw new Error("Failed to fetch contract history")
+      setHistory(await response.json())
+    } catch (error) {
+      console.error("Error fetching contract history:", error)
+      setHistory([])
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
   const handleViewContract = (contract: Contract) => {
     setSelectedContract(contract)
     setViewDialogOpen(true)
+    fetchHistory(contract.id)
+  }
+
+  const handleTerminateClick = (contract: Contract) => {
+    setSelectedContract(contract)
+    setTerminateForm({ reason: "", terminationDate: "", waiveNoticePeriod: false })
+    setTerminateDialogOpen(true)
+  }
+
+  const handleTerminate = async () => {
+    if (!selectedContract) return
+    if (!terminateForm.reason.trim()) {
+      toast.error("Please give a reason for the termination")
+      return
+    }
+
+    setIsTerminating(true)
+    try {
+      const response = await fetch(`/api/contracts/${selectedContract.id}/terminate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reason: terminateForm.reason,
+          terminationDate: terminateForm.terminationDate || null,
+          waiveNoticePeriod: terminateForm.waiveNoticePeriod,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to terminate contract")
+      }
+
+      toast.success(
+        `Contract ends on ${formatDate(data.contract.terminationDate)}` +
+          (data.cancelledJobs ? `; ${data.cancelledJobs} later visit${data.cancelledJobs === 1 ? "" : "s"} cancelled` : ""),
+      )
+      setTerminateDialogOpen(false)
+      setSelectedContract(data.contract)
+      fetchContracts()
+      if (viewDialogOpen) fetchHistory(selectedContract.id)
+    } catch (error) {
+      console.error("Error terminating contract:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to terminate contract")
+    } finally {
+      setIsTerminating(false)
+    }
   }
 
   const handleEditContract = (contract: Contract) => {
@@ -555,6 +683,11 @@ export default function ContractsPage() {
         hourlyRate: contract.hourlyRate || "",
         annualValue: contract.annualValue || "",
         employeeIds: (contract.employeeIds || []).map((id) => id.toString()),
+        billingBasis: contract.billingBasis || "fixed",
+        renewalNoticeDays: String(contract.renewalNoticeDays ?? 30),
+        renewalTermMonths: contract.renewalTermMonths ? String(contract.renewalTermMonths) : "",
+        renewalUpliftPercent: contract.renewalUpliftPercent ?? "0",
+        noticePeriodDays: String(contract.noticePeriodDays ?? 30),
       })
     setEditDialogOpen(true)
   }
@@ -727,6 +860,78 @@ export default function ContractsPage() {
     })
   }
 
+  // Renewal and billing settings, shared by the create and edit dialogs
+  const lifecycleFields = (
+    <div className="space-y-4 rounded-lg border p-4">
+      <Label className="text-base">Renewal & Billing</Label>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Invoice</Label>
+          <Select value={formData.billingBasis} onValueChange={(v) => setFormData({ ...formData, billingBasis: v })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fixed">Amount each billing period</SelectItem>
+              <SelectItem value="visits">Completed visits × hourly rate</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {formData.billingBasis === "visits"
+              ? "Invoiced after each billing period for the visits completed in it"
+              : "Invoiced at the start of each billing period"}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Notice Period (days)</Label>
+          <Input
+            type="number"
+            min="0"
+            value={formData.noticePeriodDays}
+            onChange={(e) => setFormData({ ...formData, noticePeriodDays: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Renewal Notice (days)</Label>
+          <Input
+            type="number"
+            min="0"
+            value={formData.renewalNoticeDays}
+            onChange={(e) => setFormData({ ...formData, renewalNoticeDays: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Renewal Term (months)</Label>
+          <Input
+            type="number"
+            min="1"
+            value={formData.renewalTermMonths}
+            onChange={(e) => setFormData({ ...formData, renewalTermMonths: e.target.value })}
+            placeholder="Same as first term"
+            disabled={!formData.autoRenew}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Price Uplift (%)</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            value={formData.renewalUpliftPercent}
+            onChange={(e) => setFormData({ ...formData, renewalUpliftPercent: e.target.value })}
+            disabled={!formData.autoRenew}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The customer is emailed the set number of days before the end date (0 to turn this off).
+        {formData.autoRenew && " On renewal the uplift is applied to the amount, hourly rate and annual value."}
+      </p>
+    </div>
+  )
+
   // Calculate stats
   const activeContracts = contracts.filter((c) => getContractStatus(c) === "active" || getContractStatus(c) === "expiring")
   const totalMonthlyValue = activeContracts.reduce((sum, c) => sum + parseFloat(c.amount || "0"), 0)
@@ -1027,7 +1232,7 @@ export default function ContractsPage() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Hourly Rate (£) - for employee pay</Label>
+                  <Label>Hourly Rate (£)</Label>
                   <Input
                     type="number"
                     step="0.01"
@@ -1056,6 +1261,8 @@ export default function ContractsPage() {
                 <Label>Auto-renew contract</Label>
               </div>
 
+              {lifecycleFields}
+
               <div className="space-y-2">
                 <Label>Terms & Conditions</Label>
                 <Textarea
@@ -1280,6 +1487,11 @@ export default function ContractsPage() {
                                         <CalendarPlus className="h-4 w-4 mr-2" /> Generate Jobs
                                       </DropdownMenuItem>
                                     )}
+                                    {contract.status === "active" && !contract.terminationDate && (
+                                      <DropdownMenuItem onClick={() => handleTerminateClick(contract)}>
+                                        <X className="h-4 w-4 mr-2" /> Give Notice
+                                      </DropdownMenuItem>
+                                    )}
                                     <DropdownMenuSeparator />
                                     <DropdownMenuItem
                                       onClick={() => handleDeleteClick(contract.id)}
@@ -1393,6 +1605,11 @@ export default function ContractsPage() {
                                       <CalendarPlus className="h-4 w-4 mr-2" /> Generate Jobs
                                     </DropdownMenuItem>
                                   )}
+                                  {contract.status === "active" && !contract.terminationDate && (
+                                    <DropdownMenuItem onClick={() => handleTerminateClick(contract)}>
+                                      <X className="h-4 w-4 mr-2" /> Give Notice
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem
                                     onClick={() => handleDeleteClick(contract.id)}
@@ -1483,6 +1700,95 @@ export default function ContractsPage() {
                 </div>
               </div>
 
+              {selectedContract.signatures?.[0] && (
+                <div className="rounded-lg border p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <Label className="text-muted-foreground flex items-center gap-1">
+                        <PenLine className="h-3 w-3" /> E-signature
+                      </Label>
+                      <p className="font-medium">
+                        Signed by {selectedContract.signatures[0].signerName}
+                        {selectedContract.signatures[0].signedAt &&
+                          ` on ${new Date(selectedContract.signatures[0].signedAt).toLocaleString("en-GB")}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {selectedContract.signatures[0].signingMethod === "portal" ? "Customer portal" : "Signing link"}
+                        {selectedContract.signatures[0].signerEmail && ` · ${selectedContract.signatures[0].signerEmail}`}
+                        {selectedContract.signatures[0].ipAddress && ` · IP ${selectedContract.signatures[0].ipAddress}`}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/signatures/${selectedContract.signatures[0].id}/document`} target="_blank" rel="noreferrer">
+                        <Download className="h-4 w-4 mr-2" /> Signed PDF
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-muted-foreground">Next Invoice</Label>
+                  <p className="font-medium">
+                    {selectedContract.nextInvoiceDate ? formatDate(selectedContract.nextInvoiceDate) : "None scheduled"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedContract.billingBasis === "visits" ? "Visits × hourly rate" : "Fixed amount"}
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Notice Period</Label>
+                  <p className="font-medium">{selectedContract.noticePeriodDays ?? 30} days</p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Renewal</Label>
+                  <p className="font-medium">
+                    {selectedContract.autoRenew
+                      ? parseFloat(selectedContract.renewalUpliftPercent || "0") > 0
+                        ? `+${parseFloat(selectedContract.renewalUpliftPercent || "0")}% uplift`
+                        : "No uplift"
+                      : "Ends at end date"}
+                  </p>
+                  {selectedContract.renewalNoticeSentAt && (
+                    <p className="text-xs text-muted-foreground">Notice sent {formatDate(selectedContract.renewalNoticeSentAt)}</p>
+                  )}
+                </div>
+              </div>
+
+              {selectedContract.terminationDate && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Notice given: this contract ends on {formatDate(selectedContract.terminationDate)}
+                    {selectedContract.terminationReason && ` (${selectedContract.terminationReason})`}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <Label className="text-muted-foreground flex items-center gap-1">
+                  <Clock className="h-3 w-3" /> History
+                </Label>
+                {historyLoading ? (
+                  <Skeleton className="h-16 w-full mt-2" />
+                ) : history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground mt-1">No history recorded yet</p>
+                ) : (
+                  <div className="mt-2 max-h-48 overflow-y-auto space-y-2">
+                    {history.map((entry) => (
+                      <div key={entry.id} className="text-sm border-l-2 pl-3">
+                        <p>{entry.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(entry.createdAt).toLocaleString("en-GB")}
+                          {entry.user ? ` · ${entry.user.firstName} ${entry.user.lastName}` : " · Automatic"}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {selectedContract.terms && (
                 <div>
                   <Label className="text-muted-foreground">Terms & Conditions</Label>
@@ -1502,6 +1808,11 @@ export default function ContractsPage() {
             <Button variant="outline" onClick={() => handleExportPDF(selectedContract!)}>
               <Download className="h-4 w-4 mr-2" /> Download PDF
             </Button>
+            {selectedContract?.status === "active" && !selectedContract.terminationDate && (
+              <Button variant="outline" onClick={() => handleTerminateClick(selectedContract)}>
+                <X className="h-4 w-4 mr-2" /> Give Notice
+              </Button>
+            )}
             <Button
               className="bg-green-600 text-white hover:bg-green-700"
               onClick={() => handleSendContract(selectedContract!.id)}
@@ -1758,6 +2069,21 @@ export default function ContractsPage() {
               <Label>Auto-renew contract</Label>
             </div>
 
+            {lifecycleFields}
+
+            {formData.billingBasis === "visits" && (
+              <div className="space-y-2">
+                <Label>Hourly Rate (£)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.hourlyRate}
+                  onChange={(e) => setFormData({ ...formData, hourlyRate: e.target.value })}
+                  placeholder="e.g., 12.50"
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Terms & Conditions</Label>
               <Textarea
@@ -1786,6 +2112,58 @@ export default function ContractsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Give Notice Dialog */}
+      <Dialog open={terminateDialogOpen} onOpenChange={setTerminateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Give Notice</DialogTitle>
+            <DialogDescription>
+              {selectedContract?.contractNumber}: the contract ends after its {selectedContract?.noticePeriodDays ?? 30}-day
+              notice period, or on a later date you choose. It won&apos;t renew, and scheduled visits after the last day
+              are cancelled.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Textarea
+                value={terminateForm.reason}
+                onChange={(e) => setTerminateForm({ ...terminateForm, reason: e.target.value })}
+                placeholder="e.g., Customer is moving out"
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Last Day of Service</Label>
+              <Input
+                type="date"
+                min={todayDate}
+                value={terminateForm.terminationDate}
+                onChange={(e) => setTerminateForm({ ...terminateForm, terminationDate: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to end at the end of the notice period</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="waive-notice"
+                checked={terminateForm.waiveNoticePeriod}
+                onCheckedChange={(checked) => setTerminateForm({ ...terminateForm, waiveNoticePeriod: checked === true })}
+              />
+              <Label htmlFor="waive-notice" className="font-normal">
+                Waive the notice period (agreed with the customer)
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTerminateDialogOpen(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleTerminate} disabled={isTerminating}>
+              {isTerminating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Give Notice
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
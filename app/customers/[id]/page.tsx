@@ -16,6 +16,7 @@ import {
 import Link from "next/link"
 import { format } from "date-fns"
 import { JobCornerActions } from "@/components/jobs/job-corner-actions"
+import { CustomerMergePanel } from "@/components/customers/customer-merge-panel"
 
 type CustomerAddress = {
   id: number
@@ -248,6 +249,13 @@ export default function CustomerDetailPage() {
             </Card>
           )}
 
+          <CustomerMergePanel
+            customerId={customer.id}
+            customerName={customer.name}
+            status={customer.status}
+            onChanged={loadCustomerData}
+          />
+
           <Card><CardHeader><CardTitle className="text-base">Quick Actions</CardTitle></CardHeader>
             <CardContent className="space-y-2">
               <Link href={`/jobs/new?customerId=${customer.id}`} className="block"><Button variant="outline" className="w-full justify-start"><Calendar className="h-4 w-4 mr-2" />Schedule Job</Button></Link>
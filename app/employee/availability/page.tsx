@@ -0,0 +1,30 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AvailabilityEditor } from "@/components/employees/availability-editor"
+
+export default function EmployeeAvailabilityPage() {
+  return (
+    <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold tracking-tight">Availability</h1>
+        <p className="text-sm text-muted-foreground">
+          Let your manager know when you can be booked for jobs
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Working Hours</CardTitle>
+          <CardDescription>
+            Set your usual hours for each day, and add specific dates when they change
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AvailabilityEditor endpoint="/api/employee/availability" />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -22,10 +22,13 @@ import {
   ChevronRight,
   Wallet,
   PiggyBank,
-  BarChart3
+  BarChart3,
+  FileText,
+  Download
 } from "lucide-react"
 import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from "date-fns"
 import { cn } from "@/lib/utils"
+import { downloadPayslipPDF } from "@/lib/pdf-generator"
 import Link from "next/link"
 
 type Job = {
@@ -57,6 +60,18 @@ type Payout = {
   createdAt: string
 }
 
+type PayslipSummary = {
+  id: number
+  periodStart: string
+  periodEnd: string
+  status: string
+  paidAt: string | null
+  currency: string
+  grossPay: string
+  deductions: string
+  netPay: string
+}
+
 type FinanceData = {
   employee: {
     id: number
@@ -88,6 +103,7 @@ type FinanceData = {
   paidJobs: Job[]
   outstandingJobs: Job[]
   recentPayouts: Payout[]
+  payslips: PayslipSummary[]
 }
 
 const periodPresets = [
@@ -164,6 +180,16 @@ export default function EmployeeFinancesPage() {
     return `${symbol}${amount.toFixed(2)}`
   }
 
+  const handleDownloadPayslip = async (payslipId: number) => {
+    try {
+      const response = await fetch(`/api/employee/payslips/${payslipId}`)
+      if (!response.ok) throw new Error("Failed to load payslip")
+      downloadPayslipPDF(await response.json())
+    } catch (error) {
+      console.error("Error downloading payslip:", error)
+    }
+  }
+
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return "-"
     return format(new Date(dateStr), "dd MMM yyyy")
@@ -377,7 +403,7 @@ export default function EmployeeFinancesPage() {
 
       {/* Tabs for Jobs and Payments */}
       <Tabs defaultValue="outstanding" className="mb-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="outstanding" className="text-xs">
             Outstanding
             {(data?.outstandingJobs?.length || 0) > 0 && (
@@ -388,6 +414,7 @@ export default function EmployeeFinancesPage() {
           </TabsTrigger>
           <TabsTrigger value="completed" className="text-xs">Completed</TabsTrigger>
           <TabsTrigger value="payments" className="text-xs">Payments</TabsTrigger>
+          <TabsTrigger value="payslips" className="text-xs">Payslips</TabsTrigger>
         </TabsList>
 
         <TabsContent value="outstanding" className="mt-4 space-y-3">
@@ -528,6 +555,45 @@ export default function EmployeeFinancesPage() {
             ))
           )}
         </TabsContent>
+
+        <TabsContent value="payslips" className="mt-4 space-y-3">
+          {!data?.payslips?.length ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                <p className="font-medium">No payslips yet</p>
+                <p className="text-sm">Payslips appear here once a payroll run is approved</p>
+              </CardContent>
+            </Card>
+          ) : (
+            data.payslips.map(payslip => (
+              <Card key={payslip.id}>
+                <CardContent className="p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="font-medium">{formatCurrency(parseFloat(payslip.netPay), payslip.currency)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Gross {formatCurrency(parseFloat(payslip.grossPay), payslip.currency)}
+                        {parseFloat(payslip.deductions) > 0 &&
+                          ` · Deductions ${formatCurrency(parseFloat(payslip.deductions), payslip.currency)}`}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleDownloadPayslip(payslip.id)}>
+                      <Download className="h-4 w-4 mr-1" />
+                      PDF
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {formatDate(payslip.periodStart)} - {formatDate(payslip.periodEnd)}
+                    </span>
+                    <span>{payslip.paidAt ? `Paid: ${formatDate(payslip.paidAt)}` : "Awaiting payment"}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
       </Tabs>
 
       {/* Upcoming Scheduled Jobs */}
@@ -20,8 +20,10 @@ import {
 } from "@/components/ui/dialog"
 import { 
   User, Mail, Phone, MapPin, Briefcase, Clock, CheckCircle, 
-  Calendar, AlertCircle, Languages, Award, DollarSign, Pencil, Plus, X, Loader2, CircleDot, KeyRound
+  Calendar, AlertCircle, Languages, Award, DollarSign, Pencil, Plus, X, Loader2, KeyRound
 } from "lucide-react"
+import { SkillsEditor } from "@/components/employees/skills-editor"
+import { CertificationsEditor } from "@/components/employees/certifications-editor"
 
 type EmployeeProfile = {
   id: number
@@ -39,10 +41,7 @@ type EmployeeProfile = {
   employmentType: string | null
   startDate: string | null
   hourlyRate: string | null
-  skills: string | null
-  certifications: string | null
   languages: string | null
-  availability: string | null
   emergencyContactName: string | null
   emergencyContactPhone: string | null
   emergencyContactRelation: string | null
@@ -71,9 +70,8 @@ export default function EmployeeProfilePage() {
     thisWeekHours: 0,
   })
 
-  // Edit skills/certifications state
+  // Edit languages state
   const [editDialogOpen, setEditDialogOpen] = useState(false)
-  const [editType, setEditType] = useState<"skills" | "certifications" | "languages">("skills")
   const [editValues, setEditValues] = useState<string[]>([])
   const [newValue, setNewValue] = useState("")
   const [saving, setSaving] = useState(false)
@@ -119,9 +117,8 @@ export default function EmployeeProfilePage() {
     }
   }
 
-  const openEditDialog = (type: "skills" | "certifications" | "languages") => {
-    setEditType(type)
-    const currentValue = profile?.[type] || ""
+  const openEditDialog = () => {
+    const currentValue = profile?.languages || ""
     setEditValues(currentValue ? currentValue.split(",").map(v => v.trim()).filter(Boolean) : [])
     setNewValue("")
     setEditDialogOpen(true)
@@ -145,7 +142,7 @@ export default function EmployeeProfilePage() {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          [editType]: editValues.join(", "),
+          languages: editValues.join(", "),
         }),
       })
 
@@ -153,7 +150,7 @@ export default function EmployeeProfilePage() {
         // Update local profile
         setProfile(prev => prev ? {
           ...prev,
-          [editType]: editValues.join(", ")
+          languages: editValues.join(", ")
         } : null)
         setEditDialogOpen(false)
       } else {
@@ -168,30 +165,6 @@ export default function EmployeeProfilePage() {
     }
   }
 
-  const getEditTitle = () => {
-    switch (editType) {
-      case "skills": return "Edit Skills"
-      case "certifications": return "Edit Certifications"
-      case "languages": return "Edit Languages"
-    }
-  }
-
-  const getEditDescription = () => {
-    switch (editType) {
-      case "skills": return "Add or remove your professional skills"
-      case "certifications": return "Add or remove your certifications and qualifications"
-      case "languages": return "Add or remove languages you speak"
-    }
-  }
-
-  const getPlaceholder = () => {
-    switch (editType) {
-      case "skills": return "e.g., Deep cleaning, Window cleaning, Floor polishing"
-      case "certifications": return "e.g., First Aid, Health & Safety, COSHH"
-      case "languages": return "e.g., English, Spanish, French"
-    }
-  }
-
   const handlePasswordChange = async (e: FormEvent) => {
     e.preventDefault()
     setPasswordError(null)
@@ -429,15 +402,7 @@ export default function EmployeeProfilePage() {
               </div>
             )}
 
-            {profile.availability && (
-              <div className="flex items-center gap-3 text-sm">
-                <CircleDot className="h-4 w-4 text-muted-foreground" />
-                <span className="text-muted-foreground">Availability:</span>
-                <span className="font-medium">{profile.availability}</span>
-              </div>
-            )}
-
-            {!profile.employmentType && !profile.startDate && !profile.hourlyRate && !profile.availability && (
+            {!profile.employmentType && !profile.startDate && !profile.hourlyRate && (
               <p className="text-sm text-muted-foreground">No employment details recorded</p>
             )}
           </CardContent>
@@ -457,27 +422,8 @@ export default function EmployeeProfilePage() {
                   <Award className="h-4 w-4" />
                   <span>Skills</span>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-7 px-2"
-                  onClick={() => openEditDialog("skills")}
-                >
-                  <Pencil className="h-3 w-3 mr-1" />
-                  Edit
-                </Button>
               </div>
-              {profile.skills ? (
-                <div className="flex flex-wrap gap-2">
-                  {profile.skills.split(",").map((skill, index) => (
-                    <Badge key={index} variant="secondary" className="capitalize">
-                      {skill.trim()}
-                    </Badge>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-sm text-muted-foreground italic">No skills added yet</p>
-              )}
+              <SkillsEditor endpoint="/api/employee/skills" />
             </div>
 
             <Separator />
@@ -489,27 +435,8 @@ export default function EmployeeProfilePage() {
                   <Award className="h-4 w-4" />
                   <span>Certifications</span>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-7 px-2"
-                  onClick={() => openEditDialog("certifications")}
-                >
-                  <Pencil className="h-3 w-3 mr-1" />
-                  Edit
-                </Button>
               </div>
-              {profile.certifications ? (
-                <div className="flex flex-wrap gap-2">
-                  {profile.certifications.split(",").map((cert, index) => (
-                    <Badge key={index} variant="outline" className="capitalize">
-                      {cert.trim()}
-                    </Badge>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-sm text-muted-foreground italic">No certifications added yet</p>
-              )}
+              <CertificationsEditor endpoint="/api/employee/certifications" />
             </div>
 
             <Separator />
@@ -525,7 +452,7 @@ export default function EmployeeProfilePage() {
                   variant="ghost"
                   size="sm"
                   className="h-7 px-2"
-                  onClick={() => openEditDialog("languages")}
+                  onClick={openEditDialog}
                 >
                   <Pencil className="h-3 w-3 mr-1" />
                   Edit
@@ -673,14 +600,14 @@ export default function EmployeeProfilePage() {
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="max-w-[95vw] sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>{getEditTitle()}</DialogTitle>
-            <DialogDescription>{getEditDescription()}</DialogDescription>
+            <DialogTitle>Edit Languages</DialogTitle>
+            <DialogDescription>Add or remove languages you speak</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             {/* Add new value */}
             <div className="flex gap-2">
               <Input
-                placeholder={getPlaceholder()}
+                placeholder="e.g., English, Spanish, French"
                 value={newValue}
                 onChange={(e) => setNewValue(e.target.value)}
                 onKeyDown={(e) => {
@@ -699,7 +626,7 @@ export default function EmployeeProfilePage() {
             <div className="min-h-[100px] p-3 border rounded-lg bg-muted/30">
               {editValues.length === 0 ? (
                 <p className="text-sm text-muted-foreground text-center py-4">
-                  No {editType} added yet. Type above and press Enter to add.
+                  No languages added yet. Type above and press Enter to add.
                 </p>
               ) : (
                 <div className="flex flex-wrap gap-2">
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { format, differenceInCalendarDays, addDays } from "date-fns"
+import { format, differenceInCalendarDays, addDays, parseISO } from "date-fns"
 import {
   Calendar,
   Clock,
@@ -17,6 +17,7 @@ import {
   BanknoteIcon,
   MoreHorizontal,
   Trash2,
+  Palmtree,
 } from "lucide-react"
 import {
   Card,
@@ -78,6 +79,22 @@ interface Summary {
   daysUsedThisYear: number
 }
 
+interface LeaveBalance {
+  method: "allowance" | "accrual"
+  leaveYear: { start: string; end: string }
+  entitlement: number
+  carriedOver: number
+  carryOverExpiresOn: string | null
+  carryOverLapsed: number
+  adjustments: number
+  bankHolidays: number
+  taken: number
+  booked: number
+  pending: number
+  remaining: number
+  available: number
+}
+
 const typeConfig = {
   vacation: {
     label: "Vacation",
@@ -137,6 +154,7 @@ export default function TimeOffPage() {
     deniedCount: 0,
     daysUsedThisYear: 0,
   })
+  const [balance, setBalance] = useState<LeaveBalance | null>(null)
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [dialogOpen, setDialogOpen] = useState(false)
@@ -160,6 +178,7 @@ export default function TimeOffPage() {
         const data = await res.json()
         setRequests(data.requests)
         setSummary(data.summary)
+        setBalance(data.balance || null)
       }
     } catch (error) {
       console.error("Error fetching time-off requests:", error)
@@ -352,6 +371,13 @@ export default function TimeOffPage() {
                         <strong>{daysToRequest}</strong> working day{daysToRequest > 1 ? "s" : ""} requested
                       </span>
                     </div>
+                    <p className="mt-1 text-xs text-muted-foreground">Bank holidays aren&apos;t counted.</p>
+                    {formData.type === "vacation" && balance && daysToRequest > balance.available && (
+                      <p className="mt-1 text-xs text-destructive">
+                        This is more than the {balance.available} day{balance.available === 1 ? "" : "s"} of holiday you
+                        have left.
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -386,6 +412,57 @@ export default function TimeOffPage() {
         </Dialog>
       </div>
 
+      {/* Holiday balance */}
+      {balance && (
+        <Card>
+          <CardHeader className="p-4 sm:p-6 pb-2 sm:pb-4">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <Palmtree className="h-4 w-4 text-green-600" />
+              Holiday Balance
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Leave year {format(parseISO(balance.leaveYear.start), "d MMM yyyy")} to{" "}
+              {format(parseISO(balance.leaveYear.end), "d MMM yyyy")}
+              {balance.method === "accrual" && " · earned from the hours you work"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 pt-0">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <div>
+                <div className={`text-xl sm:text-2xl font-bold ${balance.remaining < 0 ? "text-destructive" : ""}`}>
+                  {balance.remaining}
+                </div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">Days remaining</p>
+              </div>
+              <div>
+                <div className="text-xl sm:text-2xl font-bold">{balance.available}</div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">After pending requests</p>
+              </div>
+              <div>
+                <div className="text-xl sm:text-2xl font-bold">
+                  {Math.round((balance.entitlement + balance.carriedOver - balance.carryOverLapsed + balance.adjustments) * 10) / 10}
+                </div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  {balance.method === "accrual" ? "Accrued so far" : "Entitlement"}
+                  {balance.carriedOver > 0 && ` (incl. ${balance.carriedOver} carried over)`}
+                </p>
+              </div>
+              <div>
+                <div className="text-xl sm:text-2xl font-bold">{balance.taken + balance.booked}</div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  Taken or booked{balance.bankHolidays > 0 && ` + ${balance.bankHolidays} bank holidays`}
+                </p>
+              </div>
+            </div>
+            {balance.carryOverExpiresOn && balance.carriedOver > 0 && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Carried-over days must be used by {format(parseISO(balance.carryOverExpiresOn), "d MMM yyyy")}.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Cards - 2x2 grid on mobile */}
       <div className="grid grid-cols-2 gap-3 sm:gap-4 sm:grid-cols-4">
         <Card className="p-0">
@@ -0,0 +1,669 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { addDays, differenceInMinutes, format, parseISO } from "date-fns"
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Coffee,
+  Loader2,
+  LogIn,
+  LogOut,
+  MapPin,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react"
+import { toast } from "sonner"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface WorkSessionBreak {
+  id: number
+  startedAt: string
+  endedAt: string | null
+}
+
+interface WorkSessionEdit {
+  id: number
+  editorName: string | null
+  editedByEmployeeId: number | null
+  reason: string | null
+  createdAt: string
+}
+
+interface TimesheetSession {
+  id: number
+  startedAt: string
+  endedAt: string | null
+  durationMinutes: number | null
+  breakMinutes: number
+  notes: string | null
+  checkInId: number | null
+  job: { id: number; title: string | null } | null
+  shift: { id: number; title: string | null; startTime: string; endTime: string } | null
+  breaks: WorkSessionBreak[]
+  edits: WorkSessionEdit[]
+  flags: string[]
+}
+
+interface TimesheetDay {
+  date: string
+  scheduledMinutes: number
+  jobMinutes: number
+  workedMinutes: number
+  breakMinutes: number
+  varianceMinutes: number
+}
+
+interface TimesheetData {
+  timesheet: {
+    id: number
+    weekStart: string
+    status: "open" | "submitted" | "returned" | "approved"
+    employeeNotes: string | null
+    submittedAt: string | null
+    reviewedAt: string | null
+    reviewComments: string | null
+  }
+  week: { start: string; end: string }
+  sessions: TimesheetSession[]
+  days: TimesheetDay[]
+  totals: {
+    workedMinutes: number
+    breakMinutes: number
+    scheduledMinutes: number
+    varianceMinutes: number
+    openSessions: number
+  }
+  flags: string[]
+}
+
+interface ClockStatus {
+  session: { id: number; startedAt: string; jobId: number | null } | null
+  openBreak: { id: number; startedAt: string } | null
+  job: { id: number; title: string } | null
+}
+
+interface TodayJob {
+  id: number
+  title: string
+}
+
+const statusConfig = {
+  open: { label: "Open", color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  submitted: { label: "Submitted", color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  returned: { label: "Returned", color: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400" },
+  approved: { label: "Approved", color: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+}
+
+const formatMinutes = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : ""
+  const abs = Math.abs(minutes)
+  return `${sign}${Math.floor(abs / 60)}h ${String(abs % 60).padStart(2, "0")}m`
+}
+
+const toLocalInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "")
+
+// Best-effort GPS fix; clocking works without one
+const getPosition = () =>
+  new Promise<{ latitude: number; longitude: number } | null>((resolve) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      resolve(null)
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  })
+
+export default function EmployeeTimePage() {
+  const [week, setWeek] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [data, setData] = useState<TimesheetData | null>(null)
+  const [clock, setClock] = useState<ClockStatus | null>(null)
+  const [todayJobs, setTodayJobs] = useState<TodayJob[]>([])
+  const [clockJobId, setClockJobId] = useState("none")
+  const [loading, setLoading] = useState(true)
+  const [acting, setActing] = useState(false)
+  const [now, setNow] = useState(new Date())
+
+  const [editing, setEditing] = useState<TimesheetSession | "new" | null>(null)
+  const [editForm, setEditForm] = useState({ startedAt: "", endedAt: "", breakMinutes: "0", notes: "", reason: "" })
+  const [saving, setSaving] = useState(false)
+
+  const [submitOpen, setSubmitOpen] = useState(false)
+  const [submitNotes, setSubmitNotes] = useState("")
+
+  const fetchTime = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/employee/time?week=${week}`)
+      if (res.ok) {
+        const payload = await res.json()
+        setClock(payload.clock)
+        setData(payload)
+      }
+    } catch (error) {
+      console.error("Error fetching timesheet:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [week])
+
+  useEffect(() => {
+    fetchTime()
+  }, [fetchTime])
+
+  useEffect(() => {
+    const loadTodayJobs = async () => {
+      try {
+        const res = await fetch("/api/employee/jobs?filter=today")
+        const jobs = res.ok ? await res.json() : []
+        setTodayJobs(Array.isArray(jobs) ? jobs.map((job: TodayJob) => ({ id: job.id, title: job.title })) : [])
+      } catch (error) {
+        console.error("Error fetching today's jobs:", error)
+      }
+    }
+    loadTodayJobs()
+  }, [])
+
+  // Keep the running clock ticking
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const handleClock = async (action: "clock_in" | "clock_out" | "start_break" | "end_break") => {
+    setActing(true)
+    try {
+      const position = action === "clock_in" || action === "clock_out" ? await getPosition() : null
+      const res = await fetch("/api/employee/time", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          jobId: action === "clock_in" && clockJobId !== "none" ? Number(clockJobId) : undefined,
+          ...(position ?? {}),
+        }),
+      })
+      if (res.ok) {
+        const labels = {
+          clock_in: "Clocked in",
+          clock_out: "Clocked out",
+          start_break: "Break started",
+          end_break: "Break ended",
+        }
+        toast.success(labels[action])
+        setClockJobId("none")
+        fetchTime()
+      } else {
+        const payload = await res.json()
+        toast.error(payload.error || "Failed to record time")
+      }
+    } catch (error) {
+      console.error("Error recording time:", error)
+      toast.error("Failed to record time")
+    } finally {
+      setActing(false)
+    }
+  }
+
+  const openEdit = (session: TimesheetSession | "new") => {
+    setEditing(session)
+    setEditForm(
+      session === "new"
+        ? { startedAt: "", endedAt: "", breakMinutes: "0", notes: "", reason: "" }
+        : {
+            startedAt: toLocalInput(session.startedAt),
+            endedAt: toLocalInput(session.endedAt),
+            breakMinutes: String(session.breakMinutes),
+            notes: session.notes || "",
+            reason: "",
+          }
+    )
+  }
+
+  const handleSaveSession = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    setSaving(true)
+    try {
+      const body = {
+        startedAt: editForm.startedAt ? new Date(editForm.startedAt).toISOString() : undefined,
+        endedAt: editForm.endedAt ? new Date(editForm.endedAt).toISOString() : undefined,
+        breakMinutes: Number(editForm.breakMinutes) || 0,
+        notes: editForm.notes,
+        reason: editForm.reason,
+      }
+      const res = await fetch(
+        editing === "new" ? "/api/employee/time/sessions" : `/api/employee/time/sessions/${editing.id}`,
+        {
+          method: editing === "new" ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      )
+      if (res.ok) {
+        toast.success(editing === "new" ? "Time added" : "Time updated")
+        setEditing(null)
+        fetchTime()
+      } else {
+        const payload = await res.json()
+        toast.error(payload.error || "Failed to save time")
+      }
+    } catch (error) {
+      console.error("Error saving time:", error)
+      toast.error("Failed to save time")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteSession = async (session: TimesheetSession) => {
+    if (!confirm("Remove this time entry from your timesheet?")) return
+    try {
+      const res = await fetch(`/api/employee/time/sessions/${session.id}`, { method: "DELETE" })
+      if (res.ok) {
+        fetchTime()
+      } else {
+        const payload = await res.json()
+        toast.error(payload.error || "Failed to delete time")
+      }
+    } catch (error) {
+      console.error("Error deleting time:", error)
+    }
+  }
+
+  const handleSubmitTimesheet = async () => {
+    if (!data) return
+    setActing(true)
+    try {
+      const res = await fetch(`/api/employee/timesheets/${data.timesheet.id}/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: submitNotes }),
+      })
+      if (res.ok) {
+        toast.success("Timesheet submitted for approval")
+        setSubmitOpen(false)
+        setSubmitNotes("")
+        fetchTime()
+      } else {
+        const payload = await res.json()
+        toast.error(payload.error || "Failed to submit timesheet")
+      }
+    } catch (error) {
+      console.error("Error submitting timesheet:", error)
+      toast.error("Failed to submit timesheet")
+    } finally {
+      setActing(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const status = data?.timesheet.status ?? "open"
+  const editable = status === "open" || status === "returned"
+  const clockedIn = !!clock?.session
+  const onBreak = !!clock?.openBreak
+  const runningMinutes = clock?.session ? differenceInMinutes(now, new Date(clock.session.startedAt)) : 0
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold tracking-tight">Timesheet</h1>
+          <p className="text-sm text-muted-foreground">
+            Clock in and out, record breaks and submit your week for approval
+          </p>
+        </div>
+      </div>
+
+      {/* Clock */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base sm:text-lg">
+            {clockedIn ? (onBreak ? "On break" : "Clocked in") : "Not clocked in"}
+          </CardTitle>
+          <CardDescription>
+            {clock?.session
+              ? `Since ${format(new Date(clock.session.startedAt), "HH:mm")} (${formatMinutes(runningMinutes)})${
+                  clock.job ? ` on ${clock.job.title}` : ""
+                }`
+              : "Your location is recorded when you clock in and out, if you allow it"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          {!clockedIn ? (
+            <>
+              {todayJobs.length > 0 && (
+                <Select value={clockJobId} onValueChange={setClockJobId}>
+                  <SelectTrigger className="w-full sm:w-[260px]">
+                    <SelectValue placeholder="No job" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No job</SelectItem>
+                    {todayJobs.map((job) => (
+                      <SelectItem key={job.id} value={String(job.id)}>
+                        {job.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button onClick={() => handleClock("clock_in")} disabled={acting} className="w-full sm:w-auto">
+                {acting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                Clock In
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleClock(onBreak ? "end_break" : "start_break")}
+                disabled={acting}
+                className="w-full sm:w-auto"
+              >
+                <Coffee className="mr-2 h-4 w-4" />
+                {onBreak ? "End Break" : "Start Break"}
+              </Button>
+              <Button onClick={() => handleClock("clock_out")} disabled={acting} className="w-full sm:w-auto">
+                {acting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                Clock Out
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && (
+        <>
+          {/* Week */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeek(format(addDays(parseISO(data.week.start), -7), "yyyy-MM-dd"))}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <div className="text-sm font-medium">
+                {format(parseISO(data.week.start), "d MMM")} - {format(parseISO(data.week.end), "d MMM yyyy")}
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeek(format(addDays(parseISO(data.week.start), 7), "yyyy-MM-dd"))}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Badge className={statusConfig[status].color}>{statusConfig[status].label}</Badge>
+            </div>
+            {editable && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => openEdit("new")}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Time
+                </Button>
+                <Button size="sm" onClick={() => setSubmitOpen(true)} disabled={data.sessions.length === 0}>
+                  <Send className="mr-2 h-4 w-4" />
+                  Submit Week
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {status === "returned" && data.timesheet.reviewComments && (
+            <Card className="border-orange-200 bg-orange-50 dark:border-orange-900 dark:bg-orange-950/30">
+              <CardContent className="pt-6 text-sm">
+                <p className="font-medium">Returned by your manager</p>
+                <p className="text-muted-foreground mt-1">{data.timesheet.reviewComments}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Totals */}
+          <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Worked</CardDescription>
+                <CardTitle className="text-xl">{formatMinutes(data.totals.workedMinutes)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Breaks</CardDescription>
+                <CardTitle className="text-xl">{formatMinutes(data.totals.breakMinutes)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Scheduled</CardDescription>
+                <CardTitle className="text-xl">{formatMinutes(data.totals.scheduledMinutes)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Difference</CardDescription>
+                <CardTitle className="text-xl">{formatMinutes(data.totals.varianceMinutes)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          {/* Days */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base sm:text-lg">Days</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.days.map((day) => (
+                <div key={day.date} className="flex items-center justify-between text-sm border-b last:border-0 pb-2">
+                  <span className="font-medium">{format(parseISO(day.date), "EEE d MMM")}</span>
+                  <span className="text-muted-foreground">
+                    {formatMinutes(day.workedMinutes)} worked
+                    {(day.scheduledMinutes || day.jobMinutes) > 0 &&
+                      ` / ${formatMinutes(day.scheduledMinutes || day.jobMinutes)} scheduled`}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Sessions */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base sm:text-lg">Time Entries</CardTitle>
+              <CardDescription>
+                {editable ? "Correct anything that's wrong before you submit" : "This week is locked while it's with your manager"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No time recorded this week.</p>
+              ) : (
+                data.sessions.map((session) => (
+                  <div key={session.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="space-y-1">
+                        <p className="font-medium text-sm">
+                          {format(new Date(session.startedAt), "EEE d MMM, HH:mm")} -{" "}
+                          {session.endedAt ? format(new Date(session.endedAt), "HH:mm") : "now"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {session.durationMinutes !== null ? formatMinutes(session.durationMinutes) : "In progress"}
+                          {session.breakMinutes > 0 && ` · ${formatMinutes(session.breakMinutes)} break`}
+                          {session.job?.title && ` · ${session.job.title}`}
+                          {session.shift && ` · ${session.shift.title || "Shift"}`}
+                        </p>
+                        {session.checkInId && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            Linked to GPS check-in
+                          </p>
+                        )}
+                      </div>
+                      {editable && session.endedAt && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => openEdit(session)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteSession(session)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {session.flags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {session.flags.map((flag) => (
+                          <Badge key={flag} variant="outline" className="text-xs">
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            {flag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Add / edit time */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-[95vw] sm:max-w-lg mx-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Time" : "Correct Time"}</DialogTitle>
+            <DialogDescription>Your manager sees every change and the reason you give.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveSession}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="startedAt">Start</Label>
+                  <Input
+                    id="startedAt"
+                    type="datetime-local"
+                    value={editForm.startedAt}
+                    onChange={(e) => setEditForm({ ...editForm, startedAt: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endedAt">End</Label>
+                  <Input
+                    id="endedAt"
+                    type="datetime-local"
+                    value={editForm.endedAt}
+                    onChange={(e) => setEditForm({ ...editForm, endedAt: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="breakMinutes">Break (minutes)</Label>
+                <Input
+                  id="breakMinutes"
+                  type="number"
+                  min="0"
+                  value={editForm.breakMinutes}
+                  onChange={(e) => setEditForm({ ...editForm, breakMinutes: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Input
+                  id="notes"
+                  value={editForm.notes}
+                  onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reason">Reason</Label>
+                <Textarea
+                  id="reason"
+                  placeholder="e.g. Forgot to clock out"
+                  value={editForm.reason}
+                  onChange={(e) => setEditForm({ ...editForm, reason: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Submit week */}
+      <Dialog open={submitOpen} onOpenChange={setSubmitOpen}>
+        <DialogContent className="max-w-[95vw] sm:max-w-lg mx-auto">
+          <DialogHeader>
+            <DialogTitle>Submit Timesheet</DialogTitle>
+            <DialogDescription>
+              {data && `${formatMinutes(data.totals.workedMinutes)} worked this week. You can't change it once it's submitted.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="submitNotes">Notes for your manager (optional)</Label>
+            <Textarea id="submitNotes" value={submitNotes} onChange={(e) => setSubmitNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSubmitOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitTimesheet} disabled={acting}>
+              {acting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
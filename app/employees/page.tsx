@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Plus, Upload, Download } from "lucide-react"
 import { useState, useRef, useEffect } from "react"
 import { AddEmployeeDialog } from "@/components/employees/add-employee-dialog"
+import { ImportDialog } from "@/components/imports/import-dialog"
 import { toast } from "sonner"
 import {
   Dialog,
@@ -23,6 +24,7 @@ export default function EmployeesPage() {
   const [companyMaxEmployees, setCompanyMaxEmployees] = useState<number | null>(null)
   const [employeeCount, setEmployeeCount] = useState(0)
   const [limitDialogOpen, setLimitDialogOpen] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
 
   const handleRefresh = () => {
     setRefreshKey((prev) => prev + 1)
@@ -128,7 +130,7 @@ export default function EmployeesPage() {
             <p className="text-muted-foreground mt-1">Manage your cleaning staff</p>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
               <Upload className="h-4 w-4 mr-2" />
               Import
             </Button>
@@ -151,6 +153,13 @@ export default function EmployeesPage() {
 
         <AddEmployeeDialog open={showAddDialog} onOpenChange={setShowAddDialog} onSuccess={handleRefresh} />
 
+        <ImportDialog
+          entityType="employees"
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImported={handleRefresh}
+        />
+
         <Dialog open={limitDialogOpen} onOpenChange={setLimitDialogOpen}>
           <DialogContent className="max-w-md">
             <DialogHeader>
@@ -0,0 +1,216 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle, CreditCard, Loader2, Mail } from "lucide-react"
+import { toast } from "sonner"
+import { formatCurrency, getStatusTheme } from "@/lib/utils"
+
+interface PayInvoiceClientProps {
+  token: string
+  returnStatus?: string
+  payable: boolean
+  invoice: {
+    invoiceNumber: string
+    status: string
+    currency: string
+    total: string
+    amountPaid: string
+    amountDue: string
+    issuedAt: string | null
+    dueAt: string | null
+    items: Array<{ id: number; title: string; quantity: string; amount: string }>
+  }
+  customerName: string
+  company: {
+    name: string
+    logo: string | null
+    address: string | null
+    city: string | null
+    postcode: string | null
+    email: string
+  }
+}
+
+export default function PayInvoiceClient({
+  token,
+  returnStatus,
+  payable,
+  invoice,
+  customerName,
+  company,
+}: PayInvoiceClientProps) {
+  const amountDue = parseFloat(invoice.amountDue)
+  const [amount, setAmount] = useState(amountDue.toFixed(2))
+  const [isRedirecting, setIsRedirecting] = useState(false)
+
+  const money = (value: string | number) =>
+    formatCurrency(typeof value === "string" ? parseFloat(value) : value, invoice.currency)
+
+  const formatDate = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })
+      : "—"
+
+  const handlePay = async () => {
+    setIsRedirecting(true)
+    try {
+      const res = await fetch(`/api/pay/${token}/checkout`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: parseFloat(amount) }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start payment")
+      }
+
+      window.location.href = data.url
+    } catch (error: any) {
+      toast.error(error.message || "Failed to start payment")
+      setIsRedirecting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container max-w-2xl mx-auto px-4 space-y-6">
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                {company.logo ? (
+                  <Image
+                    src={company.logo}
+                    alt={company.name}
+                    width={192}
+                    height={48}
+                    unoptimized
+                    className="h-12 w-auto mb-2"
+                  />
+                ) : (
+                  <h1 className="text-2xl font-bold text-gray-900">{company.name}</h1>
+                )}
+                {company.address && (
+                  <p className="text-sm text-gray-500">
+                    {company.address}{company.city && `, ${company.city}`}{company.postcode && ` ${company.postcode}`}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-500">INVOICE</p>
+                <p className="text-xl font-bold text-gray-900">{invoice.invoiceNumber}</p>
+                <Badge className={getStatusTheme(invoice.status).badgeClass}>
+                  {getStatusTheme(invoice.status).label}
+                </Badge>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {returnStatus === "success" && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              Thank you, your payment has been received. A receipt will be emailed to you shortly.
+            </AlertDescription>
+          </Alert>
+        )}
+        {returnStatus === "cancelled" && (
+          <Alert>
+            <AlertDescription>Payment was cancelled. You have not been charged.</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardContent className="pt-6 space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Billed to</p>
+                <p className="font-medium text-gray-900">{customerName}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-gray-500">Due date</p>
+                <p className="font-medium text-gray-900">{formatDate(invoice.dueAt)}</p>
+              </div>
+            </div>
+
+            <div className="border rounded-lg divide-y">
+              {invoice.items.map((item) => (
+                <div key={item.id} className="flex justify-between px-4 py-3 text-sm">
+                  <span className="text-gray-900">
+                    {item.title}
+                    {parseFloat(item.quantity) !== 1 && (
+                      <span className="text-gray-500"> × {parseFloat(item.quantity)}</span>
+                    )}
+                  </span>
+                  <span className="font-medium">{money(item.amount)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Total</span>
+                <span>{money(invoice.total)}</span>
+              </div>
+              {parseFloat(invoice.amountPaid) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Paid</span>
+                  <span>-{money(invoice.amountPaid)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-semibold pt-2 border-t">
+                <span>Amount due</span>
+                <span>{money(invoice.amountDue)}</span>
+              </div>
+            </div>
+
+            {payable ? (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="amount">Amount to pay ({invoice.currency})</Label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step="0.01"
+                    min="1"
+                    max={amountDue.toFixed(2)}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    You can pay the full balance or part of it now.
+                  </p>
+                </div>
+                <Button className="w-full" size="lg" onClick={handlePay} disabled={isRedirecting}>
+                  {isRedirecting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CreditCard className="h-4 w-4 mr-2" />
+                  )}
+                  Pay {money(parseFloat(amount) || 0)} by card
+                </Button>
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">
+                {invoice.status === "paid" ? "This invoice has been paid in full." : "This invoice can't be paid online."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="text-center text-sm text-gray-500 flex items-center justify-center gap-1">
+          <Mail className="h-3 w-3" /> Questions? Contact {company.name} at {company.email}
+        </p>
+      </div>
+    </div>
+  )
+}
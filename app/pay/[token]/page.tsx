@@ -0,0 +1,67 @@
+import { db, schema } from "@/lib/db"
+import { eq } from "drizzle-orm"
+import { notFound } from "next/navigation"
+import { getInvoiceByPaymentToken, isInvoicePayable } from "@/lib/invoice-payments"
+import PayInvoiceClient from "./PayInvoiceClient"
+
+interface PayPageProps {
+  params: Promise<{ token: string }>
+  searchParams: Promise<{ status?: string }>
+}
+
+export default async function PayInvoicePage({ params, searchParams }: PayPageProps) {
+  const { token } = await params
+  const { status } = await searchParams
+
+  if (!db) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Service temporarily unavailable</p>
+      </div>
+    )
+  }
+
+  const result = await getInvoiceByPaymentToken(token)
+  if (!result) {
+    notFound()
+  }
+
+  const { invoice, customer, company } = result
+  const items = await db.query.invoiceItems.findMany({
+    where: eq(schema.invoiceItems.invoiceId, invoice.id),
+    orderBy: (items, { asc }) => [asc(items.sortOrder)],
+  })
+
+  return (
+    <PayInvoiceClient
+      token={token}
+      returnStatus={status}
+      payable={isInvoicePayable(invoice)}
+      invoice={{
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        currency: invoice.currency,
+        total: invoice.total,
+        amountPaid: invoice.amountPaid,
+        amountDue: invoice.amountDue,
+        issuedAt: invoice.issuedAt?.toISOString() ?? null,
+        dueAt: invoice.dueAt?.toISOString() ?? null,
+        items: items.map((item) => ({
+          id: item.id,
+          title: item.title,
+          quantity: item.quantity,
+          amount: item.amount,
+        })),
+      }}
+      customerName={`${customer.firstName} ${customer.lastName}`.trim()}
+      company={{
+        name: company.name,
+        logo: company.logo,
+        address: company.address,
+        city: company.city,
+        postcode: company.postcode,
+        email: company.email,
+      }}
+    />
+  )
+}
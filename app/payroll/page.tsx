@@ -0,0 +1,564 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { DashboardHeaderClient } from "@/components/dashboard-header-client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, CheckCircle2, Download, Plus, RefreshCw, SlidersHorizontal, Trash2, Wallet, X } from "lucide-react"
+import { format, parseISO, subMonths } from "date-fns"
+import { toast } from "sonner"
+import { formatCurrency } from "@/lib/utils"
+import { downloadPayslipPDF } from "@/lib/pdf-generator"
+import { PAY_FREQUENCIES, payFrequencyLabels, type PayFrequency } from "@/lib/payroll-settings"
+import type { PayrollRunStatus, PayslipAdjustment, PayslipLine } from "@/lib/payroll"
+
+interface PayrollRunSummary {
+  id: number
+  frequency: PayFrequency
+  periodStart: string
+  periodEnd: string
+  status: PayrollRunStatus
+  currency: string
+  totalGross: string
+  totalDeductions: string
+  totalNet: string
+  approvedAt: string | null
+  paidAt: string | null
+}
+
+interface PayslipRow {
+  id: number
+  payType: string
+  hoursWorked: string
+  jobIds: number[]
+  lines: PayslipLine[]
+  adjustments: PayslipAdjustment[]
+  warnings: string[]
+  grossPay: string
+  deductions: string
+  netPay: string
+  employee: { id: number; firstName: string; lastName: string; role: string | null }
+}
+
+interface PayrollRunDetail extends PayrollRunSummary {
+  notes: string | null
+  payslips: PayslipRow[]
+}
+
+const statusBadges: Record<PayrollRunStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  draft: { label: "Draft", variant: "outline" },
+  approved: { label: "Approved", variant: "default" },
+  paid: { label: "Paid", variant: "secondary" },
+}
+
+const payTypeLabels: Record<string, string> = {
+  hourly: "Hourly",
+  salary: "Salary",
+  per_job: "Per job",
+}
+
+function formatPeriod(run: { periodStart: string; periodEnd: string }) {
+  return `${format(parseISO(run.periodStart), "dd MMM yyyy")} - ${format(parseISO(run.periodEnd), "dd MMM yyyy")}`
+}
+
+export default function PayrollPage() {
+  const [runs, setRuns] = useState<PayrollRunSummary[]>([])
+  const [selectedRun, setSelectedRun] = useState<PayrollRunDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [frequency, setFrequency] = useState<PayFrequency>("monthly")
+  const [periodDate, setPeriodDate] = useState(format(subMonths(new Date(), 1), "yyyy-MM-dd"))
+  const [working, setWorking] = useState(false)
+  const [paymentMethod, setPaymentMethod] = useState("bank_transfer")
+  const [transactionReference, setTransactionReference] = useState("")
+  const [adjusting, setAdjusting] = useState<PayslipRow | null>(null)
+  const [adjustments, setAdjustments] = useState<PayslipAdjustment[]>([])
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch("/api/payroll/runs")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load payroll runs")
+      }
+      setRuns(data.runs)
+    } catch (error) {
+      console.error("Error fetching payroll runs:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to load payroll runs")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openRun = async (runId: number) => {
+    try {
+      const response = await fetch(`/api/payroll/runs/${runId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load payroll run")
+      }
+      setSelectedRun(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load payroll run")
+    }
+  }
+
+  useEffect(() => {
+    fetchRuns()
+  }, [])
+
+  // Run actions all return the updated run
+  const runAction = async (url: string, init: RequestInit, success: string) => {
+    setWorking(true)
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Something went wrong")
+      }
+      setSelectedRun(data)
+      toast.success(success)
+      fetchRuns()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Something went wrong")
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleCreate = () =>
+    runAction(
+      "/api/payroll/runs",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ frequency, date: periodDate }),
+      },
+      "Payroll run created",
+    )
+
+  const handleDelete = async (run: PayrollRunSummary) => {
+    if (!window.confirm(`Delete the draft ${payFrequencyLabels[run.frequency].toLowerCase()} run for ${formatPeriod(run)}?`)) {
+      return
+    }
+    try {
+      const response = await fetch(`/api/payroll/runs/${run.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to delete payroll run")
+      }
+      toast.success("Payroll run deleted")
+      if (selectedRun?.id === run.id) setSelectedRun(null)
+      fetchRuns()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete payroll run")
+    }
+  }
+
+  const handleDownload = async (payslipId: number) => {
+    try {
+      const response = await fetch(`/api/payroll/payslips/${payslipId}/pdf`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load payslip")
+      }
+      downloadPayslipPDF(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load payslip")
+    }
+  }
+
+  const openAdjustments = (payslip: PayslipRow) => {
+    setAdjusting(payslip)
+    setAdjustments(payslip.adjustments)
+  }
+
+  const updateAdjustment = (index: number, changes: Partial<PayslipAdjustment>) => {
+    setAdjustments((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const saveAdjustments = async () => {
+    if (!adjusting || !selectedRun) return
+    setWorking(true)
+    try {
+      const response = await fetch(`/api/payroll/payslips/${adjusting.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ adjustments }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save adjustments")
+      }
+      setAdjusting(null)
+      await openRun(selectedRun.id)
+      fetchRuns()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save adjustments")
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const currency = selectedRun?.currency ?? "GBP"
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeaderClient />
+
+      <main className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="space-y-1">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Payroll</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Pay runs combine work sessions, completed jobs, overtime and adjustments into payslips. Approving a run
+            creates the employee payouts.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New payroll run</CardTitle>
+            <CardDescription>Pick any date in the pay period. Pay rules are set under Settings → Payroll.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="payroll-frequency">Pay frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as PayFrequency)}>
+                  <SelectTrigger id="payroll-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAY_FREQUENCIES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {payFrequencyLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payroll-date">Date in period</Label>
+                <Input id="payroll-date" type="date" value={periodDate} onChange={(e) => setPeriodDate(e.target.value)} />
+              </div>
+              <Button onClick={handleCreate} disabled={working || !periodDate}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create run
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payroll runs</CardTitle>
+            <CardDescription>Drafts can be recalculated, adjusted or deleted until they are approved</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payroll runs yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Gross</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow
+                        key={run.id}
+                        className={`cursor-pointer ${selectedRun?.id === run.id ? "bg-muted/50" : ""}`}
+                        onClick={() => openRun(run.id)}
+                      >
+                        <TableCell>{formatPeriod(run)}</TableCell>
+                        <TableCell>{payFrequencyLabels[run.frequency] ?? run.frequency}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusBadges[run.status].variant}>{statusBadges[run.status].label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(parseFloat(run.totalGross), run.currency)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(parseFloat(run.totalNet), run.currency)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {run.status === "draft" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Delete run"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleDelete(run)
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedRun && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2">
+                    <Wallet className="h-5 w-5" />
+                    {payFrequencyLabels[selectedRun.frequency]} payroll, {formatPeriod(selectedRun)}
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedRun.payslips.length} payslip{selectedRun.payslips.length === 1 ? "" : "s"} · Gross{" "}
+                    {formatCurrency(parseFloat(selectedRun.totalGross), currency)} · Deductions{" "}
+                    {formatCurrency(parseFloat(selectedRun.totalDeductions), currency)} · Net{" "}
+                    {formatCurrency(parseFloat(selectedRun.totalNet), currency)}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {selectedRun.status === "draft" && (
+                    <>
+                      <Button
+                        variant="outline"
+                        disabled={working}
+                        onClick={() =>
+                          runAction(`/api/payroll/runs/${selectedRun.id}/recalculate`, { method: "POST" }, "Payroll run recalculated")
+                        }
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Recalculate
+                      </Button>
+                      <Button
+                        disabled={working || selectedRun.payslips.length === 0}
+                        onClick={() => {
+                          if (!window.confirm("Approve this run? Payslips are locked and payouts are created.")) return
+                          runAction(`/api/payroll/runs/${selectedRun.id}/approve`, { method: "POST" }, "Payroll run approved")
+                        }}
+                      >
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {selectedRun.status === "approved" && (
+                <div className="grid gap-4 rounded-md border p-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="payroll-method">Payment method</Label>
+                    <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                      <SelectTrigger id="payroll-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="bank_transfer">Bank transfer</SelectItem>
+                        <SelectItem value="cash">Cash</SelectItem>
+                        <SelectItem value="cheque">Cheque</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payroll-reference">Reference</Label>
+                    <Input
+                      id="payroll-reference"
+                      value={transactionReference}
+                      onChange={(e) => setTransactionReference(e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <Button
+                    disabled={working}
+                    onClick={() =>
+                      runAction(
+                        `/api/payroll/runs/${selectedRun.id}/pay`,
+                        {
+                          method: "POST",
+                          headers: { "Content-Type": "application/json" },
+                          body: JSON.stringify({ paymentMethod, transactionReference }),
+                        },
+                        "Payroll run marked as paid",
+                      )
+                    }
+                  >
+                    Mark as paid
+                  </Button>
+                </div>
+              )}
+
+              {selectedRun.payslips.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nobody paid {payFrequencyLabels[selectedRun.frequency].toLowerCase()} has anything to be paid for in
+                  this period.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead>Pay type</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Jobs</TableHead>
+                        <TableHead className="text-right">Gross</TableHead>
+                        <TableHead className="text-right">Deductions</TableHead>
+                        <TableHead className="text-right">Net</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedRun.payslips.map((payslip) => (
+                        <TableRow key={payslip.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {payslip.employee.firstName} {payslip.employee.lastName}
+                            </div>
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              {payslip.lines.map((line, index) => (
+                                <div key={index}>
+                                  {line.description}: {formatCurrency(line.amount, currency)}
+                                </div>
+                              ))}
+                              {payslip.warnings.map((warning) => (
+                                <div key={warning} className="flex items-center gap-1 text-amber-600">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {warning}
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>{payTypeLabels[payslip.payType] ?? payslip.payType}</TableCell>
+                          <TableCell className="text-right">{parseFloat(payslip.hoursWorked).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{payslip.jobIds.length}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(parseFloat(payslip.grossPay), currency)}</TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(parseFloat(payslip.deductions), currency)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(parseFloat(payslip.netPay), currency)}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {selectedRun.status === "draft" && (
+                              <Button variant="ghost" size="icon" title="Adjustments" onClick={() => openAdjustments(payslip)}>
+                                <SlidersHorizontal className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="icon" title="Download payslip" onClick={() => handleDownload(payslip.id)}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={!!adjusting} onOpenChange={(open) => !open && setAdjusting(null)}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Adjustments</DialogTitle>
+              <DialogDescription>
+                Bonuses, expenses and deductions for{" "}
+                {adjusting && `${adjusting.employee.firstName} ${adjusting.employee.lastName}`}. They are kept when the
+                run is recalculated.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3 py-2">
+              {adjustments.length === 0 && <p className="text-sm text-muted-foreground">No adjustments.</p>}
+              {adjustments.map((adjustment, index) => (
+                <div key={adjustment.id || index} className="grid grid-cols-[7rem_1fr_6rem_auto] gap-2">
+                  <Select
+                    value={adjustment.type}
+                    onValueChange={(value) => updateAdjustment(index, { type: value as PayslipAdjustment["type"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="addition">Addition</SelectItem>
+                      <SelectItem value="deduction">Deduction</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={adjustment.description}
+                    placeholder="Description"
+                    onChange={(e) => updateAdjustment(index, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={adjustment.amount || ""}
+                    onChange={(e) => updateAdjustment(index, { amount: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setAdjustments((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setAdjustments((current) => [...current, { id: "", type: "addition", description: "", amount: 0 }])
+                }
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add adjustment
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAdjusting(null)} disabled={working}>
+                Cancel
+              </Button>
+              <Button onClick={saveAdjustments} disabled={working}>
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -18,16 +18,17 @@ import {
   Sparkles, CheckCircle, Loader2, User, Mail, Phone, MapPin 
 } from "lucide-react"
 import Link from "next/link"
-import { format } from "date-fns"
+import { format, parseISO } from "date-fns"
 import { cn } from "@/lib/utils"
+import { InstantSlotPicker, releaseHold, type BookingHoldSummary } from "@/components/booking/instant-slot-picker"
 
 const SERVICE_TYPES = [
-  { value: "regular", label: "Regular Cleaning", description: "Standard cleaning service", basePrice: 50 },
-  { value: "deep_clean", label: "Deep Cleaning", description: "Thorough deep cleaning", basePrice: 120 },
-  { value: "move_in", label: "Move In Cleaning", description: "Prepare your new home", basePrice: 150 },
-  { value: "move_out", label: "Move Out Cleaning", description: "Leave your old place spotless", basePrice: 150 },
-  { value: "one_time", label: "One-Time Clean", description: "Single cleaning session", basePrice: 70 },
-  { value: "spring_clean", label: "Spring Cleaning", description: "Seasonal deep refresh", basePrice: 180 },
+  { value: "regular", label: "Regular Cleaning", description: "Standard cleaning service" },
+  { value: "deep_clean", label: "Deep Cleaning", description: "Thorough deep cleaning" },
+  { value: "move_in", label: "Move In Cleaning", description: "Prepare your new home" },
+  { value: "move_out", label: "Move Out Cleaning", description: "Leave your old place spotless" },
+  { value: "one_time", label: "One-Time Clean", description: "Single cleaning session" },
+  { value: "spring_clean", label: "Spring Cleaning", description: "Seasonal deep refresh" },
 ]
 
 const PROPERTY_TYPES = [
@@ -70,6 +71,7 @@ interface FormData {
   bedrooms: string
   bathrooms: string
   squareFootage: string
+  addOns: string[]
   hasSpecialRequirements: boolean
   specialRequirements: string
   // Scheduling
@@ -79,6 +81,33 @@ interface FormData {
   frequency: string
 }
 
+interface BookingResult {
+  status: "booked" | "requested"
+  scheduledFor?: string
+  notice?: string | null
+}
+
+interface PriceList {
+  servicePrices: Record<string, number>
+  addOns: Array<{ key: string; label: string; price: number }>
+  frequencyDiscounts: Record<string, number>
+}
+
+interface PriceEstimate {
+  lines: Array<{ kind: string; title: string; quantity: number; amount: number }>
+  total: number
+}
+
+interface Coverage {
+  covered: boolean
+  policy: "flag" | "reject"
+  area: {
+    name: string
+    surchargeAmount: string | null
+    surchargePercent: string | null
+  } | null
+}
+
 interface Company {
   id: number
   name: string
@@ -99,6 +128,16 @@ export default function BookingPageClient() {
   const [companies, setCompanies] = useState<Company[]>([])
   const [selectedCompanyId, setSelectedCompanyId] = useState<string>(companyIdParam || "")
   const [loadingCompanies, setLoadingCompanies] = useState(true)
+  // Whether the company takes instant bookings; null until the booking step has checked
+  const [instantAvailable, setInstantAvailable] = useState<boolean | null>(null)
+  const [requestInstead, setRequestInstead] = useState(false)
+  const [hold, setHold] = useState<BookingHoldSummary | null>(null)
+  const [bookingResult, setBookingResult] = useState<BookingResult | null>(null)
+  const [coverage, setCoverage] = useState<Coverage | null>(null)
+  const [checkingCoverage, setCheckingCoverage] = useState(false)
+  const [priceList, setPriceList] = useState<PriceList | null>(null)
+  const [estimate, setEstimate] = useState<PriceEstimate | null>(null)
+  const [pricing, setPricing] = useState(false)
   
   const [formData, setFormData] = useState<FormData>({
     firstName: "",
@@ -115,6 +154,7 @@ export default function BookingPageClient() {
     bedrooms: "",
     bathrooms: "",
     squareFootage: "",
+    addOns: [],
     hasSpecialRequirements: false,
     specialRequirements: "",
     preferredDate: undefined,
@@ -201,23 +241,140 @@ export default function BookingPageClient() {
     fetchCompanies()
   }, [companyIdParam])
 
+  // Times are per company, so check again and drop any hold when the company changes
+  useEffect(() => {
+    setInstantAvailable(null)
+    setRequestInstead(false)
+    setCoverage(null)
+    setEstimate(null)
+    setPriceList(null)
+    setHold((current) => {
+      releaseHold(current)
+      return null
+    })
+  }, [selectedCompanyId])
+
+  // Prices, add-ons and discounts come from the company's price book
+  useEffect(() => {
+    if (!selectedCompanyId) return
+    let cancelled = false
+    const fetchPriceList = async () => {
+      try {
+        const response = await fetch(`/api/public/booking/pricing?companyId=${selectedCompanyId}`)
+        if (!response.ok) return
+        const data: PriceList = await response.json()
+        if (!cancelled) {
+          setPriceList(data)
+          setFormData(prev => ({
+            ...prev,
+            addOns: prev.addOns.filter(key => data.addOns.some(addOn => addOn.key === key)),
+          }))
+        }
+      } catch (error) {
+        console.error("Failed to fetch prices:", error)
+      }
+    }
+    fetchPriceList()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedCompanyId])
+
   const updateFormData = (field: keyof FormData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
-  const calculateEstimate = () => {
-    const service = SERVICE_TYPES.find(s => s.value === formData.serviceType)
-    if (!service) return 0
-    
-    let price = service.basePrice
-    const bedrooms = parseInt(formData.bedrooms) || 0
-    const bathrooms = parseInt(formData.bathrooms) || 0
-    
-    // Add per bedroom/bathroom
-    price += bedrooms * 15
-    price += bathrooms * 10
-    
-    return price
+  // Addresses outside the company's service areas are only taken as requests
+  const outOfArea = coverage?.covered === false
+  const instantBooking = instantAvailable === true && !requestInstead && !outOfArea
+
+  const handleAvailabilityChange = useCallback((enabled: boolean) => {
+    setInstantAvailable(enabled)
+  }, [])
+
+  const handleHoldChange = (newHold: BookingHoldSummary | null) => {
+    setHold(newHold)
+    if (newHold) {
+      const start = parseISO(newHold.start)
+      const hour = start.getHours()
+      setFormData(prev => ({
+        ...prev,
+        preferredDate: start,
+        preferredTimeSlot: hour < 12 ? "morning" : hour < 17 ? "afternoon" : "evening",
+      }))
+    }
+  }
+
+  const handleRequestInstead = () => {
+    releaseHold(hold)
+    setHold(null)
+    setRequestInstead(true)
+  }
+
+  const frequencyLabel = (value: string, label: string) => {
+    const discount = priceList?.frequencyDiscounts[value] || 0
+    return discount > 0 ? `${label} (save ${discount}%)` : label
+  }
+
+  const toggleAddOn = (key: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      addOns: checked ? [...prev.addOns, key] : prev.addOns.filter(item => item !== key),
+    }))
+  }
+
+  const loadEstimate = async () => {
+    setPricing(true)
+    setEstimate(null)
+    try {
+      const response = await fetch("/api/public/booking/pricing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          companyId: parseInt(selectedCompanyId),
+          serviceType: formData.serviceType,
+          bedrooms: formData.bedrooms,
+          bathrooms: formData.bathrooms,
+          squareFootage: formData.squareFootage,
+          addOns: formData.addOns,
+          frequency: formData.frequency,
+          address: formData.address,
+          city: formData.city,
+          postcode: formData.postcode,
+        }),
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      setEstimate(data.quote)
+    } catch (error) {
+      // The booking is priced again when it is submitted
+      console.error("Failed to price booking:", error)
+    } finally {
+      setPricing(false)
+    }
+  }
+
+  const checkCoverage = async () => {
+    setCheckingCoverage(true)
+    try {
+      const params = new URLSearchParams({
+        companyId: selectedCompanyId,
+        postcode: formData.postcode,
+        address: formData.address,
+        city: formData.city,
+      })
+      const response = await fetch(`/api/public/booking/coverage?${params}`)
+      if (!response.ok) return null
+      const data: Coverage = await response.json()
+      setCoverage(data)
+      return data
+    } catch (error) {
+      // Coverage is checked again when the booking is submitted
+      console.error("Failed to check service area coverage:", error)
+      return null
+    } finally {
+      setCheckingCoverage(false)
+    }
   }
 
   const validateStep = (stepNum: number) => {
@@ -229,19 +386,30 @@ export default function BookingPageClient() {
       case 3:
         return formData.serviceType && formData.propertyType
       case 4:
-        return formData.preferredDate && formData.preferredTimeSlot
+        return instantBooking ? hold : formData.preferredDate && formData.preferredTimeSlot
       default:
         return true
     }
   }
 
-  const nextStep = () => {
-    if (validateStep(step)) {
-      setStep(step + 1)
-      setError("")
-    } else {
+  const nextStep = async () => {
+    if (!validateStep(step)) {
       setError("Please fill in all required fields")
+      return
+    }
+    if (step === 2 && selectedCompanyId) {
+      const result = await checkCoverage()
+      if (result && !result.covered && result.policy === "reject") {
+        const companyName = companies.find(c => c.id.toString() === selectedCompanyId)?.name || "This company"
+        setError(`Sorry, ${companyName} doesn't cover ${formData.postcode} yet.`)
+        return
+      }
+    }
+    if (step === 4 && selectedCompanyId) {
+      await loadEstimate()
     }
+    setStep(step + 1)
+    setError("")
   }
 
   const prevStep = () => {
@@ -284,22 +452,24 @@ export default function BookingPageClient() {
           bedrooms: formData.bedrooms ? parseInt(formData.bedrooms) : null,
           bathrooms: formData.bathrooms ? parseInt(formData.bathrooms) : null,
           squareFootage: formData.squareFootage ? parseInt(formData.squareFootage) : null,
+          addOns: formData.addOns,
           hasSpecialRequirements: formData.hasSpecialRequirements ? 1 : 0,
           specialRequirements: formData.specialRequirements,
           preferredDate: formData.preferredDate?.toISOString(),
           preferredTimeSlot: formData.preferredTimeSlot,
           alternateDate: formData.alternateDate?.toISOString(),
           frequency: formData.frequency,
-          estimatedPrice: calculateEstimate(),
           source: customer ? "portal" : "website",
+          holdToken: instantBooking ? hold?.token : undefined,
         }),
       })
 
+      const data = await response.json()
       if (!response.ok) {
-        const data = await response.json()
         throw new Error(data.error || "Failed to submit booking request")
       }
 
+      setBookingResult(data.booking || null)
       setSubmitted(true)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred")
@@ -308,6 +478,32 @@ export default function BookingPageClient() {
     }
   }
 
+  if (submitted && bookingResult?.status === "booked") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-green-100 flex items-center justify-center">
+              <CheckCircle className="h-8 w-8 text-green-600" />
+            </div>
+            <CardTitle className="text-2xl">You&apos;re Booked In!</CardTitle>
+            <CardDescription>
+              {bookingResult.scheduledFor
+                ? `We'll see you on ${format(parseISO(bookingResult.scheduledFor), "EEEE d MMMM 'at' HH:mm")}.`
+                : "Your cleaning is booked."}{" "}
+              A confirmation is on its way to your email.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button onClick={() => router.push(customer ? "/portal/dashboard" : "/portal")} className="w-full">
+              {customer ? "Go to Dashboard" : "Login to Manage Your Booking"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (submitted) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
@@ -322,6 +518,11 @@ export default function BookingPageClient() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {bookingResult?.notice && (
+              <Alert>
+                <AlertDescription>{bookingResult.notice}</AlertDescription>
+              </Alert>
+            )}
             <div className="bg-muted rounded-lg p-4 text-left">
               <h4 className="font-medium mb-2">What happens next?</h4>
               <ul className="text-sm text-muted-foreground space-y-1">
@@ -399,7 +600,7 @@ export default function BookingPageClient() {
               {step === 1 && "Your Information"}
               {step === 2 && "Service Location"}
               {step === 3 && "Service Details"}
-              {step === 4 && "Preferred Schedule"}
+              {step === 4 && (instantBooking ? "Pick a Time" : "Preferred Schedule")}
               {step === 5 && "Review & Submit"}
             </CardTitle>
             <CardDescription>
@@ -577,7 +778,9 @@ export default function BookingPageClient() {
                             <h4 className="font-medium">{service.label}</h4>
                             <p className="text-sm text-muted-foreground">{service.description}</p>
                           </div>
-                          <span className="text-sm font-medium">from A?{service.basePrice}</span>
+                          {priceList?.servicePrices[service.value] !== undefined && (
+                            <span className="text-sm font-medium">from £{priceList.servicePrices[service.value]}</span>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -650,6 +853,25 @@ export default function BookingPageClient() {
                     />
                   </div>
                 </div>
+                {priceList && priceList.addOns.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Extras</Label>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {priceList.addOns.map((addOn) => (
+                        <div key={addOn.key} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`addOn-${addOn.key}`}
+                            checked={formData.addOns.includes(addOn.key)}
+                            onCheckedChange={(checked) => toggleAddOn(addOn.key, checked === true)}
+                          />
+                          <Label htmlFor={`addOn-${addOn.key}`} className="font-normal">
+                            {addOn.label} <span className="text-muted-foreground">+£{addOn.price.toFixed(2)}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div className="space-y-3">
                   <div className="flex items-center space-x-2">
                     <Checkbox
@@ -672,7 +894,62 @@ export default function BookingPageClient() {
             )}
 
             {/* Step 4: Schedule */}
-            {step === 4 && (
+            {step >= 3 && outOfArea && (
+              <Alert>
+                <AlertDescription>
+                  Your address is outside our usual service area. You can still send a request and we&apos;ll let you
+                  know if we can fit you in.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {step === 4 && selectedCompanyId && instantAvailable !== false && !requestInstead && !outOfArea && (
+              <>
+                <InstantSlotPicker
+                  companyId={parseInt(selectedCompanyId)}
+                  serviceType={formData.serviceType}
+                  bedrooms={formData.bedrooms}
+                  bathrooms={formData.bathrooms}
+                  postcode={formData.postcode}
+                  hold={hold}
+                  onHoldChange={handleHoldChange}
+                  onAvailabilityChange={handleAvailabilityChange}
+                />
+                {instantAvailable && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Frequency</Label>
+                      <Select
+                        value={formData.frequency}
+                        onValueChange={(value) => updateFormData("frequency", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="How often?" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FREQUENCIES.map((freq) => (
+                            <SelectItem key={freq.value} value={freq.value}>
+                              {frequencyLabel(freq.value, freq.label)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button variant="link" className="px-0" onClick={handleRequestInstead}>
+                      None of these suit? Send a request instead
+                    </Button>
+                  </>
+                )}
+              </>
+            )}
+
+            {step === 4 && instantAvailable === true && requestInstead && !outOfArea && (
+              <Button variant="link" className="px-0" onClick={() => setRequestInstead(false)}>
+                Pick an available time instead
+              </Button>
+            )}
+
+            {step === 4 && (instantAvailable === false || requestInstead || outOfArea) && (
               <>
                 <div className="space-y-2">
                   <Label>Preferred Date *</Label>
@@ -756,7 +1033,7 @@ export default function BookingPageClient() {
                     <SelectContent>
                       {FREQUENCIES.map((freq) => (
                         <SelectItem key={freq.value} value={freq.value}>
-                          {freq.label}
+                          {frequencyLabel(freq.value, freq.label)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -821,7 +1098,9 @@ export default function BookingPageClient() {
                       {formData.preferredDate && format(formData.preferredDate, "EEEE, MMMM d, yyyy")}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {TIME_SLOTS.find(t => t.value === formData.preferredTimeSlot)?.label}
+                      {instantBooking && hold
+                        ? `${format(parseISO(hold.start), "HH:mm")} - ${format(parseISO(hold.end), "HH:mm")}`
+                        : TIME_SLOTS.find(t => t.value === formData.preferredTimeSlot)?.label}
                     </p>
                     <p className="text-sm text-muted-foreground">
                       {FREQUENCIES.find(f => f.value === formData.frequency)?.label}
@@ -830,10 +1109,28 @@ export default function BookingPageClient() {
                   
                   <Separator />
                   
-                  <div className="flex justify-between items-center text-lg">
-                    <span className="font-medium">Estimated Price</span>
-                    <span className="font-bold text-primary">£{calculateEstimate()}</span>
-                  </div>
+                  {estimate ? (
+                    <>
+                      {estimate.lines.map((line, index) => (
+                        <div
+                          key={`${line.kind}-${index}`}
+                          className="flex justify-between items-center text-sm text-muted-foreground"
+                        >
+                          <span>
+                            {line.title}
+                            {line.quantity > 1 && ` × ${line.quantity}`}
+                          </span>
+                          <span>{line.amount < 0 ? "-" : ""}£{Math.abs(line.amount).toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between items-center text-lg">
+                        <span className="font-medium">Estimated Price</span>
+                        <span className="font-bold text-primary">£{estimate.total.toFixed(2)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">We&apos;ll confirm your price when we review your booking.</p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     * Final price may vary based on actual requirements. We&apos;ll confirm the exact price before starting.
                   </p>
@@ -853,14 +1150,15 @@ export default function BookingPageClient() {
               )}
               
               {step < 5 ? (
-                <Button onClick={nextStep} disabled={!selectedCompanyId}>
+                <Button onClick={nextStep} disabled={!selectedCompanyId || checkingCoverage || pricing}>
+                  {(checkingCoverage || pricing) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                   Next
                   <ArrowRight className="h-4 w-4 ml-2" />
                 </Button>
               ) : (
                 <Button onClick={handleSubmit} disabled={loading || !selectedCompanyId}>
                   {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                  Submit Booking Request
+                  {instantBooking ? "Confirm Booking" : "Submit Booking Request"}
                 </Button>
               )}
             </div>
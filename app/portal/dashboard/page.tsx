@@ -13,11 +13,18 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetFooter, SheetClose } from "@/components/ui/sheet"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog"
-import { Download, LogOut, FileText, CalendarPlus, Sparkles, ClipboardList, Calendar, Clock, Briefcase, Camera, Eye, MapPin, ChevronRight, X, Pencil, Trash2, Building2, Loader2, AlertTriangle, ArrowLeft } from "lucide-react"
+import { Download, LogOut, FileText, CalendarPlus, Sparkles, ClipboardList, Calendar, Clock, Briefcase, Camera, Eye, MapPin, ChevronRight, X, Pencil, Trash2, Building2, Loader2, AlertTriangle, ArrowLeft, CreditCard, Repeat } from "lucide-react"
 import { formatCurrency, getStatusTheme } from "@/lib/utils"
 import { downloadInvoicePDF } from "@/lib/pdf-generator"
 import { toast } from "sonner"
 import { useCustomerSessionTimeout } from "@/hooks/use-session-timeout"
+import {
+  emptySignature,
+  isSignatureComplete,
+  SignatureCapture,
+  type SignatureCaptureValue,
+} from "@/components/signatures/signature-capture"
+import { CustomerSubscriptions } from "@/components/subscriptions/customer-subscriptions"
 
 interface Invoice {
   invoice: {
@@ -148,7 +155,10 @@ export default function CustomerDashboardPage() {
   const [jobs, setJobs] = useState<CustomerJob[]>([])
   const [contracts, setContracts] = useState<CustomerContract[]>([])
   const [loading, setLoading] = useState(true)
+  const [activeTab, setActiveTab] = useState("bookings")
+  const [customerToken, setCustomerToken] = useState<string | null>(null)
   const [downloadingId, setDownloadingId] = useState<number | null>(null)
+  const [payingId, setPayingId] = useState<number | null>(null)
   const [sessionWarning, setSessionWarning] = useState(false)
   
   // Booking detail sheet state
@@ -157,6 +167,7 @@ export default function CustomerDashboardPage() {
   const [selectedContract, setSelectedContract] = useState<CustomerContract | null>(null)
   const [isContractDetailOpen, setIsContractDetailOpen] = useState(false)
   const [isSigningContract, setIsSigningContract] = useState<number | null>(null)
+  const [contractSignature, setContractSignature] = useState<SignatureCaptureValue>(emptySignature())
   const [isEditMode, setIsEditMode] = useState(false)
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false)
   const [cancellationReason, setCancellationReason] = useState("")
@@ -187,6 +198,10 @@ export default function CustomerDashboardPage() {
     }
 
     setCustomer(JSON.parse(customerData))
+    setCustomerToken(token)
+    // Links back from Stripe and from emails open a specific tab
+    const tab = new URLSearchParams(window.location.search).get("tab")
+    if (tab) setActiveTab(tab)
     fetchInvoices(token)
     fetchBookings(token)
     fetchJobs(token)
@@ -290,6 +305,34 @@ export default function CustomerDashboardPage() {
     }
   }
 
+  const handlePayInvoice = async (invoiceId: number) => {
+    const token = localStorage.getItem("customer_token")
+    if (!token) return
+
+    try {
+      setPayingId(invoiceId)
+
+      const response = await fetch(`/api/customer-portal/invoices/${invoiceId}/checkout`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({}),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start payment")
+      }
+
+      window.location.href = data.url
+    } catch (error) {
+      console.error("Error starting payment:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to start payment")
+      setPayingId(null)
+    }
+  }
+
   const formatDate = (value: Date | string | null) => {
     if (!value) return "—"
     const date = typeof value === "string" ? new Date(value) : value
@@ -302,6 +345,9 @@ export default function CustomerDashboardPage() {
 
   const handleViewContract = (contract: CustomerContract) => {
     setSelectedContract(contract)
+    setContractSignature(
+      emptySignature(`${customer?.firstName || ""} ${customer?.lastName || ""}`.trim(), customer?.email || ""),
+    )
     setIsContractDetailOpen(true)
   }
 
@@ -317,8 +363,10 @@ export default function CustomerDashboardPage() {
       const response = await fetch(`/api/customer-portal/contracts/${contractId}/sign`, {
         method: "POST",
         headers: {
+          "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
+        body: JSON.stringify(contractSignature),
       })
 
       if (!response.ok) {
@@ -327,6 +375,7 @@ export default function CustomerDashboardPage() {
       }
 
       toast.success("Contract signed and activated")
+      setIsContractDetailOpen(false)
       fetchContracts(token)
     } catch (error) {
       console.error("Error signing contract:", error)
@@ -577,7 +626,7 @@ export default function CustomerDashboardPage() {
           </Card>
         </div>
 
-        <Tabs defaultValue="bookings" className="space-y-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList>
             <TabsTrigger value="bookings" className="flex items-center gap-2">
               <ClipboardList className="h-4 w-4" />
@@ -591,6 +640,10 @@ export default function CustomerDashboardPage() {
               <FileText className="h-4 w-4" />
               Contracts ({contracts.length})
             </TabsTrigger>
+            <TabsTrigger value="subscriptions" className="flex items-center gap-2">
+              <Repeat className="h-4 w-4" />
+              Subscriptions
+            </TabsTrigger>
             <TabsTrigger value="invoices" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               Invoices ({invoices.length})
@@ -842,12 +895,8 @@ export default function CustomerDashboardPage() {
                               View
                             </Button>
                             {contract.status === "draft" ? (
-                              <Button
-                                size="sm"
-                                onClick={() => handleSignContract(contract.id)}
-                                disabled={isSigningContract === contract.id}
-                              >
-                                {isSigningContract === contract.id ? "Signing..." : "Sign Contract"}
+                              <Button size="sm" onClick={() => handleViewContract(contractItem)}>
+                                Sign Contract
                               </Button>
                             ) : null}
                           </div>
@@ -860,6 +909,18 @@ export default function CustomerDashboardPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="subscriptions">
+            {customerToken && (
+              <CustomerSubscriptions
+                token={customerToken}
+                onChange={() => {
+                  fetchJobs(customerToken)
+                  fetchInvoices(customerToken)
+                }}
+              />
+            )}
+          </TabsContent>
+
           <TabsContent value="invoices">
             <Card>
           <CardHeader>
@@ -900,6 +961,22 @@ export default function CustomerDashboardPage() {
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
+                        {["sent", "overdue"].includes(invoice.status) && parseFloat(invoice.amountDue) > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mr-2"
+                            onClick={() => handlePayInvoice(invoice.id)}
+                            disabled={payingId === invoice.id}
+                          >
+                            {payingId === invoice.id ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <CreditCard className="h-4 w-4 mr-1" />
+                            )}
+                            Pay
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1330,8 +1407,31 @@ export default function CustomerDashboardPage() {
                   <p className="text-sm text-muted-foreground">Company</p>
                   <p className="font-medium">{selectedContract.company?.name || "Company"}</p>
                 </div>
+                {selectedContract.contract.terms ? (
+                  <div>
+                    <p className="text-sm text-muted-foreground">Terms & Conditions</p>
+                    <p className="text-sm whitespace-pre-wrap">{selectedContract.contract.terms}</p>
+                  </div>
+                ) : null}
+                {selectedContract.contract.signedAt ? (
+                  <div>
+                    <p className="text-sm text-muted-foreground">Signed</p>
+                    <p className="font-medium">{formatDate(selectedContract.contract.signedAt)}</p>
+                  </div>
+                ) : null}
               </div>
 
+              {selectedContract.contract.status === "draft" ? (
+                <div className="space-y-2 border-t pt-4">
+                  <p className="text-sm font-medium">Sign this contract</p>
+                  <SignatureCapture
+                    value={contractSignature}
+                    onChange={setContractSignature}
+                    documentLabel="contract"
+                  />
+                </div>
+              ) : null}
+
               <SheetFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
                 <SheetClose asChild>
                   <Button variant="outline">Close</Button>
@@ -1339,7 +1439,9 @@ export default function CustomerDashboardPage() {
                 {selectedContract.contract.status === "draft" ? (
                   <Button
                     onClick={() => handleSignContract(selectedContract.contract.id)}
-                    disabled={isSigningContract === selectedContract.contract.id}
+                    disabled={
+                      isSigningContract === selectedContract.contract.id || !isSignatureComplete(contractSignature)
+                    }
                   >
                     {isSigningContract === selectedContract.contract.id ? "Signing..." : "Sign Contract"}
                   </Button>
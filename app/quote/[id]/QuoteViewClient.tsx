@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -13,8 +14,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { CheckCircle, XCircle, Clock, FileText, AlertCircle, Building2, Mail, Phone } from "lucide-react"
+import { CheckCircle, XCircle, Clock, FileText, AlertCircle, Building2, Mail, Phone, Download } from "lucide-react"
 import { toast } from "sonner"
+import {
+  emptySignature,
+  isSignatureComplete,
+  SignatureCapture,
+  type SignatureCaptureValue,
+} from "@/components/signatures/signature-capture"
 
 interface QuoteItem {
   id: number
@@ -63,11 +70,17 @@ interface Company {
 interface QuoteViewClientProps {
   quote: Quote
   company: Company | null | undefined
+  token: string
   action?: string
 }
 
-export default function QuoteViewClient({ quote, company, action }: QuoteViewClientProps) {
+export default function QuoteViewClient({ quote, company, token, action }: QuoteViewClientProps) {
   const [isAccepting, setIsAccepting] = useState(false)
+  const [showAcceptDialog, setShowAcceptDialog] = useState(false)
+  const [signature, setSignature] = useState<SignatureCaptureValue>(
+    emptySignature(quote.customer?.name || "", quote.customer?.email || ""),
+  )
+  const [signedDocumentUrl, setSignedDocumentUrl] = useState<string | null>(null)
   const [isRejecting, setIsRejecting] = useState(false)
   const [showRejectDialog, setShowRejectDialog] = useState(false)
   const [rejectReason, setRejectReason] = useState("")
@@ -82,9 +95,9 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
   // Auto-show accept confirmation if action=accept
   useEffect(() => {
     if (action === "accept" && canRespond) {
-      handleAccept()
+      setShowAcceptDialog(true)
     }
-  }, [action])
+  }, [action, canRespond])
 
   const handleAccept = async () => {
     if (!canRespond) return
@@ -94,14 +107,16 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
       const res = await fetch(`/api/quotes/${quote.id}/accept`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ token, signature }),
       })
 
+      const data = await res.json()
       if (!res.ok) {
-        const error = await res.json()
-        throw new Error(error.error || "Failed to accept quote")
+        throw new Error(data.error || "Failed to accept quote")
       }
 
+      setSignedDocumentUrl(data.signedDocumentUrl || null)
+      setShowAcceptDialog(false)
       setCurrentStatus("accepted")
       toast.success("Quote accepted successfully!", {
         description: "The service provider has been notified.",
@@ -121,7 +136,7 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
       const res = await fetch(`/api/quotes/${quote.id}/reject`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ reason: rejectReason }),
+        body: JSON.stringify({ token, reason: rejectReason }),
       })
 
       if (!res.ok) {
@@ -169,7 +184,14 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
             <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
               <div>
                 {company?.logo ? (
-                  <img src={company.logo} alt={company.name} className="h-12 mb-2" />
+                  <Image
+                    src={company.logo}
+                    alt={company.name}
+                    width={192}
+                    height={48}
+                    unoptimized
+                    className="h-12 w-auto mb-2"
+                  />
                 ) : (
                   <h1 className="text-2xl font-bold text-gray-900">{company?.name || "Service Provider"}</h1>
                 )}
@@ -340,17 +362,11 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
                 <Button
                   size="lg"
                   className="bg-green-600 hover:bg-green-700"
-                  onClick={handleAccept}
+                  onClick={() => setShowAcceptDialog(true)}
                   disabled={isAccepting}
                 >
-                  {isAccepting ? (
-                    "Processing..."
-                  ) : (
-                    <>
-                      <CheckCircle className="h-4 w-4 mr-2" />
-                      Accept Quote
-                    </>
-                  )}
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Accept Quote
                 </Button>
               </div>
             </CardContent>
@@ -366,6 +382,14 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
               <p className="text-green-700">
                 Thank you for accepting this quote. {company?.name || "The service provider"} will be in touch shortly to schedule the work.
               </p>
+              {signedDocumentUrl && (
+                <Button variant="outline" size="sm" className="mt-4" asChild>
+                  <a href={signedDocumentUrl} target="_blank" rel="noreferrer">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download signed copy
+                  </a>
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -412,13 +436,39 @@ export default function QuoteViewClient({ quote, company, action }: QuoteViewCli
         </div>
       </div>
 
+      {/* Accept Dialog */}
+      <Dialog open={showAcceptDialog} onOpenChange={setShowAcceptDialog}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sign & Accept Quote</DialogTitle>
+            <DialogDescription>
+              Sign to accept quote {quote.quoteNumber}. Your name, email, IP address, device and the time you sign are
+              recorded with your signature, and you&apos;ll get a signed copy to keep.
+            </DialogDescription>
+          </DialogHeader>
+          <SignatureCapture value={signature} onChange={setSignature} documentLabel="quote" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAcceptDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={handleAccept}
+              disabled={isAccepting || !isSignatureComplete(signature)}
+            >
+              {isAccepting ? "Processing..." : "Sign & Accept"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Reject Dialog */}
       <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Decline Quote</DialogTitle>
             <DialogDescription>
-              Please let us know why you're declining this quote (optional). This helps us improve our services.
+              Please let us know why you&apos;re declining this quote (optional). This helps us improve our services.
             </DialogDescription>
           </DialogHeader>
           <Textarea
@@ -53,6 +53,7 @@ export default async function QuotePage({ params, searchParams }: QuotePageProps
     <QuoteViewClient 
       quote={quote} 
       company={company} 
+      token={token}
       action={action}
     />
   )
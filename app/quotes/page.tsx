@@ -50,6 +50,8 @@ import {
   AlertCircle,
 } from "lucide-react"
 import { toast } from "sonner"
+import { PriceBookCalculator } from "@/components/invoicing/price-book-calculator"
+import type { PriceQuote } from "@/lib/pricing"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -251,6 +253,23 @@ export default function QuotesPage() {
     setLineItems(updated)
   }
 
+  // The area surcharge line is left to the server, which adds it for the customer's address when the quote is saved
+  const applyPriceBookQuote = (quote: PriceQuote) => {
+    const lines = quote.lines.filter((line) => line.kind !== "area_surcharge")
+    setLineItems(
+      lines.map((line) => ({
+        title: line.title,
+        description: "",
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        amount: line.amount,
+      }))
+    )
+    if (quote.areaSurcharge > 0) {
+      toast.info(`A £${quote.areaSurcharge.toFixed(2)} area surcharge will be added when the quote is saved`)
+    }
+  }
+
   const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0)
   const taxAmount = subtotal * (taxRate / 100)
   const total = subtotal + taxAmount - discountAmount
@@ -543,6 +562,8 @@ export default function QuotesPage() {
                   </Button>
                 </div>
 
+                <PriceBookCalculator customerId={selectedCustomer} onPriced={applyPriceBookQuote} />
+
                 <div className="border rounded-lg overflow-hidden">
                   <Table>
                     <TableHeader>
@@ -4,41 +4,124 @@ import { DashboardHeaderClient } from "@/components/dashboard-header-client"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Calendar, MapPin, Clock, Navigation, Users, Fuel, TrendingDown, Download } from "lucide-react"
-import { useState } from "react"
-
-const routeData = [
-  {
-    id: 1,
-    date: "2024-01-15",
-    staff: "Sarah Chen",
-    jobs: [
-      { time: "8:00 AM", client: "Elite Towers", address: "123 Main St", duration: "2h", status: "completed" },
-      { time: "10:30 AM", client: "City Hall", address: "456 Oak Ave", duration: "1.5h", status: "completed" },
-      { time: "1:00 PM", client: "Tech Campus", address: "789 Park Blvd", duration: "3h", status: "in-progress" },
-      { time: "4:30 PM", client: "Grand Hotel", address: "321 Beach Rd", duration: "2h", status: "scheduled" },
-    ],
-    totalDistance: "28.5 miles",
-    estimatedFuel: "$12.40",
-    optimizedSaving: "35%",
-  },
-  {
-    id: 2,
-    date: "2024-01-15",
-    staff: "Mike Johnson",
-    jobs: [
-      { time: "8:30 AM", client: "Shopping Mall", address: "555 Commerce Dr", duration: "2.5h", status: "completed" },
-      { time: "11:30 AM", client: "Office Plaza", address: "888 Business Way", duration: "2h", status: "in-progress" },
-      { time: "2:00 PM", client: "Retail Center", address: "999 Market St", duration: "1.5h", status: "scheduled" },
-    ],
-    totalDistance: "22.3 miles",
-    estimatedFuel: "$9.70",
-    optimizedSaving: "28%",
-  },
-]
+import { Input } from "@/components/ui/input"
+import { MapPin, Clock, Navigation, Users, Fuel, TrendingDown, Loader2, CheckCircle, AlertCircle } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { useToast } from "@/hooks/use-toast"
+import { formatCurrency } from "@/lib/utils"
+
+interface RoutedJob {
+  id: number
+  title: string
+  status: string
+  customerName: string | null
+  address: string
+  scheduledFor: string
+  durationMinutes: number
+}
+
+interface RouteSummary {
+  order: number[]
+  totalMiles: number
+  travelMinutes: number
+  minutesLate: number
+  legs: Array<{ fromJobId: number | null; toJobId: number | null; miles: number; travelMinutes: number }>
+  schedule: Array<{ jobId: number; startAt: string; endAt: string }>
+}
+
+interface DailyRoute {
+  employee: { id: number; name: string; hasHomeLocation: boolean }
+  jobs: RoutedJob[]
+  unlocatedJobs: RoutedJob[]
+  current: RouteSummary
+  optimized: RouteSummary
+  savingMiles: number
+  savingPercent: number
+  savingCost: number
+}
+
+interface RoutesResponse {
+  routes: DailyRoute[]
+  totals: { currentMiles: number; optimizedMiles: number; savingMiles: number; savingCost: number }
+}
+
+function formatDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  if (hours === 0) return `${mins}m`
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`
+}
+
+function isOrderChanged(route: DailyRoute) {
+  return route.optimized.order.some((jobId, index) => route.current.order[index] !== jobId)
+}
 
 export default function RoutesPage() {
-  const [selectedDate, setSelectedDate] = useState("2024-01-15")
+  const { toast } = useToast()
+  const [selectedDate, setSelectedDate] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [data, setData] = useState<RoutesResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [applyingEmployeeId, setApplyingEmployeeId] = useState<number | null>(null)
+
+  const fetchRoutes = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/routes?date=${selectedDate}`)
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}))
+        throw new Error(error.error || "Failed to load routes")
+      }
+      setData(await res.json())
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load routes",
+        variant: "destructive",
+      })
+      setData(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedDate, toast])
+
+  useEffect(() => {
+    fetchRoutes()
+  }, [fetchRoutes])
+
+  const applyRoute = async (route: DailyRoute) => {
+    setApplyingEmployeeId(route.employee.id)
+    try {
+      const res = await fetch("/api/routes/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: selectedDate,
+          employeeId: route.employee.id,
+          jobIds: route.optimized.order,
+        }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        throw new Error(result.error || "Failed to apply route")
+      }
+      toast({ title: "Route applied", description: result.message })
+      await fetchRoutes()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply route",
+        variant: "destructive",
+      })
+    } finally {
+      setApplyingEmployeeId(null)
+    }
+  }
+
+  const routes = data?.routes ?? []
+  const totals = data?.totals
+  const savingPercent =
+    totals && totals.currentMiles > 0 ? Math.round((totals.savingMiles / totals.currentMiles) * 100) : 0
 
   return (
     <div className="min-h-screen bg-background">
@@ -51,14 +134,12 @@ export default function RoutesPage() {
             <p className="text-muted-foreground mt-1">Optimize travel routes and reduce costs</p>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm">
-              <Calendar className="h-4 w-4 mr-2" />
-              Select Date
-            </Button>
-            <Button variant="outline" size="sm">
-              <Download className="h-4 w-4 mr-2" />
-              Export Routes
-            </Button>
+            <Input
+              type="date"
+              value={selectedDate}
+              onChange={(event) => setSelectedDate(event.target.value)}
+              className="w-[180px]"
+            />
           </div>
         </div>
 
@@ -70,10 +151,12 @@ export default function RoutesPage() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Total Distance</p>
-                <p className="text-2xl font-bold">50.8 miles</p>
+                <p className="text-2xl font-bold">{(totals?.optimizedMiles ?? 0).toFixed(1)} miles</p>
               </div>
             </div>
-            <p className="text-sm text-muted-foreground mt-3">vs 78.2 miles unoptimized</p>
+            <p className="text-sm text-muted-foreground mt-3">
+              vs {(totals?.currentMiles ?? 0).toFixed(1)} miles in the current order
+            </p>
           </Card>
 
           <Card className="p-6">
@@ -82,11 +165,13 @@ export default function RoutesPage() {
                 <Fuel className="h-5 w-5 text-green-500" />
               </div>
               <div>
-                <p className="text-sm text-muted-foreground">Fuel Cost</p>
-                <p className="text-2xl font-bold">$22.10</p>
+                <p className="text-sm text-muted-foreground">Mileage Saving</p>
+                <p className="text-2xl font-bold">{formatCurrency(totals?.savingCost ?? 0)}</p>
               </div>
             </div>
-            <p className="text-sm text-muted-foreground mt-3">Saved $12.50 today</p>
+            <p className="text-sm text-muted-foreground mt-3">
+              {(totals?.savingMiles ?? 0).toFixed(1)} fewer miles at 45p per mile
+            </p>
           </Card>
 
           <Card className="p-6">
@@ -96,117 +181,141 @@ export default function RoutesPage() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Optimization</p>
-                <p className="text-2xl font-bold">32%</p>
+                <p className="text-2xl font-bold">{savingPercent}%</p>
               </div>
             </div>
-            <p className="text-sm text-muted-foreground mt-3">Average savings</p>
+            <p className="text-sm text-muted-foreground mt-3">Across {routes.length} staff routes</p>
           </Card>
         </div>
 
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold mb-4">Visual Route Map</h3>
-          <div className="relative bg-muted rounded-lg h-[400px] overflow-hidden">
-            <img src="/google-maps-style-route-visualization-with-multipl.jpg" alt="Route Map" className="w-full h-full object-cover" />
-            <div className="absolute top-4 right-4 bg-background/95 backdrop-blur p-3 rounded-lg shadow-lg">
-              <div className="flex items-center gap-2 text-sm">
-                <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                <span>Completed</span>
-              </div>
-              <div className="flex items-center gap-2 text-sm mt-1">
-                <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                <span>In Progress</span>
-              </div>
-              <div className="flex items-center gap-2 text-sm mt-1">
-                <div className="w-3 h-3 rounded-full bg-gray-400"></div>
-                <span>Scheduled</span>
-              </div>
-            </div>
-          </div>
-          <p className="text-sm text-muted-foreground mt-3">
-            Interactive map showing optimized routes for all staff members with live GPS tracking
-          </p>
-        </Card>
-
-        <div className="space-y-4">
-          {routeData.map((route) => (
-            <Card key={route.id} className="p-6">
-              <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className="p-2 bg-primary/10 rounded-lg">
-                    <Users className="h-5 w-5 text-primary" />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold">{route.staff}</h3>
-                    <p className="text-sm text-muted-foreground">{route.jobs.length} jobs scheduled</p>
-                  </div>
-                </div>
-                <div className="flex gap-4 text-sm">
-                  <div className="flex items-center gap-2">
-                    <MapPin className="h-4 w-4 text-muted-foreground" />
-                    <span>{route.totalDistance}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Fuel className="h-4 w-4 text-muted-foreground" />
-                    <span>{route.estimatedFuel}</span>
-                  </div>
-                  <Badge variant="secondary" className="bg-green-500/10 text-green-700">
-                    {route.optimizedSaving} saved
-                  </Badge>
-                </div>
-              </div>
+        {loading ? (
+          <Card className="p-12 flex items-center justify-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Calculating routes...
+          </Card>
+        ) : routes.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">
+            No assigned jobs to route on {format(new Date(selectedDate), "d MMMM yyyy")}
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {routes.map((route) => {
+              const jobsById = new Map(route.jobs.map((job) => [job.id, job]))
+              const changed = isOrderChanged(route)
 
-              <div className="space-y-3">
-                {route.jobs.map((job, index) => (
-                  <div key={index} className="flex items-start gap-4 p-4 bg-muted/50 rounded-lg">
-                    <div className="flex flex-col items-center gap-1">
-                      <div
-                        className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
-                          job.status === "completed"
-                            ? "bg-green-500 text-white"
-                            : job.status === "in-progress"
-                              ? "bg-blue-500 text-white"
-                              : "bg-muted text-muted-foreground"
-                        }`}
-                      >
-                        {index + 1}
+              return (
+                <Card key={route.employee.id} className="p-6">
+                  <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-primary/10 rounded-lg">
+                        <Users className="h-5 w-5 text-primary" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold">{route.employee.name}</h3>
+                        <p className="text-sm text-muted-foreground">{route.jobs.length} jobs scheduled</p>
                       </div>
-                      {index < route.jobs.length - 1 && <div className="w-0.5 h-8 bg-border"></div>}
                     </div>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <h4 className="font-semibold">{job.client}</h4>
-                          <p className="text-sm text-muted-foreground flex items-center gap-1">
-                            <MapPin className="h-3 w-3" />
-                            {job.address}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center gap-2 text-sm">
-                            <Clock className="h-4 w-4 text-muted-foreground" />
-                            <span>{job.time}</span>
-                          </div>
-                          <p className="text-sm text-muted-foreground mt-1">{job.duration}</p>
-                        </div>
+                    <div className="flex gap-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4 text-muted-foreground" />
+                        <span>
+                          {route.optimized.totalMiles.toFixed(1)} miles
+                          {changed && (
+                            <span className="text-muted-foreground"> (was {route.current.totalMiles.toFixed(1)})</span>
+                          )}
+                        </span>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <span>{formatDuration(route.optimized.travelMinutes)} driving</span>
+                      </div>
+                      <Badge variant="secondary" className="bg-green-500/10 text-green-700">
+                        {route.savingPercent}% saved
+                      </Badge>
                     </div>
                   </div>
-                ))}
-              </div>
 
-              <div className="mt-4 flex gap-2">
-                <Button size="sm" variant="outline">
-                  <MapPin className="h-4 w-4 mr-2" />
-                  View in Maps
-                </Button>
-                <Button size="sm" variant="outline">
-                  <Navigation className="h-4 w-4 mr-2" />
-                  Send to Staff
-                </Button>
-              </div>
-            </Card>
-          ))}
-        </div>
+                  <div className="space-y-3">
+                    {route.optimized.schedule.map((stop, index) => {
+                      const job = jobsById.get(stop.jobId)
+                      const leg = route.optimized.legs.find((candidate) => candidate.toJobId === stop.jobId)
+                      if (!job) return null
+
+                      return (
+                        <div key={stop.jobId} className="flex items-start gap-4 p-4 bg-muted/50 rounded-lg">
+                          <div className="flex flex-col items-center gap-1">
+                            <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold bg-primary text-primary-foreground">
+                              {index + 1}
+                            </div>
+                            {index < route.optimized.schedule.length - 1 && <div className="w-0.5 h-8 bg-border"></div>}
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h4 className="font-semibold">{job.customerName || job.title}</h4>
+                                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                                  <MapPin className="h-3 w-3" />
+                                  {job.address || "No address"}
+                                </p>
+                                {leg && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {leg.miles.toFixed(1)} miles, ~{formatDuration(leg.travelMinutes)} from previous stop
+                                  </p>
+                                )}
+                              </div>
+                              <div className="text-right">
+                                <div className="flex items-center gap-2 text-sm">
+                                  <Clock className="h-4 w-4 text-muted-foreground" />
+                                  <span>{format(new Date(stop.startAt), "h:mm a")}</span>
+                                </div>
+                                {stop.startAt !== job.scheduledFor && (
+                                  <p className="text-xs text-muted-foreground">
+                                    was {format(new Date(job.scheduledFor), "h:mm a")}
+                                  </p>
+                                )}
+                                <p className="text-sm text-muted-foreground mt-1">{formatDuration(job.durationMinutes)}</p>
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  {route.unlocatedJobs.length > 0 && (
+                    <div className="mt-4 flex items-start gap-2 text-sm text-amber-700">
+                      <AlertCircle className="h-4 w-4 mt-0.5" />
+                      <span>
+                        Couldn&apos;t locate {route.unlocatedJobs.map((job) => job.title).join(", ")}. These jobs keep their
+                        current times.
+                      </span>
+                    </div>
+                  )}
+                  {!route.employee.hasHomeLocation && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      No home address on file, so the route starts at the first job.
+                    </p>
+                  )}
+
+                  <div className="mt-4 flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={!changed || applyingEmployeeId === route.employee.id}
+                      onClick={() => applyRoute(route)}
+                    >
+                      {applyingEmployeeId === route.employee.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                      )}
+                      {changed ? "Apply Optimized Order" : "Already Optimal"}
+                    </Button>
+                  </div>
+                </Card>
+              )
+            })}
+          </div>
+        )}
       </main>
     </div>
   )
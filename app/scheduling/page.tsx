@@ -5,15 +5,20 @@ import { CalendarView } from "@/components/scheduling/calendar-view"
 import { ScheduleList } from "@/components/scheduling/schedule-list"
 import { NeedsReassignment } from "@/components/scheduling/needs-reassignment"
 import { Button } from "@/components/ui/button"
-import { Plus, Filter, Download } from "lucide-react"
+import { Plus, Filter, Download, Sparkles, Upload } from "lucide-react"
 import { useState, useEffect, Suspense } from "react"
 import { useSearchParams } from "next/navigation"
 import { CreateJobDialog } from "@/components/scheduling/create-job-dialog"
-import { JobsProvider } from "@/lib/jobs-context"
+import { AutoAssignDialog } from "@/components/scheduling/auto-assign-dialog"
+import { ImportDialog } from "@/components/imports/import-dialog"
+import { JobsProvider, useJobs } from "@/lib/jobs-context"
 import { toast } from "sonner"
 
 function SchedulingPageContent() {
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showAutoAssign, setShowAutoAssign] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const { refreshJobs } = useJobs()
   const [viewMode, setViewMode] = useState<"calendar" | "list">("calendar")
   const [exporting, setExporting] = useState(false)
   const searchParams = useSearchParams()
@@ -110,6 +115,15 @@ function SchedulingPageContent() {
               <Filter className="h-4 w-4 mr-2" />
               Filter
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full sm:w-auto"
+              onClick={() => setShowImport(true)}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -120,6 +134,15 @@ function SchedulingPageContent() {
               <Download className="h-4 w-4 mr-2" />
               {exporting ? "Exporting..." : "Export"}
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full sm:w-auto"
+              onClick={() => setShowAutoAssign(true)}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Auto-assign
+            </Button>
             <Button size="sm" onClick={() => setShowCreateDialog(true)} className="w-full sm:w-auto">
               <Plus className="h-4 w-4 mr-2" />
               New Job
@@ -150,6 +173,8 @@ function SchedulingPageContent() {
         {viewMode === "calendar" ? <CalendarView /> : <ScheduleList />}
 
         <CreateJobDialog open={showCreateDialog} onOpenChange={setShowCreateDialog} />
+        <AutoAssignDialog open={showAutoAssign} onOpenChange={setShowAutoAssign} />
+        <ImportDialog entityType="jobs" open={showImport} onOpenChange={setShowImport} onImported={refreshJobs} />
       </main>
     </div>
   )
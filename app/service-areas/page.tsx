@@ -30,7 +30,7 @@ import {
   CheckCircle,
   XCircle,
 } from "lucide-react"
-import { endOfDay, endOfMonth, startOfDay, startOfMonth } from "date-fns"
+import { endOfMonth, format, startOfMonth } from "date-fns"
 import { toast } from "sonner"
 
 interface ServiceAreaApi {
@@ -40,6 +40,8 @@ interface ServiceAreaApi {
   postcodes: string | null
   city: string | null
   radius: string | null
+  centerLat: string | null
+  centerLng: string | null
   surchargeAmount: string | null
   surchargePercent: string | null
   isActive: number | null
@@ -48,35 +50,22 @@ interface ServiceAreaApi {
   updatedAt: string
 }
 
-interface CustomerRecord {
-  id: number
-  postcode: string | null
-}
-
-interface JobRecord {
-  id: number
-  postcode: string | null
-  status: string
-  assignedTo: number | null
-  durationMinutes: number | null
-  completedAt: string | null
-  actualPrice: string | null
-  estimatedPrice: string | null
-}
-
-interface ProfitabilitySummary {
-  summary?: {
-    totalRevenue?: number
-  }
-}
-
 interface ServiceAreaStats {
+  jobs: number
   customers: number
   staff: number
   revenue: number
+  surchargeRevenue: number
   avgDurationMinutes: number
 }
 
+interface ServiceAreaReportRow extends ServiceAreaStats {
+  areaId: number | null
+  name: string
+  isActive: boolean
+  completedJobs: number
+}
+
 interface ServiceAreaView extends ServiceAreaApi {
   postcodesList: string[]
   stats: ServiceAreaStats
@@ -98,6 +87,24 @@ function getStatusBadge(isActive: boolean) {
   )
 }
 
+const EMPTY_STATS: ServiceAreaStats = {
+  jobs: 0,
+  customers: 0,
+  staff: 0,
+  revenue: 0,
+  surchargeRevenue: 0,
+  avgDurationMinutes: 0,
+}
+
+function describeSurcharge(area: ServiceAreaApi) {
+  const parts: string[] = []
+  const amount = Number.parseFloat(area.surchargeAmount || "")
+  const percent = Number.parseFloat(area.surchargePercent || "")
+  if (Number.isFinite(amount) && amount > 0) parts.push(`+£${amount.toFixed(2)}`)
+  if (Number.isFinite(percent) && percent > 0) parts.push(`+${percent}%`)
+  return parts.length > 0 ? parts.join(" ") : "No surcharge"
+}
+
 const AREA_COLORS = [
   "#3B82F6",
   "#10B981",
@@ -113,14 +120,16 @@ export default function ServiceAreasPage() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [loading, setLoading] = useState(true)
   const [areas, setAreas] = useState<ServiceAreaApi[]>([])
-  const [customers, setCustomers] = useState<CustomerRecord[]>([])
-  const [jobs, setJobs] = useState<JobRecord[]>([])
-  const [monthlyRevenue, setMonthlyRevenue] = useState(0)
+  const [report, setReport] = useState<ServiceAreaReportRow[]>([])
   const [savingAreaId, setSavingAreaId] = useState<number | null>(null)
 
   const [newAreaName, setNewAreaName] = useState("")
   const [newAreaPostcodes, setNewAreaPostcodes] = useState("")
   const [newAreaStatus, setNewAreaStatus] = useState<"active" | "inactive">("active")
+  const [newAreaSurchargeAmount, setNewAreaSurchargeAmount] = useState("")
+  const [newAreaSurchargePercent, setNewAreaSurchargePercent] = useState("")
+  const [newAreaCentrePostcode, setNewAreaCentrePostcode] = useState("")
+  const [newAreaRadius, setNewAreaRadius] = useState("")
 
   const [postcodeInputs, setPostcodeInputs] = useState<Record<number, string>>({})
   const [editingPostcode, setEditingPostcode] = useState<{ areaId: number; index: number } | null>(null)
@@ -137,8 +146,8 @@ export default function ServiceAreasPage() {
     []
   )
 
-  const monthStart = useMemo(() => startOfDay(startOfMonth(new Date())), [])
-  const monthEnd = useMemo(() => endOfDay(endOfMonth(new Date())), [])
+  const monthStart = useMemo(() => startOfMonth(new Date()), [])
+  const monthEnd = useMemo(() => endOfMonth(new Date()), [])
 
   const normalizePrefix = useCallback((value: string) => value.toUpperCase().replace(/\s+/g, "").trim(), [])
 
@@ -173,28 +182,17 @@ export default function ServiceAreasPage() {
   const loadData = useCallback(async () => {
     setLoading(true)
     try {
-      const profitabilityUrl = `/api/profitability?startDate=${monthStart.toISOString()}&endDate=${monthEnd.toISOString()}`
-      const [areasRes, customersRes, jobsRes, profitabilityRes] = await Promise.all([
-        fetch("/api/service-areas"),
-        fetch("/api/customers"),
-        fetch("/api/jobs?status=completed&limit=1000&sort=updatedAt"),
-        fetch(profitabilityUrl),
-      ])
+      const reportUrl = `/api/service-areas/report?from=${format(monthStart, "yyyy-MM-dd")}&to=${format(monthEnd, "yyyy-MM-dd")}`
+      const [areasRes, reportRes] = await Promise.all([fetch("/api/service-areas"), fetch(reportUrl)])
 
       if (!areasRes.ok) throw new Error("Failed to fetch service areas")
-      if (!customersRes.ok) throw new Error("Failed to fetch customers")
-      if (!jobsRes.ok) throw new Error("Failed to fetch jobs")
+      if (!reportRes.ok) throw new Error("Failed to fetch service area report")
 
       const areasPayload = await areasRes.json()
-      const customersPayload = await customersRes.json()
-      const jobsPayload = await jobsRes.json()
-
-      const profitabilityPayload: ProfitabilitySummary = profitabilityRes.ok ? await profitabilityRes.json() : {}
+      const reportPayload = await reportRes.json()
 
       setAreas(Array.isArray(areasPayload) ? areasPayload : [])
-      setCustomers(Array.isArray(customersPayload) ? customersPayload : [])
-      setJobs(Array.isArray(jobsPayload) ? jobsPayload : [])
-      setMonthlyRevenue(profitabilityPayload.summary?.totalRevenue || 0)
+      setReport(Array.isArray(reportPayload.areas) ? reportPayload.areas : [])
     } catch (error) {
       console.error("Failed to load service areas data:", error)
       toast.error("Failed to load service areas data")
@@ -219,95 +217,29 @@ export default function ServiceAreasPage() {
     })
   }, [areas])
 
-  const jobsInMonth = useMemo(
-    () =>
-      jobs.filter((job) => {
-        if (!job.completedAt) return false
-        const completedAt = new Date(job.completedAt)
-        return completedAt >= monthStart && completedAt <= monthEnd
-      }),
-    [jobs, monthEnd, monthStart]
-  )
-
   const areasWithStats = useMemo<ServiceAreaView[]>(() => {
-    const baseAreas: ServiceAreaView[] = areas.map((area) => ({
-      ...area,
-      postcodesList: parsePostcodesList(area.postcodes),
-      stats: {
-        customers: 0,
-        staff: 0,
-        revenue: 0,
-        avgDurationMinutes: 0,
-      },
-    }))
-
-    if (baseAreas.length === 0) return baseAreas
-
-    const matchAreaId = (postcode: string | null) => {
-      const normalized = normalizePrefix(postcode || "")
-      if (!normalized) return null
-      const match = baseAreas.find((area) =>
-        area.postcodesList.some((prefix) => normalized.startsWith(prefix))
-      )
-      return match?.id ?? null
-    }
-
-    const customerSets = new Map<number, Set<number>>()
-    const staffSets = new Map<number, Set<number>>()
-    const durationTotals = new Map<number, { sum: number; count: number }>()
-
-    for (const area of baseAreas) {
-      customerSets.set(area.id, new Set<number>())
-      staffSets.set(area.id, new Set<number>())
-      durationTotals.set(area.id, { sum: 0, count: 0 })
-    }
-
-    for (const customer of customers) {
-      const areaId = matchAreaId(customer.postcode)
-      if (!areaId) continue
-      customerSets.get(areaId)?.add(customer.id)
-    }
-
-    for (const job of jobsInMonth) {
-      const areaId = matchAreaId(job.postcode)
-      if (!areaId) continue
-
-      const priceValue = job.actualPrice ?? job.estimatedPrice ?? "0"
-      const price = Number.parseFloat(priceValue)
-      if (Number.isFinite(price)) {
-        const area = baseAreas.find((item) => item.id === areaId)
-        if (area) {
-          area.stats.revenue += price
-        }
-      }
-
-      if (job.assignedTo) {
-        staffSets.get(areaId)?.add(job.assignedTo)
-      }
-
-      if (job.durationMinutes && job.durationMinutes > 0) {
-        const duration = durationTotals.get(areaId)
-        if (duration) {
-          duration.sum += job.durationMinutes
-          duration.count += 1
-        }
-      }
-    }
-
-    return baseAreas.map((area) => {
-      const duration = durationTotals.get(area.id) || { sum: 0, count: 0 }
+    const statsByArea = new Map(report.map((row) => [row.areaId, row]))
+    return areas.map((area) => {
+      const row = statsByArea.get(area.id)
       return {
         ...area,
-        stats: {
-          customers: customerSets.get(area.id)?.size || 0,
-          staff: staffSets.get(area.id)?.size || 0,
-          revenue: Math.round(area.stats.revenue * 100) / 100,
-          avgDurationMinutes:
-            duration.count > 0 ? Math.round(duration.sum / duration.count) : 0,
-        },
+        postcodesList: parsePostcodesList(area.postcodes),
+        stats: row
+          ? {
+              jobs: row.jobs,
+              customers: row.customers,
+              staff: row.staff,
+              revenue: row.revenue,
+              surchargeRevenue: row.surchargeRevenue,
+              avgDurationMinutes: row.avgDurationMinutes,
+            }
+          : EMPTY_STATS,
       }
     })
-  }, [areas, customers, jobsInMonth, normalizePrefix, parsePostcodesList])
+  }, [areas, parsePostcodesList, report])
+
+  // Work booked at addresses no area covers
+  const outsideAreas = useMemo(() => report.find((row) => row.areaId === null) || null, [report])
 
   const areaById = useMemo(() => {
     const map = new Map<number, ServiceAreaView>()
@@ -335,18 +267,20 @@ export default function ServiceAreasPage() {
     () => areasWithStats.filter((area) => area.isActive === 1).length,
     [areasWithStats]
   )
-  const totalCustomers = customers.length
-  const computedRevenue = areasWithStats.reduce((sum, area) => sum + area.stats.revenue, 0)
-  const totalRevenue = monthlyRevenue > 0 ? monthlyRevenue : computedRevenue
+  const totalCustomers = report.reduce((sum, row) => sum + row.customers, 0)
+  const totalRevenue = report.reduce((sum, row) => sum + row.revenue, 0)
+  const totalSurchargeRevenue = report.reduce((sum, row) => sum + row.surchargeRevenue, 0)
 
   const avgDurationMinutes = useMemo(() => {
-    const durations = jobsInMonth
-      .map((job) => job.durationMinutes || 0)
-      .filter((minutes) => minutes > 0)
-    if (durations.length === 0) return 0
-    const total = durations.reduce((sum, minutes) => sum + minutes, 0)
-    return Math.round(total / durations.length)
-  }, [jobsInMonth])
+    let total = 0
+    let count = 0
+    for (const row of report) {
+      if (row.avgDurationMinutes <= 0) continue
+      total += row.avgDurationMinutes * row.completedJobs
+      count += row.completedJobs
+    }
+    return count > 0 ? Math.round(total / count) : 0
+  }, [report])
 
   const updateAreaPostcodes = useCallback(async (areaId: number, nextPostcodes: string[]) => {
     setSavingAreaId(areaId)
@@ -443,22 +377,41 @@ export default function ServiceAreasPage() {
           name,
           postcodes,
           isActive: newAreaStatus === "active",
+          surchargeAmount: newAreaSurchargeAmount || null,
+          surchargePercent: newAreaSurchargePercent || null,
+          centerPostcode: newAreaCentrePostcode.trim() || null,
+          radius: newAreaRadius || null,
         }),
       })
       if (!res.ok) {
-        throw new Error("Failed to create service area")
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || "Failed to create service area")
       }
       setCreateDialogOpen(false)
       setNewAreaName("")
       setNewAreaPostcodes("")
       setNewAreaStatus("active")
+      setNewAreaSurchargeAmount("")
+      setNewAreaSurchargePercent("")
+      setNewAreaCentrePostcode("")
+      setNewAreaRadius("")
       await loadData()
       toast.success("Service area created")
     } catch (error) {
       console.error("Failed to create service area:", error)
-      toast.error("Failed to create service area")
+      toast.error(error instanceof Error ? error.message : "Failed to create service area")
     }
-  }, [loadData, newAreaName, newAreaPostcodes, newAreaStatus, parsePostcodesInput])
+  }, [
+    loadData,
+    newAreaCentrePostcode,
+    newAreaName,
+    newAreaPostcodes,
+    newAreaRadius,
+    newAreaStatus,
+    newAreaSurchargeAmount,
+    newAreaSurchargePercent,
+    parsePostcodesInput,
+  ])
 
   const handleDeleteArea = useCallback(
     async (areaId: number) => {
@@ -593,6 +546,51 @@ export default function ServiceAreasPage() {
                 />
                 <p className="text-xs text-muted-foreground">Enter postcode prefixes that this area covers</p>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Centre postcode</Label>
+                  <Input
+                    placeholder="e.g., SW1A 1AA"
+                    value={newAreaCentrePostcode}
+                    onChange={(e) => setNewAreaCentrePostcode(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Radius (km)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={newAreaRadius}
+                    onChange={(e) => setNewAreaRadius(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Addresses that don&apos;t match a postcode are covered if they fall within the radius.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Surcharge (£)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={newAreaSurchargeAmount}
+                    onChange={(e) => setNewAreaSurchargeAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Surcharge (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={newAreaSurchargePercent}
+                    onChange={(e) => setNewAreaSurchargePercent(e.target.value)}
+                  />
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label>Status</Label>
                 <Select value={newAreaStatus} onValueChange={(value) => setNewAreaStatus(value as "active" | "inactive")}>
@@ -641,7 +639,7 @@ export default function ServiceAreasPage() {
               </div>
               <div>
                 <p className="text-2xl font-bold">{totalCustomers}</p>
-                <p className="text-sm text-muted-foreground">Total customers</p>
+                <p className="text-sm text-muted-foreground">Customers served</p>
               </div>
             </div>
           </CardContent>
@@ -654,7 +652,10 @@ export default function ServiceAreasPage() {
               </div>
               <div>
                 <p className="text-2xl font-bold">{currencyFormatter.format(totalRevenue)}</p>
-                <p className="text-sm text-muted-foreground">Monthly revenue</p>
+                <p className="text-sm text-muted-foreground">
+                  Monthly revenue
+                  {totalSurchargeRevenue > 0 && ` (${currencyFormatter.format(totalSurchargeRevenue)} surcharges)`}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -791,6 +792,11 @@ export default function ServiceAreasPage() {
                       <Pound className="h-3 w-3" />
                       {currencyFormatter.format(area.stats.revenue)}
                     </div>
+                    <div className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {area.stats.jobs} jobs
+                    </div>
+                    <div>{describeSurcharge(area)}</div>
                   </div>
 
                   <div className="mt-3 flex gap-2">
@@ -815,6 +821,8 @@ export default function ServiceAreasPage() {
               <TableRow>
                 <TableHead>Area</TableHead>
                 <TableHead>Postcodes</TableHead>
+                <TableHead>Pricing</TableHead>
+                <TableHead>Jobs</TableHead>
                 <TableHead>Customers</TableHead>
                 <TableHead>Staff</TableHead>
                 <TableHead>Avg Duration</TableHead>
@@ -872,6 +880,13 @@ export default function ServiceAreasPage() {
                         </Button>
                       </div>
                     </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{describeSurcharge(area)}</p>
+                      {area.radius && area.centerLat && (
+                        <p className="text-xs text-muted-foreground">Within {area.radius} km of centre</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{area.stats.jobs}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
                         <Home className="h-4 w-4 text-muted-foreground" />
@@ -887,7 +902,14 @@ export default function ServiceAreasPage() {
                     <TableCell>
                       {area.stats.avgDurationMinutes > 0 ? `${area.stats.avgDurationMinutes} min` : "--"}
                     </TableCell>
-                    <TableCell className="font-medium">{currencyFormatter.format(area.stats.revenue)}</TableCell>
+                    <TableCell className="font-medium">
+                      {currencyFormatter.format(area.stats.revenue)}
+                      {area.stats.surchargeRevenue > 0 && (
+                        <p className="text-xs font-normal text-muted-foreground">
+                          {currencyFormatter.format(area.stats.surchargeRevenue)} surcharges
+                        </p>
+                      )}
+                    </TableCell>
                     <TableCell>{getStatusBadge(area.isActive === 1)}</TableCell>
                     <TableCell>
                       <div className="flex justify-end gap-1">
@@ -905,6 +927,24 @@ export default function ServiceAreasPage() {
                   </TableRow>
                 )
               })}
+              {outsideAreas && (
+                <TableRow className="bg-muted/40">
+                  <TableCell>
+                    <span className="font-medium">{outsideAreas.name}</span>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">Addresses no area covers</TableCell>
+                  <TableCell>--</TableCell>
+                  <TableCell>{outsideAreas.jobs}</TableCell>
+                  <TableCell>{outsideAreas.customers}</TableCell>
+                  <TableCell>{outsideAreas.staff}</TableCell>
+                  <TableCell>
+                    {outsideAreas.avgDurationMinutes > 0 ? `${outsideAreas.avgDurationMinutes} min` : "--"}
+                  </TableCell>
+                  <TableCell className="font-medium">{currencyFormatter.format(outsideAreas.revenue)}</TableCell>
+                  <TableCell />
+                  <TableCell />
+                </TableRow>
+              )}
             </TableBody>
           </Table>
         </CardContent>
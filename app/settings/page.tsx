@@ -3,10 +3,19 @@
 import { DashboardHeaderClient } from "@/components/dashboard-header-client"
 import { ReminderSettings } from "@/components/settings/reminder-settings"
 import { NotificationSettings } from "@/components/settings/notification-settings"
+import { CheckInSettings } from "@/components/settings/check-in-settings"
+import { NumberingSettings } from "@/components/settings/numbering-settings"
+import { VatSettings } from "@/components/settings/vat-settings"
+import { AccountingSettings } from "@/components/settings/accounting-settings"
+import { PayrollSettings } from "@/components/settings/payroll-settings"
+import { LeaveSettings } from "@/components/settings/leave-settings"
+import { SkillsSettings } from "@/components/settings/skills-settings"
+import { BookingSettings } from "@/components/settings/booking-settings"
+import { PriceBookSettings } from "@/components/settings/price-book-settings"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Bell, BellRing, Building, Users, ExternalLink } from "lucide-react"
+import { Bell, BellRing, Building, Users, ExternalLink, MapPin, Hash, Percent, BookOpen, Award, Wallet, Palmtree, CalendarCheck, Tags } from "lucide-react"
 import Link from "next/link"
 
 export default function SettingsPage() {
@@ -32,6 +41,42 @@ export default function SettingsPage() {
               <Bell className="h-4 w-4 mr-2" />
               Payment Reminders
             </TabsTrigger>
+            <TabsTrigger value="check-in">
+              <MapPin className="h-4 w-4 mr-2" />
+              Check-in
+            </TabsTrigger>
+            <TabsTrigger value="numbering">
+              <Hash className="h-4 w-4 mr-2" />
+              Numbering
+            </TabsTrigger>
+            <TabsTrigger value="vat">
+              <Percent className="h-4 w-4 mr-2" />
+              VAT
+            </TabsTrigger>
+            <TabsTrigger value="accounting">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Accounting
+            </TabsTrigger>
+            <TabsTrigger value="payroll">
+              <Wallet className="h-4 w-4 mr-2" />
+              Payroll
+            </TabsTrigger>
+            <TabsTrigger value="holidays">
+              <Palmtree className="h-4 w-4 mr-2" />
+              Holidays
+            </TabsTrigger>
+            <TabsTrigger value="booking">
+              <CalendarCheck className="h-4 w-4 mr-2" />
+              Online Booking
+            </TabsTrigger>
+            <TabsTrigger value="pricing">
+              <Tags className="h-4 w-4 mr-2" />
+              Pricing
+            </TabsTrigger>
+            <TabsTrigger value="skills">
+              <Award className="h-4 w-4 mr-2" />
+              Skills
+            </TabsTrigger>
             <TabsTrigger value="company">
               <Building className="h-4 w-4 mr-2" />
               Company Profile
@@ -50,6 +95,42 @@ export default function SettingsPage() {
             <ReminderSettings />
           </TabsContent>
 
+          <TabsContent value="check-in" className="space-y-6">
+            <CheckInSettings />
+          </TabsContent>
+
+          <TabsContent value="numbering" className="space-y-6">
+            <NumberingSettings />
+          </TabsContent>
+
+          <TabsContent value="vat" className="space-y-6">
+            <VatSettings />
+          </TabsContent>
+
+          <TabsContent value="accounting" className="space-y-6">
+            <AccountingSettings />
+          </TabsContent>
+
+          <TabsContent value="payroll" className="space-y-6">
+            <PayrollSettings />
+          </TabsContent>
+
+          <TabsContent value="holidays" className="space-y-6">
+            <LeaveSettings />
+          </TabsContent>
+
+          <TabsContent value="booking" className="space-y-6">
+            <BookingSettings />
+          </TabsContent>
+
+          <TabsContent value="pricing" className="space-y-6">
+            <PriceBookSettings />
+          </TabsContent>
+
+          <TabsContent value="skills" className="space-y-6">
+            <SkillsSettings />
+          </TabsContent>
+
           <TabsContent value="company" className="space-y-6">
             <Card>
               <CardHeader>
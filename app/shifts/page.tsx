@@ -21,6 +21,10 @@ import { Textarea } from "@/components/ui/textarea"
 import { ArrowRightLeft, Clock, CheckCircle, XCircle, AlertCircle, Users, Loader2 } from "lucide-react"
 import { format, startOfWeek, addDays, parseISO, startOfDay, endOfDay, differenceInCalendarDays } from "date-fns"
 import { useToast } from "@/hooks/use-toast"
+import { ConflictList, ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
+import type { AvailabilityWindow } from "@/lib/employee-availability"
+import { AvailabilityEditor } from "@/components/employees/availability-editor"
 
 interface Employee {
   id: number
@@ -29,7 +33,7 @@ interface Employee {
   name?: string
   avatar?: string
   role?: string
-  availability?: string | null
+  availabilityWindows?: AvailabilityWindow[]
 }
 
 interface Shift {
@@ -69,30 +73,28 @@ interface Job {
 }
 
 const weekDays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
-const availabilityKeys = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const
-type AvailabilityStatus = "available" | "unavailable" | "am" | "pm"
-
-function getAvailabilityLabel(status: AvailabilityStatus) {
-  switch (status) {
-    case "available":
-      return "Available"
-    case "am":
-      return "AM only"
-    case "pm":
-      return "PM only"
-    case "unavailable":
-      return "Unavailable"
-    default:
-      return "Available"
+type DayAvailability = "any" | "full" | "partial" | "unavailable"
+
+// Summarise one day of the weekly pattern. weekDays starts on Monday, dayOfWeek on Sunday.
+function getDayAvailability(windows: AvailabilityWindow[], dayIndex: number): { status: DayAvailability; label: string } {
+  if (windows.length === 0) return { status: "any", label: "Any time" }
+  const dayWindows = windows.filter((window) => window.dayOfWeek === (dayIndex + 1) % 7)
+  if (dayWindows.length === 0) return { status: "unavailable", label: "Unavailable" }
+  if (dayWindows.some((window) => window.startTime === "00:00" && window.endTime === "24:00")) {
+    return { status: "full", label: "All day" }
+  }
+  return {
+    status: "partial",
+    label: dayWindows.map((window) => `${window.startTime}–${window.endTime}`).join(", "),
   }
 }
 
-function getAvailabilityColor(status: AvailabilityStatus) {
+function getAvailabilityColor(status: DayAvailability) {
   switch (status) {
-    case "available":
+    case "any":
+    case "full":
       return "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
-    case "am":
-    case "pm":
+    case "partial":
       return "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300"
     case "unavailable":
       return "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
@@ -123,30 +125,6 @@ function formatJobStatus(status: string) {
   return status.replace(/_/g, " ")
 }
 
-function parseAvailability(raw?: string | null): Record<(typeof availabilityKeys)[number], AvailabilityStatus> {
-  const fallback: Record<(typeof availabilityKeys)[number], AvailabilityStatus> = {
-    mon: "available",
-    tue: "available",
-    wed: "available",
-    thu: "available",
-    fri: "available",
-    sat: "available",
-    sun: "available",
-  }
-
-  if (!raw) return fallback
-  try {
-    const parsed = JSON.parse(raw)
-    return availabilityKeys.reduce((acc, key) => {
-      const value = parsed?.[key]
-      acc[key] = value === "unavailable" || value === "am" || value === "pm" ? value : "available"
-      return acc
-    }, { ...fallback })
-  } catch {
-    return fallback
-  }
-}
-
 function getShiftColor(type: string) {
   switch (type) {
     case "early":
@@ -205,16 +183,8 @@ export default function ShiftsPage() {
   const [jobsDialogItems, setJobsDialogItems] = useState<Job[]>([])
   const [availabilityDialogOpen, setAvailabilityDialogOpen] = useState(false)
   const [availabilityEmployee, setAvailabilityEmployee] = useState<Employee | null>(null)
-  const [availabilityForm, setAvailabilityForm] = useState<Record<(typeof availabilityKeys)[number], AvailabilityStatus>>({
-    mon: "available",
-    tue: "available",
-    wed: "available",
-    thu: "available",
-    fri: "available",
-    sat: "available",
-    sun: "available",
-  })
-  const [availabilitySaving, setAvailabilitySaving] = useState(false)
+  const [swapConflicts, setSwapConflicts] = useState<{ swapId: number; conflicts: SchedulingConflict[] } | null>(null)
+  const [scheduleConflicts, setScheduleConflicts] = useState<SchedulingConflict[]>([])
   const { toast } = useToast()
 
   useEffect(() => {
@@ -230,17 +200,21 @@ export default function ShiftsPage() {
   const fetchData = async (weekStart = weekStartDate) => {
     try {
       const weekEnd = addDays(weekStart, 6)
-      const [shiftsRes, employeesRes, jobsRes, swapsRes] = await Promise.all([
+      const weekRange = `startDate=${weekStart.toISOString()}&endDate=${endOfDay(weekEnd).toISOString()}`
+      const [shiftsRes, employeesRes, jobsRes, swapsRes, conflictsRes] = await Promise.all([
         fetch("/api/shifts"),
         fetch("/api/employees?status=active"),
-        fetch(`/api/jobs?startDate=${weekStart.toISOString()}&endDate=${endOfDay(weekEnd).toISOString()}`),
+        fetch(`/api/jobs?${weekRange}`),
         fetch("/api/shift-swaps"),
+        fetch(`/api/scheduling/conflicts?${weekRange}`),
       ])
 
       const shiftsData = shiftsRes.ok ? await shiftsRes.json() : []
       const employeesData = employeesRes.ok ? await employeesRes.json() : []
       const jobsData = jobsRes.ok ? await jobsRes.json() : []
       const swapsData = swapsRes.ok ? await swapsRes.json() : []
+      const conflictsData = conflictsRes.ok ? await conflictsRes.json() : { conflicts: [] }
+      setScheduleConflicts(conflictsData.conflicts || [])
 
       // Format employees
       const formattedEmployees = employeesData.map((emp: any) => ({
@@ -250,7 +224,7 @@ export default function ShiftsPage() {
         name: `${emp.firstName} ${emp.lastName}`,
         avatar: emp.avatar,
         role: emp.role || "Employee",
-        availability: emp.availability,
+        availabilityWindows: emp.availabilityWindows ?? [],
       }))
       setEmployees(formattedEmployees)
 
@@ -319,17 +293,25 @@ export default function ShiftsPage() {
     }
   }
 
-  const handleUpdateSwapStatus = async (id: number, status: string) => {
+  const handleUpdateSwapStatus = async (id: number, status: string, overrideReason?: string) => {
     try {
       const response = await fetch(`/api/shift-swaps/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, overrideReason }),
       })
 
       if (response.ok) {
         toast({ title: "Success", description: `Swap request ${status}` })
+        setSwapConflicts(null)
         fetchData()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        if (response.status === 409 && Array.isArray(data.conflicts)) {
+          setSwapConflicts({ swapId: id, conflicts: data.conflicts })
+          return
+        }
+        toast({ title: "Error", description: data?.error || "Failed to update swap request", variant: "destructive" })
       }
     } catch (error) {
       toast({ title: "Error", description: "Failed to update swap request", variant: "destructive" })
@@ -427,6 +409,11 @@ export default function ShiftsPage() {
     return `${day} ${start}${end ? `-${end}` : ""}`
   }
 
+  const getJobConflicts = (jobId: number) =>
+    scheduleConflicts.filter((conflict) => conflict.slotKind === "job" && conflict.slotId === jobId)
+
+  const hasOpenConflict = (jobId: number) => getJobConflicts(jobId).some((conflict) => !conflict.overridden)
+
   const getDayIndex = (value?: string | null) => {
     if (!value) return -1
     const date = new Date(value)
@@ -442,39 +429,14 @@ export default function ShiftsPage() {
 
   const openAvailabilityDialog = (employee: Employee) => {
     setAvailabilityEmployee(employee)
-    setAvailabilityForm(parseAvailability(employee.availability))
     setAvailabilityDialogOpen(true)
   }
 
-  const saveAvailability = async () => {
+  const handleAvailabilitySaved = (windows: AvailabilityWindow[]) => {
     if (!availabilityEmployee) return
-    setAvailabilitySaving(true)
-    try {
-      const response = await fetch(`/api/employees/${availabilityEmployee.id}/availability`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ availability: availabilityForm }),
-      })
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}))
-        throw new Error(error?.error || "Failed to update availability")
-      }
-
-      setEmployees((prev) =>
-        prev.map((emp) =>
-          emp.id === availabilityEmployee.id
-            ? { ...emp, availability: JSON.stringify(availabilityForm) }
-            : emp
-        )
-      )
-      setAvailabilityDialogOpen(false)
-      toast({ title: "Availability saved", description: "Cleaner availability updated." })
-    } catch (error) {
-      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to update availability", variant: "destructive" })
-    } finally {
-      setAvailabilitySaving(false)
-    }
+    setEmployees((prev) =>
+      prev.map((emp) => (emp.id === availabilityEmployee.id ? { ...emp, availabilityWindows: windows } : emp))
+    )
   }
 
   if (loading) {
@@ -685,7 +647,8 @@ export default function ShiftsPage() {
                                   openJobsDialog(`${day} ${currentWeekDates[dayIndex]}`, [job])
                                 }
                               >
-                                <span className="font-medium">
+                                <span className="font-medium flex items-center gap-1">
+                                  {hasOpenConflict(job.id) && <AlertCircle className="h-3 w-3 text-red-600" />}
                                   {employee?.name || `${employee?.firstName || ""} ${employee?.lastName || ""}`.trim() || "Cleaner"}
                                 </span>
                                 <span>
@@ -758,7 +721,12 @@ export default function ShiftsPage() {
                                     : "Customer"
                                   return (
                                     <div key={job.id} className="text-[10px] leading-tight">
-                                      <div className="font-medium truncate">{job.title}</div>
+                                      <div className="font-medium truncate flex items-center gap-1">
+                                        {hasOpenConflict(job.id) && (
+                                          <AlertCircle className="h-3 w-3 shrink-0 text-red-600" />
+                                        )}
+                                        <span className="truncate">{job.title}</span>
+                                      </div>
                                       <div className="text-muted-foreground truncate">
                                         {timeRange} • {customerName}
                                       </div>
@@ -907,7 +875,7 @@ export default function ShiftsPage() {
                   <p className="text-sm text-muted-foreground text-center py-8">No employees found</p>
                 ) : (
                   employees.map((employee) => {
-                    const availability = parseAvailability(employee.availability)
+                    const windows = employee.availabilityWindows ?? []
                     return (
                       <div key={employee.id} className="p-4 rounded-lg border bg-card">
                         <div className="flex items-center justify-between">
@@ -932,14 +900,14 @@ export default function ShiftsPage() {
                         </div>
                         <div className="mt-4 grid grid-cols-7 gap-2">
                           {weekDays.map((day, i) => {
-                            const status = availability[availabilityKeys[i]]
+                            const { status, label } = getDayAvailability(windows, i)
                             return (
                               <div
                                 key={day}
                                 className={`p-2 rounded text-center text-sm ${getAvailabilityColor(status)}`}
                               >
                                 <div className="font-medium">{day}</div>
-                                <div className="text-xs">{getAvailabilityLabel(status)}</div>
+                                <div className="text-xs">{label}</div>
                               </div>
                             )
                           })}
@@ -956,47 +924,19 @@ export default function ShiftsPage() {
       </main>
 
       <Dialog open={availabilityDialogOpen} onOpenChange={setAvailabilityDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Availability</DialogTitle>
             <DialogDescription>
               {availabilityEmployee ? `${availabilityEmployee.firstName} ${availabilityEmployee.lastName}` : "Cleaner"}
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-3 py-2">
-            {weekDays.map((day, index) => {
-              const key = availabilityKeys[index]
-              return (
-                <div key={day} className="flex items-center justify-between gap-3">
-                  <div className="text-sm font-medium">{day}</div>
-                  <Select
-                    value={availabilityForm[key]}
-                    onValueChange={(value) =>
-                      setAvailabilityForm((prev) => ({ ...prev, [key]: value as AvailabilityStatus }))
-                    }
-                  >
-                    <SelectTrigger className="w-40">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="available">Available</SelectItem>
-                      <SelectItem value="am">AM only</SelectItem>
-                      <SelectItem value="pm">PM only</SelectItem>
-                      <SelectItem value="unavailable">Unavailable</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              )
-            })}
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setAvailabilityDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={saveAvailability} disabled={availabilitySaving}>
-              {availabilitySaving ? "Saving..." : "Save"}
-            </Button>
-          </DialogFooter>
+          {availabilityEmployee && (
+            <AvailabilityEditor
+              endpoint={`/api/employees/${availabilityEmployee.id}/availability`}
+              onSaved={handleAvailabilitySaved}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
@@ -1023,6 +963,14 @@ export default function ShiftsPage() {
                     <div className="text-sm text-muted-foreground">{timeRange}</div>
                     <div className="text-sm text-muted-foreground">{customerName}</div>
                     <div className="text-xs text-muted-foreground mt-1">Status: {formatJobStatus(job.status)}</div>
+                    {getJobConflicts(job.id).length > 0 && (
+                      <div className="mt-3 rounded-md border bg-background p-2">
+                        <ConflictList conflicts={getJobConflicts(job.id)} />
+                        {getJobConflicts(job.id).every((conflict) => conflict.overridden) && (
+                          <p className="mt-2 text-xs text-muted-foreground">Overridden by a manager</p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )
               })
@@ -1033,6 +981,14 @@ export default function ShiftsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ConflictOverrideDialog
+        conflicts={swapConflicts?.conflicts ?? null}
+        onOpenChange={(open) => !open && setSwapConflicts(null)}
+        onConfirm={async (reason) => {
+          if (swapConflicts) await handleUpdateSwapStatus(swapConflicts.swapId, "approved", reason)
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,187 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle, Download, FileText, Loader2, Mail, PenLine } from "lucide-react"
+import { toast } from "sonner"
+import {
+  emptySignature,
+  isSignatureComplete,
+  SignatureCapture,
+  type SignatureCaptureValue,
+} from "@/components/signatures/signature-capture"
+
+interface SignDocumentClientProps {
+  token: string
+  document: {
+    type: "contract" | "quote"
+    label: string
+    title: string
+    number: string
+  }
+  signature: {
+    status: string
+    expired: boolean
+    expiresAt: string
+    documentHash: string
+    signerName: string | null
+    signedAt: string | null
+  }
+  customerName: string
+  customerEmail: string | null
+  company: {
+    name: string
+    logo: string | null
+    email: string
+  }
+}
+
+export default function SignDocumentClient({
+  token,
+  document,
+  signature,
+  customerName,
+  customerEmail,
+  company,
+}: SignDocumentClientProps) {
+  const [value, setValue] = useState<SignatureCaptureValue>(
+    emptySignature(customerName === "Customer" ? "" : customerName, customerEmail || ""),
+  )
+  const [isSigning, setIsSigning] = useState(false)
+  const [signed, setSigned] = useState(
+    signature.status === "signed" ? { signerName: signature.signerName, signedAt: signature.signedAt } : null,
+  )
+
+  const documentUrl = `/api/sign/${token}/document`
+  const formatDateTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleString("en-GB", {
+          day: "numeric",
+          month: "long",
+          year: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : ""
+
+  const handleSign = async () => {
+    setIsSigning(true)
+    try {
+      const res = await fetch(`/api/sign/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(value),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to sign document")
+      }
+      setSigned({ signerName: data.signature.signerName, signedAt: data.signature.signedAt })
+      toast.success(`${document.label} signed`)
+    } catch (error: any) {
+      toast.error(error.message || "Failed to sign document")
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container max-w-2xl mx-auto px-4 space-y-6">
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                {company.logo ? (
+                  <Image
+                    src={company.logo}
+                    alt={company.name}
+                    width={192}
+                    height={48}
+                    unoptimized
+                    className="h-12 w-auto mb-2"
+                  />
+                ) : (
+                  <h1 className="text-2xl font-bold text-gray-900">{company.name}</h1>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-500">{document.label.toUpperCase()}</p>
+                <p className="text-xl font-bold text-gray-900">{document.number}</p>
+                <p className="text-sm text-gray-500">{document.title}</p>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Review the {document.label.toLowerCase()}
+            </CardTitle>
+            <CardDescription>
+              Read the full {document.label.toLowerCase()} before signing. The copy you sign is the one below.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Button variant="outline" asChild>
+              <a href={documentUrl} target="_blank" rel="noreferrer">
+                <Download className="h-4 w-4 mr-2" />
+                {signed ? "Download signed copy" : `Open ${document.label.toLowerCase()} (PDF)`}
+              </a>
+            </Button>
+            <p className="text-xs text-muted-foreground break-all">Document fingerprint (SHA-256): {signature.documentHash}</p>
+          </CardContent>
+        </Card>
+
+        {signed ? (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              Signed by {signed.signerName} on {formatDateTime(signed.signedAt)}. The signed copy includes a signature
+              certificate you can keep for your records.
+            </AlertDescription>
+          </Alert>
+        ) : signature.expired ? (
+          <Alert variant="destructive">
+            <AlertDescription>
+              This signing link expired on {formatDateTime(signature.expiresAt)}. Please ask {company.name} for a new one.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PenLine className="h-5 w-5" />
+                Sign
+              </CardTitle>
+              <CardDescription>
+                Your name, email, IP address, device and the time you sign are recorded with your signature.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SignatureCapture value={value} onChange={setValue} documentLabel={document.label.toLowerCase()} />
+              <Button
+                className="w-full"
+                size="lg"
+                onClick={handleSign}
+                disabled={isSigning || !isSignatureComplete(value)}
+              >
+                {isSigning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PenLine className="h-4 w-4 mr-2" />}
+                Sign {document.label.toLowerCase()}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-center text-sm text-gray-500 flex items-center justify-center gap-1">
+          <Mail className="h-3 w-3" /> Questions? Contact {company.name} at {company.email}
+        </p>
+      </div>
+    </div>
+  )
+}
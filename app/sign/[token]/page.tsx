@@ -0,0 +1,49 @@
+import { notFound } from "next/navigation"
+import { db } from "@/lib/db"
+import { getSignatureRequestByToken } from "@/lib/e-signatures"
+import SignDocumentClient from "./SignDocumentClient"
+
+interface SignPageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function SignDocumentPage({ params }: SignPageProps) {
+  const { token } = await params
+
+  if (!db) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Service temporarily unavailable</p>
+      </div>
+    )
+  }
+
+  const result = await getSignatureRequestByToken(token)
+  if (!result?.document || result.signature.status === "cancelled") {
+    notFound()
+  }
+
+  const { signature, company, customerName, document } = result
+
+  return (
+    <SignDocumentClient
+      token={token}
+      document={document}
+      signature={{
+        status: signature.status,
+        expired: signature.status === "pending" && signature.expiresAt < new Date(),
+        expiresAt: signature.expiresAt.toISOString(),
+        documentHash: signature.documentHash,
+        signerName: signature.signerName,
+        signedAt: signature.signedAt?.toISOString() ?? null,
+      }}
+      customerName={customerName}
+      customerEmail={signature.sentTo}
+      company={{
+        name: company.name,
+        logo: company.logo,
+        email: company.email,
+      }}
+    />
+  )
+}
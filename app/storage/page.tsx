@@ -3,11 +3,14 @@
 import { useState } from "react"
 import { DashboardHeaderClient } from "@/components/dashboard-header-client"
 import { StorageList } from "@/components/storage/storage-list"
+import { ImportDialog } from "@/components/imports/import-dialog"
 import { Button } from "@/components/ui/button"
-import { Plus, Download } from "lucide-react"
+import { Plus, Download, Upload } from "lucide-react"
 
 export default function StoragePage() {
   const [addRequestKey, setAddRequestKey] = useState(0)
+  const [listKey, setListKey] = useState(0)
+  const [showImportDialog, setShowImportDialog] = useState(false)
 
   return (
     <div className="min-h-screen bg-background">
@@ -20,6 +23,10 @@ export default function StoragePage() {
             <p className="text-muted-foreground mt-1">Manage inventory and supplies</p>
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
             <Button variant="outline" size="sm">
               <Download className="h-4 w-4 mr-2" />
               Export
@@ -31,7 +38,14 @@ export default function StoragePage() {
           </div>
         </div>
 
-        <StorageList addRequestKey={addRequestKey} />
+        <StorageList key={listKey} addRequestKey={addRequestKey} />
+
+        <ImportDialog
+          entityType="supplies"
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImported={() => setListKey((k) => k + 1)}
+        />
       </main>
     </div>
   )
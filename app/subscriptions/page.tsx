@@ -0,0 +1,637 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { DashboardHeaderClient } from "@/components/dashboard-header-client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  CreditCard,
+  Edit,
+  Eye,
+  Loader2,
+  MoreHorizontal,
+  Pause,
+  Play,
+  Plus,
+  RefreshCw,
+  Repeat,
+  SkipForward,
+  Trash2,
+  XCircle,
+} from "lucide-react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+
+interface PlanApi {
+  id: number
+  name: string
+  description: string | null
+  amount: string
+  currency: string
+  frequency: string
+  durationMinutes: number
+  isActive: number
+}
+
+interface SubscriptionApi {
+  id: number
+  name: string
+  amount: string
+  currency: string | null
+  frequency: string
+  status: string
+  startDate: string
+  nextBillingDate: string | null
+  cardBrand: string | null
+  cardLast4: string | null
+  resumeAt: string | null
+  cancelledAt: string | null
+  cancellationReason: string | null
+  customer: { id: number; firstName: string; lastName: string; email: string } | null
+  plan: { id: number; name: string } | null
+}
+
+interface CycleApi {
+  id: number
+  occurrenceAt: string
+  status: string
+  paymentAttempts: number
+  nextRetryAt: string | null
+  lastError: string | null
+  invoice: { id: number; invoiceNumber: string; status: string; total: string; currency: string } | null
+  job: { id: number; status: string; assignedTo: number | null } | null
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  pending: { label: "Awaiting card", className: "bg-gray-500" },
+  active: { label: "Active", className: "bg-green-500" },
+  paused: { label: "Paused", className: "bg-yellow-500" },
+  past_due: { label: "Past due", className: "bg-red-500" },
+  cancelled: { label: "Cancelled", className: "bg-gray-400" },
+  completed: { label: "Completed", className: "bg-blue-500" },
+}
+
+const CYCLE_STATUS_LABELS: Record<string, string> = {
+  skipped: "Skipped",
+  missed: "Missed",
+  pending_payment: "Awaiting payment",
+  paid: "Paid",
+  payment_failed: "Payment failed",
+  unpaid: "Unpaid",
+}
+
+const EMPTY_PLAN = { name: "", description: "", amount: "", frequency: "weekly", durationMinutes: "120", isActive: true }
+
+function formatMoney(amount: string | number, currency: string | null = "GBP") {
+  return new Intl.NumberFormat("en-GB", { style: "currency", currency: currency || "GBP" }).format(Number(amount))
+}
+
+function formatDateTime(value: string | null) {
+  return value ? format(new Date(value), "EEE d MMM yyyy, HH:mm") : "—"
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const style = STATUS_STYLES[status] ?? { label: status, className: "bg-gray-500" }
+  return <Badge className={style.className}>{style.label}</Badge>
+}
+
+export default function SubscriptionsPage() {
+  const [loading, setLoading] = useState(true)
+  const [subscriptions, setSubscriptions] = useState<SubscriptionApi[]>([])
+  const [plans, setPlans] = useState<PlanApi[]>([])
+  const [statusFilter, setStatusFilter] = useState("all")
+
+  const [planDialogOpen, setPlanDialogOpen] = useState(false)
+  const [editingPlan, setEditingPlan] = useState<PlanApi | null>(null)
+  const [planForm, setPlanForm] = useState(EMPTY_PLAN)
+  const [savingPlan, setSavingPlan] = useState(false)
+
+  const [viewing, setViewing] = useState<(SubscriptionApi & { cycles: CycleApi[] }) | null>(null)
+  const [updatingId, setUpdatingId] = useState<number | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [subscriptionsRes, plansRes] = await Promise.all([
+        fetch(`/api/subscriptions?status=${statusFilter}`),
+        fetch("/api/subscriptions/plans"),
+      ])
+      if (subscriptionsRes.ok) setSubscriptions(await subscriptionsRes.json())
+      if (plansRes.ok) setPlans(await plansRes.json())
+    } catch (error) {
+      console.error("Error loading subscriptions:", error)
+      toast.error("Failed to load subscriptions")
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const openSubscription = async (id: number) => {
+    const res = await fetch(`/api/subscriptions/${id}`)
+    if (!res.ok) {
+      toast.error("Failed to load subscription")
+      return
+    }
+    setViewing(await res.json())
+  }
+
+  const updateSubscription = async (id: number, body: Record<string, unknown>, success: string) => {
+    setUpdatingId(id)
+    try {
+      const res = await fetch(`/api/subscriptions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update subscription")
+      if (body.action === "retry" && !data.charged) {
+        toast.error(data.reason || "The card was declined")
+      } else {
+        toast.success(success)
+      }
+      await fetchData()
+      if (viewing?.id === id) await openSubscription(id)
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update subscription")
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const openPlanDialog = (plan: PlanApi | null) => {
+    setEditingPlan(plan)
+    setPlanForm(
+      plan
+        ? {
+            name: plan.name,
+            description: plan.description || "",
+            amount: plan.amount,
+            frequency: plan.frequency,
+            durationMinutes: plan.durationMinutes.toString(),
+            isActive: plan.isActive === 1,
+          }
+        : EMPTY_PLAN,
+    )
+    setPlanDialogOpen(true)
+  }
+
+  const savePlan = async () => {
+    setSavingPlan(true)
+    try {
+      const res = await fetch(editingPlan ? `/api/subscriptions/plans/${editingPlan.id}` : "/api/subscriptions/plans", {
+        method: editingPlan ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(planForm),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save plan")
+      toast.success(editingPlan ? "Plan updated" : "Plan created")
+      setPlanDialogOpen(false)
+      await fetchData()
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save plan")
+    } finally {
+      setSavingPlan(false)
+    }
+  }
+
+  const deletePlan = async (plan: PlanApi) => {
+    if (!confirm(`Delete the ${plan.name} plan? Existing subscriptions carry on unchanged.`)) return
+    const res = await fetch(`/api/subscriptions/plans/${plan.id}`, { method: "DELETE" })
+    if (!res.ok) {
+      toast.error("Failed to delete plan")
+      return
+    }
+    toast.success("Plan deleted")
+    await fetchData()
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeaderClient />
+      <main className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-2xl sm:text-3xl font-bold">Subscriptions</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Recurring plans customers sign up to from the portal, billed to their saved card before each visit
+            </p>
+          </div>
+          <Button className="w-full sm:w-auto" onClick={() => openPlanDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Plan
+          </Button>
+        </div>
+
+        <Tabs defaultValue="subscriptions">
+          <TabsList>
+            <TabsTrigger value="subscriptions">Subscriptions</TabsTrigger>
+            <TabsTrigger value="plans">Plans</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="subscriptions">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>Customer subscriptions</CardTitle>
+                  <CardDescription>Visits are created and charged two days ahead, then left for you to assign</CardDescription>
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {Object.entries(STATUS_STYLES).map(([value, { label }]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : subscriptions.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Repeat className="h-10 w-10 mx-auto mb-2 opacity-50" />
+                    <p>No subscriptions yet</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Plan</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Next visit</TableHead>
+                        <TableHead>Card</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-[50px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {subscriptions.map((subscription) => (
+                        <TableRow key={subscription.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {subscription.customer
+                                ? `${subscription.customer.firstName} ${subscription.customer.lastName}`
+                                : "—"}
+                            </div>
+                            <div className="text-xs text-muted-foreground">{subscription.customer?.email}</div>
+                          </TableCell>
+                          <TableCell>{subscription.name}</TableCell>
+                          <TableCell>
+                            {formatMoney(subscription.amount, subscription.currency)}{" "}
+                            <span className="text-xs text-muted-foreground">
+                              {FREQUENCY_LABELS[subscription.frequency] ?? subscription.frequency}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {subscription.status === "paused"
+                              ? subscription.resumeAt
+                                ? `Resumes ${format(new Date(subscription.resumeAt), "d MMM yyyy")}`
+                                : "Paused"
+                              : formatDateTime(subscription.nextBillingDate)}
+                          </TableCell>
+                          <TableCell>
+                            {subscription.cardLast4 ? (
+                              <span className="flex items-center gap-1 text-sm">
+                                <CreditCard className="h-3 w-3" />
+                                {subscription.cardBrand} •••• {subscription.cardLast4}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">None</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <StatusBadge status={subscription.status} />
+                          </TableCell>
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" disabled={updatingId === subscription.id}>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => openSubscription(subscription.id)}>
+                                  <Eye className="h-4 w-4 mr-2" /> View billing
+                                </DropdownMenuItem>
+                                {["pending", "active"].includes(subscription.status) && subscription.nextBillingDate && (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      updateSubscription(subscription.id, { action: "skip" }, "Next visit skipped")
+                                    }
+                                  >
+                                    <SkipForward className="h-4 w-4 mr-2" /> Skip next visit
+                                  </DropdownMenuItem>
+                                )}
+                                {subscription.status === "active" && (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      updateSubscription(subscription.id, { action: "pause" }, "Subscription paused")
+                                    }
+                                  >
+                                    <Pause className="h-4 w-4 mr-2" /> Pause
+                                  </DropdownMenuItem>
+                                )}
+                                {subscription.status === "paused" && (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      updateSubscription(subscription.id, { action: "resume" }, "Subscription resumed")
+                                    }
+                                  >
+                                    <Play className="h-4 w-4 mr-2" /> Resume
+                                  </DropdownMenuItem>
+                                )}
+                                {!["cancelled", "completed"].includes(subscription.status) && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                      className="text-destructive"
+                                      onClick={() => {
+                                        if (!confirm("Cancel this subscription? Visits already billed still go ahead.")) return
+                                        updateSubscription(subscription.id, { action: "cancel" }, "Subscription cancelled")
+                                      }}
+                                    >
+                                      <XCircle className="h-4 w-4 mr-2" /> Cancel subscription
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="plans">
+            <Card>
+              <CardHeader>
+                <CardTitle>Plans</CardTitle>
+                <CardDescription>Active plans are offered to customers in the portal</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {plans.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>No plans yet. Add one so customers can subscribe from the portal.</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Plan</TableHead>
+                        <TableHead>Price per visit</TableHead>
+                        <TableHead>Frequency</TableHead>
+                        <TableHead>Visit length</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-[100px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plans.map((plan) => (
+                        <TableRow key={plan.id}>
+                          <TableCell>
+                            <div className="font-medium">{plan.name}</div>
+                            {plan.description && (
+                              <div className="text-xs text-muted-foreground line-clamp-1">{plan.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatMoney(plan.amount, plan.currency)}</TableCell>
+                          <TableCell>{FREQUENCY_LABELS[plan.frequency] ?? plan.frequency}</TableCell>
+                          <TableCell>{plan.durationMinutes} min</TableCell>
+                          <TableCell>
+                            {plan.isActive ? <Badge className="bg-green-500">Offered</Badge> : <Badge variant="secondary">Hidden</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => openPlanDialog(plan)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => deletePlan(plan)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={planDialogOpen} onOpenChange={setPlanDialogOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingPlan ? "Edit Plan" : "Add Plan"}</DialogTitle>
+              <DialogDescription>
+                {editingPlan
+                  ? "Changes apply to new subscriptions; existing ones keep their price."
+                  : "Customers can subscribe to this plan from the portal."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-name">Name</Label>
+                <Input
+                  id="plan-name"
+                  placeholder="e.g., Weekly home clean"
+                  value={planForm.name}
+                  onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-description">Description</Label>
+                <Textarea
+                  id="plan-description"
+                  rows={2}
+                  value={planForm.description}
+                  onChange={(e) => setPlanForm({ ...planForm, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="plan-amount">Price per visit (£)</Label>
+                  <Input
+                    id="plan-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={planForm.amount}
+                    onChange={(e) => setPlanForm({ ...planForm, amount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan-duration">Visit length (min)</Label>
+                  <Input
+                    id="plan-duration"
+                    type="number"
+                    min="15"
+                    step="15"
+                    value={planForm.durationMinutes}
+                    onChange={(e) => setPlanForm({ ...planForm, durationMinutes: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={planForm.frequency} onValueChange={(frequency) => setPlanForm({ ...planForm, frequency })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="plan-active">Offer in the customer portal</Label>
+                <Switch
+                  id="plan-active"
+                  checked={planForm.isActive}
+                  onCheckedChange={(isActive) => setPlanForm({ ...planForm, isActive })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPlanDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={savePlan} disabled={savingPlan || !planForm.name || !planForm.amount}>
+                {savingPlan && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingPlan ? "Save" : "Create Plan"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+          <DialogContent className="max-w-2xl">
+            {viewing && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    {viewing.name} <StatusBadge status={viewing.status} />
+                  </DialogTitle>
+                  <DialogDescription>
+                    {viewing.customer ? `${viewing.customer.firstName} ${viewing.customer.lastName}` : ""} ·{" "}
+                    {formatMoney(viewing.amount, viewing.currency)} {FREQUENCY_LABELS[viewing.frequency] ?? viewing.frequency}
+                    {viewing.cancellationReason ? ` · Cancelled: ${viewing.cancellationReason}` : ""}
+                  </DialogDescription>
+                </DialogHeader>
+                {viewing.cycles.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No visits billed yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Visit</TableHead>
+                        <TableHead>Invoice</TableHead>
+                        <TableHead>Payment</TableHead>
+                        <TableHead className="w-[90px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {viewing.cycles.map((cycle) => (
+                        <TableRow key={cycle.id}>
+                          <TableCell>{formatDateTime(cycle.occurrenceAt)}</TableCell>
+                          <TableCell>
+                            {cycle.invoice ? (
+                              <>
+                                {cycle.invoice.invoiceNumber}{" "}
+                                <span className="text-xs text-muted-foreground">
+                                  {formatMoney(cycle.invoice.total, cycle.invoice.currency)}
+                                </span>
+                              </>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{CYCLE_STATUS_LABELS[cycle.status] ?? cycle.status}</div>
+                            {cycle.lastError && cycle.status !== "paid" && (
+                              <div className="text-xs text-destructive">{cycle.lastError}</div>
+                            )}
+                            {cycle.nextRetryAt && cycle.status === "payment_failed" && (
+                              <div className="text-xs text-muted-foreground">
+                                Retrying {format(new Date(cycle.nextRetryAt), "d MMM")} (attempt {cycle.paymentAttempts + 1})
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {["pending_payment", "payment_failed", "unpaid"].includes(cycle.status) && viewing.cardLast4 && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={updatingId === viewing.id}
+                                onClick={() =>
+                                  updateSubscription(viewing.id, { action: "retry", cycleId: cycle.id }, "Payment taken")
+                                }
+                              >
+                                <RefreshCw className="h-3 w-3 mr-1" /> Retry
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  )
+}
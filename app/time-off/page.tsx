@@ -16,7 +16,10 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Textarea } from "@/components/ui/textarea"
-import { Calendar, CheckCircle, XCircle, AlertCircle, Clock, Plane, Heart, GraduationCap, Loader2 } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Calendar, CheckCircle, XCircle, AlertCircle, AlertTriangle, Clock, Plane, Heart, GraduationCap, Loader2, Pencil } from "lucide-react"
 import { format, differenceInDays, parseISO, isAfter, startOfDay } from "date-fns"
 import { useToast } from "@/hooks/use-toast"
 
@@ -28,6 +31,12 @@ interface Employee {
   avatar?: string
   role?: string
   daysRemaining?: number
+  daysAvailable?: number
+}
+
+interface ApprovalWarning {
+  type: string
+  message: string
 }
 
 interface TimeOffRequest {
@@ -126,6 +135,11 @@ export default function TimeOffPage() {
   const [reviewRequestId, setReviewRequestId] = useState<number | null>(null)
   const [reviewAction, setReviewAction] = useState<"approved" | "denied" | "">("")
   const [reviewNotes, setReviewNotes] = useState("")
+  // Set when approving needs confirming, e.g. the balance would go negative
+  const [reviewWarnings, setReviewWarnings] = useState<ApprovalWarning[]>([])
+  const [adjustEmployee, setAdjustEmployee] = useState<Employee | null>(null)
+  const [adjustForm, setAdjustForm] = useState({ days: "", reason: "" })
+  const [adjustSubmitting, setAdjustSubmitting] = useState(false)
   const [apiError, setApiError] = useState<string | null>(null)
   const [debugInfo, setDebugInfo] = useState<Record<string, unknown> | null>(null)
   const { toast } = useToast()
@@ -133,9 +147,10 @@ export default function TimeOffPage() {
   const fetchData = useCallback(async () => {
     try {
       setApiError(null)
-      const [timeOffRes, employeesRes] = await Promise.all([
+      const [timeOffRes, employeesRes, balancesRes] = await Promise.all([
         fetch("/api/time-off?debug=1"),
         fetch("/api/employees?status=active"),
+        fetch("/api/leave/balances"),
       ])
 
       console.log("[time-off page] timeOffRes status:", timeOffRes.status)
@@ -166,14 +181,13 @@ export default function TimeOffPage() {
       // Map employees
       const employeeMap = new Map(employeesData.map((e: any) => [e.id, e]))
       
-      // Calculate days remaining (assume 25 days per year)
+      const balancesPayload = balancesRes.ok ? await balancesRes.json() : { balances: [] }
+      const balanceMap = new Map<number, any>(
+        (balancesPayload.balances || []).map((b: any) => [b.employeeId, b])
+      )
+
       const formattedEmployees = employeesData.map((emp: any) => {
-        const empRequests = timeOffData.filter((r: any) => r.employeeId === emp.id && r.status === "approved")
-        const daysUsed = empRequests.reduce((sum: number, r: any) => {
-          const start = parseISO(r.startDate)
-          const end = parseISO(r.endDate)
-          return sum + differenceInDays(end, start) + 1
-        }, 0)
+        const balance = balanceMap.get(emp.id)
         return {
           id: emp.id,
           firstName: emp.firstName,
@@ -181,7 +195,8 @@ export default function TimeOffPage() {
           name: `${emp.firstName} ${emp.lastName}`,
           avatar: emp.avatar,
           role: emp.role || "Employee",
-          daysRemaining: Math.max(0, 25 - daysUsed),
+          daysRemaining: balance?.remaining ?? 0,
+          daysAvailable: balance?.available ?? 0,
         }
       })
 
@@ -208,7 +223,7 @@ export default function TimeOffPage() {
           endDate: format(end, "MMM d, yyyy"),
           rawStartDate: req.startDate,
           rawEndDate: req.endDate,
-          days: differenceInDays(end, start) + 1,
+          days: req.totalDays ? parseFloat(req.totalDays) : differenceInDays(end, start) + 1,
           reason: req.reason || "",
           status: req.status || "pending",
           createdAt: req.createdAt ? format(parseISO(req.createdAt), "MMM d, yyyy") : "",
@@ -233,6 +248,7 @@ export default function TimeOffPage() {
     setReviewRequestId(id)
     setReviewAction(action)
     setReviewNotes("")
+    setReviewWarnings([])
     setReviewDialogOpen(true)
   }
 
@@ -246,18 +262,32 @@ export default function TimeOffPage() {
       const response = await fetch(`/api/time-off/${reviewRequestId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: reviewAction, reviewNotes: reviewNotes.trim() }),
+        body: JSON.stringify({
+          status: reviewAction,
+          reviewNotes: reviewNotes.trim(),
+          acknowledgeWarnings: reviewWarnings.length > 0,
+        }),
       })
 
+      if (response.status === 409) {
+        const data = await response.json()
+        if (Array.isArray(data?.warnings) && data.warnings.length > 0) {
+          setReviewWarnings(data.warnings)
+          return
+        }
+      }
+
       if (response.ok) {
         toast({ title: "Success", description: `Request ${reviewAction}` })
         setReviewDialogOpen(false)
         setReviewRequestId(null)
         setReviewAction("")
         setReviewNotes("")
+        setReviewWarnings([])
         fetchData()
       } else {
-        toast({ title: "Error", description: "Failed to update request", variant: "destructive" })
+        const data = await response.json().catch(() => null)
+        toast({ title: "Error", description: data?.error || "Failed to update request", variant: "destructive" })
       }
     } catch (error) {
       toast({ title: "Error", description: "Failed to update request", variant: "destructive" })
@@ -266,6 +296,36 @@ export default function TimeOffPage() {
     }
   }
 
+  const openAdjustDialog = (employee: Employee) => {
+    setAdjustEmployee(employee)
+    setAdjustForm({ days: "", reason: "" })
+  }
+
+  const handleSubmitAdjustment = async () => {
+    if (!adjustEmployee) return
+
+    setAdjustSubmitting(true)
+    try {
+      const response = await fetch(`/api/employees/${adjustEmployee.id}/leave`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days: parseFloat(adjustForm.days), reason: adjustForm.reason }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast({ title: "Error", description: data?.error || "Failed to adjust balance", variant: "destructive" })
+        return
+      }
+      toast({ title: "Success", description: "Holiday balance adjusted" })
+      setAdjustEmployee(null)
+      fetchData()
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to adjust balance", variant: "destructive" })
+    } finally {
+      setAdjustSubmitting(false)
+    }
+  }
+
   // Calculate stats
   const pendingCount = timeOffRequests.filter(r => r.status === "pending").length
   const approvedThisMonth = timeOffRequests.filter(r => r.status === "approved").length
@@ -303,6 +363,18 @@ export default function TimeOffPage() {
               <DialogTitle>{reviewAction === "approved" ? "Approve request" : "Reject request"}</DialogTitle>
               <DialogDescription>Reason is optional.</DialogDescription>
             </DialogHeader>
+            {reviewWarnings.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {reviewWarnings.map((warning, i) => (
+                      <li key={i}>{warning.message}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
             <div className="space-y-2 py-4">
               <label className="text-sm font-medium">Reason (optional)</label>
               <Textarea
@@ -317,7 +389,52 @@ export default function TimeOffPage() {
               </Button>
               <Button onClick={handleSubmitReview} disabled={reviewSubmitting}>
                 {reviewSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                {reviewAction === "approved" ? "Approve" : "Reject"}
+                {reviewAction === "approved" ? (reviewWarnings.length > 0 ? "Approve anyway" : "Approve") : "Reject"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!adjustEmployee} onOpenChange={(open) => !open && setAdjustEmployee(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Adjust holiday balance</DialogTitle>
+              <DialogDescription>
+                Add or take away days for {adjustEmployee?.name} in the current leave year.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="adjust-days">Days</Label>
+                <Input
+                  id="adjust-days"
+                  type="number"
+                  step="0.5"
+                  value={adjustForm.days}
+                  onChange={(e) => setAdjustForm({ ...adjustForm, days: e.target.value })}
+                  placeholder="e.g. 1 or -0.5"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjust-reason">Reason</Label>
+                <Textarea
+                  id="adjust-reason"
+                  value={adjustForm.reason}
+                  onChange={(e) => setAdjustForm({ ...adjustForm, reason: e.target.value })}
+                  placeholder="e.g. Extra day for long service"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAdjustEmployee(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmitAdjustment}
+                disabled={adjustSubmitting || !adjustForm.days || !adjustForm.reason.trim()}
+              >
+                {adjustSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -601,7 +718,7 @@ export default function TimeOffPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Leave Balances</CardTitle>
-                <CardDescription>Days remaining this year</CardDescription>
+                <CardDescription>Holiday days remaining this leave year</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
@@ -622,9 +739,16 @@ export default function TimeOffPage() {
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">{employee.name || `${employee.firstName} ${employee.lastName}`}</p>
                         </div>
-                        <Badge variant={(employee.daysRemaining || 0) < 5 ? "destructive" : "secondary"} className="font-mono">
+                        <Badge
+                          variant={(employee.daysRemaining || 0) < 5 ? "destructive" : "secondary"}
+                          className="font-mono"
+                          title={`${employee.daysAvailable || 0} days after pending requests`}
+                        >
                           {employee.daysRemaining || 0} days
                         </Badge>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openAdjustDialog(employee)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
                       </div>
                     ))
                   )}
@@ -0,0 +1,469 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { DashboardHeaderClient } from "@/components/dashboard-header-client"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertTriangle, CheckCircle, Loader2, MapPin, Undo2 } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { toast } from "sonner"
+
+type TimesheetStatus = "open" | "submitted" | "returned" | "approved"
+
+interface TimesheetRow {
+  id: number
+  weekStart: string
+  status: TimesheetStatus
+  submittedAt: string | null
+  reviewedAt: string | null
+  employee: { id: number; firstName: string; lastName: string }
+  workedMinutes: number
+  breakMinutes: number
+  sessionsCount: number
+  openSessions: number
+}
+
+interface SessionEdit {
+  id: number
+  editorName: string | null
+  editedByEmployeeId: number | null
+  reason: string | null
+  previousValues: Record<string, unknown>
+  newValues: Record<string, unknown>
+  createdAt: string
+}
+
+interface TimesheetDetail {
+  timesheet: TimesheetRow & { employeeNotes: string | null; reviewComments: string | null }
+  employee: { id: number; firstName: string; lastName: string }
+  week: { start: string; end: string }
+  sessions: {
+    id: number
+    startedAt: string
+    endedAt: string | null
+    durationMinutes: number | null
+    breakMinutes: number
+    notes: string | null
+    checkInId: number | null
+    clockInLatitude: string | null
+    job: { id: number; title: string | null } | null
+    shift: { id: number; title: string | null } | null
+    edits: SessionEdit[]
+    flags: string[]
+  }[]
+  days: {
+    date: string
+    scheduledMinutes: number
+    jobMinutes: number
+    workedMinutes: number
+    breakMinutes: number
+    varianceMinutes: number
+  }[]
+  totals: {
+    workedMinutes: number
+    breakMinutes: number
+    scheduledMinutes: number
+    varianceMinutes: number
+    openSessions: number
+  }
+  flags: string[]
+}
+
+const statusConfig: Record<TimesheetStatus, { label: string; color: string }> = {
+  open: { label: "Open", color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  submitted: { label: "Submitted", color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  returned: { label: "Returned", color: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400" },
+  approved: { label: "Approved", color: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+}
+
+const formatMinutes = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : ""
+  const abs = Math.abs(minutes)
+  return `${sign}${Math.floor(abs / 60)}h ${String(abs % 60).padStart(2, "0")}m`
+}
+
+const formatEditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "d MMM HH:mm")
+  }
+  return String(value)
+}
+
+export default function TimesheetsPage() {
+  const [status, setStatus] = useState<string>("submitted")
+  const [week, setWeek] = useState("")
+  const [timesheets, setTimesheets] = useState<TimesheetRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [detail, setDetail] = useState<TimesheetDetail | null>(null)
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [comments, setComments] = useState("")
+  const [reviewing, setReviewing] = useState(false)
+
+  const fetchTimesheets = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (status !== "all") params.set("status", status)
+      if (week) params.set("week", week)
+      const res = await fetch(`/api/timesheets?${params.toString()}`)
+      const data = res.ok ? await res.json() : { timesheets: [] }
+      setTimesheets(data.timesheets || [])
+    } catch (error) {
+      console.error("Failed to load timesheets:", error)
+      setTimesheets([])
+    } finally {
+      setLoading(false)
+    }
+  }, [status, week])
+
+  useEffect(() => {
+    fetchTimesheets()
+  }, [fetchTimesheets])
+
+  const openDetail = async (id: number) => {
+    setDetailLoading(true)
+    setComments("")
+    try {
+      const res = await fetch(`/api/timesheets/${id}`)
+      if (res.ok) {
+        setDetail(await res.json())
+      } else {
+        const data = await res.json()
+        toast.error(data.error || "Failed to load timesheet")
+      }
+    } catch (error) {
+      console.error("Failed to load timesheet:", error)
+      toast.error("Failed to load timesheet")
+    } finally {
+      setDetailLoading(false)
+    }
+  }
+
+  const handleReview = async (action: "approve" | "return") => {
+    if (!detail) return
+    if (action === "return" && !comments.trim()) {
+      toast.error("Add a comment so the employee knows what to fix")
+      return
+    }
+    setReviewing(true)
+    try {
+      const res = await fetch(`/api/timesheets/${detail.timesheet.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, comments }),
+      })
+      if (res.ok) {
+        toast.success(action === "approve" ? "Timesheet approved" : "Timesheet returned")
+        setDetail(null)
+        fetchTimesheets()
+      } else {
+        const data = await res.json()
+        toast.error(data.error || "Failed to update timesheet")
+      }
+    } catch (error) {
+      console.error("Failed to review timesheet:", error)
+      toast.error("Failed to update timesheet")
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeaderClient />
+
+      <main className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="flex flex-col gap-4">
+          <div className="space-y-1">
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Timesheets</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Review submitted weeks against the schedule. Only approved timesheets are paid.
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger size="sm" className="w-full sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(statusConfig).map(([key, config]) => (
+                  <SelectItem key={key} value={key}>
+                    {config.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={week}
+              onChange={(e) => setWeek(e.target.value)}
+              className="h-8 w-full sm:w-[170px]"
+              title="Week starting"
+            />
+            {week && (
+              <Button variant="ghost" size="sm" onClick={() => setWeek("")}>
+                Any week
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : timesheets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No timesheets to show.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Worked</TableHead>
+                    <TableHead>Breaks</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Submitted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {timesheets.map((row) => (
+                    <TableRow key={row.id} className="cursor-pointer" onClick={() => openDetail(row.id)}>
+                      <TableCell className="font-medium">
+                        {`${row.employee.firstName} ${row.employee.lastName}`.trim()}
+                      </TableCell>
+                      <TableCell>{format(parseISO(row.weekStart), "d MMM yyyy")}</TableCell>
+                      <TableCell>
+                        {formatMinutes(row.workedMinutes)}
+                        {row.openSessions > 0 && (
+                          <span className="ml-2 text-xs text-muted-foreground">({row.openSessions} open)</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatMinutes(row.breakMinutes)}</TableCell>
+                      <TableCell>
+                        <Badge className={statusConfig[row.status].color}>{statusConfig[row.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {row.submittedAt ? format(new Date(row.submittedAt), "d MMM HH:mm") : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!detail || detailLoading} onOpenChange={(open) => !open && setDetail(null)}>
+        <DialogContent className="max-w-[95vw] sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          {detailLoading || !detail ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {`${detail.employee.firstName} ${detail.employee.lastName}`.trim()} —{" "}
+                  {format(parseISO(detail.week.start), "d MMM")} to {format(parseISO(detail.week.end), "d MMM yyyy")}
+                </DialogTitle>
+                <DialogDescription>
+                  {formatMinutes(detail.totals.workedMinutes)} worked against{" "}
+                  {formatMinutes(detail.totals.scheduledMinutes)} scheduled ({formatMinutes(detail.totals.varianceMinutes)})
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {detail.timesheet.employeeNotes && (
+                  <div className="rounded-lg border p-3 text-sm">
+                    <p className="font-medium">Employee notes</p>
+                    <p className="text-muted-foreground">{detail.timesheet.employeeNotes}</p>
+                  </div>
+                )}
+
+                {detail.flags.length > 0 && (
+                  <div className="space-y-1">
+                    {detail.flags.map((flag) => (
+                      <p key={flag} className="flex items-center gap-2 text-sm text-orange-700 dark:text-orange-400">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {flag}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Day</TableHead>
+                      <TableHead>Scheduled</TableHead>
+                      <TableHead>Worked</TableHead>
+                      <TableHead>Breaks</TableHead>
+                      <TableHead className="text-right">Variance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.days.map((day) => (
+                      <TableRow key={day.date}>
+                        <TableCell>{format(parseISO(day.date), "EEE d MMM")}</TableCell>
+                        <TableCell>{formatMinutes(day.scheduledMinutes || day.jobMinutes)}</TableCell>
+                        <TableCell>{formatMinutes(day.workedMinutes)}</TableCell>
+                        <TableCell>{formatMinutes(day.breakMinutes)}</TableCell>
+                        <TableCell
+                          className={`text-right ${
+                            day.varianceMinutes < 0 ? "text-red-600" : day.varianceMinutes > 0 ? "text-orange-600" : ""
+                          }`}
+                        >
+                          {formatMinutes(day.varianceMinutes)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">Time entries</CardTitle>
+                    <CardDescription>{detail.sessions.length} recorded</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {detail.sessions.map((session) => (
+                      <div key={session.id} className="rounded-lg border p-3 space-y-2 text-sm">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <p className="font-medium">
+                              {format(new Date(session.startedAt), "EEE d MMM, HH:mm")} -{" "}
+                              {session.endedAt ? format(new Date(session.endedAt), "HH:mm") : "still clocked in"}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {session.durationMinutes !== null ? formatMinutes(session.durationMinutes) : "In progress"}
+                              {session.breakMinutes > 0 && ` · ${formatMinutes(session.breakMinutes)} break`}
+                              {session.job?.title && ` · ${session.job.title}`}
+                              {session.shift && ` · ${session.shift.title || "Shift"}`}
+                            </p>
+                          </div>
+                          {(session.checkInId || session.clockInLatitude) && (
+                            <Badge variant="outline" className="text-xs">
+                              <MapPin className="mr-1 h-3 w-3" />
+                              {session.checkInId ? "GPS check-in" : "Location recorded"}
+                            </Badge>
+                          )}
+                        </div>
+                        {session.flags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {session.flags.map((flag) => (
+                              <Badge key={flag} variant="outline" className="text-xs">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                {flag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {session.edits.length > 0 && (
+                          <div className="space-y-1 border-t pt-2">
+                            {session.edits.map((edit) => (
+                              <div key={edit.id} className="text-xs text-muted-foreground">
+                                <span className="font-medium text-foreground">
+                                  {edit.editedByEmployeeId ? "Employee" : edit.editorName || "Manager"}
+                                </span>{" "}
+                                on {format(new Date(edit.createdAt), "d MMM HH:mm")}
+                                {edit.reason && ` — ${edit.reason}`}
+                                <div>
+                                  {Object.keys(edit.newValues).map((field) => (
+                                    <span key={field} className="mr-3">
+                                      {field}: {formatEditValue(edit.previousValues[field])} →{" "}
+                                      {formatEditValue(edit.newValues[field])}
+                                    </span>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {detail.timesheet.status === "submitted" ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="reviewComments">Comments</Label>
+                    <Textarea
+                      id="reviewComments"
+                      placeholder="Required when returning the timesheet"
+                      value={comments}
+                      onChange={(e) => setComments(e.target.value)}
+                    />
+                  </div>
+                ) : (
+                  detail.timesheet.reviewComments && (
+                    <div className="rounded-lg border p-3 text-sm">
+                      <p className="font-medium">Review comments</p>
+                      <p className="text-muted-foreground">{detail.timesheet.reviewComments}</p>
+                    </div>
+                  )
+                )}
+              </div>
+
+              {detail.timesheet.status === "submitted" && (
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => handleReview("return")} disabled={reviewing}>
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Return
+                  </Button>
+                  <Button onClick={() => handleReview("approve")} disabled={reviewing}>
+                    {reviewing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                    )}
+                    Approve
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
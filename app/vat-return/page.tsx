@@ -0,0 +1,186 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { DashboardHeaderClient } from "@/components/dashboard-header-client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, RefreshCw } from "lucide-react"
+import { endOfQuarter, format, startOfQuarter, subQuarters } from "date-fns"
+import { toast } from "sonner"
+import { vatReturnBoxLabels } from "@/lib/vat-settings"
+import type { VatReturn } from "@/lib/vat"
+
+const BOXES = ["box1", "box2", "box3", "box4", "box5", "box6", "box7", "box8", "box9"] as const
+
+// Boxes 6 to 9 are reported in whole pounds
+const WHOLE_POUND_BOXES = new Set<string>(["box6", "box7", "box8", "box9"])
+
+function getQuarterOptions(count = 8) {
+  return Array.from({ length: count }, (_, index) => {
+    const date = subQuarters(new Date(), index + 1)
+    const start = startOfQuarter(date)
+    const end = endOfQuarter(date)
+    return {
+      value: format(start, "yyyy-MM-dd"),
+      label: `${format(start, "MMM yyyy")} - ${format(end, "MMM yyyy")}`,
+      startDate: format(start, "yyyy-MM-dd"),
+      endDate: format(end, "yyyy-MM-dd"),
+    }
+  })
+}
+
+export default function VatReturnPage() {
+  const quarters = useMemo(() => getQuarterOptions(), [])
+  const [quarter, setQuarter] = useState(quarters[0].value)
+  const [vatReturn, setVatReturn] = useState<VatReturn | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const selected = quarters.find((option) => option.value === quarter) ?? quarters[0]
+
+  const fetchVatReturn = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(
+        `/api/reports/vat-return?startDate=${selected.startDate}&endDate=${selected.endDate}`
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load VAT return")
+      }
+      setVatReturn(data)
+    } catch (error) {
+      console.error("Error fetching VAT return:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to load VAT return")
+    } finally {
+      setLoading(false)
+    }
+  }, [selected.startDate, selected.endDate])
+
+  useEffect(() => {
+    fetchVatReturn()
+  }, [fetchVatReturn])
+
+  const formatBox = (box: string, value: number) =>
+    WHOLE_POUND_BOXES.has(box) ? `GBP ${value.toFixed(0)}` : `GBP ${value.toFixed(2)}`
+
+  const handleExport = () => {
+    if (!vatReturn) return
+
+    const csvEscape = (value: string | number | null | undefined) => `"${String(value ?? "").replace(/"/g, '""')}"`
+    const rows = [
+      ["Box", "Description", "Value"],
+      ...BOXES.map((box, index) => [
+        index + 1,
+        vatReturnBoxLabels[box],
+        WHOLE_POUND_BOXES.has(box) ? vatReturn[box].toFixed(0) : vatReturn[box].toFixed(2),
+      ]),
+      [],
+      ["Period start", selected.startDate],
+      ["Period end", selected.endDate],
+    ]
+
+    const csvContent = rows.map((row) => row.map(csvEscape).join(",")).join("\n")
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
+    const url = window.URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `vat-return-${selected.startDate}-${selected.endDate}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    window.URL.revokeObjectURL(url)
+    toast.success("Export started")
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeaderClient />
+
+      <main className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">VAT Return</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Boxes 1 to 9 from issued invoices, credit notes and expenses
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={quarter} onValueChange={setQuarter}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {quarters.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="w-full sm:w-auto" onClick={fetchVatReturn} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button className="w-full sm:w-auto" onClick={handleExport} disabled={!vatReturn || loading}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-2">
+              {selected.label}
+              {vatReturn && !loading && (
+                <Badge className={vatReturn.repaymentDue ? "bg-chart-2 text-white" : "bg-chart-4 text-white"}>
+                  {vatReturn.repaymentDue ? "Repayment due" : "VAT to pay"}
+                </Badge>
+              )}
+            </CardTitle>
+            {vatReturn && !loading && (
+              <CardDescription>
+                {vatReturn.invoiceCount} invoices, {vatReturn.creditNoteCount} credit notes and{" "}
+                {vatReturn.expenseCount} expenses in this period
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {loading || !vatReturn ? (
+              <div className="space-y-3">
+                {BOXES.map((box) => (
+                  <Skeleton key={box} className="h-8 w-full" />
+                ))}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Box</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {BOXES.map((box, index) => (
+                      <TableRow key={box} className={box === "box5" ? "font-semibold" : undefined}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell>{vatReturnBoxLabels[box]}</TableCell>
+                        <TableCell className="text-right">{formatBox(box, vatReturn[box])}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -33,10 +33,14 @@ import {
   Map,
   Wrench,
   Receipt,
+  Landmark,
+  FileUp,
   CreditCard,
   ShieldCheck,
   Menu,
   X,
+  Timer,
+  Repeat,
 } from "lucide-react"
 
 // Grouped navigation sections for better organization
@@ -58,6 +62,7 @@ const navigationSections = [
       { title: "Booking Requests", href: "/booking-requests", icon: CalendarClock },
       { title: "Quotes", href: "/quotes", icon: FileSignature },
       { title: "Contracts", href: "/contracts", icon: FileText },
+      { title: "Subscriptions", href: "/subscriptions", icon: Repeat },
       { title: "Customer Feedback", href: "/feedback", icon: Star },
     ],
   },
@@ -70,6 +75,7 @@ const navigationSections = [
       { title: "Time-off Requests", href: "/time-off", icon: Clock },
       { title: "Supply Requests", href: "/supply-requests", icon: Package },
       { title: "Work Hours", href: "/work-hours", icon: Clock },
+      { title: "Timesheets", href: "/timesheets", icon: Timer },
       { title: "Send Message", href: "/messages", icon: MessageSquare },
     ],
   },
@@ -79,7 +85,10 @@ const navigationSections = [
       { title: "Invoicing", href: "/invoicing", icon: FileCheck },
       { title: "Payments", href: "/payments", icon: CreditCard },
       { title: "Expenses", href: "/expenses", icon: Receipt },
+      { title: "Payroll", href: "/payroll", icon: Wallet },
       { title: "Profitability", href: "/profitability", icon: TrendingUp },
+      { title: "VAT Return", href: "/vat-return", icon: Landmark },
+      { title: "Accounting Export", href: "/accounting-export", icon: FileUp },
     ],
   },
   {
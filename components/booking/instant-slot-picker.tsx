@@ -0,0 +1,219 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { addDays, format, parseISO } from "date-fns"
+import { ChevronLeft, ChevronRight, Clock, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { cn } from "@/lib/utils"
+
+export interface BookingHoldSummary {
+  token: string
+  start: string
+  end: string
+  expiresAt: string
+}
+
+interface AvailabilityDay {
+  date: string
+  slots: Array<{ start: string; end: string }>
+  unavailableReason: string | null
+}
+
+interface InstantSlotPickerProps {
+  companyId: number
+  serviceType: string
+  bedrooms: string
+  bathrooms: string
+  postcode: string
+  hold: BookingHoldSummary | null
+  onHoldChange: (hold: BookingHoldSummary | null) => void
+  // Called once it is known whether the company takes instant bookings
+  onAvailabilityChange: (enabled: boolean) => void
+}
+
+const DAYS_PER_PAGE = 7
+
+export async function releaseHold(hold: BookingHoldSummary | null) {
+  if (!hold) return
+  try {
+    await fetch(`/api/public/booking/holds/${hold.token}`, { method: "DELETE" })
+  } catch (error) {
+    console.error("Failed to release booking hold:", error)
+  }
+}
+
+/**
+ * Bookable times for the public booking page. Picking one holds it for a few minutes while the
+ * customer reviews and submits their booking.
+ */
+export function InstantSlotPicker({
+  companyId,
+  serviceType,
+  bedrooms,
+  bathrooms,
+  postcode,
+  hold,
+  onHoldChange,
+  onAvailabilityChange,
+}: InstantSlotPickerProps) {
+  const [from, setFrom] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [days, setDays] = useState<AvailabilityDay[]>([])
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [holding, setHolding] = useState<string | null>(null)
+  const [error, setError] = useState("")
+  const [now, setNow] = useState(() => Date.now())
+
+  const loadAvailability = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const params = new URLSearchParams({
+        companyId: companyId.toString(),
+        serviceType,
+        from,
+        days: DAYS_PER_PAGE.toString(),
+      })
+      if (bedrooms) params.set("bedrooms", bedrooms)
+      if (bathrooms) params.set("bathrooms", bathrooms)
+      if (postcode) params.set("postcode", postcode)
+      const response = await fetch(`/api/public/booking/availability?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load available times")
+      onAvailabilityChange(data.enabled)
+      setDays(data.days)
+      setDurationMinutes(data.durationMinutes)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load available times")
+    } finally {
+      setLoading(false)
+    }
+  }, [companyId, serviceType, bedrooms, bathrooms, postcode, from, onAvailabilityChange])
+
+  useEffect(() => {
+    loadAvailability()
+  }, [loadAvailability])
+
+  // Ticks the hold countdown
+  useEffect(() => {
+    if (!hold) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [hold])
+
+  const handlePick = async (start: string) => {
+    setHolding(start)
+    setError("")
+    try {
+      await releaseHold(hold)
+      onHoldChange(null)
+      const response = await fetch("/api/public/booking/holds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, serviceType, bedrooms, bathrooms, postcode, start }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to hold this time")
+      onHoldChange(data.hold)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to hold this time")
+      loadAvailability()
+    } finally {
+      setHolding(null)
+    }
+  }
+
+  const secondsLeft = hold ? Math.max(0, Math.floor((new Date(hold.expiresAt).getTime() - now) / 1000)) : 0
+  const isFirstPage = from <= format(new Date(), "yyyy-MM-dd")
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {hold && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertDescription>
+            {format(parseISO(hold.start), "EEEE d MMMM, HH:mm")}–{format(parseISO(hold.end), "HH:mm")}{" "}
+            {secondsLeft > 0
+              ? `is held for you for ${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, "0")}`
+              : "is no longer held. You can still submit and we'll book it if it's free."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={loading || isFirstPage}
+          onClick={() => setFrom(format(addDays(parseISO(from), -DAYS_PER_PAGE), "yyyy-MM-dd"))}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Earlier
+        </Button>
+        {durationMinutes && (
+          <p className="text-sm text-muted-foreground">
+            About {Math.floor(durationMinutes / 60)}h{durationMinutes % 60 ? ` ${durationMinutes % 60}m` : ""}
+          </p>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={loading || days.length < DAYS_PER_PAGE}
+          onClick={() => setFrom(format(addDays(parseISO(from), DAYS_PER_PAGE), "yyyy-MM-dd"))}
+        >
+          Later
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-muted-foreground">Finding available times...</span>
+        </div>
+      ) : days.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No times can be booked online yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {days.map((day) => (
+            <div key={day.date} className="space-y-2">
+              <p className="text-sm font-medium">{format(parseISO(day.date), "EEEE d MMMM")}</p>
+              {day.slots.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{day.unavailableReason}</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {day.slots.map((slot) => {
+                    const selected = hold?.start && new Date(hold.start).getTime() === new Date(slot.start).getTime()
+                    return (
+                      <Button
+                        key={slot.start}
+                        size="sm"
+                        variant={selected ? "default" : "outline"}
+                        className={cn("min-w-[72px]", selected && "pointer-events-none")}
+                        disabled={holding !== null}
+                        onClick={() => handlePick(slot.start)}
+                      >
+                        {holding === slot.start ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          format(parseISO(slot.start), "HH:mm")
+                        )}
+                      </Button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
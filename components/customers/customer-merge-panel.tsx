@@ -0,0 +1,195 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Loader2, Merge, Undo2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CustomerSummaryCard } from "@/components/customers/duplicate-customers-dialog"
+import type { CustomerMergeSummary, DuplicatePair } from "@/lib/customer-merge"
+
+interface CustomerMergePanelProps {
+  customerId: number
+  customerName: string
+  status: string
+  onChanged?: () => void
+}
+
+/**
+ * Duplicate suggestions and merge history for one customer, shown on the customer page
+ */
+export function CustomerMergePanel({ customerId, customerName, status, onChanged }: CustomerMergePanelProps) {
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([])
+  const [merges, setMerges] = useState<CustomerMergeSummary[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const isMerged = status === "merged"
+
+  const load = useCallback(async () => {
+    try {
+      const [mergesRes, duplicatesRes] = await Promise.all([
+        fetch(`/api/customers/${customerId}/merges`),
+        isMerged ? null : fetch(`/api/customers/duplicates?customerId=${customerId}`),
+      ])
+      if (mergesRes.ok) setMerges((await mergesRes.json()).merges)
+      if (duplicatesRes?.ok) setDuplicates((await duplicatesRes.json()).duplicates)
+      else setDuplicates([])
+    } catch (error) {
+      console.error("Failed to load customer merges:", error)
+    }
+  }, [customerId, isMerged])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleMerge = async (pair: DuplicatePair) => {
+    const other = pair.otherCustomer
+    if (!confirm(`Merge ${other.name} into ${customerName}? Their jobs, invoices and other records will move to this customer.`)) {
+      return
+    }
+    setBusyId(`merge-${other.id}`)
+    try {
+      const response = await fetch(`/api/customers/${customerId}/merges`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mergedCustomerId: other.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to merge customers")
+      toast.success(`Merged ${other.name} into ${customerName}`)
+      onChanged?.()
+      load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge customers")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyId(`dismiss-${pair.otherCustomerId}`)
+    try {
+      const response = await fetch("/api/customers/duplicates/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customerId, otherCustomerId: pair.otherCustomerId }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to dismiss")
+      setDuplicates((current) => current.filter((p) => p.otherCustomerId !== pair.otherCustomerId))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dismiss")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUndo = async (merge: CustomerMergeSummary) => {
+    if (!confirm(`Split ${merge.mergedCustomerName} back out of ${merge.survivorName}?`)) return
+    setBusyId(`undo-${merge.id}`)
+    try {
+      const response = await fetch(`/api/customers/merges/${merge.id}/undo`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to undo merge")
+      toast.success(`Restored ${merge.mergedCustomerName}`)
+      onChanged?.()
+      load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to undo merge")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const mergedInto = merges.find((merge) => merge.mergedCustomerId === customerId && !merge.undoneAt)
+  const history = merges.filter((merge) => merge.survivorId === customerId)
+
+  const undoButton = (merge: CustomerMergeSummary) => (
+    <Button size="sm" variant="outline" disabled={busyId !== null} onClick={() => handleUndo(merge)}>
+      {busyId === `undo-${merge.id}` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+      Undo merge
+    </Button>
+  )
+
+  return (
+    <>
+      {isMerged && mergedInto && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm">
+              This record was merged into{" "}
+              <Link href={`/customers/${mergedInto.survivorId}`} className="font-medium underline">
+                {mergedInto.survivorName}
+              </Link>{" "}
+              on {format(new Date(mergedInto.createdAt), "PPP")}. Its jobs, invoices and other records are on that customer.
+            </p>
+            {undoButton(mergedInto)}
+          </CardContent>
+        </Card>
+      )}
+
+      {!isMerged && duplicates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Possible duplicates</CardTitle>
+            <CardDescription>Merging moves the other record&apos;s jobs, invoices and history to this customer</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {duplicates.map((pair) => (
+              <div key={pair.otherCustomerId} className="space-y-2">
+                <CustomerSummaryCard customer={pair.otherCustomer} />
+                <div className="flex flex-wrap gap-1">
+                  {pair.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline">
+                      {reason}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={busyId !== null} onClick={() => handleMerge(pair)}>
+                    {busyId === `merge-${pair.otherCustomerId}` ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Merge className="h-4 w-4 mr-2" />
+                    )}
+                    Merge into this customer
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={busyId !== null} onClick={() => handleDismiss(pair)}>
+                    <X className="h-4 w-4 mr-2" />
+                    Not a duplicate
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Merged records</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {history.map((merge) => (
+              <div key={merge.id} className="flex items-center justify-between gap-3 text-sm">
+                <div>
+                  <Link href={`/customers/${merge.mergedCustomerId}`} className="font-medium hover:underline">
+                    {merge.mergedCustomerName}
+                  </Link>
+                  <p className="text-muted-foreground">
+                    {format(new Date(merge.createdAt), "PPP")} · {merge.movedCount} records moved
+                  </p>
+                </div>
+                {merge.undoneAt ? <Badge variant="secondary">Undone</Badge> : undoButton(merge)}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
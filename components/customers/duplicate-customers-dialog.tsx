@@ -0,0 +1,185 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Loader2, Merge, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { DuplicateCustomerSummary, DuplicatePair, MatchConfidence } from "@/lib/customer-merge"
+
+interface DuplicateCustomersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onMerged?: () => void
+}
+
+const CONFIDENCE_VARIANTS: Record<MatchConfidence, "default" | "secondary" | "outline"> = {
+  high: "default",
+  medium: "secondary",
+  low: "outline",
+}
+
+function pairKey(pair: DuplicatePair) {
+  return `${pair.customerId}:${pair.otherCustomerId}`
+}
+
+export function CustomerSummaryCard({ customer }: { customer: DuplicateCustomerSummary }) {
+  const address = [customer.address, customer.city, customer.postcode].filter(Boolean).join(", ")
+  return (
+    <div className="space-y-1 rounded-md border p-3 text-sm">
+      <Link href={`/customers/${customer.id}`} className="font-medium hover:underline">
+        {customer.name}
+      </Link>
+      <p className="text-muted-foreground break-all">{customer.email}</p>
+      {customer.phone && <p className="text-muted-foreground">{customer.phone}</p>}
+      {address && <p className="text-muted-foreground">{address}</p>}
+      <p className="text-xs text-muted-foreground">
+        {customer.jobCount} {customer.jobCount === 1 ? "job" : "jobs"} · {customer.status}
+      </p>
+    </div>
+  )
+}
+
+export function DuplicateCustomersDialog({ open, onOpenChange, onMerged }: DuplicateCustomersDialogProps) {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const loadDuplicates = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/customers/duplicates")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to find duplicates")
+      setPairs(data.duplicates)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to find duplicates")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) loadDuplicates()
+  }, [open, loadDuplicates])
+
+  const handleMerge = async (pair: DuplicatePair, survivor: DuplicateCustomerSummary, merged: DuplicateCustomerSummary) => {
+    if (!confirm(`Merge ${merged.name} into ${survivor.name}? Their jobs, invoices and other records will move to ${survivor.name}. You can undo this from the customer's page.`)) {
+      return
+    }
+    setBusyKey(pairKey(pair))
+    try {
+      const response = await fetch(`/api/customers/${survivor.id}/merges`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mergedCustomerId: merged.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to merge customers")
+      toast.success(`Merged ${merged.name} into ${survivor.name}`)
+      // Any other pair involving the merged record is gone too
+      setPairs((current) =>
+        current.filter((p) => p.customerId !== merged.id && p.otherCustomerId !== merged.id),
+      )
+      onMerged?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge customers")
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyKey(pairKey(pair))
+    try {
+      const response = await fetch("/api/customers/duplicates/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customerId: pair.customerId, otherCustomerId: pair.otherCustomerId }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to dismiss")
+      setPairs((current) => current.filter((p) => pairKey(p) !== pairKey(pair)))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dismiss")
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible duplicates</DialogTitle>
+          <DialogDescription>
+            Customers that share a phone number, address, postcode or a similar name. Pick the record to keep and the
+            other is merged into it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : pairs.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No likely duplicates found</p>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map((pair) => {
+              const busy = busyKey === pairKey(pair)
+              return (
+                <div key={pairKey(pair)} className="space-y-3 rounded-lg border p-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={CONFIDENCE_VARIANTS[pair.confidence]} className="capitalize">
+                      {pair.confidence} · {pair.score}
+                    </Badge>
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {reason}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {[
+                      [pair.customer, pair.otherCustomer],
+                      [pair.otherCustomer, pair.customer],
+                    ].map(([survivor, merged]) => (
+                      <div key={survivor.id} className="space-y-2">
+                        <CustomerSummaryCard customer={survivor} />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full"
+                          disabled={busy}
+                          onClick={() => handleMerge(pair, survivor, merged)}
+                        >
+                          {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Merge className="h-4 w-4 mr-2" />}
+                          Keep this record
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleDismiss(pair)}>
+                      <X className="h-4 w-4 mr-2" />
+                      Not duplicates
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -55,6 +55,7 @@ interface Customer {
   source?: string | null
   referredBy?: string | null
   notes?: string | null
+  paymentRemindersOptOut?: number | null
   status: string
   addresses?: Array<{
     id?: number
@@ -121,6 +122,7 @@ export function EditCustomerDialog({ open, onOpenChange, customer, onSuccess }:
     referredBy: "",
     notes: "",
     status: "active",
+    paymentRemindersOptOut: false,
   })
 
   // Load customer data when dialog opens
@@ -154,6 +156,7 @@ export function EditCustomerDialog({ open, onOpenChange, customer, onSuccess }:
         referredBy: customer.referredBy || "",
         notes: customer.notes || "",
         status: customer.status || "active",
+        paymentRemindersOptOut: Boolean(customer.paymentRemindersOptOut),
       }
 
       setFormData(nextFormData)
@@ -497,6 +500,25 @@ export function EditCustomerDialog({ open, onOpenChange, customer, onSuccess }:
                 </Select>
               </div>
 
+              <div className="flex items-center gap-3 border-2 border-muted rounded-md p-3">
+                <Checkbox
+                  id="paymentRemindersOptOut"
+                  checked={formData.paymentRemindersOptOut}
+                  onCheckedChange={(checked) =>
+                    setFormData((prev) => ({ ...prev, paymentRemindersOptOut: Boolean(checked) }))
+                  }
+                  className="h-5 w-5 border-2"
+                />
+                <div>
+                  <Label htmlFor="paymentRemindersOptOut" className="cursor-pointer">
+                    Don&apos;t send payment reminders
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Automatic and manual payment reminder emails are not sent to this customer
+                  </p>
+                </div>
+              </div>
+
               <div className="grid gap-2">
                 <Label htmlFor="notes">Internal Notes</Label>
                 <Textarea
@@ -19,6 +19,8 @@ import {
   X,
   Package,
   Wallet,
+  CalendarClock,
+  Timer,
 } from "lucide-react"
 
 import {
@@ -139,6 +141,20 @@ export function EmployeeSidebar({ children }: { children: React.ReactNode }) {
 
   // Planning section - Regular use
   const planningItems = filterItems([
+    {
+      title: "Availability",
+      url: "/employee/availability",
+      icon: CalendarClock,
+      badge: null,
+      description: "Working hours",
+    },
+    {
+      title: "Timesheet",
+      url: "/employee/time",
+      icon: Timer,
+      badge: null,
+      description: "Clock in and out",
+    },
     {
       title: "Time Off",
       url: "/employee/time-off",
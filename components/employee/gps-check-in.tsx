@@ -311,6 +311,9 @@ export function GPSCheckIn({
 
       if (res.ok) {
         toast.success(data.message)
+        if (data.warning) {
+          toast.warning(data.warning)
+        }
         fetchStatus()
         onStatusChange?.()
         if (pendingAction === "check_in") {
@@ -352,6 +352,7 @@ export function AddEmployeeDialog({ open, onOpenChange, onSuccess }: AddEmployee
                     <SelectItem value="full-time">Full-time</SelectItem>
                     <SelectItem value="part-time">Part-time</SelectItem>
                     <SelectItem value="contract">Contract</SelectItem>
+                    <SelectItem value="zero-hours">Zero-hours</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -0,0 +1,332 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { CalendarX, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AvailabilityOverride, AvailabilityWindow } from "@/lib/employee-availability"
+
+// Monday first, matching the rest of the scheduling screens
+const DAYS = [
+  { dayOfWeek: 1, label: "Monday" },
+  { dayOfWeek: 2, label: "Tuesday" },
+  { dayOfWeek: 3, label: "Wednesday" },
+  { dayOfWeek: 4, label: "Thursday" },
+  { dayOfWeek: 5, label: "Friday" },
+  { dayOfWeek: 6, label: "Saturday" },
+  { dayOfWeek: 0, label: "Sunday" },
+]
+
+const DEFAULT_WINDOW = { startTime: "09:00", endTime: "17:00" }
+
+interface AvailabilityEditorProps {
+  // /api/employee/availability for the employee app, /api/employees/[id]/availability for managers
+  endpoint: string
+  onSaved?: (windows: AvailabilityWindow[]) => void
+}
+
+export function AvailabilityEditor({ endpoint, onSaved }: AvailabilityEditorProps) {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([])
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [overrideForm, setOverrideForm] = useState({
+    date: "",
+    mode: "unavailable" as "unavailable" | "hours",
+    startTime: DEFAULT_WINDOW.startTime,
+    endTime: DEFAULT_WINDOW.endTime,
+    reason: "",
+  })
+  const [addingOverride, setAddingOverride] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(endpoint)
+        if (!response.ok) throw new Error("Failed to load availability")
+        const data = await response.json()
+        setWindows(data.windows)
+        setOverrides(data.overrides)
+      } catch (error) {
+        console.error("Failed to load availability:", error)
+        toast.error("Failed to load availability")
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [endpoint])
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows((current) => current.map((window, i) => (i === index ? { ...window, ...changes } : window)))
+  }
+
+  const toggleDay = (dayOfWeek: number, available: boolean) => {
+    setWindows((current) =>
+      available
+        ? [...current, { dayOfWeek, ...DEFAULT_WINDOW }]
+        : current.filter((window) => window.dayOfWeek !== dayOfWeek),
+    )
+  }
+
+  const saveWindows = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ windows }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save availability")
+      setWindows(data.windows)
+      onSaved?.(data.windows)
+      toast.success("Availability saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save availability")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addOverride = async () => {
+    if (!overrideForm.date) {
+      toast.error("Pick a date")
+      return
+    }
+    setAddingOverride(true)
+    try {
+      const available = overrideForm.mode === "hours"
+      const response = await fetch(`${endpoint}/overrides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: overrideForm.date,
+          isAvailable: available,
+          startTime: available ? overrideForm.startTime : null,
+          endTime: available ? overrideForm.endTime : null,
+          reason: overrideForm.reason,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save date")
+      setOverrides((current) =>
+        [...current.filter((item) => item.date !== data.date), data].sort((a, b) => a.date.localeCompare(b.date)),
+      )
+      setOverrideForm((current) => ({ ...current, date: "", reason: "" }))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save date")
+    } finally {
+      setAddingOverride(false)
+    }
+  }
+
+  const removeOverride = async (override: AvailabilityOverride) => {
+    try {
+      const response = await fetch(`${endpoint}/overrides/${override.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to remove date")
+      }
+      setOverrides((current) => current.filter((item) => item.id !== override.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove date")
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading availability...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium">Weekly hours</h3>
+          <p className="text-xs text-muted-foreground">
+            {windows.length === 0
+              ? "No weekly hours set, so jobs can be booked at any time."
+              : "Jobs are only booked inside these hours."}
+          </p>
+        </div>
+
+        {DAYS.map(({ dayOfWeek, label }) => {
+          const dayWindows = windows
+            .map((window, index) => ({ window, index }))
+            .filter(({ window }) => window.dayOfWeek === dayOfWeek)
+          return (
+            <div key={dayOfWeek} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+              <div className="flex w-36 items-center gap-2 pt-1.5">
+                <Switch
+                  checked={dayWindows.length > 0}
+                  onCheckedChange={(checked) => toggleDay(dayOfWeek, checked)}
+                />
+                <span className="text-sm font-medium">{label}</span>
+              </div>
+              <div className="flex-1 space-y-2">
+                {dayWindows.length === 0 ? (
+                  <p className="pt-1.5 text-sm text-muted-foreground">Unavailable</p>
+                ) : (
+                  dayWindows.map(({ window, index }) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={window.startTime}
+                        onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                        className="w-32"
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={window.endTime === "24:00" ? "23:59" : window.endTime}
+                        onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                        className="w-32"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+                {dayWindows.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() =>
+                      setWindows((current) => [...current, { dayOfWeek, startTime: "13:00", endTime: "17:00" }])
+                    }
+                  >
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add hours
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="flex justify-end">
+          <Button onClick={saveWindows} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save weekly hours
+          </Button>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium">Specific dates</h3>
+          <p className="text-xs text-muted-foreground">Days off or different hours that replace the weekly pattern.</p>
+        </div>
+
+        {overrides.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No upcoming changes</p>
+        ) : (
+          <div className="space-y-2">
+            {overrides.map((override) => (
+              <div key={override.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <CalendarX className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">{format(parseISO(override.date), "EEE d MMM yyyy")}</span>
+                  {override.isAvailable ? (
+                    <Badge variant="secondary">
+                      {override.startTime && override.endTime
+                        ? `${override.startTime}–${override.endTime}`
+                        : "Available all day"}
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive">Unavailable</Badge>
+                  )}
+                  {override.reason && <span className="text-muted-foreground">{override.reason}</span>}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => removeOverride(override)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-3 rounded-md border p-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="override-date">Date</Label>
+            <Input
+              id="override-date"
+              type="date"
+              value={overrideForm.date}
+              onChange={(e) => setOverrideForm((current) => ({ ...current, date: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Availability</Label>
+            <Select
+              value={overrideForm.mode}
+              onValueChange={(value) =>
+                setOverrideForm((current) => ({ ...current, mode: value as "unavailable" | "hours" }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unavailable">Unavailable all day</SelectItem>
+                <SelectItem value="hours">Available at different hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {overrideForm.mode === "hours" && (
+            <div className="flex items-center gap-2 sm:col-span-2">
+              <Input
+                type="time"
+                value={overrideForm.startTime}
+                onChange={(e) => setOverrideForm((current) => ({ ...current, startTime: e.target.value }))}
+                className="w-32"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={overrideForm.endTime}
+                onChange={(e) => setOverrideForm((current) => ({ ...current, endTime: e.target.value }))}
+                className="w-32"
+              />
+            </div>
+          )}
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="override-reason">Reason (optional)</Label>
+            <Input
+              id="override-reason"
+              value={overrideForm.reason}
+              onChange={(e) => setOverrideForm((current) => ({ ...current, reason: e.target.value }))}
+              placeholder="e.g. Medical appointment"
+            />
+          </div>
+          <div className="flex justify-end sm:col-span-2">
+            <Button variant="outline" onClick={addOverride} disabled={addingOverride}>
+              {addingOverride && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add date
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
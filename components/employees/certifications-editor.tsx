@@ -0,0 +1,295 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { format, parseISO } from "date-fns"
+import { FileText, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { CertificationStatus } from "@/lib/employee-skills"
+
+interface Certification {
+  id: number
+  name: string
+  issuer: string | null
+  referenceNumber: string | null
+  issuedOn: string | null
+  expiresOn: string | null
+  status: CertificationStatus
+  attachment: { id: number; url: string; originalName: string } | null
+}
+
+const statusBadges: Record<CertificationStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  valid: { label: "Valid", variant: "secondary" },
+  expiring: { label: "Expiring soon", variant: "default" },
+  expired: { label: "Expired", variant: "destructive" },
+  no_expiry: { label: "No expiry", variant: "outline" },
+}
+
+const emptyForm = {
+  name: "",
+  issuer: "",
+  referenceNumber: "",
+  issuedOn: "",
+  expiresOn: "",
+}
+
+interface CertificationsEditorProps {
+  // /api/employee/certifications for the employee app, /api/employees/[id]/certifications for managers
+  endpoint: string
+}
+
+export function CertificationsEditor({ endpoint }: CertificationsEditorProps) {
+  const [certifications, setCertifications] = useState<Certification[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  // Null when adding a new certification
+  const [editing, setEditing] = useState<Certification | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [file, setFile] = useState<File | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(endpoint)
+        if (!response.ok) throw new Error("Failed to load certifications")
+        setCertifications(await response.json())
+      } catch (error) {
+        console.error("Failed to load certifications:", error)
+        toast.error("Failed to load certifications")
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [endpoint])
+
+  const openDialog = (certification: Certification | null) => {
+    setEditing(certification)
+    setForm(
+      certification
+        ? {
+            name: certification.name,
+            issuer: certification.issuer || "",
+            referenceNumber: certification.referenceNumber || "",
+            issuedOn: certification.issuedOn || "",
+            expiresOn: certification.expiresOn || "",
+          }
+        : emptyForm,
+    )
+    setFile(null)
+    setDialogOpen(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      let response: Response
+      if (editing) {
+        response = await fetch(`${endpoint}/${editing.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        })
+      } else {
+        const formData = new FormData()
+        Object.entries(form).forEach(([key, value]) => formData.append(key, value))
+        if (file) formData.append("file", file)
+        response = await fetch(endpoint, { method: "POST", body: formData })
+      }
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save certification")
+
+      setCertifications((current) => {
+        const saved = { ...data, attachment: data.attachment ?? editing?.attachment ?? null }
+        return editing
+          ? current.map((item) => (item.id === editing.id ? saved : item))
+          : [...current, saved].sort((a, b) => a.name.localeCompare(b.name))
+      })
+      setDialogOpen(false)
+      toast.success("Certification saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save certification")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (certification: Certification) => {
+    if (!confirm(`Remove ${certification.name}?`)) return
+    try {
+      const response = await fetch(`${endpoint}/${certification.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to remove certification")
+      }
+      setCertifications((current) => current.filter((item) => item.id !== certification.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove certification")
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading certifications...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {certifications.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No certifications added yet</p>
+      ) : (
+        <div className="space-y-2">
+          {certifications.map((certification) => {
+            const badge = statusBadges[certification.status]
+            return (
+              <div key={certification.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{certification.name}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      certification.issuer,
+                      certification.referenceNumber && `Ref ${certification.referenceNumber}`,
+                      certification.expiresOn && `Expires ${format(parseISO(certification.expiresOn), "d MMM yyyy")}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                  {certification.attachment && (
+                    <a
+                      href={certification.attachment.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                    >
+                      <FileText className="h-3 w-3" />
+                      {certification.attachment.originalName}
+                    </a>
+                  )}
+                </div>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(certification)}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(certification)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+        <Plus className="mr-1 h-3 w-3" />
+        Add certification
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Certification" : "Add Certification"}</DialogTitle>
+              <DialogDescription>
+                {editing
+                  ? "Update the details, e.g. the new expiry date after renewing."
+                  : "Record a certification and upload the certificate."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-3 py-4">
+              <div className="grid gap-1">
+                <Label htmlFor="certification-name">Name</Label>
+                <Input
+                  id="certification-name"
+                  value={form.name}
+                  onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                  placeholder="e.g. DBS check, First Aid"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-1">
+                  <Label htmlFor="certification-issuer">Issuer</Label>
+                  <Input
+                    id="certification-issuer"
+                    value={form.issuer}
+                    onChange={(e) => setForm((current) => ({ ...current, issuer: e.target.value }))}
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="certification-reference">Reference</Label>
+                  <Input
+                    id="certification-reference"
+                    value={form.referenceNumber}
+                    onChange={(e) => setForm((current) => ({ ...current, referenceNumber: e.target.value }))}
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="certification-issued">Issued</Label>
+                  <Input
+                    id="certification-issued"
+                    type="date"
+                    value={form.issuedOn}
+                    onChange={(e) => setForm((current) => ({ ...current, issuedOn: e.target.value }))}
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="certification-expires">Expires</Label>
+                  <Input
+                    id="certification-expires"
+                    type="date"
+                    value={form.expiresOn}
+                    onChange={(e) => setForm((current) => ({ ...current, expiresOn: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {!editing && (
+                <div className="grid gap-1">
+                  <Label htmlFor="certification-file">Certificate (optional)</Label>
+                  <Input
+                    id="certification-file"
+                    type="file"
+                    accept="image/*,application/pdf"
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !form.name.trim()}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
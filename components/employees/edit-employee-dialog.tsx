@@ -11,6 +11,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Loader2 } from "lucide-react"
 import { AddressAutocomplete, AddressSuggestion } from "@/components/addresses/address-autocomplete"
+import { SkillsEditor } from "@/components/employees/skills-editor"
+import { CertificationsEditor } from "@/components/employees/certifications-editor"
+import { PAY_FREQUENCIES, payFrequencyLabels } from "@/lib/payroll-settings"
 
 interface Employee {
   id: number
@@ -34,11 +37,10 @@ interface Employee {
   salary?: string | null
   paymentFrequency?: string | null
   payType?: string | null
-  skills?: string | null
-  certifications?: string | null
+  contractedHoursPerWeek?: string | null
+  annualLeaveDays?: string | null
   languages?: string | null
   performanceRating?: string | null
-  availability?: string | null
   emergencyContactName?: string | null
   emergencyContactPhone?: string | null
   emergencyContactRelation?: string | null
@@ -77,11 +79,10 @@ export function EditEmployeeDialog({ open, onOpenChange, employee, onSuccess }:
     salary: "",
     paymentFrequency: "",
     payType: "hourly",
-    skills: "",
-    certifications: "",
+    contractedHoursPerWeek: "",
+    annualLeaveDays: "",
     languages: "",
     performanceRating: "",
-    availability: "",
     emergencyContactName: "",
     emergencyContactPhone: "",
     emergencyContactRelation: "",
@@ -112,11 +113,10 @@ export function EditEmployeeDialog({ open, onOpenChange, employee, onSuccess }:
         salary: employee.salary || "",
         paymentFrequency: employee.paymentFrequency || "",
         payType: employee.payType || (employee.salary ? "salary" : "hourly"),
-        skills: employee.skills || "",
-        certifications: employee.certifications || "",
+        contractedHoursPerWeek: employee.contractedHoursPerWeek || "",
+        annualLeaveDays: employee.annualLeaveDays || "",
         languages: employee.languages || "",
         performanceRating: employee.performanceRating || "",
-        availability: employee.availability || "",
         emergencyContactName: employee.emergencyContactName || "",
         emergencyContactPhone: employee.emergencyContactPhone || "",
         emergencyContactRelation: employee.emergencyContactRelation || "",
@@ -361,6 +361,7 @@ export function EditEmployeeDialog({ open, onOpenChange, employee, onSuccess }:
                       <SelectItem value="part-time">Part-time</SelectItem>
                       <SelectItem value="contract">Contract</SelectItem>
                       <SelectItem value="temporary">Temporary</SelectItem>
+                      <SelectItem value="zero-hours">Zero-hours</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -477,57 +478,78 @@ export function EditEmployeeDialog({ open, onOpenChange, employee, onSuccess }:
                 )}
               </div>
 
-              {formData.payType !== "per_job" && (
-                <div className="grid gap-2">
-                  <Label htmlFor="paymentFrequency">Payment Frequency</Label>
-                  <Select
-                    value={formData.paymentFrequency}
-                    onValueChange={(value) => handleChange("paymentFrequency", value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select frequency" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="hourly">Hourly</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="bi-weekly">Bi-weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
+              <div className="grid gap-2">
+                <Label htmlFor="paymentFrequency">Payment Frequency</Label>
+                <Select
+                  value={formData.paymentFrequency}
+                  onValueChange={(value) => handleChange("paymentFrequency", value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Company default" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAY_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {payFrequencyLabels[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
               <div className="p-4 bg-muted rounded-lg">
                 <p className="text-sm text-muted-foreground">
-                  <strong>Note:</strong> Hourly workers use hourly rate. Salaried employees use annual salary.
-                  Pay-per-job employees get pay set per job.
+                  <strong>Note:</strong> Hourly workers are paid for their logged hours. Salaried employees use
+                  annual salary. Pay-per-job employees get pay set per job. Payroll runs group employees by payment
+                  frequency.
                 </p>
               </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="contractedHoursPerWeek">Contracted Hours per Week</Label>
+                  <Input
+                    id="contractedHoursPerWeek"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    value={formData.contractedHoursPerWeek}
+                    onChange={(e) => handleChange("contractedHoursPerWeek", e.target.value)}
+                    placeholder="Full-time"
+                    disabled={formData.employmentType === "zero-hours"}
+                  />
+                  <p className="text-xs text-muted-foreground">Part-time holiday is pro-rated from these hours</p>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="annualLeaveDays">Annual Leave (days)</Label>
+                  <Input
+                    id="annualLeaveDays"
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={formData.annualLeaveDays}
+                    onChange={(e) => handleChange("annualLeaveDays", e.target.value)}
+                    placeholder="Statutory"
+                    disabled={formData.employmentType === "zero-hours"}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {formData.employmentType === "zero-hours"
+                      ? "Zero-hours staff accrue holiday from the hours they work"
+                      : "Leave blank to use the company holiday settings"}
+                  </p>
+                </div>
+              </div>
             </TabsContent>
 
             <TabsContent value="skills" className="space-y-4 mt-4">
               <div className="grid gap-2">
-                <Label htmlFor="skills">Skills</Label>
-                <Textarea
-                  id="skills"
-                  value={formData.skills}
-                  onChange={(e) => handleChange("skills", e.target.value)}
-                  placeholder="e.g., Deep cleaning, Window cleaning, Carpet cleaning (comma-separated)"
-                  rows={3}
-                />
-                <p className="text-xs text-muted-foreground">Enter skills separated by commas</p>
+                <Label>Skills</Label>
+                <SkillsEditor endpoint={`/api/employees/${employee.id}/skills`} />
               </div>
 
               <div className="grid gap-2">
-                <Label htmlFor="certifications">Certifications</Label>
-                <Textarea
-                  id="certifications"
-                  value={formData.certifications}
-                  onChange={(e) => handleChange("certifications", e.target.value)}
-                  placeholder="e.g., COSHH Training, First Aid, Health & Safety (comma-separated)"
-                  rows={3}
-                />
-                <p className="text-xs text-muted-foreground">Enter certifications separated by commas</p>
+                <Label>Certifications</Label>
+                <CertificationsEditor endpoint={`/api/employees/${employee.id}/certifications`} />
               </div>
 
               <div className="grid gap-2">
@@ -542,17 +564,6 @@ export function EditEmployeeDialog({ open, onOpenChange, employee, onSuccess }:
                 <p className="text-xs text-muted-foreground">Enter languages separated by commas</p>
               </div>
 
-              <div className="grid gap-2">
-                <Label htmlFor="availability">Availability</Label>
-                <Textarea
-                  id="availability"
-                  value={formData.availability}
-                  onChange={(e) => handleChange("availability", e.target.value)}
-                  placeholder="e.g., Mon-Fri: 9am-5pm, Sat: 10am-2pm"
-                  rows={3}
-                />
-                <p className="text-xs text-muted-foreground">Enter weekly availability schedule</p>
-              </div>
             </TabsContent>
 
             <TabsContent value="emergency" className="space-y-4 mt-4">
@@ -42,11 +42,10 @@ interface Employee {
   hourlyRate?: string | null
   salary?: string | null
   paymentFrequency?: string | null
-  skills?: string | null
-  certifications?: string | null
+  contractedHoursPerWeek?: string | null
+  annualLeaveDays?: string | null
   languages?: string | null
   performanceRating?: string | null
-  availability?: string | null
   emergencyContactName?: string | null
   emergencyContactPhone?: string | null
   emergencyContactRelation?: string | null
@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Plus, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { EmployeeSkillSummary, SkillLevel } from "@/lib/employee-skills"
+
+const levelLabels: Record<SkillLevel, string> = {
+  learning: "Learning",
+  competent: "Competent",
+  expert: "Expert",
+}
+
+interface CatalogueSkill {
+  id: number
+  name: string
+  description: string | null
+}
+
+interface SkillsEditorProps {
+  // /api/employee/skills for the employee app, /api/employees/[id]/skills for managers
+  endpoint: string
+}
+
+export function SkillsEditor({ endpoint }: SkillsEditorProps) {
+  const [skills, setSkills] = useState<EmployeeSkillSummary[]>([])
+  const [catalogue, setCatalogue] = useState<CatalogueSkill[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [dirty, setDirty] = useState(false)
+  const [newSkillId, setNewSkillId] = useState("")
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(endpoint)
+        if (!response.ok) throw new Error("Failed to load skills")
+        const data = await response.json()
+        setSkills(data.skills)
+        setCatalogue(data.catalogue)
+      } catch (error) {
+        console.error("Failed to load skills:", error)
+        toast.error("Failed to load skills")
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [endpoint])
+
+  const available = catalogue.filter((skill) => !skills.some((item) => item.skillId === skill.id))
+
+  const addSkill = () => {
+    const skill = catalogue.find((item) => item.id.toString() === newSkillId)
+    if (!skill) return
+    setSkills((current) => [...current, { skillId: skill.id, name: skill.name, level: "competent" }])
+    setNewSkillId("")
+    setDirty(true)
+  }
+
+  const updateLevel = (skillId: number, level: SkillLevel) => {
+    setSkills((current) => current.map((item) => (item.skillId === skillId ? { ...item, level } : item)))
+    setDirty(true)
+  }
+
+  const removeSkill = (skillId: number) => {
+    setSkills((current) => current.filter((item) => item.skillId !== skillId))
+    setDirty(true)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ skills: skills.map(({ skillId, level }) => ({ skillId, level })) }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save skills")
+      setSkills(data.skills)
+      setDirty(false)
+      toast.success("Skills saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save skills")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading skills...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {skills.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No skills added yet</p>
+      ) : (
+        <div className="space-y-2">
+          {skills.map((skill) => (
+            <div key={skill.skillId} className="flex items-center justify-between gap-2">
+              <Badge variant="secondary" className="capitalize">
+                {skill.name}
+              </Badge>
+              <div className="flex items-center gap-1">
+                <Select value={skill.level} onValueChange={(value) => updateLevel(skill.skillId, value as SkillLevel)}>
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(levelLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeSkill(skill.skillId)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {catalogue.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No skills have been set up for the company yet.</p>
+      ) : (
+        available.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={newSkillId} onValueChange={setNewSkillId}>
+              <SelectTrigger className="h-9">
+                <SelectValue placeholder="Add a skill" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((skill) => (
+                  <SelectItem key={skill.id} value={skill.id.toString()}>
+                    {skill.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={addSkill} disabled={!newSkillId}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      )}
+
+      {dirty && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={save} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save skills
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
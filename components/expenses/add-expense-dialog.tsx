@@ -28,6 +28,8 @@ export function AddExpenseDialog({ open, onOpenChange, jobId, onSuccess }: AddEx
     vendor: "",
     receiptNumber: "",
     taxDeductible: true,
+    vatAmount: "",
+    vatReclaimable: false,
     notes: "",
     expenseDate: new Date().toISOString().split("T")[0],
   })
@@ -52,6 +54,12 @@ export function AddExpenseDialog({ open, onOpenChange, jobId, onSuccess }: AddEx
       return
     }
 
+    const vatAmount = formData.vatAmount ? parseFloat(formData.vatAmount) : 0
+    if (isNaN(vatAmount) || vatAmount < 0 || vatAmount > amount) {
+      setError("VAT can't be more than the amount")
+      return
+    }
+
     setLoading(true)
 
     try {
@@ -79,6 +87,8 @@ export function AddExpenseDialog({ open, onOpenChange, jobId, onSuccess }: AddEx
         vendor: "",
         receiptNumber: "",
         taxDeductible: true,
+        vatAmount: "",
+        vatReclaimable: false,
         notes: "",
         expenseDate: new Date().toISOString().split("T")[0],
       })
@@ -212,6 +222,31 @@ export function AddExpenseDialog({ open, onOpenChange, jobId, onSuccess }: AddEx
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="vatAmount">VAT included (£)</Label>
+                <Input
+                  id="vatAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.vatAmount}
+                  onChange={(e) => handleChange("vatAmount", e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="flex items-end pb-2 space-x-2">
+                <Checkbox
+                  id="vatReclaimable"
+                  checked={formData.vatReclaimable}
+                  onCheckedChange={(checked) => handleChange("vatReclaimable", checked as boolean)}
+                />
+                <Label htmlFor="vatReclaimable" className="text-sm font-normal cursor-pointer">
+                  Reclaim VAT
+                </Label>
+              </div>
+            </div>
+
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="taxDeductible"
@@ -0,0 +1,466 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { FileSpreadsheet, Loader2, Undo2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { IMPORT_ENTITY_LABELS } from "@/lib/imports/fields"
+import type { ColumnMapping, DuplicateMode, ImportEntity, ImportField, ImportRowAction, ImportRowPreview } from "@/lib/imports"
+
+interface ImportDialogProps {
+  entityType: ImportEntity
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported?: () => void
+}
+
+interface DraftImport {
+  id: number
+  fileName: string
+  headers: string[]
+  columnMapping: ColumnMapping | null
+  duplicateMode: DuplicateMode
+  totalRows: number
+  sampleRows: string[][]
+  fields: ImportField[]
+}
+
+interface ImportPreview {
+  summary: { create: number; update: number; skip: number; addAddress: number; error: number }
+  rows: ImportRowPreview[]
+}
+
+interface ImportHistoryItem {
+  id: number
+  fileName: string
+  status: string
+  totalRows: number
+  createdCount: number
+  updatedCount: number
+  skippedCount: number
+  errorCount: number
+  createdAt: string
+  committedAt: string | null
+  rolledBackAt: string | null
+}
+
+const NOT_IMPORTED = "none"
+
+const ACTION_BADGES: Record<ImportRowAction, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-green-100 text-green-800" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800" },
+  add_address: { label: "Address", className: "bg-purple-100 text-purple-800" },
+  skip: { label: "Skip", className: "bg-gray-100 text-gray-700" },
+  error: { label: "Error", className: "bg-red-100 text-red-800" },
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gray-100 text-gray-700" },
+  committed: { label: "Imported", className: "bg-green-100 text-green-800" },
+  rolled_back: { label: "Rolled back", className: "bg-orange-100 text-orange-800" },
+}
+
+export function ImportDialog({ entityType, open, onOpenChange, onImported }: ImportDialogProps) {
+  const label = IMPORT_ENTITY_LABELS[entityType]
+  const [tab, setTab] = useState("new")
+  const [file, setFile] = useState<File | null>(null)
+  const [draft, setDraft] = useState<DraftImport | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>("skip")
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false)
+  const [history, setHistory] = useState<ImportHistoryItem[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [previewing, setPreviewing] = useState(false)
+  const [committing, setCommitting] = useState(false)
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
+
+  const reset = () => {
+    setFile(null)
+    setDraft(null)
+    setMapping({})
+    setDuplicateMode("skip")
+    setPreview(null)
+    setShowProblemsOnly(false)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      reset()
+      setTab("new")
+    }
+    onOpenChange(isOpen)
+  }
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/imports?entityType=${entityType}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load imports")
+      setHistory(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load imports")
+    }
+  }, [entityType])
+
+  useEffect(() => {
+    if (open && tab === "history") {
+      fetchHistory()
+    }
+  }, [open, tab, fetchHistory])
+
+  const handleUpload = async () => {
+    if (!file) return
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("entityType", entityType)
+      const response = await fetch("/api/imports", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to read file")
+      setDraft(data)
+      setMapping(data.columnMapping ?? {})
+      setPreview(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read file")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!draft) return
+    setPreviewing(true)
+    try {
+      const response = await fetch(`/api/imports/${draft.id}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping, duplicateMode }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to preview import")
+      setPreview(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview import")
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!draft) return
+    setCommitting(true)
+    try {
+      const response = await fetch(`/api/imports/${draft.id}/commit`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to import rows")
+
+      const { create, update, addAddress, skip, error } = data.summary
+      const parts = [`${create} added`]
+      if (update) parts.push(`${update} updated`)
+      if (addAddress) parts.push(`${addAddress} addresses added`)
+      if (data.visitsCreated) parts.push(`${data.visitsCreated} repeat visits scheduled`)
+      if (skip + error) parts.push(`${skip + error} skipped`)
+      toast.success(`Import complete: ${parts.join(", ")}`)
+
+      onImported?.()
+      reset()
+      setTab("history")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import rows")
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const handleRollback = async (item: ImportHistoryItem) => {
+    if (!confirm(`Roll back the import of ${item.fileName}? Records it added are removed and records it updated are restored.`)) {
+      return
+    }
+    setRollingBack(item.id)
+    try {
+      const response = await fetch(`/api/imports/${item.id}/rollback`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to roll back import")
+
+      const message = `Rolled back: ${data.removed} removed, ${data.restored} restored`
+      if (data.kept.length > 0) {
+        toast.warning(`${message}. ${data.kept.length} kept because they are in use.`)
+      } else {
+        toast.success(message)
+      }
+      onImported?.()
+      await fetchHistory()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to roll back import")
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  const updateMapping = (key: string, value: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (value === NOT_IMPORTED) delete next[key]
+      else next[key] = Number(value)
+      return next
+    })
+    setPreview(null)
+  }
+
+  const visibleRows = preview?.rows.filter((row) => !showProblemsOnly || row.action === "error") ?? []
+  const importable = preview ? preview.summary.create + preview.summary.update + preview.summary.addAddress : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+            Import {label.toLowerCase()}
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file, match its columns and check every row before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="new">New import</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="new" className="space-y-4 pt-2">
+            {!draft && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="import-file">File</Label>
+                  <Input
+                    id="import-file"
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+                <Button onClick={handleUpload} disabled={!file || uploading}>
+                  {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  Upload
+                </Button>
+              </div>
+            )}
+
+            {draft && !preview && (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <p>
+                    <span className="font-medium">{draft.fileName}</span>{" "}
+                    <span className="text-muted-foreground">· {draft.totalRows} rows</span>
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={reset}>
+                    Choose another file
+                  </Button>
+                </div>
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {draft.fields.map((field) => {
+                    const column = mapping[field.key]
+                    const sample = column === undefined ? "" : draft.sampleRows.find((row) => row[column])?.[column]
+                    return (
+                      <div key={field.key} className="space-y-1">
+                        <Label>
+                          {field.label}
+                          {field.required && <span className="text-red-500"> *</span>}
+                        </Label>
+                        <Select
+                          value={column === undefined ? NOT_IMPORTED : String(column)}
+                          onValueChange={(value) => updateMapping(field.key, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                            {draft.headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {sample ? `e.g. ${sample}` : field.hint}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+
+                {entityType !== "jobs" && (
+                  <div className="space-y-1">
+                    <Label>Rows matching an existing record</Label>
+                    <Select value={duplicateMode} onValueChange={(value) => setDuplicateMode(value as DuplicateMode)}>
+                      <SelectTrigger className="sm:w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip them</SelectItem>
+                        <SelectItem value="update">Update the existing record</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </>
+            )}
+
+            {preview && (
+              <>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge className={ACTION_BADGES.create.className}>{preview.summary.create} new</Badge>
+                  {preview.summary.update > 0 && (
+                    <Badge className={ACTION_BADGES.update.className}>{preview.summary.update} updates</Badge>
+                  )}
+                  {preview.summary.addAddress > 0 && (
+                    <Badge className={ACTION_BADGES.add_address.className}>
+                      {preview.summary.addAddress} extra addresses
+                    </Badge>
+                  )}
+                  <Badge className={ACTION_BADGES.skip.className}>{preview.summary.skip} skipped</Badge>
+                  <Badge className={ACTION_BADGES.error.className}>{preview.summary.error} with errors</Badge>
+                  {preview.summary.error > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowProblemsOnly((value) => !value)}>
+                      {showProblemsOnly ? "Show all rows" : "Show errors only"}
+                    </Button>
+                  )}
+                </div>
+
+                <div className="max-h-96 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Record</TableHead>
+                        <TableHead className="w-24">Action</TableHead>
+                        <TableHead>Notes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.map((row) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell className="font-medium">{row.label || "—"}</TableCell>
+                          <TableCell>
+                            <Badge className={ACTION_BADGES[row.action].className}>{ACTION_BADGES[row.action].label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{row.messages.join(" · ")}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {preview.summary.error > 0 && (
+                  <p className="text-sm text-orange-700">
+                    Rows with errors are left out. Fix them in the file and import it again, or import the rest now.
+                  </p>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="pt-2">
+            {history.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No {label.toLowerCase()} imports yet.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File</TableHead>
+                      <TableHead>Uploaded</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead className="w-32" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.map((item) => {
+                      const status = STATUS_BADGES[item.status] ?? STATUS_BADGES.draft
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">{item.fileName}</TableCell>
+                          <TableCell>{format(new Date(item.createdAt), "d MMM yyyy HH:mm")}</TableCell>
+                          <TableCell>
+                            <Badge className={status.className}>{status.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {item.status === "draft"
+                              ? `${item.totalRows} rows`
+                              : `${item.createdCount} added, ${item.updatedCount} updated, ${item.skippedCount + item.errorCount} skipped`}
+                          </TableCell>
+                          <TableCell>
+                            {item.status === "committed" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRollback(item)}
+                                disabled={rollingBack !== null}
+                              >
+                                {rollingBack === item.id ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Undo2 className="mr-2 h-4 w-4" />
+                                )}
+                                Roll back
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {tab === "new" && draft && (
+          <DialogFooter>
+            {preview ? (
+              <>
+                <Button variant="outline" onClick={() => setPreview(null)} disabled={committing}>
+                  Back to columns
+                </Button>
+                <Button onClick={handleCommit} disabled={committing || importable === 0}>
+                  {committing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {importable} row{importable === 1 ? "" : "s"}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handlePreview} disabled={previewing}>
+                {previewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
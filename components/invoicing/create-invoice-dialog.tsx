@@ -6,8 +6,20 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import { Plus, Trash2 } from "lucide-react"
 import { useState, useEffect } from "react"
+import {
+  CompanyVatSettings,
+  REVERSE_CHARGE_NOTICE,
+  VAT_RATE_CODES,
+  VatRateCode,
+  calculateInvoiceTotals,
+  defaultVatSettings,
+  getVatRatePercent,
+  isReverseChargeCustomer,
+  vatRateLabels,
+} from "@/lib/vat-settings"
 
 interface CreateInvoiceDialogProps {
   open: boolean
@@ -22,13 +34,15 @@ interface InvoiceItem {
   quantity: string
   unitPrice: string
   amount: string
-  taxable: boolean
+  vatRate: VatRateCode
 }
 
 interface Customer {
   id: number
   name: string
   email: string
+  customerType?: string | null
+  taxId?: string | null
 }
 
 export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInvoiceDialogProps) {
@@ -37,12 +51,13 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
   const [customers, setCustomers] = useState<Customer[]>([])
   const [customerId, setCustomerId] = useState("")
   const [dueDate, setDueDate] = useState("")
-  const [taxRate, setTaxRate] = useState("20")
+  const [vatSettings, setVatSettings] = useState<CompanyVatSettings>(defaultVatSettings)
+  const [pricesIncludeVat, setPricesIncludeVat] = useState(false)
   const [discountAmount, setDiscountAmount] = useState("0")
   const [notes, setNotes] = useState("")
   const [terms, setTerms] = useState("Payment is due within 30 days of the invoice date.")
   const [items, setItems] = useState<InvoiceItem[]>([
-    { id: 1, title: "", description: "", quantity: "1", unitPrice: "0", amount: "0", taxable: true }
+    { id: 1, title: "", description: "", quantity: "1", unitPrice: "0", amount: "0", vatRate: "standard" }
   ])
   const todayValue = new Date().toISOString().split("T")[0]
 
@@ -56,11 +71,25 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
             setCustomers(data.map((c: any) => ({
               id: c.id,
               name: c.name || `${c.firstName} ${c.lastName}`,
-              email: c.email
+              email: c.email,
+              customerType: c.customerType,
+              taxId: c.taxId,
             })))
           }
         })
         .catch((err) => console.error("Failed to load customers:", err))
+
+      fetch("/api/company/vat-settings")
+        .then((res) => res.json())
+        .then((data) => {
+          if (data?.settings) {
+            const settings: CompanyVatSettings = data.settings
+            setVatSettings(settings)
+            setPricesIncludeVat(settings.pricesIncludeVat)
+            setItems((prev) => prev.map((item) => ({ ...item, vatRate: settings.defaultRate })))
+          }
+        })
+        .catch((err) => console.error("Failed to load VAT settings:", err))
     }
   }, [open])
 
@@ -72,7 +101,7 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
       quantity: "1",
       unitPrice: "0",
       amount: "0",
-      taxable: true
+      vatRate: vatSettings.defaultRate
     }])
   }
 
@@ -96,15 +125,23 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
     }))
   }
 
+  const selectedCustomer = customers.find((customer) => customer.id.toString() === customerId)
+  const reverseCharge = isReverseChargeCustomer(vatSettings, selectedCustomer)
+
   const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0)
-    const taxableAmount = items
-      .filter((item) => item.taxable)
-      .reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0)
-    const tax = (taxableAmount * parseFloat(taxRate || "0")) / 100
     const discount = parseFloat(discountAmount || "0")
-    const total = subtotal + tax - discount
-    return { subtotal, tax, discount, total }
+    const totals = calculateInvoiceTotals(items, {
+      settings: vatSettings,
+      discountAmount: discount,
+      pricesIncludeVat,
+      reverseCharge,
+    })
+    return {
+      subtotal: parseFloat(totals.subtotal),
+      breakdown: totals.breakdown,
+      discount,
+      total: parseFloat(totals.total),
+    }
   }
 
   const handleSubmit = async (status: "draft" | "sent") => {
@@ -138,7 +175,7 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
         body: JSON.stringify({
           customerId,
           items: items.filter((item) => item.title),
-          taxRate,
+          pricesIncludeVat,
           discountAmount,
           notes,
           terms,
@@ -164,11 +201,11 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
       // Reset form
       setCustomerId("")
       setDueDate("")
-      setTaxRate("20")
+      setPricesIncludeVat(vatSettings.pricesIncludeVat)
       setDiscountAmount("0")
       setNotes("")
       setTerms("Payment is due within 30 days of the invoice date.")
-      setItems([{ id: 1, title: "", description: "", quantity: "1", unitPrice: "0", amount: "0", taxable: true }])
+      setItems([{ id: 1, title: "", description: "", quantity: "1", unitPrice: "0", amount: "0", vatRate: vatSettings.defaultRate }])
 
       onSuccess?.()
       onOpenChange(false)
@@ -223,14 +260,13 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <div className="grid gap-2">
-              <Label htmlFor="taxRate">Tax Rate (%)</Label>
-              <Input
-                id="taxRate"
-                type="number"
-                step="0.01"
-                value={taxRate}
-                onChange={(e) => setTaxRate(e.target.value)}
+            <div className="flex items-center justify-between gap-4 rounded-md border px-3 py-2">
+              <Label htmlFor="pricesIncludeVat">Prices include VAT</Label>
+              <Switch
+                id="pricesIncludeVat"
+                checked={pricesIncludeVat && !reverseCharge}
+                disabled={!vatSettings.registered || reverseCharge}
+                onCheckedChange={setPricesIncludeVat}
               />
             </div>
             <div className="grid gap-2">
@@ -295,11 +331,30 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
                       )}
                     </div>
                   </div>
-                  <Input
-                    placeholder="Description (optional)"
-                    value={item.description}
-                    onChange={(e) => updateItem(item.id, "description", e.target.value)}
-                  />
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Description (optional)"
+                      value={item.description}
+                      onChange={(e) => updateItem(item.id, "description", e.target.value)}
+                      className="flex-1"
+                    />
+                    <Select
+                      value={item.vatRate}
+                      onValueChange={(value) => updateItem(item.id, "vatRate", value)}
+                      disabled={!vatSettings.registered}
+                    >
+                      <SelectTrigger className="w-36" aria-label="VAT rate">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VAT_RATE_CODES.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {vatRateLabels[code]} ({getVatRatePercent(code, vatSettings)}%)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               ))}
             </div>
@@ -307,13 +362,24 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
 
           <div className="border-t pt-4 space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Subtotal:</span>
+              <span>{pricesIncludeVat && !reverseCharge ? "Subtotal (excl. VAT):" : "Subtotal:"}</span>
               <span className="font-medium">GBP {totals.subtotal.toFixed(2)}</span>
             </div>
-            <div className="flex justify-between text-sm">
-              <span>Tax ({taxRate}%):</span>
-              <span className="font-medium">GBP {totals.tax.toFixed(2)}</span>
-            </div>
+            {reverseCharge ? (
+              <div className="flex justify-between text-sm">
+                <span>VAT (reverse charge):</span>
+                <span className="font-medium">GBP 0.00</span>
+              </div>
+            ) : (
+              totals.breakdown
+                .filter((row) => row.taxRate > 0)
+                .map((row) => (
+                  <div key={row.taxRate} className="flex justify-between text-sm">
+                    <span>VAT @ {row.taxRate}%:</span>
+                    <span className="font-medium">GBP {row.tax.toFixed(2)}</span>
+                  </div>
+                ))
+            )}
             {parseFloat(discountAmount) > 0 && (
               <div className="flex justify-between text-sm">
                 <span>Discount:</span>
@@ -324,6 +390,7 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
               <span>Total:</span>
               <span>GBP {totals.total.toFixed(2)}</span>
             </div>
+            {reverseCharge && <p className="text-xs text-muted-foreground">{REVERSE_CHARGE_NOTICE}</p>}
           </div>
 
           <div className="grid gap-2">
@@ -0,0 +1,333 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Download, Undo2 } from "lucide-react"
+import { formatCurrency, getStatusTheme } from "@/lib/utils"
+import { downloadCreditNotePDF } from "@/lib/pdf-generator"
+import { useEffect, useMemo, useState } from "react"
+import { toast } from "sonner"
+
+interface CreditNoteDialogProps {
+  invoiceId: number | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+interface InvoiceLine {
+  id: number
+  title: string
+  quantity: string
+  unitPrice: string
+}
+
+interface CreditNoteSummary {
+  id: number
+  creditNoteNumber: string
+  total: string
+  amountRefunded: string
+  status: string
+  reason: string | null
+  issuedAt: string
+  items: Array<{ invoiceItemId: number | null; quantity: string }>
+}
+
+interface InvoiceDetails {
+  invoice: {
+    id: number
+    invoiceNumber: string
+    status: string
+    currency: string
+    total: string
+    amountPaid: string
+    amountCredited: string
+  }
+  items: InvoiceLine[]
+  creditNotes: CreditNoteSummary[]
+}
+
+export function CreditNoteDialog({ invoiceId, open, onOpenChange, onSuccess }: CreditNoteDialogProps) {
+  const [details, setDetails] = useState<InvoiceDetails | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState("")
+  const [mode, setMode] = useState<"full" | "lines">("full")
+  const [quantities, setQuantities] = useState<Record<number, string>>({})
+  const [reason, setReason] = useState("")
+
+  const loadDetails = async (id: number) => {
+    setLoading(true)
+    setError("")
+    try {
+      const response = await fetch(`/api/invoices/${id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load invoice")
+      }
+      setDetails(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load invoice")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open && invoiceId) {
+      setMode("full")
+      setQuantities({})
+      setReason("")
+      loadDetails(invoiceId)
+    }
+  }, [open, invoiceId])
+
+  const remainingQuantities = useMemo(() => {
+    const remaining: Record<number, number> = {}
+    for (const item of details?.items ?? []) {
+      const credited = (details?.creditNotes ?? [])
+        .flatMap((note) => note.items)
+        .filter((line) => line.invoiceItemId === item.id)
+        .reduce((sum, line) => sum + parseFloat(line.quantity), 0)
+      remaining[item.id] = parseFloat(item.quantity) - credited
+    }
+    return remaining
+  }, [details])
+
+  const currency = details?.invoice.currency || "GBP"
+  const remainingCredit = details
+    ? parseFloat(details.invoice.total) - parseFloat(details.invoice.amountCredited)
+    : 0
+  const canCredit = details && !["draft", "void"].includes(details.invoice.status) && remainingCredit > 0
+
+  const submit = async (action: "credit" | "void") => {
+    if (!invoiceId) return
+    setSubmitting(true)
+    setError("")
+
+    try {
+      const lines = Object.entries(quantities)
+        .map(([invoiceItemId, quantity]) => ({ invoiceItemId: parseInt(invoiceItemId), quantity: parseFloat(quantity) }))
+        .filter((line) => line.quantity > 0)
+
+      const response = await fetch(
+        action === "void" ? `/api/invoices/${invoiceId}/void` : `/api/invoices/${invoiceId}/credit-notes`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(action === "void" ? { reason } : { full: mode === "full", lines, reason }),
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to issue credit note")
+      }
+
+      toast.success(
+        action === "void"
+          ? `Invoice ${details?.invoice.invoiceNumber} voided`
+          : `Credit note ${data.creditNote.creditNoteNumber} issued`
+      )
+      onSuccess?.()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue credit note")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleVoid = () => {
+    if (!window.confirm("Void this invoice? Anything not yet credited will be credited in full. This can't be undone.")) {
+      return
+    }
+    submit("void")
+  }
+
+  const handleRefund = async (note: CreditNoteSummary) => {
+    try {
+      const response = await fetch(`/api/credit-notes/${note.id}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to record refund")
+      }
+      toast.success(`Refund of ${formatCurrency(Math.abs(parseFloat(data.payment.amount)), currency)} recorded`)
+      if (invoiceId) loadDetails(invoiceId)
+      onSuccess?.()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to record refund")
+    }
+  }
+
+  const handleDownload = async (note: CreditNoteSummary) => {
+    try {
+      const response = await fetch(`/api/credit-notes/${note.id}/pdf`)
+      if (!response.ok) {
+        throw new Error("Failed to fetch credit note data")
+      }
+      downloadCreditNotePDF(await response.json())
+    } catch (err) {
+      console.error("Error downloading credit note PDF:", err)
+      toast.error("Failed to download PDF. Please try again.")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] max-w-md sm:max-w-2xl max-h-[85vh] overflow-y-auto overflow-x-hidden p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle>Credit Notes{details ? ` - ${details.invoice.invoiceNumber}` : ""}</DialogTitle>
+          <DialogDescription>
+            Sent invoices aren&apos;t edited. Issue a credit note to correct them, or void the invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {error && (
+            <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading || !details ? (
+            <div className="space-y-2">
+              <div className="h-4 w-1/2 bg-muted rounded" />
+              <div className="h-4 w-2/3 bg-muted rounded" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Total</div>
+                  <div className="font-medium">{formatCurrency(parseFloat(details.invoice.total), currency)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Credited</div>
+                  <div className="font-medium">{formatCurrency(parseFloat(details.invoice.amountCredited), currency)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Paid</div>
+                  <div className="font-medium">{formatCurrency(parseFloat(details.invoice.amountPaid), currency)}</div>
+                </div>
+              </div>
+
+              {canCredit && (
+                <>
+                  <RadioGroup value={mode} onValueChange={(value) => setMode(value as "full" | "lines")} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="full" id="credit-full" />
+                      <Label htmlFor="credit-full">
+                        Credit everything remaining ({formatCurrency(remainingCredit, currency)})
+                      </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="lines" id="credit-lines" />
+                      <Label htmlFor="credit-lines">Credit specific lines</Label>
+                    </div>
+                  </RadioGroup>
+
+                  {mode === "lines" && (
+                    <div className="space-y-2">
+                      {details.items.map((item) => (
+                        <div key={item.id} className="grid grid-cols-12 items-center gap-2 rounded-lg border p-2 text-sm">
+                          <div className="col-span-7">
+                            <div className="font-medium">{item.title}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {remainingQuantities[item.id]} of {parseFloat(item.quantity)} left at{" "}
+                              {formatCurrency(parseFloat(item.unitPrice), currency)}
+                            </div>
+                          </div>
+                          <div className="col-span-5">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={remainingQuantities[item.id]}
+                              step="0.01"
+                              placeholder="Qty to credit"
+                              disabled={remainingQuantities[item.id] <= 0}
+                              value={quantities[item.id] ?? ""}
+                              onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="grid gap-2">
+                    <Label htmlFor="credit-reason">Reason</Label>
+                    <Textarea
+                      id="credit-reason"
+                      rows={2}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Shown on the credit note and in the email to the customer"
+                    />
+                  </div>
+                </>
+              )}
+
+              {details.creditNotes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Issued credit notes</Label>
+                  {details.creditNotes.map((note) => {
+                    const statusTheme = getStatusTheme(note.status)
+                    return (
+                      <div key={note.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+                        <div>
+                          <div className="font-medium">{note.creditNoteNumber}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(parseFloat(note.total), currency)}
+                            {parseFloat(note.amountRefunded) > 0 &&
+                              ` - ${formatCurrency(parseFloat(note.amountRefunded), currency)} refunded`}
+                            {note.reason && ` - ${note.reason}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={statusTheme.badgeClass}>{statusTheme.label}</Badge>
+                          <Button variant="ghost" size="icon" title="Download PDF" onClick={() => handleDownload(note)}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {note.status !== "refunded" && (
+                            <Button variant="ghost" size="icon" title="Record refund" onClick={() => handleRefund(note)}>
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row">
+          {details && details.invoice.status !== "void" && details.invoice.status !== "draft" && (
+            <Button variant="destructive" onClick={handleVoid} disabled={submitting}>
+              Void Invoice
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Close
+          </Button>
+          {canCredit && (
+            <Button onClick={() => submit("credit")} disabled={submitting}>
+              {submitting ? "Issuing..." : "Issue Credit Note"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
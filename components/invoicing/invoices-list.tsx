@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Eye, Download, Send } from "lucide-react"
+import { Eye, Download, Send, FileMinus } from "lucide-react"
 import { formatCurrency, getStatusTheme } from "@/lib/utils"
 import { downloadInvoicePDF } from "@/lib/pdf-generator"
 import type { InvoiceItem } from "@/lib/db/queries"
+import { CreditNoteDialog } from "./credit-note-dialog"
 import { useState } from "react"
 import { toast } from "sonner"
 
@@ -26,6 +27,11 @@ export function InvoicesList({ invoices = [] }: InvoicesListProps) {
   const [downloadingId, setDownloadingId] = useState<number | null>(null)
   const [sendingReminderId, setSendingReminderId] = useState<number | null>(null)
   const [reminderSentId, setReminderSentId] = useState<number | null>(null)
+  const [creditInvoiceId, setCreditInvoiceId] = useState<number | null>(null)
+
+  // Paid, credited and void invoices have nothing left to chase
+  const canSendReminder = (status?: string | null) => !["paid", "credited", "void"].includes(status ?? "")
+  const canCredit = (status?: string | null) => !["draft", "void"].includes(status ?? "draft")
 
   const handleDownloadPDF = async (invoiceId: number) => {
     try {
@@ -118,7 +124,19 @@ export function InvoicesList({ invoices = [] }: InvoicesListProps) {
                       <Download className={`h-4 w-4 mr-1 ${downloadingId === invoice.id ? "animate-pulse" : ""}`} />
                       PDF
                     </Button>
-                    {invoice.status !== "paid" && (
+                    {canCredit(invoice.status) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        title="Credit Notes"
+                        onClick={() => setCreditInvoiceId(invoice.id)}
+                      >
+                        <FileMinus className="h-4 w-4 mr-1" />
+                        Credit
+                      </Button>
+                    )}
+                    {canSendReminder(invoice.status) && (
                       <div className="flex flex-1 flex-col gap-1">
                         <Button
                           variant="outline"
@@ -191,7 +209,17 @@ export function InvoicesList({ invoices = [] }: InvoicesListProps) {
                           >
                             <Download className={`h-4 w-4 ${downloadingId === invoice.id ? 'animate-pulse' : ''}`} />
                           </Button>
-                          {invoice.status !== "paid" && (
+                          {canCredit(invoice.status) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Credit Notes"
+                              onClick={() => setCreditInvoiceId(invoice.id)}
+                            >
+                              <FileMinus className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canSendReminder(invoice.status) && (
                             <Button
                               variant="ghost"
                               size="icon"
@@ -214,6 +242,12 @@ export function InvoicesList({ invoices = [] }: InvoicesListProps) {
           </Table>
         </div>
       </CardContent>
+      <CreditNoteDialog
+        invoiceId={creditInvoiceId}
+        open={creditInvoiceId !== null}
+        onOpenChange={(open) => !open && setCreditInvoiceId(null)}
+        onSuccess={() => window.location.reload()}
+      />
     </Card>
   )
 }
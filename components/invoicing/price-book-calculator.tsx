@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Tags } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  defaultPriceBook,
+  PRICE_BOOK_FREQUENCIES,
+  priceBookFrequencyLabels,
+  priceBookServiceLabels,
+  type CompanyPriceBook,
+} from "@/lib/price-book"
+import type { PriceQuote } from "@/lib/pricing"
+
+export interface PriceBookSelection {
+  serviceType: string
+  bedrooms: string
+  bathrooms: string
+  squareFootage: string
+  addOns: string[]
+  frequency: string
+}
+
+interface PriceBookCalculatorProps {
+  // Prices the visit at the customer's saved address, for their area surcharge
+  customerId?: string
+  onPriced: (quote: PriceQuote, selection: PriceBookSelection) => void
+}
+
+/**
+ * Prices a visit from the company's price book, for filling in quotes and job prices
+ */
+export function PriceBookCalculator({ customerId, onPriced }: PriceBookCalculatorProps) {
+  const [priceBook, setPriceBook] = useState<CompanyPriceBook>(defaultPriceBook)
+  const [selection, setSelection] = useState<PriceBookSelection>({
+    serviceType: "regular",
+    bedrooms: "",
+    bathrooms: "",
+    squareFootage: "",
+    addOns: [],
+    frequency: "one_time",
+  })
+  const [pricing, setPricing] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadPriceBook = async () => {
+      try {
+        const res = await fetch("/api/company/price-book")
+        if (!res.ok) return
+        const data = await res.json()
+        if (data.settings) setPriceBook(data.settings)
+      } catch (err) {
+        console.error("Failed to load price book:", err)
+      }
+    }
+    loadPriceBook()
+  }, [])
+
+  const update = (changes: Partial<PriceBookSelection>) => {
+    setSelection((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleCalculate = async () => {
+    setPricing(true)
+    setError("")
+    try {
+      const res = await fetch("/api/pricing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...selection, customerId: customerId || undefined }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to price visit")
+      onPriced(data.quote, selection)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to price visit")
+    } finally {
+      setPricing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Service</Label>
+          <Select value={selection.serviceType} onValueChange={(value) => update({ serviceType: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(priceBookServiceLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Frequency</Label>
+          <Select value={selection.frequency} onValueChange={(value) => update({ frequency: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRICE_BOOK_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {priceBookFrequencyLabels[frequency]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Bedrooms</Label>
+          <Input type="number" min={0} value={selection.bedrooms} onChange={(e) => update({ bedrooms: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Bathrooms</Label>
+          <Input
+            type="number"
+            min={0}
+            value={selection.bathrooms}
+            onChange={(e) => update({ bathrooms: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Size (sq ft)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={selection.squareFootage}
+            onChange={(e) => update({ squareFootage: e.target.value })}
+          />
+        </div>
+      </div>
+      {priceBook.addOns.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {priceBook.addOns.map((addOn) => (
+            <div key={addOn.key} className="flex items-center space-x-2">
+              <Checkbox
+                id={`price-book-add-on-${addOn.key}`}
+                checked={selection.addOns.includes(addOn.key)}
+                onCheckedChange={(checked) =>
+                  update({
+                    addOns:
+                      checked === true
+                        ? [...selection.addOns, addOn.key]
+                        : selection.addOns.filter((key) => key !== addOn.key),
+                  })
+                }
+              />
+              <Label htmlFor={`price-book-add-on-${addOn.key}`} className="text-xs font-normal">
+                {addOn.label} (£{addOn.price.toFixed(2)})
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        {error ? <p className="text-xs text-destructive">{error}</p> : <span />}
+        <Button type="button" variant="outline" size="sm" onClick={handleCalculate} disabled={pricing}>
+          {pricing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Tags className="h-4 w-4 mr-2" />}
+          Price from price book
+        </Button>
+      </div>
+    </div>
+  )
+}
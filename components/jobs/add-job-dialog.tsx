@@ -21,6 +21,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Loader2, Plus, Trash2, AlertTriangle } from "lucide-react"
+import { PriceBookCalculator, type PriceBookSelection } from "@/components/invoicing/price-book-calculator"
 
 interface Customer {
   id: number
@@ -129,6 +130,10 @@ export function AddJobDialog({ open, onOpenChange, onSuccess }: AddJobDialogProp
   const [assignedEmployees, setAssignedEmployees] = useState<number[]>([])
   const [assignmentPays, setAssignmentPays] = useState<Record<number, string>>({})
   const [assignmentPayOverrides, setAssignmentPayOverrides] = useState<Record<number, boolean>>({})
+  // Price-book visit behind the estimated price; dropped once the price is edited by hand
+  const [priceBookPricing, setPriceBookPricing] = useState<{ selection: PriceBookSelection; price: string } | null>(
+    null
+  )
 
   const [formData, setFormData] = useState({
     title: "",
@@ -431,6 +436,10 @@ export function AddJobDialog({ open, onOpenChange, onSuccess }: AddJobDialogProp
           planId: formData.planId ? parseInt(formData.planId) : null,
           durationMinutes: parseInt(formData.durationMinutes),
           estimatedPrice: formData.estimatedPrice ? parseFloat(formData.estimatedPrice) : null,
+          pricing:
+            priceBookPricing && priceBookPricing.price === formData.estimatedPrice
+              ? priceBookPricing.selection
+              : undefined,
           tasks: customizeTasks
             ? customTasks.map((task, index) => ({
                 title: task.title.trim(),
@@ -473,6 +482,7 @@ export function AddJobDialog({ open, onOpenChange, onSuccess }: AddJobDialogProp
       setAssignedEmployees([])
       setAssignmentPays({})
       setAssignmentPayOverrides({})
+      setPriceBookPricing(null)
       setSelectedAddressKey("")
       setCustomizeTasks(false)
       setCustomTasks([])
@@ -891,6 +901,14 @@ export function AddJobDialog({ open, onOpenChange, onSuccess }: AddJobDialogProp
               </TabsContent>
 
               <TabsContent value="details" className="space-y-4 mt-4">
+                <PriceBookCalculator
+                  onPriced={(quote, selection) => {
+                    // The job's own address decides the area surcharge, so price without it here
+                    const price = quote.subtotal.toFixed(2)
+                    handleChange("estimatedPrice", price)
+                    setPriceBookPricing({ selection, price })
+                  }}
+                />
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                   <div className="grid gap-2">
                     <Label htmlFor="estimatedPrice">Estimated Price (£)</Label>
@@ -903,6 +921,11 @@ export function AddJobDialog({ open, onOpenChange, onSuccess }: AddJobDialogProp
                       onChange={(e) => handleChange("estimatedPrice", e.target.value)}
                       placeholder="0.00"
                     />
+                    {priceBookPricing && priceBookPricing.price === formData.estimatedPrice && (
+                      <p className="text-xs text-muted-foreground">
+                        From the price book. Any area surcharge for the job&apos;s address is added when it&apos;s saved.
+                      </p>
+                    )}
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="currency">Currency</Label>
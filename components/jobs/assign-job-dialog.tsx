@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import {
   Dialog,
   DialogContent,
@@ -15,7 +15,11 @@ import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2, User, Bell } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, User, Bell, Sparkles } from "lucide-react"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { AssignmentCandidate } from "@/lib/auto-assign"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 
 interface Employee {
   id: number
@@ -50,17 +54,11 @@ export function AssignJobDialog({
   const [loading, setLoading] = useState(false)
   const [loadingEmployees, setLoadingEmployees] = useState(true)
   const [error, setError] = useState("")
+  const [candidates, setCandidates] = useState<AssignmentCandidate[]>([])
+  const [loadingCandidates, setLoadingCandidates] = useState(false)
+  const [pendingConflicts, setPendingConflicts] = useState<SchedulingConflict[] | null>(null)
 
-  // Fetch employees
-  useEffect(() => {
-    if (open) {
-      fetchEmployees()
-      setSelectedEmployee(currentAssignee?.toString() || "")
-      setNotes("")
-    }
-  }, [open, currentAssignee])
-
-  const fetchEmployees = async () => {
+  const fetchEmployees = useCallback(async () => {
     setLoadingEmployees(true)
     try {
       const response = await fetch("/api/employees")
@@ -72,9 +70,35 @@ export function AssignJobDialog({
     } finally {
       setLoadingEmployees(false)
     }
-  }
+  }, [])
+
+  const fetchCandidates = useCallback(async () => {
+    if (!jobId) return
+    setLoadingCandidates(true)
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/candidates`)
+      const data = await response.json()
+      // Unscheduled jobs can't be ranked; the plain list still works
+      setCandidates(response.ok ? data.candidates : [])
+    } catch (err) {
+      console.error("Failed to fetch suggestions:", err)
+      setCandidates([])
+    } finally {
+      setLoadingCandidates(false)
+    }
+  }, [jobId])
+
+  // Fetch employees
+  useEffect(() => {
+    if (open) {
+      fetchEmployees()
+      fetchCandidates()
+      setSelectedEmployee(currentAssignee?.toString() || "")
+      setNotes("")
+    }
+  }, [open, currentAssignee, fetchEmployees, fetchCandidates])
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (overrideReason?: string) => {
     if (!jobId || !selectedEmployee) {
       setError("Please select an employee")
       return
@@ -92,14 +116,20 @@ export function AssignJobDialog({
           teamMembers: teamMembers || null,
           sendNotification,
           notes: notes || null,
+          overrideReason,
         }),
       })
 
       if (!response.ok) {
         const data = await response.json()
+        if (response.status === 409 && Array.isArray(data.conflicts)) {
+          setPendingConflicts(data.conflicts)
+          return
+        }
         throw new Error(data.error || "Failed to assign job")
       }
 
+      setPendingConflicts(null)
       onSuccess()
       onOpenChange(false)
     } catch (err) {
@@ -110,139 +140,184 @@ export function AssignJobDialog({
   }
 
   const selectedEmployeeData = employees.find((e) => e.id.toString() === selectedEmployee)
+  const suggestions = candidates.filter((candidate) => candidate.eligible).slice(0, 3)
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <User className="h-5 w-5" />
-            Assign Job
-          </DialogTitle>
-          <DialogDescription>
-            Assign "{jobTitle}" to a team member
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-4 py-4">
-          {/* Employee Selection */}
-          <div className="space-y-2">
-            <Label>Assign to</Label>
-            {loadingEmployees ? (
-              <div className="flex items-center gap-2 p-3 border rounded-md text-gray-500">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Loading employees...
-              </div>
-            ) : (
-              <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select employee" />
-                </SelectTrigger>
-                <SelectContent>
-                  {employees.map((employee) => (
-                    <SelectItem key={employee.id} value={employee.id.toString()}>
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium">
-                          {employee.firstName.charAt(0)}
-                          {employee.lastName.charAt(0)}
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <User className="h-5 w-5" />
+              Assign Job
+            </DialogTitle>
+            <DialogDescription>
+              Assign "{jobTitle}" to a team member
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Suggested employees */}
+            {(loadingCandidates || suggestions.length > 0) && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-blue-600" />
+                  Suggested
+                </Label>
+                {loadingCandidates ? (
+                  <div className="flex items-center gap-2 p-3 border rounded-md text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Finding the best fit...
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {suggestions.map((candidate) => (
+                      <button
+                        key={candidate.employeeId}
+                        type="button"
+                        onClick={() => setSelectedEmployee(candidate.employeeId.toString())}
+                        className={`w-full text-left border rounded-lg p-3 transition-colors hover:bg-gray-50 ${
+                          selectedEmployee === candidate.employeeId.toString() ? "border-blue-500 bg-blue-50" : ""
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{candidate.employeeName}</span>
+                          <Badge variant="secondary">{candidate.score}/100</Badge>
                         </div>
-                        <span>
-                          {employee.firstName} {employee.lastName}
-                        </span>
-                        {employee.role && (
-                          <span className="text-gray-500 text-xs">({employee.role})</span>
-                        )}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                        <p className="text-xs text-gray-500 mt-1">{candidate.reasons.join(" · ")}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             )}
-          </div>
 
-          {/* Selected Employee Info */}
-          {selectedEmployeeData && (
-            <div className="bg-gray-50 rounded-lg p-3">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-medium">
-                  {selectedEmployeeData.firstName.charAt(0)}
-                  {selectedEmployeeData.lastName.charAt(0)}
+            {/* Employee Selection */}
+            <div className="space-y-2">
+              <Label>Assign to</Label>
+              {loadingEmployees ? (
+                <div className="flex items-center gap-2 p-3 border rounded-md text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading employees...
                 </div>
+              ) : (
+                <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id.toString()}>
+                        <div className="flex items-center gap-2">
+                          <div className="w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium">
+                            {employee.firstName.charAt(0)}
+                            {employee.lastName.charAt(0)}
+                          </div>
+                          <span>
+                            {employee.firstName} {employee.lastName}
+                          </span>
+                          {employee.role && (
+                            <span className="text-gray-500 text-xs">({employee.role})</span>
+                          )}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {/* Selected Employee Info */}
+            {selectedEmployeeData && (
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-medium">
+                    {selectedEmployeeData.firstName.charAt(0)}
+                    {selectedEmployeeData.lastName.charAt(0)}
+                  </div>
+                  <div>
+                    <p className="font-medium">
+                      {selectedEmployeeData.firstName} {selectedEmployeeData.lastName}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {selectedEmployeeData.email || "No email"}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Team Members (optional) */}
+            <div className="space-y-2">
+              <Label>Additional Team Members (optional)</Label>
+              <Textarea
+                value={teamMembers}
+                onChange={(e) => setTeamMembers(e.target.value)}
+                placeholder="Enter names of additional team members, separated by commas"
+                rows={2}
+              />
+            </div>
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label>Assignment Notes (optional)</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Any special instructions for this assignment..."
+                rows={3}
+              />
+            </div>
+
+            {/* Send Notification */}
+            <div className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="flex items-center gap-2">
+                <Bell className="h-4 w-4 text-gray-500" />
                 <div>
-                  <p className="font-medium">
-                    {selectedEmployeeData.firstName} {selectedEmployeeData.lastName}
-                  </p>
+                  <Label>Send notification email</Label>
                   <p className="text-sm text-gray-500">
-                    {selectedEmployeeData.email || "No email"}
+                    Notify the employee about this assignment
                   </p>
                 </div>
               </div>
+              <Switch
+                checked={sendNotification}
+                onCheckedChange={setSendNotification}
+              />
             </div>
-          )}
-
-          {/* Team Members (optional) */}
-          <div className="space-y-2">
-            <Label>Additional Team Members (optional)</Label>
-            <Textarea
-              value={teamMembers}
-              onChange={(e) => setTeamMembers(e.target.value)}
-              placeholder="Enter names of additional team members, separated by commas"
-              rows={2}
-            />
-          </div>
 
-          {/* Notes */}
-          <div className="space-y-2">
-            <Label>Assignment Notes (optional)</Label>
-            <Textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Any special instructions for this assignment..."
-              rows={3}
-            />
+            {/* Error */}
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
           </div>
 
-          {/* Send Notification */}
-          <div className="flex items-center justify-between p-3 border rounded-lg">
-            <div className="flex items-center gap-2">
-              <Bell className="h-4 w-4 text-gray-500" />
-              <div>
-                <Label>Send notification email</Label>
-                <p className="text-sm text-gray-500">
-                  Notify the employee about this assignment
-                </p>
-              </div>
-            </div>
-            <Switch
-              checked={sendNotification}
-              onCheckedChange={setSendNotification}
-            />
-          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button onClick={() => handleSubmit()} disabled={loading || !selectedEmployee}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Assigning...
+                </>
+              ) : (
+                "Assign Job"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
-          {/* Error */}
-          {error && (
-            <Alert variant="destructive">
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-        </div>
-
-        <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
-            Cancel
-          </Button>
-          <Button onClick={handleSubmit} disabled={loading || !selectedEmployee}>
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Assigning...
-              </>
-            ) : (
-              "Assign Job"
-            )}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+      <ConflictOverrideDialog
+        conflicts={pendingConflicts}
+        onOpenChange={(isOpen) => !isOpen && setPendingConflicts(null)}
+        onConfirm={(reason) => handleSubmit(reason)}
+        submitting={loading}
+      />
+    </>
   )
 }
@@ -20,8 +20,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
 import { Loader2 } from "lucide-react"
 import { toast } from "sonner"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 
 interface Job {
   id: number
@@ -99,6 +101,7 @@ export function EditJobDialog({ open, onOpenChange, job, onSuccess }: EditJobDia
   const [plans, setPlans] = useState<CleaningPlan[]>([])
   const [loadingData, setLoadingData] = useState(true)
   const [assigneeConfirmOpen, setAssigneeConfirmOpen] = useState(false)
+  const [pendingConflicts, setPendingConflicts] = useState<SchedulingConflict[] | null>(null)
   const [assignedEmployees, setAssignedEmployees] = useState<number[]>([])
   const [assignmentPays, setAssignmentPays] = useState<Record<number, string>>({})
   const [assignmentPayOverrides, setAssignmentPayOverrides] = useState<Record<number, boolean>>({})
@@ -405,7 +408,7 @@ export function EditJobDialog({ open, onOpenChange, job, onSuccess }: EditJobDia
     fetchAvailability()
   }, [open, employees, formData.scheduledFor, formData.scheduledEnd, formData.durationMinutes, job])
 
-  const submitUpdate = async () => {
+  const submitUpdate = async (overrideReason?: string) => {
     if (!job) return
 
     setError("")
@@ -439,15 +442,23 @@ export function EditJobDialog({ open, onOpenChange, job, onSuccess }: EditJobDia
           estimatedPrice: formData.estimatedPrice ? parseFloat(formData.estimatedPrice) : null,
           actualPrice: formData.actualPrice ? parseFloat(formData.actualPrice) : null,
           qualityRating: formData.qualityRating ? parseFloat(formData.qualityRating) : null,
+          overrideReason,
         }),
       })
 
       const data = await response.json()
 
+      if (response.status === 409 && Array.isArray(data.conflicts)) {
+        setAssigneeConfirmOpen(false)
+        setPendingConflicts(data.conflicts)
+        return
+      }
+
       if (!response.ok) {
         throw new Error(data.error || "Failed to update job")
       }
 
+      setPendingConflicts(null)
       onSuccess?.()
       onOpenChange(false)
     } catch (err) {
@@ -936,7 +947,7 @@ export function EditJobDialog({ open, onOpenChange, job, onSuccess }: EditJobDia
           <AlertDialogFooter>
             <AlertDialogCancel disabled={loading}>Keep Current Cleaner</AlertDialogCancel>
             <AlertDialogAction
-              onClick={submitUpdate}
+              onClick={() => submitUpdate()}
               disabled={loading}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
@@ -946,6 +957,12 @@ export function EditJobDialog({ open, onOpenChange, job, onSuccess }: EditJobDia
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <ConflictOverrideDialog
+        conflicts={pendingConflicts}
+        onOpenChange={(isOpen) => !isOpen && setPendingConflicts(null)}
+        onConfirm={(reason) => submitUpdate(reason)}
+        submitting={loading}
+      />
     </Dialog>
   )
 }
@@ -0,0 +1,219 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Loader2, Sparkles } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useJobs } from "@/lib/jobs-context"
+import type { AutoAssignPlan } from "@/lib/auto-assign"
+
+interface AutoAssignDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function AutoAssignDialog({ open, onOpenChange }: AutoAssignDialogProps) {
+  const { refreshJobs } = useJobs()
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [plan, setPlan] = useState<AutoAssignPlan | null>(null)
+  const [excluded, setExcluded] = useState<Set<number>>(new Set())
+  const [sendNotification, setSendNotification] = useState(true)
+  const [previewing, setPreviewing] = useState(false)
+  const [applying, setApplying] = useState(false)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setPlan(null)
+      setExcluded(new Set())
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    try {
+      const response = await fetch(`/api/scheduling/auto-assign?date=${date}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to preview assignments")
+      setPlan(data)
+      setExcluded(new Set())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview assignments")
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const toggleJob = (jobId: number, include: boolean) => {
+    setExcluded((current) => {
+      const next = new Set(current)
+      if (include) next.delete(jobId)
+      else next.add(jobId)
+      return next
+    })
+  }
+
+  const selected = plan?.assignments.filter((assignment) => !excluded.has(assignment.jobId)) ?? []
+
+  const handleApply = async () => {
+    if (selected.length === 0) return
+    setApplying(true)
+    try {
+      const response = await fetch("/api/scheduling/auto-assign", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assignments: selected.map(({ jobId, employeeId }) => ({ jobId, employeeId })),
+          sendNotification,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to assign jobs")
+
+      if (data.skipped.length > 0) {
+        toast.warning(
+          `Assigned ${data.assigned.length} job${data.assigned.length === 1 ? "" : "s"}, skipped ${data.skipped.length} that changed since the preview`,
+        )
+      } else {
+        toast.success(`Assigned ${data.assigned.length} job${data.assigned.length === 1 ? "" : "s"}`)
+      }
+      await refreshJobs()
+      handleOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to assign jobs")
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-blue-600" />
+            Auto-assign jobs
+          </DialogTitle>
+          <DialogDescription>
+            Match every unassigned job on a day with the best available cleaner. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="auto-assign-date">Day</Label>
+              <Input
+                id="auto-assign-date"
+                type="date"
+                value={date}
+                onChange={(e) => {
+                  setDate(e.target.value)
+                  setPlan(null)
+                }}
+              />
+            </div>
+            <Button variant="outline" onClick={handlePreview} disabled={previewing || !date}>
+              {previewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+          </div>
+
+          {plan && (
+            <>
+              {plan.assignments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No unassigned jobs can be matched on this day.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Job</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Cleaner</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Why</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.assignments.map((assignment) => (
+                        <TableRow key={assignment.jobId}>
+                          <TableCell>
+                            <Checkbox
+                              checked={!excluded.has(assignment.jobId)}
+                              onCheckedChange={(checked) => toggleJob(assignment.jobId, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{assignment.jobTitle}</TableCell>
+                          <TableCell>
+                            {format(new Date(assignment.start), "HH:mm")}–{format(new Date(assignment.end), "HH:mm")}
+                          </TableCell>
+                          <TableCell>{assignment.employeeName}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{assignment.score}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {assignment.reasons.join(" · ")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {plan.unassigned.length > 0 && (
+                <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm">
+                  <p className="font-medium text-orange-800">
+                    {plan.unassigned.length} job{plan.unassigned.length === 1 ? "" : "s"} could not be matched
+                  </p>
+                  <ul className="mt-1 space-y-1 text-orange-700">
+                    {plan.unassigned.map((job) => (
+                      <li key={job.jobId}>
+                        {job.jobTitle} ({format(new Date(job.start), "HH:mm")}): {job.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label>Send notification emails</Label>
+                  <p className="text-sm text-muted-foreground">Tell each cleaner about their new jobs</p>
+                </div>
+                <Switch checked={sendNotification} onCheckedChange={setSendNotification} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={applying || selected.length === 0}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Assign {selected.length} job{selected.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
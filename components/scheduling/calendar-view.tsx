@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { ChevronLeft, ChevronRight, Loader2, Pencil, Clock, GripVertical, UserMinus, Flag } from "lucide-react"
+import { ChevronLeft, ChevronRight, Loader2, Pencil, Clock, GripVertical, UserMinus, Flag, AlertTriangle } from "lucide-react"
 import { useState, useEffect, useMemo } from "react"
 import { useRouter } from "next/navigation"
 import { cn } from "@/lib/utils"
@@ -12,6 +12,8 @@ import { EditJobDialog } from "@/components/jobs/edit-job-dialog"
 import { JobCornerActions } from "@/components/jobs/job-corner-actions"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
 import { toast } from "sonner"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 import {
   addDays,
   addHours,
@@ -44,9 +46,37 @@ interface CalendarEvent {
   extendedProps: {
     customer?: { name: string } | null
     assignee?: { name: string } | null
+    conflicts?: SchedulingConflict[]
   }
 }
 
+const getOpenConflicts = (event: CalendarEvent) =>
+  (event.extendedProps.conflicts ?? []).filter((conflict) => !conflict.overridden)
+
+function ConflictBadge({ event }: { event: CalendarEvent }) {
+  const conflicts = getOpenConflicts(event)
+  if (conflicts.length === 0) return null
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-red-50 px-1.5 py-0.5 text-[10px] text-red-700">
+          <AlertTriangle className="h-3 w-3" />
+          {conflicts.length}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-[280px] text-xs">
+        <div className="font-medium">Scheduling conflict</div>
+        {conflicts.map((conflict, index) => (
+          <div key={index} className="mt-1 text-muted-foreground">
+            {conflict.message}
+          </div>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
+
 export function CalendarView() {
   const router = useRouter()
   const [currentDate, setCurrentDate] = useState(new Date())
@@ -58,6 +88,10 @@ export function CalendarView() {
   const [timeOffByDate, setTimeOffByDate] = useState<Record<string, { employees: { id: number; name: string; type: string }[] }>>({})
   const [publicHolidaysByDate, setPublicHolidaysByDate] = useState<Record<string, { title: string }[]>>({})
   const [loading, setLoading] = useState(true)
+  const [rescheduleConflicts, setRescheduleConflicts] = useState<{
+    conflicts: SchedulingConflict[]
+    retry: (reason: string) => Promise<void>
+  } | null>(null)
   const [selectedDay, setSelectedDay] = useState<Date | null>(null)
   const [dayDialogOpen, setDayDialogOpen] = useState(false)
   const [editDialogOpen, setEditDialogOpen] = useState(false)
@@ -260,6 +294,52 @@ export function CalendarView() {
     setDropTargetSlot(null)
   }
 
+  const submitReschedule = async (jobId: number, newStart: Date, newEnd: Date, overrideReason?: string) => {
+    const response = await fetch(`/api/jobs/${jobId}/reschedule`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        newDate: newStart.toISOString(),
+        newEndDate: newEnd.toISOString(),
+        reason: "Drag and drop reschedule from calendar",
+        overrideReason,
+      }),
+    })
+
+    if (response.ok) {
+      toast.success(`Job rescheduled to ${format(newStart, "HH:mm")}`)
+      setRescheduleConflicts(null)
+      // Refresh to get authoritative data from server (silent to avoid UI flash)
+      await fetchCalendarData(true)
+      window.dispatchEvent(new CustomEvent("jobs:updated"))
+    } else {
+      const data = await response.json()
+      if (response.status === 409 && Array.isArray(data.conflicts)) {
+        setRescheduleConflicts({
+          conflicts: data.conflicts,
+          retry: (reason) => submitReschedule(jobId, newStart, newEnd, reason),
+        })
+      } else {
+        toast.error(data.error || "Failed to reschedule job")
+      }
+      // Revert optimistic update on error
+      await fetchCalendarData(true)
+    }
+  }
+
+  const handleConflictOverride = async (reason: string) => {
+    if (!rescheduleConflicts) return
+    setRescheduling(true)
+    try {
+      await rescheduleConflicts.retry(reason)
+    } catch (error) {
+      console.error("Failed to reschedule job:", error)
+      toast.error("Failed to reschedule job")
+    } finally {
+      setRescheduling(false)
+    }
+  }
+
   const handleDrop = async (e: React.DragEvent, hour: number, minute: number) => {
     e.preventDefault()
     setDropTargetSlot(null)
@@ -290,27 +370,7 @@ export function CalendarView() {
           : ev
       ))
       
-      const response = await fetch(`/api/jobs/${jobId}/reschedule`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          newDate: newStart.toISOString(),
-          newEndDate: newEnd.toISOString(),
-          reason: "Drag and drop reschedule from calendar",
-        }),
-      })
-      
-      if (response.ok) {
-        toast.success(`Job rescheduled to ${format(newStart, "HH:mm")}`)
-        // Refresh to get authoritative data from server (silent to avoid UI flash)
-        await fetchCalendarData(true)
-        window.dispatchEvent(new CustomEvent("jobs:updated"))
-      } else {
-        const data = await response.json()
-        toast.error(data.error || "Failed to reschedule job")
-        // Revert optimistic update on error
-        await fetchCalendarData(true)
-      }
+      await submitReschedule(jobId, newStart, newEnd)
     } catch (error) {
       console.error("Failed to reschedule job:", error)
       toast.error("Failed to reschedule job")
@@ -575,7 +635,8 @@ export function CalendarView() {
                             <span className="truncate">
                               {format(new Date(event.start), "HH:mm")} {event.title}
                             </span>
-                            <span className="shrink-0 text-[11px] text-muted-foreground">
+                            <span className="flex shrink-0 items-center gap-1 text-[11px] text-muted-foreground">
+                              <ConflictBadge event={event} />
                               {event.extendedProps.assignee?.name ?? "Unassigned"}
                             </span>
                           </div>
@@ -653,14 +714,17 @@ export function CalendarView() {
                       {dayEvents.slice(0, 2).map((event) => (
                         <div
                           key={event.id}
-                          className="text-xs p-1 rounded truncate border"
+                          className="flex items-center gap-1 text-xs p-1 rounded border"
                           style={{ 
                             backgroundColor: `${event.color}20`, 
                             borderColor: `${event.color}40`,
                             color: event.color 
                           }}
                         >
-                          {format(new Date(event.start), "HH:mm")} {event.title}
+                          <span className="truncate">
+                            {format(new Date(event.start), "HH:mm")} {event.title}
+                          </span>
+                          <ConflictBadge event={event} />
                         </div>
                       ))}
                       {dayEvents.length > 2 && (
@@ -869,7 +933,8 @@ export function CalendarView() {
                               <div className="min-w-0 flex-1 overflow-hidden pr-16">
                                 <div className="font-medium text-sm truncate flex items-center gap-1">
                                   {!isCompleted && <GripVertical className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
-                                  {event.title}
+                                  <span className="truncate">{event.title}</span>
+                                  <ConflictBadge event={event} />
                                 </div>
                                 <div className="text-xs text-muted-foreground truncate leading-tight">
                                   {format(eventStart, "HH:mm")} - {format(eventEnd, "HH:mm")} â€¢ {cleanerName}
@@ -953,7 +1018,10 @@ export function CalendarView() {
                   }`}
                 >
                   <div className="flex items-center justify-between gap-2">
-                    <div className="font-medium">{event.title}</div>
+                    <div className="flex items-center gap-2 font-medium">
+                      {event.title}
+                      <ConflictBadge event={event} />
+                    </div>
                     <div className="flex items-center gap-2">
                       <div className="text-sm text-muted-foreground">
                         {format(new Date(event.start), "HH:mm")} - {format(new Date(event.end), "HH:mm")}
@@ -991,6 +1059,16 @@ export function CalendarView() {
                     </div>
                     <div className="capitalize">Status: {event.status}</div>
                   </div>
+                  {getOpenConflicts(event).length > 0 && (
+                    <ul className="space-y-1 text-xs text-red-700">
+                      {getOpenConflicts(event).map((conflict, index) => (
+                        <li key={index} className="flex items-start gap-1">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                          {conflict.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ))}
             </div>
@@ -998,6 +1076,13 @@ export function CalendarView() {
         </DialogContent>
       </Dialog>
 
+    <ConflictOverrideDialog
+      conflicts={rescheduleConflicts?.conflicts ?? null}
+      onOpenChange={(open) => !open && setRescheduleConflicts(null)}
+      onConfirm={handleConflictOverride}
+      submitting={rescheduling}
+    />
+
     <EditJobDialog
       open={editDialogOpen}
       onOpenChange={setEditDialogOpen}
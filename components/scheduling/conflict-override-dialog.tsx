@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, CalendarX, Clock, Car, UserX } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { SchedulingConflict, SchedulingConflictType } from "@/lib/scheduling-conflicts"
+
+export const conflictTypeLabels: Record<SchedulingConflictType, string> = {
+  double_booking: "Double booked",
+  time_off: "On leave",
+  outside_availability: "Outside availability",
+  travel_time: "Not enough travel time",
+}
+
+const conflictTypeIcons: Record<SchedulingConflictType, typeof AlertTriangle> = {
+  double_booking: Clock,
+  time_off: CalendarX,
+  outside_availability: UserX,
+  travel_time: Car,
+}
+
+export function ConflictList({ conflicts }: { conflicts: SchedulingConflict[] }) {
+  return (
+    <ul className="space-y-2">
+      {conflicts.map((conflict, index) => {
+        const Icon = conflictTypeIcons[conflict.type] ?? AlertTriangle
+        return (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <Icon className="h-4 w-4 mt-0.5 shrink-0 text-orange-600" />
+            <div>
+              <p className="font-medium">{conflictTypeLabels[conflict.type] ?? conflict.type}</p>
+              <p className="text-muted-foreground">{conflict.message}</p>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+interface ConflictOverrideDialogProps {
+  conflicts: SchedulingConflict[] | null
+  onOpenChange: (open: boolean) => void
+  // Called with the manager's reason; resubmit the request with it as overrideReason
+  onConfirm: (reason: string) => void | Promise<void>
+  submitting?: boolean
+}
+
+export function ConflictOverrideDialog({ conflicts, onOpenChange, onConfirm, submitting }: ConflictOverrideDialogProps) {
+  // The reason is kept per set of conflicts, so each new clash starts with an empty box
+  const [draft, setDraft] = useState<{ conflicts: SchedulingConflict[] | null; reason: string }>({
+    conflicts: null,
+    reason: "",
+  })
+  const reason = draft.conflicts === conflicts ? draft.reason : ""
+  const setReason = (value: string) => setDraft({ conflicts, reason: value })
+
+  return (
+    <Dialog open={!!conflicts} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-600" />
+            Scheduling conflict
+          </DialogTitle>
+          <DialogDescription>
+            This clashes with the schedule below. Managers can go ahead anyway by giving a reason, which is
+            kept with the booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-64 overflow-y-auto rounded-md border p-3">
+            <ConflictList conflicts={conflicts ?? []} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="conflict-override-reason">Reason for overriding</Label>
+            <Textarea
+              id="conflict-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Customer agreed a later start so there is time to travel"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(reason.trim())} disabled={submitting || !reason.trim()}>
+            {submitting ? "Saving..." : "Override and save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,6 +20,8 @@ import { Textarea } from "@/components/ui/textarea"
 import { Loader2, Plus, Trash2, AlertTriangle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { Checkbox } from "@/components/ui/checkbox"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 
 interface Customer {
   id: number
@@ -162,6 +164,10 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
   const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false)
   const [duplicateJobs, setDuplicateJobs] = useState<DuplicateJobInfo[]>([])
   const [pastDateConfirmOpen, setPastDateConfirmOpen] = useState(false)
+  const [conflictRetry, setConflictRetry] = useState<{
+    conflicts: SchedulingConflict[]
+    retry: (reason: string) => Promise<void>
+  } | null>(null)
   const { toast } = useToast()
 
   // Form state
@@ -495,6 +501,7 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
     locationLabel: string,
     allowPast = false,
     backCreateComplete = false,
+    overrideReason?: string,
   ) => {
     const selectedPlan = plans.find(p => p.id.toString() === planId)
     const jobTitle = selectedPlan?.name || "Cleaning Job"
@@ -526,6 +533,7 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
         notes: notes || undefined,
         allowPast,
         backCreateComplete,
+        overrideReason,
         recurring: recurring !== "once" ? recurring : undefined,
         tasks: customizeTasks
           ? customTasks.map((task, index) => ({
@@ -539,6 +547,7 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
 
     if (response.ok) {
       toast({ title: "Success", description: "Job created successfully" })
+      setConflictRetry(null)
       resetForm()
       onOpenChange(false)
       if (onSuccess) {
@@ -547,10 +556,29 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
       window.dispatchEvent(new CustomEvent("jobs:updated"))
     } else {
       const error = await response.json()
+      if (response.status === 409 && Array.isArray(error.conflicts)) {
+        setConflictRetry({
+          conflicts: error.conflicts,
+          retry: (reason) => createJob(scheduledDate, address, locationLabel, allowPast, backCreateComplete, reason),
+        })
+        return
+      }
       toast({ title: "Error", description: error.error || "Failed to create job", variant: "destructive" })
     }
   }
 
+  const handleConflictOverride = async (reason: string) => {
+    if (!conflictRetry) return
+    setSubmitting(true)
+    try {
+      await conflictRetry.retry(reason)
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to create job", variant: "destructive" })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
   const handleSubmit = async (
     skipDuplicateCheck = false,
     skipPastDateCheck = false,
@@ -1075,6 +1103,13 @@ export function CreateJobDialog({ open, onOpenChange, onSuccess }: CreateJobDial
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
+
+    <ConflictOverrideDialog
+      conflicts={conflictRetry?.conflicts ?? null}
+      onOpenChange={(isOpen) => !isOpen && setConflictRetry(null)}
+      onConfirm={handleConflictOverride}
+      submitting={submitting}
+    />
     </>
   )
 }
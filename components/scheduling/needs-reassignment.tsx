@@ -34,6 +34,8 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
+import { ConflictOverrideDialog } from "@/components/scheduling/conflict-override-dialog"
+import type { SchedulingConflict } from "@/lib/scheduling-conflicts"
 
 interface Job {
   id: number
@@ -100,6 +102,7 @@ export function NeedsReassignment() {
   const [assigning, setAssigning] = useState(false)
   const [availability, setAvailability] = useState<Record<number, "available" | "busy">>({})
   const [availabilityLoading, setAvailabilityLoading] = useState(false)
+  const [conflicts, setConflicts] = useState<SchedulingConflict[] | null>(null)
 
   const fetchUnassignedJobs = useCallback(async () => {
     try {
@@ -232,7 +235,7 @@ export function NeedsReassignment() {
     setAssignDialogOpen(true)
   }
 
-  const handleAssign = async () => {
+  const handleAssign = async (overrideReason?: string) => {
     if (!selectedJob || !selectedEmployee) return
 
     setAssigning(true)
@@ -242,16 +245,22 @@ export function NeedsReassignment() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
           employeeId: parseInt(selectedEmployee),
-          sendNotification: true
+          sendNotification: true,
+          overrideReason,
         }),
       })
 
       if (!response.ok) {
         const data = await response.json()
+        if (response.status === 409 && Array.isArray(data.conflicts)) {
+          setConflicts(data.conflicts)
+          return
+        }
         throw new Error(data.error || "Failed to assign")
       }
 
       toast.success("Job assigned successfully! The cleaner has been notified.")
+      setConflicts(null)
       setAssignDialogOpen(false)
       fetchUnassignedJobs()
       window.dispatchEvent(new CustomEvent("jobs:updated"))
@@ -500,7 +509,7 @@ export function NeedsReassignment() {
               Cancel
             </Button>
             <Button 
-              onClick={handleAssign} 
+              onClick={() => handleAssign()} 
               disabled={!selectedEmployee || assigning}
             >
               {assigning ? (
@@ -518,6 +527,13 @@ export function NeedsReassignment() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ConflictOverrideDialog
+        conflicts={conflicts}
+        onOpenChange={(open) => !open && setConflicts(null)}
+        onConfirm={(reason) => handleAssign(reason)}
+        submitting={assigning}
+      />
     </>
   )
 }
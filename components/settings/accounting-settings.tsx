@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { BookOpen, CheckCircle2 } from "lucide-react"
+import {
+  CompanyAccountingSettings,
+  MAX_ACCOUNT_LENGTH,
+  defaultAccountingSettings,
+  expenseCategoryLabels,
+} from "@/lib/accounting-settings"
+
+type AccountField = Exclude<keyof CompanyAccountingSettings, "expenseAccounts">
+
+const accountFields: Array<{ key: AccountField; label: string; hint: string }> = [
+  { key: "salesAccount", label: "Sales", hint: "Invoice and credit note lines" },
+  { key: "receivablesAccount", label: "Accounts receivable", hint: "QuickBooks invoices and payments" },
+  { key: "bankAccount", label: "Bank", hint: "Payments, expenses and payouts" },
+  { key: "vatAccount", label: "VAT control", hint: "QuickBooks VAT on sales and expenses" },
+  { key: "wagesAccount", label: "Wages", hint: "Employee payouts" },
+  { key: "defaultExpenseAccount", label: "Other expenses", hint: "Categories without their own account" },
+]
+
+export function AccountingSettings() {
+  const [settings, setSettings] = useState<CompanyAccountingSettings>(defaultAccountingSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/accounting-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load accounting settings")
+      }
+      setSettings(data.settings || defaultAccountingSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load accounting settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const updateAccount = (key: AccountField, value: string) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const updateExpenseAccount = (category: string, value: string) => {
+    setSettings((prev) => ({ ...prev, expenseAccounts: { ...prev.expenseAccounts, [category]: value } }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/accounting-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save accounting settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Accounting settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save accounting settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Chart of Accounts
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Chart of Accounts
+          </CardTitle>
+          <CardDescription>
+            Account codes used in Xero and QuickBooks exports. For QuickBooks files without account numbers,
+            enter the account names instead.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {accountFields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`account-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`account-${field.key}`}
+                  maxLength={MAX_ACCOUNT_LENGTH}
+                  value={settings[field.key]}
+                  onChange={(e) => updateAccount(field.key, e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Expense categories</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave a category blank to post it to the other expenses account.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {Object.entries(expenseCategoryLabels).map(([category, label]) => (
+                <div key={category} className="space-y-2">
+                  <Label htmlFor={`expense-account-${category}`} className="text-sm font-normal">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`expense-account-${category}`}
+                    maxLength={MAX_ACCOUNT_LENGTH}
+                    placeholder={settings.defaultExpenseAccount}
+                    value={settings.expenseAccounts[category] ?? ""}
+                    onChange={(e) => updateExpenseAccount(category, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,361 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CalendarCheck, CheckCircle2, Plus, Trash2 } from "lucide-react"
+import {
+  CompanyBookingSettings,
+  defaultBookingSettings,
+  OutOfAreaPolicy,
+  SLOT_INTERVAL_OPTIONS,
+} from "@/lib/booking-settings"
+
+const serviceLabels: Record<string, string> = {
+  regular: "Regular Cleaning",
+  deep_clean: "Deep Cleaning",
+  move_in: "Move-In Cleaning",
+  move_out: "Move-Out Cleaning",
+  one_time: "One-Time Cleaning",
+  spring_clean: "Spring Cleaning",
+}
+
+export function BookingSettings() {
+  const [settings, setSettings] = useState<CompanyBookingSettings>(defaultBookingSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [blackoutDate, setBlackoutDate] = useState("")
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/booking-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load booking settings")
+      }
+      setSettings(data.settings || defaultBookingSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load booking settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const update = (changes: Partial<CompanyBookingSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/booking-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save booking settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Booking settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save booking settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addBlackoutDate = () => {
+    if (!blackoutDate || settings.blackoutDates.includes(blackoutDate)) return
+    update({ blackoutDates: [...settings.blackoutDates, blackoutDate].sort() })
+    setBlackoutDate("")
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Online Booking
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Online Booking
+          </CardTitle>
+          <CardDescription>
+            Let customers pick a real time on the booking page and get a confirmed job straight away. Times are
+            worked out from your cleaners&apos; availability, time off and existing jobs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="booking-instant">Instant booking</Label>
+              <p className="text-xs text-muted-foreground">
+                When off, the booking page takes requests for you to schedule.
+              </p>
+            </div>
+            <Switch
+              id="booking-instant"
+              checked={settings.instantBookingEnabled}
+              onCheckedChange={(checked) => update({ instantBookingEnabled: checked })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="booking-lead-time">Minimum notice (hours)</Label>
+              <Input
+                id="booking-lead-time"
+                type="number"
+                min={0}
+                max={336}
+                value={settings.leadTimeHours}
+                onChange={(e) => update({ leadTimeHours: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-window">Book up to (days ahead)</Label>
+              <Input
+                id="booking-window"
+                type="number"
+                min={1}
+                max={180}
+                value={settings.bookingWindowDays}
+                onChange={(e) => update({ bookingWindowDays: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-max-jobs">Max jobs per day</Label>
+              <Input
+                id="booking-max-jobs"
+                type="number"
+                min={0}
+                max={500}
+                value={settings.maxJobsPerDay}
+                onChange={(e) => update({ maxJobsPerDay: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">Counts all jobs that day. 0 means no limit.</p>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="booking-day-start">First start time</Label>
+              <Input
+                id="booking-day-start"
+                type="time"
+                value={settings.dayStartTime}
+                onChange={(e) => update({ dayStartTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-day-end">Finish by</Label>
+              <Input
+                id="booking-day-end"
+                type="time"
+                value={settings.dayEndTime}
+                onChange={(e) => update({ dayEndTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-interval">Offer a time every</Label>
+              <Select
+                value={settings.slotIntervalMinutes.toString()}
+                onValueChange={(value) => update({ slotIntervalMinutes: parseInt(value) })}
+              >
+                <SelectTrigger id="booking-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLOT_INTERVAL_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={minutes.toString()}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="booking-travel-buffer">Travel buffer (minutes)</Label>
+              <Input
+                id="booking-travel-buffer"
+                type="number"
+                min={0}
+                max={120}
+                value={settings.travelBufferMinutes}
+                onChange={(e) => update({ travelBufferMinutes: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Kept around jobs when there&apos;s no location to estimate travel from.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-hold">Hold a picked time for (minutes)</Label>
+              <Input
+                id="booking-hold"
+                type="number"
+                min={5}
+                max={30}
+                value={settings.holdMinutes}
+                onChange={(e) => update({ holdMinutes: parseInt(e.target.value) || 5 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-extra-room">Extra minutes per room</Label>
+              <Input
+                id="booking-extra-room"
+                type="number"
+                min={0}
+                max={120}
+                value={settings.extraRoomMinutes}
+                onChange={(e) => update({ extraRoomMinutes: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">For each bedroom and bathroom after the first.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Service length (minutes)</Label>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {Object.entries(serviceLabels).map(([serviceType, label]) => (
+                <div key={serviceType} className="space-y-2">
+                  <Label htmlFor={`booking-duration-${serviceType}`} className="text-xs text-muted-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`booking-duration-${serviceType}`}
+                    type="number"
+                    min={30}
+                    max={720}
+                    step={15}
+                    value={settings.serviceDurations[serviceType] ?? ""}
+                    onChange={(e) =>
+                      update({
+                        serviceDurations: {
+                          ...settings.serviceDurations,
+                          [serviceType]: parseInt(e.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-out-of-area">Bookings outside your service areas</Label>
+            <Select
+              value={settings.outOfAreaPolicy}
+              onValueChange={(value) => update({ outOfAreaPolicy: value as OutOfAreaPolicy })}
+            >
+              <SelectTrigger id="booking-out-of-area" className="sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flag">Accept them as requests and flag them</SelectItem>
+                <SelectItem value="reject">Turn them away</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Only applies once you have active service areas. Out-of-area bookings are never booked instantly.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="booking-blackout-date">Days closed to online booking</Label>
+              <p className="text-xs text-muted-foreground">
+                Customers can still send a request for these days for you to review.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                id="booking-blackout-date"
+                type="date"
+                className="w-48"
+                value={blackoutDate}
+                onChange={(e) => setBlackoutDate(e.target.value)}
+              />
+              <Button variant="outline" onClick={addBlackoutDate} disabled={!blackoutDate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            {settings.blackoutDates.length > 0 && (
+              <div className="divide-y rounded-md border">
+                {settings.blackoutDates.map((date) => (
+                  <div key={date} className="flex items-center justify-between gap-4 px-3 py-2">
+                    <p className="text-sm">{format(parseISO(date), "EEEE d MMMM yyyy")}</p>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ blackoutDates: settings.blackoutDates.filter((d) => d !== date) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
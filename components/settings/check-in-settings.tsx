@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { MapPin, CheckCircle2 } from "lucide-react"
+import {
+  CompanyCheckInSettings,
+  defaultCompanyCheckInSettings,
+  MAX_CHECK_IN_RADIUS,
+  MIN_CHECK_IN_RADIUS,
+} from "@/lib/check-in-settings"
+
+const enforcementOptions: Array<{
+  value: CompanyCheckInSettings["enforcement"]
+  title: string
+  description: string
+}> = [
+  {
+    value: "flag",
+    title: "Flag for review",
+    description: "Allow the check-in but mark it as out of range in the verification center.",
+  },
+  {
+    value: "block",
+    title: "Block",
+    description: "Reject check-ins and check-outs made outside the allowed distance.",
+  },
+]
+
+export function CheckInSettings() {
+  const [settings, setSettings] = useState<CompanyCheckInSettings>(defaultCompanyCheckInSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/check-in-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load check-in settings")
+      }
+      setSettings(data.settings || defaultCompanyCheckInSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load check-in settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/check-in-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save check-in settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Check-in settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save check-in settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            GPS Check-in
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            GPS Check-in
+          </CardTitle>
+          <CardDescription>
+            Control how close to the job site employees must be when they check in and out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="radiusMeters">Allowed distance (meters)</Label>
+            <Input
+              id="radiusMeters"
+              type="number"
+              min={MIN_CHECK_IN_RADIUS}
+              max={MAX_CHECK_IN_RADIUS}
+              value={settings.radiusMeters}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, radiusMeters: parseInt(e.target.value) || 0 }))
+              }
+              className="max-w-[200px]"
+            />
+            <p className="text-xs text-muted-foreground">
+              Between {MIN_CHECK_IN_RADIUS}m and {MAX_CHECK_IN_RADIUS}m. GPS on phones is usually accurate to 10-50m.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>When an employee is out of range</Label>
+            <RadioGroup
+              value={settings.enforcement}
+              onValueChange={(value) =>
+                setSettings((prev) => ({ ...prev, enforcement: value as CompanyCheckInSettings["enforcement"] }))
+              }
+              className="space-y-2"
+            >
+              {enforcementOptions.map((option) => (
+                <div key={option.value} className="flex items-start gap-3 rounded-lg border px-4 py-3">
+                  <RadioGroupItem value={option.value} id={`enforcement-${option.value}`} className="mt-1" />
+                  <div className="space-y-1">
+                    <Label htmlFor={`enforcement-${option.value}`} className="text-sm font-medium">
+                      {option.title}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </div>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
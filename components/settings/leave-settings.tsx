@@ -0,0 +1,448 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CalendarDays, CheckCircle2, Download, Loader2, Palmtree, Plus, Trash2 } from "lucide-react"
+import { CompanyLeaveSettings, defaultLeaveSettings } from "@/lib/leave-settings"
+
+interface BankHoliday {
+  id: number
+  date: string
+  name: string
+}
+
+const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+]
+
+const divisions = [
+  { value: "england-and-wales", label: "England and Wales" },
+  { value: "scotland", label: "Scotland" },
+  { value: "northern-ireland", label: "Northern Ireland" },
+]
+
+const emptyHoliday = { date: "", name: "" }
+
+export function LeaveSettings() {
+  const [settings, setSettings] = useState<CompanyLeaveSettings>(defaultLeaveSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [holidays, setHolidays] = useState<BankHoliday[]>([])
+  const [holidayForm, setHolidayForm] = useState(emptyHoliday)
+  const [division, setDivision] = useState("england-and-wales")
+  const [holidaysBusy, setHolidaysBusy] = useState(false)
+  const [holidayMessage, setHolidayMessage] = useState<string | null>(null)
+  const [holidayError, setHolidayError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/leave-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load holiday settings")
+      }
+      setSettings(data.settings || defaultLeaveSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load holiday settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadHolidays = async (forYear: number) => {
+    setHolidayError(null)
+    try {
+      const res = await fetch(`/api/leave/bank-holidays?year=${forYear}`)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load bank holidays")
+      }
+      setHolidays(data.holidays || [])
+    } catch (err) {
+      setHolidayError(err instanceof Error ? err.message : "Failed to load bank holidays")
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  useEffect(() => {
+    loadHolidays(year)
+  }, [year])
+
+  const update = (changes: Partial<CompanyLeaveSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/leave-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save holiday settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Holiday settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save holiday settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddHoliday = async () => {
+    setHolidaysBusy(true)
+    setHolidayMessage(null)
+    setHolidayError(null)
+    try {
+      const res = await fetch("/api/leave/bank-holidays", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(holidayForm),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to add bank holiday")
+      }
+      setHolidayForm(emptyHoliday)
+      await loadHolidays(year)
+    } catch (err) {
+      setHolidayError(err instanceof Error ? err.message : "Failed to add bank holiday")
+    } finally {
+      setHolidaysBusy(false)
+    }
+  }
+
+  const handleDeleteHoliday = async (holiday: BankHoliday) => {
+    if (!confirm(`Remove ${holiday.name}?`)) return
+    setHolidayError(null)
+    try {
+      const res = await fetch(`/api/leave/bank-holidays/${holiday.id}`, { method: "DELETE" })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to delete bank holiday")
+      }
+      await loadHolidays(year)
+    } catch (err) {
+      setHolidayError(err instanceof Error ? err.message : "Failed to delete bank holiday")
+    }
+  }
+
+  const handleImport = async () => {
+    setHolidaysBusy(true)
+    setHolidayMessage(null)
+    setHolidayError(null)
+    try {
+      const res = await fetch("/api/leave/bank-holidays/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ division, fromDate: `${year}-01-01` }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to import bank holidays")
+      }
+      setHolidayMessage(
+        data.imported > 0 ? `Imported ${data.imported} bank holiday(s).` : "Bank holidays are already up to date.",
+      )
+      await loadHolidays(year)
+    } catch (err) {
+      setHolidayError(err instanceof Error ? err.message : "Failed to import bank holidays")
+    } finally {
+      setHolidaysBusy(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palmtree className="h-5 w-5" />
+            Holidays
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palmtree className="h-5 w-5" />
+            Holiday Entitlement
+          </CardTitle>
+          <CardDescription>
+            How much holiday employees get and how it carries over. Allowances are pro-rated for part-time hours
+            and for starting part way through the leave year.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="leave-year-start">Leave year starts in</Label>
+              <Select
+                value={settings.leaveYearStartMonth.toString()}
+                onValueChange={(value) => update({ leaveYearStartMonth: parseInt(value) })}
+              >
+                <SelectTrigger id="leave-year-start">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map((month, index) => (
+                    <SelectItem key={month} value={(index + 1).toString()}>
+                      {month}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-weeks">Weeks of holiday per year</Label>
+              <Input
+                id="leave-weeks"
+                type="number"
+                min={0}
+                max={52}
+                step="0.1"
+                value={settings.weeksPerYear}
+                onChange={(e) => update({ weeksPerYear: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">The UK statutory minimum is 5.6 weeks.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-full-time-days">Full-time days per week</Label>
+              <Input
+                id="leave-full-time-days"
+                type="number"
+                min={1}
+                max={7}
+                step="0.5"
+                value={settings.fullTimeDaysPerWeek}
+                onChange={(e) => update({ fullTimeDaysPerWeek: parseFloat(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-full-time-hours">Full-time hours per week</Label>
+              <Input
+                id="leave-full-time-hours"
+                type="number"
+                min={1}
+                max={168}
+                step="0.5"
+                value={settings.fullTimeHoursPerWeek}
+                onChange={(e) => update({ fullTimeHoursPerWeek: parseFloat(e.target.value) || 1 })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Part-time allowances scale by contracted hours against this.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="leave-bank-holidays">Bank holidays come out of the allowance</Label>
+              <p className="text-xs text-muted-foreground">
+                Each bank holiday on a weekday is taken from the balance, as with the statutory 5.6 weeks.
+              </p>
+            </div>
+            <Switch
+              id="leave-bank-holidays"
+              checked={settings.bankHolidaysIncluded}
+              onCheckedChange={(checked) => update({ bankHolidaysIncluded: checked })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="leave-carry-over">Max days carried over</Label>
+              <Input
+                id="leave-carry-over"
+                type="number"
+                min={0}
+                max={365}
+                step="0.5"
+                value={settings.maxCarryOverDays}
+                onChange={(e) => update({ maxCarryOverDays: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">0 turns carry-over off.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-carry-over-expiry">Carried days expire after (months)</Label>
+              <Input
+                id="leave-carry-over-expiry"
+                type="number"
+                min={0}
+                max={12}
+                value={settings.carryOverExpiryMonths}
+                onChange={(e) => update({ carryOverExpiryMonths: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">0 means they don&apos;t expire.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-accrual">Zero-hours accrual rate (%)</Label>
+              <Input
+                id="leave-accrual"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={settings.accrualRatePercent}
+                onChange={(e) => update({ accrualRatePercent: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">Of hours worked; 12.07% matches 5.6 weeks.</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Bank Holidays
+          </CardTitle>
+          <CardDescription>
+            Bank holidays aren&apos;t counted in holiday requests. Import the UK list or add your own closure days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(holidayMessage || holidayError) && (
+            <Alert variant={holidayError ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!holidayError && <CheckCircle2 className="h-4 w-4" />}
+                {holidayError || holidayMessage}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="bank-holiday-year">Year</Label>
+              <Input
+                id="bank-holiday-year"
+                type="number"
+                className="w-28"
+                value={year}
+                onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-holiday-division">Region</Label>
+              <Select value={division} onValueChange={setDivision}>
+                <SelectTrigger id="bank-holiday-division" className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {divisions.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleImport} disabled={holidaysBusy}>
+              {holidaysBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Import UK bank holidays
+            </Button>
+          </div>
+
+          {holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No bank holidays set up for {year}.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {holidays.map((holiday) => (
+                <div key={holiday.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium">{holiday.name}</p>
+                    <p className="text-xs text-muted-foreground">{format(parseISO(holiday.date), "EEEE d MMMM yyyy")}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteHoliday(holiday)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-2 sm:grid-cols-[160px_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="bank-holiday-date">Date</Label>
+              <Input
+                id="bank-holiday-date"
+                type="date"
+                value={holidayForm.date}
+                onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-holiday-name">Name</Label>
+              <Input
+                id="bank-holiday-name"
+                value={holidayForm.name}
+                onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                placeholder="e.g. Company closure"
+              />
+            </div>
+            <Button
+              onClick={handleAddHoliday}
+              disabled={holidaysBusy || !holidayForm.date || !holidayForm.name.trim()}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Hash, CheckCircle2 } from "lucide-react"
+import {
+  CompanyNumberingSettings,
+  DOCUMENT_SERIES,
+  DocumentNumberFormat,
+  DocumentSeries,
+  defaultNumberingSettings,
+  documentSeriesLabels,
+  formatDocumentNumber,
+  hasSequenceToken,
+  hasYearToken,
+  MAX_PATTERN_LENGTH,
+  MAX_PREFIX_LENGTH,
+  numberingPatternTokens,
+} from "@/lib/numbering-settings"
+
+export function NumberingSettings() {
+  const [settings, setSettings] = useState<CompanyNumberingSettings>(defaultNumberingSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/numbering-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load numbering settings")
+      }
+      setSettings(data.settings || defaultNumberingSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load numbering settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const updateFormat = (series: DocumentSeries, changes: Partial<DocumentNumberFormat>) => {
+    setSettings((prev) => ({ ...prev, [series]: { ...prev[series], ...changes } }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/numbering-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save numbering settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Numbering settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save numbering settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5" />
+            Document Numbering
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5" />
+            Document Numbering
+          </CardTitle>
+          <CardDescription>
+            Choose how invoices, credit notes, quotes and contracts are numbered. Numbers are allocated in
+            order with no gaps.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Available tokens</Label>
+            <div className="flex flex-wrap gap-2">
+              {numberingPatternTokens.map((token) => (
+                <Badge key={token} variant="secondary" className="font-mono">
+                  {token}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {"{SEQ:5}"} pads the sequence to 5 digits. {"{CUSTOMER}"} is the customer&apos;s name.
+            </p>
+          </div>
+
+          {DOCUMENT_SERIES.map((series) => {
+            const format = settings[series]
+            const validPattern = hasSequenceToken(format.pattern)
+            const canResetYearly = hasYearToken(format.pattern)
+
+            return (
+              <div key={series} className="space-y-4 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium">{documentSeriesLabels[series]}</h3>
+                  <span className="font-mono text-sm text-muted-foreground">
+                    {validPattern
+                      ? formatDocumentNumber(format, 1, { customerName: "Jane Smith" })
+                      : "Pattern needs a {SEQ} token"}
+                  </span>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-[160px_1fr]">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${series}-prefix`}>Prefix</Label>
+                    <Input
+                      id={`${series}-prefix`}
+                      maxLength={MAX_PREFIX_LENGTH}
+                      value={format.prefix}
+                      onChange={(e) => updateFormat(series, { prefix: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${series}-pattern`}>Pattern</Label>
+                    <Input
+                      id={`${series}-pattern`}
+                      maxLength={MAX_PATTERN_LENGTH}
+                      value={format.pattern}
+                      onChange={(e) => updateFormat(series, { pattern: e.target.value })}
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`${series}-reset`}>Restart numbering each year</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {canResetYearly
+                        ? "The sequence goes back to 1 on the first document of each year."
+                        : "Add {YYYY} or {YY} to the pattern to restart numbering each year."}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`${series}-reset`}
+                    checked={format.resetYearly && canResetYearly}
+                    disabled={!canResetYearly}
+                    onCheckedChange={(checked) => updateFormat(series, { resetYearly: checked })}
+                  />
+                </div>
+              </div>
+            )
+          })}
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Wallet, CheckCircle2 } from "lucide-react"
+import {
+  CompanyPayrollSettings,
+  PAY_FREQUENCIES,
+  PayFrequency,
+  defaultPayrollSettings,
+  payFrequencyLabels,
+} from "@/lib/payroll-settings"
+
+const weekDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+export function PayrollSettings() {
+  const [settings, setSettings] = useState<CompanyPayrollSettings>(defaultPayrollSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/payroll-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load payroll settings")
+      }
+      setSettings(data.settings || defaultPayrollSettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load payroll settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const update = (changes: Partial<CompanyPayrollSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/payroll-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save payroll settings")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Payroll settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save payroll settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Payroll
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Payroll
+          </CardTitle>
+          <CardDescription>
+            Pay periods and the rules used to calculate payslips. Changes apply to draft payroll runs when they
+            are recalculated; approved runs are not changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="payroll-currency">Currency</Label>
+              <Input
+                id="payroll-currency"
+                maxLength={3}
+                value={settings.currency}
+                onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-frequency">Default pay frequency</Label>
+              <Select
+                value={settings.defaultFrequency}
+                onValueChange={(value) => update({ defaultFrequency: value as PayFrequency })}
+              >
+                <SelectTrigger id="payroll-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAY_FREQUENCIES.map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {payFrequencyLabels[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Used for employees without a pay frequency of their own.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-week-start">Week starts on</Label>
+              <Select
+                value={settings.weekStartsOn.toString()}
+                onValueChange={(value) => update({ weekStartsOn: parseInt(value) })}
+              >
+                <SelectTrigger id="payroll-week-start">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekDays.map((day, index) => (
+                    <SelectItem key={day} value={index.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-anchor">First bi-weekly period starts</Label>
+              <Input
+                id="payroll-anchor"
+                type="date"
+                value={settings.biWeeklyAnchor}
+                onChange={(e) => update({ biWeeklyAnchor: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Later bi-weekly periods follow every 14 days.</p>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="payroll-overtime-threshold">Overtime after (hours/week)</Label>
+              <Input
+                id="payroll-overtime-threshold"
+                type="number"
+                min={0}
+                max={168}
+                step="0.5"
+                value={settings.overtimeThresholdHours}
+                onChange={(e) => update({ overtimeThresholdHours: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">0 turns overtime off.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-overtime-multiplier">Overtime multiplier</Label>
+              <Input
+                id="payroll-overtime-multiplier"
+                type="number"
+                min={1}
+                max={5}
+                step="0.05"
+                value={settings.overtimeMultiplier}
+                onChange={(e) => update({ overtimeMultiplier: parseFloat(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-weekend-multiplier">Weekend multiplier</Label>
+              <Input
+                id="payroll-weekend-multiplier"
+                type="number"
+                min={1}
+                max={5}
+                step="0.05"
+                value={settings.weekendMultiplier}
+                onChange={(e) => update({ weekendMultiplier: parseFloat(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="payroll-travel">Pay travel time between jobs</Label>
+              <p className="text-xs text-muted-foreground">
+                Hourly and per-job staff are paid their hourly rate for the estimated drive between jobs on the
+                same day.
+              </p>
+            </div>
+            <Switch
+              id="payroll-travel"
+              checked={settings.payTravelTime}
+              onCheckedChange={(checked) => update({ payTravelTime: checked })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="payroll-speed">Average travel speed (mph)</Label>
+              <Input
+                id="payroll-speed"
+                type="number"
+                min={1}
+                max={100}
+                value={settings.travelSpeedMph}
+                onChange={(e) => update({ travelSpeedMph: parseFloat(e.target.value) || 1 })}
+                disabled={!settings.payTravelTime}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payroll-mileage">Mileage allowance (per mile)</Label>
+              <Input
+                id="payroll-mileage"
+                type="number"
+                min={0}
+                max={10}
+                step="0.01"
+                value={settings.mileageRate}
+                onChange={(e) => update({ mileageRate: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">0 turns mileage off.</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
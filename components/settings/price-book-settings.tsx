@@ -0,0 +1,354 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle2, Plus, Tags, Trash2 } from "lucide-react"
+import {
+  CompanyPriceBook,
+  defaultPriceBook,
+  MAX_PRICE_BOOK_ADD_ONS,
+  PRICE_BOOK_FREQUENCIES,
+  priceBookFrequencyLabels,
+  priceBookServiceLabels,
+} from "@/lib/price-book"
+
+export function PriceBookSettings() {
+  const [settings, setSettings] = useState<CompanyPriceBook>(defaultPriceBook)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [newAddOnLabel, setNewAddOnLabel] = useState("")
+  const [newAddOnPrice, setNewAddOnPrice] = useState("")
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/price-book")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load price book")
+      }
+      setSettings(data.settings || defaultPriceBook)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load price book")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const update = (changes: Partial<CompanyPriceBook>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/price-book", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save price book")
+      }
+      setSettings(data.settings || settings)
+      setMessage("Price book saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save price book")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addAddOn = () => {
+    const label = newAddOnLabel.trim()
+    if (!label) return
+    // The key is worked out from the label when the price book is saved
+    update({ addOns: [...settings.addOns, { key: "", label, price: parseFloat(newAddOnPrice) || 0 }] })
+    setNewAddOnLabel("")
+    setNewAddOnPrice("")
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Pricing
+          </CardTitle>
+          <CardDescription>Loading your price book...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Pricing
+          </CardTitle>
+          <CardDescription>
+            Your price book prices online bookings, quotes and jobs. Customers see the same itemised price on the
+            booking page as on their invoice. Service area surcharges are added on top.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-3">
+            <Label>Base price (£)</Label>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {Object.entries(priceBookServiceLabels).map(([serviceType, label]) => (
+                <div key={serviceType} className="space-y-2">
+                  <Label htmlFor={`price-service-${serviceType}`} className="text-xs text-muted-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`price-service-${serviceType}`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={settings.servicePrices[serviceType] ?? ""}
+                    onChange={(e) =>
+                      update({
+                        servicePrices: {
+                          ...settings.servicePrices,
+                          [serviceType]: parseFloat(e.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="price-per-bedroom">Per bedroom (£)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="price-per-bedroom"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={settings.perBedroom}
+                  onChange={(e) => update({ perBedroom: parseFloat(e.target.value) || 0 })}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">each beyond</span>
+                <Input
+                  aria-label="Bedrooms included in the base price"
+                  type="number"
+                  min={0}
+                  max={20}
+                  className="w-20"
+                  value={settings.includedBedrooms}
+                  onChange={(e) => update({ includedBedrooms: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-per-bathroom">Per bathroom (£)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="price-per-bathroom"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={settings.perBathroom}
+                  onChange={(e) => update({ perBathroom: parseFloat(e.target.value) || 0 })}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">each beyond</span>
+                <Input
+                  aria-label="Bathrooms included in the base price"
+                  type="number"
+                  min={0}
+                  max={20}
+                  className="w-20"
+                  value={settings.includedBathrooms}
+                  onChange={(e) => update({ includedBathrooms: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="price-per-sqft">Per square foot (£)</Label>
+              <Input
+                id="price-per-sqft"
+                type="number"
+                min={0}
+                step="0.01"
+                value={settings.perSquareFoot}
+                onChange={(e) => update({ perSquareFoot: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">0 means size doesn&apos;t change the price.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-included-sqft">Square feet included</Label>
+              <Input
+                id="price-included-sqft"
+                type="number"
+                min={0}
+                value={settings.includedSquareFeet}
+                onChange={(e) => update({ includedSquareFeet: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-minimum">Minimum charge (£)</Label>
+              <Input
+                id="price-minimum"
+                type="number"
+                min={0}
+                step="0.01"
+                value={settings.minimumCharge}
+                onChange={(e) => update({ minimumCharge: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">Per visit, after discounts. 0 means no minimum.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Frequency discount (%)</Label>
+            <div className="grid gap-4 sm:grid-cols-4">
+              {PRICE_BOOK_FREQUENCIES.map((frequency) => (
+                <div key={frequency} className="space-y-2">
+                  <Label htmlFor={`price-discount-${frequency}`} className="text-xs text-muted-foreground">
+                    {priceBookFrequencyLabels[frequency]}
+                  </Label>
+                  <Input
+                    id={`price-discount-${frequency}`}
+                    type="number"
+                    min={0}
+                    max={90}
+                    step="0.5"
+                    value={settings.frequencyDiscounts[frequency] ?? 0}
+                    onChange={(e) =>
+                      update({
+                        frequencyDiscounts: {
+                          ...settings.frequencyDiscounts,
+                          [frequency]: parseFloat(e.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="price-add-on-label">Add-ons</Label>
+              <p className="text-xs text-muted-foreground">Extras customers can pick when they book.</p>
+            </div>
+            {settings.addOns.length > 0 && (
+              <div className="divide-y rounded-md border">
+                {settings.addOns.map((addOn, index) => (
+                  <div key={`${addOn.key}-${index}`} className="flex items-center gap-2 px-3 py-2">
+                    <Input
+                      aria-label="Add-on name"
+                      value={addOn.label}
+                      onChange={(e) =>
+                        update({
+                          addOns: settings.addOns.map((item, i) =>
+                            i === index ? { ...item, label: e.target.value } : item,
+                          ),
+                        })
+                      }
+                    />
+                    <Input
+                      aria-label="Add-on price"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="w-28"
+                      value={addOn.price}
+                      onChange={(e) =>
+                        update({
+                          addOns: settings.addOns.map((item, i) =>
+                            i === index ? { ...item, price: parseFloat(e.target.value) || 0 } : item,
+                          ),
+                        })
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ addOns: settings.addOns.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {settings.addOns.length < MAX_PRICE_BOOK_ADD_ONS && (
+              <div className="flex gap-2">
+                <Input
+                  id="price-add-on-label"
+                  placeholder="e.g., Ironing"
+                  value={newAddOnLabel}
+                  onChange={(e) => setNewAddOnLabel(e.target.value)}
+                />
+                <Input
+                  aria-label="New add-on price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="£"
+                  className="w-28"
+                  value={newAddOnPrice}
+                  onChange={(e) => setNewAddOnPrice(e.target.value)}
+                />
+                <Button variant="outline" onClick={addAddOn} disabled={!newAddOnLabel.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,28 +20,188 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { Badge } from "@/components/ui/badge"
-import { Bell, Send, Eye } from "lucide-react"
-import { defaultReminderConfig } from "@/lib/reminders-config"
+import { Bell, Send, Eye, Loader2, Plus, X, History } from "lucide-react"
+import {
+  defaultReminderConfig,
+  MAX_REMINDER_OFFSET_DAYS,
+  REMINDER_TIERS,
+  reminderTemplateVariables,
+  ReminderConfig,
+  ReminderTier,
+} from "@/lib/reminders-config"
+import { formatCurrency } from "@/lib/utils"
+
+const tierLabels: Record<ReminderTier, string> = {
+  friendly: "Friendly",
+  firm: "Firm",
+  final: "Final notice",
+}
+
+const tierBadgeClass: Record<ReminderTier, string> = {
+  friendly: "bg-blue-100 text-blue-700",
+  firm: "bg-amber-100 text-amber-700",
+  final: "bg-red-100 text-red-700",
+}
+
+interface ReminderLogEntry {
+  id: number
+  invoiceNumber?: string
+  recipient: string
+  tier: ReminderTier
+  trigger: string
+  offsetDays: number | null
+  status: string
+  error: string | null
+  createdAt: string
+}
+
+function describeOffset(offsetDays: number | null) {
+  if (offsetDays === null) return "Sent manually"
+  if (offsetDays < 0) return `${Math.abs(offsetDays)} days before due`
+  return `${offsetDays} days overdue`
+}
+
+function OffsetEditor({
+  label,
+  description,
+  values,
+  variant,
+  onChange,
+}: {
+  label: string
+  description: string
+  values: number[]
+  variant: "secondary" | "destructive"
+  onChange: (values: number[]) => void
+}) {
+  const [draft, setDraft] = useState("")
+
+  const addValue = () => {
+    const days = parseInt(draft)
+    if (!Number.isFinite(days) || days < 1 || days > MAX_REMINDER_OFFSET_DAYS) return
+    if (!values.includes(days)) {
+      onChange([...values, days])
+    }
+    setDraft("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <p className="text-sm text-muted-foreground">{description}</p>
+      <div className="flex flex-wrap items-center gap-2">
+        {[...values]
+          .sort((a, b) => a - b)
+          .map((days) => (
+            <Badge key={days} variant={variant} className="gap-1">
+              {days} days
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((value) => value !== days))}
+                aria-label={`Remove ${days} days`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={1}
+            max={MAX_REMINDER_OFFSET_DAYS}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                addValue()
+              }
+            }}
+            placeholder="Days"
+            className="h-8 w-20"
+          />
+          <Button type="button" size="sm" variant="ghost" onClick={addValue}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
 
 export function ReminderSettings() {
-  const [config, setConfig] = useState(defaultReminderConfig)
+  const [config, setConfig] = useState<ReminderConfig>(defaultReminderConfig)
+  const [initialLoading, setInitialLoading] = useState(true)
   const [loading, setLoading] = useState(false)
   const [previewLoading, setPreviewLoading] = useState(false)
   const [message, setMessage] = useState("")
   const [preview, setPreview] = useState<any>(null)
   const [sendDialogOpen, setSendDialogOpen] = useState(false)
+  const [activeTier, setActiveTier] = useState<ReminderTier>("friendly")
+  const [log, setLog] = useState<ReminderLogEntry[]>([])
+
+  const loadLog = async () => {
+    try {
+      const response = await fetch("/api/reminders/log")
+      if (!response.ok) return
+      const data = await response.json()
+      setLog(data.reminders || [])
+    } catch (error) {
+      console.error("Error fetching reminder log:", error)
+    }
+  }
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/company/reminder-settings")
+        if (!response.ok) {
+          throw new Error("Failed to load reminder settings")
+        }
+        const data = await response.json()
+        setConfig(data.settings || defaultReminderConfig)
+      } catch (error) {
+        console.error("Error loading reminder settings:", error)
+        setMessage("Failed to load reminder settings")
+      } finally {
+        setInitialLoading(false)
+      }
+    }
+
+    loadSettings()
+    loadLog()
+  }, [])
+
+  const updateTemplate = (tier: ReminderTier, field: "subject" | "body", value: string) => {
+    setConfig((prev) => ({
+      ...prev,
+      templates: {
+        ...prev.templates,
+        [tier]: { ...prev.templates[tier], [field]: value },
+      },
+    }))
+  }
 
   const handleSave = async () => {
     setLoading(true)
     setMessage("")
 
     try {
-      // In a real implementation, save to database
-      // For now, just show success message
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      const response = await fetch("/api/company/reminder-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings: config }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save settings")
+      }
+
+      setConfig(data.settings)
       setMessage("Reminder settings saved successfully!")
     } catch (error) {
-      setMessage("Failed to save settings")
+      setMessage(error instanceof Error ? error.message : "Failed to save settings")
     } finally {
       setLoading(false)
     }
@@ -81,6 +242,7 @@ export function ReminderSettings() {
 
       setMessage(`Successfully sent ${data.sent} reminders (${data.failed} failed)`)
       setPreview(null)
+      loadLog()
     } catch (error) {
       setMessage(error instanceof Error ? error.message : "Failed to send reminders")
     } finally {
@@ -88,6 +250,14 @@ export function ReminderSettings() {
     }
   }
 
+  if (initialLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -122,72 +292,88 @@ export function ReminderSettings() {
             />
           </div>
 
-          <div className="space-y-2">
-            <Label>Days Before Due Date</Label>
-            <p className="text-sm text-muted-foreground">
-              Send reminders this many days before the invoice is due
-            </p>
-            <div className="flex gap-2">
-              {config.daysBeforeDue.map((days, index) => (
-                <Badge key={index} variant="secondary">
-                  {days} days
-                </Badge>
-              ))}
-            </div>
-          </div>
+          <OffsetEditor
+            label="Days Before Due Date"
+            description="Send reminders this many days before the invoice is due"
+            values={config.daysBeforeDue}
+            variant="secondary"
+            onChange={(daysBeforeDue) => setConfig({ ...config, daysBeforeDue })}
+          />
 
-          <div className="space-y-2">
-            <Label>Days After Due Date</Label>
-            <p className="text-sm text-muted-foreground">
-              Send reminders this many days after the invoice is overdue
-            </p>
-            <div className="flex gap-2">
-              {config.daysAfterDue.map((days, index) => (
-                <Badge key={index} variant="destructive">
-                  {days} days
-                </Badge>
-              ))}
+          <OffsetEditor
+            label="Days After Due Date"
+            description="Send reminders this many days after the invoice is overdue"
+            values={config.daysAfterDue}
+            variant="destructive"
+            onChange={(daysAfterDue) => setConfig({ ...config, daysAfterDue })}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="firmAfterDays">Firm reminders from</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="firmAfterDays"
+                  type="number"
+                  min={0}
+                  value={config.firmAfterDays}
+                  onChange={(e) => setConfig({ ...config, firmAfterDays: parseInt(e.target.value) || 0 })}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">days overdue</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="finalAfterDays">Final notice from</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="finalAfterDays"
+                  type="number"
+                  min={0}
+                  value={config.finalAfterDays}
+                  onChange={(e) => setConfig({ ...config, finalAfterDays: parseInt(e.target.value) || 0 })}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">days overdue</span>
+              </div>
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="subject">Email Subject</Label>
-            <Input
-              id="subject"
-              value={config.emailTemplate.subject}
-              onChange={(e) =>
-                setConfig({
-                  ...config,
-                  emailTemplate: {
-                    ...config.emailTemplate,
-                    subject: e.target.value,
-                  },
-                })
-              }
-            />
-          </div>
+          <Tabs value={activeTier} onValueChange={(value) => setActiveTier(value as ReminderTier)}>
+            <TabsList>
+              {REMINDER_TIERS.map((tier) => (
+                <TabsTrigger key={tier} value={tier}>
+                  {tierLabels[tier]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {REMINDER_TIERS.map((tier) => (
+              <TabsContent key={tier} value={tier} className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`subject-${tier}`}>Email Subject</Label>
+                  <Input
+                    id={`subject-${tier}`}
+                    value={config.templates[tier].subject}
+                    onChange={(e) => updateTemplate(tier, "subject", e.target.value)}
+                  />
+                </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="body">Email Body</Label>
-            <Textarea
-              id="body"
-              value={config.emailTemplate.body}
-              onChange={(e) =>
-                setConfig({
-                  ...config,
-                  emailTemplate: {
-                    ...config.emailTemplate,
-                    body: e.target.value,
-                  },
-                })
-              }
-              rows={12}
-              className="font-mono text-sm"
-            />
-            <p className="text-xs text-muted-foreground">
-              Available variables: {"{invoiceNumber}"}, {"{customerName}"}, {"{amount}"}, {"{dueDate}"}, {"{status}"}, {"{companyName}"}
-            </p>
-          </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`body-${tier}`}>Email Body</Label>
+                  <Textarea
+                    id={`body-${tier}`}
+                    value={config.templates[tier].body}
+                    onChange={(e) => updateTemplate(tier, "body", e.target.value)}
+                    rows={12}
+                    className="font-mono text-sm"
+                  />
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            Available variables: {reminderTemplateVariables.join(", ")}
+          </p>
 
           <div className="flex gap-2">
             <Button onClick={handleSave} disabled={loading}>
@@ -221,13 +407,18 @@ export function ReminderSettings() {
                     className="flex items-center justify-between p-3 bg-muted rounded-lg"
                   >
                     <div>
-                      <p className="font-medium">{invoice.invoiceNumber}</p>
+                      <p className="font-medium flex items-center gap-2">
+                        {invoice.invoiceNumber}
+                        <Badge variant="secondary" className={tierBadgeClass[invoice.tier as ReminderTier]}>
+                          {tierLabels[invoice.tier as ReminderTier]}
+                        </Badge>
+                      </p>
                       <p className="text-sm text-muted-foreground">
                         {invoice.customerName} ({invoice.customerEmail})
                       </p>
                     </div>
                     <div className="text-right">
-                      <p className="font-semibold">£{parseFloat(invoice.amount).toFixed(2)}</p>
+                      <p className="font-semibold">{formatCurrency(parseFloat(invoice.amount), invoice.currency)}</p>
                       <p className="text-sm text-muted-foreground">
                         Due: {new Date(invoice.dueDate).toLocaleDateString()}
                       </p>
@@ -240,6 +431,48 @@ export function ReminderSettings() {
         </Card>
       )}
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recent Reminders
+          </CardTitle>
+          <CardDescription>
+            Each scheduled reminder is sent once per invoice; customers who opted out are skipped
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {log.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reminders sent yet</p>
+          ) : (
+            <div className="space-y-2">
+              {log.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {entry.invoiceNumber}
+                      <Badge variant="secondary" className={tierBadgeClass[entry.tier]}>
+                        {tierLabels[entry.tier]}
+                      </Badge>
+                    </p>
+                    <p className="text-muted-foreground">
+                      {entry.recipient} · {describeOffset(entry.offsetDays)}
+                    </p>
+                    {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                  </div>
+                  <div className="text-right">
+                    <Badge variant={entry.status === "failed" ? "destructive" : "outline"}>{entry.status}</Badge>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(entry.createdAt).toLocaleString("en-GB")}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Send Reminders Confirmation Dialog */}
       <AlertDialog open={sendDialogOpen} onOpenChange={setSendDialogOpen}>
         <AlertDialogContent>
@@ -260,4 +493,3 @@ export function ReminderSettings() {
     </div>
   )
 }
-
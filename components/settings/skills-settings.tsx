@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Award, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+
+interface CatalogueSkill {
+  id: number
+  name: string
+  description: string | null
+  employeeCount: number
+}
+
+const emptyForm = { name: "", description: "" }
+
+export function SkillsSettings() {
+  const [skills, setSkills] = useState<CatalogueSkill[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  // Null when adding a new skill
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSkills = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/skills")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load skills")
+      }
+      setSkills(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load skills")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSkills()
+  }, [])
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingId(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(editingId ? `/api/skills/${editingId}` : "/api/skills", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save skill")
+      }
+      resetForm()
+      await loadSkills()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save skill")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (skill: CatalogueSkill) => {
+    const warning = skill.employeeCount > 0 ? ` It will be removed from ${skill.employeeCount} employee(s).` : ""
+    if (!confirm(`Delete ${skill.name}?${warning}`)) return
+    setError(null)
+    try {
+      const res = await fetch(`/api/skills/${skill.id}`, { method: "DELETE" })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data?.error || "Failed to delete skill")
+      }
+      setSkills((current) => current.filter((item) => item.id !== skill.id))
+      if (editingId === skill.id) resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete skill")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5" />
+          Skills
+        </CardTitle>
+        <CardDescription>
+          The skills employees can pick from. Auto-assign matches them against job types.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+          <div className="grid gap-1">
+            <Label htmlFor="skill-name">Name</Label>
+            <Input
+              id="skill-name"
+              value={form.name}
+              onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+              placeholder="e.g. Deep cleaning"
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="skill-description">Description</Label>
+            <Input
+              id="skill-description"
+              value={form.description}
+              onChange={(e) => setForm((current) => ({ ...current, description: e.target.value }))}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                !editingId && <Plus className="h-4 w-4 mr-2" />
+              )}
+              {editingId ? "Save" : "Add"}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading skills...
+          </div>
+        ) : skills.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No skills yet. Add the services your team is trained for.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {skills.map((skill) => (
+              <div key={skill.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{skill.name}</p>
+                  {skill.description && <p className="text-xs text-muted-foreground">{skill.description}</p>}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Badge variant="secondary">
+                    {skill.employeeCount} {skill.employeeCount === 1 ? "employee" : "employees"}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditingId(skill.id)
+                      setForm({ name: skill.name, description: skill.description || "" })
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(skill)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Percent, CheckCircle2 } from "lucide-react"
+import {
+  CompanyVatSettings,
+  VAT_RATE_CODES,
+  VatRateCode,
+  defaultVatSettings,
+  getVatRatePercent,
+  vatRateLabels,
+} from "@/lib/vat-settings"
+
+export function VatSettings() {
+  const [settings, setSettings] = useState<CompanyVatSettings>(defaultVatSettings)
+  const [vatNumber, setVatNumber] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/company/vat-settings")
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load VAT settings")
+      }
+      setSettings(data.settings || defaultVatSettings)
+      setVatNumber(data.vatNumber || "")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load VAT settings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const update = (changes: Partial<CompanyVatSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const res = await fetch("/api/company/vat-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings, vatNumber }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save VAT settings")
+      }
+      setSettings(data.settings || settings)
+      setVatNumber(data.vatNumber || "")
+      setMessage("VAT settings saved.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save VAT settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            VAT
+          </CardTitle>
+          <CardDescription>Loading your preferences...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-4 w-1/2 bg-muted rounded" />
+          <div className="h-4 w-2/3 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            VAT
+          </CardTitle>
+          <CardDescription>
+            Rates used on invoice lines, how prices are entered and when the reverse charge applies. Changes
+            only affect invoices created afterwards.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(message || error) && (
+            <Alert variant={error ? "destructive" : "default"}>
+              <AlertDescription className="flex items-center gap-2">
+                {!error && <CheckCircle2 className="h-4 w-4" />}
+                {error || message}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="vat-registered">VAT registered</Label>
+              <p className="text-xs text-muted-foreground">When off, invoices don&apos;t charge VAT.</p>
+            </div>
+            <Switch
+              id="vat-registered"
+              checked={settings.registered}
+              onCheckedChange={(checked) => update({ registered: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vat-number">VAT number</Label>
+            <Input
+              id="vat-number"
+              placeholder="GB123456789"
+              maxLength={100}
+              value={vatNumber}
+              onChange={(e) => setVatNumber(e.target.value)}
+              disabled={!settings.registered}
+            />
+            <p className="text-xs text-muted-foreground">Printed on invoices and credit notes.</p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="vat-standard">Standard rate (%)</Label>
+              <Input
+                id="vat-standard"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={settings.standardRate}
+                onChange={(e) => update({ standardRate: parseFloat(e.target.value) || 0 })}
+                disabled={!settings.registered}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vat-reduced">Reduced rate (%)</Label>
+              <Input
+                id="vat-reduced"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={settings.reducedRate}
+                onChange={(e) => update({ reducedRate: parseFloat(e.target.value) || 0 })}
+                disabled={!settings.registered}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vat-default">Default rate for new lines</Label>
+            <Select
+              value={settings.defaultRate}
+              onValueChange={(value) => update({ defaultRate: value as VatRateCode })}
+              disabled={!settings.registered}
+            >
+              <SelectTrigger id="vat-default">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VAT_RATE_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {vatRateLabels[code]} ({getVatRatePercent(code, settings)}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="vat-inclusive">Prices include VAT</Label>
+              <p className="text-xs text-muted-foreground">
+                Line prices are entered with VAT included and the VAT is worked out of them.
+              </p>
+            </div>
+            <Switch
+              id="vat-inclusive"
+              checked={settings.pricesIncludeVat}
+              disabled={!settings.registered}
+              onCheckedChange={(checked) => update({ pricesIncludeVat: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="vat-reverse-charge">Reverse charge for commercial customers</Label>
+              <p className="text-xs text-muted-foreground">
+                Commercial customers with a VAT number are invoiced without VAT and the invoice carries the
+                reverse charge wording.
+              </p>
+            </div>
+            <Switch
+              id="vat-reverse-charge"
+              checked={settings.reverseChargeForCommercial}
+              disabled={!settings.registered}
+              onCheckedChange={(checked) => update({ reverseChargeForCommercial: checked })}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+            <Button variant="outline" onClick={loadSettings} disabled={saving}>
+              Reset to saved
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
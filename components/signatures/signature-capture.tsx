@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { RotateCcw } from "lucide-react"
+
+export interface SignatureCaptureValue {
+  signatureType: "drawn" | "typed"
+  // PNG data URL when drawn, the typed signature otherwise
+  signatureData: string
+  signerName: string
+  signerEmail: string
+  agreed: boolean
+}
+
+export function emptySignature(signerName = "", signerEmail = ""): SignatureCaptureValue {
+  return { signatureType: "drawn", signatureData: "", signerName, signerEmail, agreed: false }
+}
+
+export function isSignatureComplete(value: SignatureCaptureValue) {
+  return value.agreed && value.signerName.trim() !== "" && value.signatureData.trim() !== ""
+}
+
+interface SignatureCaptureProps {
+  value: SignatureCaptureValue
+  onChange: (value: SignatureCaptureValue) => void
+  // What is being signed, e.g. "contract", for the consent wording
+  documentLabel: string
+}
+
+/**
+ * Collects a drawn or typed signature with the signer's name, email and consent to sign
+ * electronically
+ */
+export function SignatureCapture({ value, onChange, documentLabel }: SignatureCaptureProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isDrawing, setIsDrawing] = useState(false)
+
+  const update = (changes: Partial<SignatureCaptureValue>) => {
+    onChange({ ...value, ...changes })
+  }
+
+  useEffect(() => {
+    if (value.signatureType !== "drawn") return
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const rect = canvas.getBoundingClientRect()
+    canvas.width = rect.width * window.devicePixelRatio
+    canvas.height = rect.height * window.devicePixelRatio
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
+    ctx.strokeStyle = "#000"
+    ctx.lineWidth = 2
+    ctx.lineCap = "round"
+    ctx.lineJoin = "round"
+    ctx.fillStyle = "#fff"
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }, [value.signatureType])
+
+  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+    const canvas = canvasRef.current
+    if (!canvas) return null
+    const rect = canvas.getBoundingClientRect()
+    const point = "touches" in e ? e.touches[0] : e
+    return { x: point.clientX - rect.left, y: point.clientY - rect.top }
+  }
+
+  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault()
+    const coords = getCoordinates(e)
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!coords || !ctx) return
+    setIsDrawing(true)
+    ctx.beginPath()
+    ctx.moveTo(coords.x, coords.y)
+  }
+
+  const draw = (e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault()
+    if (!isDrawing) return
+    const coords = getCoordinates(e)
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!coords || !ctx) return
+    ctx.lineTo(coords.x, coords.y)
+    ctx.stroke()
+  }
+
+  const stopDrawing = () => {
+    if (!isDrawing) return
+    setIsDrawing(false)
+    const canvas = canvasRef.current
+    if (canvas) update({ signatureData: canvas.toDataURL("image/png") })
+  }
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    ctx.fillStyle = "#fff"
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    update({ signatureData: "" })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="signature-signer-name">Full name *</Label>
+          <Input
+            id="signature-signer-name"
+            value={value.signerName}
+            onChange={(e) =>
+              update({
+                signerName: e.target.value,
+                ...(value.signatureType === "typed" ? { signatureData: e.target.value } : {}),
+              })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="signature-signer-email">Email</Label>
+          <Input
+            id="signature-signer-email"
+            type="email"
+            value={value.signerEmail}
+            onChange={(e) => update({ signerEmail: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Tabs
+          value={value.signatureType}
+          onValueChange={(type) =>
+            update({
+              signatureType: type as SignatureCaptureValue["signatureType"],
+              signatureData: type === "typed" ? value.signerName : "",
+            })
+          }
+        >
+          <TabsList>
+            <TabsTrigger value="drawn">Draw</TabsTrigger>
+            <TabsTrigger value="typed">Type</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {value.signatureType === "drawn" ? (
+          <div>
+            <div className="relative">
+              <canvas
+                ref={canvasRef}
+                className="w-full h-40 border rounded-lg cursor-crosshair touch-none bg-white"
+                onMouseDown={startDrawing}
+                onMouseMove={draw}
+                onMouseUp={stopDrawing}
+                onMouseLeave={stopDrawing}
+                onTouchStart={startDrawing}
+                onTouchMove={draw}
+                onTouchEnd={stopDrawing}
+              />
+              {!value.signatureData && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none text-muted-foreground">
+                  <p className="text-sm">Sign here</p>
+                </div>
+              )}
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={clearSignature} className="mt-1">
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input
+              aria-label="Typed signature"
+              value={value.signatureData}
+              onChange={(e) => update({ signatureData: e.target.value })}
+            />
+            <div className="flex h-24 items-center justify-center rounded-lg border bg-white px-4">
+              <p className="font-serif text-3xl italic text-gray-900 truncate">{value.signatureData || " "}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="signature-agreed"
+          checked={value.agreed}
+          onCheckedChange={(checked) => update({ agreed: checked === true })}
+        />
+        <Label htmlFor="signature-agreed" className="text-sm font-normal leading-snug">
+          I have read this {documentLabel} and agree to sign it electronically. My electronic signature is as binding
+          as a handwritten one.
+        </Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,525 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { addDays, format } from "date-fns"
+import { Calendar, CreditCard, Loader2, Pause, Play, Repeat, SkipForward, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { formatCurrency } from "@/lib/utils"
+
+interface SubscriptionPlan {
+  id: number
+  name: string
+  description: string | null
+  amount: string
+  currency: string
+  frequency: string
+  durationMinutes: number
+}
+
+interface SubscriptionVisit {
+  id: number
+  occurrenceAt: string
+  status: string
+  nextRetryAt: string | null
+  invoice: { id: number; invoiceNumber: string; status: string; total: string; currency: string } | null
+}
+
+interface CustomerSubscription {
+  id: number
+  planId: number | null
+  name: string
+  amount: string
+  currency: string | null
+  frequency: string
+  status: string
+  nextBillingDate: string | null
+  cardBrand: string | null
+  cardLast4: string | null
+  resumeAt: string | null
+  cycles: SubscriptionVisit[]
+}
+
+interface CustomerSubscriptionsProps {
+  token: string
+  // Called after a change that may have added visits or invoices elsewhere on the dashboard
+  onChange?: () => void
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  weekly: "every week",
+  biweekly: "every 2 weeks",
+  monthly: "every month",
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Card needed", className: "bg-gray-500" },
+  active: { label: "Active", className: "bg-green-500" },
+  paused: { label: "Paused", className: "bg-yellow-500" },
+  past_due: { label: "Payment overdue", className: "bg-red-500" },
+  cancelled: { label: "Cancelled", className: "bg-gray-400" },
+  completed: { label: "Ended", className: "bg-blue-500" },
+}
+
+const VISIT_LABELS: Record<string, string> = {
+  skipped: "Skipped",
+  missed: "Missed",
+  pending_payment: "Awaiting payment",
+  paid: "Paid",
+  payment_failed: "Payment failed",
+  unpaid: "Unpaid",
+}
+
+const formatVisit = (value: string) => format(new Date(value), "EEE d MMM yyyy, HH:mm")
+
+/**
+ * The subscriptions tab of the customer portal: subscribe to a plan, manage the saved card, and
+ * pause, skip a visit or cancel
+ */
+export function CustomerSubscriptions({ token, onChange }: CustomerSubscriptionsProps) {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([])
+  const [subscriptions, setSubscriptions] = useState<CustomerSubscription[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const [subscribingTo, setSubscribingTo] = useState<SubscriptionPlan | null>(null)
+  const [firstVisitDate, setFirstVisitDate] = useState("")
+  const [visitTime, setVisitTime] = useState("09:00")
+  const [pausing, setPausing] = useState<CustomerSubscription | null>(null)
+  const [resumeDate, setResumeDate] = useState("")
+  const [cancelling, setCancelling] = useState<CustomerSubscription | null>(null)
+  const [cancelReason, setCancelReason] = useState("")
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Something went wrong")
+      return data
+    },
+    [token],
+  )
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const data = await request("/api/customer-portal/subscriptions")
+      setPlans(data.plans)
+      setSubscriptions(data.subscriptions)
+    } catch (error) {
+      console.error("Error fetching subscriptions:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    // Back from saving a card with Stripe
+    const params = new URLSearchParams(window.location.search)
+    const sessionId = params.get("subscription_setup")
+    if (!sessionId) {
+      fetchSubscriptions()
+      return
+    }
+
+    params.delete("subscription_setup")
+    const query = params.toString()
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`)
+    request("/api/customer-portal/subscriptions/card-setup", {
+      method: "POST",
+      body: JSON.stringify({ sessionId }),
+    })
+      .then((data) => {
+        if (data.saved) toast.success("Card saved. Your subscription is active.")
+        else toast.error("Your card wasn't saved. Please try again.")
+      })
+      .catch((error) => toast.error(error.message))
+      .finally(fetchSubscriptions)
+  }, [request, fetchSubscriptions])
+
+  const startCardSetup = async (subscriptionId: number) => {
+    setBusyId(subscriptionId)
+    try {
+      const data = await request(`/api/customer-portal/subscriptions/${subscriptionId}/card`, { method: "POST" })
+      window.location.href = data.url
+    } catch (error: any) {
+      toast.error(error.message)
+      setBusyId(null)
+    }
+  }
+
+  const subscribe = async () => {
+    if (!subscribingTo) return
+    setBusyId(-subscribingTo.id)
+    try {
+      const data = await request("/api/customer-portal/subscriptions", {
+        method: "POST",
+        body: JSON.stringify({ planId: subscribingTo.id, firstVisitDate, visitTime }),
+      })
+      window.location.href = data.url
+    } catch (error: any) {
+      toast.error(error.message)
+      setBusyId(null)
+    }
+  }
+
+  const updateSubscription = async (subscriptionId: number, body: Record<string, unknown>, success: string) => {
+    setBusyId(subscriptionId)
+    try {
+      await request(`/api/customer-portal/subscriptions/${subscriptionId}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      })
+      toast.success(success)
+      setPausing(null)
+      setCancelling(null)
+      await fetchSubscriptions()
+      onChange?.()
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const current = subscriptions.filter((subscription) => !["cancelled", "completed"].includes(subscription.status))
+  const subscribedPlanIds = new Set(current.map((subscription) => subscription.planId))
+  const availablePlans = plans.filter((plan) => !subscribedPlanIds.has(plan.id))
+  const tomorrow = format(addDays(new Date(), 1), "yyyy-MM-dd")
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Subscriptions</CardTitle>
+          <CardDescription>
+            Each visit is charged to your saved card two days before it takes place
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscriptions.length === 0 ? (
+            <div className="text-center py-12">
+              <Repeat className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No subscriptions yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {subscriptions.map((subscription) => {
+                const status = STATUS_LABELS[subscription.status] ?? { label: subscription.status, className: "bg-gray-500" }
+                const busy = busyId === subscription.id
+                const ended = ["cancelled", "completed"].includes(subscription.status)
+                return (
+                  <div key={subscription.id} className="p-4 rounded-lg border bg-card space-y-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div>
+                        <p className="font-medium">{subscription.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatCurrency(Number(subscription.amount), subscription.currency || "GBP")}{" "}
+                          {FREQUENCY_LABELS[subscription.frequency] ?? subscription.frequency}
+                        </p>
+                        {!ended && (
+                          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {subscription.status === "paused"
+                              ? subscription.resumeAt
+                                ? `Paused until ${format(new Date(subscription.resumeAt), "d MMM yyyy")}`
+                                : "Paused until you resume"
+                              : subscription.nextBillingDate
+                                ? `Next visit ${formatVisit(subscription.nextBillingDate)}`
+                                : "No more visits scheduled"}
+                          </p>
+                        )}
+                        {subscription.cardLast4 && (
+                          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                            <CreditCard className="h-3 w-3" />
+                            {subscription.cardBrand} ending {subscription.cardLast4}
+                          </p>
+                        )}
+                      </div>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+
+                    {subscription.status === "pending" && (
+                      <Alert>
+                        <AlertDescription>Save a card to start your subscription.</AlertDescription>
+                      </Alert>
+                    )}
+                    {subscription.status === "past_due" && (
+                      <Alert variant="destructive">
+                        <AlertDescription>
+                          We couldn&apos;t take payment for a visit. Pay the invoice or update your card to carry on.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {!ended && (
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant={subscription.cardLast4 ? "outline" : "default"}
+                          disabled={busy}
+                          onClick={() => startCardSetup(subscription.id)}
+                        >
+                          {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CreditCard className="h-4 w-4 mr-2" />}
+                          {subscription.cardLast4 ? "Update card" : "Add card"}
+                        </Button>
+                        {["pending", "active"].includes(subscription.status) && subscription.nextBillingDate && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() =>
+                              updateSubscription(
+                                subscription.id,
+                                { action: "skip" },
+                                `Visit on ${formatVisit(subscription.nextBillingDate!)} skipped`,
+                              )
+                            }
+                          >
+                            <SkipForward className="h-4 w-4 mr-2" />
+                            Skip next visit
+                          </Button>
+                        )}
+                        {subscription.status === "active" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => {
+                              setResumeDate("")
+                              setPausing(subscription)
+                            }}
+                          >
+                            <Pause className="h-4 w-4 mr-2" />
+                            Pause
+                          </Button>
+                        )}
+                        {subscription.status === "paused" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => updateSubscription(subscription.id, { action: "resume" }, "Subscription resumed")}
+                          >
+                            <Play className="h-4 w-4 mr-2" />
+                            Resume
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive"
+                          disabled={busy}
+                          onClick={() => {
+                            setCancelReason("")
+                            setCancelling(subscription)
+                          }}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+
+                    {subscription.cycles.length > 0 && (
+                      <div className="border-t pt-3 space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">Recent visits</p>
+                        {subscription.cycles.map((visit) => (
+                          <div key={visit.id} className="flex items-center justify-between text-sm">
+                            <span>{formatVisit(visit.occurrenceAt)}</span>
+                            <span className="text-muted-foreground">
+                              {visit.invoice ? `${visit.invoice.invoiceNumber} · ` : ""}
+                              {VISIT_LABELS[visit.status] ?? visit.status}
+                              {visit.status === "payment_failed" && visit.nextRetryAt
+                                ? `, retrying ${format(new Date(visit.nextRetryAt), "d MMM")}`
+                                : ""}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {availablePlans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscribe to a Plan</CardTitle>
+            <CardDescription>Regular visits at a fixed price, paid automatically by card</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2">
+            {availablePlans.map((plan) => (
+              <div key={plan.id} className="p-4 rounded-lg border bg-card flex flex-col gap-2">
+                <p className="font-medium">{plan.name}</p>
+                {plan.description && <p className="text-sm text-muted-foreground">{plan.description}</p>}
+                <p className="text-sm">
+                  <span className="font-semibold">{formatCurrency(Number(plan.amount), plan.currency)}</span>{" "}
+                  <span className="text-muted-foreground">
+                    {FREQUENCY_LABELS[plan.frequency] ?? plan.frequency} · {plan.durationMinutes / 60} hours
+                  </span>
+                </p>
+                <Button
+                  size="sm"
+                  className="mt-auto"
+                  onClick={() => {
+                    setFirstVisitDate(tomorrow)
+                    setSubscribingTo(plan)
+                  }}
+                >
+                  Subscribe
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!subscribingTo} onOpenChange={(open) => !open && setSubscribingTo(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Subscribe to {subscribingTo?.name}</DialogTitle>
+            <DialogDescription>
+              Choose your first visit; later visits follow {FREQUENCY_LABELS[subscribingTo?.frequency ?? ""] ?? "on schedule"} at
+              the same time. You&apos;ll save a card with our payment provider next.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="subscription-first-visit">First visit</Label>
+              <Input
+                id="subscription-first-visit"
+                type="date"
+                min={tomorrow}
+                value={firstVisitDate}
+                onChange={(e) => setFirstVisitDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="subscription-visit-time">Time</Label>
+              <Input
+                id="subscription-visit-time"
+                type="time"
+                step={900}
+                value={visitTime}
+                onChange={(e) => setVisitTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSubscribingTo(null)}>
+              Back
+            </Button>
+            <Button onClick={subscribe} disabled={!firstVisitDate || !visitTime || busyId !== null}>
+              {busyId !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Continue to card details
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pausing} onOpenChange={(open) => !open && setPausing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Pause {pausing?.name}</DialogTitle>
+            <DialogDescription>
+              No visits are booked or charged while paused. Visits already charged still go ahead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="subscription-resume-date">Resume on (optional)</Label>
+            <Input
+              id="subscription-resume-date"
+              type="date"
+              min={tomorrow}
+              value={resumeDate}
+              onChange={(e) => setResumeDate(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to stay paused until you resume.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPausing(null)}>
+              Back
+            </Button>
+            <Button
+              disabled={busyId !== null}
+              onClick={() =>
+                pausing &&
+                updateSubscription(
+                  pausing.id,
+                  { action: "pause", resumeAt: resumeDate ? `${resumeDate}T00:00:00` : null },
+                  "Subscription paused",
+                )
+              }
+            >
+              Pause subscription
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel {cancelling?.name}?</DialogTitle>
+            <DialogDescription>
+              No further visits will be booked. Visits already charged still go ahead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="subscription-cancel-reason">Reason (optional)</Label>
+            <Textarea
+              id="subscription-cancel-reason"
+              rows={3}
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)}>
+              Keep subscription
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={busyId !== null}
+              onClick={() =>
+                cancelling &&
+                updateSubscription(cancelling.id, { action: "cancel", reason: cancelReason }, "Subscription cancelled")
+              }
+            >
+              Cancel subscription
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+-- Store geocoded coordinates for job sites and customer addresses
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "latitude" decimal(10, 7);
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "longitude" decimal(10, 7);
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "latitude" decimal(10, 7);
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "longitude" decimal(10, 7);
+ALTER TABLE "customer_addresses" ADD COLUMN IF NOT EXISTS "latitude" decimal(10, 7);
+ALTER TABLE "customer_addresses" ADD COLUMN IF NOT EXISTS "longitude" decimal(10, 7);
+
+-- Per-company GPS check-in tolerance
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "check_in_settings" jsonb;
@@ -0,0 +1,27 @@
+-- RFC 5545 recurrence rules shared by job series, contracts and subscriptions
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "recurrence_rule" text;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "recurrence_id" timestamp;
+CREATE INDEX IF NOT EXISTS "jobs_parent_idx" ON "jobs" ("parent_job_id");
+
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "recurrence_rule" text;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "recurrence_rule" text;
+
+-- Existing children were generated at their original occurrence time
+UPDATE "jobs" SET "recurrence_id" = "scheduled_for"
+WHERE "parent_job_id" IS NOT NULL AND "recurrence_id" IS NULL;
+
+-- Convert free-text subscription frequencies into rules anchored on the start date
+UPDATE "subscriptions"
+SET "recurrence_rule" = 'DTSTART;TZID=Europe/London:' || to_char("start_date" AT TIME ZONE 'UTC' AT TIME ZONE 'Europe/London', 'YYYYMMDD"T"HH24MISS') || E'\nRRULE:' ||
+  CASE lower(replace("frequency", '-', ''))
+    WHEN 'daily' THEN 'FREQ=DAILY'
+    WHEN 'weekly' THEN 'FREQ=WEEKLY'
+    WHEN 'biweekly' THEN 'FREQ=WEEKLY;INTERVAL=2'
+    WHEN 'fortnightly' THEN 'FREQ=WEEKLY;INTERVAL=2'
+    WHEN 'monthly' THEN 'FREQ=MONTHLY'
+    WHEN 'quarterly' THEN 'FREQ=MONTHLY;INTERVAL=3'
+    WHEN 'annually' THEN 'FREQ=YEARLY'
+    WHEN 'yearly' THEN 'FREQ=YEARLY'
+  END
+WHERE "recurrence_rule" IS NULL
+  AND lower(replace("frequency", '-', '')) IN ('daily', 'weekly', 'biweekly', 'fortnightly', 'monthly', 'quarterly', 'annually', 'yearly');
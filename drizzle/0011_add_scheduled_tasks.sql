@@ -0,0 +1,28 @@
+-- Run history for the background task scheduler
+CREATE TABLE IF NOT EXISTS "scheduled_task_runs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "task" varchar(100) NOT NULL,
+  "company_id" integer REFERENCES "companies"("id") ON DELETE cascade,
+  "idempotency_key" varchar(255) NOT NULL,
+  "trigger" varchar(20) DEFAULT 'cron' NOT NULL,
+  "status" varchar(20) DEFAULT 'running' NOT NULL,
+  "attempts" integer DEFAULT 1 NOT NULL,
+  "result" jsonb,
+  "error" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "finished_at" timestamp,
+  "duration_ms" integer
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "scheduled_task_runs_idempotency_key_idx" ON "scheduled_task_runs" ("idempotency_key");
+CREATE INDEX IF NOT EXISTS "scheduled_task_runs_task_idx" ON "scheduled_task_runs" ("task", "started_at");
+CREATE INDEX IF NOT EXISTS "scheduled_task_runs_company_idx" ON "scheduled_task_runs" ("company_id");
+CREATE INDEX IF NOT EXISTS "scheduled_task_runs_status_idx" ON "scheduled_task_runs" ("status");
+
+-- Per-task locks so overlapping cron invocations don't run the same task twice
+CREATE TABLE IF NOT EXISTS "scheduled_task_locks" (
+  "name" varchar(150) PRIMARY KEY NOT NULL,
+  "locked_by" varchar(100) NOT NULL,
+  "locked_at" timestamp DEFAULT now() NOT NULL,
+  "expires_at" timestamp NOT NULL
+);
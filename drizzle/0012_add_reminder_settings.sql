@@ -0,0 +1,25 @@
+-- Per-company payment reminder schedules and templates
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "reminder_settings" jsonb;
+
+-- Customers who asked not to receive payment reminders
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "payment_reminders_opt_out" smallint DEFAULT 0 NOT NULL;
+
+-- Log of every payment reminder sent, used to avoid repeats
+CREATE TABLE IF NOT EXISTS "invoice_reminder_logs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id") ON DELETE cascade,
+  "offset_days" integer,
+  "tier" varchar(20) NOT NULL,
+  "trigger" varchar(20) DEFAULT 'automatic' NOT NULL,
+  "recipient" varchar(255) NOT NULL,
+  "subject" varchar(500),
+  "status" varchar(20) DEFAULT 'sending' NOT NULL,
+  "error" text,
+  "sent_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "sent_at" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "invoice_reminder_logs_invoice_offset_idx" ON "invoice_reminder_logs" ("invoice_id", "offset_days");
+CREATE INDEX IF NOT EXISTS "invoice_reminder_logs_company_idx" ON "invoice_reminder_logs" ("company_id", "created_at");
@@ -0,0 +1,9 @@
+-- Public pay links for invoices
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "payment_token" varchar(64);
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_payment_token_idx" ON "invoices" ("payment_token");
+
+-- Stripe Checkout payments and refunds
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "stripe_checkout_session_id" varchar(255);
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "stripe_payment_intent_id" varchar(255);
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "refunded_amount" numeric(12, 2) DEFAULT '0' NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "payments_stripe_payment_intent_idx" ON "payments" ("stripe_payment_intent_id");
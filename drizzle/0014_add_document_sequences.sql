@@ -0,0 +1,14 @@
+-- Per-company document number formats
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "numbering_settings" jsonb;
+
+-- Last number allocated per company, document series and period
+CREATE TABLE IF NOT EXISTS "document_sequences" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "series" varchar(30) NOT NULL,
+  "period" varchar(10) DEFAULT 'all' NOT NULL,
+  "last_value" integer DEFAULT 0 NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "document_sequences_series_period_idx" ON "document_sequences" ("company_id", "series", "period");
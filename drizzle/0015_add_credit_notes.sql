@@ -0,0 +1,51 @@
+-- Credit notes and invoice voiding
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "amount_credited" numeric(12, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "voided_at" timestamp;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "void_reason" text;
+
+CREATE TABLE IF NOT EXISTS "credit_notes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id") ON DELETE cascade,
+  "customer_id" integer NOT NULL REFERENCES "customers"("id") ON DELETE cascade,
+  "credit_note_number" varchar(100) NOT NULL,
+  "kind" varchar(20) DEFAULT 'partial' NOT NULL,
+  "currency" varchar(10) DEFAULT 'GBP' NOT NULL,
+  "subtotal" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "tax_rate" numeric(5, 2) DEFAULT '0',
+  "tax_amount" numeric(12, 2) DEFAULT '0',
+  "total" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "amount_refunded" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "status" varchar(50) DEFAULT 'issued' NOT NULL,
+  "reason" text,
+  "issued_at" timestamp DEFAULT now() NOT NULL,
+  "sent_at" timestamp,
+  "created_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "credit_notes_company_idx" ON "credit_notes" ("company_id");
+CREATE INDEX IF NOT EXISTS "credit_notes_invoice_idx" ON "credit_notes" ("invoice_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "credit_notes_number_idx" ON "credit_notes" ("company_id", "credit_note_number");
+CREATE INDEX IF NOT EXISTS "credit_notes_issued_idx" ON "credit_notes" ("issued_at");
+
+CREATE TABLE IF NOT EXISTS "credit_note_items" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "credit_note_id" integer NOT NULL REFERENCES "credit_notes"("id") ON DELETE cascade,
+  "invoice_item_id" integer REFERENCES "invoice_items"("id") ON DELETE set null,
+  "title" varchar(255) NOT NULL,
+  "description" text,
+  "quantity" numeric(10, 2) DEFAULT '1' NOT NULL,
+  "unit_price" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "taxable" smallint DEFAULT 1,
+  "sort_order" integer DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS "credit_note_items_credit_note_idx" ON "credit_note_items" ("credit_note_id");
+CREATE INDEX IF NOT EXISTS "credit_note_items_invoice_item_idx" ON "credit_note_items" ("invoice_item_id");
+
+-- Refunds paid out against a credit note
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "credit_note_id" integer REFERENCES "credit_notes"("id") ON DELETE set null;
+CREATE INDEX IF NOT EXISTS "payments_credit_note_idx" ON "payments" ("credit_note_id");
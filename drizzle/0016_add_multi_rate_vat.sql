@@ -0,0 +1,16 @@
+-- Per-line VAT rates, VAT-inclusive pricing, reverse charge and reclaimable expense VAT
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "vat_settings" jsonb;
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "prices_include_vat" smallint DEFAULT 0 NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "reverse_charge" smallint DEFAULT 0 NOT NULL;
+
+ALTER TABLE "invoice_items" ADD COLUMN IF NOT EXISTS "vat_rate" varchar(20);
+ALTER TABLE "invoice_items" ADD COLUMN IF NOT EXISTS "tax_rate" numeric(5, 2);
+ALTER TABLE "invoice_items" ADD COLUMN IF NOT EXISTS "tax_amount" numeric(12, 2) DEFAULT '0' NOT NULL;
+
+ALTER TABLE "credit_note_items" ADD COLUMN IF NOT EXISTS "vat_rate" varchar(20);
+ALTER TABLE "credit_note_items" ADD COLUMN IF NOT EXISTS "tax_rate" numeric(5, 2);
+ALTER TABLE "credit_note_items" ADD COLUMN IF NOT EXISTS "tax_amount" numeric(12, 2) DEFAULT '0' NOT NULL;
+
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "vat_amount" numeric(12, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "vat_reclaimable" smallint DEFAULT 0 NOT NULL;
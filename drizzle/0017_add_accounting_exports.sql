@@ -0,0 +1,30 @@
+-- Chart of accounts mapping for accounting exports
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "accounting_settings" jsonb;
+
+CREATE TABLE IF NOT EXISTS "accounting_exports" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "format" varchar(20) NOT NULL,
+  "sources" jsonb NOT NULL,
+  "period_start" timestamp NOT NULL,
+  "period_end" timestamp NOT NULL,
+  "counts" jsonb,
+  "files" jsonb,
+  "created_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "accounting_exports_company_idx" ON "accounting_exports" ("company_id", "created_at");
+
+-- What has been exported, so rows are never posted twice
+CREATE TABLE IF NOT EXISTS "accounting_export_entries" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "export_id" integer NOT NULL REFERENCES "accounting_exports"("id") ON DELETE cascade,
+  "entity_type" varchar(20) NOT NULL,
+  "entity_id" integer NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "accounting_export_entries_entity_idx" ON "accounting_export_entries" ("company_id", "entity_type", "entity_id");
+CREATE INDEX IF NOT EXISTS "accounting_export_entries_export_idx" ON "accounting_export_entries" ("export_id");
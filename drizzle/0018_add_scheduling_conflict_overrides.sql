@@ -0,0 +1,13 @@
+-- Scheduling conflicts overridden by a manager, with the reason given
+CREATE TABLE IF NOT EXISTS "scheduling_conflict_overrides" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "entity_type" varchar(20) NOT NULL,
+  "entity_id" integer NOT NULL,
+  "conflicts" jsonb NOT NULL,
+  "reason" text NOT NULL,
+  "overridden_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "scheduling_conflict_overrides_entity_idx" ON "scheduling_conflict_overrides" ("company_id", "entity_type", "entity_id");
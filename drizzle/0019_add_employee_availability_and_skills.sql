@@ -0,0 +1,131 @@
+-- Structured availability, skills and certifications replacing the free-text employee columns
+CREATE TABLE IF NOT EXISTS "employee_availability_windows" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "day_of_week" smallint NOT NULL,
+  "start_time" varchar(5) NOT NULL,
+  "end_time" varchar(5) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "employee_availability_windows_employee_idx" ON "employee_availability_windows" ("employee_id", "day_of_week");
+
+CREATE TABLE IF NOT EXISTS "employee_availability_overrides" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "date" date NOT NULL,
+  "is_available" smallint DEFAULT 0 NOT NULL,
+  "start_time" varchar(5),
+  "end_time" varchar(5),
+  "reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "employee_availability_overrides_employee_date_idx" ON "employee_availability_overrides" ("employee_id", "date");
+
+CREATE TABLE IF NOT EXISTS "skills" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "name" varchar(100) NOT NULL,
+  "description" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "skills_company_name_idx" ON "skills" ("company_id", "name");
+
+CREATE TABLE IF NOT EXISTS "employee_skills" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "skill_id" integer NOT NULL REFERENCES "skills"("id") ON DELETE cascade,
+  "level" varchar(20) DEFAULT 'competent' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "employee_skills_employee_skill_idx" ON "employee_skills" ("employee_id", "skill_id");
+CREATE INDEX IF NOT EXISTS "employee_skills_skill_idx" ON "employee_skills" ("skill_id");
+
+CREATE TABLE IF NOT EXISTS "employee_certifications" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "name" varchar(255) NOT NULL,
+  "issuer" varchar(255),
+  "reference_number" varchar(100),
+  "issued_on" date,
+  "expires_on" date,
+  "attachment_id" integer REFERENCES "attachments"("id") ON DELETE set null,
+  "expiry_reminder_sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "employee_certifications_employee_idx" ON "employee_certifications" ("employee_id");
+CREATE INDEX IF NOT EXISTS "employee_certifications_expires_idx" ON "employee_certifications" ("company_id", "expires_on");
+
+-- Weekly availability was stored as JSON like {"mon":"available","tue":"am","wed":"unavailable"}.
+-- Whole days become 00:00-24:00, half days split at midday; anything that isn't valid JSON is dropped.
+DO $$
+DECLARE
+  employee_row record;
+  parsed jsonb;
+  day_key text;
+  day_number smallint;
+  day_status text;
+BEGIN
+  FOR employee_row IN
+    SELECT "id", "company_id", "availability" FROM "employees" WHERE "availability" IS NOT NULL
+  LOOP
+    BEGIN
+      parsed := employee_row."availability"::jsonb;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+    IF jsonb_typeof(parsed) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    FOR day_number, day_key IN
+      SELECT * FROM (VALUES (0::smallint, 'sun'), (1, 'mon'), (2, 'tue'), (3, 'wed'), (4, 'thu'), (5, 'fri'), (6, 'sat')) AS days
+    LOOP
+      day_status := coalesce(parsed ->> day_key, 'available');
+      IF day_status = 'unavailable' THEN
+        CONTINUE;
+      END IF;
+      INSERT INTO "employee_availability_windows" ("company_id", "employee_id", "day_of_week", "start_time", "end_time")
+      VALUES (
+        employee_row."company_id",
+        employee_row."id",
+        day_number,
+        CASE WHEN day_status = 'pm' THEN '12:00' ELSE '00:00' END,
+        CASE WHEN day_status = 'am' THEN '12:00' ELSE '24:00' END
+      );
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- Comma-separated skills seed each company's catalogue
+INSERT INTO "skills" ("company_id", "name")
+SELECT DISTINCT ON (e."company_id", lower(trim(s.name))) e."company_id", trim(s.name)
+FROM "employees" e, unnest(string_to_array(e."skills", ',')) AS s(name)
+WHERE trim(s.name) <> ''
+ORDER BY e."company_id", lower(trim(s.name)), trim(s.name)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "employee_skills" ("employee_id", "skill_id")
+SELECT DISTINCT e."id", sk."id"
+FROM "employees" e, unnest(string_to_array(e."skills", ',')) AS s(name), "skills" sk
+WHERE sk."company_id" = e."company_id" AND lower(sk."name") = lower(trim(s.name))
+ON CONFLICT DO NOTHING;
+
+-- Certifications had no dates, so they come across without an expiry
+INSERT INTO "employee_certifications" ("company_id", "employee_id", "name")
+SELECT DISTINCT e."company_id", e."id", trim(c.name)
+FROM "employees" e, unnest(string_to_array(e."certifications", ',')) AS c(name)
+WHERE trim(c.name) <> '';
+
+ALTER TABLE "employees" DROP COLUMN IF EXISTS "availability";
+ALTER TABLE "employees" DROP COLUMN IF EXISTS "skills";
+ALTER TABLE "employees" DROP COLUMN IF EXISTS "certifications";
@@ -0,0 +1,50 @@
+-- Payroll runs and payslips, with company pay rules for overtime, weekends, travel and mileage
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "payroll_settings" jsonb;
+
+CREATE TABLE IF NOT EXISTS "payroll_runs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "frequency" varchar(20) NOT NULL,
+  "period_start" date NOT NULL,
+  "period_end" date NOT NULL,
+  "status" varchar(20) DEFAULT 'draft' NOT NULL,
+  "currency" varchar(10) DEFAULT 'GBP' NOT NULL,
+  "total_gross" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "total_deductions" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "total_net" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "notes" text,
+  "created_by" integer REFERENCES "users"("id") ON DELETE set null,
+  "approved_by" integer REFERENCES "users"("id") ON DELETE set null,
+  "approved_at" timestamp,
+  "paid_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "payroll_runs_company_idx" ON "payroll_runs" ("company_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "payroll_runs_period_idx" ON "payroll_runs" ("company_id", "frequency", "period_start");
+
+CREATE TABLE IF NOT EXISTS "payslips" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "run_id" integer NOT NULL REFERENCES "payroll_runs"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "pay_type" varchar(20) NOT NULL,
+  "hours_worked" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "job_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "lines" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "adjustments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "warnings" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "gross_pay" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "deductions" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "net_pay" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "payout_id" integer REFERENCES "employee_payouts"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "payslips_run_employee_idx" ON "payslips" ("run_id", "employee_id");
+CREATE INDEX IF NOT EXISTS "payslips_employee_idx" ON "payslips" ("employee_id");
+
+-- "Hourly" was offered as a payment frequency but isn't a pay period; those staff are paid weekly
+UPDATE "employees" SET "payment_frequency" = 'weekly' WHERE "payment_frequency" = 'hourly';
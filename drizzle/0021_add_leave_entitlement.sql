@@ -0,0 +1,35 @@
+-- Holiday entitlement: company leave rules, bank holidays, balance adjustments and the days
+-- each approved holiday request took from the balance
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "leave_settings" jsonb;
+
+ALTER TABLE "employees" ADD COLUMN IF NOT EXISTS "contracted_hours_per_week" numeric(5, 2);
+ALTER TABLE "employees" ADD COLUMN IF NOT EXISTS "annual_leave_days" numeric(5, 1);
+
+ALTER TABLE "time_off_requests" ADD COLUMN IF NOT EXISTS "deducted_days" numeric(5, 1);
+
+-- Holidays approved before balances existed keep the days they were requested for
+UPDATE "time_off_requests" SET "deducted_days" = "total_days"
+WHERE "status" = 'approved' AND "type" = 'vacation' AND "deducted_days" IS NULL;
+
+CREATE TABLE IF NOT EXISTS "bank_holidays" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "date" date NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "bank_holidays_company_date_idx" ON "bank_holidays" ("company_id", "date");
+
+CREATE TABLE IF NOT EXISTS "leave_adjustments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "leave_year_start" date NOT NULL,
+  "days" numeric(5, 1) NOT NULL,
+  "reason" text NOT NULL,
+  "created_by" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "leave_adjustments_employee_year_idx" ON "leave_adjustments" ("employee_id", "leave_year_start");
@@ -0,0 +1,85 @@
+-- Timesheets: weekly submission and approval of work sessions, with breaks, shift links and edit history
+CREATE TABLE IF NOT EXISTS "timesheets" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "week_start" date NOT NULL,
+  "status" varchar(20) DEFAULT 'open' NOT NULL,
+  "worked_minutes" integer DEFAULT 0 NOT NULL,
+  "break_minutes" integer DEFAULT 0 NOT NULL,
+  "employee_notes" text,
+  "submitted_at" timestamp,
+  "reviewed_by" integer REFERENCES "users"("id") ON DELETE set null,
+  "reviewed_at" timestamp,
+  "review_comments" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "timesheets_company_idx" ON "timesheets" ("company_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "timesheets_employee_week_idx" ON "timesheets" ("employee_id", "week_start");
+CREATE INDEX IF NOT EXISTS "timesheets_status_idx" ON "timesheets" ("status");
+
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "timesheet_id" integer REFERENCES "timesheets"("id") ON DELETE set null;
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "shift_id" integer REFERENCES "shifts"("id") ON DELETE set null;
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "check_in_id" integer REFERENCES "job_check_ins"("id") ON DELETE set null;
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "break_minutes" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "clock_in_latitude" numeric(10, 7);
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "clock_in_longitude" numeric(10, 7);
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "clock_out_latitude" numeric(10, 7);
+ALTER TABLE "work_sessions" ADD COLUMN IF NOT EXISTS "clock_out_longitude" numeric(10, 7);
+
+CREATE INDEX IF NOT EXISTS "work_sessions_timesheet_idx" ON "work_sessions" ("timesheet_id");
+
+CREATE TABLE IF NOT EXISTS "work_session_breaks" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "work_session_id" integer NOT NULL REFERENCES "work_sessions"("id") ON DELETE cascade,
+  "started_at" timestamp NOT NULL,
+  "ended_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "work_session_breaks_session_idx" ON "work_session_breaks" ("work_session_id");
+
+CREATE TABLE IF NOT EXISTS "work_session_edits" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "work_session_id" integer NOT NULL REFERENCES "work_sessions"("id") ON DELETE cascade,
+  "edited_by" integer REFERENCES "users"("id") ON DELETE set null,
+  "edited_by_employee_id" integer REFERENCES "employees"("id") ON DELETE set null,
+  "reason" text,
+  "previous_values" jsonb NOT NULL,
+  "new_values" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "work_session_edits_session_idx" ON "work_session_edits" ("work_session_id");
+
+-- Existing sessions go on timesheets for their week (using the company's payroll week start).
+-- Past weeks are approved so payroll keeps paying them; the current week stays open.
+INSERT INTO "timesheets" ("company_id", "employee_id", "week_start", "status", "worked_minutes")
+SELECT
+  e."company_id",
+  ws."employee_id",
+  weeks."week_start",
+  CASE WHEN weeks."week_start" + 7 <= CURRENT_DATE THEN 'approved' ELSE 'open' END,
+  COALESCE(SUM(COALESCE(ws."duration_minutes", EXTRACT(EPOCH FROM (ws."ended_at" - ws."started_at")) / 60)), 0)::integer
+FROM "work_sessions" ws
+JOIN "employees" e ON e."id" = ws."employee_id"
+JOIN "companies" c ON c."id" = e."company_id"
+CROSS JOIN LATERAL (
+  SELECT ws."started_at"::date
+    - ((EXTRACT(DOW FROM ws."started_at")::integer - COALESCE((c."payroll_settings"->>'weekStartsOn')::integer, 1) + 7) % 7)
+    AS "week_start"
+) weeks
+GROUP BY e."company_id", ws."employee_id", weeks."week_start"
+ON CONFLICT ("employee_id", "week_start") DO NOTHING;
+
+UPDATE "work_sessions" ws
+SET "timesheet_id" = t."id"
+FROM "employees" e, "companies" c, "timesheets" t
+WHERE e."id" = ws."employee_id"
+  AND c."id" = e."company_id"
+  AND t."employee_id" = ws."employee_id"
+  AND t."week_start" = ws."started_at"::date
+    - ((EXTRACT(DOW FROM ws."started_at")::integer - COALESCE((c."payroll_settings"->>'weekStartsOn')::integer, 1) + 7) % 7)
+  AND ws."timesheet_id" IS NULL;
@@ -0,0 +1,9 @@
+-- Uploads move to private storage (lib/storage) and are served through signed URLs.
+-- Rows keep their old public URL until scripts/migrate-uploads-to-storage.ts moves the file.
+ALTER TABLE "attachments" ADD COLUMN IF NOT EXISTS "storage_key" varchar(500);
+ALTER TABLE "attachments" ADD COLUMN IF NOT EXISTS "thumbnail_key" varchar(500);
+ALTER TABLE "attachments" ALTER COLUMN "url" DROP NOT NULL;
+
+ALTER TABLE "task_verification_photos" ADD COLUMN IF NOT EXISTS "storage_key" varchar(500);
+ALTER TABLE "task_verification_photos" ADD COLUMN IF NOT EXISTS "thumbnail_key" varchar(500);
+ALTER TABLE "task_verification_photos" ALTER COLUMN "url" DROP NOT NULL;
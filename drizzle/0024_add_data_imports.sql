@@ -0,0 +1,38 @@
+-- Spreadsheet imports: parsed drafts with column mapping, and the records each commit wrote so it can be rolled back
+CREATE TABLE IF NOT EXISTS "data_imports" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "entity_type" varchar(20) NOT NULL,
+  "file_name" varchar(255) NOT NULL,
+  "status" varchar(20) DEFAULT 'draft' NOT NULL,
+  "headers" jsonb NOT NULL,
+  "rows" jsonb NOT NULL,
+  "column_mapping" jsonb,
+  "duplicate_mode" varchar(20) DEFAULT 'skip' NOT NULL,
+  "total_rows" integer DEFAULT 0 NOT NULL,
+  "created_count" integer DEFAULT 0 NOT NULL,
+  "updated_count" integer DEFAULT 0 NOT NULL,
+  "skipped_count" integer DEFAULT 0 NOT NULL,
+  "error_count" integer DEFAULT 0 NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "committed_at" timestamp,
+  "rolled_back_at" timestamp,
+  "rolled_back_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "data_imports_company_idx" ON "data_imports" ("company_id", "created_at");
+
+CREATE TABLE IF NOT EXISTS "data_import_records" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "import_id" integer NOT NULL REFERENCES "data_imports"("id") ON DELETE cascade,
+  "row_number" integer NOT NULL,
+  "entity_type" varchar(30) NOT NULL,
+  "entity_id" integer NOT NULL,
+  "action" varchar(20) NOT NULL,
+  "previous_values" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "data_import_records_import_idx" ON "data_import_records" ("import_id");
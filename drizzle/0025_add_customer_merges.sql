@@ -0,0 +1,31 @@
+-- Customer merges (kept so a merge can be undone) and pairs dismissed from duplicate detection
+CREATE TABLE IF NOT EXISTS "customer_merges" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "survivor_id" integer NOT NULL REFERENCES "customers"("id") ON DELETE cascade,
+  "merged_customer_id" integer NOT NULL REFERENCES "customers"("id") ON DELETE cascade,
+  "previous_status" varchar(50) NOT NULL,
+  "moved_records" jsonb NOT NULL,
+  "survivor_previous_values" jsonb,
+  "created_address_id" integer,
+  "merged_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "undone_at" timestamp,
+  "undone_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "customer_merges_company_idx" ON "customer_merges" ("company_id", "created_at");
+CREATE INDEX IF NOT EXISTS "customer_merges_survivor_idx" ON "customer_merges" ("survivor_id");
+CREATE INDEX IF NOT EXISTS "customer_merges_merged_idx" ON "customer_merges" ("merged_customer_id");
+
+CREATE TABLE IF NOT EXISTS "customer_duplicate_dismissals" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "customer_id" integer NOT NULL REFERENCES "customers"("id") ON DELETE cascade,
+  "other_customer_id" integer NOT NULL REFERENCES "customers"("id") ON DELETE cascade,
+  "dismissed_by_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "customer_duplicate_dismissals_pair_idx" ON "customer_duplicate_dismissals" ("customer_id", "other_customer_id");
+CREATE INDEX IF NOT EXISTS "customer_duplicate_dismissals_company_idx" ON "customer_duplicate_dismissals" ("company_id");
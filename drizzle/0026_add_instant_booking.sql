@@ -0,0 +1,21 @@
+-- Instant online booking: per-company booking rules and slots held during checkout
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "booking_settings" jsonb;
+
+CREATE TABLE IF NOT EXISTS "booking_holds" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "employee_id" integer NOT NULL REFERENCES "employees"("id") ON DELETE cascade,
+  "token" varchar(64) NOT NULL,
+  "starts_at" timestamp NOT NULL,
+  "ends_at" timestamp NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "status" varchar(20) DEFAULT 'held' NOT NULL,
+  "service_type" varchar(100),
+  "booking_request_id" integer REFERENCES "booking_requests"("id") ON DELETE set null,
+  "job_id" integer REFERENCES "jobs"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_holds_token_idx" ON "booking_holds" ("token");
+CREATE INDEX IF NOT EXISTS "booking_holds_company_start_idx" ON "booking_holds" ("company_id", "starts_at");
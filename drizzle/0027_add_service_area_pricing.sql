@@ -0,0 +1,10 @@
+-- Service areas: the area each job, booking request and quote surcharge line belongs to
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "service_area_id" integer REFERENCES "service_areas"("id") ON DELETE set null;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "area_surcharge" numeric(10, 2);
+CREATE INDEX IF NOT EXISTS "jobs_service_area_idx" ON "jobs" ("service_area_id");
+
+ALTER TABLE "booking_requests" ADD COLUMN IF NOT EXISTS "service_area_id" integer REFERENCES "service_areas"("id") ON DELETE set null;
+ALTER TABLE "booking_requests" ADD COLUMN IF NOT EXISTS "area_surcharge" numeric(10, 2);
+ALTER TABLE "booking_requests" ADD COLUMN IF NOT EXISTS "out_of_area" smallint DEFAULT 0;
+
+ALTER TABLE "quote_items" ADD COLUMN IF NOT EXISTS "service_area_id" integer REFERENCES "service_areas"("id") ON DELETE set null;
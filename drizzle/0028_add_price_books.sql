@@ -0,0 +1,4 @@
+-- Price books: per-company pricing, and the itemised quote behind booking estimates and job prices
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "price_book" jsonb;
+ALTER TABLE "booking_requests" ADD COLUMN IF NOT EXISTS "price_breakdown" jsonb;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "price_breakdown" jsonb;
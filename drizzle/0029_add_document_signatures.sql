@@ -0,0 +1,31 @@
+-- E-signatures: signing requests for contracts and quotes, and the audit trail of each signature
+CREATE TABLE IF NOT EXISTS "document_signatures" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "customer_id" integer REFERENCES "customers"("id") ON DELETE set null,
+  "document_type" varchar(20) NOT NULL,
+  "contract_id" integer REFERENCES "contracts"("id") ON DELETE cascade,
+  "quote_id" integer REFERENCES "quotes"("id") ON DELETE cascade,
+  "status" varchar(20) DEFAULT 'pending' NOT NULL,
+  "token" varchar(64) NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "sent_to" varchar(255),
+  "document_hash" varchar(64) NOT NULL,
+  "signature_type" varchar(20),
+  "signature_data" text,
+  "signer_name" varchar(255),
+  "signer_email" varchar(255),
+  "signing_method" varchar(20),
+  "ip_address" varchar(50),
+  "user_agent" text,
+  "signed_at" timestamp,
+  "signed_document_key" text,
+  "signed_document_hash" varchar(64),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "document_signatures_token_idx" ON "document_signatures" ("token");
+CREATE INDEX IF NOT EXISTS "document_signatures_company_idx" ON "document_signatures" ("company_id");
+CREATE INDEX IF NOT EXISTS "document_signatures_contract_idx" ON "document_signatures" ("contract_id");
+CREATE INDEX IF NOT EXISTS "document_signatures_quote_idx" ON "document_signatures" ("quote_id");
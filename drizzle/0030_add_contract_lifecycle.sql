@@ -0,0 +1,31 @@
+-- Contract lifecycle: renewal notices and uplifts, periodic billing, notice-period termination
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "billing_basis" varchar(20) DEFAULT 'fixed' NOT NULL;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "renewal_notice_days" integer DEFAULT 30 NOT NULL;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "renewal_term_months" integer;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "renewal_uplift_percent" numeric(5, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "renewal_notice_sent_at" timestamp;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "renewed_at" timestamp;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "notice_period_days" integer DEFAULT 30 NOT NULL;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "termination_requested_at" timestamp;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "termination_date" timestamp;
+ALTER TABLE "contracts" ADD COLUMN IF NOT EXISTS "termination_reason" text;
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "contract_id" integer REFERENCES "contracts"("id") ON DELETE set null;
+CREATE INDEX IF NOT EXISTS "invoices_contract_idx" ON "invoices" ("contract_id");
+
+-- Every lifecycle transition of a contract
+CREATE TABLE IF NOT EXISTS "contract_history" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "contract_id" integer NOT NULL REFERENCES "contracts"("id") ON DELETE cascade,
+  "user_id" integer REFERENCES "users"("id") ON DELETE set null,
+  "event" varchar(50) NOT NULL,
+  "from_status" varchar(50),
+  "to_status" varchar(50),
+  "description" text NOT NULL,
+  "metadata" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "contract_history_contract_idx" ON "contract_history" ("contract_id", "created_at");
+CREATE INDEX IF NOT EXISTS "contract_history_company_idx" ON "contract_history" ("company_id");
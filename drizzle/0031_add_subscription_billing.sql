@@ -0,0 +1,48 @@
+-- Customer self-service subscriptions: plans, saved cards, and one cycle per billed or skipped visit
+CREATE TABLE IF NOT EXISTS "subscription_plans" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "name" varchar(255) NOT NULL,
+  "description" text,
+  "amount" numeric(12, 2) NOT NULL,
+  "currency" varchar(10) DEFAULT 'GBP' NOT NULL,
+  "frequency" varchar(50) NOT NULL,
+  "duration_minutes" integer DEFAULT 120 NOT NULL,
+  "is_active" smallint DEFAULT 1 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "subscription_plans_company_idx" ON "subscription_plans" ("company_id");
+
+ALTER TABLE "customers" ADD COLUMN IF NOT EXISTS "stripe_customer_id" varchar(255);
+
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "stripe_payment_method_id" varchar(255);
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "card_brand" varchar(50);
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "card_last4" varchar(4);
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "plan_id" integer REFERENCES "subscription_plans"("id") ON DELETE set null;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "visit_duration_minutes" integer DEFAULT 120 NOT NULL;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "paused_at" timestamp;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "resume_at" timestamp;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "cancelled_at" timestamp;
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "cancellation_reason" text;
+
+CREATE TABLE IF NOT EXISTS "subscription_cycles" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "subscription_id" integer NOT NULL REFERENCES "subscriptions"("id") ON DELETE cascade,
+  "occurrence_at" timestamp NOT NULL,
+  "status" varchar(30) NOT NULL,
+  "job_id" integer REFERENCES "jobs"("id") ON DELETE set null,
+  "invoice_id" integer REFERENCES "invoices"("id") ON DELETE set null,
+  "stripe_payment_intent_id" varchar(255),
+  "payment_attempts" integer DEFAULT 0 NOT NULL,
+  "next_retry_at" timestamp,
+  "last_error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "subscription_cycles_occurrence_idx" ON "subscription_cycles" ("subscription_id", "occurrence_at");
+CREATE INDEX IF NOT EXISTS "subscription_cycles_company_idx" ON "subscription_cycles" ("company_id");
+CREATE INDEX IF NOT EXISTS "subscription_cycles_retry_idx" ON "subscription_cycles" ("status", "next_retry_at");
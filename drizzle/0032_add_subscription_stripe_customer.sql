@@ -0,0 +1,9 @@
+-- Subscriptions remember the Stripe customer their card was saved to, so charges don't depend on
+-- the customer record still pointing at the same Stripe customer
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "stripe_customer_id" varchar(255);
+
+UPDATE "subscriptions" SET "stripe_customer_id" = "customers"."stripe_customer_id"
+FROM "customers"
+WHERE "subscriptions"."customer_id" = "customers"."id"
+  AND "subscriptions"."stripe_payment_method_id" IS NOT NULL
+  AND "subscriptions"."stripe_customer_id" IS NULL;
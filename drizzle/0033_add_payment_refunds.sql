@@ -0,0 +1,19 @@
+-- Card refunds as their own records, so the accounting export can post refunds that land after
+-- their payment was exported
+CREATE TABLE IF NOT EXISTS "payment_refunds" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "company_id" integer NOT NULL REFERENCES "companies"("id") ON DELETE cascade,
+  "payment_id" integer NOT NULL REFERENCES "payments"("id") ON DELETE cascade,
+  "amount" numeric(12, 2) NOT NULL,
+  "refunded_at" timestamp DEFAULT now() NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "payment_refunds_payment_idx" ON "payment_refunds" ("payment_id");
+CREATE INDEX IF NOT EXISTS "payment_refunds_company_refunded_at_idx" ON "payment_refunds" ("company_id", "refunded_at");
+
+-- Refunds recorded before this table existed, dated when the payment was last updated
+INSERT INTO "payment_refunds" ("company_id", "payment_id", "amount", "refunded_at")
+SELECT "company_id", "id", "refunded_amount", "updated_at"
+FROM "payments"
+WHERE "refunded_amount" > 0
+  AND NOT EXISTS (SELECT 1 FROM "payment_refunds" WHERE "payment_refunds"."payment_id" = "payments"."id");
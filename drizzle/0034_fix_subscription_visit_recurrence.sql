@@ -0,0 +1,6 @@
+-- Subscription visits were booked with the subscription's frequency as their recurrence, so each
+-- one-off visit was listed as a recurring series of its own
+UPDATE "jobs" SET "recurrence" = 'none', "updated_at" = now()
+FROM "subscription_cycles"
+WHERE "subscription_cycles"."job_id" = "jobs"."id"
+  AND "jobs"."recurrence" <> 'none';
@@ -0,0 +1,107 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { sql, type SQL } from "drizzle-orm"
+import { PgDialect, type PgTable } from "drizzle-orm/pg-core"
+import type { DbExecutor } from "@/lib/db"
+import { schema } from "@/lib/db"
+import { collectUnexported } from "@/lib/accounting-export"
+
+const period = { start: new Date(2026, 2, 1), end: new Date(2026, 3, 1) }
+
+const invoiceDetails = { invoiceNumber: "INV-0001", customerFirstName: "Jane", customerLastName: "Smith" }
+
+function payment(id: number, status: string, amount: string, refundedAmount = "0") {
+  return {
+    payment: {
+      id,
+      status,
+      amount,
+      refundedAmount,
+      paidAt: new Date(2026, 2, id),
+      currency: "GBP",
+      method: "card",
+      reference: null,
+      transactionId: `pi_${id}`,
+    },
+    ...invoiceDetails,
+  }
+}
+
+function refund(id: number, paymentRow: ReturnType<typeof payment>, amount: string, refundedAt: Date) {
+  return { refund: { id, amount, refundedAt }, payment: paymentRow.payment, ...invoiceDetails }
+}
+
+// A database holding the given payments and refunds, none of them exported yet. The payment
+// query's statuses are read from its WHERE clause so only those payments come back.
+function stubExecutor(payments: Array<ReturnType<typeof payment>>, refunds: Array<ReturnType<typeof refund>>) {
+  const dialect = new PgDialect()
+  const rowsFor = (table: PgTable, condition: SQL) => {
+    if (table === schema.paymentRefunds) return refunds
+    const { params } = dialect.sqlToQuery(condition)
+    return payments.filter((row) => params.includes(row.payment.status))
+  }
+
+  return {
+    select: () => ({
+      from: (table: PgTable) => {
+        // The "not already exported" subquery
+        if (table === schema.accountingExportEntries) {
+          return { where: () => sql`select 1` }
+        }
+        const query = {
+          innerJoin: () => query,
+          where: (condition: SQL) => ({ orderBy: async () => rowsFor(table, condition) }),
+        }
+        return query
+      },
+    }),
+  } as unknown as DbExecutor
+}
+
+const summarize = (rows: Awaited<ReturnType<typeof collectUnexported>>) =>
+  rows.payments.map((row) => [row.entityType, row.id, row.amount])
+
+describe("collectUnexported payments", () => {
+  test("exports partially and fully refunded payments at what was paid", async () => {
+    const executor = stubExecutor(
+      [
+        payment(1, "completed", "100.00"),
+        payment(2, "partially_refunded", "80.00", "30.00"),
+        payment(3, "refunded", "50.00", "50.00"),
+        payment(4, "failed", "20.00"),
+        payment(5, "pending", "20.00"),
+      ],
+      [],
+    )
+
+    const rows = await collectUnexported(executor, 1, ["payments"], period)
+    assert.deepEqual(summarize(rows), [
+      ["payment", 1, 100],
+      ["payment", 2, 80],
+      ["payment", 3, 50],
+    ])
+  })
+
+  test("posts a refund as its own entry, so a fully refunded payment nets to zero", async () => {
+    const paid = payment(3, "refunded", "50.00", "50.00")
+    const executor = stubExecutor([paid], [refund(7, paid, "50.00", new Date(2026, 2, 10))])
+
+    const rows = await collectUnexported(executor, 1, ["payments"], period)
+    assert.deepEqual(summarize(rows), [
+      ["payment", 3, 50],
+      ["refund", 7, -50],
+    ])
+    assert.equal(rows.payments.reduce((sum, row) => sum + row.amount, 0), 0)
+    assert.equal(rows.payments[1].paidAt.getTime(), new Date(2026, 2, 10).getTime())
+  })
+
+  test("exports a refund made after its payment was exported", async () => {
+    // The payment went out in February's export, so only the refund is new
+    const paid = payment(2, "partially_refunded", "80.00", "30.00")
+    const executor = stubExecutor([], [refund(8, paid, "30.00", new Date(2026, 2, 20))])
+
+    const rows = await collectUnexported(executor, 1, ["payments"], period)
+    assert.deepEqual(summarize(rows), [["refund", 8, -30]])
+    assert.equal(rows.payments[0].invoiceNumber, "INV-0001")
+  })
+})
@@ -0,0 +1,1015 @@
+import { and, asc, desc, eq, gte, inArray, isNotNull, lt, notExists, notInArray } from "drizzle-orm"
+import type { AnyColumn } from "drizzle-orm"
+import { format } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { AccountingExport } from "@/lib/db/schema"
+import {
+  ACCOUNTING_EXPORT_FORMATS,
+  ACCOUNTING_EXPORT_SOURCES,
+  getExpenseAccount,
+  normalizeAccountingSettings,
+  type AccountingExportFormat,
+  type AccountingExportSource,
+  type CompanyAccountingSettings,
+} from "@/lib/accounting-settings"
+import { calculateInvoiceTotals, type CompanyVatSettings, type VatLineTotals } from "@/lib/vat-settings"
+import { getVatSettings } from "@/lib/vat"
+
+// Invoices that were never sent have nothing to post
+const UNEXPORTABLE_INVOICE_STATUSES = ["draft", "cancelled"]
+
+// Refunded payments still took the money; their refunds are posted separately
+const EXPORTABLE_PAYMENT_STATUSES = ["completed", "partially_refunded", "refunded"]
+
+export type AccountingEntityType = "invoice" | "credit_note" | "payment" | "refund" | "expense" | "payout"
+
+const sourceEntityTypes: Record<AccountingExportSource, AccountingEntityType[]> = {
+  invoices: ["invoice", "credit_note"],
+  payments: ["payment", "refund"],
+  expenses: ["expense"],
+  payouts: ["payout"],
+}
+
+export class AccountingExportError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "AccountingExportError"
+  }
+}
+
+export interface AccountingExportPeriod {
+  start: Date
+  // Exclusive
+  end: Date
+}
+
+export interface AccountingExportFile {
+  name: string
+  mimeType: string
+  content: string
+}
+
+export interface CreateAccountingExportInput {
+  format: AccountingExportFormat
+  sources: AccountingExportSource[]
+  period: AccountingExportPeriod
+  createdById?: number | null
+}
+
+export type AccountingExportCounts = Record<AccountingEntityType, number>
+
+interface SalesLine {
+  title: string
+  description: string | null
+  quantity: number
+  unitPrice: number
+  // Rate code the line was saved with, for the tax type
+  vatRate: string | null
+  totals: VatLineTotals
+}
+
+interface SalesDocument {
+  entityType: "invoice" | "credit_note"
+  id: number
+  number: string
+  // Invoice the credit note corrects
+  invoiceNumber: string | null
+  customerName: string
+  customerEmail: string
+  currency: string
+  issuedAt: Date
+  dueAt: Date
+  pricesIncludeVat: boolean
+  reverseCharge: boolean
+  lines: SalesLine[]
+  discount: number
+  tax: number
+  total: number
+}
+
+interface PaymentRow {
+  // Card refunds are their own rows, so one made after its payment was exported is still posted
+  entityType: "payment" | "refund"
+  id: number
+  paidAt: Date
+  // Refunds, both card refunds and those paid out against credit notes, are negative
+  amount: number
+  currency: string
+  method: string
+  reference: string | null
+  invoiceNumber: string
+  customerName: string
+}
+
+interface ExpenseRow {
+  id: number
+  expenseDate: Date
+  category: string
+  description: string
+  vendor: string | null
+  receiptNumber: string | null
+  amount: number
+  vatAmount: number
+  vatReclaimable: boolean
+  currency: string
+}
+
+interface PayoutRow {
+  id: number
+  paidAt: Date
+  amount: number
+  currency: string
+  employeeName: string
+  periodStart: Date
+  periodEnd: Date
+  reference: string | null
+}
+
+interface ExportRows {
+  sales: SalesDocument[]
+  payments: PaymentRow[]
+  expenses: ExpenseRow[]
+  payouts: PayoutRow[]
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function money(value: number) {
+  return roundMoney(value).toFixed(2)
+}
+
+function formatRate(rate: number) {
+  return String(Number(rate.toFixed(2)))
+}
+
+export function isAccountingExportFormat(value: unknown): value is AccountingExportFormat {
+  return typeof value === "string" && ACCOUNTING_EXPORT_FORMATS.includes(value as AccountingExportFormat)
+}
+
+export function isAccountingExportSource(value: unknown): value is AccountingExportSource {
+  return typeof value === "string" && ACCOUNTING_EXPORT_SOURCES.includes(value as AccountingExportSource)
+}
+
+/**
+ * Turn inclusive yyyy-MM-dd start and end days into an export period
+ */
+export function parseAccountingExportPeriod(startDate: unknown, endDate: unknown): AccountingExportPeriod {
+  if (typeof startDate !== "string" || typeof endDate !== "string" || !startDate || !endDate) {
+    throw new AccountingExportError("Both startDate and endDate are required")
+  }
+
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) {
+    throw new AccountingExportError("Invalid date range")
+  }
+
+  // endDate is the last day of the period
+  start.setHours(0, 0, 0, 0)
+  end.setHours(0, 0, 0, 0)
+  end.setDate(end.getDate() + 1)
+  return { start, end }
+}
+
+export async function getAccountingSettings(
+  executor: DbExecutor,
+  companyId: number,
+): Promise<CompanyAccountingSettings> {
+  const company = await executor.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+    columns: { accountingSettings: true },
+  })
+  return normalizeAccountingSettings(company?.accountingSettings)
+}
+
+function notExported(executor: DbExecutor, companyId: number, entityType: AccountingEntityType, idColumn: AnyColumn) {
+  const entries = schema.accountingExportEntries
+  return notExists(
+    executor
+      .select({ id: entries.id })
+      .from(entries)
+      .where(and(eq(entries.companyId, companyId), eq(entries.entityType, entityType), eq(entries.entityId, idColumn))),
+  )
+}
+
+function buildSalesLines(
+  items: Array<{
+    title: string
+    description: string | null
+    quantity: string
+    unitPrice: string
+    taxable: number | null
+    vatRate: string | null
+    taxRate: string | null
+  }>,
+  options: { taxRate: string | null; pricesIncludeVat: boolean; reverseCharge: boolean },
+): SalesLine[] {
+  // Lines carry the percentage they were charged at, so the current company rates don't matter here
+  const totals = calculateInvoiceTotals(
+    items.map((item) => ({ ...item, vatRate: null })),
+    {
+      taxRate: parseFloat(options.taxRate || "0"),
+      pricesIncludeVat: options.pricesIncludeVat,
+      reverseCharge: options.reverseCharge,
+    },
+  )
+
+  return items.map((item, index) => ({
+    title: item.title,
+    description: item.description,
+    quantity: parseFloat(item.quantity),
+    unitPrice: parseFloat(item.unitPrice),
+    vatRate: item.vatRate,
+    totals: totals.lines[index],
+  }))
+}
+
+async function collectSales(
+  executor: DbExecutor,
+  companyId: number,
+  period: AccountingExportPeriod,
+): Promise<SalesDocument[]> {
+  const { invoices, invoiceItems, creditNotes, creditNoteItems, customers } = schema
+
+  const invoiceRows = await executor
+    .select({
+      invoice: invoices,
+      customerFirstName: customers.firstName,
+      customerLastName: customers.lastName,
+      customerEmail: customers.email,
+    })
+    .from(invoices)
+    .innerJoin(customers, eq(invoices.customerId, customers.id))
+    .where(
+      and(
+        eq(invoices.companyId, companyId),
+        notInArray(invoices.status, UNEXPORTABLE_INVOICE_STATUSES),
+        isNotNull(invoices.issuedAt),
+        gte(invoices.issuedAt, period.start),
+        lt(invoices.issuedAt, period.end),
+        notExported(executor, companyId, "invoice", invoices.id),
+      ),
+    )
+    .orderBy(asc(invoices.issuedAt), asc(invoices.id))
+
+  const creditNoteRows = await executor
+    .select({
+      creditNote: creditNotes,
+      invoiceNumber: invoices.invoiceNumber,
+      invoiceTaxRate: invoices.taxRate,
+      pricesIncludeVat: invoices.pricesIncludeVat,
+      reverseCharge: invoices.reverseCharge,
+      customerFirstName: customers.firstName,
+      customerLastName: customers.lastName,
+      customerEmail: customers.email,
+    })
+    .from(creditNotes)
+    .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+    .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+    .where(
+      and(
+        eq(creditNotes.companyId, companyId),
+        gte(creditNotes.issuedAt, period.start),
+        lt(creditNotes.issuedAt, period.end),
+        notExported(executor, companyId, "credit_note", creditNotes.id),
+      ),
+    )
+    .orderBy(asc(creditNotes.issuedAt), asc(creditNotes.id))
+
+  const invoiceIds = invoiceRows.map((row) => row.invoice.id)
+  const creditNoteIds = creditNoteRows.map((row) => row.creditNote.id)
+
+  const allInvoiceItems = invoiceIds.length
+    ? await executor
+        .select()
+        .from(invoiceItems)
+        .where(inArray(invoiceItems.invoiceId, invoiceIds))
+        .orderBy(asc(invoiceItems.sortOrder), asc(invoiceItems.id))
+    : []
+
+  const allCreditNoteItems = creditNoteIds.length
+    ? await executor
+        .select()
+        .from(creditNoteItems)
+        .where(inArray(creditNoteItems.creditNoteId, creditNoteIds))
+        .orderBy(asc(creditNoteItems.sortOrder), asc(creditNoteItems.id))
+    : []
+
+  const documents: SalesDocument[] = invoiceRows.map(({ invoice, ...customer }) => {
+    const pricesIncludeVat = invoice.pricesIncludeVat === 1
+    const reverseCharge = invoice.reverseCharge === 1
+    const issuedAt = invoice.issuedAt as Date
+
+    return {
+      entityType: "invoice",
+      id: invoice.id,
+      number: invoice.invoiceNumber,
+      invoiceNumber: null,
+      customerName: `${customer.customerFirstName} ${customer.customerLastName}`.trim(),
+      customerEmail: customer.customerEmail,
+      currency: invoice.currency,
+      issuedAt,
+      dueAt: invoice.dueAt ?? issuedAt,
+      pricesIncludeVat,
+      reverseCharge,
+      lines: buildSalesLines(
+        allInvoiceItems.filter((item) => item.invoiceId === invoice.id),
+        { taxRate: invoice.taxRate, pricesIncludeVat, reverseCharge },
+      ),
+      discount: parseFloat(invoice.discountAmount || "0"),
+      tax: parseFloat(invoice.taxAmount || "0"),
+      total: parseFloat(invoice.total),
+    }
+  })
+
+  for (const row of creditNoteRows) {
+    const { creditNote } = row
+    const pricesIncludeVat = row.pricesIncludeVat === 1
+    const reverseCharge = row.reverseCharge === 1
+
+    documents.push({
+      entityType: "credit_note",
+      id: creditNote.id,
+      number: creditNote.creditNoteNumber,
+      invoiceNumber: row.invoiceNumber,
+      customerName: `${row.customerFirstName} ${row.customerLastName}`.trim(),
+      customerEmail: row.customerEmail,
+      currency: creditNote.currency,
+      issuedAt: creditNote.issuedAt,
+      dueAt: creditNote.issuedAt,
+      pricesIncludeVat,
+      reverseCharge,
+      lines: buildSalesLines(
+        allCreditNoteItems.filter((item) => item.creditNoteId === creditNote.id),
+        { taxRate: row.invoiceTaxRate, pricesIncludeVat, reverseCharge },
+      ),
+      discount: 0,
+      tax: parseFloat(creditNote.taxAmount || "0"),
+      total: parseFloat(creditNote.total),
+    })
+  }
+
+  return documents
+}
+
+async function collectPayments(
+  executor: DbExecutor,
+  companyId: number,
+  period: AccountingExportPeriod,
+): Promise<PaymentRow[]> {
+  const { payments, invoices, customers } = schema
+
+  const rows = await executor
+    .select({
+      payment: payments,
+      invoiceNumber: invoices.invoiceNumber,
+      customerFirstName: customers.firstName,
+      customerLastName: customers.lastName,
+    })
+    .from(payments)
+    .innerJoin(invoices, eq(payments.invoiceId, invoices.id))
+    .innerJoin(customers, eq(payments.customerId, customers.id))
+    .where(
+      and(
+        eq(payments.companyId, companyId),
+        inArray(payments.status, EXPORTABLE_PAYMENT_STATUSES),
+        gte(payments.paidAt, period.start),
+        lt(payments.paidAt, period.end),
+        notExported(executor, companyId, "payment", payments.id),
+      ),
+    )
+    .orderBy(asc(payments.paidAt), asc(payments.id))
+
+  return rows.map(({ payment, ...row }) => ({
+    entityType: "payment" as const,
+    id: payment.id,
+    paidAt: payment.paidAt,
+    amount: parseFloat(payment.amount),
+    currency: payment.currency,
+    method: payment.method,
+    reference: payment.reference || payment.transactionId,
+    invoiceNumber: row.invoiceNumber,
+    customerName: `${row.customerFirstName} ${row.customerLastName}`.trim(),
+  }))
+}
+
+async function collectRefunds(
+  executor: DbExecutor,
+  companyId: number,
+  period: AccountingExportPeriod,
+): Promise<PaymentRow[]> {
+  const { paymentRefunds, payments, invoices, customers } = schema
+
+  const rows = await executor
+    .select({
+      refund: paymentRefunds,
+      payment: payments,
+      invoiceNumber: invoices.invoiceNumber,
+      customerFirstName: customers.firstName,
+      customerLastName: customers.lastName,
+    })
+    .from(paymentRefunds)
+    .innerJoin(payments, eq(paymentRefunds.paymentId, payments.id))
+    .innerJoin(invoices, eq(payments.invoiceId, invoices.id))
+    .innerJoin(customers, eq(payments.customerId, customers.id))
+    .where(
+      and(
+        eq(paymentRefunds.companyId, companyId),
+        gte(paymentRefunds.refundedAt, period.start),
+        lt(paymentRefunds.refundedAt, period.end),
+        notExported(executor, companyId, "refund", paymentRefunds.id),
+      ),
+    )
+    .orderBy(asc(paymentRefunds.refundedAt), asc(paymentRefunds.id))
+
+  return rows.map(({ refund, payment, ...row }) => ({
+    entityType: "refund" as const,
+    id: refund.id,
+    paidAt: refund.refundedAt,
+    amount: -parseFloat(refund.amount),
+    currency: payment.currency,
+    method: payment.method,
+    reference: payment.reference || payment.transactionId,
+    invoiceNumber: row.invoiceNumber,
+    customerName: `${row.customerFirstName} ${row.customerLastName}`.trim(),
+  }))
+}
+
+async function collectExpenses(
+  executor: DbExecutor,
+  companyId: number,
+  period: AccountingExportPeriod,
+): Promise<ExpenseRow[]> {
+  const { expenses } = schema
+
+  const rows = await executor
+    .select()
+    .from(expenses)
+    .where(
+      and(
+        eq(expenses.companyId, companyId),
+        gte(expenses.expenseDate, period.start),
+        lt(expenses.expenseDate, period.end),
+        notExported(executor, companyId, "expense", expenses.id),
+      ),
+    )
+    .orderBy(asc(expenses.expenseDate), asc(expenses.id))
+
+  return rows.map((expense) => ({
+    id: expense.id,
+    expenseDate: expense.expenseDate,
+    category: expense.category,
+    description: expense.description,
+    vendor: expense.vendor,
+    receiptNumber: expense.receiptNumber,
+    amount: parseFloat(expense.amount),
+    vatAmount: parseFloat(expense.vatAmount || "0"),
+    vatReclaimable: expense.vatReclaimable === 1,
+    currency: expense.currency,
+  }))
+}
+
+async function collectPayouts(
+  executor: DbExecutor,
+  companyId: number,
+  period: AccountingExportPeriod,
+): Promise<PayoutRow[]> {
+  const { employeePayouts, employees } = schema
+
+  const rows = await executor
+    .select({
+      payout: employeePayouts,
+      employeeFirstName: employees.firstName,
+      employeeLastName: employees.lastName,
+    })
+    .from(employeePayouts)
+    .innerJoin(employees, eq(employeePayouts.employeeId, employees.id))
+    .where(
+      and(
+        eq(employeePayouts.companyId, companyId),
+        eq(employeePayouts.status, "paid"),
+        isNotNull(employeePayouts.paidAt),
+        gte(employeePayouts.paidAt, period.start),
+        lt(employeePayouts.paidAt, period.end),
+        notExported(executor, companyId, "payout", employeePayouts.id),
+      ),
+    )
+    .orderBy(asc(employeePayouts.paidAt), asc(employeePayouts.id))
+
+  return rows.map(({ payout, ...row }) => ({
+    id: payout.id,
+    paidAt: payout.paidAt as Date,
+    amount: parseFloat(payout.amount),
+    currency: payout.currency,
+    employeeName: `${row.employeeFirstName} ${row.employeeLastName}`.trim(),
+    periodStart: payout.periodStart,
+    periodEnd: payout.periodEnd,
+    reference: payout.transactionReference,
+  }))
+}
+
+/**
+ * Records in the period that haven't been included in an earlier export
+ */
+export async function collectUnexported(
+  executor: DbExecutor,
+  companyId: number,
+  sources: AccountingExportSource[],
+  period: AccountingExportPeriod,
+): Promise<ExportRows> {
+  return {
+    sales: sources.includes("invoices") ? await collectSales(executor, companyId, period) : [],
+    payments: sources.includes("payments")
+      ? [...(await collectPayments(executor, companyId, period)), ...(await collectRefunds(executor, companyId, period))]
+          .sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime())
+      : [],
+    expenses: sources.includes("expenses") ? await collectExpenses(executor, companyId, period) : [],
+    payouts: sources.includes("payouts") ? await collectPayouts(executor, companyId, period) : [],
+  }
+}
+
+function countRows(rows: ExportRows): AccountingExportCounts {
+  return {
+    invoice: rows.sales.filter((doc) => doc.entityType === "invoice").length,
+    credit_note: rows.sales.filter((doc) => doc.entityType === "credit_note").length,
+    payment: rows.payments.filter((payment) => payment.entityType === "payment").length,
+    refund: rows.payments.filter((payment) => payment.entityType === "refund").length,
+    expense: rows.expenses.length,
+    payout: rows.payouts.length,
+  }
+}
+
+function listEntities(rows: ExportRows): Array<{ entityType: AccountingEntityType; entityId: number }> {
+  return [
+    ...rows.sales.map((doc) => ({ entityType: doc.entityType, entityId: doc.id })),
+    ...rows.payments.map((payment) => ({ entityType: payment.entityType, entityId: payment.id })),
+    ...rows.expenses.map((expense) => ({ entityType: "expense" as const, entityId: expense.id })),
+    ...rows.payouts.map((payout) => ({ entityType: "payout" as const, entityId: payout.id })),
+  ]
+}
+
+// Expense VAT is only stored as an amount, so take the company rate closest to what was paid
+function guessExpenseVatRate(expense: ExpenseRow, vatSettings: CompanyVatSettings) {
+  const net = expense.amount - expense.vatAmount
+  const paidRate = net > 0 ? (expense.vatAmount / net) * 100 : 0
+  const rates = [vatSettings.standardRate, vatSettings.reducedRate]
+  return rates.reduce((closest, rate) => (Math.abs(rate - paidRate) < Math.abs(closest - paidRate) ? rate : closest))
+}
+
+function csvEscape(value: string | number | null | undefined) {
+  return `"${String(value ?? "").replace(/"/g, '""')}"`
+}
+
+function toCsv(rows: Array<Array<string | number | null | undefined>>) {
+  return rows.map((row) => row.map(csvEscape).join(",")).join("\n")
+}
+
+// Xero imports dates in the organisation's region; UK organisations use day first
+function xeroDate(date: Date) {
+  return format(date, "dd/MM/yyyy")
+}
+
+function xeroSalesTaxType(line: SalesLine, reverseCharge: boolean) {
+  const rate = line.totals.taxRate
+  if (reverseCharge) {
+    return rate > 0 ? `Domestic Reverse Charge @ ${formatRate(rate)}% (VAT on Income)` : "No VAT"
+  }
+  if (line.vatRate === "zero") return "Zero Rated Income"
+  if (line.vatRate === "exempt") return "Exempt Income"
+  return rate > 0 ? `${formatRate(rate)}% (VAT on Income)` : "No VAT"
+}
+
+/**
+ * Sales invoice import. Credit notes go in the same file with negative amounts, which Xero imports
+ * as credit notes. Amounts are tax exclusive.
+ */
+function buildXeroSalesCsv(documents: SalesDocument[], settings: CompanyAccountingSettings) {
+  const rows: Array<Array<string | number | null>> = [
+    [
+      "*ContactName",
+      "EmailAddress",
+      "*InvoiceNumber",
+      "Reference",
+      "*InvoiceDate",
+      "*DueDate",
+      "Description",
+      "*Quantity",
+      "*UnitAmount",
+      "*AccountCode",
+      "*TaxType",
+      "TaxAmount",
+      "Currency",
+    ],
+  ]
+
+  for (const doc of documents) {
+    const sign = doc.entityType === "credit_note" ? -1 : 1
+    const base = [doc.customerName, doc.customerEmail, doc.number, doc.invoiceNumber ?? ""]
+
+    for (const line of doc.lines) {
+      const description = line.description ? `${line.title} - ${line.description}` : line.title
+      // With VAT-inclusive prices the net unit price isn't exact, so post the line as a single net amount
+      const [quantity, unitAmount, lineDescription] = doc.pricesIncludeVat
+        ? [1, line.totals.net, `${description} (${line.quantity} x ${money(line.unitPrice)} inc. VAT)`]
+        : [line.quantity, line.unitPrice, description]
+
+      rows.push([
+        ...base,
+        xeroDate(doc.issuedAt),
+        xeroDate(doc.dueAt),
+        lineDescription,
+        quantity,
+        money(sign * unitAmount),
+        settings.salesAccount,
+        xeroSalesTaxType(line, doc.reverseCharge),
+        money(sign * line.totals.tax),
+        doc.currency,
+      ])
+    }
+
+    if (doc.discount > 0) {
+      rows.push([
+        ...base,
+        xeroDate(doc.issuedAt),
+        xeroDate(doc.dueAt),
+        "Discount",
+        1,
+        money(-sign * doc.discount),
+        settings.salesAccount,
+        "No VAT",
+        "0.00",
+        doc.currency,
+      ])
+    }
+  }
+
+  return toCsv(rows)
+}
+
+// Bank statement import, to reconcile against the imported invoices
+function buildXeroPaymentsCsv(payments: PaymentRow[]) {
+  return toCsv([
+    ["*Date", "*Amount", "Payee", "Description", "Reference"],
+    ...payments.map((payment) => [
+      xeroDate(payment.paidAt),
+      money(payment.amount),
+      payment.customerName,
+      `${payment.amount < 0 ? "Refund" : "Payment"} for ${payment.invoiceNumber} (${payment.method})`,
+      payment.reference || payment.invoiceNumber,
+    ]),
+  ])
+}
+
+// Purchase bill import, one bill per expense with the reclaimable VAT on the line
+function buildXeroBillsCsv(
+  expenses: ExpenseRow[],
+  settings: CompanyAccountingSettings,
+  vatSettings: CompanyVatSettings,
+) {
+  return toCsv([
+    [
+      "*ContactName",
+      "*InvoiceNumber",
+      "*InvoiceDate",
+      "*DueDate",
+      "Description",
+      "*Quantity",
+      "*UnitAmount",
+      "*AccountCode",
+      "*TaxType",
+      "TaxAmount",
+      "Currency",
+    ],
+    ...expenses.map((expense) => {
+      const reclaim = expense.vatReclaimable && expense.vatAmount > 0
+      return [
+        expense.vendor || "Sundry supplier",
+        expense.receiptNumber || `EXP-${expense.id}`,
+        xeroDate(expense.expenseDate),
+        xeroDate(expense.expenseDate),
+        expense.description,
+        1,
+        money(reclaim ? expense.amount - expense.vatAmount : expense.amount),
+        getExpenseAccount(settings, expense.category),
+        reclaim ? `${formatRate(guessExpenseVatRate(expense, vatSettings))}% (VAT on Expenses)` : "No VAT",
+        money(reclaim ? expense.vatAmount : 0),
+        expense.currency,
+      ]
+    }),
+  ])
+}
+
+// Manual journals moving each payout from the bank to wages
+function buildXeroPayoutJournalsCsv(payouts: PayoutRow[], settings: CompanyAccountingSettings) {
+  const rows: Array<Array<string | number | null>> = [
+    ["*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount"],
+  ]
+
+  for (const payout of payouts) {
+    const narration = `Payout to ${payout.employeeName} for ${xeroDate(payout.periodStart)} - ${xeroDate(payout.periodEnd)}`
+    const description = payout.reference || `PAYOUT-${payout.id}`
+    rows.push([narration, xeroDate(payout.paidAt), description, settings.wagesAccount, "No VAT", money(payout.amount)])
+    rows.push([narration, xeroDate(payout.paidAt), description, settings.bankAccount, "No VAT", money(-payout.amount)])
+  }
+
+  return toCsv(rows)
+}
+
+// IIF fields are tab separated, one record per line
+function iifValue(value: string | number | null | undefined) {
+  return String(value ?? "").replace(/[\t\r\n]+/g, " ").trim()
+}
+
+function iifDate(date: Date) {
+  return format(date, "MM/dd/yyyy")
+}
+
+interface IifSplit {
+  account: string
+  amount: number
+  memo?: string
+}
+
+interface IifTransaction {
+  type: string
+  date: Date
+  account: string
+  name: string
+  amount: number
+  docNumber: string
+  memo: string
+  splits: IifSplit[]
+}
+
+function iifTransactionLines(trns: IifTransaction) {
+  const fields = (kind: "TRNS" | "SPL", account: string, amount: number, memo: string) =>
+    [kind, trns.type, iifDate(trns.date), account, trns.name, money(amount), trns.docNumber, memo]
+      .map(iifValue)
+      .join("\t")
+
+  // Splits must balance the transaction line exactly; rounding differences go on the first split
+  const splits = trns.splits.filter((split) => roundMoney(split.amount) !== 0)
+  const difference = roundMoney(-trns.amount - splits.reduce((sum, split) => sum + roundMoney(split.amount), 0))
+  if (difference !== 0 && splits.length > 0) {
+    splits[0] = { ...splits[0], amount: splits[0].amount + difference }
+  }
+
+  return [
+    fields("TRNS", trns.account, trns.amount, trns.memo),
+    ...splits.map((split) => fields("SPL", split.account, split.amount, split.memo ?? trns.memo)),
+    "ENDTRNS",
+  ]
+}
+
+/**
+ * QuickBooks Desktop IIF file with every selected record as a balanced transaction
+ */
+function buildQuickBooksIif(rows: ExportRows, settings: CompanyAccountingSettings) {
+  const transactions: IifTransaction[] = []
+
+  for (const doc of rows.sales) {
+    // Invoices debit receivables; credit memos reverse them
+    const sign = doc.entityType === "credit_note" ? -1 : 1
+    transactions.push({
+      type: doc.entityType === "credit_note" ? "CREDIT MEMO" : "INVOICE",
+      date: doc.issuedAt,
+      account: settings.receivablesAccount,
+      name: doc.customerName,
+      amount: sign * doc.total,
+      docNumber: doc.number,
+      memo: doc.invoiceNumber ? `Credit against ${doc.invoiceNumber}` : `Invoice ${doc.number}`,
+      splits: [
+        ...doc.lines.map((line) => ({
+          account: settings.salesAccount,
+          amount: -sign * line.totals.net,
+          memo: line.title,
+        })),
+        { account: settings.vatAccount, amount: -sign * doc.tax, memo: "VAT" },
+        { account: settings.salesAccount, amount: sign * doc.discount, memo: "Discount" },
+      ],
+    })
+  }
+
+  for (const payment of rows.payments) {
+    const refund = payment.amount < 0
+    transactions.push({
+      type: refund ? "CHECK" : "PAYMENT",
+      date: payment.paidAt,
+      account: settings.bankAccount,
+      name: payment.customerName,
+      amount: payment.amount,
+      docNumber: payment.reference || payment.invoiceNumber,
+      memo: `${refund ? "Refund" : "Payment"} for ${payment.invoiceNumber} (${payment.method})`,
+      splits: [{ account: settings.receivablesAccount, amount: -payment.amount }],
+    })
+  }
+
+  for (const expense of rows.expenses) {
+    const vat = expense.vatReclaimable ? expense.vatAmount : 0
+    transactions.push({
+      type: "CHECK",
+      date: expense.expenseDate,
+      account: settings.bankAccount,
+      name: expense.vendor || "Sundry supplier",
+      amount: -expense.amount,
+      docNumber: expense.receiptNumber || `EXP-${expense.id}`,
+      memo: expense.description,
+      splits: [
+        { account: getExpenseAccount(settings, expense.category), amount: expense.amount - vat },
+        { account: settings.vatAccount, amount: vat, memo: "VAT" },
+      ],
+    })
+  }
+
+  for (const payout of rows.payouts) {
+    transactions.push({
+      type: "CHECK",
+      date: payout.paidAt,
+      account: settings.bankAccount,
+      name: payout.employeeName,
+      amount: -payout.amount,
+      docNumber: payout.reference || `PAYOUT-${payout.id}`,
+      memo: `Payout for ${iifDate(payout.periodStart)} - ${iifDate(payout.periodEnd)}`,
+      splits: [{ account: settings.wagesAccount, amount: payout.amount }],
+    })
+  }
+
+  const header = ["DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"]
+  return [
+    ["!TRNS", "TRNSTYPE", ...header].join("\t"),
+    ["!SPL", "TRNSTYPE", ...header].join("\t"),
+    "!ENDTRNS",
+    ...transactions.flatMap(iifTransactionLines),
+  ].join("\r\n")
+}
+
+function buildFiles(
+  exportFormat: AccountingExportFormat,
+  rows: ExportRows,
+  period: AccountingExportPeriod,
+  settings: CompanyAccountingSettings,
+  vatSettings: CompanyVatSettings,
+): AccountingExportFile[] {
+  const range = `${format(period.start, "yyyy-MM-dd")}-to-${format(new Date(period.end.getTime() - 1), "yyyy-MM-dd")}`
+
+  if (exportFormat === "quickbooks") {
+    return [{ name: `quickbooks-${range}.iif`, mimeType: "text/plain", content: buildQuickBooksIif(rows, settings) }]
+  }
+
+  const files: AccountingExportFile[] = []
+  if (rows.sales.length) {
+    files.push({ name: `xero-sales-invoices-${range}.csv`, mimeType: "text/csv", content: buildXeroSalesCsv(rows.sales, settings) })
+  }
+  if (rows.payments.length) {
+    files.push({ name: `xero-payments-${range}.csv`, mimeType: "text/csv", content: buildXeroPaymentsCsv(rows.payments) })
+  }
+  if (rows.expenses.length) {
+    files.push({
+      name: `xero-bills-${range}.csv`,
+      mimeType: "text/csv",
+      content: buildXeroBillsCsv(rows.expenses, settings, vatSettings),
+    })
+  }
+  if (rows.payouts.length) {
+    files.push({
+      name: `xero-payout-journals-${range}.csv`,
+      mimeType: "text/csv",
+      content: buildXeroPayoutJournalsCsv(rows.payouts, settings),
+    })
+  }
+  return files
+}
+
+/**
+ * Count what would go into an export for the period, without recording anything
+ */
+export async function getPendingAccountingExport(
+  companyId: number,
+  sources: AccountingExportSource[],
+  period: AccountingExportPeriod,
+): Promise<AccountingExportCounts> {
+  const rows = await collectUnexported(requireDb(), companyId, sources, period)
+  return countRows(rows)
+}
+
+/**
+ * Export everything in the period that hasn't been exported before and record it against the new
+ * export, in one transaction. The unique entry per record means two exports running at once can't
+ * both claim the same rows; the loser is rolled back.
+ */
+export async function createAccountingExport(companyId: number, input: CreateAccountingExportInput) {
+  const database = requireDb()
+
+  if (!input.sources.length) {
+    throw new AccountingExportError("Choose at least one thing to export")
+  }
+
+  return database.transaction(async (tx) => {
+    const settings = await getAccountingSettings(tx, companyId)
+    const vatSettings = await getVatSettings(tx, companyId)
+
+    const rows = await collectUnexported(tx, companyId, input.sources, input.period)
+    const entities = listEntities(rows)
+    if (entities.length === 0) {
+      throw new AccountingExportError("Nothing new to export for this period", 404)
+    }
+
+    const counts = countRows(rows)
+    const files = buildFiles(input.format, rows, input.period, settings, vatSettings)
+
+    const [created] = await tx
+      .insert(schema.accountingExports)
+      .values({
+        companyId,
+        format: input.format,
+        sources: input.sources,
+        periodStart: input.period.start,
+        periodEnd: input.period.end,
+        counts,
+        files,
+        createdById: input.createdById ?? null,
+      })
+      .returning()
+
+    const claimed = await tx
+      .insert(schema.accountingExportEntries)
+      .values(entities.map((entity) => ({ ...entity, companyId, exportId: created.id })))
+      .onConflictDoNothing()
+      .returning({ id: schema.accountingExportEntries.id })
+
+    if (claimed.length !== entities.length) {
+      throw new AccountingExportError("Some of these records were exported at the same time. Please try again.", 409)
+    }
+
+    return { export: toSummary(created), files }
+  })
+}
+
+function toSummary(record: AccountingExport) {
+  return {
+    id: record.id,
+    format: record.format as AccountingExportFormat,
+    sources: record.sources as AccountingExportSource[],
+    periodStart: record.periodStart,
+    periodEnd: record.periodEnd,
+    counts: record.counts as AccountingExportCounts | null,
+    createdById: record.createdById,
+    createdAt: record.createdAt,
+  }
+}
+
+export async function listAccountingExports(companyId: number, limit = 50) {
+  const database = requireDb()
+
+  const exports = await database
+    .select()
+    .from(schema.accountingExports)
+    .where(eq(schema.accountingExports.companyId, companyId))
+    .orderBy(desc(schema.accountingExports.createdAt))
+    .limit(limit)
+
+  return exports.map(toSummary)
+}
+
+export async function getAccountingExport(companyId: number, exportId: number) {
+  const database = requireDb()
+
+  const record = await database.query.accountingExports.findFirst({
+    where: and(eq(schema.accountingExports.id, exportId), eq(schema.accountingExports.companyId, companyId)),
+  })
+
+  if (!record) {
+    throw new AccountingExportError("Export not found", 404)
+  }
+
+  return { export: toSummary(record), files: (record.files as AccountingExportFile[] | null) ?? [] }
+}
+
+/**
+ * Delete an export so its records can be exported again, e.g. after a failed import.
+ * Only do this if the files were never imported, or the rows will be posted twice.
+ */
+export async function deleteAccountingExport(companyId: number, exportId: number) {
+  const database = requireDb()
+
+  const [deleted] = await database
+    .delete(schema.accountingExports)
+    .where(and(eq(schema.accountingExports.id, exportId), eq(schema.accountingExports.companyId, companyId)))
+    .returning({ id: schema.accountingExports.id })
+
+  if (!deleted) {
+    throw new AccountingExportError("Export not found", 404)
+  }
+}
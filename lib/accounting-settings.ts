@@ -0,0 +1,119 @@
+export type AccountingExportFormat = "xero" | "quickbooks"
+
+export const ACCOUNTING_EXPORT_FORMATS: AccountingExportFormat[] = ["xero", "quickbooks"]
+
+export const accountingExportFormatLabels: Record<AccountingExportFormat, string> = {
+  xero: "Xero (CSV)",
+  quickbooks: "QuickBooks Desktop (IIF)",
+}
+
+export type AccountingExportSource = "invoices" | "payments" | "expenses" | "payouts"
+
+export const ACCOUNTING_EXPORT_SOURCES: AccountingExportSource[] = ["invoices", "payments", "expenses", "payouts"]
+
+export const accountingExportSourceLabels: Record<AccountingExportSource, string> = {
+  invoices: "Sales invoices and credit notes",
+  payments: "Payments received",
+  expenses: "Expenses",
+  payouts: "Employee payouts",
+}
+
+// Categories offered when recording an expense
+export const expenseCategoryLabels: Record<string, string> = {
+  supplies: "Supplies",
+  fuel: "Fuel",
+  equipment: "Equipment",
+  labor: "Labor",
+  vehicle: "Vehicle",
+  marketing: "Marketing",
+  utilities: "Utilities",
+  insurance: "Insurance",
+  other: "Other",
+}
+
+export interface CompanyAccountingSettings {
+  // Account codes, or account names for QuickBooks files without account numbers
+  salesAccount: string
+  receivablesAccount: string
+  bankAccount: string
+  vatAccount: string
+  wagesAccount: string
+  // Used for expense categories without an account of their own
+  defaultExpenseAccount: string
+  expenseAccounts: Record<string, string>
+}
+
+// Codes from the default Xero UK chart of accounts
+export const defaultAccountingSettings: CompanyAccountingSettings = {
+  salesAccount: "200",
+  receivablesAccount: "610",
+  bankAccount: "090",
+  vatAccount: "820",
+  wagesAccount: "477",
+  defaultExpenseAccount: "429",
+  expenseAccounts: {
+    supplies: "310",
+    fuel: "449",
+    equipment: "429",
+    labor: "477",
+    vehicle: "449",
+    marketing: "400",
+    utilities: "445",
+    insurance: "433",
+    other: "429",
+  },
+}
+
+export const MAX_ACCOUNT_LENGTH = 100
+
+export function getExpenseAccount(settings: CompanyAccountingSettings, category: string | null | undefined) {
+  return (category && settings.expenseAccounts[category]) || settings.defaultExpenseAccount
+}
+
+function normalizeAccount(value: unknown, fallback: string) {
+  if (typeof value !== "string") return fallback
+  const trimmed = value.trim().slice(0, MAX_ACCOUNT_LENGTH)
+  return trimmed || fallback
+}
+
+export function normalizeAccountingSettings(raw: unknown): CompanyAccountingSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    parsed = {}
+  }
+
+  let expenseAccounts: Record<string, string> = { ...defaultAccountingSettings.expenseAccounts }
+  if (parsed.expenseAccounts && typeof parsed.expenseAccounts === "object") {
+    expenseAccounts = {}
+    for (const [category, account] of Object.entries(parsed.expenseAccounts)) {
+      const key = category.trim().toLowerCase()
+      // Categories left blank use the default expense account
+      const normalized = normalizeAccount(account, "")
+      if (key && normalized) {
+        expenseAccounts[key] = normalized
+      }
+    }
+  }
+
+  return {
+    salesAccount: normalizeAccount(parsed.salesAccount, defaultAccountingSettings.salesAccount),
+    receivablesAccount: normalizeAccount(parsed.receivablesAccount, defaultAccountingSettings.receivablesAccount),
+    bankAccount: normalizeAccount(parsed.bankAccount, defaultAccountingSettings.bankAccount),
+    vatAccount: normalizeAccount(parsed.vatAccount, defaultAccountingSettings.vatAccount),
+    wagesAccount: normalizeAccount(parsed.wagesAccount, defaultAccountingSettings.wagesAccount),
+    defaultExpenseAccount: normalizeAccount(
+      parsed.defaultExpenseAccount,
+      defaultAccountingSettings.defaultExpenseAccount,
+    ),
+    expenseAccounts,
+  }
+}
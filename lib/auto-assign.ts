@@ -0,0 +1,589 @@
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte } from "drizzle-orm"
+import { endOfDay, endOfWeek, startOfDay, startOfWeek } from "date-fns"
+import { db, schema } from "@/lib/db"
+import { parseCoordinates, type Coordinates } from "@/lib/geocoding"
+import { estimateTravelMinutes } from "@/lib/routing"
+import { sendJobAssignmentEmail } from "@/lib/email"
+import { loadEmployeeQualifications, type SkillLevel } from "@/lib/employee-skills"
+import {
+  assertNoSchedulingConflicts,
+  detectConflicts,
+  getJobWindow,
+  loadScheduleContext,
+  SchedulingConflictError,
+  type ScheduleContext,
+  type SchedulingConflict,
+} from "@/lib/scheduling-conflicts"
+
+/**
+ * Suggests the best cleaner for a job.
+ *
+ * Employees with a scheduling conflict are never suggested. The rest are scored out of 100 on
+ * travel from their previous job, skills against the job type, rating, whether they have cleaned
+ * for the customer before, and how many hours they already have booked that week.
+ */
+
+export type AutoAssignFactor = "travel" | "skills" | "rating" | "customerHistory" | "hoursBalance"
+
+// Points available for each factor, adding up to 100
+export const AUTO_ASSIGN_WEIGHTS: Record<AutoAssignFactor, number> = {
+  travel: 25,
+  skills: 20,
+  rating: 15,
+  customerHistory: 20,
+  hoursBalance: 20,
+}
+
+// Share of the skills points for each level of a matching skill
+const SKILL_LEVEL_SCORES: Record<SkillLevel, number> = {
+  learning: 0.6,
+  competent: 0.85,
+  expert: 1,
+}
+
+// Travel at or beyond this scores nothing
+const MAX_TRAVEL_MINUTES = 60
+// Booked hours at or beyond this score nothing for balance
+const FULL_WEEK_HOURS = 40
+// Statuses of unassigned jobs that bulk auto-assignment picks up
+const ASSIGNABLE_STATUSES = ["scheduled", "pending"]
+
+export class AutoAssignError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "AutoAssignError"
+  }
+}
+
+export interface AssignmentCandidate {
+  employeeId: number
+  employeeName: string
+  // 0-100; only meaningful for eligible candidates
+  score: number
+  eligible: boolean
+  breakdown: Record<AutoAssignFactor, number>
+  reasons: string[]
+  conflicts: SchedulingConflict[]
+}
+
+export interface PlannedAssignment {
+  jobId: number
+  jobTitle: string
+  start: Date
+  end: Date
+  employeeId: number
+  employeeName: string
+  score: number
+  reasons: string[]
+}
+
+export interface AutoAssignPlan {
+  date: string
+  assignments: PlannedAssignment[]
+  unassigned: Array<{ jobId: number; jobTitle: string; start: Date; reason: string }>
+}
+
+interface JobToAssign {
+  id: number
+  title: string
+  customerId: number
+  jobType: string | null
+  start: Date
+  end: Date
+  coordinates: Coordinates | null
+}
+
+interface EmployeeProfile {
+  id: number
+  name: string
+  skills: Array<{ name: string; level: SkillLevel }>
+  // In-date certifications only
+  certifications: string[]
+  averageJobRating: number | null
+}
+
+interface CustomerHistory {
+  lastEmployeeId: number | null
+  employeeIds: Set<number>
+}
+
+const jobColumns = {
+  id: schema.jobs.id,
+  title: schema.jobs.title,
+  description: schema.jobs.description,
+  customerId: schema.jobs.customerId,
+  assignedTo: schema.jobs.assignedTo,
+  employeePay: schema.jobs.employeePay,
+  jobType: schema.jobs.jobType,
+  scheduledFor: schema.jobs.scheduledFor,
+  scheduledEnd: schema.jobs.scheduledEnd,
+  durationMinutes: schema.jobs.durationMinutes,
+  latitude: schema.jobs.latitude,
+  longitude: schema.jobs.longitude,
+  location: schema.jobs.location,
+  city: schema.jobs.city,
+  postcode: schema.jobs.postcode,
+  accessInstructions: schema.jobs.accessInstructions,
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function toJobToAssign(job: {
+  id: number
+  title: string
+  customerId: number
+  jobType: string | null
+  scheduledFor: Date | null
+  scheduledEnd: Date | null
+  durationMinutes: number | null
+  latitude: string | null
+  longitude: string | null
+}): JobToAssign | null {
+  const window = getJobWindow(job)
+  if (!window) return null
+  return {
+    id: job.id,
+    title: job.title,
+    customerId: job.customerId,
+    jobType: job.jobType,
+    ...window,
+    coordinates: parseCoordinates(job.latitude, job.longitude),
+  }
+}
+
+async function loadActiveEmployees(companyId: number): Promise<EmployeeProfile[]> {
+  const database = requireDb()
+  const rows = await database
+    .select({
+      id: schema.employees.id,
+      firstName: schema.employees.firstName,
+      lastName: schema.employees.lastName,
+      averageJobRating: schema.employees.averageJobRating,
+    })
+    .from(schema.employees)
+    .where(and(eq(schema.employees.companyId, companyId), eq(schema.employees.status, "active")))
+
+  const qualifications = await loadEmployeeQualifications(
+    database,
+    rows.map((employee) => employee.id),
+  )
+
+  return rows.map((employee) => {
+    const rating = employee.averageJobRating ? parseFloat(employee.averageJobRating) : NaN
+    const qualified = qualifications.get(employee.id)
+    return {
+      id: employee.id,
+      name: `${employee.firstName} ${employee.lastName}`.trim(),
+      skills: qualified?.skills ?? [],
+      certifications: qualified?.certifications ?? [],
+      averageJobRating: Number.isFinite(rating) && rating > 0 ? rating : null,
+    }
+  })
+}
+
+async function loadCustomerHistory(companyId: number, customerIds: number[]) {
+  const database = requireDb()
+  const history = new Map<number, CustomerHistory>()
+  if (customerIds.length === 0) return history
+
+  const rows = await database
+    .select({ customerId: schema.jobs.customerId, assignedTo: schema.jobs.assignedTo })
+    .from(schema.jobs)
+    .where(
+      and(
+        eq(schema.jobs.companyId, companyId),
+        inArray(schema.jobs.customerId, customerIds),
+        eq(schema.jobs.status, "completed"),
+        isNotNull(schema.jobs.assignedTo),
+      ),
+    )
+    .orderBy(desc(schema.jobs.scheduledFor))
+
+  for (const row of rows) {
+    if (!row.assignedTo) continue
+    const entry = history.get(row.customerId)
+    if (entry) {
+      entry.employeeIds.add(row.assignedTo)
+    } else {
+      // Rows come newest first, so the first one seen is the last visit
+      history.set(row.customerId, { lastEmployeeId: row.assignedTo, employeeIds: new Set([row.assignedTo]) })
+    }
+  }
+  return history
+}
+
+// Wider than the day so the hours balance covers the whole week
+function weekAround(date: Date) {
+  return {
+    from: startOfWeek(date, { weekStartsOn: 1 }),
+    to: endOfWeek(date, { weekStartsOn: 1 }),
+  }
+}
+
+function scoreCandidate(
+  job: JobToAssign,
+  employee: EmployeeProfile,
+  context: ScheduleContext,
+  history: CustomerHistory | undefined,
+): AssignmentCandidate {
+  const conflicts = detectConflicts(context, {
+    kind: "job",
+    id: job.id,
+    employeeIds: [employee.id],
+    start: job.start,
+    end: job.end,
+    coordinates: job.coordinates,
+  })
+  const reasons: string[] = []
+  const breakdown = {} as Record<AutoAssignFactor, number>
+
+  const employeeJobs = context.jobs.filter((booked) => booked.id !== job.id && booked.employeeIds.includes(employee.id))
+
+  // Travel from the job they finish before this one on the same day
+  const previous = employeeJobs
+    .filter((booked) => booked.end <= job.start && startOfDay(booked.start).getTime() === startOfDay(job.start).getTime())
+    .sort((a, b) => b.end.getTime() - a.end.getTime())[0]
+  if (previous?.coordinates && job.coordinates) {
+    const minutes = Math.ceil(estimateTravelMinutes(previous.coordinates, job.coordinates))
+    breakdown.travel = Math.max(0, 1 - minutes / MAX_TRAVEL_MINUTES)
+    reasons.push(`About ${minutes} min from "${previous.title}"`)
+  } else {
+    breakdown.travel = 0.5
+    reasons.push(previous ? "Previous job has no location" : "No earlier job that day")
+  }
+
+  const jobType = job.jobType?.trim().toLowerCase()
+  const matches = (name: string) => !!jobType && (name.includes(jobType) || jobType.includes(name))
+  const skill = employee.skills
+    .filter((item) => matches(item.name))
+    .sort((a, b) => SKILL_LEVEL_SCORES[b.level] - SKILL_LEVEL_SCORES[a.level])[0]
+  if (!jobType) {
+    breakdown.skills = 0.5
+  } else if (skill) {
+    breakdown.skills = SKILL_LEVEL_SCORES[skill.level]
+    reasons.push(`${skill.level === "learning" ? "Learning" : skill.level === "expert" ? "Expert in" : "Skilled in"} ${job.jobType}`)
+  } else if (employee.certifications.some(matches)) {
+    breakdown.skills = 1
+    reasons.push(`Certified for ${job.jobType}`)
+  } else {
+    breakdown.skills = 0
+    reasons.push(`No listed skill for ${job.jobType}`)
+  }
+
+  if (employee.averageJobRating !== null) {
+    breakdown.rating = Math.min(employee.averageJobRating / 5, 1)
+    reasons.push(`Rated ${employee.averageJobRating.toFixed(1)}`)
+  } else {
+    breakdown.rating = 0.5
+  }
+
+  if (history?.lastEmployeeId === employee.id) {
+    breakdown.customerHistory = 1
+    reasons.push("Cleaned for this customer last time")
+  } else if (history?.employeeIds.has(employee.id)) {
+    breakdown.customerHistory = 0.6
+    reasons.push("Has cleaned for this customer before")
+  } else {
+    breakdown.customerHistory = 0
+  }
+
+  const week = weekAround(job.start)
+  const bookedMinutes = employeeJobs
+    .filter((booked) => booked.start >= week.from && booked.start <= week.to)
+    .reduce((sum, booked) => sum + (booked.end.getTime() - booked.start.getTime()) / 60000, 0)
+  const bookedHours = bookedMinutes / 60
+  breakdown.hoursBalance = Math.max(0, 1 - bookedHours / FULL_WEEK_HOURS)
+  reasons.push(`${Math.round(bookedHours * 10) / 10}h booked this week`)
+
+  const score = (Object.keys(AUTO_ASSIGN_WEIGHTS) as AutoAssignFactor[]).reduce(
+    (sum, factor) => sum + breakdown[factor] * AUTO_ASSIGN_WEIGHTS[factor],
+    0,
+  )
+
+  return {
+    employeeId: employee.id,
+    employeeName: employee.name,
+    score: Math.round(score),
+    eligible: conflicts.length === 0,
+    breakdown,
+    reasons: conflicts.length > 0 ? conflicts.map((conflict) => conflict.message) : reasons,
+    conflicts,
+  }
+}
+
+function rankCandidates(
+  job: JobToAssign,
+  employees: EmployeeProfile[],
+  context: ScheduleContext,
+  history: CustomerHistory | undefined,
+) {
+  return employees
+    .map((employee) => scoreCandidate(job, employee, context, history))
+    .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score)
+}
+
+/**
+ * Every active employee for a job, best first. Employees with conflicts come last, marked ineligible.
+ */
+export async function rankCandidatesForJob(companyId: number, jobId: number) {
+  const database = requireDb()
+  const [row] = await database
+    .select(jobColumns)
+    .from(schema.jobs)
+    .where(and(eq(schema.jobs.id, jobId), eq(schema.jobs.companyId, companyId)))
+    .limit(1)
+
+  if (!row) {
+    throw new AutoAssignError("Job not found", 404)
+  }
+  const job = toJobToAssign(row)
+  if (!job) {
+    throw new AutoAssignError("Schedule the job before looking for a cleaner")
+  }
+
+  const employees = await loadActiveEmployees(companyId)
+  if (employees.length === 0) {
+    return { job, candidates: [] }
+  }
+
+  const week = weekAround(job.start)
+  const context = await loadScheduleContext(
+    database,
+    companyId,
+    employees.map((employee) => employee.id),
+    week.from,
+    week.to,
+  )
+  const history = await loadCustomerHistory(companyId, [job.customerId])
+
+  return { job, candidates: rankCandidates(job, employees, context, history.get(job.customerId)) }
+}
+
+/**
+ * Pick the best cleaner for every unassigned job on a day, earliest first. Nothing is saved;
+ * each pick is added to the schedule before the next job is ranked so the plan doesn't double-book.
+ */
+export async function planAutoAssignments(companyId: number, date: Date): Promise<AutoAssignPlan> {
+  const database = requireDb()
+  const rows = await database
+    .select(jobColumns)
+    .from(schema.jobs)
+    .where(
+      and(
+        eq(schema.jobs.companyId, companyId),
+        isNull(schema.jobs.assignedTo),
+        inArray(schema.jobs.status, ASSIGNABLE_STATUSES),
+        gte(schema.jobs.scheduledFor, startOfDay(date)),
+        lte(schema.jobs.scheduledFor, endOfDay(date)),
+      ),
+    )
+    .orderBy(schema.jobs.scheduledFor)
+
+  const jobs = rows.map(toJobToAssign).filter((job): job is JobToAssign => job !== null)
+  const plan: AutoAssignPlan = {
+    date: date.toISOString().slice(0, 10),
+    assignments: [],
+    unassigned: [],
+  }
+  if (jobs.length === 0) return plan
+
+  const employees = await loadActiveEmployees(companyId)
+  if (employees.length === 0) {
+    plan.unassigned = jobs.map((job) => ({
+      jobId: job.id,
+      jobTitle: job.title,
+      start: job.start,
+      reason: "No active employees",
+    }))
+    return plan
+  }
+
+  const week = weekAround(date)
+  const context = await loadScheduleContext(
+    database,
+    companyId,
+    employees.map((employee) => employee.id),
+    week.from,
+    week.to,
+  )
+  const history = await loadCustomerHistory(
+    companyId,
+    Array.from(new Set(jobs.map((job) => job.customerId))),
+  )
+
+  for (const job of jobs) {
+    const [best] = rankCandidates(job, employees, context, history.get(job.customerId))
+    if (!best?.eligible) {
+      plan.unassigned.push({
+        jobId: job.id,
+        jobTitle: job.title,
+        start: job.start,
+        reason: best ? `Everyone has a conflict, e.g. ${best.reasons[0]}` : "No active employees",
+      })
+      continue
+    }
+
+    plan.assignments.push({
+      jobId: job.id,
+      jobTitle: job.title,
+      start: job.start,
+      end: job.end,
+      employeeId: best.employeeId,
+      employeeName: best.employeeName,
+      score: best.score,
+      reasons: best.reasons,
+    })
+    context.jobs.push({
+      id: job.id,
+      title: job.title,
+      start: job.start,
+      end: job.end,
+      employeeIds: [best.employeeId],
+      coordinates: job.coordinates,
+    })
+  }
+
+  return plan
+}
+
+/**
+ * Save a previewed plan. Jobs assigned since the preview, or that now clash, are skipped.
+ */
+export async function applyAutoAssignments(
+  companyId: number,
+  assignments: Array<{ jobId: number; employeeId: number }>,
+  options: { userId: number; sendNotification?: boolean },
+) {
+  const database = requireDb()
+  const { sendNotification = true } = options
+  const assigned: number[] = []
+  const skipped: Array<{ jobId: number; reason: string }> = []
+
+  const company = await database.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+  })
+
+  for (const { jobId, employeeId } of assignments) {
+    const [row] = await database
+      .select(jobColumns)
+      .from(schema.jobs)
+      .where(and(eq(schema.jobs.id, jobId), eq(schema.jobs.companyId, companyId)))
+      .limit(1)
+    const job = row ? toJobToAssign(row) : null
+    if (!row || !job) {
+      skipped.push({ jobId, reason: "Job not found" })
+      continue
+    }
+    if (row.assignedTo) {
+      skipped.push({ jobId, reason: "Already assigned" })
+      continue
+    }
+
+    const employee = await database.query.employees.findFirst({
+      where: and(
+        eq(schema.employees.id, employeeId),
+        eq(schema.employees.companyId, companyId),
+        eq(schema.employees.status, "active"),
+      ),
+    })
+    if (!employee) {
+      skipped.push({ jobId, reason: "Employee not found" })
+      continue
+    }
+
+    // The employee stays locked from the conflict check until the job is saved, so a booking made
+    // meanwhile can't take the same slot
+    let saved: boolean
+    try {
+      saved = await database.transaction(async (tx) => {
+        await assertNoSchedulingConflicts(
+          tx,
+          companyId,
+          [{ kind: "job", id: jobId, employeeIds: [employeeId], start: job.start, end: job.end, coordinates: job.coordinates }],
+          {},
+        )
+
+        // Only take jobs still unassigned, in case someone assigned one by hand meanwhile
+        const [updated] = await tx
+          .update(schema.jobs)
+          .set({
+            assignedTo: employeeId,
+            employeeAccepted: null,
+            employeeAcceptedAt: null,
+            status: "scheduled",
+            updatedAt: new Date(),
+          })
+          .where(and(eq(schema.jobs.id, jobId), isNull(schema.jobs.assignedTo)))
+          .returning({ id: schema.jobs.id })
+        if (!updated) return false
+
+        await tx.insert(schema.jobAssignments).values({
+          companyId,
+          jobId,
+          employeeId,
+          payAmount: row.employeePay,
+          status: "assigned",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+
+        await tx.insert(schema.jobEvents).values({
+          jobId,
+          type: "job_assigned",
+          message: `Job "${row.title}" auto-assigned to ${employee.firstName} ${employee.lastName}`,
+          meta: JSON.stringify({ jobId, employeeId, autoAssigned: true, assignedBy: options.userId }),
+          actorId: null,
+        })
+        return true
+      })
+    } catch (error) {
+      if (error instanceof SchedulingConflictError) {
+        skipped.push({ jobId, reason: error.conflicts[0].message })
+        continue
+      }
+      throw error
+    }
+    if (!saved) {
+      skipped.push({ jobId, reason: "Already assigned" })
+      continue
+    }
+
+    assigned.push(jobId)
+
+    if (sendNotification && employee.email) {
+      try {
+        const customer = await database.query.customers.findFirst({
+          where: eq(schema.customers.id, row.customerId),
+        })
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+        await sendJobAssignmentEmail({
+          employeeEmail: employee.email,
+          employeeName: `${employee.firstName} ${employee.lastName}`,
+          jobTitle: row.title,
+          jobDescription: row.description || "",
+          customerName: customer ? `${customer.firstName} ${customer.lastName}` : "Customer",
+          customerPhone: customer?.phone || null,
+          address: [row.location, row.city, row.postcode].filter(Boolean).join(", "),
+          scheduledDate: job.start,
+          scheduledTime: job.start.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }),
+          estimatedDuration: row.durationMinutes ? `${row.durationMinutes} minutes` : null,
+          specialInstructions: row.accessInstructions || null,
+          companyName: company?.name || "Your Company",
+          jobUrl: `${baseUrl}/employee/jobs/${jobId}`,
+        })
+      } catch (emailError) {
+        console.error("Failed to send auto-assignment email:", emailError)
+      }
+    }
+  }
+
+  return { assigned, skipped }
+}
@@ -0,0 +1,148 @@
+export type OutOfAreaPolicy = "flag" | "reject"
+
+export interface CompanyBookingSettings {
+  // When off, the public booking page only takes requests for staff to schedule
+  instantBookingEnabled: boolean
+  // Earliest a slot can start, in hours from now
+  leadTimeHours: number
+  // How many days ahead slots are offered
+  bookingWindowDays: number
+  // Jobs the company takes on one day, counting every booking; 0 means no limit
+  maxJobsPerDay: number
+  // Days no online bookings are taken (yyyy-MM-dd)
+  blackoutDates: string[]
+  // Bookable hours; cleaners' own availability narrows these further
+  dayStartTime: string
+  dayEndTime: string
+  slotIntervalMinutes: number
+  // Gap kept either side of a cleaner's other jobs when their locations aren't known
+  travelBufferMinutes: number
+  // How long a picked slot is held while the customer finishes booking
+  holdMinutes: number
+  // Base length of each service, by booking page service type
+  serviceDurations: Record<string, number>
+  // Added for every bedroom and bathroom beyond the first
+  extraRoomMinutes: number
+  // What happens to bookings outside every service area, once the company has defined some
+  outOfAreaPolicy: OutOfAreaPolicy
+}
+
+export const SLOT_INTERVAL_OPTIONS = [15, 30, 60]
+
+export const OUT_OF_AREA_POLICIES: OutOfAreaPolicy[] = ["flag", "reject"]
+
+export const defaultServiceDurations: Record<string, number> = {
+  regular: 120,
+  deep_clean: 240,
+  move_in: 240,
+  move_out: 240,
+  one_time: 150,
+  spring_clean: 300,
+}
+
+export const defaultBookingSettings: CompanyBookingSettings = {
+  instantBookingEnabled: false,
+  leadTimeHours: 24,
+  bookingWindowDays: 60,
+  maxJobsPerDay: 0,
+  blackoutDates: [],
+  dayStartTime: "08:00",
+  dayEndTime: "18:00",
+  slotIntervalMinutes: 30,
+  travelBufferMinutes: 15,
+  holdMinutes: 10,
+  serviceDurations: defaultServiceDurations,
+  extraRoomMinutes: 20,
+  outOfAreaPolicy: "flag",
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function normalizeNumber(value: unknown, fallback: number, min: number, max: number) {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value))
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.min(max, Math.max(min, Math.round(parsed)))
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+export function normalizeBookingSettings(raw: unknown): CompanyBookingSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { ...defaultBookingSettings, serviceDurations: { ...defaultServiceDurations } }
+  }
+
+  let dayStartTime =
+    typeof parsed.dayStartTime === "string" && TIME_PATTERN.test(parsed.dayStartTime)
+      ? parsed.dayStartTime
+      : defaultBookingSettings.dayStartTime
+  let dayEndTime =
+    typeof parsed.dayEndTime === "string" && TIME_PATTERN.test(parsed.dayEndTime)
+      ? parsed.dayEndTime
+      : defaultBookingSettings.dayEndTime
+  if (toMinutes(dayEndTime) <= toMinutes(dayStartTime)) {
+    dayStartTime = defaultBookingSettings.dayStartTime
+    dayEndTime = defaultBookingSettings.dayEndTime
+  }
+
+  const blackoutDates: string[] = Array.isArray(parsed.blackoutDates)
+    ? Array.from(
+        new Set<string>(
+          parsed.blackoutDates.filter(
+            (date: unknown): date is string =>
+              typeof date === "string" && DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date)),
+          ),
+        ),
+      ).sort()
+    : []
+
+  const serviceDurations = { ...defaultServiceDurations }
+  if (parsed.serviceDurations && typeof parsed.serviceDurations === "object") {
+    for (const [serviceType, fallback] of Object.entries(defaultServiceDurations)) {
+      serviceDurations[serviceType] = normalizeNumber(parsed.serviceDurations[serviceType], fallback, 30, 720)
+    }
+  }
+
+  const slotInterval = Number(parsed.slotIntervalMinutes)
+
+  return {
+    instantBookingEnabled:
+      typeof parsed.instantBookingEnabled === "boolean"
+        ? parsed.instantBookingEnabled
+        : defaultBookingSettings.instantBookingEnabled,
+    leadTimeHours: normalizeNumber(parsed.leadTimeHours, defaultBookingSettings.leadTimeHours, 0, 336),
+    bookingWindowDays: normalizeNumber(parsed.bookingWindowDays, defaultBookingSettings.bookingWindowDays, 1, 180),
+    maxJobsPerDay: normalizeNumber(parsed.maxJobsPerDay, defaultBookingSettings.maxJobsPerDay, 0, 500),
+    blackoutDates,
+    dayStartTime,
+    dayEndTime,
+    slotIntervalMinutes: SLOT_INTERVAL_OPTIONS.includes(slotInterval)
+      ? slotInterval
+      : defaultBookingSettings.slotIntervalMinutes,
+    travelBufferMinutes: normalizeNumber(
+      parsed.travelBufferMinutes,
+      defaultBookingSettings.travelBufferMinutes,
+      0,
+      120,
+    ),
+    holdMinutes: normalizeNumber(parsed.holdMinutes, defaultBookingSettings.holdMinutes, 5, 30),
+    serviceDurations,
+    extraRoomMinutes: normalizeNumber(parsed.extraRoomMinutes, defaultBookingSettings.extraRoomMinutes, 0, 120),
+    outOfAreaPolicy: OUT_OF_AREA_POLICIES.includes(parsed.outOfAreaPolicy)
+      ? parsed.outOfAreaPolicy
+      : defaultBookingSettings.outOfAreaPolicy,
+  }
+}
@@ -0,0 +1,41 @@
+export type CheckInEnforcement = "flag" | "block"
+
+export interface CompanyCheckInSettings {
+  // How far (in meters) from the job site a check-in still counts as on site
+  radiusMeters: number
+  // "flag" records out-of-range check-ins for review, "block" rejects them
+  enforcement: CheckInEnforcement
+}
+
+export const MIN_CHECK_IN_RADIUS = 25
+export const MAX_CHECK_IN_RADIUS = 5000
+
+export const defaultCompanyCheckInSettings: CompanyCheckInSettings = {
+  radiusMeters: 200,
+  enforcement: "flag",
+}
+
+export function normalizeCompanyCheckInSettings(raw: unknown): CompanyCheckInSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { ...defaultCompanyCheckInSettings }
+  }
+
+  const radius = Number(parsed.radiusMeters)
+
+  return {
+    radiusMeters: Number.isFinite(radius)
+      ? Math.min(MAX_CHECK_IN_RADIUS, Math.max(MIN_CHECK_IN_RADIUS, Math.round(radius)))
+      : defaultCompanyCheckInSettings.radiusMeters,
+    enforcement: parsed.enforcement === "block" ? "block" : "flag",
+  }
+}
@@ -0,0 +1,355 @@
+import { db, schema } from "@/lib/db"
+import { and, eq, gte, inArray, lte } from "drizzle-orm"
+import { format } from "date-fns"
+import { parseCoordinates } from "@/lib/geocoding"
+import {
+  assertNoSchedulingConflicts,
+  findSlotConflicts,
+  recordConflictOverride,
+  type ScheduleSlot,
+  type SchedulingConflict,
+} from "@/lib/scheduling-conflicts"
+import {
+  atLocalTime,
+  buildRecurrenceSet,
+  DEFAULT_TIMEZONE,
+  getOccurrences,
+  nextWeekdayAt,
+  toLocalDateTime,
+  toWeekday,
+  type RecurrenceSet,
+} from "@/lib/recurrence"
+
+export interface ScheduleDay {
+  day: string // "monday", "tuesday", etc.
+  startTime: string // "09:00"
+  durationMinutes: number
+  tasks?: string[]
+}
+
+export interface GenerateContractJobsOptions {
+  weeksAhead?: number
+  assignedToId?: number | null
+  scheduleDays?: ScheduleDay[] | null
+  defaultStartTime?: string
+  defaultDurationMinutes?: number
+  skipBankHolidays?: boolean
+  // Visit start times, or whole days ("2026-03-02"), to skip, e.g. agreed closures
+  exdates?: Array<Date | string>
+  // A manager's reason for assigning visits that clash with the schedule
+  conflictOverride?: { reason?: unknown; role?: string | null; userId?: number | null }
+  // Create clashing visits unassigned instead of failing, for unattended runs
+  unassignConflicts?: boolean
+}
+
+/**
+ * Raised when a contract's schedule can't be turned into visits (shown to the user as a 400)
+ */
+export class ContractScheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ContractScheduleError"
+  }
+}
+
+/**
+ * Create the jobs for an active contract's visits over the next few weeks.
+ * Days that already have a job for the customer are skipped, so it is safe to run repeatedly.
+ */
+export async function generateContractJobs(
+  contract: typeof schema.contracts.$inferSelect,
+  options: GenerateContractJobsOptions = {},
+) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const {
+    weeksAhead = 4,
+    assignedToId = null,
+    scheduleDays,
+    defaultStartTime = "09:00",
+    defaultDurationMinutes = 120,
+    skipBankHolidays = false,
+    exdates = [],
+    conflictOverride,
+    unassignConflicts = false,
+  } = options
+
+  // Fetch customer separately for type safety
+  const customer = await db.query.customers.findFirst({
+    where: eq(schema.customers.id, contract.customerId),
+  })
+
+  const contractEmployeeIds = Array.isArray(contract.employeeIds)
+    ? contract.employeeIds
+        .map((id: unknown) => parseInt(String(id)))
+        .filter((id: number) => Number.isFinite(id))
+    : []
+  const assignedEmployeeIds = contractEmployeeIds.length
+    ? (
+        await db.query.employees.findMany({
+          where: and(
+            eq(schema.employees.companyId, contract.companyId),
+            inArray(schema.employees.id, contractEmployeeIds)
+          ),
+          columns: { id: true },
+        })
+      ).map((employee) => employee.id)
+    : []
+
+  // Get schedule days from request or contract
+  const daysToSchedule: ScheduleDay[] = scheduleDays || 
+    (contract.scheduleDays as ScheduleDay[] | null) || 
+    []
+
+  if (daysToSchedule.length === 0 && !contract.recurrenceRule) {
+    throw new ContractScheduleError("No schedule days defined. Please specify which days to schedule jobs.")
+  }
+
+  // Calculate date range
+  const startDate = new Date()
+  startDate.setHours(0, 0, 0, 0)
+
+  // If contract has a start date in the future, use that
+  const contractStart = new Date(contract.startDate)
+  if (contractStart > startDate) {
+    startDate.setTime(contractStart.getTime())
+  }
+
+  const endDate = new Date(startDate)
+  endDate.setDate(endDate.getDate() + (weeksAhead * 7))
+
+  // If contract has an end date, don't schedule beyond it
+  if (contract.endDate) {
+    const contractEnd = new Date(contract.endDate)
+    if (contractEnd < endDate) {
+      endDate.setTime(contractEnd.getTime())
+    }
+  }
+
+  // Get existing jobs for this contract in the date range to avoid duplicates
+  const existingJobs = await db.query.jobs.findMany({
+    where: and(
+      eq(schema.jobs.companyId, contract.companyId),
+      eq(schema.jobs.customerId, contract.customerId),
+      gte(schema.jobs.scheduledFor, startDate),
+      lte(schema.jobs.scheduledFor, endDate)
+    ),
+  })
+
+  // Create a set of existing scheduled dates for quick lookup
+  const dateKeyFor = (date: Date) => {
+    const local = toLocalDateTime(date, DEFAULT_TIMEZONE)
+    return `${local.year}-${local.month}-${local.day}`
+  }
+  const existingDates = new Set(
+    existingJobs.map(job => (job.scheduledFor ? dateKeyFor(job.scheduledFor) : ""))
+  )
+
+  // Build customer location
+  const location = customer ? [
+    customer.address,
+    customer.city,
+    customer.postcode
+  ].filter(Boolean).join(", ") : ""
+
+  // Build one series per schedule day, anchored on the contract start so fortnightly
+  // and monthly contracts stay on the same weeks however often jobs are generated
+  const series: { set: RecurrenceSet; scheduleDay: ScheduleDay | null }[] = []
+
+  try {
+    if (contract.recurrenceRule) {
+      const scheduleDay = daysToSchedule[0] ?? null
+      const set = buildRecurrenceSet({
+        rrule: contract.recurrenceRule,
+        // The rule's BYDAY decides the days; the first schedule day only supplies the time
+        dtstart: atLocalTime(contractStart, scheduleDay?.startTime || defaultStartTime),
+        until: contract.endDate,
+        exdates,
+      })
+      if (set) series.push({ set, scheduleDay })
+    } else {
+      for (const scheduleDay of daysToSchedule) {
+        const weekday = toWeekday(scheduleDay.day || (scheduleDay as unknown as string)) ?? "MO"
+        const dtstart = nextWeekdayAt(contractStart, weekday, scheduleDay.startTime || defaultStartTime)
+        const set = buildRecurrenceSet({
+          frequency: contract.frequency || "weekly",
+          weekdays: [weekday],
+          dtstart,
+          until: contract.endDate,
+          exdates,
+        })
+        if (set) series.push({ set, scheduleDay })
+      }
+    }
+  } catch (ruleError) {
+    throw new ContractScheduleError(
+      ruleError instanceof Error ? ruleError.message : "Invalid contract recurrence rule"
+    )
+  }
+
+  if (series.length === 0) {
+    throw new ContractScheduleError(`Contract frequency "${contract.frequency}" can't be scheduled automatically`)
+  }
+
+  // Generate jobs for each occurrence in the date range
+  const jobPayloads: { values: any; tasks: string[] }[] = []
+  const occurrences = series
+    .flatMap(({ set, scheduleDay }) =>
+      getOccurrences(set, { from: startDate, to: endDate, skipBankHolidays }).map((scheduledFor) => ({
+        scheduledFor,
+        scheduleDay,
+      }))
+    )
+    .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+
+  let assignmentIndex = 0
+  for (const { scheduledFor, scheduleDay } of occurrences) {
+    // Check if we already have a job for this date
+    const dateKey = dateKeyFor(scheduledFor)
+    if (existingDates.has(dateKey)) continue
+
+    // Calculate end time
+    const duration = scheduleDay?.durationMinutes || defaultDurationMinutes
+    const scheduledEnd = new Date(scheduledFor.getTime() + duration * 60 * 1000)
+
+    // Calculate employee pay if hourly rate is set
+    let employeePay: string | undefined
+    if (contract.hourlyRate) {
+      const hourlyRate = parseFloat(contract.hourlyRate)
+      const durationHours = duration / 60
+      employeePay = (hourlyRate * durationHours).toFixed(2)
+    }
+
+    const assignedEmployeeId = assignedToId
+      ? assignedToId
+      : assignedEmployeeIds.length > 0
+        ? assignedEmployeeIds[assignmentIndex % assignedEmployeeIds.length]
+        : null
+
+    if (!assignedToId && assignedEmployeeIds.length > 0) {
+      assignmentIndex += 1
+    }
+
+    const dayTasks = Array.isArray(scheduleDay?.tasks)
+      ? scheduleDay.tasks
+          .map((task) => (typeof task === "string" ? task.trim() : ""))
+          .filter((task) => task.length > 0)
+      : []
+
+    jobPayloads.push({
+      values: {
+      companyId: contract.companyId,
+      customerId: contract.customerId,
+      title: contract.title,
+      description: contract.description || `Contract: ${contract.contractNumber}`,
+      jobType: null,
+      location,
+      city: customer?.city || null,
+      postcode: customer?.postcode || null,
+      latitude: customer?.latitude || null,
+      longitude: customer?.longitude || null,
+      assignedTo: assignedEmployeeId,
+      scheduledFor,
+      scheduledEnd,
+      durationMinutes: duration,
+      status: "scheduled",
+      planId: null,
+      contractId: contract.id,
+      recurrence: contract.frequency || "weekly",
+      recurrenceId: scheduledFor,
+      estimatedPrice: null, // Contract is billed separately
+      employeePay: employeePay || null,
+      currency: contract.currency || "GBP",
+      },
+      tasks: dayTasks,
+    })
+
+    // Mark this date as used
+    existingDates.add(dateKey)
+  }
+
+  if (jobPayloads.length === 0) {
+    return []
+  }
+
+  const slots: ScheduleSlot[] = jobPayloads.map(({ values }) => ({
+    kind: "job",
+    employeeIds: values.assignedTo ? [values.assignedTo] : [],
+    start: values.scheduledFor,
+    end: values.scheduledEnd,
+    coordinates: parseCoordinates(values.latitude, values.longitude),
+  }))
+
+  // The clash check and the inserts share a transaction so concurrent bookings can't both pass
+  const createdJobs = await db.transaction(async (tx) => {
+    let slotConflicts: SchedulingConflict[][]
+    let overrideReason: string | null = null
+    if (unassignConflicts) {
+      slotConflicts = await findSlotConflicts(tx, contract.companyId, slots)
+      slotConflicts.forEach((conflicts, index) => {
+        if (conflicts.length === 0) return
+        // Left for someone to pick up from the needs reassignment list
+        jobPayloads[index].values.assignedTo = null
+        jobPayloads[index].values.status = "pending"
+      })
+    } else {
+      const check = await assertNoSchedulingConflicts(tx, contract.companyId, slots, {
+        overrideReason: conflictOverride?.reason,
+        role: conflictOverride?.role,
+      })
+      slotConflicts = check.slotConflicts
+      overrideReason = check.overrideReason
+    }
+
+    // Insert all jobs
+    const created = await tx
+      .insert(schema.jobs)
+      .values(jobPayloads.map((payload) => payload.values))
+      .returning()
+
+    if (overrideReason) {
+      for (const [index, job] of created.entries()) {
+        if (slotConflicts[index].length === 0) continue
+        await recordConflictOverride(tx, contract.companyId, {
+          entityType: "job",
+          entityId: job.id,
+          conflicts: slotConflicts[index],
+          reason: overrideReason,
+          overriddenById: conflictOverride?.userId,
+        })
+      }
+    }
+
+    return created
+  })
+
+  const jobTasksToCreate = createdJobs.flatMap((job, index) => {
+    const tasks = jobPayloads[index]?.tasks ?? []
+    return tasks.map((task, taskIndex) => ({
+      jobId: job.id,
+      title: task,
+      order: taskIndex,
+    }))
+  })
+
+  if (jobTasksToCreate.length > 0) {
+    try {
+      await db.insert(schema.jobTasks).values(jobTasksToCreate)
+    } catch (taskError) {
+      console.error("Failed to create job tasks from contract schedule:", taskError)
+    }
+  }
+
+  // Update contract's lastGeneratedDate
+  await db
+    .update(schema.contracts)
+    .set({ 
+      lastGeneratedDate: format(endDate, "yyyy-MM-dd"),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.contracts.id, contract.id))
+
+  return createdJobs
+}
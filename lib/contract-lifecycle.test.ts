@@ -0,0 +1,101 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { format } from "date-fns"
+import {
+  billingDate,
+  ContractLifecycleError,
+  firstInvoiceDate,
+  nextBillingDate,
+  parseLifecycleSettings,
+  renewalTermMonths,
+} from "@/lib/contract-lifecycle"
+
+const day = (date: Date) => format(date, "yyyy-MM-dd")
+
+describe("billingDate", () => {
+  test("moves on whole billing periods from the start", () => {
+    const start = new Date(2026, 2, 15)
+    assert.equal(day(billingDate(start, "weekly", 1)), "2026-03-22")
+    assert.equal(day(billingDate(start, "monthly", 1)), "2026-04-15")
+    assert.equal(day(billingDate(start, "quarterly", 2)), "2026-09-15")
+    assert.equal(day(billingDate(start, "annually", 1)), "2027-03-15")
+    assert.equal(day(billingDate(start, "monthly", 0)), "2026-03-15")
+  })
+
+  test("bills monthly when the frequency is unset", () => {
+    assert.equal(day(billingDate(new Date(2026, 2, 15), null, 1)), "2026-04-15")
+  })
+
+  test("rejects unknown frequencies", () => {
+    assert.throws(() => billingDate(new Date(2026, 2, 15), "fortnightly", 1), ContractLifecycleError)
+  })
+
+  test("keeps to the last day of shorter months", () => {
+    assert.equal(day(billingDate(new Date(2026, 0, 31), "monthly", 1)), "2026-02-28")
+    assert.equal(day(billingDate(new Date(2025, 10, 30), "quarterly", 1)), "2026-02-28")
+    assert.equal(day(billingDate(new Date(2028, 1, 29), "annually", 1)), "2029-02-28")
+  })
+
+  test("does not change the date it is given", () => {
+    const start = new Date(2026, 2, 15)
+    billingDate(start, "weekly", 1)
+    assert.equal(day(start), "2026-03-15")
+  })
+})
+
+describe("nextBillingDate", () => {
+  test("returns to the 31st after a short month", () => {
+    const start = new Date(2026, 0, 31)
+    const dates: string[] = []
+    let date = start
+    for (let period = 0; period < 6; period++) {
+      date = nextBillingDate(start, "monthly", date)
+      dates.push(day(date))
+    }
+    assert.deepEqual(dates, ["2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31", "2026-06-30", "2026-07-31"])
+  })
+
+  test("keeps quarterly billing on the 31st where the month has one", () => {
+    const start = new Date(2025, 7, 31)
+    const dates: string[] = []
+    let date = start
+    for (let period = 0; period < 4; period++) {
+      date = nextBillingDate(start, "quarterly", date)
+      dates.push(day(date))
+    }
+    assert.deepEqual(dates, ["2025-11-30", "2026-02-28", "2026-05-31", "2026-08-31"])
+  })
+
+  test("goes back onto the schedule from a date moved by hand", () => {
+    assert.equal(day(nextBillingDate(new Date(2026, 0, 31), "monthly", new Date(2026, 2, 10))), "2026-03-31")
+  })
+
+  test("starts from the start date when it is still to come", () => {
+    assert.equal(day(nextBillingDate(new Date(2026, 5, 1), "monthly", new Date(2026, 4, 20))), "2026-06-01")
+  })
+})
+
+describe("firstInvoiceDate", () => {
+  test("bills fixed contracts from the start date and visit contracts a period later", () => {
+    const contract = { startDate: new Date(2026, 2, 15), billingFrequency: "monthly" }
+    assert.equal(firstInvoiceDate({ ...contract, billingBasis: "fixed" }), "2026-03-15")
+    assert.equal(firstInvoiceDate({ ...contract, billingBasis: "visits" }), "2026-04-15")
+  })
+})
+
+describe("renewalTermMonths", () => {
+  test("uses the renewal term, then the original term, then a year", () => {
+    const startDate = new Date(2026, 0, 1)
+    assert.equal(renewalTermMonths({ renewalTermMonths: 6, startDate, endDate: new Date(2026, 11, 31) }), 6)
+    assert.equal(renewalTermMonths({ renewalTermMonths: null, startDate, endDate: new Date(2026, 6, 1) }), 6)
+    assert.equal(renewalTermMonths({ renewalTermMonths: null, startDate, endDate: null }), 12)
+  })
+})
+
+describe("parseLifecycleSettings", () => {
+  test("accepts the known billing frequencies and clears an empty one", () => {
+    assert.deepEqual(parseLifecycleSettings({ billingFrequency: "quarterly" }), { billingFrequency: "quarterly" })
+    assert.deepEqual(parseLifecycleSettings({ billingFrequency: "" }), { billingFrequency: null })
+    assert.throws(() => parseLifecycleSettings({ billingFrequency: "fortnightly" }), ContractLifecycleError)
+  })
+})
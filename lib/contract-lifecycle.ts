@@ -0,0 +1,787 @@
+import { and, asc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, or } from "drizzle-orm"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarMonths,
+  endOfDay,
+  format,
+  parseISO,
+  startOfDay,
+} from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Contract } from "@/lib/db/schema"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { priceInvoice, type InvoiceItemInput } from "@/lib/invoice-utils"
+import { sendContractRenewalNoticeEmail } from "@/lib/email"
+
+/**
+ * Contract lifecycle: renewal notices, renewals with price uplifts, expiry, periodic billing and
+ * notice-period termination. The scheduler runs it daily; every transition is written to
+ * contract_history.
+ *
+ * A contract runs until the end of its end date. Fixed billing invoices the contract amount for
+ * each billing period in advance on nextInvoiceDate; visit billing invoices the completed visits
+ * since lastGeneratedDate at the hourly rate, in arrears.
+ */
+
+export class ContractLifecycleError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "ContractLifecycleError"
+  }
+}
+
+export type ContractBillingBasis = "fixed" | "visits"
+
+export const CONTRACT_BILLING_BASES: ContractBillingBasis[] = ["fixed", "visits"]
+
+export type ContractBillingFrequency = "weekly" | "monthly" | "quarterly" | "annually"
+
+export const CONTRACT_BILLING_FREQUENCIES: ContractBillingFrequency[] = ["weekly", "monthly", "quarterly", "annually"]
+
+export type ContractHistoryEvent =
+  | "created"
+  | "status_changed"
+  | "signed"
+  | "renewal_notice_sent"
+  | "renewed"
+  | "expired"
+  | "invoiced"
+  | "termination_requested"
+  | "terminated"
+
+export interface ContractHistoryInput {
+  companyId: number
+  contractId: number
+  event: ContractHistoryEvent
+  description: string
+  fromStatus?: string | null
+  toStatus?: string | null
+  userId?: number | null
+  metadata?: Record<string, unknown> | null
+}
+
+// Payment terms on invoices raised by the billing run
+const CONTRACT_INVOICE_DUE_DAYS = 30
+
+// Periods billed per contract in one run, so a long-stalled contract catches up over a few days
+const MAX_PERIODS_PER_RUN = 12
+
+// Renewals applied per contract in one run
+const MAX_RENEWALS_PER_RUN = 10
+
+// Jobs that haven't started yet; these are cancelled when a contract is terminated
+const UPCOMING_JOB_STATUSES = ["scheduled", "assigned"]
+
+function requireDb(executor: DbExecutor | null = db) {
+  if (!executor) {
+    throw new Error("Database not configured")
+  }
+  return executor
+}
+
+function toDateString(date: Date) {
+  return format(date, "yyyy-MM-dd")
+}
+
+function roundMoney(value: number) {
+  return (Math.round(value * 100) / 100).toFixed(2)
+}
+
+function applyUplift(value: string | null, percent: number) {
+  if (value === null) return null
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? roundMoney(parsed * (1 + percent / 100)) : value
+}
+
+/**
+ * The date `periods` billing periods after the contract's start (monthly when the frequency is
+ * unset). Every billing date is counted from the start rather than from the one before, so a
+ * contract starting on the 31st bills on the 28th in February and the 31st again in March.
+ */
+export function billingDate(start: Date, billingFrequency: string | null, periods: number) {
+  switch (billingFrequency ?? "monthly") {
+    case "weekly":
+      return addWeeks(start, periods)
+    case "monthly":
+      return addMonths(start, periods)
+    case "quarterly":
+      return addMonths(start, periods * 3)
+    case "annually":
+      return addYears(start, periods)
+    default:
+      throw new ContractLifecycleError(`Unknown billing frequency "${billingFrequency}"`)
+  }
+}
+
+/**
+ * The first billing date counted from the contract's start that falls after `date`
+ */
+export function nextBillingDate(start: Date, billingFrequency: string | null, date: Date) {
+  let periods = 0
+  let next = billingDate(start, billingFrequency, periods)
+  while (next <= date) {
+    next = billingDate(start, billingFrequency, ++periods)
+  }
+  return next
+}
+
+/**
+ * First invoice date for a contract that has just become active: its start date for fixed billing,
+ * one billing period later for visit billing
+ */
+export function firstInvoiceDate(contract: Pick<Contract, "startDate" | "billingBasis" | "billingFrequency">) {
+  const start = startOfDay(new Date(contract.startDate))
+  return toDateString(contract.billingBasis === "visits" ? billingDate(start, contract.billingFrequency, 1) : start)
+}
+
+/**
+ * Length of each renewal term in months
+ */
+export function renewalTermMonths(contract: Pick<Contract, "renewalTermMonths" | "startDate" | "endDate">) {
+  if (contract.renewalTermMonths) return contract.renewalTermMonths
+  if (!contract.endDate) return 12
+  return Math.max(1, differenceInCalendarMonths(new Date(contract.endDate), new Date(contract.startDate)))
+}
+
+function parseWholeNumber(value: unknown, field: string, max: number) {
+  const parsed = typeof value === "number" ? value : parseInt(String(value))
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+    throw new ContractLifecycleError(`${field} must be a whole number between 0 and ${max}`)
+  }
+  return parsed
+}
+
+/**
+ * Validate the lifecycle settings in a contract create or update request; fields not in the body
+ * are left out of the result
+ */
+export function parseLifecycleSettings(body: Record<string, unknown>) {
+  const settings: Partial<
+    Pick<
+      Contract,
+      | "billingBasis"
+      | "billingFrequency"
+      | "renewalNoticeDays"
+      | "renewalTermMonths"
+      | "renewalUpliftPercent"
+      | "noticePeriodDays"
+      | "nextInvoiceDate"
+    >
+  > = {}
+
+  if (body.billingBasis !== undefined) {
+    if (!CONTRACT_BILLING_BASES.includes(body.billingBasis as ContractBillingBasis)) {
+      throw new ContractLifecycleError(`Billing basis must be one of: ${CONTRACT_BILLING_BASES.join(", ")}`)
+    }
+    settings.billingBasis = body.billingBasis as ContractBillingBasis
+  }
+  if (body.billingFrequency !== undefined) {
+    if (body.billingFrequency === null || body.billingFrequency === "") {
+      settings.billingFrequency = null
+    } else if (CONTRACT_BILLING_FREQUENCIES.includes(body.billingFrequency as ContractBillingFrequency)) {
+      settings.billingFrequency = body.billingFrequency as ContractBillingFrequency
+    } else {
+      throw new ContractLifecycleError(`Billing frequency must be one of: ${CONTRACT_BILLING_FREQUENCIES.join(", ")}`)
+    }
+  }
+  if (body.renewalNoticeDays !== undefined) {
+    settings.renewalNoticeDays = parseWholeNumber(body.renewalNoticeDays, "Renewal notice days", 365)
+  }
+  if (body.renewalTermMonths !== undefined) {
+    settings.renewalTermMonths =
+      body.renewalTermMonths === null || body.renewalTermMonths === ""
+        ? null
+        : parseWholeNumber(body.renewalTermMonths, "Renewal term", 120) || null
+  }
+  if (body.renewalUpliftPercent !== undefined) {
+    const uplift = parseFloat(String(body.renewalUpliftPercent || 0))
+    if (!Number.isFinite(uplift) || uplift < 0 || uplift > 100) {
+      throw new ContractLifecycleError("Renewal uplift must be between 0 and 100%")
+    }
+    settings.renewalUpliftPercent = uplift.toFixed(2)
+  }
+  if (body.noticePeriodDays !== undefined) {
+    settings.noticePeriodDays = parseWholeNumber(body.noticePeriodDays, "Notice period", 365)
+  }
+  if (body.nextInvoiceDate !== undefined) {
+    if (body.nextInvoiceDate === null || body.nextInvoiceDate === "") {
+      settings.nextInvoiceDate = null
+    } else {
+      const date = parseISO(String(body.nextInvoiceDate))
+      if (isNaN(date.getTime())) {
+        throw new ContractLifecycleError("Invalid next invoice date")
+      }
+      settings.nextInvoiceDate = toDateString(date)
+    }
+  }
+
+  return settings
+}
+
+/**
+ * Write one transition to the contract's history
+ */
+export async function recordContractHistory(entry: ContractHistoryInput, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const [created] = await database
+    .insert(schema.contractHistory)
+    .values({
+      companyId: entry.companyId,
+      contractId: entry.contractId,
+      event: entry.event,
+      description: entry.description,
+      fromStatus: entry.fromStatus ?? null,
+      toStatus: entry.toStatus ?? null,
+      userId: entry.userId ?? null,
+      metadata: entry.metadata ?? null,
+    })
+    .returning()
+  return created
+}
+
+/**
+ * A contract's history, newest first, with the name of the user behind each staff change
+ */
+export async function getContractHistory(companyId: number, contractId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  return database.query.contractHistory.findMany({
+    where: and(eq(schema.contractHistory.companyId, companyId), eq(schema.contractHistory.contractId, contractId)),
+    orderBy: (history, { desc }) => [desc(history.createdAt), desc(history.id)],
+    with: {
+      user: { columns: { id: true, firstName: true, lastName: true } },
+    },
+  })
+}
+
+export interface TerminationRequest {
+  reason: string
+  // Requested last day of service; the end of the notice period if earlier or not given
+  terminationDate?: Date | null
+  // Staff can agree an earlier end date with the customer
+  waiveNoticePeriod?: boolean
+  userId?: number | null
+}
+
+/**
+ * Give notice on an active contract. It ends on the later of the requested date and the end of the
+ * notice period (or its end date, if that comes first), stops renewing, and upcoming visits after
+ * the last day are cancelled.
+ */
+export async function requestContractTermination(
+  companyId: number,
+  contractId: number,
+  request: TerminationRequest,
+  executor: DbExecutor | null = db,
+) {
+  const database = requireDb(executor)
+  const reason = request.reason.trim()
+  if (!reason) {
+    throw new ContractLifecycleError("A reason for the termination is required")
+  }
+
+  const contract = await database.query.contracts.findFirst({
+    where: and(eq(schema.contracts.id, contractId), eq(schema.contracts.companyId, companyId)),
+  })
+  if (!contract) {
+    throw new ContractLifecycleError("Contract not found", 404)
+  }
+  if (contract.status !== "active") {
+    throw new ContractLifecycleError("Only active contracts can be terminated")
+  }
+  if (contract.terminationDate) {
+    throw new ContractLifecycleError(
+      `Notice has already been given; this contract ends on ${format(contract.terminationDate, "d MMM yyyy")}`,
+      409,
+    )
+  }
+
+  const today = startOfDay(new Date())
+  const requested = request.terminationDate ? startOfDay(request.terminationDate) : null
+  if (requested && requested < today) {
+    throw new ContractLifecycleError("Termination date cannot be in the past")
+  }
+  const earliest = request.waiveNoticePeriod ? today : addDays(today, contract.noticePeriodDays)
+  let terminationDate = requested && requested > earliest ? requested : earliest
+  if (contract.endDate && startOfDay(new Date(contract.endDate)) < terminationDate) {
+    terminationDate = startOfDay(new Date(contract.endDate))
+  }
+
+  const now = new Date()
+  return database.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(schema.contracts)
+      .set({
+        terminationRequestedAt: now,
+        terminationDate,
+        terminationReason: reason,
+        endDate: terminationDate,
+        autoRenew: 0,
+        updatedAt: now,
+      })
+      .where(and(eq(schema.contracts.id, contract.id), isNull(schema.contracts.terminationDate)))
+      .returning()
+    if (!updated) {
+      throw new ContractLifecycleError("Notice has already been given on this contract", 409)
+    }
+
+    const cancelledJobs = await tx
+      .update(schema.jobs)
+      .set({ status: "cancelled", updatedAt: now })
+      .where(
+        and(
+          eq(schema.jobs.companyId, companyId),
+          eq(schema.jobs.contractId, contract.id),
+          inArray(schema.jobs.status, UPCOMING_JOB_STATUSES),
+          gt(schema.jobs.scheduledFor, endOfDay(terminationDate)),
+        ),
+      )
+      .returning({ id: schema.jobs.id })
+
+    await recordContractHistory(
+      {
+        companyId,
+        contractId: contract.id,
+        event: "termination_requested",
+        userId: request.userId,
+        description: `Notice given: contract ends on ${format(terminationDate, "d MMM yyyy")}. ${reason}`,
+        metadata: {
+          terminationDate: toDateString(terminationDate),
+          previousEndDate: contract.endDate ? toDateString(new Date(contract.endDate)) : null,
+          noticePeriodDays: contract.noticePeriodDays,
+          noticeWaived: !!request.waiveNoticePeriod,
+          cancelledJobIds: cancelledJobs.map((job) => job.id),
+        },
+      },
+      tx,
+    )
+
+    return { contract: updated, cancelledJobs: cancelledJobs.length }
+  })
+}
+
+/**
+ * Email customers whose contracts end within their renewal notice period, once per term
+ */
+export async function sendRenewalNotices(companyId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const today = startOfDay(new Date())
+
+  const company = await database.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+  })
+  if (!company) {
+    return { noticesSent: 0, noticeErrors: [] }
+  }
+
+  const candidates = await database.query.contracts.findMany({
+    where: and(
+      eq(schema.contracts.companyId, companyId),
+      eq(schema.contracts.status, "active"),
+      isNotNull(schema.contracts.endDate),
+      gte(schema.contracts.endDate, today),
+      isNull(schema.contracts.renewalNoticeSentAt),
+      isNull(schema.contracts.terminationDate),
+      gt(schema.contracts.renewalNoticeDays, 0),
+    ),
+    with: { customer: true },
+  })
+
+  let noticesSent = 0
+  const noticeErrors: Array<{ contractId: number; error: string }> = []
+  for (const contract of candidates) {
+    const endDate = new Date(contract.endDate!)
+    if (startOfDay(endDate) > addDays(today, contract.renewalNoticeDays)) continue
+
+    const customer = contract.customer as typeof schema.customers.$inferSelect | null
+    if (!customer?.email) {
+      noticeErrors.push({ contractId: contract.id, error: "Customer has no email address" })
+      continue
+    }
+
+    const uplift = parseFloat(contract.renewalUpliftPercent)
+    const renewal = contract.autoRenew
+      ? {
+          newEndDate: addMonths(endDate, renewalTermMonths(contract)),
+          amount: applyUplift(contract.amount, uplift)!,
+          billingFrequency: contract.billingFrequency,
+          upliftPercent: uplift,
+        }
+      : null
+
+    try {
+      const result = await sendContractRenewalNoticeEmail({
+        customerEmail: customer.email,
+        customerName: `${customer.firstName} ${customer.lastName}`.trim(),
+        companyName: company.name,
+        companyEmail: company.email,
+        contractNumber: contract.contractNumber,
+        contractTitle: contract.title,
+        endDate,
+        renewal,
+        currency: contract.currency || "GBP",
+      })
+      if (!result.success) {
+        throw new Error("Email not sent")
+      }
+    } catch (error) {
+      noticeErrors.push({ contractId: contract.id, error: error instanceof Error ? error.message : String(error) })
+      continue
+    }
+
+    const sentAt = new Date()
+    await database
+      .update(schema.contracts)
+      .set({ renewalNoticeSentAt: sentAt, updatedAt: sentAt })
+      .where(eq(schema.contracts.id, contract.id))
+    await recordContractHistory(
+      {
+        companyId,
+        contractId: contract.id,
+        event: "renewal_notice_sent",
+        description: renewal
+          ? `Renewal notice sent to ${customer.email}: renews on ${format(endDate, "d MMM yyyy")}`
+          : `End of contract notice sent to ${customer.email}: ends on ${format(endDate, "d MMM yyyy")}`,
+        metadata: {
+          sentTo: customer.email,
+          endDate: toDateString(endDate),
+          autoRenew: !!renewal,
+          newEndDate: renewal ? toDateString(renewal.newEndDate) : null,
+          renewalAmount: renewal?.amount ?? null,
+        },
+      },
+      database,
+    )
+    noticesSent++
+  }
+
+  return { noticesSent, noticeErrors }
+}
+
+/**
+ * Close out active contracts whose end date has passed: renew the ones that auto-renew (applying
+ * the uplift to each new term), mark the rest expired, or terminated if notice was given
+ */
+export async function processContractEnds(companyId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const today = startOfDay(new Date())
+
+  const ended = await database.query.contracts.findMany({
+    where: and(
+      eq(schema.contracts.companyId, companyId),
+      eq(schema.contracts.status, "active"),
+      isNotNull(schema.contracts.endDate),
+      lt(schema.contracts.endDate, today),
+    ),
+  })
+
+  let renewed = 0
+  let expired = 0
+  let terminated = 0
+  for (const contract of ended) {
+    const now = new Date()
+
+    if (contract.autoRenew && !contract.terminationDate) {
+      const termMonths = renewalTermMonths(contract)
+      const uplift = parseFloat(contract.renewalUpliftPercent)
+      let endDate = new Date(contract.endDate!)
+      let amount = contract.amount
+      let hourlyRate = contract.hourlyRate
+      let annualValue = contract.annualValue
+      const terms: Array<{ previousEndDate: string; endDate: string; amount: string }> = []
+
+      // Renew term by term until the contract runs past today, e.g. after the scheduler was down
+      while (startOfDay(endDate) < today && terms.length < MAX_RENEWALS_PER_RUN) {
+        const previousEndDate = endDate
+        endDate = addMonths(endDate, termMonths)
+        amount = applyUplift(amount, uplift)!
+        hourlyRate = applyUplift(hourlyRate, uplift)
+        annualValue = applyUplift(annualValue, uplift)
+        terms.push({ previousEndDate: toDateString(previousEndDate), endDate: toDateString(endDate), amount })
+      }
+
+      await database.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(schema.contracts)
+          .set({
+            endDate,
+            amount,
+            hourlyRate,
+            annualValue,
+            renewalTermMonths: termMonths,
+            renewalNoticeSentAt: null,
+            renewedAt: now,
+            updatedAt: now,
+          })
+          .where(and(eq(schema.contracts.id, contract.id), eq(schema.contracts.endDate, contract.endDate!)))
+          .returning({ id: schema.contracts.id })
+        if (!updated) return
+
+        let previousAmount = contract.amount
+        for (const term of terms) {
+          await recordContractHistory(
+            {
+              companyId,
+              contractId: contract.id,
+              event: "renewed",
+              fromStatus: "active",
+              toStatus: "active",
+              description:
+                uplift > 0
+                  ? `Renewed until ${format(parseISO(term.endDate), "d MMM yyyy")} with a ${uplift}% price uplift`
+                  : `Renewed until ${format(parseISO(term.endDate), "d MMM yyyy")}`,
+              metadata: {
+                previousEndDate: term.previousEndDate,
+                endDate: term.endDate,
+                termMonths,
+                upliftPercent: uplift,
+                previousAmount,
+                amount: term.amount,
+              },
+            },
+            tx,
+          )
+          previousAmount = term.amount
+        }
+        renewed++
+      })
+      continue
+    }
+
+    const wasTerminated = !!contract.terminationDate
+    const status = wasTerminated ? "cancelled" : "expired"
+    const endDate = startOfDay(new Date(contract.endDate!))
+
+    await database.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(schema.contracts)
+        .set({
+          status,
+          ...(wasTerminated ? { cancelledAt: now } : {}),
+          // Visit billing still owes the visits since the last invoice; fixed billing was in advance
+          nextInvoiceDate:
+            contract.billingBasis === "visits" && contract.nextInvoiceDate
+              ? toDateString(addDays(endDate, 1))
+              : null,
+          updatedAt: now,
+        })
+        .where(and(eq(schema.contracts.id, contract.id), eq(schema.contracts.status, "active")))
+        .returning({ id: schema.contracts.id })
+      if (!updated) return
+
+      await recordContractHistory(
+        {
+          companyId,
+          contractId: contract.id,
+          event: wasTerminated ? "terminated" : "expired",
+          fromStatus: "active",
+          toStatus: status,
+          description: wasTerminated
+            ? `Terminated on ${format(endDate, "d MMM yyyy")} after notice${contract.terminationReason ? `: ${contract.terminationReason}` : ""}`
+            : `Expired on ${format(endDate, "d MMM yyyy")}`,
+          metadata: { endDate: toDateString(endDate) },
+        },
+        tx,
+      )
+      if (wasTerminated) terminated++
+      else expired++
+    })
+  }
+
+  return { renewed, expired, terminated }
+}
+
+async function visitInvoiceLines(
+  executor: DbExecutor,
+  contract: Contract,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<InvoiceItemInput[]> {
+  const hourlyRate = parseFloat(contract.hourlyRate || "")
+  if (!Number.isFinite(hourlyRate) || hourlyRate <= 0) {
+    throw new ContractLifecycleError("Visit billing needs an hourly rate on the contract")
+  }
+
+  const visits = await executor.query.jobs.findMany({
+    where: and(
+      eq(schema.jobs.companyId, contract.companyId),
+      eq(schema.jobs.contractId, contract.id),
+      eq(schema.jobs.status, "completed"),
+      gte(schema.jobs.scheduledFor, periodStart),
+      lt(schema.jobs.scheduledFor, periodEnd),
+    ),
+    orderBy: [asc(schema.jobs.scheduledFor)],
+  })
+  if (visits.length === 0) return []
+
+  // Visits already invoiced on their own aren't billed again
+  const invoiced = await executor
+    .select({ jobId: schema.invoices.jobId })
+    .from(schema.invoices)
+    .where(
+      and(
+        inArray(schema.invoices.jobId, visits.map((visit) => visit.id)),
+        ne(schema.invoices.status, "void"),
+      ),
+    )
+  const invoicedJobIds = new Set(invoiced.map((row) => row.jobId))
+
+  return visits
+    .filter((visit) => !invoicedJobIds.has(visit.id))
+    .map((visit) => ({
+      title: visit.title,
+      description: `Visit on ${format(visit.scheduledFor!, "EEE d MMM yyyy")}`,
+      quantity: roundMoney((visit.durationMinutes ?? 60) / 60),
+      unitPrice: roundMoney(hourlyRate),
+    }))
+}
+
+/**
+ * Raise the invoice for one billing period of a contract and move its next invoice date on.
+ * Returns the invoice, or null when visit billing found nothing to bill.
+ */
+async function billContractPeriod(contract: Contract, executor: DbExecutor) {
+  const invoiceDate = parseISO(contract.nextInvoiceDate!)
+  const endDate = contract.endDate ? startOfDay(new Date(contract.endDate)) : null
+  const nextDate = nextBillingDate(startOfDay(new Date(contract.startDate)), contract.billingFrequency, invoiceDate)
+  // Ended visit contracts are billed once more, up to their end date
+  const finalRun = contract.billingBasis === "visits" && !!endDate && invoiceDate > endDate
+
+  let periodStart: Date
+  let periodEnd: Date
+  let items: InvoiceItemInput[]
+  if (contract.billingBasis === "visits") {
+    periodStart = contract.lastGeneratedDate ? parseISO(contract.lastGeneratedDate) : startOfDay(new Date(contract.startDate))
+    periodEnd = finalRun ? addDays(endDate!, 1) : invoiceDate
+    items = await visitInvoiceLines(executor, contract, periodStart, periodEnd)
+  } else {
+    // Nothing is billed beyond the end date; a renewal moves it on first
+    if (endDate && invoiceDate > endDate) return { contract: null, invoice: null }
+    periodStart = invoiceDate
+    periodEnd = endDate && nextDate > addDays(endDate, 1) ? addDays(endDate, 1) : nextDate
+    items = [
+      {
+        title: contract.title,
+        description: `${contract.contractNumber}: ${format(periodStart, "d MMM yyyy")} to ${format(addDays(periodEnd, -1), "d MMM yyyy")}`,
+        quantity: 1,
+        unitPrice: contract.amount,
+      },
+    ]
+  }
+
+  return executor.transaction(async (tx) => {
+    // Claim the period first so overlapping runs can't bill it twice
+    const [claimed] = await tx
+      .update(schema.contracts)
+      .set({
+        nextInvoiceDate: finalRun ? null : toDateString(nextDate),
+        lastGeneratedDate: toDateString(periodEnd),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.contracts.id, contract.id), eq(schema.contracts.nextInvoiceDate, contract.nextInvoiceDate!)))
+      .returning()
+    if (!claimed) return { contract: null, invoice: null }
+    if (items.length === 0) return { contract: claimed, invoice: null }
+
+    const invoiceNumber = await allocateDocumentNumber(tx, contract.companyId, "invoice", {
+      date: invoiceDate,
+      customerId: contract.customerId,
+    })
+    const priced = await priceInvoice(tx, contract.companyId, { items, customerId: contract.customerId })
+
+    const issuedAt = new Date()
+    const [invoice] = await tx
+      .insert(schema.invoices)
+      .values({
+        companyId: contract.companyId,
+        invoiceNumber,
+        customerId: contract.customerId,
+        contractId: contract.id,
+        currency: contract.currency || "GBP",
+        ...priced.invoice,
+        amountDue: priced.invoice.total,
+        status: "draft",
+        issuedAt,
+        dueAt: addDays(issuedAt, CONTRACT_INVOICE_DUE_DAYS),
+        notes: `${contract.title} (${contract.contractNumber}), ${format(periodStart, "d MMM yyyy")} to ${format(addDays(periodEnd, -1), "d MMM yyyy")}`,
+        terms: `Payment is due within ${CONTRACT_INVOICE_DUE_DAYS} days of the invoice date.`,
+        footer: "Thank you for your business!",
+      })
+      .returning()
+    await tx.insert(schema.invoiceItems).values(priced.items.map((item) => ({ ...item, invoiceId: invoice.id })))
+
+    await recordContractHistory(
+      {
+        companyId: contract.companyId,
+        contractId: contract.id,
+        event: "invoiced",
+        description: `Invoice ${invoiceNumber} raised for ${format(periodStart, "d MMM yyyy")} to ${format(addDays(periodEnd, -1), "d MMM yyyy")}`,
+        metadata: {
+          invoiceId: invoice.id,
+          invoiceNumber,
+          billingBasis: contract.billingBasis,
+          periodStart: toDateString(periodStart),
+          periodEnd: toDateString(addDays(periodEnd, -1)),
+          total: invoice.total,
+        },
+      },
+      tx,
+    )
+
+    return { contract: claimed, invoice }
+  })
+}
+
+/**
+ * Invoice every contract whose next invoice date has arrived, catching up missed periods. Ended
+ * contracts on visit billing are included so their last visits are billed.
+ */
+export async function runContractBilling(companyId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const today = toDateString(new Date())
+
+  const due = await database.query.contracts.findMany({
+    where: and(
+      eq(schema.contracts.companyId, companyId),
+      isNotNull(schema.contracts.nextInvoiceDate),
+      lte(schema.contracts.nextInvoiceDate, today),
+      ne(schema.contracts.status, "draft"),
+      or(eq(schema.contracts.status, "active"), eq(schema.contracts.billingBasis, "visits")),
+    ),
+  })
+
+  let invoicesCreated = 0
+  const billingErrors: Array<{ contractId: number; error: string }> = []
+  for (const dueContract of due) {
+    let contract: Contract | null = dueContract
+    try {
+      for (let period = 0; period < MAX_PERIODS_PER_RUN; period++) {
+        if (!contract?.nextInvoiceDate || contract.nextInvoiceDate > today) break
+        const result: Awaited<ReturnType<typeof billContractPeriod>> = await billContractPeriod(contract, database)
+        if (result.invoice) invoicesCreated++
+        contract = result.contract
+      }
+    } catch (error) {
+      // A contract that can't be billed is reported without holding up the others
+      if (!(error instanceof ContractLifecycleError)) throw error
+      billingErrors.push({ contractId: dueContract.id, error: error.message })
+    }
+  }
+
+  return { contractsBilled: due.length, invoicesCreated, billingErrors }
+}
+
+/**
+ * The daily lifecycle run: contract ends first so renewed prices are billed, then notices, then billing
+ */
+export async function runContractLifecycle(companyId: number) {
+  const ends = await processContractEnds(companyId)
+  const notices = await sendRenewalNotices(companyId)
+  const billing = await runContractBilling(companyId)
+  return { ...ends, ...notices, ...billing }
+}
@@ -0,0 +1,516 @@
+import { db, schema, type DbTransaction } from "@/lib/db"
+import { and, desc, eq, sql } from "drizzle-orm"
+import type { Invoice } from "@/lib/db/schema"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { reconcileInvoicePayments } from "@/lib/invoice-payments"
+import { generateCreditNotePDF, type CreditNotePdfData } from "@/lib/pdf-generator"
+import { sendCreditNoteEmail } from "@/lib/email"
+import { calculateInvoiceTotals } from "@/lib/vat-settings"
+
+// Credit notes can only be raised against invoices the customer has been sent
+const UNCREDITABLE_STATUSES = ["draft", "cancelled", "void"]
+
+export class CreditNoteError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "CreditNoteError"
+  }
+}
+
+export interface CreditNoteLineInput {
+  invoiceItemId: number
+  quantity: number
+}
+
+interface CreditLine {
+  // null for the balancing line of a full credit
+  invoiceItemId: number | null
+  title: string
+  description: string | null
+  quantity: number
+  unitPrice: number
+  amount: number
+  taxable: number
+  vatRate: string | null
+  // Percentage charged on the invoice line; null on lines from before per-line VAT
+  taxRate: string | null
+  taxAmount: number
+}
+
+export interface CreateCreditNoteInput {
+  // Invoice lines and quantities to credit; omit to credit everything not yet credited
+  lines?: CreditNoteLineInput[]
+  reason?: string | null
+  createdById?: number | null
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+async function lockInvoice(tx: DbTransaction, companyId: number, invoiceId: number) {
+  const [invoice] = await tx
+    .select()
+    .from(schema.invoices)
+    .where(and(eq(schema.invoices.id, invoiceId), eq(schema.invoices.companyId, companyId)))
+    .for("update")
+
+  if (!invoice) {
+    throw new CreditNoteError("Invoice not found", 404)
+  }
+  return invoice
+}
+
+/**
+ * Build and insert a credit note for a locked invoice, then update the invoice's credited and due amounts.
+ * Invoice discounts are only credited back by a full credit, as a balancing line.
+ */
+async function issueCreditNote(tx: DbTransaction, invoice: Invoice, input: CreateCreditNoteInput) {
+  if (UNCREDITABLE_STATUSES.includes(invoice.status)) {
+    throw new CreditNoteError(
+      invoice.status === "draft"
+        ? "Draft invoices can be edited directly"
+        : `A ${invoice.status} invoice can't be credited`,
+    )
+  }
+
+  const remainingCredit = roundMoney(parseFloat(invoice.total) - parseFloat(invoice.amountCredited))
+  if (remainingCredit <= 0) {
+    throw new CreditNoteError("This invoice has already been fully credited")
+  }
+
+  const invoiceItems = await tx
+    .select()
+    .from(schema.invoiceItems)
+    .where(eq(schema.invoiceItems.invoiceId, invoice.id))
+    .orderBy(schema.invoiceItems.sortOrder)
+
+  const creditedQuantities = await tx
+    .select({
+      invoiceItemId: schema.creditNoteItems.invoiceItemId,
+      quantity: sql<string>`coalesce(sum(${schema.creditNoteItems.quantity}), 0)`,
+    })
+    .from(schema.creditNoteItems)
+    .innerJoin(schema.creditNotes, eq(schema.creditNoteItems.creditNoteId, schema.creditNotes.id))
+    .where(eq(schema.creditNotes.invoiceId, invoice.id))
+    .groupBy(schema.creditNoteItems.invoiceItemId)
+
+  const remainingQuantity = (itemId: number) => {
+    const item = invoiceItems.find((invoiceItem) => invoiceItem.id === itemId)
+    const credited = creditedQuantities.find((row) => row.invoiceItemId === itemId)
+    return parseFloat(item?.quantity ?? "0") - parseFloat(credited?.quantity ?? "0")
+  }
+
+  const isFull = !input.lines || input.lines.length === 0
+  const requested = isFull
+    ? invoiceItems.map((item) => ({ invoiceItemId: item.id, quantity: remainingQuantity(item.id) }))
+    : input.lines ?? []
+
+  const lines = requested.flatMap((line): CreditLine[] => {
+    const item = invoiceItems.find((invoiceItem) => invoiceItem.id === line.invoiceItemId)
+    if (!item) {
+      throw new CreditNoteError("Credit note lines must belong to the invoice")
+    }
+
+    const quantity = roundMoney(Number(line.quantity))
+    if (!Number.isFinite(quantity) || quantity < 0) {
+      throw new CreditNoteError(`Invalid quantity for "${item.title}"`)
+    }
+    if (quantity > roundMoney(remainingQuantity(item.id))) {
+      throw new CreditNoteError(`Only ${roundMoney(remainingQuantity(item.id))} of "${item.title}" can still be credited`)
+    }
+    if (quantity === 0) return []
+
+    return [{
+      invoiceItemId: item.id,
+      title: item.title,
+      description: item.description,
+      quantity,
+      unitPrice: parseFloat(item.unitPrice),
+      amount: roundMoney(quantity * parseFloat(item.unitPrice)),
+      taxable: item.taxable ?? 1,
+      vatRate: item.vatRate,
+      taxRate: item.taxRate,
+      taxAmount: 0,
+    }]
+  })
+
+  if (lines.length === 0 && !isFull) {
+    throw new CreditNoteError("Select at least one line to credit")
+  }
+
+  // Credit VAT at the rates the invoice charged, not the company's current rates
+  const totals = calculateInvoiceTotals(
+    lines.map((line) => ({ ...line, vatRate: null })),
+    {
+      taxRate: parseFloat(invoice.taxRate ?? "0"),
+      pricesIncludeVat: invoice.pricesIncludeVat === 1,
+      reverseCharge: invoice.reverseCharge === 1,
+    },
+  )
+  lines.forEach((line, index) => {
+    line.taxRate = totals.lines[index].taxRate.toFixed(2)
+    line.taxAmount = totals.lines[index].tax
+  })
+
+  const taxAmount = parseFloat(totals.taxAmount)
+  let subtotal = parseFloat(totals.subtotal)
+  let total = parseFloat(totals.total)
+
+  const balancingLines: CreditLine[] = []
+  if (isFull && Math.abs(remainingCredit - total) >= 0.01) {
+    // Covers the invoice discount (and rounding) so a full credit clears exactly what is left
+    const adjustment = roundMoney(remainingCredit - total)
+    balancingLines.push({
+      invoiceItemId: null,
+      title: adjustment < 0 ? "Discount adjustment" : "Balance adjustment",
+      description: null,
+      quantity: 1,
+      unitPrice: adjustment,
+      amount: adjustment,
+      taxable: 0,
+      vatRate: null,
+      taxRate: "0.00",
+      taxAmount: 0,
+    })
+    subtotal = roundMoney(subtotal + adjustment)
+    total = remainingCredit
+  }
+
+  if (total <= 0) {
+    throw new CreditNoteError("Credit note total must be greater than zero")
+  }
+  if (total > remainingCredit) {
+    throw new CreditNoteError(
+      `Credit of ${total.toFixed(2)} is more than the ${remainingCredit.toFixed(2)} left to credit on this invoice`,
+    )
+  }
+
+  const creditNoteNumber = await allocateDocumentNumber(tx, invoice.companyId, "credit_note", {
+    customerId: invoice.customerId,
+  })
+
+  const [creditNote] = await tx
+    .insert(schema.creditNotes)
+    .values({
+      companyId: invoice.companyId,
+      invoiceId: invoice.id,
+      customerId: invoice.customerId,
+      creditNoteNumber,
+      kind: isFull ? "full" : "partial",
+      currency: invoice.currency,
+      subtotal: subtotal.toFixed(2),
+      taxRate: totals.taxRate,
+      taxAmount: taxAmount.toFixed(2),
+      total: total.toFixed(2),
+      reason: input.reason?.trim() || null,
+      createdById: input.createdById ?? null,
+    })
+    .returning()
+
+  const allLines = [...lines, ...balancingLines]
+  if (allLines.length > 0) {
+    await tx.insert(schema.creditNoteItems).values(
+      allLines.map((line, index) => ({
+        creditNoteId: creditNote.id,
+        invoiceItemId: line.invoiceItemId,
+        title: line.title,
+        description: line.description,
+        quantity: line.quantity.toFixed(2),
+        unitPrice: line.unitPrice.toFixed(2),
+        amount: line.amount.toFixed(2),
+        taxable: line.taxable,
+        vatRate: line.vatRate,
+        taxRate: line.taxRate,
+        taxAmount: line.taxAmount.toFixed(2),
+        sortOrder: index,
+      })),
+    )
+  }
+
+  await tx
+    .update(schema.invoices)
+    .set({
+      amountCredited: roundMoney(parseFloat(invoice.amountCredited) + total).toFixed(2),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.invoices.id, invoice.id))
+
+  return creditNote
+}
+
+/**
+ * Issue a credit note against an invoice, in full or for specific lines
+ */
+export async function createCreditNote(companyId: number, invoiceId: number, input: CreateCreditNoteInput = {}) {
+  const database = requireDb()
+
+  const result = await database.transaction(async (tx) => {
+    const invoice = await lockInvoice(tx, companyId, invoiceId)
+    const creditNote = await issueCreditNote(tx, invoice, input)
+    const updatedInvoice = await reconcileInvoicePayments(invoice.id, tx)
+    return { creditNote, invoice: updatedInvoice }
+  })
+
+  await notifyCustomer(companyId, result.creditNote.id)
+  return result
+}
+
+/**
+ * Void an invoice: credit whatever has not been credited yet and mark it void. The invoice
+ * and its lines are left as they were issued.
+ */
+export async function voidInvoice(
+  companyId: number,
+  invoiceId: number,
+  input: { reason?: string | null; createdById?: number | null } = {},
+) {
+  const database = requireDb()
+
+  const result = await database.transaction(async (tx) => {
+    const invoice = await lockInvoice(tx, companyId, invoiceId)
+    if (invoice.status === "void") {
+      throw new CreditNoteError("This invoice has already been voided")
+    }
+
+    const remainingCredit = roundMoney(parseFloat(invoice.total) - parseFloat(invoice.amountCredited))
+    const creditNote = remainingCredit > 0 ? await issueCreditNote(tx, invoice, { ...input, lines: [] }) : null
+
+    await tx
+      .update(schema.invoices)
+      .set({
+        status: "void",
+        voidedAt: new Date(),
+        voidReason: input.reason?.trim() || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.invoices.id, invoice.id))
+
+    const updatedInvoice = await reconcileInvoicePayments(invoice.id, tx)
+    return { creditNote, invoice: updatedInvoice }
+  })
+
+  if (result.creditNote) {
+    await notifyCustomer(companyId, result.creditNote.id, { voided: true })
+  }
+  return result
+}
+
+/**
+ * Pay money back to the customer against a credit note. Only what the customer has paid beyond the
+ * invoice's net total can be refunded; the refund is recorded as a negative payment on the invoice.
+ */
+export async function refundCreditNote(
+  companyId: number,
+  creditNoteId: number,
+  input: { amount?: number; method?: string; reference?: string | null; notes?: string | null },
+) {
+  const database = requireDb()
+
+  return database.transaction(async (tx) => {
+    const [creditNote] = await tx
+      .select()
+      .from(schema.creditNotes)
+      .where(and(eq(schema.creditNotes.id, creditNoteId), eq(schema.creditNotes.companyId, companyId)))
+      .for("update")
+
+    if (!creditNote) {
+      throw new CreditNoteError("Credit note not found", 404)
+    }
+
+    const invoice = await lockInvoice(tx, companyId, creditNote.invoiceId)
+    const unrefunded = roundMoney(parseFloat(creditNote.total) - parseFloat(creditNote.amountRefunded))
+    const overpaid = roundMoney(
+      parseFloat(invoice.amountPaid) - (parseFloat(invoice.total) - parseFloat(invoice.amountCredited)),
+    )
+    const refundable = Math.min(unrefunded, overpaid)
+
+    if (refundable <= 0) {
+      throw new CreditNoteError(
+        unrefunded <= 0
+          ? "This credit note has already been refunded"
+          : "The customer hasn't paid more than they owe on this invoice",
+      )
+    }
+
+    const amount = roundMoney(input.amount ?? refundable)
+    if (!Number.isFinite(amount) || amount <= 0 || amount > refundable) {
+      throw new CreditNoteError(`Refund must be between 0.01 and ${refundable.toFixed(2)}`)
+    }
+
+    const [payment] = await tx
+      .insert(schema.payments)
+      .values({
+        companyId,
+        invoiceId: invoice.id,
+        customerId: invoice.customerId,
+        creditNoteId: creditNote.id,
+        amount: (-amount).toFixed(2),
+        currency: creditNote.currency,
+        method: input.method || "bank_transfer",
+        status: "completed",
+        reference: input.reference || `Refund for credit note ${creditNote.creditNoteNumber}`,
+        notes: input.notes || null,
+      })
+      .returning()
+
+    const amountRefunded = roundMoney(parseFloat(creditNote.amountRefunded) + amount)
+    const [updatedCreditNote] = await tx
+      .update(schema.creditNotes)
+      .set({
+        amountRefunded: amountRefunded.toFixed(2),
+        status: amountRefunded >= parseFloat(creditNote.total) ? "refunded" : creditNote.status,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.creditNotes.id, creditNote.id))
+      .returning()
+
+    const updatedInvoice = await reconcileInvoicePayments(invoice.id, tx)
+    return { payment, creditNote: updatedCreditNote, invoice: updatedInvoice }
+  })
+}
+
+export async function getInvoiceCreditNotes(companyId: number, invoiceId: number) {
+  const database = requireDb()
+
+  const notes = await database
+    .select()
+    .from(schema.creditNotes)
+    .where(and(eq(schema.creditNotes.invoiceId, invoiceId), eq(schema.creditNotes.companyId, companyId)))
+    .orderBy(desc(schema.creditNotes.issuedAt))
+
+  const items = notes.length
+    ? await database
+        .select()
+        .from(schema.creditNoteItems)
+        .innerJoin(schema.creditNotes, eq(schema.creditNoteItems.creditNoteId, schema.creditNotes.id))
+        .where(eq(schema.creditNotes.invoiceId, invoiceId))
+        .orderBy(schema.creditNoteItems.sortOrder)
+    : []
+
+  return notes.map((note) => ({
+    ...note,
+    items: items.filter((row) => row.credit_notes.id === note.id).map((row) => row.credit_note_items),
+  }))
+}
+
+/**
+ * Everything needed to render a credit note PDF, on the server or in the browser
+ */
+export async function getCreditNotePdfData(companyId: number, creditNoteId: number): Promise<CreditNotePdfData | null> {
+  const database = requireDb()
+
+  const [data] = await database
+    .select({
+      creditNote: schema.creditNotes,
+      invoiceNumber: schema.invoices.invoiceNumber,
+      pricesIncludeVat: schema.invoices.pricesIncludeVat,
+      reverseCharge: schema.invoices.reverseCharge,
+      customer: schema.customers,
+      company: schema.companies,
+    })
+    .from(schema.creditNotes)
+    .innerJoin(schema.invoices, eq(schema.creditNotes.invoiceId, schema.invoices.id))
+    .innerJoin(schema.customers, eq(schema.creditNotes.customerId, schema.customers.id))
+    .innerJoin(schema.companies, eq(schema.creditNotes.companyId, schema.companies.id))
+    .where(and(eq(schema.creditNotes.id, creditNoteId), eq(schema.creditNotes.companyId, companyId)))
+    .limit(1)
+
+  if (!data) return null
+
+  const items = await database
+    .select()
+    .from(schema.creditNoteItems)
+    .where(eq(schema.creditNoteItems.creditNoteId, creditNoteId))
+    .orderBy(schema.creditNoteItems.sortOrder)
+
+  return {
+    creditNoteNumber: data.creditNote.creditNoteNumber,
+    invoiceNumber: data.invoiceNumber,
+    issuedAt: data.creditNote.issuedAt.toISOString(),
+    status: data.creditNote.status,
+    reason: data.creditNote.reason,
+    company: {
+      name: data.company.name,
+      email: data.company.email || "",
+      phone: data.company.phone || null,
+      address: data.company.address || null,
+      city: data.company.city || null,
+      postcode: data.company.postcode || null,
+      vatNumber: data.company.taxId || null,
+    },
+    customer: {
+      name: `${data.customer.firstName || ""} ${data.customer.lastName || ""}`.trim(),
+      email: data.customer.email || "",
+      phone: data.customer.phone || null,
+      address: data.customer.address || null,
+      city: data.customer.city || null,
+      postcode: data.customer.postcode || null,
+    },
+    items: items.map((item) => ({
+      title: item.title,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount: item.amount,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
+    })),
+    subtotal: data.creditNote.subtotal,
+    taxRate: data.creditNote.taxRate ?? "0",
+    taxAmount: data.creditNote.taxAmount ?? "0",
+    total: data.creditNote.total,
+    pricesIncludeVat: data.pricesIncludeVat === 1,
+    reverseCharge: data.reverseCharge === 1,
+  }
+}
+
+/**
+ * Email the credit note to the customer with its PDF. Failures are logged, not thrown, so the
+ * credit itself always stands.
+ */
+async function notifyCustomer(companyId: number, creditNoteId: number, options: { voided?: boolean } = {}) {
+  const database = requireDb()
+
+  try {
+    const [note] = await database
+      .select({ creditNote: schema.creditNotes, customer: schema.customers })
+      .from(schema.creditNotes)
+      .innerJoin(schema.customers, eq(schema.creditNotes.customerId, schema.customers.id))
+      .where(eq(schema.creditNotes.id, creditNoteId))
+      .limit(1)
+
+    const pdfData = await getCreditNotePdfData(companyId, creditNoteId)
+    if (!note?.customer.email || !pdfData) return
+
+    await sendCreditNoteEmail({
+      customerEmail: note.customer.email,
+      customerName: pdfData.customer.name,
+      creditNoteNumber: pdfData.creditNoteNumber,
+      invoiceNumber: pdfData.invoiceNumber,
+      amount: parseFloat(pdfData.total).toFixed(2),
+      currency: note.creditNote.currency,
+      reason: pdfData.reason,
+      voided: options.voided,
+      companyName: pdfData.company.name,
+      pdfBuffer: Buffer.from(generateCreditNotePDF(pdfData).output("arraybuffer")),
+    })
+
+    await database
+      .update(schema.creditNotes)
+      .set({ sentAt: new Date() })
+      .where(eq(schema.creditNotes.id, creditNoteId))
+  } catch (emailError) {
+    console.error("Failed to send credit note email:", emailError)
+  }
+}
@@ -0,0 +1,528 @@
+import { and, desc, eq, inArray, isNull, ne, or } from "drizzle-orm"
+import { db, schema, type DbTransaction } from "@/lib/db"
+import type { Customer, CustomerMerge } from "@/lib/db/schema"
+import { findMatches, normalizeAddress, normalizePostcodeKey, type CustomerMatch } from "./match"
+
+export { MIN_DUPLICATE_SCORE, normalizeAddress, normalizePhoneKey, normalizePostcodeKey } from "./match"
+export type { CustomerMatch, MatchConfidence } from "./match"
+
+/**
+ * Customer duplicate detection and merging.
+ *
+ * Merging moves everything that belongs to the duplicate (jobs, invoices, payments, quotes,
+ * contracts, addresses, feedback, booking requests and the rest) onto the surviving customer.
+ * The duplicate itself isn't deleted: it is set to status "merged" and the ids of the rows that
+ * moved are kept on the merge, so undoing puts exactly those rows back and leaves anything
+ * created for the survivor since alone. Both directions are written to the event log.
+ */
+
+export const MERGED_STATUS = "merged"
+
+export class CustomerMergeError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "CustomerMergeError"
+  }
+}
+
+// Every table with a customer_id, keyed by the name stored in movedRecords
+const CUSTOMER_TABLES = {
+  jobs: schema.jobs,
+  invoices: schema.invoices,
+  payments: schema.payments,
+  creditNotes: schema.creditNotes,
+  quotes: schema.quotes,
+  contracts: schema.contracts,
+  customerAddresses: schema.customerAddresses,
+  customerFeedback: schema.customerFeedback,
+  bookingRequests: schema.bookingRequests,
+  customerSignatures: schema.customerSignatures,
+  documentSignatures: schema.documentSignatures,
+  attachments: schema.attachments,
+  subscriptions: schema.subscriptions,
+} as const
+
+type CustomerTableName = keyof typeof CUSTOMER_TABLES
+type MovedRecords = Partial<Record<CustomerTableName, number[]>>
+
+// Survivor fields that are filled in from the duplicate when the survivor has none
+const FILLABLE_FIELDS = [
+  "alternatePhone",
+  "companyName",
+  "businessType",
+  "billingAddress",
+  "billingCity",
+  "billingPostcode",
+  "taxId",
+  "preferredContactMethod",
+  "specialInstructions",
+  "accessInstructions",
+  "parkingInstructions",
+  "source",
+  "referredBy",
+  "notes",
+] as const
+
+type FilledValues = Record<string, { previous: unknown; applied: unknown }>
+
+export interface DuplicateCustomerSummary {
+  id: number
+  name: string
+  email: string
+  phone: string | null
+  address: string | null
+  city: string | null
+  postcode: string | null
+  status: string
+  createdAt: Date
+  jobCount: number
+}
+
+export interface DuplicatePair extends CustomerMatch {
+  customer: DuplicateCustomerSummary
+  otherCustomer: DuplicateCustomerSummary
+}
+
+export interface MergeResult {
+  merge: CustomerMerge
+  moved: Partial<Record<CustomerTableName, number>>
+}
+
+export interface CustomerMergeSummary {
+  id: number
+  survivorId: number
+  survivorName: string
+  mergedCustomerId: number
+  mergedCustomerName: string
+  movedCount: number
+  createdAt: Date
+  undoneAt: Date | null
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function customerName(customer: Pick<Customer, "firstName" | "lastName">) {
+  return `${customer.firstName} ${customer.lastName}`.trim()
+}
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+}
+
+function countMoved(moved: MovedRecords) {
+  return Object.values(moved).reduce((total, ids) => total + (ids?.length ?? 0), 0)
+}
+
+/**
+ * Likely duplicates among the company's customers, best match first. Merged customers and pairs
+ * dismissed as "not duplicates" are left out. With `customerId` only that customer's matches are
+ * returned.
+ */
+export async function findDuplicateCustomers(
+  companyId: number,
+  options: { customerId?: number; limit?: number } = {},
+): Promise<DuplicatePair[]> {
+  const database = requireDb()
+  const customers = await database
+    .select({
+      id: schema.customers.id,
+      firstName: schema.customers.firstName,
+      lastName: schema.customers.lastName,
+      email: schema.customers.email,
+      phone: schema.customers.phone,
+      alternatePhone: schema.customers.alternatePhone,
+      address: schema.customers.address,
+      addressLine2: schema.customers.addressLine2,
+      city: schema.customers.city,
+      postcode: schema.customers.postcode,
+      companyName: schema.customers.companyName,
+      status: schema.customers.status,
+      createdAt: schema.customers.createdAt,
+    })
+    .from(schema.customers)
+    .where(and(eq(schema.customers.companyId, companyId), ne(schema.customers.status, MERGED_STATUS)))
+
+  if (options.customerId !== undefined && !customers.some((customer) => customer.id === options.customerId)) {
+    throw new CustomerMergeError("Customer not found", 404)
+  }
+
+  const dismissals = await database
+    .select({
+      customerId: schema.customerDuplicateDismissals.customerId,
+      otherCustomerId: schema.customerDuplicateDismissals.otherCustomerId,
+    })
+    .from(schema.customerDuplicateDismissals)
+    .where(eq(schema.customerDuplicateDismissals.companyId, companyId))
+  const dismissed = new Set(dismissals.map((pair) => `${pair.customerId}:${pair.otherCustomerId}`))
+
+  const matches = findMatches(customers, options.customerId)
+    .filter((match) => {
+      const [low, high] = [match.customerId, match.otherCustomerId].sort((a, b) => a - b)
+      return !dismissed.has(`${low}:${high}`)
+    })
+    .slice(0, options.limit ?? 100)
+  if (matches.length === 0) return []
+
+  const ids = Array.from(new Set(matches.flatMap((match) => [match.customerId, match.otherCustomerId])))
+  const jobs = await database
+    .select({ customerId: schema.jobs.customerId })
+    .from(schema.jobs)
+    .where(and(eq(schema.jobs.companyId, companyId), inArray(schema.jobs.customerId, ids)))
+  const jobCounts = new Map<number, number>()
+  for (const job of jobs) {
+    jobCounts.set(job.customerId, (jobCounts.get(job.customerId) ?? 0) + 1)
+  }
+
+  const byId = new Map(customers.map((customer) => [customer.id, customer]))
+  const summarize = (id: number): DuplicateCustomerSummary => {
+    const customer = byId.get(id)!
+    return {
+      id: customer.id,
+      name: customerName(customer),
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+      city: customer.city,
+      postcode: customer.postcode,
+      status: customer.status,
+      createdAt: customer.createdAt,
+      jobCount: jobCounts.get(customer.id) ?? 0,
+    }
+  }
+
+  return matches.map((match) => ({
+    ...match,
+    customer: summarize(match.customerId),
+    otherCustomer: summarize(match.otherCustomerId),
+  }))
+}
+
+/**
+ * Mark a pair as "not duplicates" so it stops being suggested
+ */
+export async function dismissDuplicate(companyId: number, customerId: number, otherCustomerId: number, userId?: number | null) {
+  const database = requireDb()
+  if (customerId === otherCustomerId) {
+    throw new CustomerMergeError("Choose two different customers")
+  }
+
+  const found = await database
+    .select({ id: schema.customers.id })
+    .from(schema.customers)
+    .where(and(eq(schema.customers.companyId, companyId), inArray(schema.customers.id, [customerId, otherCustomerId])))
+  if (found.length !== 2) {
+    throw new CustomerMergeError("Customer not found", 404)
+  }
+
+  const [low, high] = [customerId, otherCustomerId].sort((a, b) => a - b)
+  await database
+    .insert(schema.customerDuplicateDismissals)
+    .values({ companyId, customerId: low, otherCustomerId: high, dismissedById: userId ?? null })
+    .onConflictDoNothing()
+}
+
+async function lockCustomer(tx: DbTransaction, companyId: number, customerId: number) {
+  const [customer] = await tx
+    .select()
+    .from(schema.customers)
+    .where(and(eq(schema.customers.id, customerId), eq(schema.customers.companyId, companyId)))
+    .for("update")
+  return customer ?? null
+}
+
+async function moveRecords(tx: DbTransaction, fromCustomerId: number, toCustomerId: number, onlyIds?: MovedRecords) {
+  const moved: MovedRecords = {}
+  for (const [name, table] of Object.entries(CUSTOMER_TABLES) as [CustomerTableName, (typeof CUSTOMER_TABLES)[CustomerTableName]][]) {
+    const ids = onlyIds?.[name]
+    if (onlyIds && !ids?.length) continue
+
+    const rows: { id: number }[] = await tx
+      .update(table)
+      .set({ customerId: toCustomerId })
+      .where(and(eq(table.customerId, fromCustomerId), ids ? inArray(table.id, ids) : undefined))
+      .returning({ id: table.id })
+    if (rows.length > 0) moved[name] = rows.map((row) => row.id)
+  }
+  return moved
+}
+
+/**
+ * Merge `mergedCustomerId` into `survivorId`. The survivor keeps its own details; blank fields are
+ * filled in from the duplicate, and the duplicate's primary address is added as an extra address
+ * when the survivor doesn't already have it. Customers with two different Stripe customers can't be
+ * merged.
+ */
+export async function mergeCustomers(
+  companyId: number,
+  input: { survivorId: number; mergedCustomerId: number; userId?: number | null },
+): Promise<MergeResult> {
+  const database = requireDb()
+  const { survivorId, mergedCustomerId } = input
+  if (survivorId === mergedCustomerId) {
+    throw new CustomerMergeError("A customer can't be merged into itself")
+  }
+
+  return database.transaction(async (tx) => {
+    // Lock in id order so two merges of the same pair can't deadlock
+    const [first, second] = [survivorId, mergedCustomerId].sort((a, b) => a - b)
+    const locked = [await lockCustomer(tx, companyId, first), await lockCustomer(tx, companyId, second)]
+    const survivor = locked.find((customer) => customer?.id === survivorId)
+    const duplicate = locked.find((customer) => customer?.id === mergedCustomerId)
+    if (!survivor || !duplicate) {
+      throw new CustomerMergeError("Customer not found", 404)
+    }
+    if (survivor.status === MERGED_STATUS || duplicate.status === MERGED_STATUS) {
+      throw new CustomerMergeError("One of these customers has already been merged", 409)
+    }
+    // Saved cards live on one Stripe customer per record; merging two would strand one set of cards
+    if (survivor.stripeCustomerId && duplicate.stripeCustomerId && survivor.stripeCustomerId !== duplicate.stripeCustomerId) {
+      throw new CustomerMergeError("Both customers have cards saved with Stripe; remove one customer's saved card before merging", 409)
+    }
+
+    const survivorAddresses = await tx
+      .select()
+      .from(schema.customerAddresses)
+      .where(eq(schema.customerAddresses.customerId, survivor.id))
+
+    const moved = await moveRecords(tx, duplicate.id, survivor.id)
+
+    const filled: FilledValues = {}
+    const updates: Partial<Customer> = {}
+    for (const field of FILLABLE_FIELDS) {
+      if (isBlank(survivor[field]) && !isBlank(duplicate[field])) {
+        updates[field] = duplicate[field]
+        filled[field] = { previous: survivor[field], applied: duplicate[field] }
+      }
+    }
+    // Phone numbers are unique per company, so the duplicate's number is kept as the alternate
+    if (isBlank(updates.alternatePhone ?? survivor.alternatePhone) && duplicate.phone && duplicate.phone !== survivor.phone) {
+      updates.alternatePhone = duplicate.phone
+      filled.alternatePhone = { previous: survivor.alternatePhone, applied: duplicate.phone }
+    }
+    // An opt-out on either record still applies to the person
+    if (duplicate.paymentRemindersOptOut && !survivor.paymentRemindersOptOut) {
+      updates.paymentRemindersOptOut = duplicate.paymentRemindersOptOut
+      filled.paymentRemindersOptOut = { previous: survivor.paymentRemindersOptOut, applied: duplicate.paymentRemindersOptOut }
+    }
+    // The duplicate's subscriptions move across, so its saved cards have to come with them
+    if (!survivor.stripeCustomerId && duplicate.stripeCustomerId) {
+      updates.stripeCustomerId = duplicate.stripeCustomerId
+      filled.stripeCustomerId = { previous: survivor.stripeCustomerId, applied: duplicate.stripeCustomerId }
+    }
+    if (Object.keys(updates).length > 0) {
+      await tx
+        .update(schema.customers)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(schema.customers.id, survivor.id))
+    }
+
+    let createdAddressId: number | null = null
+    if (duplicate.address) {
+      const addressKey = (address: string | null, line2: string | null, postcode: string | null) =>
+        `${normalizeAddress(address, line2)}|${normalizePostcodeKey(postcode) ?? ""}`
+      const duplicateKey = addressKey(duplicate.address, duplicate.addressLine2, duplicate.postcode)
+      const known = [
+        addressKey(survivor.address, survivor.addressLine2, survivor.postcode),
+        ...survivorAddresses.map((address) => addressKey(address.address, address.addressLine2, address.postcode)),
+      ]
+      if (!known.includes(duplicateKey)) {
+        const [address] = await tx
+          .insert(schema.customerAddresses)
+          .values({
+            customerId: survivor.id,
+            label: `From ${customerName(duplicate)}`.slice(0, 100),
+            address: duplicate.address,
+            addressLine2: duplicate.addressLine2,
+            city: duplicate.city,
+            postcode: duplicate.postcode,
+            country: duplicate.country,
+            latitude: duplicate.latitude,
+            longitude: duplicate.longitude,
+            accessInstructions: duplicate.accessInstructions,
+            parkingInstructions: duplicate.parkingInstructions,
+            specialInstructions: duplicate.specialInstructions,
+          })
+          .returning({ id: schema.customerAddresses.id })
+        createdAddressId = address.id
+      }
+    }
+
+    await tx
+      .update(schema.customers)
+      .set({ status: MERGED_STATUS, updatedAt: new Date() })
+      .where(eq(schema.customers.id, duplicate.id))
+
+    const [merge] = await tx
+      .insert(schema.customerMerges)
+      .values({
+        companyId,
+        survivorId: survivor.id,
+        mergedCustomerId: duplicate.id,
+        previousStatus: duplicate.status,
+        movedRecords: moved,
+        survivorPreviousValues: Object.keys(filled).length > 0 ? filled : null,
+        createdAddressId,
+        mergedById: input.userId ?? null,
+      })
+      .returning()
+
+    const movedCounts = Object.fromEntries(Object.entries(moved).map(([name, ids]) => [name, ids.length]))
+    await tx.insert(schema.eventLogs).values({
+      companyId,
+      eventType: "customers_merged",
+      entityType: "customer",
+      entityId: survivor.id,
+      userId: input.userId ?? null,
+      description: `Merged ${customerName(duplicate)} (${duplicate.email}) into ${customerName(survivor)}`,
+      metadata: JSON.stringify({
+        mergeId: merge.id,
+        survivorId: survivor.id,
+        mergedCustomerId: duplicate.id,
+        moved: movedCounts,
+        filledFields: Object.keys(filled),
+        createdAddressId,
+      }),
+    })
+
+    return { merge, moved: movedCounts }
+  })
+}
+
+/**
+ * Undo a merge: the rows it moved go back to the merged customer (unless they have been moved
+ * again since), filled-in survivor fields are cleared if nobody has edited them, and the merged
+ * customer gets its old status back.
+ */
+export async function undoCustomerMerge(companyId: number, mergeId: number, userId?: number | null) {
+  const database = requireDb()
+
+  return database.transaction(async (tx) => {
+    const [merge] = await tx
+      .update(schema.customerMerges)
+      .set({ undoneAt: new Date(), undoneById: userId ?? null })
+      .where(
+        and(
+          eq(schema.customerMerges.id, mergeId),
+          eq(schema.customerMerges.companyId, companyId),
+          isNull(schema.customerMerges.undoneAt),
+        ),
+      )
+      .returning()
+    if (!merge) {
+      const existing = await tx.query.customerMerges.findFirst({
+        where: and(eq(schema.customerMerges.id, mergeId), eq(schema.customerMerges.companyId, companyId)),
+      })
+      throw existing
+        ? new CustomerMergeError("This merge has already been undone", 409)
+        : new CustomerMergeError("Merge not found", 404)
+    }
+
+    const [first, second] = [merge.survivorId, merge.mergedCustomerId].sort((a, b) => a - b)
+    const locked = [await lockCustomer(tx, companyId, first), await lockCustomer(tx, companyId, second)]
+    const survivor = locked.find((customer) => customer?.id === merge.survivorId)
+    const duplicate = locked.find((customer) => customer?.id === merge.mergedCustomerId)
+    if (!survivor || !duplicate) {
+      throw new CustomerMergeError("Customer not found", 404)
+    }
+    if (duplicate.status !== MERGED_STATUS) {
+      throw new CustomerMergeError("The merged customer has been changed since and can't be restored", 409)
+    }
+    if (survivor.status === MERGED_STATUS) {
+      // Its records have moved on again; that later merge has to be undone first
+      throw new CustomerMergeError(`${customerName(survivor)} has since been merged into another customer; undo that merge first`, 409)
+    }
+
+    const moved = await moveRecords(tx, survivor.id, duplicate.id, merge.movedRecords as MovedRecords)
+
+    if (merge.createdAddressId) {
+      await tx
+        .delete(schema.customerAddresses)
+        .where(
+          and(
+            eq(schema.customerAddresses.id, merge.createdAddressId),
+            eq(schema.customerAddresses.customerId, survivor.id),
+          ),
+        )
+    }
+
+    const filled = (merge.survivorPreviousValues ?? {}) as FilledValues
+    const restore: Record<string, unknown> = {}
+    for (const [field, { previous, applied }] of Object.entries(filled)) {
+      if (survivor[field as keyof Customer] === applied) restore[field] = previous
+    }
+    if (Object.keys(restore).length > 0) {
+      await tx
+        .update(schema.customers)
+        .set({ ...(restore as Partial<Customer>), updatedAt: new Date() })
+        .where(eq(schema.customers.id, survivor.id))
+    }
+
+    await tx
+      .update(schema.customers)
+      .set({ status: merge.previousStatus, updatedAt: new Date() })
+      .where(eq(schema.customers.id, duplicate.id))
+
+    const movedCounts = Object.fromEntries(Object.entries(moved).map(([name, ids]) => [name, ids.length]))
+    await tx.insert(schema.eventLogs).values({
+      companyId,
+      eventType: "customer_merge_undone",
+      entityType: "customer",
+      entityId: duplicate.id,
+      userId: userId ?? null,
+      description: `Undid merge of ${customerName(duplicate)} into ${customerName(survivor)}`,
+      metadata: JSON.stringify({
+        mergeId: merge.id,
+        survivorId: survivor.id,
+        mergedCustomerId: duplicate.id,
+        restored: movedCounts,
+        restoredFields: Object.keys(restore),
+      }),
+    })
+
+    return { merge, restored: movedCounts }
+  })
+}
+
+/**
+ * Merges a customer took part in, either as the survivor or as the merged record, newest first
+ */
+export async function listCustomerMerges(companyId: number, customerId: number): Promise<CustomerMergeSummary[]> {
+  const database = requireDb()
+  const merges = await database
+    .select()
+    .from(schema.customerMerges)
+    .where(
+      and(
+        eq(schema.customerMerges.companyId, companyId),
+        or(eq(schema.customerMerges.survivorId, customerId), eq(schema.customerMerges.mergedCustomerId, customerId)),
+      ),
+    )
+    .orderBy(desc(schema.customerMerges.createdAt))
+  if (merges.length === 0) return []
+
+  const ids = Array.from(new Set(merges.flatMap((merge) => [merge.survivorId, merge.mergedCustomerId])))
+  const customers = await database
+    .select({ id: schema.customers.id, firstName: schema.customers.firstName, lastName: schema.customers.lastName })
+    .from(schema.customers)
+    .where(inArray(schema.customers.id, ids))
+  const names = new Map(customers.map((customer) => [customer.id, customerName(customer)]))
+
+  return merges.map((merge) => ({
+    id: merge.id,
+    survivorId: merge.survivorId,
+    survivorName: names.get(merge.survivorId) ?? "",
+    mergedCustomerId: merge.mergedCustomerId,
+    mergedCustomerName: names.get(merge.mergedCustomerId) ?? "",
+    movedCount: countMoved(merge.movedRecords as MovedRecords),
+    createdAt: merge.createdAt,
+    undoneAt: merge.undoneAt,
+  }))
+}
@@ -0,0 +1,254 @@
+/**
+ * Fuzzy duplicate matching for customers.
+ *
+ * Each pair is scored on the signals a household or a re-keyed booking tends to share: phone
+ * numbers, postcode, street address, name and the local part of the email. Only pairs sharing a
+ * blocking key (a phone, postcode, surname or email name) are compared, so a company with
+ * thousands of customers doesn't mean millions of comparisons.
+ */
+
+export interface MatchableCustomer {
+  id: number
+  firstName: string
+  lastName: string
+  email: string
+  phone: string | null
+  alternatePhone: string | null
+  address: string | null
+  addressLine2: string | null
+  city: string | null
+  postcode: string | null
+  companyName: string | null
+}
+
+export type MatchConfidence = "high" | "medium" | "low"
+
+export interface CustomerMatch {
+  customerId: number
+  otherCustomerId: number
+  score: number
+  confidence: MatchConfidence
+  reasons: string[]
+}
+
+// Pairs scoring below this aren't reported
+export const MIN_DUPLICATE_SCORE = 50
+
+// Blocks bigger than this (a very common surname) are skipped rather than compared pairwise
+const MAX_BLOCK_SIZE = 200
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  rd: "road",
+  st: "street",
+  ave: "avenue",
+  av: "avenue",
+  ln: "lane",
+  dr: "drive",
+  cl: "close",
+  ct: "court",
+  cres: "crescent",
+  gdns: "gardens",
+  pl: "place",
+  sq: "square",
+  ter: "terrace",
+  apt: "flat",
+  apartment: "flat",
+}
+
+function stripAccents(value: string) {
+  return value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+}
+
+export function normalizeName(value: string | null | undefined) {
+  return stripAccents(value ?? "").toLowerCase().replace(/[^a-z]/g, "")
+}
+
+/**
+ * Digits only, with +44 rewritten to the national 0 so both spellings of a UK number match
+ */
+export function normalizePhoneKey(value: string | null | undefined) {
+  let digits = (value ?? "").replace(/\D/g, "")
+  if (digits.startsWith("44")) digits = `0${digits.slice(2)}`
+  return digits.length >= 10 ? digits : null
+}
+
+export function normalizePostcodeKey(value: string | null | undefined) {
+  const key = (value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "")
+  return key || null
+}
+
+export function normalizeAddress(...parts: (string | null | undefined)[]) {
+  const words = stripAccents(parts.filter(Boolean).join(" "))
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+  return words.join(" ")
+}
+
+function emailLocalPart(email: string) {
+  const local = email.toLowerCase().split("@")[0] ?? ""
+  // Gmail-style tags and dots don't change the mailbox
+  return local.replace(/\+.*$/, "").replace(/\./g, "")
+}
+
+function levenshtein(a: string, b: string) {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * 1 for identical strings, falling towards 0 as the edit distance grows
+ */
+export function similarity(a: string, b: string) {
+  if (!a || !b) return 0
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length)
+}
+
+interface PreparedCustomer {
+  customer: MatchableCustomer
+  firstName: string
+  lastName: string
+  phones: string[]
+  postcode: string | null
+  address: string
+  emailName: string
+  companyName: string
+}
+
+function prepare(customer: MatchableCustomer): PreparedCustomer {
+  return {
+    customer,
+    firstName: normalizeName(customer.firstName),
+    lastName: normalizeName(customer.lastName),
+    phones: [customer.phone, customer.alternatePhone]
+      .map(normalizePhoneKey)
+      .filter((phone): phone is string => Boolean(phone)),
+    postcode: normalizePostcodeKey(customer.postcode),
+    address: normalizeAddress(customer.address, customer.addressLine2),
+    emailName: emailLocalPart(customer.email),
+    companyName: normalizeName(customer.companyName),
+  }
+}
+
+function blockingKeys(prepared: PreparedCustomer) {
+  const keys = prepared.phones.map((phone) => `phone:${phone}`)
+  if (prepared.postcode) keys.push(`postcode:${prepared.postcode}`)
+  if (prepared.lastName) keys.push(`surname:${prepared.lastName}`)
+  if (prepared.emailName.length >= 4) keys.push(`email:${prepared.emailName}`)
+  return keys
+}
+
+function confidenceFor(score: number): MatchConfidence {
+  if (score >= 80) return "high"
+  if (score >= 65) return "medium"
+  return "low"
+}
+
+function scorePair(a: PreparedCustomer, b: PreparedCustomer): Omit<CustomerMatch, "customerId" | "otherCustomerId"> {
+  let score = 0
+  const reasons: string[] = []
+
+  if (a.phones.some((phone) => b.phones.includes(phone))) {
+    score += 40
+    reasons.push("Same phone number")
+  }
+
+  const samePostcode = Boolean(a.postcode && a.postcode === b.postcode)
+  if (samePostcode) {
+    score += 20
+    reasons.push("Same postcode")
+  }
+  const addressSimilarity = similarity(a.address, b.address)
+  if (addressSimilarity >= 0.85) {
+    // A matching street line only means much with the postcode to back it up
+    score += samePostcode ? 25 : 15
+    reasons.push(addressSimilarity === 1 ? "Same address" : "Similar address")
+  }
+
+  const fullNameSimilarity = similarity(`${a.firstName}${a.lastName}`, `${b.firstName}${b.lastName}`)
+  // Names entered the other way round ("Smith John")
+  const swappedSimilarity = similarity(`${a.firstName}${a.lastName}`, `${b.lastName}${b.firstName}`)
+  const nameSimilarity = Math.max(fullNameSimilarity, swappedSimilarity)
+  if (nameSimilarity === 1) {
+    score += 30
+    reasons.push("Same name")
+  } else if (nameSimilarity >= 0.8) {
+    score += 20
+    reasons.push("Similar name")
+  } else if (a.lastName && a.lastName === b.lastName) {
+    score += 10
+    reasons.push("Same surname")
+  }
+
+  if (a.emailName.length >= 4 && a.emailName === b.emailName) {
+    score += 20
+    reasons.push("Same email name")
+  }
+
+  if (a.companyName && a.companyName === b.companyName) {
+    score += 15
+    reasons.push("Same company")
+  }
+
+  score = Math.min(score, 100)
+  return { score, confidence: confidenceFor(score), reasons }
+}
+
+/**
+ * Find likely duplicate pairs, best first. With `onlyCustomerId` only pairs involving that
+ * customer are returned, with it as `customerId`.
+ */
+export function findMatches(customers: MatchableCustomer[], onlyCustomerId?: number): CustomerMatch[] {
+  const prepared = customers.map(prepare)
+  const blocks = new Map<string, PreparedCustomer[]>()
+  for (const entry of prepared) {
+    for (const key of blockingKeys(entry)) {
+      const block = blocks.get(key) ?? []
+      block.push(entry)
+      blocks.set(key, block)
+    }
+  }
+
+  const seen = new Set<string>()
+  const matches: CustomerMatch[] = []
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const swap =
+          onlyCustomerId !== undefined
+            ? block[j].customer.id === onlyCustomerId
+            : block[i].customer.id > block[j].customer.id
+        const a = swap ? block[j] : block[i]
+        const b = swap ? block[i] : block[j]
+        if (onlyCustomerId !== undefined && a.customer.id !== onlyCustomerId) continue
+
+        const pairKey = `${a.customer.id}:${b.customer.id}`
+        if (seen.has(pairKey)) continue
+        seen.add(pairKey)
+
+        const result = scorePair(a, b)
+        if (result.score >= MIN_DUPLICATE_SCORE) {
+          matches.push({ customerId: a.customer.id, otherCustomerId: b.customer.id, ...result })
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.customerId - b.customerId)
+}
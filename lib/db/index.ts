@@ -50,6 +50,10 @@ if (isValidPostgresUrl(rawConnectionString)) {
 
 export const db = database
 
+// Handle passed to `db.transaction()` callbacks, for helpers that must run inside the caller's transaction
+export type DbTransaction = Parameters<Parameters<DbInstance["transaction"]>[0]>[0]
+export type DbExecutor = DbInstance | DbTransaction
+
 export async function pingDb() {
   if (!client) return false
 
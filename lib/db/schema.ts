@@ -38,6 +38,15 @@ export const companies = pgTable(
     subscriptionPlan: varchar("subscription_plan", { length: 50 }).notNull().default("trial"),
     subscriptionStatus: varchar("subscription_status", { length: 50 }).notNull().default("active"),
     notificationSettings: jsonb("notification_settings"),
+    checkInSettings: jsonb("check_in_settings"),
+    reminderSettings: jsonb("reminder_settings"),
+    numberingSettings: jsonb("numbering_settings"),
+    vatSettings: jsonb("vat_settings"),
+    accountingSettings: jsonb("accounting_settings"),
+    payrollSettings: jsonb("payroll_settings"),
+    leaveSettings: jsonb("leave_settings"),
+    bookingSettings: jsonb("booking_settings"),
+    priceBook: jsonb("price_book"),
     trialEndsAt: timestamp("trial_ends_at"),
     // Stripe integration
     stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
@@ -191,6 +200,59 @@ export const eventLogs = pgTable(
   }),
 )
 
+// Scheduled task runs - history of background jobs run by the scheduler
+export const scheduledTaskRuns = pgTable(
+  "scheduled_task_runs",
+  {
+    id: serial("id").primaryKey(),
+    task: varchar("task", { length: 100 }).notNull(),
+    companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }), // null for global tasks
+    // task + company + schedule window, so a window is only ever processed once
+    idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+    trigger: varchar("trigger", { length: 20 }).notNull().default("cron"), // cron, manual, worker
+    status: varchar("status", { length: 20 }).notNull().default("running"), // running, succeeded, failed
+    attempts: integer("attempts").notNull().default(1),
+    result: jsonb("result"),
+    error: text("error"),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    durationMs: integer("duration_ms"),
+  },
+  (table) => ({
+    idempotencyKeyIdx: uniqueIndex("scheduled_task_runs_idempotency_key_idx").on(table.idempotencyKey),
+    taskIdx: index("scheduled_task_runs_task_idx").on(table.task, table.startedAt),
+    companyIdx: index("scheduled_task_runs_company_idx").on(table.companyId),
+    statusIdx: index("scheduled_task_runs_status_idx").on(table.status),
+  }),
+)
+
+// Scheduled task locks - stops two scheduler processes running the same task at once
+export const scheduledTaskLocks = pgTable("scheduled_task_locks", {
+  name: varchar("name", { length: 150 }).primaryKey(),
+  lockedBy: varchar("locked_by", { length: 100 }).notNull(),
+  lockedAt: timestamp("locked_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+})
+
+// Document sequences - last number handed out per company, document series and period.
+// Rows are incremented inside the transaction that inserts the document, so numbers are gap-free.
+export const documentSequences = pgTable(
+  "document_sequences",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    series: varchar("series", { length: 30 }).notNull(), // invoice, credit_note, quote, contract
+    period: varchar("period", { length: 10 }).notNull().default("all"), // "all", or the year for yearly resets
+    lastValue: integer("last_value").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    seriesPeriodIdx: uniqueIndex("document_sequences_series_period_idx").on(table.companyId, table.series, table.period),
+  }),
+)
+
 // Customer feedback table - for tracking customer satisfaction
 export const customerFeedback = pgTable(
   "customer_feedback",
@@ -259,16 +321,17 @@ export const employees = pgTable(
       salary: decimal("salary", { precision: 10, scale: 2 }),
       paymentFrequency: varchar("payment_frequency", { length: 50 }),
 
-    // Skills & Certifications
-    skills: text("skills"),
-    certifications: text("certifications"),
+    // Holiday entitlement
+    contractedHoursPerWeek: decimal("contracted_hours_per_week", { precision: 5, scale: 2 }), // null = full time
+    annualLeaveDays: decimal("annual_leave_days", { precision: 5, scale: 1 }), // overrides the calculated allowance
+
+    // Skills, certifications and availability live in their own tables
     languages: text("languages"),
 
-    // Performance & Availability
+    // Performance
     performanceRating: decimal("performance_rating", { precision: 3, scale: 2 }),
     totalJobsCompleted: integer("total_jobs_completed").default(0),
     averageJobRating: decimal("average_job_rating", { precision: 3, scale: 2 }),
-    availability: text("availability"),
 
     // Emergency Contact
     emergencyContactName: varchar("emergency_contact_name", { length: 255 }),
@@ -314,6 +377,8 @@ export const customers = pgTable(
     city: varchar("city", { length: 100 }),
     postcode: varchar("postcode", { length: 50 }),
     country: varchar("country", { length: 100 }).default("UK"),
+    latitude: decimal("latitude", { precision: 10, scale: 7 }),
+    longitude: decimal("longitude", { precision: 10, scale: 7 }),
 
     // Customer Details
     customerType: varchar("customer_type", { length: 50 }).notNull().default("residential"),
@@ -340,6 +405,9 @@ export const customers = pgTable(
     source: varchar("source", { length: 100 }),
     referredBy: varchar("referred_by", { length: 255 }),
     notes: text("notes"),
+    paymentRemindersOptOut: smallint("payment_reminders_opt_out").notNull().default(0), // 1 = no payment reminder emails
+    // Stripe customer holding the cards saved for subscriptions
+    stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
 
     // Timestamps
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -368,6 +436,8 @@ export const customerAddresses = pgTable(
     city: varchar("city", { length: 100 }),
     postcode: varchar("postcode", { length: 50 }),
     country: varchar("country", { length: 100 }).default("UK"),
+    latitude: decimal("latitude", { precision: 10, scale: 7 }),
+    longitude: decimal("longitude", { precision: 10, scale: 7 }),
     accessInstructions: text("access_instructions"),
     parkingInstructions: text("parking_instructions"),
     specialInstructions: text("special_instructions"),
@@ -476,6 +546,8 @@ export const jobs = pgTable(
     addressLine2: text("address_line_2"),
     city: varchar("city", { length: 100 }),
     postcode: varchar("postcode", { length: 50 }),
+    latitude: decimal("latitude", { precision: 10, scale: 7 }),
+    longitude: decimal("longitude", { precision: 10, scale: 7 }),
     accessInstructions: text("access_instructions"),
     parkingInstructions: text("parking_instructions"),
     specialInstructions: text("special_instructions"),
@@ -488,6 +560,10 @@ export const jobs = pgTable(
     // Recurrence
     recurrence: varchar("recurrence", { length: 50 }),
     recurrenceEndDate: timestamp("recurrence_end_date"),
+    // RFC 5545 DTSTART/RRULE/EXDATE block, set on the parent job of a series
+    recurrenceRule: text("recurrence_rule"),
+    // Original start of this occurrence within its series (RFC 5545 RECURRENCE-ID)
+    recurrenceId: timestamp("recurrence_id"),
     parentJobId: integer("parent_job_id").references(() => jobs.id, { onDelete: "set null" }),
 
     // Contract Link
@@ -509,6 +585,11 @@ export const jobs = pgTable(
     actualPrice: decimal("actual_price", { precision: 10, scale: 2 }),
     employeePay: decimal("employee_pay", { precision: 10, scale: 2 }),
     currency: varchar("currency", { length: 10 }).default("GBP"),
+    // Service area the job's address falls in, and the surcharge included in the price for it
+    serviceAreaId: integer("service_area_id").references(() => serviceAreas.id, { onDelete: "set null" }),
+    areaSurcharge: decimal("area_surcharge", { precision: 10, scale: 2 }),
+    // Itemised price-book quote the price came from, repeated on the invoice
+    priceBreakdown: jsonb("price_breakdown"),
 
     // Quality & Feedback
     qualityRating: decimal("quality_rating", { precision: 3, scale: 2 }),
@@ -525,6 +606,7 @@ export const jobs = pgTable(
   },
   (table) => ({
     companyIdx: index("jobs_company_idx").on(table.companyId),
+    serviceAreaIdx: index("jobs_service_area_idx").on(table.serviceAreaId),
     customerIdx: index("jobs_customer_idx").on(table.customerId),
     assigneeIdx: index("jobs_assignee_idx").on(table.assignedTo),
     statusIdx: index("jobs_status_idx").on(table.status),
@@ -532,6 +614,7 @@ export const jobs = pgTable(
     planIdx: index("jobs_plan_idx").on(table.planId),
     jobTypeIdx: index("jobs_type_idx").on(table.jobType),
     feedbackTokenIdx: index("jobs_feedback_token_idx").on(table.feedbackToken),
+    parentIdx: index("jobs_parent_idx").on(table.parentJobId),
   }),
 )
 
@@ -563,6 +646,26 @@ export const jobAssignments = pgTable(
   }),
 )
 
+// Scheduling conflicts a manager chose to override when assigning a job or shift, with their reason
+export const schedulingConflictOverrides = pgTable(
+  "scheduling_conflict_overrides",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    entityType: varchar("entity_type", { length: 20 }).notNull(), // job, shift
+    entityId: integer("entity_id").notNull(),
+    conflicts: jsonb("conflicts").notNull(), // conflicts shown when the override was made
+    reason: text("reason").notNull(),
+    overriddenById: integer("overridden_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    entityIdx: index("scheduling_conflict_overrides_entity_idx").on(table.companyId, table.entityType, table.entityId),
+  }),
+)
+
 export const jobTasks = pgTable(
   "job_tasks",
   {
@@ -604,8 +707,10 @@ export const taskVerificationPhotos = pgTable(
     // Photo file info
     fileName: varchar("file_name", { length: 255 }).notNull(),
     originalName: varchar("original_name", { length: 255 }).notNull(),
-    url: varchar("url", { length: 500 }).notNull(),
+    url: varchar("url", { length: 500 }), // Legacy public URL; new photos use storageKey
     thumbnailUrl: varchar("thumbnail_url", { length: 500 }),
+    storageKey: varchar("storage_key", { length: 500 }), // Private object in lib/storage, served via signed URLs
+    thumbnailKey: varchar("thumbnail_key", { length: 500 }),
     mimeType: varchar("mime_type", { length: 100 }).notNull(),
     sizeBytes: integer("size_bytes").notNull(),
 
@@ -733,6 +838,59 @@ export const customerSignatures = pgTable(
   }),
 )
 
+// Document signatures - contracts and quotes e-signed by the customer, by link or in the portal.
+// Each row starts as a signing request for the document as issued and keeps the audit trail once signed.
+export const documentSignatures = pgTable(
+  "document_signatures",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    customerId: integer("customer_id")
+      .references(() => customers.id, { onDelete: "set null" }),
+    documentType: varchar("document_type", { length: 20 }).notNull(), // contract, quote
+    contractId: integer("contract_id")
+      .references(() => contracts.id, { onDelete: "cascade" }),
+    quoteId: integer("quote_id")
+      .references(() => quotes.id, { onDelete: "cascade" }),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, signed, cancelled
+
+    // Signing link
+    token: varchar("token", { length: 64 }).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    sentTo: varchar("sent_to", { length: 255 }),
+
+    // SHA-256 of the document PDF as issued for signing
+    documentHash: varchar("document_hash", { length: 64 }).notNull(),
+
+    // Signature data
+    signatureType: varchar("signature_type", { length: 20 }), // drawn, typed
+    signatureData: text("signature_data"), // Base64 PNG for drawn signatures, the typed name otherwise
+    signerName: varchar("signer_name", { length: 255 }),
+    signerEmail: varchar("signer_email", { length: 255 }),
+
+    // Audit trail
+    signingMethod: varchar("signing_method", { length: 20 }), // link, portal
+    ipAddress: varchar("ip_address", { length: 50 }),
+    userAgent: text("user_agent"),
+    signedAt: timestamp("signed_at"),
+
+    // Signed PDF, with its audit certificate page
+    signedDocumentKey: text("signed_document_key"),
+    signedDocumentHash: varchar("signed_document_hash", { length: 64 }),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenIdx: uniqueIndex("document_signatures_token_idx").on(table.token),
+    companyIdx: index("document_signatures_company_idx").on(table.companyId),
+    contractIdx: index("document_signatures_contract_idx").on(table.contractId),
+    quoteIdx: index("document_signatures_quote_idx").on(table.quoteId),
+  }),
+)
+
 // Time-Off Requests - for employees to request leave/vacation
 export const timeOffRequests = pgTable(
   "time_off_requests",
@@ -759,6 +917,8 @@ export const timeOffRequests = pgTable(
     reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
     reviewedAt: timestamp("reviewed_at"),
     reviewNotes: text("review_notes"),
+    // Working days taken from the holiday balance, set when a holiday request is approved
+    deductedDays: decimal("deducted_days", { precision: 5, scale: 1 }),
 
     // Timestamps
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -773,6 +933,155 @@ export const timeOffRequests = pgTable(
   }),
 )
 
+// Company-wide bank holidays. They are never counted as days of leave, and when the company's
+// allowance includes them they are taken from every employee's balance.
+export const bankHolidays = pgTable(
+  "bank_holidays",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyDateIdx: uniqueIndex("bank_holidays_company_date_idx").on(table.companyId, table.date),
+  }),
+)
+
+// Manual changes to an employee's holiday balance for one leave year, e.g. days bought or sold
+export const leaveAdjustments = pgTable(
+  "leave_adjustments",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    leaveYearStart: date("leave_year_start").notNull(),
+    days: decimal("days", { precision: 5, scale: 1 }).notNull(), // negative to remove days
+    reason: text("reason").notNull(),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    employeeYearIdx: index("leave_adjustments_employee_year_idx").on(table.employeeId, table.leaveYearStart),
+  }),
+)
+
+// Weekly recurring windows an employee can work. No rows means availability has not been set.
+export const employeeAvailabilityWindows = pgTable(
+  "employee_availability_windows",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    dayOfWeek: smallint("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+    startTime: varchar("start_time", { length: 5 }).notNull(), // HH:mm
+    endTime: varchar("end_time", { length: 5 }).notNull(), // HH:mm, 24:00 for end of day
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    employeeIdx: index("employee_availability_windows_employee_idx").on(table.employeeId, table.dayOfWeek),
+  }),
+)
+
+// Date-specific changes to the weekly pattern, e.g. a day off or different hours
+export const employeeAvailabilityOverrides = pgTable(
+  "employee_availability_overrides",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    isAvailable: smallint("is_available").notNull().default(0),
+    // Only for available days; null means the whole day
+    startTime: varchar("start_time", { length: 5 }),
+    endTime: varchar("end_time", { length: 5 }),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    employeeDateIdx: uniqueIndex("employee_availability_overrides_employee_date_idx").on(table.employeeId, table.date),
+  }),
+)
+
+// Company catalogue of skills employees can be matched on
+export const skills = pgTable(
+  "skills",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyNameIdx: uniqueIndex("skills_company_name_idx").on(table.companyId, table.name),
+  }),
+)
+
+export const employeeSkills = pgTable(
+  "employee_skills",
+  {
+    id: serial("id").primaryKey(),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    skillId: integer("skill_id")
+      .notNull()
+      .references(() => skills.id, { onDelete: "cascade" }),
+    level: varchar("level", { length: 20 }).notNull().default("competent"), // learning, competent, expert
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    employeeSkillIdx: uniqueIndex("employee_skills_employee_skill_idx").on(table.employeeId, table.skillId),
+    skillIdx: index("employee_skills_skill_idx").on(table.skillId),
+  }),
+)
+
+export const employeeCertifications = pgTable(
+  "employee_certifications",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(), // e.g. DBS check, First Aid
+    issuer: varchar("issuer", { length: 255 }),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    issuedOn: date("issued_on"),
+    expiresOn: date("expires_on"), // null = does not expire
+    // Scanned certificate or other evidence
+    attachmentId: integer("attachment_id").references(() => attachments.id, { onDelete: "set null" }),
+    expiryReminderSentAt: timestamp("expiry_reminder_sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    employeeIdx: index("employee_certifications_employee_idx").on(table.employeeId),
+    expiresIdx: index("employee_certifications_expires_idx").on(table.companyId, table.expiresOn),
+  }),
+)
+
 export const invoices = pgTable(
   "invoices",
   {
@@ -785,6 +1094,8 @@ export const invoices = pgTable(
       .notNull()
       .references(() => customers.id, { onDelete: "cascade" }),
     jobId: integer("job_id").references(() => jobs.id, { onDelete: "set null" }),
+    // Set on invoices raised by a contract's billing run
+    contractId: integer("contract_id").references(() => contracts.id, { onDelete: "set null" }),
 
     // Financial Details
     currency: varchar("currency", { length: 10 }).notNull().default("GBP"),
@@ -795,31 +1106,73 @@ export const invoices = pgTable(
     total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0"),
     amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull().default("0"),
     amountDue: decimal("amount_due", { precision: 12, scale: 2 }).notNull().default("0"),
+    // Sum of credit notes issued against this invoice
+    amountCredited: decimal("amount_credited", { precision: 12, scale: 2 }).notNull().default("0"),
+    // Line prices include VAT; subtotal is always stored net
+    pricesIncludeVat: smallint("prices_include_vat").notNull().default(0),
+    // Domestic reverse charge: VAT rates are shown but the customer accounts for the VAT
+    reverseCharge: smallint("reverse_charge").notNull().default(0),
 
     // Status and Dates
-    status: varchar("status", { length: 50 }).notNull().default("draft"),
+    status: varchar("status", { length: 50 }).notNull().default("draft"), // draft, sent, overdue, paid, credited, void
     issuedAt: timestamp("issued_at"),
     dueAt: timestamp("due_at"),
     paidAt: timestamp("paid_at"),
+    voidedAt: timestamp("voided_at"),
+    voidReason: text("void_reason"),
 
     // Additional Info
     notes: text("notes"),
     terms: text("terms"),
     footer: text("footer"),
 
+    // Unguessable token for the public pay link (/pay/[token])
+    paymentToken: varchar("payment_token", { length: 64 }),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => ({
     companyIdx: index("invoices_company_idx").on(table.companyId),
+    paymentTokenIdx: uniqueIndex("invoices_payment_token_idx").on(table.paymentToken),
     invoiceNumberIdx: uniqueIndex("invoices_invoice_number_idx").on(table.companyId, table.invoiceNumber),
     customerIdx: index("invoices_customer_idx").on(table.customerId),
+    contractIdx: index("invoices_contract_idx").on(table.contractId),
     statusIdx: index("invoices_status_idx").on(table.status),
     issuedIdx: index("invoices_issued_idx").on(table.issuedAt),
     dueIdx: index("invoices_due_idx").on(table.dueAt),
   }),
 )
 
+// Payment reminders sent for an invoice. Scheduled reminders record their offset from the due
+// date (negative = before) so the same reminder is never sent twice; manual ones have no offset.
+export const invoiceReminderLogs = pgTable(
+  "invoice_reminder_logs",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    invoiceId: integer("invoice_id")
+      .notNull()
+      .references(() => invoices.id, { onDelete: "cascade" }),
+    offsetDays: integer("offset_days"),
+    tier: varchar("tier", { length: 20 }).notNull(), // friendly, firm, final
+    trigger: varchar("trigger", { length: 20 }).notNull().default("automatic"), // automatic, manual
+    recipient: varchar("recipient", { length: 255 }).notNull(),
+    subject: varchar("subject", { length: 500 }),
+    status: varchar("status", { length: 20 }).notNull().default("sending"), // sending, sent, failed
+    error: text("error"),
+    sentById: integer("sent_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    sentAt: timestamp("sent_at"),
+  },
+  (table) => ({
+    invoiceOffsetIdx: uniqueIndex("invoice_reminder_logs_invoice_offset_idx").on(table.invoiceId, table.offsetDays),
+    companyIdx: index("invoice_reminder_logs_company_idx").on(table.companyId, table.createdAt),
+  }),
+)
+
 export const invoiceItems = pgTable(
   "invoice_items",
   {
@@ -833,6 +1186,11 @@ export const invoiceItems = pgTable(
     unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull().default("0"),
     amount: decimal("amount", { precision: 12, scale: 2 }).notNull().default("0"),
     taxable: smallint("taxable").default(1),
+    // VAT rate code (standard, reduced, zero, exempt) and the percentage charged when the line was
+    // saved; null on lines from before per-line VAT, which use the invoice tax rate
+    vatRate: varchar("vat_rate", { length: 20 }),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }),
+    taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull().default("0"),
     sortOrder: integer("sort_order").default(0),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -866,6 +1224,13 @@ export const payments = pgTable(
     reference: varchar("reference", { length: 255 }),
     notes: text("notes"),
 
+    // Online card payments
+    stripeCheckoutSessionId: varchar("stripe_checkout_session_id", { length: 255 }),
+    stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 255 }),
+    refundedAmount: decimal("refunded_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    // Set on refunds paid out against a credit note (recorded as a negative amount)
+    creditNoteId: integer("credit_note_id").references(() => creditNotes.id, { onDelete: "set null" }),
+
     // Dates
     paidAt: timestamp("paid_at").defaultNow().notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -877,6 +1242,98 @@ export const payments = pgTable(
     customerIdx: index("payments_customer_idx").on(table.customerId),
     statusIdx: index("payments_status_idx").on(table.status),
     paidAtIdx: index("payments_paid_at_idx").on(table.paidAt),
+    stripePaymentIntentIdx: uniqueIndex("payments_stripe_payment_intent_idx").on(table.stripePaymentIntentId),
+    creditNoteIdx: index("payments_credit_note_idx").on(table.creditNoteId),
+  }),
+)
+
+// Card refunds against a payment, one row per refund as Stripe reports it. The payment keeps the
+// running total; these are what the accounting export posts, so a refund made after the payment
+// was exported still reaches the books.
+export const paymentRefunds = pgTable(
+  "payment_refunds",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    paymentId: integer("payment_id")
+      .notNull()
+      .references(() => payments.id, { onDelete: "cascade" }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    refundedAt: timestamp("refunded_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    paymentIdx: index("payment_refunds_payment_idx").on(table.paymentId),
+    companyRefundedAtIdx: index("payment_refunds_company_refunded_at_idx").on(table.companyId, table.refundedAt),
+  }),
+)
+
+// Credit notes - corrections to an issued invoice. The invoice itself is never edited once sent;
+// credits reduce what is owed and can be refunded through payments.
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    invoiceId: integer("invoice_id")
+      .notNull()
+      .references(() => invoices.id, { onDelete: "cascade" }),
+    customerId: integer("customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    creditNoteNumber: varchar("credit_note_number", { length: 100 }).notNull(),
+    kind: varchar("kind", { length: 20 }).notNull().default("partial"), // full, partial
+
+    currency: varchar("currency", { length: 10 }).notNull().default("GBP"),
+    subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0"),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+    taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default("0"),
+    total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0"),
+    amountRefunded: decimal("amount_refunded", { precision: 12, scale: 2 }).notNull().default("0"),
+
+    status: varchar("status", { length: 50 }).notNull().default("issued"), // issued, refunded
+    reason: text("reason"),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+    sentAt: timestamp("sent_at"),
+    createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("credit_notes_company_idx").on(table.companyId),
+    invoiceIdx: index("credit_notes_invoice_idx").on(table.invoiceId),
+    creditNoteNumberIdx: uniqueIndex("credit_notes_number_idx").on(table.companyId, table.creditNoteNumber),
+    issuedIdx: index("credit_notes_issued_idx").on(table.issuedAt),
+  }),
+)
+
+export const creditNoteItems = pgTable(
+  "credit_note_items",
+  {
+    id: serial("id").primaryKey(),
+    creditNoteId: integer("credit_note_id")
+      .notNull()
+      .references(() => creditNotes.id, { onDelete: "cascade" }),
+    // Invoice line being credited; null for the balancing line of a full credit
+    invoiceItemId: integer("invoice_item_id").references(() => invoiceItems.id, { onDelete: "set null" }),
+    title: varchar("title", { length: 255 }).notNull(),
+    description: text("description"),
+    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+    unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull().default("0"),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    taxable: smallint("taxable").default(1),
+    vatRate: varchar("vat_rate", { length: 20 }),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }),
+    taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    sortOrder: integer("sort_order").default(0),
+  },
+  (table) => ({
+    creditNoteIdx: index("credit_note_items_credit_note_idx").on(table.creditNoteId),
+    invoiceItemIdx: index("credit_note_items_invoice_item_idx").on(table.invoiceItemId),
   }),
 )
 
@@ -906,6 +1363,9 @@ export const expenses = pgTable(
 
     // Tax & Accounting
     taxDeductible: smallint("tax_deductible").notNull().default(1),
+    // Input VAT included in the amount, claimed in box 4 of the VAT return when reclaimable
+    vatAmount: decimal("vat_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    vatReclaimable: smallint("vat_reclaimable").notNull().default(0),
     notes: text("notes"),
 
     // Dates
@@ -948,9 +1408,21 @@ export const workSessions = pgTable(
       .notNull()
       .references(() => employees.id, { onDelete: "cascade" }),
     jobId: integer("job_id").references(() => jobs.id, { onDelete: "set null" }),
+    // Week the session is recorded on; locked once that timesheet is approved
+    timesheetId: integer("timesheet_id").references(() => timesheets.id, { onDelete: "set null" }),
+    // Scheduled shift the session was clocked against, for variance reporting
+    shiftId: integer("shift_id").references(() => shifts.id, { onDelete: "set null" }),
+    // GPS check-in the clock-in was made from, when clocking in at a job
+    checkInId: integer("check_in_id").references(() => jobCheckIns.id, { onDelete: "set null" }),
     startedAt: timestamp("started_at").notNull(),
     endedAt: timestamp("ended_at"),
+    // Worked minutes, excluding breaks
     durationMinutes: integer("duration_minutes"),
+    breakMinutes: integer("break_minutes").notNull().default(0),
+    clockInLatitude: decimal("clock_in_latitude", { precision: 10, scale: 7 }),
+    clockInLongitude: decimal("clock_in_longitude", { precision: 10, scale: 7 }),
+    clockOutLatitude: decimal("clock_out_latitude", { precision: 10, scale: 7 }),
+    clockOutLongitude: decimal("clock_out_longitude", { precision: 10, scale: 7 }),
     notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -958,30 +1430,101 @@ export const workSessions = pgTable(
     employeeIdx: index("work_sessions_employee_idx").on(table.employeeId),
     jobIdx: index("work_sessions_job_idx").on(table.jobId),
     startedIdx: index("work_sessions_started_idx").on(table.startedAt),
+    timesheetIdx: index("work_sessions_timesheet_idx").on(table.timesheetId),
   }),
 )
 
-export const attachments = pgTable(
-  "attachments",
+export const workSessionBreaks = pgTable(
+  "work_session_breaks",
   {
     id: serial("id").primaryKey(),
-    companyId: integer("company_id")
+    workSessionId: integer("work_session_id")
       .notNull()
-      .references(() => companies.id, { onDelete: "cascade" }),
-
-    // Relations
-    jobId: integer("job_id").references(() => jobs.id, { onDelete: "cascade" }),
-    invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }),
-    customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }),
-    employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }),
+      .references(() => workSessions.id, { onDelete: "cascade" }),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionIdx: index("work_session_breaks_session_idx").on(table.workSessionId),
+  }),
+)
 
-    // File Information
-    fileName: varchar("file_name", { length: 255 }).notNull(),
-    originalName: varchar("original_name", { length: 255 }).notNull(),
-    title: varchar("title", { length: 255 }),
-    description: text("description"),
-    url: varchar("url", { length: 500 }).notNull(),
+// Changes made to a work session after it was recorded, by the employee or a manager
+export const workSessionEdits = pgTable(
+  "work_session_edits",
+  {
+    id: serial("id").primaryKey(),
+    workSessionId: integer("work_session_id")
+      .notNull()
+      .references(() => workSessions.id, { onDelete: "cascade" }),
+    editedBy: integer("edited_by").references(() => users.id, { onDelete: "set null" }),
+    editedByEmployeeId: integer("edited_by_employee_id").references(() => employees.id, { onDelete: "set null" }),
+    reason: text("reason"),
+    previousValues: jsonb("previous_values").notNull(),
+    newValues: jsonb("new_values").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionIdx: index("work_session_edits_session_idx").on(table.workSessionId),
+  }),
+)
+
+// Timesheets - one employee's work sessions for a week. Employees submit them, managers approve
+// or return them with comments. Approved timesheets are locked and are what payroll pays from.
+export const timesheets = pgTable(
+  "timesheets",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    weekStart: date("week_start").notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("open"), // open, submitted, returned, approved
+    // Totals as submitted
+    workedMinutes: integer("worked_minutes").notNull().default(0),
+    breakMinutes: integer("break_minutes").notNull().default(0),
+    employeeNotes: text("employee_notes"),
+    submittedAt: timestamp("submitted_at"),
+    reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewComments: text("review_comments"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("timesheets_company_idx").on(table.companyId),
+    employeeWeekIdx: uniqueIndex("timesheets_employee_week_idx").on(table.employeeId, table.weekStart),
+    statusIdx: index("timesheets_status_idx").on(table.status),
+  }),
+)
+
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+
+    // Relations
+    jobId: integer("job_id").references(() => jobs.id, { onDelete: "cascade" }),
+    invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }),
+    customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }),
+
+    // File Information
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    originalName: varchar("original_name", { length: 255 }).notNull(),
+    title: varchar("title", { length: 255 }),
+    description: text("description"),
+    url: varchar("url", { length: 500 }), // Legacy public URL; new uploads use storageKey
     thumbnailUrl: varchar("thumbnail_url", { length: 500 }),
+    storageKey: varchar("storage_key", { length: 500 }), // Private object in lib/storage, served via signed URLs
+    thumbnailKey: varchar("thumbnail_key", { length: 500 }),
 
     // File Metadata
     mimeType: varchar("mime_type", { length: 255 }).notNull(),
@@ -1071,6 +1614,8 @@ export const quoteItems = pgTable(
     quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
     unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull().default("0"),
     amount: decimal("amount", { precision: 12, scale: 2 }).notNull().default("0"),
+    // Set on the line added automatically for a service area surcharge
+    serviceAreaId: integer("service_area_id").references(() => serviceAreas.id, { onDelete: "set null" }),
     sortOrder: integer("sort_order").default(0),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -1100,6 +1645,7 @@ export const contracts = pgTable(
       // Service Details
       serviceType: varchar("service_type", { length: 100 }),
       frequency: varchar("frequency", { length: 50 }), // weekly, biweekly, monthly
+      recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE, overrides frequency when set
       planId: integer("plan_id").references(() => cleaningPlans.id, { onDelete: "set null" }),
       employeeIds: jsonb("employee_ids").default([]),
     
@@ -1117,9 +1663,25 @@ export const contracts = pgTable(
     amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
     currency: varchar("currency", { length: 10 }).default("GBP"),
     billingFrequency: varchar("billing_frequency", { length: 50 }), // monthly, quarterly, annually
+    // fixed: amount per billing period, in advance; visits: completed visit hours x hourlyRate, in arrears
+    billingBasis: varchar("billing_basis", { length: 20 }).notNull().default("fixed"),
     annualValue: decimal("annual_value", { precision: 12, scale: 2 }),
     nextInvoiceDate: date("next_invoice_date"),
+    // End of the last billed period; visit billing covers visits from here
     lastGeneratedDate: date("last_generated_date"),
+
+    // Renewal & Termination
+    renewalNoticeDays: integer("renewal_notice_days").notNull().default(30),
+    // Length of each renewal; null renews for the length of the first term
+    renewalTermMonths: integer("renewal_term_months"),
+    // Price increase applied to amount, hourly rate and annual value on each renewal
+    renewalUpliftPercent: decimal("renewal_uplift_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+    renewalNoticeSentAt: timestamp("renewal_notice_sent_at"),
+    renewedAt: timestamp("renewed_at"),
+    noticePeriodDays: integer("notice_period_days").notNull().default(30),
+    terminationRequestedAt: timestamp("termination_requested_at"),
+    terminationDate: timestamp("termination_date"),
+    terminationReason: text("termination_reason"),
     
     // Status
     status: varchar("status", { length: 50 }).notNull().default("draft"),
@@ -1142,6 +1704,34 @@ export const contracts = pgTable(
   }),
 )
 
+// Contract history - every lifecycle transition of a contract, whether made by staff, the customer or
+// the scheduler (userId is null for the last two)
+export const contractHistory = pgTable(
+  "contract_history",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    contractId: integer("contract_id")
+      .notNull()
+      .references(() => contracts.id, { onDelete: "cascade" }),
+    userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+    // created, status_changed, signed, renewal_notice_sent, renewed, expired, invoiced,
+    // termination_requested, terminated
+    event: varchar("event", { length: 50 }).notNull(),
+    fromStatus: varchar("from_status", { length: 50 }),
+    toStatus: varchar("to_status", { length: 50 }),
+    description: text("description").notNull(),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contractIdx: index("contract_history_contract_idx").on(table.contractId, table.createdAt),
+    companyIdx: index("contract_history_company_idx").on(table.companyId),
+  }),
+)
+
 // Shifts table - employee work schedules
 export const shifts = pgTable(
   "shifts",
@@ -1401,6 +1991,224 @@ export const employeePayouts = pgTable(
   }),
 )
 
+// Payroll runs - one pay period for the employees paid at a given frequency. Runs move from draft
+// (payslips can be recalculated and adjusted) to approved (payouts created) to paid.
+export const payrollRuns = pgTable(
+  "payroll_runs",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    frequency: varchar("frequency", { length: 20 }).notNull(), // weekly, bi-weekly, monthly
+    periodStart: date("period_start").notNull(),
+    periodEnd: date("period_end").notNull(), // inclusive
+    status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, approved, paid
+    currency: varchar("currency", { length: 10 }).notNull().default("GBP"),
+    totalGross: decimal("total_gross", { precision: 12, scale: 2 }).notNull().default("0"),
+    totalDeductions: decimal("total_deductions", { precision: 12, scale: 2 }).notNull().default("0"),
+    totalNet: decimal("total_net", { precision: 12, scale: 2 }).notNull().default("0"),
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+    approvedBy: integer("approved_by").references(() => users.id, { onDelete: "set null" }),
+    approvedAt: timestamp("approved_at"),
+    paidAt: timestamp("paid_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("payroll_runs_company_idx").on(table.companyId),
+    periodIdx: uniqueIndex("payroll_runs_period_idx").on(table.companyId, table.frequency, table.periodStart),
+  }),
+)
+
+// Payslips - one employee's pay within a run. Calculated lines are rebuilt on recalculation,
+// manual adjustments (bonuses, deductions) are kept.
+export const payslips = pgTable(
+  "payslips",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    runId: integer("run_id")
+      .notNull()
+      .references(() => payrollRuns.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    payType: varchar("pay_type", { length: 20 }).notNull(), // hourly, salary, per_job
+    hoursWorked: decimal("hours_worked", { precision: 10, scale: 2 }).notNull().default("0"),
+    jobIds: jsonb("job_ids").notNull().default([]), // completed jobs covered by this payslip
+    lines: jsonb("lines").notNull().default([]), // calculated earnings
+    adjustments: jsonb("adjustments").notNull().default([]), // manual additions and deductions
+    warnings: jsonb("warnings").notNull().default([]), // things to check before approving
+    grossPay: decimal("gross_pay", { precision: 12, scale: 2 }).notNull().default("0"),
+    deductions: decimal("deductions", { precision: 12, scale: 2 }).notNull().default("0"),
+    netPay: decimal("net_pay", { precision: 12, scale: 2 }).notNull().default("0"),
+    payoutId: integer("payout_id").references(() => employeePayouts.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    runEmployeeIdx: uniqueIndex("payslips_run_employee_idx").on(table.runId, table.employeeId),
+    employeeIdx: index("payslips_employee_idx").on(table.employeeId),
+  }),
+)
+
+// Accounting exports - batches of invoices, payments, expenses and payouts exported for Xero or QuickBooks.
+// The generated files are kept so a batch can be downloaded again without regenerating it.
+export const accountingExports = pgTable(
+  "accounting_exports",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    format: varchar("format", { length: 20 }).notNull(), // xero, quickbooks
+    sources: jsonb("sources").notNull(), // ["invoices", "payments", "expenses", "payouts"]
+    periodStart: timestamp("period_start").notNull(),
+    periodEnd: timestamp("period_end").notNull(), // exclusive
+    counts: jsonb("counts"), // rows exported per entity type
+    files: jsonb("files"), // [{ name, mimeType, content }]
+    createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("accounting_exports_company_idx").on(table.companyId, table.createdAt),
+  }),
+)
+
+// Rows included in an accounting export. One row per record, so nothing is ever posted twice;
+// deleting the export releases its rows to be exported again.
+export const accountingExportEntries = pgTable(
+  "accounting_export_entries",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    exportId: integer("export_id")
+      .notNull()
+      .references(() => accountingExports.id, { onDelete: "cascade" }),
+    entityType: varchar("entity_type", { length: 20 }).notNull(), // invoice, credit_note, payment, refund, expense, payout
+    entityId: integer("entity_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    entityIdx: uniqueIndex("accounting_export_entries_entity_idx").on(table.companyId, table.entityType, table.entityId),
+    exportIdx: index("accounting_export_entries_export_idx").on(table.exportId),
+  }),
+)
+
+// Spreadsheet imports. The parsed file is kept on the draft so columns can be remapped and
+// previewed without re-uploading; every row written on commit is recorded so the whole import
+// can be rolled back.
+export const dataImports = pgTable(
+  "data_imports",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    entityType: varchar("entity_type", { length: 20 }).notNull(), // customers, employees, jobs, supplies
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, committed, rolled_back
+    headers: jsonb("headers").notNull(), // column headings from the first row
+    rows: jsonb("rows").notNull(), // remaining rows as arrays of cell strings
+    columnMapping: jsonb("column_mapping"), // { field: header index }
+    duplicateMode: varchar("duplicate_mode", { length: 20 }).notNull().default("skip"), // skip, update
+    totalRows: integer("total_rows").notNull().default(0),
+    createdCount: integer("created_count").notNull().default(0),
+    updatedCount: integer("updated_count").notNull().default(0),
+    skippedCount: integer("skipped_count").notNull().default(0),
+    errorCount: integer("error_count").notNull().default(0),
+    createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+    committedAt: timestamp("committed_at"),
+    rolledBackAt: timestamp("rolled_back_at"),
+    rolledBackById: integer("rolled_back_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("data_imports_company_idx").on(table.companyId, table.createdAt),
+  }),
+)
+
+// Records written by an import; updates keep the values they replaced
+export const dataImportRecords = pgTable(
+  "data_import_records",
+  {
+    id: serial("id").primaryKey(),
+    importId: integer("import_id")
+      .notNull()
+      .references(() => dataImports.id, { onDelete: "cascade" }),
+    rowNumber: integer("row_number").notNull(), // spreadsheet row, counting the header as row 1
+    entityType: varchar("entity_type", { length: 30 }).notNull(), // customer, customer_address, employee, job, supply
+    entityId: integer("entity_id").notNull(),
+    action: varchar("action", { length: 20 }).notNull(), // created, updated
+    previousValues: jsonb("previous_values"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    importIdx: index("data_import_records_import_idx").on(table.importId),
+  }),
+)
+
+// Customer merges. The merged record is kept (status "merged") and the ids of every row moved
+// onto the survivor are stored so the merge can be undone.
+export const customerMerges = pgTable(
+  "customer_merges",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    survivorId: integer("survivor_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    mergedCustomerId: integer("merged_customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    previousStatus: varchar("previous_status", { length: 50 }).notNull(), // merged customer's status before the merge
+    movedRecords: jsonb("moved_records").notNull(), // { table: ids moved to the survivor }
+    survivorPreviousValues: jsonb("survivor_previous_values"), // survivor fields filled in from the merged customer
+    createdAddressId: integer("created_address_id"), // merged customer's primary address, added to the survivor
+    mergedById: integer("merged_by_id").references(() => users.id, { onDelete: "set null" }),
+    undoneAt: timestamp("undone_at"),
+    undoneById: integer("undone_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("customer_merges_company_idx").on(table.companyId, table.createdAt),
+    survivorIdx: index("customer_merges_survivor_idx").on(table.survivorId),
+    mergedIdx: index("customer_merges_merged_idx").on(table.mergedCustomerId),
+  }),
+)
+
+// Pairs a manager has marked as "not duplicates"; customerId is always the lower id
+export const customerDuplicateDismissals = pgTable(
+  "customer_duplicate_dismissals",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    customerId: integer("customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    otherCustomerId: integer("other_customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    dismissedById: integer("dismissed_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pairIdx: uniqueIndex("customer_duplicate_dismissals_pair_idx").on(table.customerId, table.otherCustomerId),
+    companyIdx: index("customer_duplicate_dismissals_company_idx").on(table.companyId),
+  }),
+)
+
 // Booking Requests table - customer-submitted booking requests
 export const bookingRequests = pgTable(
   "booking_requests",
@@ -1444,6 +2252,13 @@ export const bookingRequests = pgTable(
     estimatedPrice: decimal("estimated_price", { precision: 10, scale: 2 }),
     quotedPrice: decimal("quoted_price", { precision: 10, scale: 2 }),
     currency: varchar("currency", { length: 10 }).default("GBP"),
+    // Service area the address falls in and its surcharge, included in the estimate
+    serviceAreaId: integer("service_area_id").references(() => serviceAreas.id, { onDelete: "set null" }),
+    areaSurcharge: decimal("area_surcharge", { precision: 10, scale: 2 }),
+    // Set when the company has service areas and the address is in none of them
+    outOfArea: smallint("out_of_area").default(0),
+    // Itemised price-book quote behind the estimate, including the add-ons picked
+    priceBreakdown: jsonb("price_breakdown"),
     
     // Status & Processing
     status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, reviewed, quoted, approved, converted, declined, cancelled
@@ -1476,6 +2291,35 @@ export const bookingRequests = pgTable(
   }),
 )
 
+// Slots held on the public booking page while the customer finishes checking out. A held slot
+// counts as booked for its cleaner until it expires or the booking is confirmed.
+export const bookingHolds = pgTable(
+  "booking_holds",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    employeeId: integer("employee_id")
+      .notNull()
+      .references(() => employees.id, { onDelete: "cascade" }),
+    token: varchar("token", { length: 64 }).notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("held"), // held, confirmed, released
+    serviceType: varchar("service_type", { length: 100 }),
+    bookingRequestId: integer("booking_request_id").references(() => bookingRequests.id, { onDelete: "set null" }),
+    jobId: integer("job_id").references(() => jobs.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenIdx: uniqueIndex("booking_holds_token_idx").on(table.token),
+    companyStartIdx: index("booking_holds_company_start_idx").on(table.companyId, table.startsAt),
+  }),
+)
+
 // Service areas table
 export const serviceAreas = pgTable(
   "service_areas",
@@ -1590,6 +2434,30 @@ export const jobTemplates = pgTable(
 )
 
 // Subscriptions table - recurring service agreements
+// Subscription plans - the recurring services a company offers customers in the portal
+export const subscriptionPlans = pgTable(
+  "subscription_plans",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    // Charged once per visit
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 10 }).notNull().default("GBP"),
+    frequency: varchar("frequency", { length: 50 }).notNull(), // weekly, biweekly, monthly
+    durationMinutes: integer("duration_minutes").notNull().default(120),
+    isActive: smallint("is_active").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    companyIdx: index("subscription_plans_company_idx").on(table.companyId),
+  }),
+)
+
 export const subscriptions = pgTable(
   "subscriptions",
   {
@@ -1614,6 +2482,7 @@ export const subscriptions = pgTable(
     
     // Schedule
     frequency: varchar("frequency", { length: 50 }).notNull(), // weekly, bi-weekly, monthly
+    recurrenceRule: text("recurrence_rule"), // RFC 5545 DTSTART/RRULE/EXDATE block
     startDate: timestamp("start_date").notNull(),
     endDate: timestamp("end_date"),
     nextBillingDate: timestamp("next_billing_date"),
@@ -1623,6 +2492,21 @@ export const subscriptions = pgTable(
     
     // Payment
     paymentMethod: varchar("payment_method", { length: 100 }),
+    // Card saved with a Stripe SetupIntent and charged off-session each cycle, and the Stripe
+    // customer it was saved to
+    stripePaymentMethodId: varchar("stripe_payment_method_id", { length: 255 }),
+    stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
+    cardBrand: varchar("card_brand", { length: 50 }),
+    cardLast4: varchar("card_last4", { length: 4 }),
+
+    // Self-service
+    planId: integer("plan_id").references(() => subscriptionPlans.id, { onDelete: "set null" }),
+    visitDurationMinutes: integer("visit_duration_minutes").notNull().default(120),
+    pausedAt: timestamp("paused_at"),
+    // Paused subscriptions resume on their own from this date; null waits for the customer
+    resumeAt: timestamp("resume_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancellationReason: text("cancellation_reason"),
     
     // Timestamps
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -1636,6 +2520,38 @@ export const subscriptions = pgTable(
   }),
 )
 
+// Subscription cycles - one per visit of a subscription: the visit, its invoice and the card charge,
+// or a visit the customer skipped or the billing run missed. Failed charges are retried on the dunning schedule.
+export const subscriptionCycles = pgTable(
+  "subscription_cycles",
+  {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id")
+      .notNull()
+      .references(() => companies.id, { onDelete: "cascade" }),
+    subscriptionId: integer("subscription_id")
+      .notNull()
+      .references(() => subscriptions.id, { onDelete: "cascade" }),
+    // The visit's start time, from the subscription's recurrence
+    occurrenceAt: timestamp("occurrence_at").notNull(),
+    // skipped, missed, pending_payment, paid, payment_failed, unpaid
+    status: varchar("status", { length: 30 }).notNull(),
+    jobId: integer("job_id").references(() => jobs.id, { onDelete: "set null" }),
+    invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+    stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 255 }),
+    paymentAttempts: integer("payment_attempts").notNull().default(0),
+    nextRetryAt: timestamp("next_retry_at"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    occurrenceIdx: uniqueIndex("subscription_cycles_occurrence_idx").on(table.subscriptionId, table.occurrenceAt),
+    companyIdx: index("subscription_cycles_company_idx").on(table.companyId),
+    retryIdx: index("subscription_cycles_retry_idx").on(table.status, table.nextRetryAt),
+  }),
+)
+
 export const companyRelations = relations(companies, ({ many }) => ({
   users: many(users),
   customers: many(customers),
@@ -1688,6 +2604,10 @@ export const employeeRelations = relations(employees, ({ one, many }) => ({
   workSessions: many(workSessions),
   jobEvents: many(jobEvents),
   teamMembers: many(teamMembers),
+  availabilityWindows: many(employeeAvailabilityWindows),
+  availabilityOverrides: many(employeeAvailabilityOverrides),
+  skills: many(employeeSkills),
+  certifications: many(employeeCertifications),
 }))
 
 export const teamRelations = relations(teams, ({ one, many }) => ({
@@ -1762,12 +2682,32 @@ export const invoiceRelations = relations(invoices, ({ one, many }) => ({
     fields: [invoices.jobId],
     references: [jobs.id],
   }),
+  contract: one(contracts, {
+    fields: [invoices.contractId],
+    references: [contracts.id],
+  }),
   payments: many(payments),
   items: many(invoiceItems),
+  creditNotes: many(creditNotes),
   attachments: many(attachments),
 }))
 
-export const paymentRelations = relations(payments, ({ one }) => ({
+export const invoiceReminderLogRelations = relations(invoiceReminderLogs, ({ one }) => ({
+  company: one(companies, {
+    fields: [invoiceReminderLogs.companyId],
+    references: [companies.id],
+  }),
+  invoice: one(invoices, {
+    fields: [invoiceReminderLogs.invoiceId],
+    references: [invoices.id],
+  }),
+  sentBy: one(users, {
+    fields: [invoiceReminderLogs.sentById],
+    references: [users.id],
+  }),
+}))
+
+export const paymentRelations = relations(payments, ({ one, many }) => ({
   company: one(companies, {
     fields: [payments.companyId],
     references: [companies.id],
@@ -1780,6 +2720,54 @@ export const paymentRelations = relations(payments, ({ one }) => ({
     fields: [payments.customerId],
     references: [customers.id],
   }),
+  creditNote: one(creditNotes, {
+    fields: [payments.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  refunds: many(paymentRefunds),
+}))
+
+export const paymentRefundRelations = relations(paymentRefunds, ({ one }) => ({
+  company: one(companies, {
+    fields: [paymentRefunds.companyId],
+    references: [companies.id],
+  }),
+  payment: one(payments, {
+    fields: [paymentRefunds.paymentId],
+    references: [payments.id],
+  }),
+}))
+
+export const creditNoteRelations = relations(creditNotes, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [creditNotes.companyId],
+    references: [companies.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+  customer: one(customers, {
+    fields: [creditNotes.customerId],
+    references: [customers.id],
+  }),
+  createdBy: one(users, {
+    fields: [creditNotes.createdById],
+    references: [users.id],
+  }),
+  items: many(creditNoteItems),
+  refunds: many(payments),
+}))
+
+export const creditNoteItemRelations = relations(creditNoteItems, ({ one }) => ({
+  creditNote: one(creditNotes, {
+    fields: [creditNoteItems.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  invoiceItem: one(invoiceItems, {
+    fields: [creditNoteItems.invoiceItemId],
+    references: [invoiceItems.id],
+  }),
 }))
 
 export const cleaningPlanRelations = relations(cleaningPlans, ({ many }) => ({
@@ -1816,7 +2804,7 @@ export const jobEventRelations = relations(jobEvents, ({ one }) => ({
   }),
 }))
 
-export const workSessionRelations = relations(workSessions, ({ one }) => ({
+export const workSessionRelations = relations(workSessions, ({ one, many }) => ({
   employee: one(employees, {
     fields: [workSessions.employeeId],
     references: [employees.id],
@@ -1825,6 +2813,42 @@ export const workSessionRelations = relations(workSessions, ({ one }) => ({
     fields: [workSessions.jobId],
     references: [jobs.id],
   }),
+  timesheet: one(timesheets, {
+    fields: [workSessions.timesheetId],
+    references: [timesheets.id],
+  }),
+  shift: one(shifts, {
+    fields: [workSessions.shiftId],
+    references: [shifts.id],
+  }),
+  breaks: many(workSessionBreaks),
+  edits: many(workSessionEdits),
+}))
+
+export const workSessionBreakRelations = relations(workSessionBreaks, ({ one }) => ({
+  workSession: one(workSessions, {
+    fields: [workSessionBreaks.workSessionId],
+    references: [workSessions.id],
+  }),
+}))
+
+export const workSessionEditRelations = relations(workSessionEdits, ({ one }) => ({
+  workSession: one(workSessions, {
+    fields: [workSessionEdits.workSessionId],
+    references: [workSessions.id],
+  }),
+}))
+
+export const timesheetRelations = relations(timesheets, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [timesheets.companyId],
+    references: [companies.id],
+  }),
+  employee: one(employees, {
+    fields: [timesheets.employeeId],
+    references: [employees.id],
+  }),
+  sessions: many(workSessions),
 }))
 
 export const attachmentRelations = relations(attachments, ({ one }) => ({
@@ -1875,7 +2899,7 @@ export const quoteItemRelations = relations(quoteItems, ({ one }) => ({
 }))
 
 // Contract relations
-export const contractRelations = relations(contracts, ({ one }) => ({
+export const contractRelations = relations(contracts, ({ one, many }) => ({
   company: one(companies, {
     fields: [contracts.companyId],
     references: [companies.id],
@@ -1888,6 +2912,41 @@ export const contractRelations = relations(contracts, ({ one }) => ({
     fields: [contracts.planId],
     references: [cleaningPlans.id],
   }),
+  signatures: many(documentSignatures),
+  history: many(contractHistory),
+  invoices: many(invoices),
+}))
+
+// Contract history relations
+export const contractHistoryRelations = relations(contractHistory, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [contractHistory.contractId],
+    references: [contracts.id],
+  }),
+  user: one(users, {
+    fields: [contractHistory.userId],
+    references: [users.id],
+  }),
+}))
+
+// Document signature relations
+export const documentSignatureRelations = relations(documentSignatures, ({ one }) => ({
+  company: one(companies, {
+    fields: [documentSignatures.companyId],
+    references: [companies.id],
+  }),
+  customer: one(customers, {
+    fields: [documentSignatures.customerId],
+    references: [customers.id],
+  }),
+  contract: one(contracts, {
+    fields: [documentSignatures.contractId],
+    references: [contracts.id],
+  }),
+  quote: one(quotes, {
+    fields: [documentSignatures.quoteId],
+    references: [quotes.id],
+  }),
 }))
 
 // Shift relations
@@ -1931,6 +2990,50 @@ export const shiftSwapRequestRelations = relations(shiftSwapRequests, ({ one })
 }))
 
 // Time-off request relations
+export const employeeAvailabilityWindowRelations = relations(employeeAvailabilityWindows, ({ one }) => ({
+  employee: one(employees, {
+    fields: [employeeAvailabilityWindows.employeeId],
+    references: [employees.id],
+  }),
+}))
+
+export const employeeAvailabilityOverrideRelations = relations(employeeAvailabilityOverrides, ({ one }) => ({
+  employee: one(employees, {
+    fields: [employeeAvailabilityOverrides.employeeId],
+    references: [employees.id],
+  }),
+}))
+
+export const skillRelations = relations(skills, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [skills.companyId],
+    references: [companies.id],
+  }),
+  employees: many(employeeSkills),
+}))
+
+export const employeeSkillRelations = relations(employeeSkills, ({ one }) => ({
+  employee: one(employees, {
+    fields: [employeeSkills.employeeId],
+    references: [employees.id],
+  }),
+  skill: one(skills, {
+    fields: [employeeSkills.skillId],
+    references: [skills.id],
+  }),
+}))
+
+export const employeeCertificationRelations = relations(employeeCertifications, ({ one }) => ({
+  employee: one(employees, {
+    fields: [employeeCertifications.employeeId],
+    references: [employees.id],
+  }),
+  attachment: one(attachments, {
+    fields: [employeeCertifications.attachmentId],
+    references: [attachments.id],
+  }),
+}))
+
 export const timeOffRequestRelations = relations(timeOffRequests, ({ one }) => ({
   company: one(companies, {
     fields: [timeOffRequests.companyId],
@@ -1946,6 +3049,13 @@ export const timeOffRequestRelations = relations(timeOffRequests, ({ one }) => (
   }),
 }))
 
+export const leaveAdjustmentRelations = relations(leaveAdjustments, ({ one }) => ({
+  employee: one(employees, {
+    fields: [leaveAdjustments.employeeId],
+    references: [employees.id],
+  }),
+}))
+
 // Equipment relations
 export const equipmentRelations = relations(equipment, ({ one }) => ({
   company: one(companies, {
@@ -2015,7 +3125,7 @@ export const jobTemplateRelations = relations(jobTemplates, ({ one }) => ({
 }))
 
 // Subscription relations
-export const subscriptionRelations = relations(subscriptions, ({ one }) => ({
+export const subscriptionRelations = relations(subscriptions, ({ one, many }) => ({
   company: one(companies, {
     fields: [subscriptions.companyId],
     references: [companies.id],
@@ -2024,6 +3134,36 @@ export const subscriptionRelations = relations(subscriptions, ({ one }) => ({
     fields: [subscriptions.customerId],
     references: [customers.id],
   }),
+  plan: one(subscriptionPlans, {
+    fields: [subscriptions.planId],
+    references: [subscriptionPlans.id],
+  }),
+  cycles: many(subscriptionCycles),
+}))
+
+// Subscription plan relations
+export const subscriptionPlanRelations = relations(subscriptionPlans, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [subscriptionPlans.companyId],
+    references: [companies.id],
+  }),
+  subscriptions: many(subscriptions),
+}))
+
+// Subscription cycle relations
+export const subscriptionCycleRelations = relations(subscriptionCycles, ({ one }) => ({
+  subscription: one(subscriptions, {
+    fields: [subscriptionCycles.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  job: one(jobs, {
+    fields: [subscriptionCycles.jobId],
+    references: [jobs.id],
+  }),
+  invoice: one(invoices, {
+    fields: [subscriptionCycles.invoiceId],
+    references: [invoices.id],
+  }),
 }))
 
 // Supplies relations
@@ -2070,6 +3210,29 @@ export const employeePayoutsRelations = relations(employeePayouts, ({ one }) =>
   }),
 }))
 
+export const payrollRunRelations = relations(payrollRuns, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [payrollRuns.companyId],
+    references: [companies.id],
+  }),
+  payslips: many(payslips),
+}))
+
+export const payslipRelations = relations(payslips, ({ one }) => ({
+  run: one(payrollRuns, {
+    fields: [payslips.runId],
+    references: [payrollRuns.id],
+  }),
+  employee: one(employees, {
+    fields: [payslips.employeeId],
+    references: [employees.id],
+  }),
+  payout: one(employeePayouts, {
+    fields: [payslips.payoutId],
+    references: [employeePayouts.id],
+  }),
+}))
+
 export type Company = typeof companies.$inferSelect
 export type NewCompany = typeof companies.$inferInsert
 export type User = typeof users.$inferSelect
@@ -2088,6 +3251,12 @@ export type Invoice = typeof invoices.$inferSelect
 export type NewInvoice = typeof invoices.$inferInsert
 export type Payment = typeof payments.$inferSelect
 export type NewPayment = typeof payments.$inferInsert
+export type PaymentRefund = typeof paymentRefunds.$inferSelect
+export type NewPaymentRefund = typeof paymentRefunds.$inferInsert
+export type CreditNote = typeof creditNotes.$inferSelect
+export type NewCreditNote = typeof creditNotes.$inferInsert
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect
+export type NewCreditNoteItem = typeof creditNoteItems.$inferInsert
 export type CleaningPlan = typeof cleaningPlans.$inferSelect
 export type NewCleaningPlan = typeof cleaningPlans.$inferInsert
 export type PlanTask = typeof planTasks.$inferSelect
@@ -2100,6 +3269,9 @@ export type JobEvent = typeof jobEvents.$inferSelect
 export type NewJobEvent = typeof jobEvents.$inferInsert
 export type WorkSession = typeof workSessions.$inferSelect
 export type NewWorkSession = typeof workSessions.$inferInsert
+export type WorkSessionBreak = typeof workSessionBreaks.$inferSelect
+export type WorkSessionEdit = typeof workSessionEdits.$inferSelect
+export type Timesheet = typeof timesheets.$inferSelect
 export type Attachment = typeof attachments.$inferSelect
 export type NewAttachment = typeof attachments.$inferInsert
 export type Quote = typeof quotes.$inferSelect
@@ -2107,12 +3279,27 @@ export type NewQuote = typeof quotes.$inferInsert
 export type QuoteItem = typeof quoteItems.$inferSelect
 export type NewQuoteItem = typeof quoteItems.$inferInsert
 export type Contract = typeof contracts.$inferSelect
+export type ContractHistoryEntry = typeof contractHistory.$inferSelect
 export type NewContract = typeof contracts.$inferInsert
 export type Shift = typeof shifts.$inferSelect
 export type NewShift = typeof shifts.$inferInsert
 export type ShiftSwapRequest = typeof shiftSwapRequests.$inferSelect
 export type NewShiftSwapRequest = typeof shiftSwapRequests.$inferInsert
 export type TimeOffRequest = typeof timeOffRequests.$inferSelect
+
+export type EmployeeAvailabilityWindow = typeof employeeAvailabilityWindows.$inferSelect
+
+export type EmployeeAvailabilityOverride = typeof employeeAvailabilityOverrides.$inferSelect
+
+export type Skill = typeof skills.$inferSelect
+
+export type EmployeeSkill = typeof employeeSkills.$inferSelect
+
+export type EmployeeCertification = typeof employeeCertifications.$inferSelect
+
+export type BankHoliday = typeof bankHolidays.$inferSelect
+
+export type LeaveAdjustment = typeof leaveAdjustments.$inferSelect
 export type NewTimeOffRequest = typeof timeOffRequests.$inferInsert
 export type Team = typeof teams.$inferSelect
 export type NewTeam = typeof teams.$inferInsert
@@ -2129,6 +3316,8 @@ export type NewMessage = typeof messages.$inferInsert
 export type JobTemplate = typeof jobTemplates.$inferSelect
 export type NewJobTemplate = typeof jobTemplates.$inferInsert
 export type Subscription = typeof subscriptions.$inferSelect
+export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect
+export type SubscriptionCycle = typeof subscriptionCycles.$inferSelect
 export type NewSubscription = typeof subscriptions.$inferInsert
 export type Supply = typeof supplies.$inferSelect
 export type NewSupply = typeof supplies.$inferInsert
@@ -2136,7 +3325,25 @@ export type SupplyRequest = typeof supplyRequests.$inferSelect
 export type NewSupplyRequest = typeof supplyRequests.$inferInsert
 export type EmployeePayout = typeof employeePayouts.$inferSelect
 export type NewEmployeePayout = typeof employeePayouts.$inferInsert
+export type PayrollRun = typeof payrollRuns.$inferSelect
+export type Payslip = typeof payslips.$inferSelect
 export type Feature = typeof features.$inferSelect
 export type NewFeature = typeof features.$inferInsert
 export type CompanyFeature = typeof companyFeatures.$inferSelect
 export type NewCompanyFeature = typeof companyFeatures.$inferInsert
+export type ScheduledTaskRun = typeof scheduledTaskRuns.$inferSelect
+export type NewScheduledTaskRun = typeof scheduledTaskRuns.$inferInsert
+export type InvoiceReminderLog = typeof invoiceReminderLogs.$inferSelect
+export type NewInvoiceReminderLog = typeof invoiceReminderLogs.$inferInsert
+export type DocumentSequence = typeof documentSequences.$inferSelect
+export type NewDocumentSequence = typeof documentSequences.$inferInsert
+export type AccountingExport = typeof accountingExports.$inferSelect
+export type NewAccountingExport = typeof accountingExports.$inferInsert
+export type DataImport = typeof dataImports.$inferSelect
+export type DataImportRecord = typeof dataImportRecords.$inferSelect
+export type CustomerMerge = typeof customerMerges.$inferSelect
+export type CustomerDuplicateDismissal = typeof customerDuplicateDismissals.$inferSelect
+export type BookingHold = typeof bookingHolds.$inferSelect
+export type DocumentSignature = typeof documentSignatures.$inferSelect
+export type SchedulingConflictOverride = typeof schedulingConflictOverrides.$inferSelect
+export type NewSchedulingConflictOverride = typeof schedulingConflictOverrides.$inferInsert
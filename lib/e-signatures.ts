@@ -0,0 +1,511 @@
+import { createHash, randomBytes } from "crypto"
+import { and, asc, eq } from "drizzle-orm"
+import type { jsPDF } from "jspdf"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Company, Customer, DocumentSignature } from "@/lib/db/schema"
+import { addSignatureCertificatePage, generateContractPDF, generateQuotePDF } from "@/lib/pdf-generator"
+import { buildStorageKey, deleteStoredFiles, getStorage } from "@/lib/storage"
+import { firstInvoiceDate, recordContractHistory } from "@/lib/contract-lifecycle"
+
+/**
+ * E-signatures for contracts and quotes.
+ *
+ * A signing request pins the document's PDF as issued: its SHA-256 is stored, and jsPDF's
+ * creation date and file ID are fixed to the request so the same document renders the same
+ * bytes again. At signing the PDF is rendered and hashed once more, so a document edited since
+ * it was issued can't be signed, then the audit certificate page is added and the signed PDF
+ * kept in storage.
+ */
+
+export class SignatureError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "SignatureError"
+  }
+}
+
+export type SignableDocumentType = "contract" | "quote"
+
+export interface SignableDocument {
+  type: SignableDocumentType
+  id: number
+}
+
+export interface SignatureInput {
+  signatureType: "drawn" | "typed"
+  // PNG data URL for drawn signatures, the name as typed otherwise
+  signatureData: string
+  signerName: string
+  signerEmail: string | null
+}
+
+export interface SignatureAudit {
+  signingMethod: "link" | "portal"
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+// How long a signing link stays valid
+export const SIGNING_LINK_TTL_DAYS = 30
+
+// Largest drawn signature accepted, as a data URL
+const MAX_SIGNATURE_DATA_LENGTH = 500_000
+
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,"
+
+function requireDb(executor: DbExecutor | null = db) {
+  if (!executor) {
+    throw new Error("Database not configured")
+  }
+  return executor
+}
+
+function getBaseUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+}
+
+export function getSigningUrl(token: string) {
+  return `${getBaseUrl()}/sign/${token}`
+}
+
+/**
+ * Signature from a request body. The signer has to confirm they agree to sign electronically.
+ */
+export function parseSignatureInput(raw: any): SignatureInput {
+  if (!raw || typeof raw !== "object") {
+    throw new SignatureError("A signature is required")
+  }
+  if (raw.agreed !== true) {
+    throw new SignatureError("Please confirm you agree to sign electronically")
+  }
+
+  const signerName = typeof raw.signerName === "string" ? raw.signerName.trim().slice(0, 255) : ""
+  if (!signerName) {
+    throw new SignatureError("Please enter your full name")
+  }
+
+  const signerEmail = typeof raw.signerEmail === "string" ? raw.signerEmail.trim().slice(0, 255) : ""
+  if (signerEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(signerEmail)) {
+    throw new SignatureError("Please enter a valid email address")
+  }
+
+  if (raw.signatureType === "drawn") {
+    const signatureData = typeof raw.signatureData === "string" ? raw.signatureData : ""
+    if (!signatureData.startsWith(PNG_DATA_URL_PREFIX) || signatureData.length <= PNG_DATA_URL_PREFIX.length) {
+      throw new SignatureError("Please draw your signature")
+    }
+    if (signatureData.length > MAX_SIGNATURE_DATA_LENGTH) {
+      throw new SignatureError("The signature image is too large")
+    }
+    return { signatureType: "drawn", signatureData, signerName, signerEmail: signerEmail || null }
+  }
+
+  if (raw.signatureType === "typed") {
+    const typed = typeof raw.signatureData === "string" ? raw.signatureData.trim().slice(0, 255) : ""
+    return { signatureType: "typed", signatureData: typed || signerName, signerName, signerEmail: signerEmail || null }
+  }
+
+  throw new SignatureError("Signature type must be drawn or typed")
+}
+
+export function hashPdf(doc: jsPDF) {
+  return createHash("sha256").update(Buffer.from(doc.output("arraybuffer"))).digest("hex")
+}
+
+function customerName(customer: { firstName?: string | null; lastName?: string | null } | null | undefined) {
+  return `${customer?.firstName || ""} ${customer?.lastName || ""}`.trim() || "Customer"
+}
+
+/**
+ * A contract or quote rendered as it is issued for signing, with the creation date and file ID
+ * pinned to the signing request
+ */
+async function renderSignableDocument(
+  executor: DbExecutor,
+  companyId: number,
+  document: SignableDocument,
+  pin: { token: string; issuedAt: Date },
+) {
+  const company = await executor.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+  })
+  if (!company) {
+    throw new SignatureError("Company not found", 404)
+  }
+
+  let doc: jsPDF
+  let details: {
+    title: string
+    number: string
+    status: string
+    customerId: number
+  }
+
+  if (document.type === "contract") {
+    const contract = await executor.query.contracts.findFirst({
+      where: and(eq(schema.contracts.id, document.id), eq(schema.contracts.companyId, companyId)),
+      with: { customer: true },
+    })
+    if (!contract) {
+      throw new SignatureError("Contract not found", 404)
+    }
+    const customer = contract.customer as any
+    doc = generateContractPDF({
+      contractNumber: contract.contractNumber,
+      title: contract.title,
+      description: contract.description,
+      frequency: contract.frequency,
+      amount: contract.amount,
+      billingFrequency: contract.billingFrequency,
+      startDate: contract.startDate ? contract.startDate.toISOString() : null,
+      endDate: contract.endDate ? contract.endDate.toISOString() : null,
+      autoRenew: contract.autoRenew === 1,
+      status: contract.status,
+      terms: contract.terms,
+      notes: contract.notes,
+      company: { name: company.name },
+      customer: {
+        name: customerName(customer),
+        email: customer?.email,
+        phone: customer?.phone,
+        address: customer?.address,
+        city: customer?.city,
+        postcode: customer?.postcode,
+      },
+      generatedAt: pin.issuedAt,
+    })
+    details = {
+      title: contract.title,
+      number: contract.contractNumber,
+      status: contract.status,
+      customerId: contract.customerId,
+    }
+  } else {
+    const quote = await executor.query.quotes.findFirst({
+      where: and(eq(schema.quotes.id, document.id), eq(schema.quotes.companyId, companyId)),
+      with: {
+        customer: true,
+        items: { orderBy: [asc(schema.quoteItems.sortOrder)] },
+      },
+    })
+    if (!quote) {
+      throw new SignatureError("Quote not found", 404)
+    }
+    const customer = quote.customer as any
+    doc = generateQuotePDF({
+      quoteNumber: quote.quoteNumber,
+      title: quote.title,
+      createdAt: quote.createdAt.toISOString(),
+      validUntil: quote.validUntil ? quote.validUntil.toISOString() : null,
+      status: quote.status,
+      company: {
+        name: company.name,
+        email: company.email,
+        phone: company.phone,
+        address: company.address,
+        city: company.city,
+        postcode: company.postcode,
+      },
+      customer: {
+        name: customerName(customer),
+        email: customer?.email || "",
+        phone: customer?.phone,
+        address: customer?.address,
+        city: customer?.city,
+        postcode: customer?.postcode,
+      },
+      items: (quote.items as any[]).map((item) => ({
+        title: item.title,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        amount: item.amount,
+      })),
+      subtotal: quote.subtotal,
+      taxRate: quote.taxRate || "0",
+      taxAmount: quote.taxAmount || "0",
+      discountAmount: quote.discountAmount || "0",
+      total: quote.total,
+      notes: quote.notes,
+      terms: quote.terms,
+      generatedAt: pin.issuedAt,
+    })
+    details = {
+      title: quote.title,
+      number: quote.quoteNumber,
+      status: quote.status,
+      customerId: quote.customerId,
+    }
+  }
+
+  doc.setCreationDate(pin.issuedAt)
+  doc.setFileId(createHash("sha256").update(pin.token).digest("hex").slice(0, 32).toUpperCase())
+
+  return { doc, company, ...details }
+}
+
+function documentLabel(type: string) {
+  return type === "quote" ? "Quote" : "Contract"
+}
+
+function documentColumn(document: SignableDocument) {
+  return document.type === "contract"
+    ? eq(schema.documentSignatures.contractId, document.id)
+    : eq(schema.documentSignatures.quoteId, document.id)
+}
+
+function signatureDocument(signature: DocumentSignature): SignableDocument {
+  if (signature.documentType === "contract" && signature.contractId) {
+    return { type: "contract", id: signature.contractId }
+  }
+  if (signature.documentType === "quote" && signature.quoteId) {
+    return { type: "quote", id: signature.quoteId }
+  }
+  throw new SignatureError("This document no longer exists", 410)
+}
+
+/**
+ * Issue a document for signing. Any earlier link for the same document stops working. Returns the
+ * request along with the PDF as issued, which is what the stored hash is of.
+ */
+export async function createSignatureRequest(
+  companyId: number,
+  document: SignableDocument,
+  options: { sentTo?: string | null } = {},
+  executor: DbExecutor | null = db,
+) {
+  const database = requireDb(executor)
+  const token = randomBytes(24).toString("hex")
+  const issuedAt = new Date()
+
+  const rendered = await renderSignableDocument(database, companyId, document, { token, issuedAt })
+  const documentHash = hashPdf(rendered.doc)
+
+  const signature = await database.transaction(async (tx) => {
+    await tx
+      .update(schema.documentSignatures)
+      .set({ status: "cancelled", updatedAt: issuedAt })
+      .where(
+        and(
+          eq(schema.documentSignatures.companyId, companyId),
+          documentColumn(document),
+          eq(schema.documentSignatures.status, "pending"),
+        ),
+      )
+
+    const [created] = await tx
+      .insert(schema.documentSignatures)
+      .values({
+        companyId,
+        customerId: rendered.customerId,
+        documentType: document.type,
+        contractId: document.type === "contract" ? document.id : null,
+        quoteId: document.type === "quote" ? document.id : null,
+        token,
+        expiresAt: new Date(issuedAt.getTime() + SIGNING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000),
+        sentTo: options.sentTo || null,
+        documentHash,
+        createdAt: issuedAt,
+        updatedAt: issuedAt,
+      })
+      .returning()
+    return created
+  })
+
+  return {
+    signature,
+    pdf: Buffer.from(rendered.doc.output("arraybuffer")),
+    fileName: `${document.type}-${rendered.number}.pdf`,
+  }
+}
+
+/**
+ * A signing request by its link token, with the company and document it's for
+ */
+export async function getSignatureRequestByToken(token: string, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const signature = await database.query.documentSignatures.findFirst({
+    where: eq(schema.documentSignatures.token, token),
+    with: {
+      company: true,
+      customer: true,
+      contract: true,
+      quote: true,
+    },
+  })
+  if (!signature) return null
+
+  const document = (signature.contract ?? signature.quote) as
+    | { title: string; contractNumber?: string; quoteNumber?: string }
+    | null
+  return {
+    signature,
+    company: signature.company as Company,
+    customerName: customerName(signature.customer as Customer | null),
+    document: document
+      ? {
+          type: signature.documentType as SignableDocumentType,
+          label: documentLabel(signature.documentType),
+          title: document.title,
+          number: document.contractNumber ?? document.quoteNumber ?? "",
+        }
+      : null,
+  }
+}
+
+/**
+ * The PDF behind a signing request: the signed copy once signed, otherwise the document as issued
+ */
+export async function getSignatureRequestPdf(signature: DocumentSignature, executor: DbExecutor | null = db) {
+  if (signature.status === "signed" && signature.signedDocumentKey) {
+    const stored = await getStorage().get(signature.signedDocumentKey)
+    if (!stored) {
+      throw new SignatureError("Signed document not found", 404)
+    }
+    return stored.body
+  }
+
+  const database = requireDb(executor)
+  const rendered = await renderSignableDocument(database, signature.companyId, signatureDocument(signature), {
+    token: signature.token,
+    issuedAt: signature.createdAt,
+  })
+  return Buffer.from(rendered.doc.output("arraybuffer"))
+}
+
+/**
+ * Sign a document from its signing request. The document is rendered again and must hash to what
+ * was issued. The signed PDF is stored, the request records the audit trail, and a contract is
+ * activated or a quote accepted in the same transaction.
+ */
+export async function signDocument(
+  signature: DocumentSignature,
+  input: SignatureInput,
+  audit: SignatureAudit,
+  executor: DbExecutor | null = db,
+): Promise<DocumentSignature> {
+  const database = requireDb(executor)
+
+  if (signature.status === "signed") {
+    throw new SignatureError("This document has already been signed", 409)
+  }
+  if (signature.status !== "pending") {
+    throw new SignatureError("This signing link has been replaced by a newer one", 410)
+  }
+  if (signature.expiresAt < new Date()) {
+    throw new SignatureError("This signing link has expired", 410)
+  }
+
+  const document = signatureDocument(signature)
+  const rendered = await renderSignableDocument(database, signature.companyId, document, {
+    token: signature.token,
+    issuedAt: signature.createdAt,
+  })
+
+  if (document.type === "contract" && rendered.status !== "draft") {
+    throw new SignatureError("Only draft contracts can be signed", 409)
+  }
+  if (document.type === "quote" && ["accepted", "rejected"].includes(rendered.status)) {
+    throw new SignatureError(`This quote has already been ${rendered.status}`, 409)
+  }
+  if (hashPdf(rendered.doc) !== signature.documentHash) {
+    throw new SignatureError(
+      `This ${documentLabel(document.type).toLowerCase()} has changed since it was sent for signing. Please ask ${rendered.company.name} for a new link.`,
+      409,
+    )
+  }
+
+  const signedAt = new Date()
+  addSignatureCertificatePage(rendered.doc, {
+    documentTitle: documentLabel(document.type),
+    documentNumber: rendered.number,
+    companyName: rendered.company.name,
+    documentHash: signature.documentHash,
+    signatureType: input.signatureType,
+    signatureData: input.signatureData,
+    signerName: input.signerName,
+    signerEmail: input.signerEmail,
+    signingMethod: audit.signingMethod,
+    ipAddress: audit.ipAddress,
+    userAgent: audit.userAgent,
+    issuedAt: signature.createdAt,
+    signedAt,
+    reference: `${signature.id}-${signature.token.slice(0, 8)}`,
+  })
+  const signedPdf = Buffer.from(rendered.doc.output("arraybuffer"))
+  const signedDocumentHash = createHash("sha256").update(signedPdf).digest("hex")
+
+  // Each attempt gets its own key, so a losing concurrent attempt can't overwrite the stored PDF
+  const signedDocumentKey = buildStorageKey(
+    signature.companyId,
+    "signatures",
+    `${document.type}-${rendered.number}-signed-${signature.id}-${signedAt.getTime()}-${randomBytes(4).toString("hex")}.pdf`,
+  )
+  await getStorage().put(signedDocumentKey, signedPdf, "application/pdf")
+
+  try {
+    return await database.transaction(async (tx) => {
+      const [signed] = await tx
+        .update(schema.documentSignatures)
+        .set({
+          status: "signed",
+          signatureType: input.signatureType,
+          signatureData: input.signatureData,
+          signerName: input.signerName,
+          signerEmail: input.signerEmail,
+          signingMethod: audit.signingMethod,
+          ipAddress: audit.ipAddress?.slice(0, 50) || null,
+          userAgent: audit.userAgent,
+          signedAt,
+          signedDocumentKey,
+          signedDocumentHash,
+          updatedAt: signedAt,
+        })
+        .where(and(eq(schema.documentSignatures.id, signature.id), eq(schema.documentSignatures.status, "pending")))
+        .returning()
+      if (!signed) {
+        throw new SignatureError("This document has already been signed", 409)
+      }
+
+      if (document.type === "contract") {
+        const [contract] = await tx
+          .update(schema.contracts)
+          .set({ status: "active", signedAt, updatedAt: signedAt })
+          .where(eq(schema.contracts.id, document.id))
+          .returning()
+        if (!contract.nextInvoiceDate) {
+          await tx
+            .update(schema.contracts)
+            .set({ nextInvoiceDate: firstInvoiceDate(contract) })
+            .where(eq(schema.contracts.id, contract.id))
+        }
+        await recordContractHistory(
+          {
+            companyId: signature.companyId,
+            contractId: contract.id,
+            event: "signed",
+            fromStatus: "draft",
+            toStatus: "active",
+            description: `Signed by ${input.signerName} (${audit.signingMethod === "portal" ? "customer portal" : "signing link"})`,
+            metadata: { signatureId: signed.id, signedDocumentHash },
+          },
+          tx,
+        )
+      } else {
+        await tx
+          .update(schema.quotes)
+          .set({ status: "accepted", acceptedAt: signedAt, updatedAt: signedAt })
+          .where(eq(schema.quotes.id, document.id))
+      }
+
+      return signed
+    })
+  } catch (error) {
+    // Nothing points at the PDF when the signature wasn't saved
+    await deleteStoredFiles(signedDocumentKey)
+    throw error
+  }
+}
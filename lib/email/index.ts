@@ -111,6 +111,7 @@ export {
   sendJobRescheduledEmail,
   sendShiftSwapRequestEmail,
   sendShiftSwapDecisionEmail,
+  sendCertificationExpiryEmail,
   sendEmployerCheckInNotification,
   sendEmployerCheckOutNotification,
   sendJobDeclinedNotification,
@@ -124,6 +125,7 @@ export {
   sendPaymentRequestEmail,
   sendPaymentReminderEmail,
   sendPaymentReceiptEmail,
+  sendCreditNoteEmail,
 } from './senders/invoicing'
 
 // Booking email senders
@@ -143,6 +145,16 @@ export {
   sendCustomerReactivatedEmail,
 } from './senders/customers'
 
+// Contract email senders
+export {
+  sendContractRenewalNoticeEmail,
+} from './senders/contracts'
+
+// Subscription email senders
+export {
+  sendSubscriptionPaymentFailedEmail,
+} from './senders/subscriptions'
+
 // Admin email senders
 export {
   sendWelcomeCompanyEmail,
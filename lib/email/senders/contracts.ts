@@ -0,0 +1,70 @@
+/**
+ * Contract lifecycle email senders
+ */
+
+import { sendEmail } from '../transporter'
+import { baseTemplate, escapeHtml } from '../templates/base'
+import { greeting, paragraph, infoBox, detailsTable, mutedText, alert } from '../templates/components'
+import { formatDate, formatCurrency } from '../utils'
+import type { ContractRenewalNoticeParams } from '../types'
+
+export async function sendContractRenewalNoticeEmail(params: ContractRenewalNoticeParams) {
+  const {
+    customerEmail,
+    customerName,
+    companyName,
+    companyEmail,
+    contractNumber,
+    contractTitle,
+    endDate,
+    renewal,
+    currency = 'GBP',
+  } = params
+
+  const bodyContent = renewal
+    ? `
+    ${greeting(customerName)}
+    ${alert(`Your contract renews automatically on ${formatDate(endDate)}.`, 'info')}
+    ${paragraph(`Your contract <strong>${escapeHtml(contractTitle)}</strong> with ${escapeHtml(companyName)} will renew for a further term. You don't need to do anything to keep your service running.`)}
+    ${infoBox(`
+      ${detailsTable([
+        { label: 'Contract', value: contractNumber },
+        { label: 'Current term ends', value: formatDate(endDate) },
+        { label: 'Renewed until', value: formatDate(renewal.newEndDate) },
+        {
+          label: 'Price after renewal',
+          value: `${formatCurrency(renewal.amount, currency)}${renewal.billingFrequency ? ` ${renewal.billingFrequency}` : ''}`,
+        },
+        { label: 'Price change', value: renewal.upliftPercent > 0 ? `+${renewal.upliftPercent}%` : null },
+      ])}
+    `)}
+    ${mutedText(`If you don't want the contract to renew, please contact ${companyName}${companyEmail ? ` at ${companyEmail}` : ''} before ${formatDate(endDate)}.`)}
+  `
+    : `
+    ${greeting(customerName)}
+    ${alert(`Your contract ends on ${formatDate(endDate)}.`, 'warning')}
+    ${paragraph(`Your contract <strong>${escapeHtml(contractTitle)}</strong> with ${escapeHtml(companyName)} is coming to an end and won't renew automatically.`)}
+    ${infoBox(`
+      ${detailsTable([
+        { label: 'Contract', value: contractNumber },
+        { label: 'Ends on', value: formatDate(endDate) },
+      ])}
+    `, 'warning')}
+    ${mutedText(`To keep your service running, please contact ${companyName}${companyEmail ? ` at ${companyEmail}` : ''} to renew.`)}
+  `
+
+  const title = renewal ? 'Contract Renewal' : 'Contract Ending'
+  const html = baseTemplate({
+    title,
+    headerTitle: title,
+    modernStyle: true,
+    bodyContent,
+    companyName,
+  })
+
+  return sendEmail({
+    to: customerEmail,
+    subject: `${title}: ${contractNumber} - ${companyName}`,
+    html,
+  })
+}
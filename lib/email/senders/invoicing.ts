@@ -24,6 +24,7 @@ import type {
   PaymentRequestEmailParams,
   PaymentReminderEmailParams,
   PaymentReceiptEmailParams,
+  CreditNoteEmailParams,
 } from '../types'
 
 /**
@@ -211,21 +212,38 @@ export async function sendPaymentReminderEmail(params: PaymentReminderEmailParam
     companyName,
     paymentUrl,
     pdfBuffer,
+    tier,
+    subject,
+    message,
   } = params
 
   const currencySymbol = getCurrencySymbol(currency)
   const dueDateStr = formatDate(dueDate)
 
-  const urgencyLevel = daysOverdue > 30 ? 'error' : daysOverdue > 14 ? 'warning' : 'info'
-  const urgencyMessage = daysOverdue > 30 
+  const urgencyLevel = tier
+    ? tier === 'final' ? 'error' : tier === 'firm' ? 'warning' : 'info'
+    : daysOverdue > 30 ? 'error' : daysOverdue > 14 ? 'warning' : 'info'
+  const urgencyMessage = urgencyLevel === 'error'
     ? 'This payment is significantly overdue. Please pay immediately to avoid further action.'
-    : daysOverdue > 14
+    : urgencyLevel === 'warning'
     ? 'This payment is now overdue. Please make payment as soon as possible.'
     : 'This is a friendly reminder that your payment is due.'
 
-  const bodyContent = `
+  // A company's own template replaces the standard wording; the details box and pay button stay
+  const introContent = message
+    ? message
+        .split(/\n{2,}/)
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .map((block) => paragraph(escapeHtml(block).replace(/\n/g, '<br>')))
+        .join('\n')
+    : `
     ${greeting(customerName)}
     ${alert(urgencyMessage, urgencyLevel)}
+  `
+
+  const bodyContent = `
+    ${introContent}
     ${infoBox(`
       ${detailsTable([
         { label: 'Invoice', value: `#${invoiceNumber}` },
@@ -235,22 +253,22 @@ export async function sendPaymentReminderEmail(params: PaymentReminderEmailParam
       ])}
     `, urgencyLevel === 'error' ? 'error' : urgencyLevel === 'warning' ? 'warning' : 'default')}
     ${primaryButton('Pay Now', paymentUrl, 'success')}
-    ${mutedText('If you have already made this payment, please disregard this reminder.')}
-    ${mutedText('If you have any questions about this invoice, please contact us.')}
+    ${message ? '' : mutedText('If you have already made this payment, please disregard this reminder.')}
+    ${message ? '' : mutedText('If you have any questions about this invoice, please contact us.')}
   `
 
   const html = baseTemplate({
     title: 'Payment Reminder',
-    headerTitle: daysOverdue > 14 ? '⚠️ Payment Overdue' : 'Payment Reminder',
+    headerTitle: urgencyLevel === 'info' ? 'Payment Reminder' : tier === 'final' ? '⚠️ Final Notice' : '⚠️ Payment Overdue',
     bodyContent,
     companyName,
   })
 
   return sendEmail({
     to: customerEmail,
-    subject: daysOverdue > 14 
+    subject: subject || (urgencyLevel !== 'info'
       ? `OVERDUE: Invoice #${invoiceNumber} - ${companyName}`
-      : `Payment Reminder: Invoice #${invoiceNumber} - ${companyName}`,
+      : `Payment Reminder: Invoice #${invoiceNumber} - ${companyName}`),
     html,
     attachments: pdfBuffer ? [
       {
@@ -309,3 +327,61 @@ export async function sendPaymentReceiptEmail(params: PaymentReceiptEmailParams)
     html,
   })
 }
+
+/**
+ * Send credit note email with PDF attachment
+ */
+export async function sendCreditNoteEmail(params: CreditNoteEmailParams) {
+  const {
+    customerEmail,
+    customerName,
+    creditNoteNumber,
+    invoiceNumber,
+    amount,
+    currency,
+    reason,
+    voided,
+    companyName,
+    pdfBuffer,
+  } = params
+
+  const currencySymbol = getCurrencySymbol(currency)
+
+  const bodyContent = `
+    ${greeting(customerName)}
+    ${paragraph(voided
+      ? `Invoice <strong>#${escapeHtml(invoiceNumber)}</strong> has been cancelled and fully credited. You don't need to pay it.`
+      : `We have issued a credit against invoice <strong>#${escapeHtml(invoiceNumber)}</strong>, reducing the amount you owe.`)}
+    ${infoBox(`
+      ${detailsTable([
+        { label: 'Credit Note', value: `#${creditNoteNumber}` },
+        { label: 'Invoice', value: `#${invoiceNumber}` },
+        { label: 'Amount Credited', value: `${currencySymbol}${amount}` },
+        { label: 'Reason', value: reason },
+      ])}
+    `)}
+    ${mutedText('If you have already paid this invoice, we will be in touch about a refund.')}
+    ${pdfBuffer ? mutedText('A PDF copy of the credit note is attached to this email.') : ''}
+  `
+
+  const html = baseTemplate({
+    title: `Credit Note #${creditNoteNumber}`,
+    headerTitle: `Credit Note #${creditNoteNumber}`,
+    modernStyle: true,
+    bodyContent,
+    companyName,
+  })
+
+  return sendEmail({
+    to: customerEmail,
+    subject: `Credit Note #${creditNoteNumber} for Invoice #${invoiceNumber} - ${companyName}`,
+    html,
+    attachments: pdfBuffer ? [
+      {
+        filename: `Credit-Note-${creditNoteNumber}.pdf`,
+        content: pdfBuffer,
+        contentType: 'application/pdf',
+      },
+    ] : undefined,
+  })
+}
@@ -30,6 +30,7 @@ import type {
   JobReassignedAcceptedParams,
   ShiftSwapRequestEmailParams,
   ShiftSwapDecisionEmailParams,
+  CertificationExpiryEmailParams,
   EmployerCheckInNotificationParams,
   EmployerCheckOutNotificationParams,
 } from '../types'
@@ -746,6 +747,48 @@ export async function sendShiftSwapDecisionEmail(params: ShiftSwapDecisionEmailP
   })
 }
 
+/**
+ * Send certification expiry alert to an employee or their employer
+ */
+export async function sendCertificationExpiryEmail(params: CertificationExpiryEmailParams) {
+  const { to, recipientName, companyName, certifications, forEmployer, manageUrl } = params
+
+  const now = new Date()
+  const rows = certifications.map((certification) => ({
+    label: forEmployer ? `${certification.employeeName}: ${certification.name}` : certification.name,
+    value: certification.expiresOn < now
+      ? `Expired ${formatDate(certification.expiresOn)}`
+      : `Expires ${formatDate(certification.expiresOn)}`,
+  }))
+
+  const bodyContent = `
+    ${greeting(recipientName)}
+    ${paragraph(forEmployer
+      ? 'The following staff certifications are expiring soon or have expired.'
+      : 'The following certifications are expiring soon or have expired. Please renew them and upload the new certificate.'
+    )}
+    ${infoBox(detailsTable(rows), 'warning')}
+    ${primaryButton(forEmployer ? 'View Staff' : 'Update Certifications', manageUrl)}
+    ${mutedText(forEmployer
+      ? 'Staff with an expired certification may not be suitable for some jobs until it is renewed.'
+      : 'If you have already renewed, please upload the new certificate so your record stays up to date.'
+    )}
+  `
+
+  const html = baseTemplate({
+    title: 'Certification Expiry',
+    headerTitle: 'Certifications Expiring',
+    bodyContent,
+    companyName,
+  })
+
+  return sendEmail({
+    to,
+    subject: `Certifications Expiring - ${companyName}`,
+    html,
+  })
+}
+
 /**
  * Send check-in notification to employer
  */
@@ -0,0 +1,61 @@
+/**
+ * Customer subscription email senders
+ */
+
+import { sendEmail } from '../transporter'
+import { baseTemplate, escapeHtml } from '../templates/base'
+import { greeting, paragraph, infoBox, detailsTable, mutedText, alert, primaryButton } from '../templates/components'
+import { formatDate, formatCurrency } from '../utils'
+import type { SubscriptionPaymentFailedParams } from '../types'
+
+export async function sendSubscriptionPaymentFailedEmail(params: SubscriptionPaymentFailedParams) {
+  const {
+    customerEmail,
+    customerName,
+    companyName,
+    subscriptionName,
+    invoiceNumber,
+    amount,
+    visitDate,
+    nextRetryAt,
+    payUrl,
+    manageUrl,
+    currency = 'GBP',
+  } = params
+
+  const bodyContent = `
+    ${greeting(customerName)}
+    ${alert(`We couldn't take the payment for your ${formatDate(visitDate)} visit.`, nextRetryAt ? 'warning' : 'error')}
+    ${paragraph(`The card saved for your <strong>${escapeHtml(subscriptionName)}</strong> subscription with ${escapeHtml(companyName)} was declined.`)}
+    ${infoBox(`
+      ${detailsTable([
+        { label: 'Invoice', value: invoiceNumber },
+        { label: 'Amount', value: formatCurrency(amount, currency) },
+        { label: 'Visit', value: formatDate(visitDate) },
+        { label: 'Next attempt', value: nextRetryAt ? formatDate(nextRetryAt) : null },
+      ])}
+    `, nextRetryAt ? 'warning' : 'error')}
+    ${paragraph(
+      nextRetryAt
+        ? 'We will try the card again automatically. You can pay now or update your card to avoid another failed payment.'
+        : 'This was our last automatic attempt, so your subscription is on hold until the invoice is paid.',
+    )}
+    ${primaryButton('Pay invoice', payUrl)}
+    ${mutedText(`To use a different card for future visits, update it in your customer portal: ${escapeHtml(manageUrl)}`)}
+  `
+
+  const title = 'Payment Failed'
+  const html = baseTemplate({
+    title,
+    headerTitle: title,
+    modernStyle: true,
+    bodyContent,
+    companyName,
+  })
+
+  return sendEmail({
+    to: customerEmail,
+    subject: `${title}: ${invoiceNumber} - ${companyName}`,
+    html,
+  })
+}
@@ -313,6 +313,51 @@ export interface ShiftSwapDecisionEmailParams {
   otherEmployeeName: string
 }
 
+export interface CertificationExpiryEmailParams {
+  to: string
+  recipientName: string
+  companyName: string
+  // One entry for the employee's own email, every expiring certificate for the company's
+  certifications: Array<{ employeeName: string; name: string; expiresOn: Date }>
+  forEmployer?: boolean
+  manageUrl: string
+}
+
+// Contract Types
+export interface ContractRenewalNoticeParams {
+  customerEmail: string
+  customerName: string
+  companyName: string
+  companyEmail?: string | null
+  contractNumber: string
+  contractTitle: string
+  endDate: Date
+  // Set when the contract renews automatically; otherwise it simply ends
+  renewal?: {
+    newEndDate: Date
+    amount: string
+    billingFrequency?: string | null
+    upliftPercent: number
+  } | null
+  currency?: string
+}
+
+// Subscription Types
+export interface SubscriptionPaymentFailedParams {
+  customerEmail: string
+  customerName: string
+  companyName: string
+  subscriptionName: string
+  invoiceNumber: string
+  amount: string
+  visitDate: Date
+  // Shown when another automatic attempt is scheduled; the final notice has none
+  nextRetryAt?: Date | null
+  payUrl: string
+  manageUrl: string
+  currency?: string
+}
+
 // Check-in/out Types
 export interface EmployerCheckInNotificationParams {
   employerEmail: string
@@ -369,6 +414,12 @@ export interface PaymentReminderEmailParams {
   paymentUrl: string
   /** Optional PDF invoice attachment */
   pdfBuffer?: Buffer
+  /** Escalation tier; sets the tone of the email instead of daysOverdue */
+  tier?: 'friendly' | 'firm' | 'final'
+  /** Subject from the company's reminder template, already filled in */
+  subject?: string
+  /** Plain-text body from the company's reminder template, already filled in */
+  message?: string
 }
 
 export interface PaymentReceiptEmailParams {
@@ -382,6 +433,20 @@ export interface PaymentReceiptEmailParams {
   companyName: string
 }
 
+export interface CreditNoteEmailParams {
+  customerEmail: string
+  customerName: string
+  creditNoteNumber: string
+  invoiceNumber: string
+  amount: string
+  currency: string
+  reason?: string | null
+  // True when the invoice has been voided rather than partly credited
+  voided?: boolean
+  companyName: string
+  pdfBuffer?: Buffer
+}
+
 // Invoice Types
 export interface InvoiceEmailParams {
   customerEmail: string
@@ -0,0 +1,309 @@
+import { and, asc, eq, gte, inArray, lte } from "drizzle-orm"
+import { addDays, format, startOfDay } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+
+/**
+ * Employee availability: a weekly pattern of windows plus date-specific overrides.
+ *
+ * An employee with no weekly windows has not set their availability and can be booked at any
+ * time. Once any window exists, days without one are treated as unavailable.
+ */
+
+export interface AvailabilityWindow {
+  dayOfWeek: number // 0 = Sunday ... 6 = Saturday
+  startTime: string // HH:mm
+  endTime: string // HH:mm, 24:00 for end of day
+}
+
+export interface AvailabilityOverride {
+  id: number
+  date: string // yyyy-MM-dd
+  isAvailable: boolean
+  // Only for available days; null means the whole day
+  startTime: string | null
+  endTime: string | null
+  reason: string | null
+}
+
+export interface EmployeeAvailability {
+  windows: AvailabilityWindow[]
+  overrides: AvailabilityOverride[]
+}
+
+export class AvailabilityError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "AvailabilityError"
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function minutesIntoDay(date: Date, day: Date) {
+  return Math.round((date.getTime() - day.getTime()) / 60000)
+}
+
+function toOverride(row: typeof schema.employeeAvailabilityOverrides.$inferSelect): AvailabilityOverride {
+  return {
+    id: row.id,
+    date: row.date,
+    isAvailable: row.isAvailable === 1,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    reason: row.reason,
+  }
+}
+
+function parseTimeRange(startTime: unknown, endTime: unknown, label: string) {
+  if (typeof startTime !== "string" || !TIME_PATTERN.test(startTime) || startTime === "24:00") {
+    throw new AvailabilityError(`${label}: start time must be HH:mm`)
+  }
+  if (typeof endTime !== "string" || !TIME_PATTERN.test(endTime)) {
+    throw new AvailabilityError(`${label}: end time must be HH:mm`)
+  }
+  if (toMinutes(endTime) <= toMinutes(startTime)) {
+    throw new AvailabilityError(`${label}: end time must be after the start time`)
+  }
+  return { startTime, endTime }
+}
+
+/**
+ * Validate a weekly pattern from a request body. Windows on the same day may not overlap.
+ */
+export function normalizeWindows(input: unknown): AvailabilityWindow[] {
+  if (!Array.isArray(input)) {
+    throw new AvailabilityError("Availability windows must be a list")
+  }
+
+  const windows = input.map((item) => {
+    const dayOfWeek = Number(item?.dayOfWeek)
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new AvailabilityError("Each window needs a day of the week from 0 (Sunday) to 6 (Saturday)")
+    }
+    return { dayOfWeek, ...parseTimeRange(item?.startTime, item?.endTime, DAY_NAMES[dayOfWeek]) }
+  })
+
+  windows.sort((a, b) => a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime))
+  for (let i = 1; i < windows.length; i++) {
+    const previous = windows[i - 1]
+    if (previous.dayOfWeek === windows[i].dayOfWeek && toMinutes(windows[i].startTime) < toMinutes(previous.endTime)) {
+      throw new AvailabilityError(`${DAY_NAMES[previous.dayOfWeek]} has overlapping windows`)
+    }
+  }
+  return windows
+}
+
+/**
+ * Validate a date override from a request body
+ */
+export function normalizeOverride(input: unknown): Omit<AvailabilityOverride, "id"> {
+  const body = (input ?? {}) as Record<string, unknown>
+  if (typeof body.date !== "string" || !DATE_PATTERN.test(body.date) || Number.isNaN(Date.parse(body.date))) {
+    throw new AvailabilityError("A date (yyyy-MM-dd) is required")
+  }
+
+  const isAvailable = body.isAvailable === true
+  const hasTimes = Boolean(body.startTime || body.endTime)
+  const times = isAvailable && hasTimes ? parseTimeRange(body.startTime, body.endTime, body.date) : null
+
+  return {
+    date: body.date,
+    isAvailable,
+    startTime: times?.startTime ?? null,
+    endTime: times?.endTime ?? null,
+    reason: typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : null,
+  }
+}
+
+/**
+ * Weekly windows and overrides for one employee. Overrides before `overridesFrom` are left out.
+ */
+export async function getEmployeeAvailability(
+  employeeId: number,
+  overridesFrom: Date = startOfDay(new Date()),
+): Promise<EmployeeAvailability> {
+  const database = requireDb()
+  const windows = await database
+    .select({
+      dayOfWeek: schema.employeeAvailabilityWindows.dayOfWeek,
+      startTime: schema.employeeAvailabilityWindows.startTime,
+      endTime: schema.employeeAvailabilityWindows.endTime,
+    })
+    .from(schema.employeeAvailabilityWindows)
+    .where(eq(schema.employeeAvailabilityWindows.employeeId, employeeId))
+    .orderBy(asc(schema.employeeAvailabilityWindows.dayOfWeek), asc(schema.employeeAvailabilityWindows.startTime))
+
+  const overrides = await database
+    .select()
+    .from(schema.employeeAvailabilityOverrides)
+    .where(
+      and(
+        eq(schema.employeeAvailabilityOverrides.employeeId, employeeId),
+        gte(schema.employeeAvailabilityOverrides.date, format(overridesFrom, "yyyy-MM-dd")),
+      ),
+    )
+    .orderBy(asc(schema.employeeAvailabilityOverrides.date))
+
+  return { windows, overrides: overrides.map(toOverride) }
+}
+
+/**
+ * Replace an employee's weekly pattern. An empty list clears it, making them bookable at any time.
+ */
+export async function setWeeklyAvailability(companyId: number, employeeId: number, windows: AvailabilityWindow[]) {
+  const database = requireDb()
+  await database.transaction(async (tx) => {
+    await tx
+      .delete(schema.employeeAvailabilityWindows)
+      .where(eq(schema.employeeAvailabilityWindows.employeeId, employeeId))
+
+    if (windows.length > 0) {
+      await tx
+        .insert(schema.employeeAvailabilityWindows)
+        .values(windows.map((window) => ({ companyId, employeeId, ...window })))
+    }
+  })
+  return windows
+}
+
+/**
+ * Add or replace the override for a date
+ */
+export async function saveAvailabilityOverride(
+  companyId: number,
+  employeeId: number,
+  override: Omit<AvailabilityOverride, "id">,
+) {
+  const database = requireDb()
+  const values = {
+    isAvailable: override.isAvailable ? 1 : 0,
+    startTime: override.startTime,
+    endTime: override.endTime,
+    reason: override.reason,
+  }
+  const [row] = await database
+    .insert(schema.employeeAvailabilityOverrides)
+    .values({ companyId, employeeId, date: override.date, ...values })
+    .onConflictDoUpdate({
+      target: [schema.employeeAvailabilityOverrides.employeeId, schema.employeeAvailabilityOverrides.date],
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning()
+  return toOverride(row)
+}
+
+export async function deleteAvailabilityOverride(employeeId: number, overrideId: number) {
+  const database = requireDb()
+  const [deleted] = await database
+    .delete(schema.employeeAvailabilityOverrides)
+    .where(
+      and(
+        eq(schema.employeeAvailabilityOverrides.id, overrideId),
+        eq(schema.employeeAvailabilityOverrides.employeeId, employeeId),
+      ),
+    )
+    .returning({ id: schema.employeeAvailabilityOverrides.id })
+
+  if (!deleted) {
+    throw new AvailabilityError("Override not found", 404)
+  }
+}
+
+/**
+ * Availability for several employees, with the overrides falling between two dates
+ */
+export async function loadAvailability(
+  executor: DbExecutor,
+  employeeIds: number[],
+  from: Date,
+  to: Date,
+): Promise<Map<number, EmployeeAvailability>> {
+  const result = new Map<number, EmployeeAvailability>(
+    employeeIds.map((employeeId) => [employeeId, { windows: [], overrides: [] }]),
+  )
+  if (employeeIds.length === 0) return result
+
+  const windowRows = await executor
+    .select()
+    .from(schema.employeeAvailabilityWindows)
+    .where(inArray(schema.employeeAvailabilityWindows.employeeId, employeeIds))
+
+  const overrideRows = await executor
+    .select()
+    .from(schema.employeeAvailabilityOverrides)
+    .where(
+      and(
+        inArray(schema.employeeAvailabilityOverrides.employeeId, employeeIds),
+        gte(schema.employeeAvailabilityOverrides.date, format(from, "yyyy-MM-dd")),
+        lte(schema.employeeAvailabilityOverrides.date, format(to, "yyyy-MM-dd")),
+      ),
+    )
+
+  for (const row of windowRows) {
+    result.get(row.employeeId)?.windows.push({
+      dayOfWeek: row.dayOfWeek,
+      startTime: row.startTime,
+      endTime: row.endTime,
+    })
+  }
+  for (const row of overrideRows) {
+    result.get(row.employeeId)?.overrides.push(toOverride(row))
+  }
+  return result
+}
+
+/**
+ * Why the employee can't work between two times, or null if they can. Each day the period
+ * touches must fit inside a single window for that day.
+ */
+export function findAvailabilityGap(availability: EmployeeAvailability, start: Date, end: Date): string | null {
+  for (let day = startOfDay(start); day < end; day = addDays(day, 1)) {
+    const nextDay = addDays(day, 1)
+    const from = minutesIntoDay(start > day ? start : day, day)
+    const to = minutesIntoDay(end < nextDay ? end : nextDay, day)
+
+    const override = availability.overrides.find((item) => item.date === format(day, "yyyy-MM-dd"))
+    if (override) {
+      if (!override.isAvailable) {
+        return `not available on ${format(day, "EEE d MMM")}${override.reason ? ` (${override.reason})` : ""}`
+      }
+      if (override.startTime && override.endTime) {
+        if (from < toMinutes(override.startTime) || to > toMinutes(override.endTime)) {
+          return `only available ${override.startTime}–${override.endTime} on ${format(day, "EEE d MMM")}`
+        }
+      }
+      continue
+    }
+
+    if (availability.windows.length === 0) continue
+
+    const dayWindows = availability.windows.filter((window) => window.dayOfWeek === day.getDay())
+    if (dayWindows.length === 0) {
+      return `not available on ${format(day, "EEEE")}s`
+    }
+    const fits = dayWindows.some((window) => from >= toMinutes(window.startTime) && to <= toMinutes(window.endTime))
+    if (!fits) {
+      const hours = dayWindows.map((window) => `${window.startTime}–${window.endTime}`).join(", ")
+      return `only available ${hours} on ${format(day, "EEEE")}s`
+    }
+  }
+  return null
+}
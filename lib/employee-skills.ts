@@ -0,0 +1,545 @@
+import { and, asc, count, eq, inArray, isNull, lte, ne, sql } from "drizzle-orm"
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Attachment } from "@/lib/db/schema"
+import { sendCertificationExpiryEmail } from "@/lib/email"
+import { getFileType, validateFile } from "@/lib/file-storage"
+import { storeUpload, withSignedUrls } from "@/lib/storage"
+
+/**
+ * Company skills catalogue, the skills each employee has at a given level, and their
+ * certifications with expiry dates and uploaded evidence.
+ */
+
+export const SKILL_LEVELS = ["learning", "competent", "expert"] as const
+export type SkillLevel = (typeof SKILL_LEVELS)[number]
+
+// Alert employees and managers this many days before a certification expires
+export const CERTIFICATION_EXPIRY_WARNING_DAYS = 30
+
+export type CertificationStatus = "valid" | "expiring" | "expired" | "no_expiry"
+
+export interface EmployeeSkillSummary {
+  skillId: number
+  name: string
+  level: SkillLevel
+}
+
+export interface CertificationInput {
+  name: string
+  issuer: string | null
+  referenceNumber: string | null
+  issuedOn: string | null
+  expiresOn: string | null
+  attachmentId: number | null
+}
+
+export class SkillsError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "SkillsError"
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null
+}
+
+function optionalDate(value: unknown, label: string) {
+  if (value === null || value === undefined || value === "") return null
+  if (typeof value !== "string" || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new SkillsError(`${label} must be a date (yyyy-MM-dd)`)
+  }
+  return value
+}
+
+function isSkillLevel(value: unknown): value is SkillLevel {
+  return typeof value === "string" && (SKILL_LEVELS as readonly string[]).includes(value)
+}
+
+export function getCertificationStatus(expiresOn: string | null, today: Date = new Date()): CertificationStatus {
+  if (!expiresOn) return "no_expiry"
+  const daysLeft = differenceInCalendarDays(new Date(expiresOn), startOfDay(today))
+  if (daysLeft < 0) return "expired"
+  if (daysLeft <= CERTIFICATION_EXPIRY_WARNING_DAYS) return "expiring"
+  return "valid"
+}
+
+// Skills catalogue
+
+export async function listSkills(companyId: number) {
+  const database = requireDb()
+  return database
+    .select({
+      id: schema.skills.id,
+      name: schema.skills.name,
+      description: schema.skills.description,
+      employeeCount: count(schema.employeeSkills.id),
+    })
+    .from(schema.skills)
+    .leftJoin(schema.employeeSkills, eq(schema.employeeSkills.skillId, schema.skills.id))
+    .where(eq(schema.skills.companyId, companyId))
+    .groupBy(schema.skills.id)
+    .orderBy(asc(schema.skills.name))
+}
+
+async function assertSkillNameFree(companyId: number, name: string, exceptId?: number) {
+  const database = requireDb()
+  const [existing] = await database
+    .select({ id: schema.skills.id })
+    .from(schema.skills)
+    .where(
+      and(
+        eq(schema.skills.companyId, companyId),
+        sql`lower(${schema.skills.name}) = ${name.toLowerCase()}`,
+        exceptId ? ne(schema.skills.id, exceptId) : undefined,
+      ),
+    )
+    .limit(1)
+  if (existing) {
+    throw new SkillsError(`A skill called "${name}" already exists`, 409)
+  }
+}
+
+export async function createSkill(companyId: number, input: { name?: unknown; description?: unknown }) {
+  const database = requireDb()
+  const name = optionalText(input.name)
+  if (!name) {
+    throw new SkillsError("Skill name is required")
+  }
+  await assertSkillNameFree(companyId, name)
+
+  const [skill] = await database
+    .insert(schema.skills)
+    .values({ companyId, name, description: optionalText(input.description) })
+    .returning()
+  return skill
+}
+
+export async function updateSkill(
+  companyId: number,
+  skillId: number,
+  input: { name?: unknown; description?: unknown },
+) {
+  const database = requireDb()
+  const updates: Partial<typeof schema.skills.$inferInsert> = {}
+  if (input.name !== undefined) {
+    const name = optionalText(input.name)
+    if (!name) {
+      throw new SkillsError("Skill name is required")
+    }
+    await assertSkillNameFree(companyId, name, skillId)
+    updates.name = name
+  }
+  if (input.description !== undefined) {
+    updates.description = optionalText(input.description)
+  }
+
+  const [skill] = await database
+    .update(schema.skills)
+    .set(updates)
+    .where(and(eq(schema.skills.id, skillId), eq(schema.skills.companyId, companyId)))
+    .returning()
+  if (!skill) {
+    throw new SkillsError("Skill not found", 404)
+  }
+  return skill
+}
+
+export async function deleteSkill(companyId: number, skillId: number) {
+  const database = requireDb()
+  const [deleted] = await database
+    .delete(schema.skills)
+    .where(and(eq(schema.skills.id, skillId), eq(schema.skills.companyId, companyId)))
+    .returning({ id: schema.skills.id })
+  if (!deleted) {
+    throw new SkillsError("Skill not found", 404)
+  }
+}
+
+// Employee skills
+
+export async function getEmployeeSkills(employeeId: number): Promise<EmployeeSkillSummary[]> {
+  const database = requireDb()
+  const rows = await database
+    .select({ skillId: schema.skills.id, name: schema.skills.name, level: schema.employeeSkills.level })
+    .from(schema.employeeSkills)
+    .innerJoin(schema.skills, eq(schema.skills.id, schema.employeeSkills.skillId))
+    .where(eq(schema.employeeSkills.employeeId, employeeId))
+    .orderBy(asc(schema.skills.name))
+
+  return rows.map((row) => ({ ...row, level: isSkillLevel(row.level) ? row.level : "competent" }))
+}
+
+/**
+ * Replace an employee's skills with the given catalogue entries
+ */
+export async function setEmployeeSkills(companyId: number, employeeId: number, input: unknown) {
+  const database = requireDb()
+  if (!Array.isArray(input)) {
+    throw new SkillsError("Skills must be a list")
+  }
+
+  const entries = new Map<number, SkillLevel>()
+  for (const item of input) {
+    const skillId = Number(item?.skillId)
+    if (!Number.isInteger(skillId) || skillId <= 0) {
+      throw new SkillsError("Each skill needs a skillId")
+    }
+    const level = item?.level ?? "competent"
+    if (!isSkillLevel(level)) {
+      throw new SkillsError(`Skill level must be one of ${SKILL_LEVELS.join(", ")}`)
+    }
+    entries.set(skillId, level)
+  }
+
+  if (entries.size > 0) {
+    const known = await database
+      .select({ id: schema.skills.id })
+      .from(schema.skills)
+      .where(and(eq(schema.skills.companyId, companyId), inArray(schema.skills.id, Array.from(entries.keys()))))
+    if (known.length !== entries.size) {
+      throw new SkillsError("One or more skills were not found", 404)
+    }
+  }
+
+  await database.transaction(async (tx) => {
+    await tx.delete(schema.employeeSkills).where(eq(schema.employeeSkills.employeeId, employeeId))
+    if (entries.size > 0) {
+      await tx
+        .insert(schema.employeeSkills)
+        .values(Array.from(entries, ([skillId, level]) => ({ employeeId, skillId, level })))
+    }
+  })
+
+  return getEmployeeSkills(employeeId)
+}
+
+// Certifications
+
+export function normalizeCertification(input: unknown, partial = false): Partial<CertificationInput> {
+  const body = (input ?? {}) as Record<string, unknown>
+  const result: Partial<CertificationInput> = {}
+
+  if (!partial || body.name !== undefined) {
+    const name = optionalText(body.name)
+    if (!name) {
+      throw new SkillsError("Certification name is required")
+    }
+    result.name = name
+  }
+  if (!partial || body.issuer !== undefined) result.issuer = optionalText(body.issuer)
+  if (!partial || body.referenceNumber !== undefined) result.referenceNumber = optionalText(body.referenceNumber)
+  if (!partial || body.issuedOn !== undefined) result.issuedOn = optionalDate(body.issuedOn, "Issue date")
+  if (!partial || body.expiresOn !== undefined) result.expiresOn = optionalDate(body.expiresOn, "Expiry date")
+  if (!partial || body.attachmentId !== undefined) {
+    const attachmentId = body.attachmentId ? Number(body.attachmentId) : null
+    if (attachmentId !== null && (!Number.isInteger(attachmentId) || attachmentId <= 0)) {
+      throw new SkillsError("Invalid attachment")
+    }
+    result.attachmentId = attachmentId
+  }
+
+  if (result.issuedOn && result.expiresOn && result.expiresOn < result.issuedOn) {
+    throw new SkillsError("Expiry date must be after the issue date")
+  }
+  return result
+}
+
+async function assertAttachmentBelongsToEmployee(companyId: number, employeeId: number, attachmentId: number) {
+  const database = requireDb()
+  const attachment = await database.query.attachments.findFirst({
+    where: and(
+      eq(schema.attachments.id, attachmentId),
+      eq(schema.attachments.companyId, companyId),
+      eq(schema.attachments.employeeId, employeeId),
+    ),
+  })
+  if (!attachment) {
+    throw new SkillsError("Attachment not found", 404)
+  }
+}
+
+export async function listEmployeeCertifications(companyId: number, employeeId: number) {
+  const database = requireDb()
+  const certifications = await database.query.employeeCertifications.findMany({
+    where: and(
+      eq(schema.employeeCertifications.companyId, companyId),
+      eq(schema.employeeCertifications.employeeId, employeeId),
+    ),
+    with: { attachment: true },
+    orderBy: [asc(schema.employeeCertifications.name)],
+  })
+  const today = new Date()
+  return Promise.all(
+    certifications.map(async (certification) => ({
+      ...certification,
+      attachment: certification.attachment ? await withSignedUrls(certification.attachment as Attachment) : null,
+      status: getCertificationStatus(certification.expiresOn, today),
+    })),
+  )
+}
+
+export async function createCertification(companyId: number, employeeId: number, input: unknown) {
+  const database = requireDb()
+  const values = normalizeCertification(input) as CertificationInput
+  if (values.attachmentId) {
+    await assertAttachmentBelongsToEmployee(companyId, employeeId, values.attachmentId)
+  }
+
+  const [certification] = await database
+    .insert(schema.employeeCertifications)
+    .values({ companyId, employeeId, ...values })
+    .returning()
+  return { ...certification, status: getCertificationStatus(certification.expiresOn) }
+}
+
+/**
+ * Create a certification from a multipart form, saving an attached certificate file as evidence
+ */
+export async function createCertificationFromForm(
+  companyId: number,
+  employeeId: number,
+  formData: FormData,
+  uploadedBy: number | null,
+) {
+  const database = requireDb()
+  const fields = normalizeCertification({
+    name: formData.get("name"),
+    issuer: formData.get("issuer"),
+    referenceNumber: formData.get("referenceNumber"),
+    issuedOn: formData.get("issuedOn"),
+    expiresOn: formData.get("expiresOn"),
+  }) as CertificationInput
+
+  const file = formData.get("file")
+  if (file instanceof File && file.size > 0) {
+    const validation = validateFile(file)
+    if (!validation.valid) {
+      throw new SkillsError(validation.error || "Invalid file")
+    }
+
+    const { fileName, storageKey, thumbnailKey } = await storeUpload(file, { companyId, category: "certifications" })
+    const [attachment] = await database
+      .insert(schema.attachments)
+      .values({
+        companyId,
+        employeeId,
+        fileName,
+        originalName: file.name,
+        title: fields.name,
+        storageKey,
+        thumbnailKey,
+        mimeType: file.type,
+        fileType: getFileType(file.type),
+        sizeBytes: file.size,
+        category: "certifications",
+        uploadedBy,
+      })
+      .returning()
+    fields.attachmentId = attachment.id
+  }
+
+  return createCertification(companyId, employeeId, fields)
+}
+
+export async function updateCertification(
+  companyId: number,
+  employeeId: number,
+  certificationId: number,
+  input: unknown,
+) {
+  const database = requireDb()
+  const updates = normalizeCertification(input, true)
+  if (updates.attachmentId) {
+    await assertAttachmentBelongsToEmployee(companyId, employeeId, updates.attachmentId)
+  }
+
+  const [certification] = await database
+    .update(schema.employeeCertifications)
+    .set({
+      ...updates,
+      // A renewed certificate gets a fresh reminder before its new expiry
+      ...(updates.expiresOn !== undefined ? { expiryReminderSentAt: null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(schema.employeeCertifications.id, certificationId),
+        eq(schema.employeeCertifications.companyId, companyId),
+        eq(schema.employeeCertifications.employeeId, employeeId),
+      ),
+    )
+    .returning()
+  if (!certification) {
+    throw new SkillsError("Certification not found", 404)
+  }
+  return { ...certification, status: getCertificationStatus(certification.expiresOn) }
+}
+
+export async function deleteCertification(companyId: number, employeeId: number, certificationId: number) {
+  const database = requireDb()
+  const [deleted] = await database
+    .delete(schema.employeeCertifications)
+    .where(
+      and(
+        eq(schema.employeeCertifications.id, certificationId),
+        eq(schema.employeeCertifications.companyId, companyId),
+        eq(schema.employeeCertifications.employeeId, employeeId),
+      ),
+    )
+    .returning({ id: schema.employeeCertifications.id })
+  if (!deleted) {
+    throw new SkillsError("Certification not found", 404)
+  }
+}
+
+/**
+ * Skill names and in-date certification names per employee, lower-cased for matching against job types
+ */
+export async function loadEmployeeQualifications(executor: DbExecutor, employeeIds: number[]) {
+  const result = new Map<number, { skills: Array<{ name: string; level: SkillLevel }>; certifications: string[] }>(
+    employeeIds.map((employeeId) => [employeeId, { skills: [], certifications: [] }]),
+  )
+  if (employeeIds.length === 0) return result
+
+  const skillRows = await executor
+    .select({ employeeId: schema.employeeSkills.employeeId, name: schema.skills.name, level: schema.employeeSkills.level })
+    .from(schema.employeeSkills)
+    .innerJoin(schema.skills, eq(schema.skills.id, schema.employeeSkills.skillId))
+    .where(inArray(schema.employeeSkills.employeeId, employeeIds))
+
+  const certificationRows = await executor
+    .select({ employeeId: schema.employeeCertifications.employeeId, name: schema.employeeCertifications.name, expiresOn: schema.employeeCertifications.expiresOn })
+    .from(schema.employeeCertifications)
+    .where(inArray(schema.employeeCertifications.employeeId, employeeIds))
+
+  for (const row of skillRows) {
+    result.get(row.employeeId)?.skills.push({
+      name: row.name.toLowerCase(),
+      level: isSkillLevel(row.level) ? row.level : "competent",
+    })
+  }
+  const today = new Date()
+  for (const row of certificationRows) {
+    if (getCertificationStatus(row.expiresOn, today) === "expired") continue
+    result.get(row.employeeId)?.certifications.push(row.name.toLowerCase())
+  }
+  return result
+}
+
+/**
+ * Email employees and the company about certifications expiring within the warning period,
+ * once per certification until its expiry date changes.
+ */
+export async function sendCertificationExpiryAlerts(companyId: number) {
+  const database = requireDb()
+  const company = await database.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+  })
+  if (!company) {
+    return { alerted: 0, emailsSent: 0 }
+  }
+
+  const cutoff = format(addDays(new Date(), CERTIFICATION_EXPIRY_WARNING_DAYS), "yyyy-MM-dd")
+  const active = await database
+    .select({
+      id: schema.employeeCertifications.id,
+      employeeId: schema.employeeCertifications.employeeId,
+      name: schema.employeeCertifications.name,
+      expiresOn: schema.employeeCertifications.expiresOn,
+      employee: {
+        firstName: schema.employees.firstName,
+        lastName: schema.employees.lastName,
+        email: schema.employees.email,
+      },
+    })
+    .from(schema.employeeCertifications)
+    .innerJoin(schema.employees, eq(schema.employees.id, schema.employeeCertifications.employeeId))
+    .where(
+      and(
+        eq(schema.employeeCertifications.companyId, companyId),
+        lte(schema.employeeCertifications.expiresOn, cutoff),
+        isNull(schema.employeeCertifications.expiryReminderSentAt),
+        eq(schema.employees.status, "active"),
+      ),
+    )
+  if (active.length === 0) {
+    return { alerted: 0, emailsSent: 0 }
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+  let emailsSent = 0
+
+  const byEmployee = new Map<number, typeof active>()
+  for (const certification of active) {
+    const list = byEmployee.get(certification.employeeId) ?? []
+    list.push(certification)
+    byEmployee.set(certification.employeeId, list)
+  }
+
+  for (const certifications of byEmployee.values()) {
+    const employee = certifications[0].employee
+    if (!employee.email) continue
+    try {
+      await sendCertificationExpiryEmail({
+        to: employee.email,
+        recipientName: employee.firstName,
+        companyName: company.name,
+        certifications: certifications.map((certification) => ({
+          employeeName: `${employee.firstName} ${employee.lastName}`,
+          name: certification.name,
+          expiresOn: new Date(certification.expiresOn!),
+        })),
+        manageUrl: `${baseUrl}/employee/profile`,
+      })
+      emailsSent++
+    } catch (error) {
+      console.error("Failed to send certification expiry email:", error)
+    }
+  }
+
+  if (company.email) {
+    try {
+      await sendCertificationExpiryEmail({
+        to: company.email,
+        recipientName: company.name,
+        companyName: company.name,
+        certifications: active.map((certification) => ({
+          employeeName: `${certification.employee.firstName} ${certification.employee.lastName}`,
+          name: certification.name,
+          expiresOn: new Date(certification.expiresOn!),
+        })),
+        forEmployer: true,
+        manageUrl: `${baseUrl}/employees`,
+      })
+      emailsSent++
+    } catch (error) {
+      console.error("Failed to send certification expiry summary:", error)
+    }
+  }
+
+  await database
+    .update(schema.employeeCertifications)
+    .set({ expiryReminderSentAt: new Date() })
+    .where(
+      inArray(
+        schema.employeeCertifications.id,
+        active.map((certification) => certification.id),
+      ),
+    )
+
+  return { alerted: active.length, emailsSent }
+}
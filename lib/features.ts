@@ -11,7 +11,7 @@ export const FEATURE_ROUTE_MAP: Record<string, string[]> = {
   'customers': ['/customers'],
   'scheduling-basic': ['/scheduling'],
   'scheduling-advanced': ['/scheduling', '/routes'],
-  'invoicing': ['/invoicing'],
+  'invoicing': ['/invoicing', '/vat-return', '/accounting-export'],
   'payments': ['/payments'],
   'quotes': ['/quotes'],
   'contracts': ['/contracts'],
@@ -29,14 +29,14 @@ export const FEATURE_ROUTE_MAP: Record<string, string[]> = {
   'teams': ['/teams'],
   
   // Employee features
-  'employee-profiles': ['/employee/profile'],
-  'time-tracking': ['/employee/time', '/work-hours'],
+  'employee-profiles': ['/employee/profile', '/employee/availability'],
+  'time-tracking': ['/employee/time', '/work-hours', '/timesheets'],
   'job-board': ['/employee/jobs', '/employee/job-board'],
   'mobile-checkin': ['/check-in', '/employee/check-in'],
   'shifts': ['/shifts', '/employee/shifts'],
   'shift-swap': ['/employee/shift-swap'],
   'time-off': ['/time-off', '/employee/time-off'],
-  'payroll': ['/work-hours', '/employee/wages'],
+  'payroll': ['/work-hours', '/payroll', '/employee/wages'],
   'employee-messaging': ['/employee/messages'],
   'performance': ['/feedback', '/employee/performance'],
 }
@@ -63,6 +63,7 @@ export const SIDEBAR_FEATURE_MAP: Record<string, string> = {
   'Booking Requests': 'booking-requests',
   'Quotes': 'quotes',
   'Contracts': 'contracts',
+  'Subscriptions': 'subscriptions',
   'Customer Feedback': 'performance',
   'Employees': 'employee-profiles',
   'Teams': 'teams',
@@ -70,10 +71,14 @@ export const SIDEBAR_FEATURE_MAP: Record<string, string> = {
   'Time-off Requests': 'time-off',
   'Supply Requests': 'supplies',
   'Work Hours': 'time-tracking',
+  'Timesheets': 'time-tracking',
   'Send Message': 'messages',
   'Invoicing': 'invoicing',
+  'VAT Return': 'invoicing',
+  'Accounting Export': 'invoicing',
   'Payments': 'payments',
   'Expenses': 'expenses',
+  'Payroll': 'payroll',
   'Profitability': 'profitability',
   'Service Areas': 'service-areas',
   'Cleaning Plans': 'cleaning-plans',
@@ -85,6 +90,8 @@ export const SIDEBAR_FEATURE_MAP: Record<string, string> = {
   'Job Board': 'job-board',
   'Shifts': 'shifts',
   'Time Off': 'time-off',
+  'Timesheet': 'time-tracking',
+  'Availability': 'employee-profiles',
   'My Supplies': 'supplies',
   'My Wages': 'payroll',
   'My Finances': 'payroll',
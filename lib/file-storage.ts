@@ -1,10 +1,7 @@
-import { writeFile, mkdir } from "fs/promises"
-import { existsSync } from "fs"
 import path from "path"
 import { randomBytes } from "crypto"
 
-// File storage configuration
-export const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads")
+// Upload limits and helpers. Files themselves are kept by lib/storage.
 export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"]
 export const ALLOWED_DOCUMENT_TYPES = [
@@ -18,24 +15,6 @@ export const ALLOWED_DOCUMENT_TYPES = [
 ]
 export const ALLOWED_FILE_TYPES = [...ALLOWED_IMAGE_TYPES, ...ALLOWED_DOCUMENT_TYPES]
 
-// Ensure upload directories exist
-export async function ensureUploadDirs() {
-  const dirs = [
-    UPLOAD_DIR,
-    path.join(UPLOAD_DIR, "jobs"),
-    path.join(UPLOAD_DIR, "customers"),
-    path.join(UPLOAD_DIR, "employees"),
-    path.join(UPLOAD_DIR, "invoices"),
-    path.join(UPLOAD_DIR, "thumbnails"),
-  ]
-
-  for (const dir of dirs) {
-    if (!existsSync(dir)) {
-      await mkdir(dir, { recursive: true })
-    }
-  }
-}
-
 // Generate unique filename
 export function generateFileName(originalName: string): string {
   const ext = path.extname(originalName)
@@ -75,29 +54,6 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   return { valid: true }
 }
 
-// Save file to disk
-export async function saveFile(
-  file: File,
-  category: string = "jobs",
-): Promise<{ fileName: string; url: string; thumbnailUrl?: string }> {
-  await ensureUploadDirs()
-
-  const fileName = generateFileName(file.name)
-  const filePath = path.join(UPLOAD_DIR, category, fileName)
-  const url = `/uploads/${category}/${fileName}`
-
-  const bytes = await file.arrayBuffer()
-  const buffer = Buffer.from(bytes)
-
-  await writeFile(filePath, buffer)
-
-  // TODO: Generate thumbnail for images
-  // For now, we'll use the original image as thumbnail
-  const thumbnailUrl = getFileType(file.type) === "image" ? url : undefined
-
-  return { fileName, url, thumbnailUrl }
-}
-
 // Get file extension from mime type
 export function getExtensionFromMimeType(mimeType: string): string {
   const mimeToExt: Record<string, string> = {
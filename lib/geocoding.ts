@@ -0,0 +1,151 @@
+import { db, schema } from "@/lib/db"
+import { eq } from "drizzle-orm"
+
+/**
+ * Geocoding helpers shared by the geocode API, route optimizer and check-ins
+ */
+
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+// Shape of the latitude/longitude decimal columns on jobs, customers and addresses
+export interface CoordinateColumns {
+  latitude: string | null
+  longitude: string | null
+}
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search"
+const EARTH_RADIUS_METERS = 6371e3
+export const METERS_PER_MILE = 1609.344
+
+// Nominatim allows roughly one request per second, so remember recent lookups
+const geocodeCache = new Map<string, Coordinates | null>()
+
+/**
+ * Look up coordinates for a free-text address using OpenStreetMap Nominatim
+ */
+export async function geocodeAddress(address: string): Promise<Coordinates | null> {
+  const key = address.trim().toLowerCase()
+  if (!key) return null
+
+  if (geocodeCache.has(key)) {
+    return geocodeCache.get(key) ?? null
+  }
+
+  const res = await fetch(`${NOMINATIM_URL}?format=json&q=${encodeURIComponent(address)}&limit=1`, {
+    headers: {
+      "User-Agent": "CleanManager/1.0",
+    },
+  })
+
+  if (!res.ok) {
+    throw new Error(`Geocoding failed with status ${res.status}`)
+  }
+
+  const data = await res.json()
+  const result =
+    Array.isArray(data) && data.length > 0
+      ? { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) }
+      : null
+
+  geocodeCache.set(key, result)
+  return result
+}
+
+/**
+ * Join address parts into a single line, skipping parts already contained in the line
+ */
+export function formatAddressForGeocoding(parts: Array<string | null | undefined>): string {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "")
+  const included: string[] = []
+
+  for (const part of parts) {
+    const value = part?.trim()
+    if (!value) continue
+    if (normalize(included.join(", ")).includes(normalize(value))) continue
+    included.push(value)
+  }
+
+  return included.join(", ")
+}
+
+/**
+ * Calculate distance between two GPS coordinates using Haversine formula
+ */
+export function calculateDistanceMeters(from: Coordinates, to: Coordinates): number {
+  const φ1 = (from.lat * Math.PI) / 180
+  const φ2 = (to.lat * Math.PI) / 180
+  const Δφ = ((to.lat - from.lat) * Math.PI) / 180
+  const Δλ = ((to.lng - from.lng) * Math.PI) / 180
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+
+  return EARTH_RADIUS_METERS * c
+}
+
+/**
+ * Read coordinates back from decimal columns, ignoring empty or (0, 0) values
+ */
+export function parseCoordinates(
+  latitude: string | number | null | undefined,
+  longitude: string | number | null | undefined,
+): Coordinates | null {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+    return null
+  }
+  const lat = typeof latitude === "number" ? latitude : parseFloat(latitude)
+  const lng = typeof longitude === "number" ? longitude : parseFloat(longitude)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) {
+    return null
+  }
+  return { lat, lng }
+}
+
+/**
+ * Geocode address parts into column values. Never throws: a failed lookup stores nulls
+ * so the address can be picked up again by the backfill.
+ */
+export async function geocodeToColumns(parts: Array<string | null | undefined>): Promise<CoordinateColumns> {
+  const address = formatAddressForGeocoding(parts)
+  if (!address) {
+    return { latitude: null, longitude: null }
+  }
+
+  try {
+    const coordinates = await geocodeAddress(address)
+    return {
+      latitude: coordinates ? coordinates.lat.toFixed(7) : null,
+      longitude: coordinates ? coordinates.lng.toFixed(7) : null,
+    }
+  } catch (error) {
+    console.error(`Failed to geocode "${address}":`, error)
+    return { latitude: null, longitude: null }
+  }
+}
+
+/**
+ * Return a job's stored coordinates, geocoding and saving them first if they are missing
+ */
+export async function ensureJobCoordinates(
+  job: Pick<typeof schema.jobs.$inferSelect, "id" | "location" | "city" | "postcode" | "latitude" | "longitude">,
+): Promise<Coordinates | null> {
+  const stored = parseCoordinates(job.latitude, job.longitude)
+  if (stored) return stored
+
+  let columns = await geocodeToColumns([job.location, job.city, job.postcode])
+  if (!columns.latitude && job.postcode) {
+    // Fall back to the postcode centroid when the street address isn't recognised
+    columns = await geocodeToColumns([job.postcode])
+  }
+
+  const coordinates = parseCoordinates(columns.latitude, columns.longitude)
+  if (coordinates && db) {
+    await db.update(schema.jobs).set(columns).where(eq(schema.jobs.id, job.id))
+  }
+  return coordinates
+}
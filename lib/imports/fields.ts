@@ -0,0 +1,234 @@
+import { formatUKPhone, isValidUKPhone } from "@/lib/phone-validation"
+
+export const IMPORT_ENTITIES = ["customers", "employees", "jobs", "supplies"] as const
+export type ImportEntity = (typeof IMPORT_ENTITIES)[number]
+
+export interface ImportField {
+  key: string
+  label: string
+  required?: boolean
+  // Other headings this field is commonly exported under
+  aliases?: string[]
+  hint?: string
+}
+
+export const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  customers: "Customers",
+  employees: "Employees",
+  jobs: "Recurring jobs",
+  supplies: "Inventory",
+}
+
+const ADDRESS_FIELDS: ImportField[] = [
+  { key: "address", label: "Address", aliases: ["address line 1", "street", "street address"] },
+  { key: "addressLine2", label: "Address line 2", aliases: ["address 2"] },
+  { key: "city", label: "City", aliases: ["town", "town/city"] },
+  { key: "postcode", label: "Postcode", aliases: ["post code", "zip", "postal code"] },
+  { key: "country", label: "Country" },
+]
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  customers: [
+    { key: "firstName", label: "First name", required: true, aliases: ["first", "forename", "given name"] },
+    { key: "lastName", label: "Last name", required: true, aliases: ["last", "surname", "family name"] },
+    { key: "email", label: "Email", required: true, aliases: ["email address", "e-mail"] },
+    { key: "phone", label: "Phone", aliases: ["telephone", "mobile", "phone number"] },
+    { key: "alternatePhone", label: "Alternate phone", aliases: ["other phone", "landline"] },
+    { key: "companyName", label: "Company name", aliases: ["company", "business name"] },
+    { key: "customerType", label: "Customer type", aliases: ["type"], hint: "residential or commercial" },
+    { key: "status", label: "Status", hint: "active or inactive" },
+    ...ADDRESS_FIELDS,
+    {
+      key: "addressLabel",
+      label: "Address label",
+      aliases: ["property", "site"],
+      hint: "Rows repeating a customer's email add this address to them",
+    },
+    { key: "accessInstructions", label: "Access instructions", aliases: ["access"] },
+    { key: "parkingInstructions", label: "Parking instructions", aliases: ["parking"] },
+    { key: "specialInstructions", label: "Special instructions" },
+    { key: "source", label: "Source", aliases: ["lead source"] },
+    { key: "notes", label: "Notes" },
+  ],
+  employees: [
+    { key: "firstName", label: "First name", required: true, aliases: ["first", "forename"] },
+    { key: "lastName", label: "Last name", required: true, aliases: ["last", "surname"] },
+    { key: "email", label: "Email", required: true, aliases: ["email address", "e-mail"] },
+    { key: "phone", label: "Phone", required: true, aliases: ["mobile", "telephone", "phone number"] },
+    { key: "role", label: "Role", aliases: ["job title", "position"] },
+    { key: "employmentType", label: "Employment type", hint: "full-time, part-time or contractor" },
+    { key: "startDate", label: "Start date", aliases: ["started", "hire date"] },
+    { key: "payType", label: "Pay type", hint: "hourly or salary" },
+    { key: "hourlyRate", label: "Hourly rate", aliases: ["rate", "pay rate"] },
+    { key: "salary", label: "Salary" },
+    ...ADDRESS_FIELDS,
+  ],
+  jobs: [
+    { key: "title", label: "Title", required: true, aliases: ["job", "job title", "service"] },
+    {
+      key: "customerEmail",
+      label: "Customer email",
+      required: true,
+      aliases: ["customer", "client email"],
+      hint: "Must match an existing customer",
+    },
+    { key: "startDate", label: "First visit date", required: true, aliases: ["date", "start date", "scheduled for"] },
+    { key: "startTime", label: "Start time", aliases: ["time"], hint: "24-hour, e.g. 09:30" },
+    { key: "durationMinutes", label: "Duration (minutes)", aliases: ["duration", "minutes"] },
+    {
+      key: "recurrence",
+      label: "Repeats",
+      aliases: ["frequency", "recurrence", "rrule"],
+      hint: "weekly, fortnightly, monthly, quarterly or an RRULE; blank for one visit",
+    },
+    { key: "endDate", label: "Repeat until", aliases: ["end date", "until"] },
+    { key: "estimatedPrice", label: "Price", aliases: ["estimated price", "amount"] },
+    { key: "assignedToEmail", label: "Cleaner email", aliases: ["assigned to", "employee email", "cleaner"] },
+    { key: "jobType", label: "Job type" },
+    { key: "description", label: "Description", aliases: ["notes"] },
+    { key: "location", label: "Address", aliases: ["location", "site address"], hint: "Defaults to the customer's" },
+    { key: "city", label: "City" },
+    { key: "postcode", label: "Postcode", aliases: ["post code"] },
+  ],
+  supplies: [
+    { key: "name", label: "Name", required: true, aliases: ["item", "product", "item name"] },
+    { key: "sku", label: "SKU", aliases: ["code", "product code"] },
+    { key: "category", label: "Category" },
+    { key: "quantity", label: "Quantity", aliases: ["qty", "stock", "on hand"] },
+    { key: "unit", label: "Unit", aliases: ["units"] },
+    { key: "minQuantity", label: "Reorder level", aliases: ["min quantity", "minimum", "reorder point"] },
+    { key: "unitCost", label: "Unit cost", aliases: ["cost", "price"] },
+    { key: "supplier", label: "Supplier", aliases: ["vendor"] },
+    { key: "description", label: "Description" },
+    { key: "notes", label: "Notes" },
+  ],
+}
+
+// field key -> index of the column it is read from
+export type ColumnMapping = Record<string, number>
+
+function normalizeHeading(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+/**
+ * Guess which column holds each field from the headings
+ */
+export function suggestMapping(entity: ImportEntity, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeading)
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+
+  for (const field of IMPORT_FIELDS[entity]) {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])].map(normalizeHeading)
+    const index = normalized.findIndex((heading, i) => !used.has(i) && candidates.includes(heading))
+    if (index !== -1) {
+      mapping[field.key] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+export function readMappedRow(entity: ImportEntity, mapping: ColumnMapping, row: string[]) {
+  const values: Record<string, string> = {}
+  for (const field of IMPORT_FIELDS[entity]) {
+    const index = mapping[field.key]
+    values[field.key] = index === undefined ? "" : (row[index] ?? "").trim()
+  }
+  return values
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const UK_POSTCODE_REGEX = /^([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})$/i
+const UK_COUNTRIES = ["", "uk", "gb", "united kingdom", "great britain", "england", "scotland", "wales", "northern ireland"]
+
+export function isValidEmail(value: string) {
+  return EMAIL_REGEX.test(value)
+}
+
+export function normalizePhone(value: string): { phone: string | null; error?: string } {
+  if (!value) return { phone: null }
+  if (!isValidUKPhone(value)) {
+    return { phone: null, error: `"${value}" is not a valid UK phone number` }
+  }
+  return { phone: formatUKPhone(value) }
+}
+
+/**
+ * UK postcodes are checked and formatted ("sw1a1aa" -> "SW1A 1AA"); other countries are left as given
+ */
+export function normalizePostcode(value: string, country: string): { postcode: string | null; error?: string } {
+  if (!value) return { postcode: null }
+  if (!UK_COUNTRIES.includes(country.trim().toLowerCase())) {
+    return { postcode: value }
+  }
+  const match = value.trim().match(UK_POSTCODE_REGEX)
+  if (!match) {
+    return { postcode: null, error: `"${value}" is not a valid UK postcode` }
+  }
+  return { postcode: `${match[1]} ${match[2]}`.toUpperCase() }
+}
+
+// Days between 1899-12-30 (Excel's day zero) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569
+
+/**
+ * Parse a spreadsheet date: ISO (2026-03-14), UK day-first (14/03/2026) or an Excel serial number.
+ * Returns yyyy-MM-dd.
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim()
+  let parts: { year: number; month: number; day: number }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/)
+  const uk = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+  if (iso) {
+    parts = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) }
+  } else if (uk) {
+    const year = Number(uk[3])
+    parts = { year: year < 100 ? year + 2000 : year, month: Number(uk[2]), day: Number(uk[1]) }
+  } else if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    const date = new Date((Math.floor(Number(trimmed)) - EXCEL_EPOCH_OFFSET_DAYS) * 86_400_000)
+    parts = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+  } else {
+    return null
+  }
+
+  const { year, month, day } = parts
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+/**
+ * Parse a time of day: 09:30, 9.30, 2pm or an Excel day fraction. Returns HH:mm.
+ */
+export function parseImportTime(value: string): string | null {
+  const trimmed = value.trim().toLowerCase()
+  if (/^0?\.\d+$/.test(trimmed)) {
+    const minutes = Math.round(Number(trimmed) * 24 * 60)
+    return `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+  }
+
+  const match = trimmed.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/)
+  if (!match) return null
+  let hour = Number(match[1])
+  const minute = Number(match[2] ?? 0)
+  if (match[3] === "pm" && hour < 12) hour += 12
+  if (match[3] === "am" && hour === 12) hour = 0
+  if (hour > 23 || minute > 59) return null
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`
+}
+
+/**
+ * Parse an amount, allowing currency symbols and thousands separators
+ */
+export function parseImportNumber(value: string): number | null {
+  const cleaned = value.replace(/[£$€,\s]/g, "")
+  if (!cleaned) return null
+  const parsed = Number(cleaned)
+  return Number.isFinite(parsed) ? parsed : null
+}
@@ -0,0 +1,71 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import type { DbExecutor } from "@/lib/db"
+import { schema } from "@/lib/db"
+import { findUsage } from "@/lib/imports"
+
+// A database where only the given tables have rows pointing at the record
+function stubExecutor(tablesWithRows: unknown[]) {
+  const queried: unknown[] = []
+  const executor = {
+    select: () => ({
+      from: (table: unknown) => ({
+        where: () => ({
+          limit: async () => {
+            queried.push(table)
+            return tablesWithRows.includes(table) ? [{ value: 1 }] : []
+          },
+        }),
+      }),
+    }),
+  } as unknown as DbExecutor
+  return { executor, queried }
+}
+
+describe("findUsage", () => {
+  test("keeps an imported customer who has been given a contract since", async () => {
+    const { executor } = stubExecutor([schema.contracts])
+    assert.equal(await findUsage(executor, "customer", 1), "Customer has contracts")
+  })
+
+  test("keeps an imported employee with shifts or time off", async () => {
+    assert.equal(await findUsage(stubExecutor([schema.shifts]).executor, "employee", 1), "Employee has shifts")
+    assert.equal(
+      await findUsage(stubExecutor([schema.timeOffRequests]).executor, "employee", 1),
+      "Employee has time off requests",
+    )
+  })
+
+  test("checks every table that points at customers", async () => {
+    const { executor, queried } = stubExecutor([])
+    assert.equal(await findUsage(executor, "customer", 1), null)
+    for (const table of [
+      schema.jobs,
+      schema.invoices,
+      schema.quotes,
+      schema.contracts,
+      schema.subscriptions,
+      schema.payments,
+      schema.customerAddresses,
+    ]) {
+      assert.ok(queried.includes(table))
+    }
+  })
+
+  test("checks every table that points at employees", async () => {
+    const { executor, queried } = stubExecutor([])
+    assert.equal(await findUsage(executor, "employee", 1), null)
+    for (const table of [
+      schema.jobAssignments,
+      schema.workSessions,
+      schema.shifts,
+      schema.timeOffRequests,
+      schema.leaveAdjustments,
+      schema.timesheets,
+      schema.employeePayouts,
+      schema.payslips,
+    ]) {
+      assert.ok(queried.includes(table))
+    }
+  })
+})
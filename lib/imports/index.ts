@@ -0,0 +1,694 @@
+import { and, desc, eq, getTableColumns, is } from "drizzle-orm"
+import { getTableConfig, PgTable, type PgColumn } from "drizzle-orm/pg-core"
+import { addMonths } from "date-fns"
+import { db, schema, type DbExecutor, type DbTransaction } from "@/lib/db"
+import type { DataImport, Job } from "@/lib/db/schema"
+import { generateEmployeeCredentials } from "@/lib/employee-credentials"
+import { syncJobSeries } from "@/lib/recurrence"
+import { IMPORT_ENTITIES, IMPORT_FIELDS, suggestMapping, type ColumnMapping, type ImportEntity } from "./fields"
+import { parseSpreadsheet, SpreadsheetError } from "./parse"
+import { DUPLICATE_MODES, planImport, SERIES_HORIZON_MONTHS, type DuplicateMode, type ImportRowPreview, type PlannedRow } from "./plan"
+
+export {
+  IMPORT_ENTITIES,
+  IMPORT_ENTITY_LABELS,
+  IMPORT_FIELDS,
+  parseImportDate,
+  suggestMapping,
+} from "./fields"
+export type { ColumnMapping, ImportEntity, ImportField } from "./fields"
+export { DUPLICATE_MODES } from "./plan"
+export type { DuplicateMode, ImportRowAction, ImportRowPreview } from "./plan"
+
+/**
+ * Spreadsheet imports.
+ *
+ * An upload is parsed into a draft that keeps the file's rows, so columns can be mapped and the
+ * import previewed row by row (validation, duplicates, what each row will do) as often as needed.
+ * Committing writes every valid row in one transaction and records each row it touched against
+ * the import, which is what lets a bad import be rolled back later: created records are removed
+ * and updated ones get their previous values back.
+ *
+ * Addresses aren't geocoded during an import, to stay clear of the geocoder's rate limits; run
+ * db:backfill-coordinates afterwards (jobs are also geocoded the first time they are needed).
+ */
+
+export const IMPORT_STATUSES = ["draft", "committed", "rolled_back"] as const
+export type ImportStatus = (typeof IMPORT_STATUSES)[number]
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024
+export const MAX_IMPORT_ROWS = 5000
+
+// Rows shown with the column mapping so the user can see what each column holds
+const SAMPLE_ROWS = 5
+
+// Multi-row inserts are split so a large import doesn't build one enormous statement
+const INSERT_BATCH_SIZE = 200
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "ImportError"
+  }
+}
+
+export interface ImportSummary {
+  create: number
+  update: number
+  skip: number
+  addAddress: number
+  error: number
+}
+
+export interface ImportPreview {
+  importId: number
+  summary: ImportSummary
+  rows: ImportRowPreview[]
+}
+
+export interface RollbackResult {
+  removed: number
+  restored: number
+  // Records left in place because they are in use
+  kept: { entityType: string; entityId: number; reason: string }[]
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+export function isImportEntity(value: unknown): value is ImportEntity {
+  return typeof value === "string" && (IMPORT_ENTITIES as readonly string[]).includes(value)
+}
+
+function summarize(rows: ImportRowPreview[]): ImportSummary {
+  return {
+    create: rows.filter((row) => row.action === "create").length,
+    update: rows.filter((row) => row.action === "update").length,
+    skip: rows.filter((row) => row.action === "skip").length,
+    addAddress: rows.filter((row) => row.action === "add_address").length,
+    error: rows.filter((row) => row.action === "error").length,
+  }
+}
+
+function toPreview(row: PlannedRow): ImportRowPreview {
+  return { rowNumber: row.rowNumber, action: row.action, label: row.label, messages: row.messages, matchedId: row.matchedId }
+}
+
+function normalizeMapping(entity: ImportEntity, headers: string[], mapping: unknown): ColumnMapping {
+  if (!mapping || typeof mapping !== "object") {
+    throw new ImportError("Column mapping is required")
+  }
+  const keys = new Set(IMPORT_FIELDS[entity].map((field) => field.key))
+  const normalized: ColumnMapping = {}
+  for (const [key, value] of Object.entries(mapping as Record<string, unknown>)) {
+    if (!keys.has(key) || value === null || value === undefined || value === "") continue
+    const index = Number(value)
+    if (!Number.isInteger(index) || index < 0 || index >= headers.length) {
+      throw new ImportError(`Column for ${key} is not in the file`)
+    }
+    normalized[key] = index
+  }
+
+  const missing = IMPORT_FIELDS[entity].filter((field) => field.required && normalized[field.key] === undefined)
+  if (missing.length > 0) {
+    throw new ImportError(`Choose a column for ${missing.map((field) => field.label).join(", ")}`)
+  }
+  return normalized
+}
+
+function normalizeDuplicateMode(value: unknown): DuplicateMode {
+  if (value === undefined || value === null) return "skip"
+  if (!(DUPLICATE_MODES as readonly string[]).includes(String(value))) {
+    throw new ImportError(`Duplicate handling must be one of: ${DUPLICATE_MODES.join(", ")}`)
+  }
+  return value as DuplicateMode
+}
+
+async function findImport(companyId: number, importId: number) {
+  const database = requireDb()
+  const record = await database.query.dataImports.findFirst({
+    where: and(eq(schema.dataImports.id, importId), eq(schema.dataImports.companyId, companyId)),
+  })
+  if (!record) {
+    throw new ImportError("Import not found", 404)
+  }
+  return record
+}
+
+function describeImport(record: DataImport) {
+  const { rows, ...rest } = record
+  const entity = record.entityType as ImportEntity
+  return {
+    ...rest,
+    sampleRows: (rows as string[][]).slice(0, SAMPLE_ROWS),
+    fields: IMPORT_FIELDS[entity],
+  }
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file into a draft import, with a suggested column mapping
+ */
+export async function createImport(
+  companyId: number,
+  input: { entityType: ImportEntity; file: File; createdById?: number | null },
+) {
+  const database = requireDb()
+
+  if (input.file.size > MAX_IMPORT_FILE_BYTES) {
+    throw new ImportError(`Files can be at most ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB`)
+  }
+
+  let sheet
+  try {
+    sheet = parseSpreadsheet(Buffer.from(await input.file.arrayBuffer()), input.file.name)
+  } catch (error) {
+    if (error instanceof SpreadsheetError) throw new ImportError(error.message)
+    throw error
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Files can have at most ${MAX_IMPORT_ROWS} rows; split the file and import each part`)
+  }
+
+  const [record] = await database
+    .insert(schema.dataImports)
+    .values({
+      companyId,
+      entityType: input.entityType,
+      fileName: input.file.name,
+      headers: sheet.headers,
+      rows: sheet.rows,
+      columnMapping: suggestMapping(input.entityType, sheet.headers),
+      totalRows: sheet.rows.length,
+      createdById: input.createdById ?? null,
+    })
+    .returning()
+
+  return describeImport(record)
+}
+
+export async function getImport(companyId: number, importId: number) {
+  return describeImport(await findImport(companyId, importId))
+}
+
+export async function listImports(companyId: number, entityType?: ImportEntity) {
+  const database = requireDb()
+  const { rows: _rows, headers: _headers, columnMapping: _mapping, ...columns } = getTableColumns(schema.dataImports)
+  return database
+    .select(columns)
+    .from(schema.dataImports)
+    .where(
+      and(
+        eq(schema.dataImports.companyId, companyId),
+        entityType ? eq(schema.dataImports.entityType, entityType) : undefined,
+      ),
+    )
+    .orderBy(desc(schema.dataImports.createdAt))
+    .limit(50)
+}
+
+/**
+ * Dry run: validate every row against the mapping and report what committing would do.
+ * The mapping and duplicate handling are saved on the draft for the commit.
+ */
+export async function previewImport(
+  companyId: number,
+  importId: number,
+  input: { mapping: unknown; duplicateMode?: unknown },
+): Promise<ImportPreview> {
+  const database = requireDb()
+  const draft = await findImport(companyId, importId)
+  if (draft.status !== "draft") {
+    throw new ImportError("This import has already been committed", 409)
+  }
+
+  const entity = draft.entityType as ImportEntity
+  const mapping = normalizeMapping(entity, draft.headers as string[], input.mapping)
+  const duplicateMode = normalizeDuplicateMode(input.duplicateMode)
+  const planned = await planImport(database, entity, {
+    companyId,
+    rows: draft.rows as string[][],
+    mapping,
+    duplicateMode,
+  })
+  const summary = summarize(planned)
+
+  await database
+    .update(schema.dataImports)
+    .set({ columnMapping: mapping, duplicateMode, errorCount: summary.error, updatedAt: new Date() })
+    .where(eq(schema.dataImports.id, draft.id))
+
+  return { importId: draft.id, summary, rows: planned.map(toPreview) }
+}
+
+type RecordEntry = {
+  rowNumber: number
+  entityType: string
+  entityId: number
+  action: "created" | "updated"
+  previousValues?: Record<string, unknown> | null
+}
+
+async function insertInBatches<T extends { id: number }>(
+  rows: PlannedRow[],
+  insert: (values: Record<string, unknown>[]) => Promise<T[]>,
+  build: (row: PlannedRow) => Record<string, unknown>,
+) {
+  const created = new Map<number, T>()
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE)
+    const inserted = await insert(batch.map(build))
+    // Postgres returns multi-row inserts in the order given
+    batch.forEach((row, index) => created.set(row.rowNumber, inserted[index]))
+  }
+  return created
+}
+
+// Values an update is about to overwrite, so rollback can put them back
+function previousValuesOf(existing: Record<string, unknown>, values: Record<string, unknown>) {
+  return Object.fromEntries(Object.keys(values).map((key) => [key, existing[key] ?? null]))
+}
+
+function supplyStatus(quantity: number, minQuantity: number) {
+  if (quantity === 0) return "out-of-stock"
+  return quantity <= minQuantity ? "low-stock" : "in-stock"
+}
+
+async function commitCustomers(tx: DbTransaction, companyId: number, planned: PlannedRow[]) {
+  const records: RecordEntry[] = []
+  const customerIdByRow = new Map<number, number>()
+
+  const created = await insertInBatches(
+    planned.filter((row) => row.action === "create"),
+    (values) =>
+      tx
+        .insert(schema.customers)
+        .values(values as (typeof schema.customers.$inferInsert)[])
+        .returning({ id: schema.customers.id }),
+    (row) => ({ ...row.values, companyId }),
+  )
+  for (const [rowNumber, customer] of created) {
+    customerIdByRow.set(rowNumber, customer.id)
+    records.push({ rowNumber, entityType: "customer", entityId: customer.id, action: "created" })
+  }
+
+  for (const row of planned.filter((row) => row.action === "update")) {
+    const existing = await tx.query.customers.findFirst({ where: eq(schema.customers.id, row.matchedId!) })
+    if (!existing) continue
+    await tx
+      .update(schema.customers)
+      .set({ ...row.values, updatedAt: new Date() })
+      .where(eq(schema.customers.id, existing.id))
+    customerIdByRow.set(row.rowNumber, existing.id)
+    records.push({
+      rowNumber: row.rowNumber,
+      entityType: "customer",
+      entityId: existing.id,
+      action: "updated",
+      previousValues: previousValuesOf(existing, row.values),
+    })
+  }
+
+  const addresses = await insertInBatches(
+    planned.filter((row) => row.action === "add_address" && customerIdByRow.has(row.ownerRow!)),
+    (values) =>
+      tx
+        .insert(schema.customerAddresses)
+        .values(values as (typeof schema.customerAddresses.$inferInsert)[])
+        .returning({ id: schema.customerAddresses.id }),
+    (row) => ({ ...row.values, customerId: customerIdByRow.get(row.ownerRow!) }),
+  )
+  for (const [rowNumber, address] of addresses) {
+    records.push({ rowNumber, entityType: "customer_address", entityId: address.id, action: "created" })
+  }
+
+  return records
+}
+
+async function commitEmployees(tx: DbTransaction, companyId: number, planned: PlannedRow[]) {
+  const records: RecordEntry[] = []
+
+  // Imported staff get a random password; managers send real credentials from the employee list
+  const toCreate = planned.filter((row) => row.action === "create")
+  const passwords = new Map<number, string>()
+  for (const row of toCreate) {
+    passwords.set(row.rowNumber, (await generateEmployeeCredentials()).hashedPassword)
+  }
+
+  const created = await insertInBatches(
+    toCreate,
+    (values) =>
+      tx
+        .insert(schema.employees)
+        .values(values as (typeof schema.employees.$inferInsert)[])
+        .returning({ id: schema.employees.id }),
+    (row) => ({
+      country: "UK",
+      payType: "hourly",
+      ...row.values,
+      companyId,
+      username: row.values.email,
+      password: passwords.get(row.rowNumber),
+      status: "active",
+    }),
+  )
+  for (const [rowNumber, employee] of created) {
+    records.push({ rowNumber, entityType: "employee", entityId: employee.id, action: "created" })
+  }
+
+  for (const row of planned.filter((row) => row.action === "update")) {
+    const existing = await tx.query.employees.findFirst({ where: eq(schema.employees.id, row.matchedId!) })
+    if (!existing) continue
+    // Login details stay as they are
+    const { email: _email, ...values } = row.values
+    await tx
+      .update(schema.employees)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(schema.employees.id, existing.id))
+    records.push({
+      rowNumber: row.rowNumber,
+      entityType: "employee",
+      entityId: existing.id,
+      action: "updated",
+      previousValues: previousValuesOf(existing, values),
+    })
+  }
+
+  return records
+}
+
+async function commitJobs(tx: DbTransaction, companyId: number, planned: PlannedRow[]) {
+  const created = await insertInBatches(
+    planned.filter((row) => row.action === "create"),
+    (values) =>
+      tx
+        .insert(schema.jobs)
+        .values(values as (typeof schema.jobs.$inferInsert)[])
+        .returning(),
+    (row) => ({ ...row.values, companyId, status: "scheduled" }),
+  )
+
+  const records: RecordEntry[] = []
+  const seriesParents: { rowNumber: number; job: Job }[] = []
+  for (const [rowNumber, job] of created) {
+    records.push({ rowNumber, entityType: "job", entityId: job.id, action: "created" })
+    if (job.recurrenceRule) seriesParents.push({ rowNumber, job })
+  }
+  return { records, seriesParents }
+}
+
+async function commitSupplies(tx: DbTransaction, companyId: number, planned: PlannedRow[]) {
+  const records: RecordEntry[] = []
+
+  const created = await insertInBatches(
+    planned.filter((row) => row.action === "create"),
+    (values) =>
+      tx
+        .insert(schema.supplies)
+        .values(values as (typeof schema.supplies.$inferInsert)[])
+        .returning({ id: schema.supplies.id }),
+    (row) => {
+      const quantity = (row.values.quantity as number | undefined) ?? 0
+      const minQuantity = (row.values.minQuantity as number | undefined) ?? 5
+      return { ...row.values, companyId, quantity, minQuantity, status: supplyStatus(quantity, minQuantity) }
+    },
+  )
+  for (const [rowNumber, supply] of created) {
+    records.push({ rowNumber, entityType: "supply", entityId: supply.id, action: "created" })
+  }
+
+  for (const row of planned.filter((row) => row.action === "update")) {
+    const existing = await tx.query.supplies.findFirst({ where: eq(schema.supplies.id, row.matchedId!) })
+    if (!existing) continue
+    const quantity = (row.values.quantity as number | undefined) ?? existing.quantity
+    const minQuantity = (row.values.minQuantity as number | undefined) ?? existing.minQuantity ?? 5
+    const values = { ...row.values, status: supplyStatus(quantity, minQuantity) }
+    await tx
+      .update(schema.supplies)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(schema.supplies.id, existing.id))
+    records.push({
+      rowNumber: row.rowNumber,
+      entityType: "supply",
+      entityId: existing.id,
+      action: "updated",
+      previousValues: previousValuesOf(existing, values),
+    })
+  }
+
+  return records
+}
+
+function isUniqueViolation(error: unknown) {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505"
+}
+
+/**
+ * Write every valid row in one transaction. The plan is worked out again first, so anything
+ * added since the preview is still caught as a duplicate. Rows with errors are left out.
+ */
+export async function commitImport(companyId: number, importId: number) {
+  const database = requireDb()
+  const draft = await findImport(companyId, importId)
+  if (draft.status !== "draft") {
+    throw new ImportError("This import has already been committed", 409)
+  }
+
+  const entity = draft.entityType as ImportEntity
+  const mapping = normalizeMapping(entity, draft.headers as string[], draft.columnMapping)
+  let result: { summary: ImportSummary; seriesParents: { rowNumber: number; job: Job }[] }
+  try {
+    result = await database.transaction(async (tx) => {
+      // Claiming the draft first means two commits of the same import can't both run
+      const [claimed] = await tx
+        .update(schema.dataImports)
+        .set({ status: "committed", committedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(schema.dataImports.id, draft.id), eq(schema.dataImports.status, "draft")))
+        .returning({ id: schema.dataImports.id })
+      if (!claimed) {
+        throw new ImportError("This import has already been committed", 409)
+      }
+
+      const planned = await planImport(tx, entity, {
+        companyId,
+        rows: draft.rows as string[][],
+        mapping,
+        duplicateMode: draft.duplicateMode as DuplicateMode,
+      })
+      const summary = summarize(planned)
+      if (summary.create + summary.update + summary.addAddress === 0) {
+        throw new ImportError("There are no valid rows to import")
+      }
+
+      let records: RecordEntry[] = []
+      let seriesParents: { rowNumber: number; job: Job }[] = []
+      switch (entity) {
+        case "customers":
+          records = await commitCustomers(tx, companyId, planned)
+          break
+        case "employees":
+          records = await commitEmployees(tx, companyId, planned)
+          break
+        case "jobs": {
+          const jobs = await commitJobs(tx, companyId, planned)
+          records = jobs.records
+          seriesParents = jobs.seriesParents
+          break
+        }
+        case "supplies":
+          records = await commitSupplies(tx, companyId, planned)
+          break
+      }
+
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        await tx
+          .insert(schema.dataImportRecords)
+          .values(records.slice(i, i + INSERT_BATCH_SIZE).map((record) => ({ ...record, importId: draft.id })))
+      }
+
+      await tx
+        .update(schema.dataImports)
+        .set({
+          createdCount: summary.create + summary.addAddress,
+          updatedCount: summary.update,
+          skippedCount: summary.skip,
+          errorCount: summary.error,
+        })
+        .where(eq(schema.dataImports.id, draft.id))
+
+      return { summary, seriesParents }
+    })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ImportError("Some rows clash with records added since the preview. Preview the import again.", 409)
+    }
+    throw error
+  }
+
+  // Later visits of imported series are created the same way as for a series set up by hand.
+  // That runs outside the transaction, so they are recorded against the import once created.
+  let visitsCreated = 0
+  for (const { rowNumber, job } of result.seriesParents) {
+    try {
+      const from = job.scheduledFor ?? new Date()
+      const { created } = await syncJobSeries(job, { from, to: addMonths(from, SERIES_HORIZON_MONTHS), limit: 52 })
+      if (created.length > 0) {
+        await database.insert(schema.dataImportRecords).values(
+          created.map((visit) => ({
+            importId: draft.id,
+            rowNumber,
+            entityType: "job",
+            entityId: visit.id,
+            action: "created",
+          })),
+        )
+      }
+      visitsCreated += created.length
+    } catch (seriesError) {
+      console.error(`Failed to create visits for imported job ${job.id}:`, seriesError)
+    }
+  }
+
+  return { importId: draft.id, summary: result.summary, visitsCreated }
+}
+
+// Tables that point at customers or employees. Deleting the record would cascade to (or blank out)
+// their rows, so any row at all means the record is in use. Read from the schema's foreign keys so
+// tables added later are covered too.
+const dependentsCache = new Map<PgTable, { name: string; table: PgTable; column: PgColumn }[]>()
+
+function findDependents(target: PgTable) {
+  let dependents = dependentsCache.get(target)
+  if (!dependents) {
+    dependents = []
+    for (const table of Object.values(schema)) {
+      if (!is(table, PgTable)) continue
+      const config = getTableConfig(table)
+      for (const foreignKey of config.foreignKeys) {
+        const reference = foreignKey.reference()
+        if (reference.foreignTable !== target) continue
+        dependents.push({ name: config.name.replace(/_/g, " "), table, column: reference.columns[0] })
+      }
+    }
+    dependentsCache.set(target, dependents)
+  }
+  return dependents
+}
+
+async function findDependent(executor: DbExecutor, target: PgTable, entityId: number) {
+  for (const { name, table, column } of findDependents(target)) {
+    const [row] = await executor.select({ value: column }).from(table).where(eq(column, entityId)).limit(1)
+    if (row) return name
+  }
+  return null
+}
+
+/**
+ * Why a record the import created can't be removed any more, or null when nothing else uses it
+ */
+export async function findUsage(executor: DbExecutor, entityType: string, entityId: number): Promise<string | null> {
+  switch (entityType) {
+    case "customer": {
+      const dependent = await findDependent(executor, schema.customers, entityId)
+      return dependent ? `Customer has ${dependent}` : null
+    }
+    case "employee": {
+      const dependent = await findDependent(executor, schema.employees, entityId)
+      return dependent ? `Employee has ${dependent}` : null
+    }
+    case "job": {
+      const job = await executor.query.jobs.findFirst({ where: eq(schema.jobs.id, entityId) })
+      return job && job.status !== "scheduled" ? `Job is ${job.status}` : null
+    }
+    default:
+      return null
+  }
+}
+
+const ROLLBACK_TABLES = {
+  customer: schema.customers,
+  customer_address: schema.customerAddresses,
+  employee: schema.employees,
+  job: schema.jobs,
+  supply: schema.supplies,
+} as const
+
+// Timestamps come back from JSON as strings
+const DATE_FIELDS = ["startDate"]
+
+/**
+ * Undo a committed import. Created records are deleted unless they have been used since
+ * (a customer with a contract, an employee with shifts, a visit that has started...); those are
+ * kept and reported.
+ * Updated records get the values they had before the import.
+ */
+export async function rollbackImport(companyId: number, importId: number, userId?: number | null): Promise<RollbackResult> {
+  const database = requireDb()
+  const record = await findImport(companyId, importId)
+  if (record.status !== "committed") {
+    throw new ImportError(
+      record.status === "rolled_back" ? "This import has already been rolled back" : "Only committed imports can be rolled back",
+      409,
+    )
+  }
+
+  return database.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(schema.dataImports)
+      .set({ status: "rolled_back", rolledBackAt: new Date(), rolledBackById: userId ?? null, updatedAt: new Date() })
+      .where(and(eq(schema.dataImports.id, record.id), eq(schema.dataImports.status, "committed")))
+      .returning({ id: schema.dataImports.id })
+    if (!claimed) {
+      throw new ImportError("This import has already been rolled back", 409)
+    }
+
+    const entries = await tx.query.dataImportRecords.findMany({
+      where: eq(schema.dataImportRecords.importId, record.id),
+      orderBy: [desc(schema.dataImportRecords.id)],
+    })
+
+    const result: RollbackResult = { removed: 0, restored: 0, kept: [] }
+    // Dependents first: addresses and visits go before the customers they belong to
+    const order = ["customer_address", "job", "supply", "employee", "customer"]
+    entries.sort((a, b) => order.indexOf(a.entityType) - order.indexOf(b.entityType))
+
+    for (const entry of entries) {
+      const table = ROLLBACK_TABLES[entry.entityType as keyof typeof ROLLBACK_TABLES]
+      if (!table) continue
+
+      if (entry.action === "updated") {
+        const previous = { ...(entry.previousValues as Record<string, unknown>) }
+        for (const key of DATE_FIELDS) {
+          if (typeof previous[key] === "string") previous[key] = new Date(previous[key] as string)
+        }
+        await tx.update(table).set(previous).where(eq(table.id, entry.entityId))
+        result.restored++
+        continue
+      }
+
+      const usage = await findUsage(tx, entry.entityType, entry.entityId)
+      if (usage) {
+        result.kept.push({ entityType: entry.entityType, entityId: entry.entityId, reason: usage })
+        continue
+      }
+      if (entry.entityType === "job") {
+        // Visits added when the series was extended after the import go with it
+        const visits = await tx
+          .delete(schema.jobs)
+          .where(and(eq(schema.jobs.parentJobId, entry.entityId), eq(schema.jobs.status, "scheduled")))
+          .returning({ id: schema.jobs.id })
+        result.removed += visits.length
+      }
+      const deleted = await tx.delete(table).where(eq(table.id, entry.entityId)).returning({ id: table.id })
+      result.removed += deleted.length
+    }
+
+    return result
+  })
+}
@@ -0,0 +1,86 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { strToU8, zipSync } from "fflate"
+import { parseCsv, parseSpreadsheet, SpreadsheetError } from "@/lib/imports/parse"
+
+describe("parseCsv", () => {
+  test("splits rows and fields", () => {
+    assert.deepEqual(parseCsv("name,email\nJane,jane@example.com\nJoe,joe@example.com"), [
+      ["name", "email"],
+      ["Jane", "jane@example.com"],
+      ["Joe", "joe@example.com"],
+    ])
+  })
+
+  test("keeps commas, escaped quotes and newlines inside quoted fields", () => {
+    assert.deepEqual(parseCsv('name,notes\n"Smith, Jane","Said ""hi""\nat the door"'), [
+      ["name", "notes"],
+      ["Smith, Jane", 'Said "hi"\nat the door'],
+    ])
+  })
+
+  test("handles CRLF line endings and a byte order mark", () => {
+    assert.deepEqual(parseCsv("﻿name,city\r\nJane,Leeds\r\n"), [
+      ["name", "city"],
+      ["Jane", "Leeds"],
+    ])
+  })
+
+  test("reads semicolon-separated files from European locales", () => {
+    assert.deepEqual(parseCsv("name;amount\nJane;12,50"), [
+      ["name", "amount"],
+      ["Jane", "12,50"],
+    ])
+  })
+
+  test("keeps empty fields", () => {
+    assert.deepEqual(parseCsv("a,b,c\n,2,\n"), [
+      ["a", "b", "c"],
+      ["", "2", ""],
+    ])
+  })
+})
+
+describe("parseSpreadsheet", () => {
+  test("trims cells, names blank headings and pads short rows", () => {
+    const sheet = parseSpreadsheet(Buffer.from(" Name ,,Email\n Jane ,x\n"), "customers.csv")
+    assert.deepEqual(sheet, {
+      headers: ["Name", "Column 2", "Email"],
+      rows: [["Jane", "x", ""]],
+    })
+  })
+
+  test("keeps blank rows inside the data so row numbers match", () => {
+    const sheet = parseSpreadsheet(Buffer.from("name\nJane\n,\nJoe\n\n\n"), "customers.csv")
+    assert.deepEqual(sheet.rows, [["Jane"], [""], ["Joe"]])
+  })
+
+  test("needs a header row and at least one data row", () => {
+    assert.throws(() => parseSpreadsheet(Buffer.from("name\n"), "customers.csv"), SpreadsheetError)
+    assert.throws(() => parseSpreadsheet(Buffer.from(""), "customers.csv"), SpreadsheetError)
+  })
+
+  test("rejects other file types", () => {
+    assert.throws(() => parseSpreadsheet(Buffer.from("name\nJane"), "customers.pdf"), /\.csv or \.xlsx/)
+  })
+
+  test("reads the first sheet of a workbook", () => {
+    const sheetXml =
+      '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Email</t></is></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>42</v></c></row></sheetData></worksheet>'
+    const workbook = zipSync({
+      "xl/workbook.xml": strToU8('<workbook><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+      "xl/_rels/workbook.xml.rels": strToU8(
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      ),
+      "xl/sharedStrings.xml": strToU8("<sst><si><t>Name</t></si><si><t>Jane &amp; Joe</t></si></sst>"),
+      "xl/worksheets/sheet1.xml": strToU8(sheetXml),
+    })
+
+    const sheet = parseSpreadsheet(Buffer.from(workbook), "customers.xlsx")
+    assert.deepEqual(sheet, {
+      headers: ["Name", "Email"],
+      rows: [["Jane & Joe", ""]],
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { strFromU8, unzipSync } from "fflate"
+
+/**
+ * Spreadsheet parsing for imports. CSV follows RFC 4180 (quoted fields may contain commas,
+ * quotes and newlines); XLSX is read straight from the workbook XML, taking the first sheet.
+ */
+
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SpreadsheetError"
+  }
+}
+
+export function isBlankRow(row: string[]) {
+  return row.every((cell) => cell.trim() === "")
+}
+
+export function parseSpreadsheet(body: Buffer, fileName: string): ParsedSheet {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  let table: string[][]
+  if (extension === "xlsx") {
+    table = parseXlsx(body)
+  } else if (extension === "csv" || extension === "txt") {
+    table = parseCsv(body.toString("utf8"))
+  } else {
+    throw new SpreadsheetError("Upload a .csv or .xlsx file")
+  }
+
+  // Blank rows inside the data stay so row numbers match the spreadsheet; they are skipped later
+  while (table.length > 0 && isBlankRow(table[table.length - 1])) table.pop()
+  if (table.length < 2 || isBlankRow(table[0])) {
+    throw new SpreadsheetError("The file needs a header row and at least one data row")
+  }
+
+  const [headerRow, ...rows] = table
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`)
+  return {
+    headers,
+    rows: rows.map((row) => headers.map((_, index) => (row[index] ?? "").trim())),
+  }
+}
+
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, "")
+  // Spreadsheets saved with a European locale separate fields with semicolons
+  const firstLine = input.slice(0, input.search(/\r?\n/) === -1 ? undefined : input.search(/\r?\n/))
+  const delimiter = !firstLine.includes(",") && firstLine.includes(";") ? ";" : ","
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }
+
+function decodeXml(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    return XML_ENTITIES[entity] ?? match
+  })
+}
+
+// Text of every <t> element, joined (rich text splits a cell into several runs)
+function textContent(xml: string) {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join("")
+}
+
+function columnIndex(reference: string) {
+  const letters = reference.replace(/\d+$/, "").toUpperCase()
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function resolveFirstSheetPath(files: Record<string, Uint8Array>) {
+  const workbook = files["xl/workbook.xml"] ? strFromU8(files["xl/workbook.xml"]) : ""
+  const rels = files["xl/_rels/workbook.xml.rels"] ? strFromU8(files["xl/_rels/workbook.xml.rels"]) : ""
+  const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1]
+  if (relId) {
+    const relationship = rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*>`))?.[0]
+    const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1]
+    if (target) {
+      const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`
+      if (files[path]) return path
+    }
+  }
+  return files["xl/worksheets/sheet1.xml"] ? "xl/worksheets/sheet1.xml" : null
+}
+
+export function parseXlsx(body: Buffer): string[][] {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(new Uint8Array(body), {
+      filter: (file) => file.name.startsWith("xl/") && (file.name.endsWith(".xml") || file.name.endsWith(".rels")),
+    })
+  } catch {
+    throw new SpreadsheetError("The file is not a valid .xlsx workbook")
+  }
+
+  const sheetPath = resolveFirstSheetPath(files)
+  if (!sheetPath) {
+    throw new SpreadsheetError("The workbook has no worksheets")
+  }
+
+  const sharedStrings = files["xl/sharedStrings.xml"]
+    ? Array.from(strFromU8(files["xl/sharedStrings.xml"]).matchAll(/<si>([\s\S]*?)<\/si>/g), (match) =>
+        textContent(match[1]),
+      )
+    : []
+
+  const rows: string[][] = []
+  const sheet = strFromU8(files[sheetPath])
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? rows.length + 1)
+    const cells: string[] = []
+
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const content = cellMatch[2] ?? ""
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1]
+      const type = attributes.match(/\bt="(\w+)"/)?.[1]
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value = ""
+      if (type === "s" && raw !== undefined) {
+        value = sharedStrings[Number(raw)] ?? ""
+      } else if (type === "inlineStr") {
+        value = textContent(content)
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE"
+      } else if (raw !== undefined) {
+        value = decodeXml(raw)
+      }
+
+      cells[reference ? columnIndex(reference) : cells.length] = value
+    }
+
+    // Blank rows are left out of the XML; pad so row positions still line up
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows.push(Array.from(cells, (cell) => cell ?? ""))
+  }
+
+  return rows
+}
@@ -0,0 +1,579 @@
+import { and, eq, inArray, isNotNull } from "drizzle-orm"
+import { addMonths, parseISO } from "date-fns"
+import { schema, type DbExecutor } from "@/lib/db"
+import { getReservedEmailMessage, isReservedEmail } from "@/lib/forbidden-emails"
+import { atLocalTime, buildRecurrenceSet, formatRecurrenceSet } from "@/lib/recurrence"
+import {
+  IMPORT_FIELDS,
+  isValidEmail,
+  normalizePhone,
+  normalizePostcode,
+  parseImportDate,
+  parseImportNumber,
+  parseImportTime,
+  readMappedRow,
+  type ColumnMapping,
+  type ImportEntity,
+} from "./fields"
+import { isBlankRow } from "./parse"
+
+/**
+ * Row-by-row planning for imports: validates each row and decides what committing it would do,
+ * checking for duplicates both against existing records (the same keys as the unique indexes)
+ * and against earlier rows in the file. The preview shows this plan; commit recomputes it so it
+ * always acts on the data as it is at that moment.
+ */
+
+export const DUPLICATE_MODES = ["skip", "update"] as const
+export type DuplicateMode = (typeof DUPLICATE_MODES)[number]
+
+export type ImportRowAction = "create" | "update" | "skip" | "add_address" | "error"
+
+export interface ImportRowPreview {
+  rowNumber: number
+  action: ImportRowAction
+  label: string
+  messages: string[]
+  // Existing record the row matched
+  matchedId: number | null
+}
+
+export interface PlannedRow extends ImportRowPreview {
+  // Column values to write; only the fields the row actually has
+  values: Record<string, unknown>
+  // Extra customer addresses belong to the customer created or updated by this row
+  ownerRow?: number
+}
+
+export interface PlanInput {
+  companyId: number
+  rows: string[][]
+  mapping: ColumnMapping
+  duplicateMode: DuplicateMode
+}
+
+const CUSTOMER_TYPES = ["residential", "commercial"]
+const CUSTOMER_STATUSES = ["active", "inactive"]
+const PAY_TYPES = ["hourly", "salary"]
+const ONE_OFF_RECURRENCES = ["", "none", "once", "one-off", "one off", "never"]
+
+// Visits created up front for an imported series, as when a series is set up by hand
+export const SERIES_HORIZON_MONTHS = 3
+
+function compact(values: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null && value !== undefined && value !== ""))
+}
+
+function requiredMessages(entity: ImportEntity, raw: Record<string, string>) {
+  return IMPORT_FIELDS[entity].filter((field) => field.required && !raw[field.key]).map((field) => `${field.label} is required`)
+}
+
+function toMoney(value: number | null) {
+  return value === null ? null : value.toFixed(2)
+}
+
+function addressKey(address: unknown, postcode: unknown) {
+  return `${String(address ?? "").toLowerCase().replace(/\s+/g, " ").trim()}|${String(postcode ?? "").toLowerCase().replace(/\s/g, "")}`
+}
+
+// Walk the non-blank rows, numbering them as the spreadsheet does (the header is row 1)
+function eachRow(entity: ImportEntity, input: PlanInput, visit: (raw: Record<string, string>, rowNumber: number) => void) {
+  input.rows.forEach((row, index) => {
+    if (isBlankRow(row)) return
+    visit(readMappedRow(entity, input.mapping, row), index + 2)
+  })
+}
+
+function resolveMatch(
+  duplicateMode: DuplicateMode,
+  matches: { key: string; id: number | undefined }[],
+  noun: string,
+): Pick<PlannedRow, "action" | "matchedId" | "messages"> {
+  const found = matches.filter((match) => match.id !== undefined)
+  if (found.length === 0) {
+    return { action: "create", matchedId: null, messages: [] }
+  }
+  if (new Set(found.map((match) => match.id)).size > 1) {
+    return {
+      action: "error",
+      matchedId: null,
+      messages: [`The ${found.map((match) => match.key).join(" and ")} belong to different existing ${noun}s`],
+    }
+  }
+  const message = `Matches an existing ${noun} by ${found.map((match) => match.key).join(" and ")}`
+  return duplicateMode === "update"
+    ? { action: "update", matchedId: found[0].id!, messages: [message] }
+    : { action: "skip", matchedId: found[0].id!, messages: [`${message}; skipped`] }
+}
+
+async function planCustomers(database: DbExecutor, input: PlanInput): Promise<PlannedRow[]> {
+  const existing = await database
+    .select({ id: schema.customers.id, email: schema.customers.email, phone: schema.customers.phone })
+    .from(schema.customers)
+    .where(eq(schema.customers.companyId, input.companyId))
+  const byEmail = new Map(existing.map((customer) => [customer.email.toLowerCase(), customer.id]))
+  const byPhone = new Map(existing.filter((customer) => customer.phone).map((customer) => [customer.phone!, customer.id]))
+
+  const planned: PlannedRow[] = []
+  const ownerByEmail = new Map<string, PlannedRow>()
+  const rowByPhone = new Map<string, number>()
+
+  eachRow("customers", input, (raw, rowNumber) => {
+    const email = raw.email.toLowerCase()
+    const label = [`${raw.firstName} ${raw.lastName}`.trim(), email].filter(Boolean).join(" · ")
+    const messages = requiredMessages("customers", raw)
+
+    if (email && !isValidEmail(email)) messages.push(`"${raw.email}" is not a valid email`)
+    const phone = normalizePhone(raw.phone)
+    if (phone.error) messages.push(phone.error)
+    const alternatePhone = normalizePhone(raw.alternatePhone)
+    if (alternatePhone.error) messages.push(`Alternate phone: ${alternatePhone.error}`)
+    const postcode = normalizePostcode(raw.postcode, raw.country)
+    if (postcode.error) messages.push(postcode.error)
+    const customerType = raw.customerType.toLowerCase()
+    if (customerType && !CUSTOMER_TYPES.includes(customerType)) {
+      messages.push(`Customer type must be ${CUSTOMER_TYPES.join(" or ")}`)
+    }
+    const status = raw.status.toLowerCase()
+    if (status && !CUSTOMER_STATUSES.includes(status)) messages.push(`Status must be ${CUSTOMER_STATUSES.join(" or ")}`)
+    if (!raw.address && (raw.city || raw.postcode)) messages.push("Address is required when a city or postcode is given")
+
+    // A repeated email adds another address to the customer from the earlier row
+    const owner = email ? ownerByEmail.get(email) : undefined
+    if (owner) {
+      const row: PlannedRow = { rowNumber, label, action: "add_address", matchedId: owner.matchedId, messages, values: {} }
+      if (!raw.address) {
+        messages.push(`Repeats the customer on row ${owner.rowNumber} without a new address`)
+      }
+      if (messages.length > 0) {
+        row.action = "error"
+      } else if (owner.action === "error" || owner.action === "skip") {
+        row.action = owner.action
+        row.messages = [`The customer on row ${owner.rowNumber} is ${owner.action === "error" ? "invalid" : "skipped"}`]
+      } else {
+        row.ownerRow = owner.rowNumber
+        row.messages = [`Extra address for the customer on row ${owner.rowNumber}`]
+        row.values = compact({
+          label: raw.addressLabel || null,
+          address: raw.address,
+          addressLine2: raw.addressLine2,
+          city: raw.city,
+          postcode: postcode.postcode,
+          country: raw.country,
+          accessInstructions: raw.accessInstructions,
+          parkingInstructions: raw.parkingInstructions,
+          specialInstructions: raw.specialInstructions,
+        })
+      }
+      planned.push(row)
+      return
+    }
+
+    if (phone.phone && rowByPhone.has(phone.phone)) {
+      messages.push(`Same phone number as row ${rowByPhone.get(phone.phone)}`)
+    }
+
+    const row: PlannedRow =
+      messages.length > 0
+        ? { rowNumber, label, action: "error", matchedId: null, messages, values: {} }
+        : {
+            rowNumber,
+            label,
+            ...resolveMatch(
+              input.duplicateMode,
+              [
+                { key: "email", id: byEmail.get(email) },
+                { key: "phone", id: phone.phone ? byPhone.get(phone.phone) : undefined },
+              ],
+              "customer",
+            ),
+            values: compact({
+              firstName: raw.firstName,
+              lastName: raw.lastName,
+              email,
+              phone: phone.phone,
+              alternatePhone: alternatePhone.phone,
+              companyName: raw.companyName,
+              customerType,
+              status,
+              address: raw.address,
+              addressLine2: raw.addressLine2,
+              city: raw.city,
+              postcode: postcode.postcode,
+              country: raw.country,
+              accessInstructions: raw.accessInstructions,
+              parkingInstructions: raw.parkingInstructions,
+              specialInstructions: raw.specialInstructions,
+              source: raw.source,
+              notes: raw.notes,
+            }),
+          }
+
+    if (email) ownerByEmail.set(email, row)
+    if (phone.phone) rowByPhone.set(phone.phone, rowNumber)
+    planned.push(row)
+  })
+
+  // Addresses for customers that are being updated may already be on file
+  const updatedIds = [
+    ...new Set(planned.filter((row) => row.action === "add_address" && row.matchedId).map((row) => row.matchedId!)),
+  ]
+  if (updatedIds.length > 0) {
+    const [primaries, extras] = await Promise.all([
+      database
+        .select({ customerId: schema.customers.id, address: schema.customers.address, postcode: schema.customers.postcode })
+        .from(schema.customers)
+        .where(inArray(schema.customers.id, updatedIds)),
+      database
+        .select({
+          customerId: schema.customerAddresses.customerId,
+          address: schema.customerAddresses.address,
+          postcode: schema.customerAddresses.postcode,
+        })
+        .from(schema.customerAddresses)
+        .where(inArray(schema.customerAddresses.customerId, updatedIds)),
+    ])
+    const known = new Set([...primaries, ...extras].map((row) => `${row.customerId}|${addressKey(row.address, row.postcode)}`))
+    for (const row of planned) {
+      if (row.action !== "add_address" || !row.matchedId) continue
+      if (known.has(`${row.matchedId}|${addressKey(row.values.address, row.values.postcode)}`)) {
+        row.action = "skip"
+        row.messages = ["The customer already has this address; skipped"]
+      }
+    }
+  }
+
+  return planned
+}
+
+async function planEmployees(database: DbExecutor, input: PlanInput): Promise<PlannedRow[]> {
+  const [existing, users, company] = await Promise.all([
+    database
+      .select({ id: schema.employees.id, email: schema.employees.email, phone: schema.employees.phone })
+      .from(schema.employees)
+      .where(eq(schema.employees.companyId, input.companyId)),
+    database
+      .select({ email: schema.users.email })
+      .from(schema.users)
+      .where(eq(schema.users.companyId, input.companyId)),
+    database.query.companies.findFirst({ where: eq(schema.companies.id, input.companyId) }),
+  ])
+  const byEmail = new Map(existing.map((employee) => [employee.email.toLowerCase(), employee.id]))
+  const byPhone = new Map(existing.filter((employee) => employee.phone).map((employee) => [employee.phone!, employee.id]))
+  const userEmails = new Set(users.map((user) => user.email.toLowerCase()))
+  const maxEmployees = company?.maxEmployees ?? 0
+  let employeeCount = existing.length
+
+  const planned: PlannedRow[] = []
+  const rowByEmail = new Map<string, number>()
+  const rowByPhone = new Map<string, number>()
+
+  eachRow("employees", input, (raw, rowNumber) => {
+    const email = raw.email.toLowerCase()
+    const label = [`${raw.firstName} ${raw.lastName}`.trim(), email].filter(Boolean).join(" · ")
+    const messages = requiredMessages("employees", raw)
+
+    if (email && !isValidEmail(email)) messages.push(`"${raw.email}" is not a valid email`)
+    if (email && isReservedEmail(email)) messages.push(getReservedEmailMessage("Employee email"))
+    if (email && (userEmails.has(email) || company?.email.toLowerCase() === email)) {
+      messages.push("Email belongs to a company user")
+    }
+    if (email && rowByEmail.has(email)) messages.push(`Same email as row ${rowByEmail.get(email)}`)
+
+    const phone = normalizePhone(raw.phone)
+    if (phone.error) messages.push(phone.error)
+    if (phone.phone && rowByPhone.has(phone.phone)) messages.push(`Same phone number as row ${rowByPhone.get(phone.phone)}`)
+    const postcode = normalizePostcode(raw.postcode, raw.country)
+    if (postcode.error) messages.push(postcode.error)
+
+    const startDate = raw.startDate ? parseImportDate(raw.startDate) : null
+    if (raw.startDate && !startDate) messages.push(`"${raw.startDate}" is not a valid start date`)
+    const payType = raw.payType.toLowerCase()
+    if (payType && !PAY_TYPES.includes(payType)) messages.push(`Pay type must be ${PAY_TYPES.join(" or ")}`)
+    const hourlyRate = parseImportNumber(raw.hourlyRate)
+    if (raw.hourlyRate && (hourlyRate === null || hourlyRate < 0)) messages.push(`"${raw.hourlyRate}" is not a valid hourly rate`)
+    const salary = parseImportNumber(raw.salary)
+    if (raw.salary && (salary === null || salary < 0)) messages.push(`"${raw.salary}" is not a valid salary`)
+    if (payType === "hourly" && !raw.hourlyRate) messages.push("Hourly rate is required for hourly pay")
+    if (payType === "salary" && !raw.salary) messages.push("Salary is required for salaried employees")
+
+    if (email) rowByEmail.set(email, rowNumber)
+    if (phone.phone) rowByPhone.set(phone.phone, rowNumber)
+
+    if (messages.length > 0) {
+      planned.push({ rowNumber, label, action: "error", matchedId: null, messages, values: {} })
+      return
+    }
+
+    const match = resolveMatch(
+      input.duplicateMode,
+      [
+        { key: "email", id: byEmail.get(email) },
+        { key: "phone", id: phone.phone ? byPhone.get(phone.phone) : undefined },
+      ],
+      "employee",
+    )
+    if (match.action === "create") {
+      if (maxEmployees > 0 && employeeCount >= maxEmployees) {
+        planned.push({
+          rowNumber,
+          label,
+          action: "error",
+          matchedId: null,
+          messages: [`Your employee allowance of ${maxEmployees} has been reached`],
+          values: {},
+        })
+        return
+      }
+      employeeCount++
+    }
+
+    planned.push({
+      rowNumber,
+      label,
+      ...match,
+      values: compact({
+        firstName: raw.firstName,
+        lastName: raw.lastName,
+        email,
+        phone: phone.phone,
+        role: raw.role,
+        employmentType: raw.employmentType.toLowerCase(),
+        startDate: startDate ? parseISO(startDate) : null,
+        payType,
+        hourlyRate: toMoney(hourlyRate),
+        salary: toMoney(salary),
+        address: raw.address,
+        addressLine2: raw.addressLine2,
+        city: raw.city,
+        postcode: postcode.postcode,
+        country: raw.country,
+      }),
+    })
+  })
+
+  return planned
+}
+
+async function planJobs(database: DbExecutor, input: PlanInput): Promise<PlannedRow[]> {
+  const [customers, employees] = await Promise.all([
+    database
+      .select({
+        id: schema.customers.id,
+        email: schema.customers.email,
+        address: schema.customers.address,
+        addressLine2: schema.customers.addressLine2,
+        city: schema.customers.city,
+        postcode: schema.customers.postcode,
+      })
+      .from(schema.customers)
+      .where(eq(schema.customers.companyId, input.companyId)),
+    database
+      .select({ id: schema.employees.id, email: schema.employees.email })
+      .from(schema.employees)
+      .where(eq(schema.employees.companyId, input.companyId)),
+  ])
+  const customersByEmail = new Map(customers.map((customer) => [customer.email.toLowerCase(), customer]))
+  const employeesByEmail = new Map(employees.map((employee) => [employee.email.toLowerCase(), employee.id]))
+
+  const planned: PlannedRow[] = []
+  eachRow("jobs", input, (raw, rowNumber) => {
+    const label = [raw.title, raw.customerEmail].filter(Boolean).join(" · ")
+    const messages = requiredMessages("jobs", raw)
+
+    const customer = raw.customerEmail ? customersByEmail.get(raw.customerEmail.toLowerCase()) : undefined
+    if (raw.customerEmail && !customer) messages.push(`No customer with email ${raw.customerEmail}`)
+    const assignedTo = raw.assignedToEmail ? employeesByEmail.get(raw.assignedToEmail.toLowerCase()) : undefined
+    if (raw.assignedToEmail && !assignedTo) messages.push(`No employee with email ${raw.assignedToEmail}`)
+
+    const startDate = raw.startDate ? parseImportDate(raw.startDate) : null
+    if (raw.startDate && !startDate) messages.push(`"${raw.startDate}" is not a valid date`)
+    const startTime = raw.startTime ? parseImportTime(raw.startTime) : "09:00"
+    if (!startTime) messages.push(`"${raw.startTime}" is not a valid time`)
+    const endDate = raw.endDate ? parseImportDate(raw.endDate) : null
+    if (raw.endDate && !endDate) messages.push(`"${raw.endDate}" is not a valid end date`)
+    const duration = parseImportNumber(raw.durationMinutes)
+    if (raw.durationMinutes && (duration === null || duration <= 0)) {
+      messages.push(`"${raw.durationMinutes}" is not a valid duration`)
+    }
+    const price = parseImportNumber(raw.estimatedPrice)
+    if (raw.estimatedPrice && (price === null || price < 0)) messages.push(`"${raw.estimatedPrice}" is not a valid price`)
+    const postcode = normalizePostcode(raw.postcode, "")
+    if (postcode.error) messages.push(postcode.error)
+
+    const scheduledFor = startDate && startTime ? atLocalTime(parseISO(startDate), startTime) : null
+    const recurrence = raw.recurrence.trim()
+    let seriesValues: Record<string, unknown> = {}
+    if (scheduledFor && !ONE_OFF_RECURRENCES.includes(recurrence.toLowerCase())) {
+      const isRule = /^(RRULE:)?FREQ=/i.test(recurrence) || /DTSTART/i.test(recurrence)
+      try {
+        const set = buildRecurrenceSet({
+          rrule: isRule ? recurrence : null,
+          frequency: isRule ? null : recurrence,
+          dtstart: scheduledFor,
+          until: endDate ? atLocalTime(parseISO(endDate), "23:59") : null,
+        })
+        if (!set) {
+          messages.push(`Unknown repeat pattern "${recurrence}"`)
+        } else {
+          seriesValues = {
+            recurrence: isRule ? "custom" : recurrence.toLowerCase(),
+            recurrenceRule: formatRecurrenceSet(set),
+            recurrenceEndDate: set.rule.until ?? addMonths(scheduledFor, SERIES_HORIZON_MONTHS),
+            recurrenceId: scheduledFor,
+          }
+        }
+      } catch (ruleError) {
+        messages.push(ruleError instanceof Error ? ruleError.message : "Invalid repeat rule")
+      }
+    }
+
+    if (messages.length > 0 || !customer || !scheduledFor) {
+      planned.push({ rowNumber, label, action: "error", matchedId: null, messages, values: {} })
+      return
+    }
+
+    planned.push({
+      rowNumber,
+      label,
+      action: "create",
+      matchedId: null,
+      messages: seriesValues.recurrence ? [`Repeats ${seriesValues.recurrence}`] : [],
+      values: compact({
+        title: raw.title,
+        customerId: customer.id,
+        assignedTo,
+        jobType: raw.jobType,
+        description: raw.description,
+        scheduledFor,
+        durationMinutes: duration === null ? null : Math.round(duration),
+        estimatedPrice: toMoney(price),
+        // The visit is at the customer's address unless the row gives another
+        location: raw.location || customer.address,
+        addressLine2: raw.location ? null : customer.addressLine2,
+        city: raw.location ? raw.city : customer.city,
+        postcode: raw.location ? postcode.postcode : customer.postcode,
+        ...seriesValues,
+      }),
+    })
+  })
+
+  // The same job for the same customer at the same time is a duplicate; imported series are
+  // never merged into existing ones, so there is nothing to update
+  const customerIds = [...new Set(planned.filter((row) => row.action === "create").map((row) => row.values.customerId as number))]
+  const existing =
+    customerIds.length > 0
+      ? await database
+          .select({
+            id: schema.jobs.id,
+            customerId: schema.jobs.customerId,
+            title: schema.jobs.title,
+            scheduledFor: schema.jobs.scheduledFor,
+          })
+          .from(schema.jobs)
+          .where(
+            and(
+              eq(schema.jobs.companyId, input.companyId),
+              inArray(schema.jobs.customerId, customerIds),
+              isNotNull(schema.jobs.scheduledFor),
+            ),
+          )
+      : []
+  const jobKey = (customerId: unknown, title: unknown, scheduledFor: unknown) =>
+    `${customerId}|${String(title).toLowerCase()}|${(scheduledFor as Date).getTime()}`
+  const existingByKey = new Map(existing.map((job) => [jobKey(job.customerId, job.title, job.scheduledFor), job.id]))
+  const rowByKey = new Map<string, number>()
+
+  for (const row of planned) {
+    if (row.action !== "create") continue
+    const key = jobKey(row.values.customerId, row.values.title, row.values.scheduledFor)
+    const existingId = existingByKey.get(key)
+    if (existingId) {
+      row.action = "skip"
+      row.matchedId = existingId
+      row.messages = ["This job is already scheduled for the customer at this time; skipped"]
+    } else if (rowByKey.has(key)) {
+      row.action = "error"
+      row.messages = [`Same job as row ${rowByKey.get(key)}`]
+    } else {
+      rowByKey.set(key, row.rowNumber)
+    }
+  }
+
+  return planned
+}
+
+async function planSupplies(database: DbExecutor, input: PlanInput): Promise<PlannedRow[]> {
+  const existing = await database
+    .select({ id: schema.supplies.id, name: schema.supplies.name, sku: schema.supplies.sku })
+    .from(schema.supplies)
+    .where(eq(schema.supplies.companyId, input.companyId))
+  const bySku = new Map(existing.filter((supply) => supply.sku).map((supply) => [supply.sku!.toLowerCase(), supply.id]))
+  const byName = new Map(existing.map((supply) => [supply.name.toLowerCase(), supply.id]))
+
+  const planned: PlannedRow[] = []
+  const rowByKey = new Map<string, number>()
+
+  eachRow("supplies", input, (raw, rowNumber) => {
+    const label = [raw.name, raw.sku].filter(Boolean).join(" · ")
+    const messages = requiredMessages("supplies", raw)
+
+    const quantity = parseImportNumber(raw.quantity)
+    if (raw.quantity && (quantity === null || quantity < 0 || !Number.isInteger(quantity))) {
+      messages.push(`"${raw.quantity}" is not a valid quantity`)
+    }
+    const minQuantity = parseImportNumber(raw.minQuantity)
+    if (raw.minQuantity && (minQuantity === null || minQuantity < 0 || !Number.isInteger(minQuantity))) {
+      messages.push(`"${raw.minQuantity}" is not a valid reorder level`)
+    }
+    const unitCost = parseImportNumber(raw.unitCost)
+    if (raw.unitCost && (unitCost === null || unitCost < 0)) messages.push(`"${raw.unitCost}" is not a valid unit cost`)
+
+    // Items are matched on SKU when they have one, otherwise on name
+    const key = raw.sku ? `sku:${raw.sku.toLowerCase()}` : `name:${raw.name.toLowerCase()}`
+    if (raw.name && rowByKey.has(key)) messages.push(`Same item as row ${rowByKey.get(key)}`)
+    if (raw.name) rowByKey.set(key, rowNumber)
+
+    if (messages.length > 0) {
+      planned.push({ rowNumber, label, action: "error", matchedId: null, messages, values: {} })
+      return
+    }
+
+    planned.push({
+      rowNumber,
+      label,
+      ...resolveMatch(
+        input.duplicateMode,
+        [raw.sku ? { key: "SKU", id: bySku.get(raw.sku.toLowerCase()) } : { key: "name", id: byName.get(raw.name.toLowerCase()) }],
+        "item",
+      ),
+      values: compact({
+        name: raw.name,
+        sku: raw.sku,
+        category: raw.category,
+        quantity,
+        unit: raw.unit,
+        minQuantity,
+        unitCost: toMoney(unitCost),
+        supplier: raw.supplier,
+        description: raw.description,
+        notes: raw.notes,
+      }),
+    })
+  })
+
+  return planned
+}
+
+export function planImport(database: DbExecutor, entity: ImportEntity, input: PlanInput): Promise<PlannedRow[]> {
+  switch (entity) {
+    case "customers":
+      return planCustomers(database, input)
+    case "employees":
+      return planEmployees(database, input)
+    case "jobs":
+      return planJobs(database, input)
+    case "supplies":
+      return planSupplies(database, input)
+  }
+}
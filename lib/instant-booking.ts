@@ -0,0 +1,531 @@
+import { randomBytes } from "crypto"
+import { and, eq, gt, gte, lt, ne, notInArray } from "drizzle-orm"
+import { addDays, format, isValid, parseISO, set, startOfDay } from "date-fns"
+import { db, schema, type DbExecutor, type DbTransaction } from "@/lib/db"
+import type { Job } from "@/lib/db/schema"
+import { normalizeBookingSettings, type CompanyBookingSettings } from "@/lib/booking-settings"
+import { formatAddressForGeocoding, geocodeAddress, type Coordinates } from "@/lib/geocoding"
+import { detectConflicts, loadScheduleContext, type ScheduleContext } from "@/lib/scheduling-conflicts"
+
+/**
+ * Instant online booking.
+ *
+ * Bookable slots come from the same schedule the conflict checks use: a slot is offered when at
+ * least one active cleaner could take it without a double booking, leave, time outside their
+ * availability or too little travel time, with the company's travel buffer kept around jobs whose
+ * location isn't known. The company's booking rules (lead time, booking window, jobs per day,
+ * blackout dates, bookable hours) apply on top.
+ *
+ * Picking a slot places a short hold on it for one cleaner, so it can't be offered to anyone else
+ * while the customer finishes. Confirming checks the slot again and turns the booking request
+ * into a scheduled job; if the time has gone the request is simply left for staff to schedule.
+ */
+
+// Statuses of jobs that don't count towards the jobs-per-day limit
+const NON_BOOKING_JOB_STATUSES = ["cancelled", "rejected"]
+
+// Most days returned by one availability lookup
+export const MAX_AVAILABILITY_DAYS = 14
+
+const SERVICE_LABELS: Record<string, string> = {
+  regular: "Regular Cleaning",
+  deep_clean: "Deep Cleaning",
+  move_in: "Move-In Cleaning",
+  move_out: "Move-Out Cleaning",
+  one_time: "One-Time Cleaning",
+  spring_clean: "Spring Cleaning",
+}
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "BookingError"
+  }
+}
+
+export interface BookingDetails {
+  serviceType: string
+  bedrooms?: number | null
+  bathrooms?: number | null
+  postcode?: string | null
+}
+
+export interface BookableSlot {
+  start: Date
+  end: Date
+}
+
+export interface BookingDay {
+  date: string // yyyy-MM-dd
+  slots: BookableSlot[]
+  // Why there are no slots, when there aren't any
+  unavailableReason: string | null
+}
+
+export interface BookingAvailability {
+  enabled: boolean
+  durationMinutes: number
+  holdMinutes: number
+  days: BookingDay[]
+}
+
+interface SlotCandidate extends BookableSlot {
+  employeeIds: number[]
+}
+
+interface BookingContext {
+  settings: CompanyBookingSettings
+  employeeIds: number[]
+  schedule: ScheduleContext
+  jobsPerDay: Map<string, number>
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function atTime(day: Date, time: string) {
+  const minutes = toMinutes(time)
+  return set(day, { hours: Math.floor(minutes / 60), minutes: minutes % 60, seconds: 0, milliseconds: 0 })
+}
+
+function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd
+}
+
+/**
+ * Length of a booking: the service's base duration plus time for each extra bedroom and bathroom
+ */
+export function estimateBookingDuration(settings: CompanyBookingSettings, details: BookingDetails) {
+  const base = settings.serviceDurations[details.serviceType] ?? settings.serviceDurations.regular ?? 120
+  const extraRooms = Math.max(0, (details.bedrooms ?? 1) - 1) + Math.max(0, (details.bathrooms ?? 1) - 1)
+  return base + extraRooms * settings.extraRoomMinutes
+}
+
+export async function getBookingSettings(executor: DbExecutor, companyId: number) {
+  const [company] = await executor
+    .select({ bookingSettings: schema.companies.bookingSettings })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+  if (!company) {
+    throw new BookingError("Company not found", 404)
+  }
+  return normalizeBookingSettings(company.bookingSettings)
+}
+
+// Only the postcode is looked up: it is enough for travel estimates and geocoder lookups are cached
+async function resolveCoordinates(postcode: string | null | undefined): Promise<Coordinates | null> {
+  if (!postcode?.trim()) return null
+  try {
+    return await geocodeAddress(formatAddressForGeocoding([postcode, "UK"]))
+  } catch (error) {
+    console.error("Failed to geocode booking postcode:", error)
+    return null
+  }
+}
+
+async function lockCompany(tx: DbTransaction, companyId: number) {
+  // Serialises holds and confirmations for a company so two customers can't take the same cleaner
+  await tx
+    .select({ id: schema.companies.id })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+    .for("update")
+}
+
+async function loadBookingContext(
+  executor: DbExecutor,
+  companyId: number,
+  settings: CompanyBookingSettings,
+  from: Date,
+  to: Date,
+  ignoreHoldId?: number,
+): Promise<BookingContext> {
+  const employees = await executor
+    .select({ id: schema.employees.id })
+    .from(schema.employees)
+    .where(and(eq(schema.employees.companyId, companyId), eq(schema.employees.status, "active")))
+  const employeeIds = employees.map((employee) => employee.id)
+
+  const schedule: ScheduleContext =
+    employeeIds.length > 0
+      ? await loadScheduleContext(executor, companyId, employeeIds, from, to)
+      : { employees: new Map(), jobs: [], shifts: [], leave: [] }
+
+  const holds = await executor
+    .select()
+    .from(schema.bookingHolds)
+    .where(
+      and(
+        eq(schema.bookingHolds.companyId, companyId),
+        eq(schema.bookingHolds.status, "held"),
+        gt(schema.bookingHolds.expiresAt, new Date()),
+        gte(schema.bookingHolds.startsAt, addDays(from, -1)),
+        lt(schema.bookingHolds.startsAt, to),
+        ignoreHoldId ? ne(schema.bookingHolds.id, ignoreHoldId) : undefined,
+      ),
+    )
+  // Held slots block their cleaner like a job would; negative ids keep them apart from real jobs
+  for (const hold of holds) {
+    schedule.jobs.push({
+      id: -hold.id,
+      title: "Held booking",
+      start: hold.startsAt,
+      end: hold.endsAt,
+      employeeIds: [hold.employeeId],
+      coordinates: null,
+    })
+  }
+
+  const jobsPerDay = new Map<string, number>()
+  if (settings.maxJobsPerDay > 0) {
+    const jobs = await executor
+      .select({ scheduledFor: schema.jobs.scheduledFor })
+      .from(schema.jobs)
+      .where(
+        and(
+          eq(schema.jobs.companyId, companyId),
+          notInArray(schema.jobs.status, NON_BOOKING_JOB_STATUSES),
+          gte(schema.jobs.scheduledFor, from),
+          lt(schema.jobs.scheduledFor, to),
+        ),
+      )
+    for (const start of [...jobs.map((job) => job.scheduledFor), ...holds.map((hold) => hold.startsAt)]) {
+      if (!start) continue
+      const date = format(start, "yyyy-MM-dd")
+      jobsPerDay.set(date, (jobsPerDay.get(date) ?? 0) + 1)
+    }
+  }
+
+  return { settings, employeeIds, schedule, jobsPerDay }
+}
+
+function isEmployeeFree(
+  context: BookingContext,
+  employeeId: number,
+  start: Date,
+  end: Date,
+  coordinates: Coordinates | null,
+) {
+  const conflicts = detectConflicts(context.schedule, { kind: "job", employeeIds: [employeeId], start, end, coordinates })
+  if (conflicts.length > 0) return false
+
+  // Travel between known locations is already checked; elsewhere keep the flat buffer
+  const buffer = context.settings.travelBufferMinutes * 60000
+  if (buffer === 0) return true
+  const paddedStart = new Date(start.getTime() - buffer)
+  const paddedEnd = new Date(end.getTime() + buffer)
+  return !context.schedule.jobs.some(
+    (job) =>
+      job.employeeIds.includes(employeeId) &&
+      !(job.coordinates && coordinates) &&
+      overlaps(paddedStart, paddedEnd, job.start, job.end),
+  )
+}
+
+function openSlotsForDay(
+  context: BookingContext,
+  day: Date,
+  durationMinutes: number,
+  coordinates: Coordinates | null,
+): { slots: SlotCandidate[]; unavailableReason: string | null } {
+  const { settings } = context
+  const date = format(day, "yyyy-MM-dd")
+
+  if (settings.blackoutDates.includes(date)) {
+    return { slots: [], unavailableReason: "Not taking bookings on this day" }
+  }
+  if (settings.maxJobsPerDay > 0 && (context.jobsPerDay.get(date) ?? 0) >= settings.maxJobsPerDay) {
+    return { slots: [], unavailableReason: "Fully booked" }
+  }
+  if (context.employeeIds.length === 0) {
+    return { slots: [], unavailableReason: "No times available" }
+  }
+
+  const earliest = new Date(Date.now() + settings.leadTimeHours * 3600000)
+  const dayEnd = atTime(day, settings.dayEndTime)
+  const slots: SlotCandidate[] = []
+  for (
+    let start = atTime(day, settings.dayStartTime);
+    start.getTime() + durationMinutes * 60000 <= dayEnd.getTime();
+    start = new Date(start.getTime() + settings.slotIntervalMinutes * 60000)
+  ) {
+    if (start < earliest) continue
+    const end = new Date(start.getTime() + durationMinutes * 60000)
+    const employeeIds = context.employeeIds.filter((employeeId) =>
+      isEmployeeFree(context, employeeId, start, end, coordinates),
+    )
+    if (employeeIds.length > 0) slots.push({ start, end, employeeIds })
+  }
+
+  return { slots, unavailableReason: slots.length === 0 ? "No times available" : null }
+}
+
+function bookableRange(settings: CompanyBookingSettings) {
+  const today = startOfDay(new Date())
+  return { first: today, last: addDays(today, settings.bookingWindowDays) }
+}
+
+/**
+ * Bookable slots for a service, day by day, starting from `from` (yyyy-MM-dd)
+ */
+export async function getBookingAvailability(
+  companyId: number,
+  details: BookingDetails,
+  options: { from?: string | null; days?: number } = {},
+): Promise<BookingAvailability> {
+  const database = requireDb()
+  const settings = await getBookingSettings(database, companyId)
+  const durationMinutes = estimateBookingDuration(settings, details)
+  if (!settings.instantBookingEnabled) {
+    return { enabled: false, durationMinutes, holdMinutes: settings.holdMinutes, days: [] }
+  }
+
+  const { first, last } = bookableRange(settings)
+  const requested = options.from ? parseISO(options.from) : first
+  if (!isValid(requested)) {
+    throw new BookingError("from must be a date (yyyy-MM-dd)")
+  }
+  const from = startOfDay(requested) < first ? first : startOfDay(requested)
+  const dayCount = Math.min(Math.max(options.days ?? 7, 1), MAX_AVAILABILITY_DAYS)
+  const to = addDays(from, dayCount) > addDays(last, 1) ? addDays(last, 1) : addDays(from, dayCount)
+  if (from >= to) {
+    return { enabled: true, durationMinutes, holdMinutes: settings.holdMinutes, days: [] }
+  }
+
+  const coordinates = await resolveCoordinates(details.postcode)
+  const context = await loadBookingContext(database, companyId, settings, from, to)
+
+  const days: BookingDay[] = []
+  for (let day = from; day < to; day = addDays(day, 1)) {
+    const { slots, unavailableReason } = openSlotsForDay(context, day, durationMinutes, coordinates)
+    days.push({
+      date: format(day, "yyyy-MM-dd"),
+      slots: slots.map(({ start, end }) => ({ start, end })),
+      unavailableReason,
+    })
+  }
+
+  return { enabled: true, durationMinutes, holdMinutes: settings.holdMinutes, days }
+}
+
+// Free cleaners for an exact start time, least busy that day first
+function cleanersForSlot(context: BookingContext, slots: SlotCandidate[], start: Date) {
+  const slot = slots.find((candidate) => candidate.start.getTime() === start.getTime())
+  if (!slot) return []
+
+  const dayStart = startOfDay(start)
+  const dayEnd = addDays(dayStart, 1)
+  const bookedMinutes = (employeeId: number) =>
+    context.schedule.jobs
+      .filter((job) => job.employeeIds.includes(employeeId) && job.start >= dayStart && job.start < dayEnd)
+      .reduce((total, job) => total + (job.end.getTime() - job.start.getTime()) / 60000, 0)
+
+  return [...slot.employeeIds].sort((a, b) => bookedMinutes(a) - bookedMinutes(b))
+}
+
+/**
+ * Hold a slot for one cleaner while the customer finishes booking
+ */
+export async function holdBookingSlot(companyId: number, details: BookingDetails & { start: string }) {
+  const database = requireDb()
+  const start = new Date(details.start)
+  if (Number.isNaN(start.getTime())) {
+    throw new BookingError("A valid start time is required")
+  }
+
+  const coordinates = await resolveCoordinates(details.postcode)
+
+  return database.transaction(async (tx) => {
+    await lockCompany(tx, companyId)
+    const settings = await getBookingSettings(tx, companyId)
+    if (!settings.instantBookingEnabled) {
+      throw new BookingError("Online booking isn't available for this company", 403)
+    }
+    const { last } = bookableRange(settings)
+    if (start >= addDays(last, 1)) {
+      throw new BookingError("That date is too far ahead to book online")
+    }
+
+    const durationMinutes = estimateBookingDuration(settings, details)
+    const day = startOfDay(start)
+    const context = await loadBookingContext(tx, companyId, settings, day, addDays(day, 1))
+    const { slots } = openSlotsForDay(context, day, durationMinutes, coordinates)
+    const [employeeId] = cleanersForSlot(context, slots, start)
+    if (!employeeId) {
+      throw new BookingError("Sorry, that time has just been taken. Please pick another.", 409)
+    }
+
+    const expiresAt = new Date(Date.now() + settings.holdMinutes * 60000)
+    const [hold] = await tx
+      .insert(schema.bookingHolds)
+      .values({
+        companyId,
+        employeeId,
+        token: randomBytes(24).toString("hex"),
+        startsAt: start,
+        endsAt: new Date(start.getTime() + durationMinutes * 60000),
+        expiresAt,
+        serviceType: details.serviceType,
+      })
+      .returning()
+
+    return { token: hold.token, start: hold.startsAt, end: hold.endsAt, expiresAt: hold.expiresAt }
+  })
+}
+
+/**
+ * Give a held slot back, e.g. when the customer goes back and picks another time
+ */
+export async function releaseBookingHold(token: string) {
+  const database = requireDb()
+  await database
+    .update(schema.bookingHolds)
+    .set({ status: "released", updatedAt: new Date() })
+    .where(and(eq(schema.bookingHolds.token, token), eq(schema.bookingHolds.status, "held")))
+}
+
+/**
+ * Turn a booking request into a scheduled job in the held slot. The hold has to still be live and
+ * its cleaner (or another one) free of conflicts at that time; the lead time and opening hours were
+ * checked when it was taken. Throws a BookingError when the time can no longer be booked; the
+ * request is then left pending.
+ */
+export async function confirmHeldBooking(
+  companyId: number,
+  input: { token: string; bookingRequestId: number },
+): Promise<{ job: Job; employeeId: number }> {
+  const database = requireDb()
+
+  const [held] = await database
+    .select()
+    .from(schema.bookingHolds)
+    .where(and(eq(schema.bookingHolds.token, input.token), eq(schema.bookingHolds.companyId, companyId)))
+  if (!held || held.status !== "held") {
+    throw new BookingError("This booking hold is no longer valid", 409)
+  }
+  const [request] = await database
+    .select()
+    .from(schema.bookingRequests)
+    .where(and(eq(schema.bookingRequests.id, input.bookingRequestId), eq(schema.bookingRequests.companyId, companyId)))
+  if (!request?.customerId) {
+    throw new BookingError("Booking request not found", 404)
+  }
+  const [customer] = await database
+    .select({ id: schema.customers.id })
+    .from(schema.customers)
+    .where(and(eq(schema.customers.id, request.customerId), eq(schema.customers.companyId, companyId)))
+  if (!customer) {
+    throw new BookingError("Customer not found", 404)
+  }
+  const coordinates = await resolveCoordinates(request.postcode)
+
+  return database.transaction(async (tx) => {
+    await lockCompany(tx, companyId)
+    const [hold] = await tx
+      .select()
+      .from(schema.bookingHolds)
+      .where(eq(schema.bookingHolds.id, held.id))
+      .for("update")
+    if (hold.status !== "held") {
+      throw new BookingError("This booking hold is no longer valid", 409)
+    }
+    if (hold.expiresAt <= new Date()) {
+      throw new BookingError("Your hold on this time has run out", 409)
+    }
+
+    const settings = await getBookingSettings(tx, companyId)
+    const durationMinutes = Math.round((hold.endsAt.getTime() - hold.startsAt.getTime()) / 60000)
+    const day = startOfDay(hold.startsAt)
+    const context = await loadBookingContext(tx, companyId, settings, day, addDays(day, 1), hold.id)
+    // Keep the cleaner the slot was held for unless something has been booked over them since
+    const isFree = (id: number) => isEmployeeFree(context, id, hold.startsAt, hold.endsAt, coordinates)
+    const employeeId = isFree(hold.employeeId) ? hold.employeeId : context.employeeIds.find(isFree)
+    if (!employeeId) {
+      throw new BookingError("The time you picked is no longer available", 409)
+    }
+
+    const [job] = await tx
+      .insert(schema.jobs)
+      .values({
+        companyId,
+        customerId: request.customerId!,
+        title: SERVICE_LABELS[request.serviceType] ?? "Cleaning Service",
+        description: request.specialRequirements || null,
+        assignedTo: employeeId,
+        location: request.address,
+        addressLine2: request.addressLine2,
+        city: request.city,
+        postcode: request.postcode,
+        latitude: coordinates ? coordinates.lat.toFixed(7) : null,
+        longitude: coordinates ? coordinates.lng.toFixed(7) : null,
+        accessInstructions: request.accessInstructions,
+        scheduledFor: hold.startsAt,
+        scheduledEnd: hold.endsAt,
+        durationMinutes,
+        recurrence: request.frequency && request.frequency !== "one_time" ? request.frequency : null,
+        status: "scheduled",
+        estimatedPrice: request.estimatedPrice,
+        currency: request.currency || "GBP",
+        serviceAreaId: request.serviceAreaId,
+        areaSurcharge: request.areaSurcharge,
+        priceBreakdown: request.priceBreakdown,
+        internalNotes: `Booked online (booking request #${request.id})`,
+      })
+      .returning()
+
+    await tx.insert(schema.jobAssignments).values({
+      companyId,
+      jobId: job.id,
+      employeeId,
+      status: "assigned",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+
+    await tx.insert(schema.jobEvents).values([
+      {
+        jobId: job.id,
+        type: "job_created",
+        message: `Job booked online from booking request #${request.id}`,
+        createdAt: new Date(),
+      },
+      {
+        jobId: job.id,
+        type: "job_assigned",
+        message: "Job assigned automatically from online booking",
+        createdAt: new Date(),
+      },
+    ])
+
+    await tx
+      .update(schema.bookingRequests)
+      .set({ status: "converted", convertedToJobId: job.id, convertedAt: new Date(), updatedAt: new Date() })
+      .where(eq(schema.bookingRequests.id, request.id))
+
+    await tx
+      .update(schema.bookingHolds)
+      .set({
+        status: "confirmed",
+        employeeId,
+        bookingRequestId: request.id,
+        jobId: job.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.bookingHolds.id, hold.id))
+
+    return { job, employeeId }
+  })
+}
+
@@ -0,0 +1,467 @@
+import { db, schema, type DbExecutor } from "@/lib/db"
+import { and, eq, inArray, ne, sql } from "drizzle-orm"
+import type Stripe from "stripe"
+import { stripe } from "@/lib/stripe"
+import { generateSecureToken } from "@/lib/utils"
+import { sendPaymentReceiptEmail } from "@/lib/email"
+import type { Invoice } from "@/lib/db/schema"
+
+// Invoices in these states can't be paid online
+const UNPAYABLE_STATUSES = ["draft", "paid", "cancelled", "credited", "void"]
+
+// Smallest card payment accepted, in the invoice currency
+export const MIN_CARD_PAYMENT = 1
+
+export class InvoicePaymentError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "InvoicePaymentError"
+  }
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function getBaseUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+}
+
+// All supported invoice currencies (GBP, EUR, USD) use two decimal places
+export function toMinorUnits(amount: number) {
+  return Math.round(amount * 100)
+}
+
+function fromMinorUnits(amount: number) {
+  return (amount / 100).toFixed(2)
+}
+
+function getPaymentIntentId(value: string | Stripe.PaymentIntent | null) {
+  if (!value) return null
+  return typeof value === "string" ? value : value.id
+}
+
+export function isInvoicePayable(invoice: Pick<Invoice, "status" | "amountDue">) {
+  return !UNPAYABLE_STATUSES.includes(invoice.status) && parseFloat(invoice.amountDue) > 0
+}
+
+/**
+ * Public pay link for an invoice, creating its token on first use
+ */
+export async function getInvoicePaymentUrl(invoiceId: number): Promise<string> {
+  const database = requireDb()
+
+  const invoice = await database.query.invoices.findFirst({
+    where: eq(schema.invoices.id, invoiceId),
+    columns: { id: true, paymentToken: true },
+  })
+
+  if (!invoice) {
+    throw new InvoicePaymentError("Invoice not found", 404)
+  }
+
+  let token = invoice.paymentToken
+  if (!token) {
+    token = generateSecureToken(40)
+    const [updated] = await database
+      .update(schema.invoices)
+      .set({ paymentToken: token })
+      .where(and(eq(schema.invoices.id, invoiceId), sql`${schema.invoices.paymentToken} is null`))
+      .returning({ paymentToken: schema.invoices.paymentToken })
+
+    // Another request set the token first
+    if (!updated) {
+      const current = await database.query.invoices.findFirst({
+        where: eq(schema.invoices.id, invoiceId),
+        columns: { paymentToken: true },
+      })
+      token = current?.paymentToken ?? token
+    }
+  }
+
+  return `${getBaseUrl()}/pay/${token}`
+}
+
+export async function getInvoiceByPaymentToken(token: string) {
+  const database = requireDb()
+
+  const [result] = await database
+    .select({
+      invoice: schema.invoices,
+      customer: schema.customers,
+      company: schema.companies,
+    })
+    .from(schema.invoices)
+    .innerJoin(schema.customers, eq(schema.invoices.customerId, schema.customers.id))
+    .innerJoin(schema.companies, eq(schema.invoices.companyId, schema.companies.id))
+    .where(eq(schema.invoices.paymentToken, token))
+    .limit(1)
+
+  return result ?? null
+}
+
+/**
+ * Create a hosted Checkout session for the amount still due on an invoice, or part of it
+ */
+export async function createInvoiceCheckoutSession(
+  invoice: Invoice,
+  options: { amount?: number; customerEmail?: string | null; cancelPath?: string } = {},
+) {
+  if (!isInvoicePayable(invoice)) {
+    throw new InvoicePaymentError("This invoice is not awaiting payment")
+  }
+
+  const amountDue = parseFloat(invoice.amountDue)
+  const amount = options.amount ?? amountDue
+
+  if (!Number.isFinite(amount) || amount < Math.min(MIN_CARD_PAYMENT, amountDue) || amount > amountDue) {
+    throw new InvoicePaymentError(`Amount must be between ${MIN_CARD_PAYMENT.toFixed(2)} and ${amountDue.toFixed(2)}`)
+  }
+
+  const payUrl = await getInvoicePaymentUrl(invoice.id)
+  const metadata = {
+    type: "invoice",
+    invoiceId: invoice.id.toString(),
+    companyId: invoice.companyId.toString(),
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    customer_email: options.customerEmail || undefined,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: invoice.currency.toLowerCase(),
+          unit_amount: toMinorUnits(amount),
+          product_data: {
+            name: `Invoice ${invoice.invoiceNumber}`,
+            description: amount < amountDue ? "Part payment" : undefined,
+          },
+        },
+      },
+    ],
+    success_url: `${payUrl}?status=success`,
+    cancel_url: options.cancelPath ? `${getBaseUrl()}${options.cancelPath}` : `${payUrl}?status=cancelled`,
+    metadata,
+    payment_intent_data: { metadata },
+  })
+
+  if (!session.url) {
+    throw new Error("Stripe did not return a checkout URL")
+  }
+
+  return session
+}
+
+/**
+ * Recalculate an invoice's paid and due amounts from its payments (net of refunds) and credit notes.
+ * Pass the transaction when called from one so the invoice is read with its uncommitted changes.
+ */
+export async function reconcileInvoicePayments(invoiceId: number, executor: DbExecutor = requireDb()) {
+  const invoice = await executor.query.invoices.findFirst({
+    where: eq(schema.invoices.id, invoiceId),
+  })
+  if (!invoice) return null
+
+  const [totals] = await executor
+    .select({
+      paid: sql<string>`coalesce(sum(${schema.payments.amount} - ${schema.payments.refundedAmount}), 0)`,
+    })
+    .from(schema.payments)
+    .where(and(eq(schema.payments.invoiceId, invoiceId), ne(schema.payments.status, "failed")))
+
+  const total = parseFloat(invoice.total)
+  const amountCredited = parseFloat(invoice.amountCredited)
+  const amountPaid = parseFloat(totals?.paid ?? "0")
+  const amountDue = total - amountCredited - amountPaid
+
+  let status = invoice.status
+  if (invoice.status === "void") {
+    // Voiding is final; refunds only settle the customer's balance
+  } else if (amountCredited > 0 && amountCredited >= total) {
+    status = "credited"
+  } else if (amountDue <= 0) {
+    status = "paid"
+  } else if (invoice.status === "paid") {
+    // A refund has reopened the invoice
+    status = invoice.dueAt && invoice.dueAt < new Date() ? "overdue" : "sent"
+  }
+
+  const [updated] = await executor
+    .update(schema.invoices)
+    .set({
+      amountPaid: amountPaid.toFixed(2),
+      amountDue: Math.max(0, amountDue).toFixed(2),
+      status,
+      // Crediting a paid invoice keeps the record of when it was paid
+      paidAt: status === "paid" ? invoice.paidAt ?? new Date() : status === "credited" ? invoice.paidAt : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.invoices.id, invoiceId))
+    .returning()
+
+  if (status === "paid" && invoice.status !== "paid") {
+    await settleSubscriptionCycles(invoiceId, executor)
+  }
+
+  return updated
+}
+
+/**
+ * Mark the subscription cycle billed on a paid invoice as paid, however it was paid, and take its
+ * subscription off hold once nothing is left outstanding
+ */
+async function settleSubscriptionCycles(invoiceId: number, executor: DbExecutor) {
+  const settled = await executor
+    .update(schema.subscriptionCycles)
+    .set({ status: "paid", nextRetryAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(schema.subscriptionCycles.invoiceId, invoiceId),
+        inArray(schema.subscriptionCycles.status, ["pending_payment", "payment_failed", "unpaid"]),
+      ),
+    )
+    .returning({ subscriptionId: schema.subscriptionCycles.subscriptionId })
+
+  for (const { subscriptionId } of settled) {
+    const outstanding = await executor.query.subscriptionCycles.findFirst({
+      where: and(
+        eq(schema.subscriptionCycles.subscriptionId, subscriptionId),
+        eq(schema.subscriptionCycles.status, "unpaid"),
+      ),
+      columns: { id: true },
+    })
+    if (outstanding) continue
+
+    await executor
+      .update(schema.subscriptions)
+      .set({ status: "active", updatedAt: new Date() })
+      .where(and(eq(schema.subscriptions.id, subscriptionId), eq(schema.subscriptions.status, "past_due")))
+  }
+}
+
+interface InvoicePaymentInput {
+  invoiceId: number
+  paymentIntentId: string
+  // In the smallest currency unit, as Stripe reports it
+  amount: number
+  currency: string | null
+  reference: string
+  checkoutSessionId?: string
+  paidAt: Date
+}
+
+/**
+ * Record a card payment against an invoice and send the receipt. Stripe's payment intent ID is
+ * unique on payments, so a payment reported twice is only recorded once. Anything paid beyond
+ * the balance outstanding at that moment is refunded.
+ */
+async function recordInvoicePayment(input: InvoicePaymentInput) {
+  const database = requireDb()
+
+  const amount = fromMinorUnits(input.amount)
+
+  // The invoice stays locked while the payment is counted, so two part payments completing
+  // together can't both be measured against the same outstanding balance
+  const result = await database.transaction(async (tx) => {
+    const [invoice] = await tx
+      .select()
+      .from(schema.invoices)
+      .where(eq(schema.invoices.id, input.invoiceId))
+      .for("update")
+    if (!invoice) return null
+
+    const outstanding = isInvoicePayable(invoice) ? toMinorUnits(parseFloat(invoice.amountDue)) : 0
+
+    const [payment] = await tx
+      .insert(schema.payments)
+      .values({
+        companyId: invoice.companyId,
+        invoiceId: invoice.id,
+        customerId: invoice.customerId,
+        amount,
+        currency: (input.currency || invoice.currency).toUpperCase(),
+        method: "card",
+        status: "completed",
+        transactionId: input.paymentIntentId,
+        reference: input.reference,
+        stripeCheckoutSessionId: input.checkoutSessionId,
+        stripePaymentIntentId: input.paymentIntentId,
+        paidAt: input.paidAt,
+      })
+      .onConflictDoNothing({ target: schema.payments.stripePaymentIntentId })
+      .returning()
+
+    if (!payment) {
+      return { invoice, payment: null, updatedInvoice: invoice, overpaidBy: 0 }
+    }
+
+    const updatedInvoice = await reconcileInvoicePayments(invoice.id, tx)
+    return { invoice, payment, updatedInvoice, overpaidBy: Math.max(0, input.amount - outstanding) }
+  })
+
+  if (!result) {
+    return { recorded: false, reason: "Invoice not found" }
+  }
+
+  const { invoice, payment, updatedInvoice, overpaidBy } = result
+  if (!payment) {
+    return { recorded: false, reason: "Payment already recorded" }
+  }
+
+  if (overpaidBy > 0) {
+    await refundOverpayment(input.paymentIntentId, overpaidBy)
+  }
+
+  const [details] = await database
+    .select({ customer: schema.customers, company: schema.companies })
+    .from(schema.customers)
+    .innerJoin(schema.companies, eq(schema.customers.companyId, schema.companies.id))
+    .where(eq(schema.customers.id, invoice.customerId))
+    .limit(1)
+
+  if (details?.customer.email) {
+    try {
+      await sendPaymentReceiptEmail({
+        customerEmail: details.customer.email,
+        customerName: `${details.customer.firstName} ${details.customer.lastName}`,
+        invoiceNumber: invoice.invoiceNumber,
+        amount,
+        currency: payment.currency,
+        paidAt: payment.paidAt,
+        paymentMethod: "Card",
+        companyName: details.company.name,
+      })
+    } catch (emailError) {
+      console.error("Failed to send payment receipt email:", emailError)
+    }
+  }
+
+  return { recorded: true, payment, invoice: updatedInvoice }
+}
+
+/**
+ * Give back the part of a card payment that was more than the invoice still owed, e.g. when two
+ * part payments were started against the same balance. The charge.refunded webhook then records
+ * the refund against the payment like any other.
+ */
+async function refundOverpayment(paymentIntentId: string, amount: number) {
+  try {
+    await stripe.refunds.create(
+      { payment_intent: paymentIntentId, amount, metadata: { reason: "invoice_overpayment" } },
+      { idempotencyKey: `invoice-overpayment-${paymentIntentId}` },
+    )
+  } catch (refundError) {
+    console.error(`Failed to refund overpayment of ${fromMinorUnits(amount)} on ${paymentIntentId}:`, refundError)
+  }
+}
+
+/**
+ * Record a completed Checkout session as a payment. Safe to call more than once for the same
+ * session (Stripe retries webhooks); the receipt is only sent the first time.
+ */
+export async function recordCheckoutPayment(session: Stripe.Checkout.Session) {
+  if (session.payment_status !== "paid") {
+    return { recorded: false, reason: "Payment not completed" }
+  }
+
+  const invoiceId = parseInt(session.metadata?.invoiceId || "0")
+  const paymentIntentId = getPaymentIntentId(session.payment_intent)
+  if (!invoiceId || !paymentIntentId || session.amount_total === null) {
+    return { recorded: false, reason: "Not an invoice payment" }
+  }
+
+  return recordInvoicePayment({
+    invoiceId,
+    paymentIntentId,
+    amount: session.amount_total,
+    currency: session.currency,
+    reference: `Online payment ${session.id}`,
+    checkoutSessionId: session.id,
+    paidAt: new Date(session.created * 1000),
+  })
+}
+
+/**
+ * Record a succeeded payment intent created directly against an invoice, such as an off-session
+ * subscription charge. Also safe to call more than once.
+ */
+export async function recordPaymentIntentPayment(paymentIntent: Stripe.PaymentIntent) {
+  if (paymentIntent.status !== "succeeded") {
+    return { recorded: false, reason: "Payment not completed" }
+  }
+
+  const invoiceId = parseInt(paymentIntent.metadata?.invoiceId || "0")
+  if (paymentIntent.metadata?.type !== "invoice" || !invoiceId) {
+    return { recorded: false, reason: "Not an invoice payment" }
+  }
+
+  return recordInvoicePayment({
+    invoiceId,
+    paymentIntentId: paymentIntent.id,
+    amount: paymentIntent.amount_received || paymentIntent.amount,
+    currency: paymentIntent.currency,
+    reference: `Card payment ${paymentIntent.id}`,
+    paidAt: new Date(paymentIntent.created * 1000),
+  })
+}
+
+/**
+ * Apply a refund reported by Stripe to the matching payment. `amount_refunded` is cumulative,
+ * so repeated and partial refund events all converge on the same state. Whatever is new since
+ * the last event is kept as its own refund for the accounting export.
+ */
+export async function recordChargeRefund(charge: Stripe.Charge) {
+  const database = requireDb()
+
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent)
+  if (!paymentIntentId) {
+    return { recorded: false, reason: "Charge has no payment intent" }
+  }
+
+  const refundedAmount = fromMinorUnits(charge.amount_refunded)
+  const fullyRefunded = charge.amount_refunded >= charge.amount
+
+  // The payment stays locked so two refund events arriving together can't both record the same increase
+  const result = await database.transaction(async (tx) => {
+    const [payment] = await tx
+      .select()
+      .from(schema.payments)
+      .where(eq(schema.payments.stripePaymentIntentId, paymentIntentId))
+      .for("update")
+    if (!payment) return null
+
+    const newlyRefunded = charge.amount_refunded - toMinorUnits(parseFloat(payment.refundedAmount))
+    if (newlyRefunded > 0) {
+      await tx.insert(schema.paymentRefunds).values({
+        companyId: payment.companyId,
+        paymentId: payment.id,
+        amount: fromMinorUnits(newlyRefunded),
+      })
+    }
+
+    await tx
+      .update(schema.payments)
+      .set({
+        refundedAmount,
+        status: fullyRefunded ? "refunded" : charge.amount_refunded > 0 ? "partially_refunded" : payment.status,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.payments.id, payment.id))
+
+    return { invoice: await reconcileInvoicePayments(payment.invoiceId, tx) }
+  })
+
+  if (!result) {
+    return { recorded: false, reason: "Payment not found" }
+  }
+  return { recorded: true, invoice: result.invoice }
+}
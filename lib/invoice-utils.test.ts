@@ -0,0 +1,142 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import type { DbExecutor } from "@/lib/db"
+import { priceInvoice } from "@/lib/invoice-utils"
+
+type StubCustomer = { customerType: string | null; taxId: string | null }
+
+// Just enough of a database for priceInvoice: the company's VAT settings and one customer
+function stubExecutor(vatSettings: unknown = null, customer: StubCustomer | null = null) {
+  const lookups = { customers: 0 }
+  const executor = {
+    query: {
+      companies: { findFirst: async () => ({ vatSettings }) },
+      customers: {
+        findFirst: async () => {
+          lookups.customers++
+          return customer
+        },
+      },
+    },
+  } as unknown as DbExecutor
+  return { executor, lookups }
+}
+
+describe("priceInvoice", () => {
+  test("charges the company's default rate on lines without one", async () => {
+    const { executor } = stubExecutor()
+    const priced = await priceInvoice(executor, 1, {
+      items: [{ title: "Deep clean", description: "Kitchen", quantity: 2, unitPrice: "50" }],
+    })
+
+    assert.deepEqual(priced.invoice, {
+      subtotal: "100.00",
+      taxRate: "20.00",
+      taxAmount: "20.00",
+      discountAmount: "0.00",
+      total: "120.00",
+      pricesIncludeVat: 0,
+      reverseCharge: 0,
+    })
+    assert.deepEqual(priced.items, [
+      {
+        title: "Deep clean",
+        description: "Kitchen",
+        quantity: "2",
+        unitPrice: "50",
+        amount: "100.00",
+        taxable: 1,
+        vatRate: "standard",
+        taxRate: "20.00",
+        taxAmount: "20.00",
+        sortOrder: 0,
+      },
+    ])
+  })
+
+  test("keeps each line's own rate code", async () => {
+    const { executor } = stubExecutor({ reducedRate: 5 })
+    const priced = await priceInvoice(executor, 1, {
+      items: [
+        { title: "Cleaning", quantity: 1, unitPrice: 100, vatRate: "reduced" },
+        { title: "Supplies", quantity: 1, unitPrice: 20, vatRate: "zero" },
+      ],
+    })
+
+    assert.deepEqual(
+      priced.items.map((item) => [item.vatRate, item.taxRate, item.taxAmount, item.taxable, item.sortOrder]),
+      [
+        ["reduced", "5.00", "5.00", 1, 0],
+        ["zero", "0.00", "0.00", 0, 1],
+      ],
+    )
+    assert.equal(priced.invoice.total, "125.00")
+  })
+
+  test("uses an invoice tax rate from older clients for lines without a code", async () => {
+    const { executor } = stubExecutor()
+    const priced = await priceInvoice(executor, 1, {
+      items: [{ title: "Cleaning", quantity: 1, unitPrice: 100 }],
+      taxRate: 10,
+    })
+
+    assert.equal(priced.items[0].vatRate, null)
+    assert.equal(priced.items[0].taxRate, "10.00")
+    assert.equal(priced.invoice.total, "110.00")
+  })
+
+  test("takes VAT out of VAT-inclusive prices", async () => {
+    const { executor } = stubExecutor({ pricesIncludeVat: true })
+    const priced = await priceInvoice(executor, 1, { items: [{ title: "Cleaning", quantity: 1, unitPrice: 120 }] })
+
+    assert.equal(priced.invoice.pricesIncludeVat, 1)
+    assert.equal(priced.invoice.subtotal, "100.00")
+    assert.equal(priced.invoice.taxAmount, "20.00")
+    assert.equal(priced.invoice.total, "120.00")
+    assert.equal(priced.items[0].amount, "120.00")
+  })
+
+  test("takes the discount off the VAT-inclusive total", async () => {
+    const { executor } = stubExecutor()
+    const priced = await priceInvoice(executor, 1, {
+      items: [{ title: "Cleaning", quantity: 1, unitPrice: 100 }],
+      discountAmount: 10,
+    })
+
+    assert.equal(priced.invoice.discountAmount, "10.00")
+    assert.equal(priced.invoice.total, "110.00")
+  })
+
+  test("applies the reverse charge to commercial customers with a VAT number", async () => {
+    const { executor } = stubExecutor(
+      { reverseChargeForCommercial: true },
+      { customerType: "commercial", taxId: "GB123456789" },
+    )
+    const priced = await priceInvoice(executor, 1, {
+      items: [{ title: "Office clean", quantity: 1, unitPrice: 100 }],
+      customerId: 7,
+    })
+
+    assert.equal(priced.invoice.reverseCharge, 1)
+    assert.equal(priced.invoice.taxAmount, "0.00")
+    assert.equal(priced.invoice.total, "100.00")
+    // The line keeps its rate for the VAT return
+    assert.equal(priced.items[0].taxRate, "20.00")
+  })
+
+  test("does not look the customer up when the reverse charge is given", async () => {
+    const { executor, lookups } = stubExecutor(
+      { reverseChargeForCommercial: true },
+      { customerType: "commercial", taxId: "GB123456789" },
+    )
+    const priced = await priceInvoice(executor, 1, {
+      items: [{ title: "Office clean", quantity: 1, unitPrice: 100 }],
+      customerId: 7,
+      reverseCharge: false,
+    })
+
+    assert.equal(lookups.customers, 0)
+    assert.equal(priced.invoice.reverseCharge, 0)
+    assert.equal(priced.invoice.total, "120.00")
+  })
+})
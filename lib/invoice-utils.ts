@@ -1,6 +1,12 @@
-import { db } from "@/lib/db"
-import { invoices, invoiceItems, jobs } from "@/lib/db/schema"
-import { eq, desc } from "drizzle-orm"
+import { db, type DbExecutor } from "@/lib/db"
+import { customers, invoices, invoiceItems, jobs } from "@/lib/db/schema"
+import { and, eq, gt, lt } from "drizzle-orm"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { getVatSettings } from "@/lib/vat"
+import { jobInvoiceLines } from "@/lib/pricing"
+import { calculateInvoiceTotals, isReverseChargeCustomer, isVatRateCode } from "@/lib/vat-settings"
+
+export { calculateInvoiceTotals } from "@/lib/vat-settings"
 
 export interface GenerateInvoiceFromJobParams {
   companyId: number
@@ -22,7 +28,7 @@ export async function generateInvoiceFromJob(
   const {
     companyId,
     jobId,
-    taxRate = 0,
+    taxRate,
     discountAmount = 0,
     notes,
     terms,
@@ -40,6 +46,7 @@ export async function generateInvoiceFromJob(
   if (!job.customerId) {
     throw new Error("Job must have a customer")
   }
+  const customerId = job.customerId
 
   // Check if invoice already exists for this job
   const existingInvoice = await db
@@ -52,64 +59,52 @@ export async function generateInvoiceFromJob(
     throw new Error("Invoice already exists for this job")
   }
 
-  // Generate invoice number
-  const lastInvoice = await db
-    .select({ invoiceNumber: invoices.invoiceNumber })
-    .from(invoices)
-    .where(eq(invoices.companyId, companyId))
-    .orderBy(desc(invoices.id))
-    .limit(1)
-
-  let invoiceNumber = "INV-0001"
-  if (lastInvoice.length > 0) {
-    const lastNumber = parseInt(lastInvoice[0].invoiceNumber.split("-")[1])
-    invoiceNumber = `INV-${String(lastNumber + 1).padStart(4, "0")}`
-  }
-
-  // Calculate amounts
-  const subtotal = parseFloat(job.actualPrice || job.estimatedPrice || "0")
-  const taxAmount = (subtotal * taxRate) / 100
-  const total = subtotal + taxAmount - discountAmount
-
   // Calculate due date
   const dueAt = new Date()
   dueAt.setDate(dueAt.getDate() + dueInDays)
 
-  // Create invoice
-  const [invoice] = await db
-    .insert(invoices)
-    .values({
-      companyId,
-      invoiceNumber,
-      customerId: job.customerId,
-      jobId: job.id,
-      subtotal: subtotal.toFixed(2),
-      taxRate: taxRate.toFixed(2),
-      taxAmount: taxAmount.toFixed(2),
-      discountAmount: discountAmount.toFixed(2),
-      total: total.toFixed(2),
-      amountDue: total.toFixed(2),
-      status: "draft",
-      issuedAt: new Date(),
-      dueAt,
-      notes: notes || `Invoice for ${job.title}`,
-      terms:
-        terms ||
-        `Payment is due within ${dueInDays} days of the invoice date.`,
-      footer: footer || "Thank you for your business!",
+  // Create invoice and its item, numbering the invoice in the same transaction
+  const invoice = await db.transaction(async (tx) => {
+    const invoiceNumber = await allocateDocumentNumber(tx, companyId, "invoice", {
+      date: job.scheduledFor ? new Date(job.scheduledFor) : new Date(),
+      customerId,
+    })
+
+    // The job is priced at the company's default VAT rate unless a tax rate was given
+    const price = job.actualPrice || job.estimatedPrice || "0"
+    const priced = await priceInvoice(tx, companyId, {
+      items: jobInvoiceLines(job, parseFloat(price)),
+      customerId,
+      taxRate,
+      discountAmount,
     })
-    .returning()
-
-  // Create invoice item from job
-  await db.insert(invoiceItems).values({
-    invoiceId: invoice.id,
-    title: job.title || "Cleaning Service",
-    description: job.description || "",
-    quantity: "1",
-    unitPrice: subtotal.toFixed(2),
-    amount: subtotal.toFixed(2),
-    taxable: true,
-    sortOrder: 0,
+
+    const [created] = await tx
+      .insert(invoices)
+      .values({
+        companyId,
+        invoiceNumber,
+        customerId,
+        jobId: job.id,
+        ...priced.invoice,
+        amountDue: priced.invoice.total,
+        status: "draft",
+        issuedAt: new Date(),
+        dueAt,
+        notes: notes || `Invoice for ${job.title}`,
+        terms:
+          terms ||
+          `Payment is due within ${dueInDays} days of the invoice date.`,
+        footer: footer || "Thank you for your business!",
+      })
+      .returning()
+
+    // Create invoice item from job
+    await tx.insert(invoiceItems).values(
+      priced.items.map((item) => ({ ...item, invoiceId: created.id })),
+    )
+
+    return created
   })
 
   return invoice
@@ -121,50 +116,103 @@ export async function generateInvoiceFromJob(
 export async function updateOverdueInvoices(companyId: number) {
   const now = new Date()
 
-  await db
+  const updated = await db
     .update(invoices)
     .set({
       status: "overdue",
-      updatedAt: new Date(),
+      updatedAt: now,
     })
     .where(
-      eq(invoices.companyId, companyId),
-      eq(invoices.status, "sent"),
-      // dueAt < now and amountDue > 0
+      and(
+        eq(invoices.companyId, companyId),
+        eq(invoices.status, "sent"),
+        lt(invoices.dueAt, now),
+        gt(invoices.amountDue, "0"),
+      ),
     )
+    .returning({ id: invoices.id })
+
+  return updated.length
+}
 
-  return true
+export interface InvoiceItemInput {
+  title: string
+  description?: string | null
+  quantity: string | number
+  unitPrice: string | number
+  // VAT rate code; lines without one use the company default, or the invoice taxRate if given
+  vatRate?: string | null
+  taxable?: boolean | number | null
+}
+
+export interface PriceInvoiceInput {
+  items: InvoiceItemInput[]
+  customerId?: number | null
+  // Single rate for lines without a rate code, as sent by older clients
+  taxRate?: number
+  discountAmount?: number
+  // Default to the company's VAT settings and the customer
+  pricesIncludeVat?: boolean
+  reverseCharge?: boolean
 }
 
 /**
- * Calculate invoice totals from items
+ * Price an invoice's lines with the company's VAT settings. Returns the invoice totals and the
+ * item rows to insert (without invoiceId).
  */
-export function calculateInvoiceTotals(
-  items: Array<{ quantity: string; unitPrice: string; taxable?: boolean }>,
-  taxRate: number = 0,
-  discountAmount: number = 0
-) {
-  const subtotal = items.reduce((sum, item) => {
-    const quantity = parseFloat(item.quantity || "0")
-    const unitPrice = parseFloat(item.unitPrice || "0")
-    return sum + quantity * unitPrice
-  }, 0)
-
-  const taxableAmount = items
-    .filter((item) => item.taxable !== false)
-    .reduce((sum, item) => {
-      const quantity = parseFloat(item.quantity || "0")
-      const unitPrice = parseFloat(item.unitPrice || "0")
-      return sum + quantity * unitPrice
-    }, 0)
-
-  const taxAmount = (taxableAmount * taxRate) / 100
-  const total = subtotal + taxAmount - discountAmount
+export async function priceInvoice(executor: DbExecutor, companyId: number, input: PriceInvoiceInput) {
+  const settings = await getVatSettings(executor, companyId)
+
+  let reverseCharge = input.reverseCharge
+  if (reverseCharge === undefined) {
+    const customer = input.customerId
+      ? await executor.query.customers.findFirst({
+          where: and(eq(customers.id, input.customerId), eq(customers.companyId, companyId)),
+          columns: { customerType: true, taxId: true },
+        })
+      : null
+    reverseCharge = isReverseChargeCustomer(settings, customer)
+  }
+  const pricesIncludeVat = input.pricesIncludeVat ?? settings.pricesIncludeVat
+
+  const lines = input.items.map((item) => ({
+    ...item,
+    vatRate: isVatRateCode(item.vatRate) ? item.vatRate : input.taxRate === undefined ? settings.defaultRate : null,
+  }))
+
+  const discountAmount = input.discountAmount ?? 0
+  const totals = calculateInvoiceTotals(lines, {
+    settings,
+    taxRate: input.taxRate,
+    discountAmount,
+    pricesIncludeVat,
+    reverseCharge,
+  })
 
   return {
-    subtotal: subtotal.toFixed(2),
-    taxAmount: taxAmount.toFixed(2),
-    total: total.toFixed(2),
+    invoice: {
+      subtotal: totals.subtotal,
+      taxRate: totals.taxRate,
+      taxAmount: totals.taxAmount,
+      discountAmount: discountAmount.toFixed(2),
+      total: totals.total,
+      pricesIncludeVat: pricesIncludeVat ? 1 : 0,
+      reverseCharge: reverseCharge ? 1 : 0,
+    },
+    items: lines.map((item, index) => {
+      const line = totals.lines[index]
+      return {
+        title: item.title,
+        description: item.description ?? null,
+        quantity: String(item.quantity),
+        unitPrice: String(item.unitPrice),
+        amount: line.amount.toFixed(2),
+        taxable: line.taxRate > 0 ? 1 : 0,
+        vatRate: line.vatRate,
+        taxRate: line.taxRate.toFixed(2),
+        taxAmount: line.tax.toFixed(2),
+        sortOrder: index,
+      }
+    }),
   }
 }
-
@@ -51,6 +51,7 @@ export async function generateInvoicePdfBuffer(invoiceId: number, companyId: num
       address: invoiceData.company?.address || null,
       city: invoiceData.company?.city || null,
       postcode: invoiceData.company?.postcode || null,
+      vatNumber: invoiceData.company?.taxId || null,
     },
     customer: {
       name: invoiceData.customer
@@ -68,12 +69,17 @@ export async function generateInvoicePdfBuffer(invoiceId: number, companyId: num
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       amount: item.amount,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
     })),
     subtotal: invoiceData.invoice.subtotal,
     taxRate: invoiceData.invoice.taxRate,
     taxAmount: invoiceData.invoice.taxAmount,
     discountAmount: invoiceData.invoice.discountAmount,
     total: invoiceData.invoice.total,
+    pricesIncludeVat: invoiceData.invoice.pricesIncludeVat === 1,
+    reverseCharge: invoiceData.invoice.reverseCharge === 1,
+    amountCredited: invoiceData.invoice.amountCredited,
     notes: invoiceData.invoice.notes,
     terms: invoiceData.invoice.terms,
   })
@@ -0,0 +1,72 @@
+export interface CompanyLeaveSettings {
+  // Month the leave year starts in (1 = January)
+  leaveYearStartMonth: number
+  // Weeks of holiday a full-time employee gets a year; the UK statutory minimum is 5.6
+  weeksPerYear: number
+  fullTimeDaysPerWeek: number
+  fullTimeHoursPerWeek: number
+  // When on, the allowance includes bank holidays and each one falling on a weekday is taken from it
+  bankHolidaysIncluded: boolean
+  // Unused days that can roll over into the next leave year; 0 turns carry-over off
+  maxCarryOverDays: number
+  // Months into the new leave year carried-over days must be used by; 0 means they don't expire
+  carryOverExpiryMonths: number
+  // Holiday earned per hour worked by zero-hours staff, as a percentage (12.07% is 5.6 of 46.4 weeks)
+  accrualRatePercent: number
+}
+
+export const defaultLeaveSettings: CompanyLeaveSettings = {
+  leaveYearStartMonth: 1,
+  weeksPerYear: 5.6,
+  fullTimeDaysPerWeek: 5,
+  fullTimeHoursPerWeek: 37.5,
+  bankHolidaysIncluded: true,
+  maxCarryOverDays: 5,
+  carryOverExpiryMonths: 3,
+  accrualRatePercent: 12.07,
+}
+
+function normalizeNumber(value: unknown, fallback: number, min: number, max: number) {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value))
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.min(max, Math.max(min, Math.round(parsed * 100) / 100))
+}
+
+export function normalizeLeaveSettings(raw: unknown): CompanyLeaveSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { ...defaultLeaveSettings }
+  }
+
+  return {
+    leaveYearStartMonth: Math.round(
+      normalizeNumber(parsed.leaveYearStartMonth, defaultLeaveSettings.leaveYearStartMonth, 1, 12),
+    ),
+    weeksPerYear: normalizeNumber(parsed.weeksPerYear, defaultLeaveSettings.weeksPerYear, 0, 52),
+    fullTimeDaysPerWeek: normalizeNumber(parsed.fullTimeDaysPerWeek, defaultLeaveSettings.fullTimeDaysPerWeek, 1, 7),
+    fullTimeHoursPerWeek: normalizeNumber(
+      parsed.fullTimeHoursPerWeek,
+      defaultLeaveSettings.fullTimeHoursPerWeek,
+      1,
+      168,
+    ),
+    bankHolidaysIncluded:
+      typeof parsed.bankHolidaysIncluded === "boolean"
+        ? parsed.bankHolidaysIncluded
+        : defaultLeaveSettings.bankHolidaysIncluded,
+    maxCarryOverDays: normalizeNumber(parsed.maxCarryOverDays, defaultLeaveSettings.maxCarryOverDays, 0, 365),
+    carryOverExpiryMonths: Math.round(
+      normalizeNumber(parsed.carryOverExpiryMonths, defaultLeaveSettings.carryOverExpiryMonths, 0, 12),
+    ),
+    accrualRatePercent: normalizeNumber(parsed.accrualRatePercent, defaultLeaveSettings.accrualRatePercent, 0, 100),
+  }
+}
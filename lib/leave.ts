@@ -0,0 +1,645 @@
+import { and, asc, desc, eq, gte, inArray, lte, ne, notInArray, or } from "drizzle-orm"
+import { addMonths, addYears, differenceInCalendarDays, eachDayOfInterval, endOfDay, format, parseISO, startOfDay } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Employee } from "@/lib/db/schema"
+import { normalizeLeaveSettings, type CompanyLeaveSettings } from "@/lib/leave-settings"
+
+/**
+ * Holiday entitlement and balances.
+ *
+ * Salaried and contracted staff get a yearly allowance (weeks per year x days per week), pro-rated
+ * for part-time hours and for starting or leaving part way through the leave year. Zero-hours staff
+ * accrue holiday as a percentage of the hours in their work sessions. Only holiday requests
+ * ("vacation") come out of the balance; sick, personal and unpaid leave don't.
+ */
+
+export const DEDUCTIBLE_LEAVE_TYPES = ["vacation"]
+
+// Jobs in these states don't need covering while someone is away
+const INACTIVE_JOB_STATUSES = ["cancelled", "rejected", "completed"]
+
+const UK_BANK_HOLIDAYS_URL = "https://www.gov.uk/bank-holidays.json"
+
+export type LeaveMethod = "allowance" | "accrual"
+
+export interface LeaveYear {
+  start: string // yyyy-MM-dd
+  end: string // yyyy-MM-dd, inclusive
+}
+
+export interface LeaveBalance {
+  employeeId: number
+  leaveYear: LeaveYear
+  method: LeaveMethod
+  // Allowance for the year, or holiday accrued so far for zero-hours staff
+  entitlement: number
+  carriedOver: number
+  carryOverExpiresOn: string | null
+  carryOverLapsed: number
+  adjustments: number
+  bankHolidays: number
+  // Approved holiday that has started, and approved holiday still to come
+  taken: number
+  booked: number
+  pending: number
+  remaining: number
+  // Remaining once pending requests are approved
+  available: number
+}
+
+export interface LeaveApprovalWarning {
+  type: "negative_balance" | "job_overlap"
+  message: string
+  jobId?: number
+}
+
+export class LeaveError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "LeaveError"
+  }
+}
+
+export class LeaveApprovalWarningError extends Error {
+  constructor(
+    public warnings: LeaveApprovalWarning[],
+    message = "Approving this request needs confirming",
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "LeaveApprovalWarningError"
+  }
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function toNumber(value: string | null | undefined) {
+  const parsed = value === null || value === undefined ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function roundDays(value: number) {
+  return Math.round(value * 10) / 10
+}
+
+// Allowances are rounded up to the nearest half day, as is usual for pro-rated holiday
+function roundUpToHalfDay(value: number) {
+  return Math.ceil(value * 2 - 1e-9) / 2
+}
+
+export function isZeroHours(employee: Pick<Employee, "employmentType">) {
+  return employee.employmentType === "zero-hours"
+}
+
+export async function getLeaveSettings(executor: DbExecutor, companyId: number) {
+  const [company] = await executor
+    .select({ leaveSettings: schema.companies.leaveSettings })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+  return normalizeLeaveSettings(company?.leaveSettings)
+}
+
+/**
+ * The leave year containing a date
+ */
+export function getLeaveYear(date: Date, settings: CompanyLeaveSettings): LeaveYear {
+  const month = settings.leaveYearStartMonth - 1
+  const year = date.getMonth() >= month ? date.getFullYear() : date.getFullYear() - 1
+  const start = new Date(year, month, 1)
+  const end = addYears(start, 1)
+  end.setDate(end.getDate() - 1)
+  return { start: format(start, "yyyy-MM-dd"), end: format(end, "yyyy-MM-dd") }
+}
+
+function previousLeaveYear(leaveYear: LeaveYear, settings: CompanyLeaveSettings) {
+  const start = parseISO(leaveYear.start)
+  start.setDate(start.getDate() - 1)
+  return getLeaveYear(start, settings)
+}
+
+export async function loadBankHolidayDates(executor: DbExecutor, companyId: number, from: string, to: string) {
+  const rows = await executor
+    .select({ date: schema.bankHolidays.date })
+    .from(schema.bankHolidays)
+    .where(
+      and(
+        eq(schema.bankHolidays.companyId, companyId),
+        gte(schema.bankHolidays.date, from),
+        lte(schema.bankHolidays.date, to),
+      ),
+    )
+  return new Set(rows.map((row) => row.date))
+}
+
+/**
+ * Working days between two dates (inclusive): weekdays that aren't bank holidays
+ */
+export function countLeaveDays(start: Date, end: Date, bankHolidayDates: Set<string>) {
+  if (end < start) return 0
+  return eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) }).filter((day) => {
+    const dayOfWeek = day.getDay()
+    return dayOfWeek !== 0 && dayOfWeek !== 6 && !bankHolidayDates.has(format(day, "yyyy-MM-dd"))
+  }).length
+}
+
+/**
+ * Days of the leave year the employee is employed for, up to `until` when given
+ */
+function employedDays(employee: Employee, leaveYear: LeaveYear, until?: Date) {
+  const yearStart = parseISO(leaveYear.start)
+  let yearEnd = parseISO(leaveYear.end)
+  if (until && until < yearEnd) yearEnd = startOfDay(until)
+  const from = employee.startDate && employee.startDate > yearStart ? startOfDay(employee.startDate) : yearStart
+  const to = employee.endDate && employee.endDate < yearEnd ? startOfDay(employee.endDate) : yearEnd
+  return {
+    from,
+    to,
+    days: Math.max(0, differenceInCalendarDays(to, from) + 1),
+    yearDays: differenceInCalendarDays(parseISO(leaveYear.end), yearStart) + 1,
+  }
+}
+
+// Share of a full-time week the employee works, for pro-rating part-time staff
+function partTimeFraction(employee: Employee, settings: CompanyLeaveSettings) {
+  const hours = toNumber(employee.contractedHoursPerWeek)
+  if (hours === null || hours <= 0) return 1
+  return Math.min(1, hours / settings.fullTimeHoursPerWeek)
+}
+
+interface YearUsage {
+  entitlement: number
+  method: LeaveMethod
+  bankHolidays: number
+  adjustments: number
+  requests: Array<{ startDate: Date; days: number; status: string }>
+}
+
+async function loadYearUsage(
+  executor: DbExecutor,
+  companyId: number,
+  employee: Employee,
+  leaveYear: LeaveYear,
+  settings: CompanyLeaveSettings,
+): Promise<YearUsage> {
+  const yearStart = parseISO(leaveYear.start)
+  const yearEnd = endOfDay(parseISO(leaveYear.end))
+  const employed = employedDays(employee, leaveYear)
+  const zeroHours = isZeroHours(employee)
+
+  let entitlement: number
+  if (zeroHours) {
+    // Accrued from hours actually worked so far this leave year
+    const sessions = await executor
+      .select({
+        startedAt: schema.workSessions.startedAt,
+        endedAt: schema.workSessions.endedAt,
+        durationMinutes: schema.workSessions.durationMinutes,
+      })
+      .from(schema.workSessions)
+      .where(
+        and(
+          eq(schema.workSessions.employeeId, employee.id),
+          gte(schema.workSessions.startedAt, yearStart),
+          lte(schema.workSessions.startedAt, yearEnd),
+        ),
+      )
+    // Clocked sessions store their worked minutes net of breaks
+    const minutes = sessions.reduce((total, session) => {
+      if (session.durationMinutes !== null) return total + session.durationMinutes
+      if (session.endedAt) return total + (session.endedAt.getTime() - session.startedAt.getTime()) / 60000
+      return total
+    }, 0)
+    const hoursPerDay = settings.fullTimeHoursPerWeek / settings.fullTimeDaysPerWeek
+    entitlement = roundDays(((minutes / 60) * (settings.accrualRatePercent / 100)) / hoursPerDay)
+  } else {
+    const override = toNumber(employee.annualLeaveDays)
+    const fullYear =
+      override ?? settings.weeksPerYear * settings.fullTimeDaysPerWeek * partTimeFraction(employee, settings)
+    entitlement = roundUpToHalfDay((fullYear * employed.days) / employed.yearDays)
+  }
+
+  let bankHolidays = 0
+  if (settings.bankHolidaysIncluded && !zeroHours && employed.days > 0) {
+    const dates = await loadBankHolidayDates(
+      executor,
+      companyId,
+      format(employed.from, "yyyy-MM-dd"),
+      format(employed.to, "yyyy-MM-dd"),
+    )
+    const weekdays = [...dates].filter((date) => {
+      const dayOfWeek = parseISO(date).getDay()
+      return dayOfWeek !== 0 && dayOfWeek !== 6
+    }).length
+    bankHolidays = roundUpToHalfDay(weekdays * partTimeFraction(employee, settings))
+  }
+
+  const adjustmentRows = await executor
+    .select({ days: schema.leaveAdjustments.days })
+    .from(schema.leaveAdjustments)
+    .where(
+      and(
+        eq(schema.leaveAdjustments.employeeId, employee.id),
+        eq(schema.leaveAdjustments.leaveYearStart, leaveYear.start),
+      ),
+    )
+  const adjustments = adjustmentRows.reduce((total, row) => total + parseFloat(row.days), 0)
+
+  const requestRows = await executor
+    .select({
+      startDate: schema.timeOffRequests.startDate,
+      totalDays: schema.timeOffRequests.totalDays,
+      deductedDays: schema.timeOffRequests.deductedDays,
+      status: schema.timeOffRequests.status,
+    })
+    .from(schema.timeOffRequests)
+    .where(
+      and(
+        eq(schema.timeOffRequests.employeeId, employee.id),
+        inArray(schema.timeOffRequests.type, DEDUCTIBLE_LEAVE_TYPES),
+        inArray(schema.timeOffRequests.status, ["approved", "pending"]),
+        gte(schema.timeOffRequests.startDate, yearStart),
+        lte(schema.timeOffRequests.startDate, yearEnd),
+      ),
+    )
+
+  return {
+    entitlement,
+    method: zeroHours ? "accrual" : "allowance",
+    bankHolidays,
+    adjustments: roundDays(adjustments),
+    requests: requestRows.map((row) => ({
+      startDate: row.startDate,
+      days: toNumber(row.status === "approved" ? (row.deductedDays ?? row.totalDays) : row.totalDays) ?? 0,
+      status: row.status,
+    })),
+  }
+}
+
+function approvedDays(usage: YearUsage, before?: Date) {
+  return usage.requests
+    .filter((request) => request.status === "approved" && (!before || request.startDate < before))
+    .reduce((total, request) => total + request.days, 0)
+}
+
+/**
+ * An employee's holiday balance for the leave year containing `date`
+ */
+export async function calculateLeaveBalance(
+  executor: DbExecutor,
+  companyId: number,
+  employee: Employee,
+  settings: CompanyLeaveSettings,
+  date: Date = new Date(),
+): Promise<LeaveBalance> {
+  const leaveYear = getLeaveYear(date, settings)
+  const usage = await loadYearUsage(executor, companyId, employee, leaveYear, settings)
+  const today = startOfDay(new Date())
+
+  // Unused days from last year, up to the cap. Carried-over days don't carry over a second time.
+  let carriedOver = 0
+  let carryOverExpiresOn: string | null = null
+  let carryOverLapsed = 0
+  if (settings.maxCarryOverDays > 0 && (!employee.startDate || employee.startDate < parseISO(leaveYear.start))) {
+    const previous = await loadYearUsage(
+      executor,
+      companyId,
+      employee,
+      previousLeaveYear(leaveYear, settings),
+      settings,
+    )
+    const unused = previous.entitlement + previous.adjustments - previous.bankHolidays - approvedDays(previous)
+    carriedOver = roundDays(Math.min(settings.maxCarryOverDays, Math.max(0, unused)))
+
+    if (carriedOver > 0 && settings.carryOverExpiryMonths > 0) {
+      const expiresOn = addMonths(parseISO(leaveYear.start), settings.carryOverExpiryMonths)
+      carryOverExpiresOn = format(expiresOn, "yyyy-MM-dd")
+      // Holiday taken before the expiry date uses the carried-over days first
+      if (today >= expiresOn) {
+        carryOverLapsed = roundDays(Math.max(0, carriedOver - approvedDays(usage, expiresOn)))
+      }
+    }
+  }
+
+  const taken = roundDays(
+    usage.requests
+      .filter((request) => request.status === "approved" && request.startDate <= endOfDay(today))
+      .reduce((total, request) => total + request.days, 0),
+  )
+  const booked = roundDays(approvedDays(usage) - taken)
+  const pending = roundDays(
+    usage.requests.filter((request) => request.status === "pending").reduce((total, request) => total + request.days, 0),
+  )
+  const remaining = roundDays(
+    usage.entitlement + carriedOver - carryOverLapsed + usage.adjustments - usage.bankHolidays - taken - booked,
+  )
+
+  return {
+    employeeId: employee.id,
+    leaveYear,
+    method: usage.method,
+    entitlement: usage.entitlement,
+    carriedOver,
+    carryOverExpiresOn,
+    carryOverLapsed,
+    adjustments: usage.adjustments,
+    bankHolidays: usage.bankHolidays,
+    taken,
+    booked,
+    pending,
+    remaining,
+    available: roundDays(remaining - pending),
+  }
+}
+
+async function findEmployee(executor: DbExecutor, companyId: number, employeeId: number) {
+  const [employee] = await executor
+    .select()
+    .from(schema.employees)
+    .where(and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, companyId)))
+  if (!employee) {
+    throw new LeaveError("Employee not found", 404)
+  }
+  return employee
+}
+
+export async function getEmployeeLeaveBalance(companyId: number, employeeId: number, date?: Date) {
+  const database = requireDb()
+  const employee = await findEmployee(database, companyId, employeeId)
+  const settings = await getLeaveSettings(database, companyId)
+  return calculateLeaveBalance(database, companyId, employee, settings, date)
+}
+
+/**
+ * Balances for every active employee, for the time-off overview
+ */
+export async function listLeaveBalances(companyId: number, date?: Date) {
+  const database = requireDb()
+  const settings = await getLeaveSettings(database, companyId)
+  const employees = await database
+    .select()
+    .from(schema.employees)
+    .where(and(eq(schema.employees.companyId, companyId), eq(schema.employees.status, "active")))
+    .orderBy(asc(schema.employees.firstName), asc(schema.employees.lastName))
+
+  const balances: LeaveBalance[] = []
+  for (const employee of employees) {
+    balances.push(await calculateLeaveBalance(database, companyId, employee, settings, date))
+  }
+  return balances
+}
+
+/**
+ * What approving a request would do: the days it takes from the balance, and anything the
+ * manager should know first
+ */
+export async function checkLeaveApproval(companyId: number, requestId: number) {
+  const database = requireDb()
+  // Scoped by the employee's company, like the time-off routes
+  const [row] = await database
+    .select({ request: schema.timeOffRequests })
+    .from(schema.timeOffRequests)
+    .innerJoin(schema.employees, eq(schema.timeOffRequests.employeeId, schema.employees.id))
+    .where(and(eq(schema.timeOffRequests.id, requestId), eq(schema.employees.companyId, companyId)))
+  const request = row?.request
+  if (!request) {
+    throw new LeaveError("Time-off request not found", 404)
+  }
+
+  const employee = await findEmployee(database, companyId, request.employeeId)
+  const settings = await getLeaveSettings(database, companyId)
+  const warnings: LeaveApprovalWarning[] = []
+  let deductedDays: number | null = null
+
+  if (DEDUCTIBLE_LEAVE_TYPES.includes(request.type)) {
+    const bankHolidayDates = await loadBankHolidayDates(
+      database,
+      companyId,
+      format(request.startDate, "yyyy-MM-dd"),
+      format(request.endDate, "yyyy-MM-dd"),
+    )
+    deductedDays = countLeaveDays(request.startDate, request.endDate, bankHolidayDates)
+
+    const balance = await calculateLeaveBalance(database, companyId, employee, settings, request.startDate)
+    const remainingAfter = roundDays(balance.remaining - deductedDays)
+    if (remainingAfter < 0) {
+      warnings.push({
+        type: "negative_balance",
+        message: `This takes ${deductedDays} day${deductedDays === 1 ? "" : "s"} and leaves ${remainingAfter} days of holiday`,
+      })
+    }
+  }
+
+  const assignedJobIds = database
+    .select({ jobId: schema.jobAssignments.jobId })
+    .from(schema.jobAssignments)
+    .where(and(eq(schema.jobAssignments.employeeId, employee.id), ne(schema.jobAssignments.status, "declined")))
+
+  const overlappingJobs = await database
+    .select({ id: schema.jobs.id, title: schema.jobs.title, scheduledFor: schema.jobs.scheduledFor })
+    .from(schema.jobs)
+    .where(
+      and(
+        eq(schema.jobs.companyId, companyId),
+        notInArray(schema.jobs.status, INACTIVE_JOB_STATUSES),
+        gte(schema.jobs.scheduledFor, startOfDay(request.startDate)),
+        lte(schema.jobs.scheduledFor, endOfDay(request.endDate)),
+        or(eq(schema.jobs.assignedTo, employee.id), inArray(schema.jobs.id, assignedJobIds)),
+      ),
+    )
+    .orderBy(asc(schema.jobs.scheduledFor))
+
+  for (const job of overlappingJobs) {
+    warnings.push({
+      type: "job_overlap",
+      message: `Assigned to "${job.title}"${job.scheduledFor ? ` on ${format(job.scheduledFor, "d MMM yyyy")}` : ""}`,
+      jobId: job.id,
+    })
+  }
+
+  return { request, deductedDays, warnings }
+}
+
+/**
+ * Approve a pending request, taking holiday from the balance. Warnings must be acknowledged.
+ */
+export async function approveTimeOffRequest(
+  companyId: number,
+  requestId: number,
+  input: { reviewedBy: number | null; reviewNotes?: string | null; acknowledgeWarnings?: boolean },
+) {
+  const database = requireDb()
+  const { request, deductedDays, warnings } = await checkLeaveApproval(companyId, requestId)
+
+  if (request.status !== "pending") {
+    throw new LeaveError("Only pending requests can be reviewed")
+  }
+  if (warnings.length > 0 && !input.acknowledgeWarnings) {
+    throw new LeaveApprovalWarningError(warnings)
+  }
+
+  // Only approve it if it's still pending, in case it was reviewed or withdrawn since the check
+  const [updated] = await database
+    .update(schema.timeOffRequests)
+    .set({
+      status: "approved",
+      deductedDays: deductedDays === null ? null : deductedDays.toString(),
+      reviewedBy: input.reviewedBy,
+      reviewedAt: new Date(),
+      reviewNotes: input.reviewNotes || null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(schema.timeOffRequests.id, request.id), eq(schema.timeOffRequests.status, "pending")))
+    .returning()
+  if (!updated) {
+    throw new LeaveError("This request has already been reviewed", 409)
+  }
+
+  return { request: updated, warnings }
+}
+
+export async function listLeaveAdjustments(companyId: number, employeeId: number, leaveYearStart: string) {
+  const database = requireDb()
+  return database
+    .select()
+    .from(schema.leaveAdjustments)
+    .where(
+      and(
+        eq(schema.leaveAdjustments.companyId, companyId),
+        eq(schema.leaveAdjustments.employeeId, employeeId),
+        eq(schema.leaveAdjustments.leaveYearStart, leaveYearStart),
+      ),
+    )
+    .orderBy(desc(schema.leaveAdjustments.createdAt))
+}
+
+export async function addLeaveAdjustment(
+  companyId: number,
+  employeeId: number,
+  input: { days?: unknown; reason?: unknown; date?: unknown },
+  createdBy: number | null,
+) {
+  const database = requireDb()
+  await findEmployee(database, companyId, employeeId)
+
+  const days = roundDays(Number(input.days))
+  if (!Number.isFinite(days) || days === 0 || Math.abs(days) > 365) {
+    throw new LeaveError("Days must be a non-zero number")
+  }
+  const reason = typeof input.reason === "string" ? input.reason.trim() : ""
+  if (!reason) {
+    throw new LeaveError("A reason is required")
+  }
+  const date = typeof input.date === "string" && input.date ? parseISO(input.date) : new Date()
+  if (Number.isNaN(date.getTime())) {
+    throw new LeaveError("Invalid date")
+  }
+
+  const settings = await getLeaveSettings(database, companyId)
+  const [adjustment] = await database
+    .insert(schema.leaveAdjustments)
+    .values({
+      companyId,
+      employeeId,
+      leaveYearStart: getLeaveYear(date, settings).start,
+      days: days.toString(),
+      reason,
+      createdBy,
+    })
+    .returning()
+  return adjustment
+}
+
+export async function deleteLeaveAdjustment(companyId: number, adjustmentId: number) {
+  const database = requireDb()
+  const [deleted] = await database
+    .delete(schema.leaveAdjustments)
+    .where(and(eq(schema.leaveAdjustments.id, adjustmentId), eq(schema.leaveAdjustments.companyId, companyId)))
+    .returning({ id: schema.leaveAdjustments.id })
+  if (!deleted) {
+    throw new LeaveError("Adjustment not found", 404)
+  }
+}
+
+export async function listBankHolidays(companyId: number, from?: string, to?: string) {
+  const database = requireDb()
+  return database
+    .select()
+    .from(schema.bankHolidays)
+    .where(
+      and(
+        eq(schema.bankHolidays.companyId, companyId),
+        from ? gte(schema.bankHolidays.date, from) : undefined,
+        to ? lte(schema.bankHolidays.date, to) : undefined,
+      ),
+    )
+    .orderBy(asc(schema.bankHolidays.date))
+}
+
+export async function addBankHoliday(companyId: number, input: { date?: unknown; name?: unknown }) {
+  const database = requireDb()
+  const date = typeof input.date === "string" ? input.date : ""
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    throw new LeaveError("A valid date is required")
+  }
+  const name = typeof input.name === "string" ? input.name.trim().slice(0, 255) : ""
+  if (!name) {
+    throw new LeaveError("A name is required")
+  }
+
+  const [holiday] = await database
+    .insert(schema.bankHolidays)
+    .values({ companyId, date, name })
+    .onConflictDoNothing()
+    .returning()
+  if (!holiday) {
+    throw new LeaveError("There is already a bank holiday on this date", 409)
+  }
+  return holiday
+}
+
+export async function deleteBankHoliday(companyId: number, holidayId: number) {
+  const database = requireDb()
+  const [deleted] = await database
+    .delete(schema.bankHolidays)
+    .where(and(eq(schema.bankHolidays.id, holidayId), eq(schema.bankHolidays.companyId, companyId)))
+    .returning({ id: schema.bankHolidays.id })
+  if (!deleted) {
+    throw new LeaveError("Bank holiday not found", 404)
+  }
+}
+
+/**
+ * Add the published UK bank holidays for a division from gov.uk, skipping dates already set up
+ */
+export async function importUkBankHolidays(companyId: number, division: string, fromDate: string) {
+  const database = requireDb()
+  const response = await fetch(UK_BANK_HOLIDAYS_URL)
+  if (!response.ok) {
+    throw new LeaveError("Couldn't load bank holidays from gov.uk", 502)
+  }
+  const data = await response.json()
+  const events: Array<{ date: string; title: string }> = data?.[division]?.events
+  if (!Array.isArray(events)) {
+    throw new LeaveError("Unknown bank holiday region")
+  }
+
+  const values = events
+    .filter((event) => typeof event.date === "string" && event.date >= fromDate)
+    .map((event) => ({ companyId, date: event.date, name: String(event.title).slice(0, 255) }))
+  if (values.length === 0) return 0
+
+  const inserted = await database
+    .insert(schema.bankHolidays)
+    .values(values)
+    .onConflictDoNothing()
+    .returning({ id: schema.bankHolidays.id })
+  return inserted.length
+}
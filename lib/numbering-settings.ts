@@ -0,0 +1,121 @@
+export type DocumentSeries = "invoice" | "credit_note" | "quote" | "contract"
+
+export const DOCUMENT_SERIES: DocumentSeries[] = ["invoice", "credit_note", "quote", "contract"]
+
+export const documentSeriesLabels: Record<DocumentSeries, string> = {
+  invoice: "Invoices",
+  credit_note: "Credit notes",
+  quote: "Quotes",
+  contract: "Contracts",
+}
+
+export interface DocumentNumberFormat {
+  prefix: string
+  // e.g. "{PREFIX}-{YYYY}-{SEQ:5}"; must contain a {SEQ} token
+  pattern: string
+  // Start the sequence again at 1 each calendar year (only allowed when the pattern includes the year)
+  resetYearly: boolean
+}
+
+export type CompanyNumberingSettings = Record<DocumentSeries, DocumentNumberFormat>
+
+export const MAX_PREFIX_LENGTH = 20
+export const MAX_PATTERN_LENGTH = 100
+export const MAX_SEQUENCE_DIGITS = 10
+
+// Document number columns are varchar(100)
+const MAX_NUMBER_LENGTH = 100
+const MAX_CUSTOMER_LENGTH = 50
+
+export const numberingPatternTokens = [
+  "{PREFIX}",
+  "{YYYY}",
+  "{YY}",
+  "{MM}",
+  "{DD}",
+  "{SEQ}",
+  "{SEQ:5}",
+  "{CUSTOMER}",
+]
+
+export const defaultNumberingSettings: CompanyNumberingSettings = {
+  invoice: { prefix: "INV", pattern: "{PREFIX}-{SEQ:4} - {CUSTOMER} - {DD}-{MM}-{YYYY}", resetYearly: false },
+  credit_note: { prefix: "CN", pattern: "{PREFIX}-{SEQ:4}", resetYearly: false },
+  quote: { prefix: "Q", pattern: "{PREFIX}-{YYYY}-{SEQ:4}", resetYearly: false },
+  contract: { prefix: "C", pattern: "{PREFIX}-{YYYY}-{SEQ:4}", resetYearly: false },
+}
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/g
+const YEAR_TOKEN = /\{(YYYY|YY)\}/
+
+export function hasSequenceToken(pattern: string) {
+  return new RegExp(SEQ_TOKEN.source).test(pattern)
+}
+
+export function hasYearToken(pattern: string) {
+  return YEAR_TOKEN.test(pattern)
+}
+
+/**
+ * Render a document number from its format and allocated sequence value
+ */
+export function formatDocumentNumber(
+  format: DocumentNumberFormat,
+  sequence: number,
+  options: { date?: Date; customerName?: string | null } = {},
+) {
+  const date = options.date ?? new Date()
+  const customer = (options.customerName || "").trim().slice(0, MAX_CUSTOMER_LENGTH) || "Customer"
+  const pad = (value: number) => String(value).padStart(2, "0")
+
+  const number = format.pattern
+    .replace(SEQ_TOKEN, (_, digits?: string) =>
+      String(sequence).padStart(Math.min(MAX_SEQUENCE_DIGITS, parseInt(digits || "1")), "0"),
+    )
+    .split("{PREFIX}").join(format.prefix)
+    .split("{YYYY}").join(String(date.getFullYear()))
+    .split("{YY}").join(String(date.getFullYear()).slice(-2))
+    .split("{MM}").join(pad(date.getMonth() + 1))
+    .split("{DD}").join(pad(date.getDate()))
+    .split("{CUSTOMER}").join(customer)
+    .trim()
+
+  return number.slice(0, MAX_NUMBER_LENGTH)
+}
+
+function normalizeFormat(raw: any, fallback: DocumentNumberFormat): DocumentNumberFormat {
+  const prefix = typeof raw?.prefix === "string" ? raw.prefix.trim().slice(0, MAX_PREFIX_LENGTH) : fallback.prefix
+  const rawPattern = typeof raw?.pattern === "string" ? raw.pattern.trim().slice(0, MAX_PATTERN_LENGTH) : ""
+  // Without a sequence token every document would get the same number
+  const pattern = rawPattern && hasSequenceToken(rawPattern) ? rawPattern : fallback.pattern
+
+  return {
+    prefix,
+    pattern,
+    // Resetting without the year in the number would reuse last year's numbers
+    resetYearly: raw?.resetYearly === true && hasYearToken(pattern),
+  }
+}
+
+export function normalizeNumberingSettings(raw: unknown): CompanyNumberingSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    parsed = {}
+  }
+
+  return {
+    invoice: normalizeFormat(parsed.invoice, defaultNumberingSettings.invoice),
+    credit_note: normalizeFormat(parsed.credit_note, defaultNumberingSettings.credit_note),
+    quote: normalizeFormat(parsed.quote, defaultNumberingSettings.quote),
+    contract: normalizeFormat(parsed.contract, defaultNumberingSettings.contract),
+  }
+}
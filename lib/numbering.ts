@@ -0,0 +1,142 @@
+import { and, count, desc, eq, gte, lt, sql } from "drizzle-orm"
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core"
+import { schema, type DbExecutor } from "@/lib/db"
+import {
+  formatDocumentNumber,
+  normalizeNumberingSettings,
+  type CompanyNumberingSettings,
+  type DocumentSeries,
+} from "./numbering-settings"
+
+const ALL_TIME_PERIOD = "all"
+
+interface AllocateDocumentNumberOptions {
+  // Document date used for the {YYYY}/{MM}/{DD} tokens and the yearly period; defaults to now
+  date?: Date
+  // Customer the document is for, used by the {CUSTOMER} token
+  customerId?: number | null
+}
+
+export async function getNumberingSettings(
+  executor: DbExecutor,
+  companyId: number,
+): Promise<CompanyNumberingSettings> {
+  const company = await executor.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+    columns: { numberingSettings: true },
+  })
+  return normalizeNumberingSettings(company?.numberingSettings)
+}
+
+function getDocumentTable(series: DocumentSeries) {
+  switch (series) {
+    case "invoice":
+      return { table: schema.invoices, number: schema.invoices.invoiceNumber }
+    case "quote":
+      return { table: schema.quotes, number: schema.quotes.quoteNumber }
+    case "contract":
+      return { table: schema.contracts, number: schema.contracts.contractNumber }
+    case "credit_note":
+      return { table: schema.creditNotes, number: schema.creditNotes.creditNoteNumber }
+  }
+}
+
+/**
+ * Starting point for a sequence that has no row yet: documents numbered before sequences existed
+ * (or before a yearly reset was switched on) keep their numbers, so continue after the highest of
+ * the document count and the sequence in the latest number.
+ */
+async function getSequenceSeed(executor: DbExecutor, companyId: number, series: DocumentSeries, year: number | null) {
+  const source = getDocumentTable(series)
+  const table = source.table as PgTable & { companyId: PgColumn; createdAt: PgColumn; id: PgColumn }
+  const conditions = [eq(table.companyId, companyId)]
+  if (year !== null) {
+    conditions.push(gte(table.createdAt, new Date(year, 0, 1)), lt(table.createdAt, new Date(year + 1, 0, 1)))
+  }
+
+  const [summary] = await executor.select({ total: count() }).from(table).where(and(...conditions))
+  const [latest] = await executor
+    .select({ number: source.number })
+    .from(table)
+    .where(and(...conditions))
+    .orderBy(desc(table.id))
+    .limit(1)
+
+  // "INV-0007 - Jane Smith - 01-02-2025" -> 7, "Q-2025-0012" -> 12
+  const match = latest?.number.split(" - ")[0].match(/(\d+)\D*$/)
+  const latestSequence = match ? parseInt(match[1]) : 0
+
+  return Math.max(summary?.total ?? 0, latestSequence)
+}
+
+async function nextSequenceValue(
+  executor: DbExecutor,
+  companyId: number,
+  series: DocumentSeries,
+  period: string,
+  year: number | null,
+) {
+  const { documentSequences } = schema
+  const increment = () =>
+    executor
+      .update(documentSequences)
+      .set({ lastValue: sql`${documentSequences.lastValue} + 1`, updatedAt: new Date() })
+      .where(
+        and(
+          eq(documentSequences.companyId, companyId),
+          eq(documentSequences.series, series),
+          eq(documentSequences.period, period),
+        ),
+      )
+      .returning({ value: documentSequences.lastValue })
+
+  // The update locks the row until the caller's transaction ends, so concurrent allocations queue
+  // here and a rolled back document gives its number back
+  const [current] = await increment()
+  if (current) return current.value
+
+  const seed = await getSequenceSeed(executor, companyId, series, year)
+  const [created] = await executor
+    .insert(documentSequences)
+    .values({ companyId, series, period, lastValue: seed + 1 })
+    .onConflictDoNothing()
+    .returning({ value: documentSequences.lastValue })
+  if (created) return created.value
+
+  // Another transaction created the row first
+  const [next] = await increment()
+  if (!next) {
+    throw new Error(`Failed to allocate ${series} number`)
+  }
+  return next.value
+}
+
+/**
+ * Allocate the next number in a company's document series and format it. Call this inside the
+ * transaction that inserts the document so the number is only used if the document is saved.
+ */
+export async function allocateDocumentNumber(
+  executor: DbExecutor,
+  companyId: number,
+  series: DocumentSeries,
+  options: AllocateDocumentNumberOptions = {},
+) {
+  const date = options.date ?? new Date()
+  const settings = await getNumberingSettings(executor, companyId)
+  const format = settings[series]
+
+  const year = format.resetYearly ? date.getFullYear() : null
+  const period = year !== null ? String(year) : ALL_TIME_PERIOD
+  const sequence = await nextSequenceValue(executor, companyId, series, period, year)
+
+  let customerName: string | null = null
+  if (options.customerId && format.pattern.includes("{CUSTOMER}")) {
+    const customer = await executor.query.customers.findFirst({
+      where: and(eq(schema.customers.id, options.customerId), eq(schema.customers.companyId, companyId)),
+      columns: { firstName: true, lastName: true },
+    })
+    customerName = customer ? `${customer.firstName} ${customer.lastName}` : null
+  }
+
+  return formatDocumentNumber(format, sequence, { date, customerName })
+}
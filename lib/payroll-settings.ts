@@ -0,0 +1,109 @@
+export type PayFrequency = "weekly" | "bi-weekly" | "monthly"
+
+export const PAY_FREQUENCIES: PayFrequency[] = ["weekly", "bi-weekly", "monthly"]
+
+export const payFrequencyLabels: Record<PayFrequency, string> = {
+  weekly: "Weekly",
+  "bi-weekly": "Bi-weekly",
+  monthly: "Monthly",
+}
+
+export interface CompanyPayrollSettings {
+  currency: string
+  // Frequency for employees without one of their own, e.g. pay-per-job staff
+  defaultFrequency: PayFrequency
+  // Day weekly and bi-weekly periods start on (0 = Sunday, 1 = Monday)
+  weekStartsOn: number
+  // Any date that starts a bi-weekly period; later periods follow every 14 days
+  biWeeklyAnchor: string
+  // Hours worked in a week beyond which hourly staff are paid overtime; 0 turns overtime off
+  overtimeThresholdHours: number
+  overtimeMultiplier: number
+  // Applied to hours worked on Saturday and Sunday. Overtime on a weekend uses the higher multiplier.
+  weekendMultiplier: number
+  // Pay hourly staff for estimated driving time between jobs on the same day
+  payTravelTime: boolean
+  // Average speed used to estimate travel time from the distance between jobs
+  travelSpeedMph: number
+  // Allowance per mile driven between jobs on the same day; 0 turns mileage off
+  mileageRate: number
+}
+
+export const defaultPayrollSettings: CompanyPayrollSettings = {
+  currency: "GBP",
+  defaultFrequency: "monthly",
+  weekStartsOn: 1,
+  biWeeklyAnchor: "2024-01-01",
+  overtimeThresholdHours: 40,
+  overtimeMultiplier: 1.5,
+  weekendMultiplier: 1,
+  payTravelTime: false,
+  travelSpeedMph: 20,
+  mileageRate: 0.45,
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isPayFrequency(value: unknown): value is PayFrequency {
+  return typeof value === "string" && PAY_FREQUENCIES.includes(value as PayFrequency)
+}
+
+/**
+ * Pay frequency for an employee. Older records may say "hourly", which isn't a pay period,
+ * and pay-per-job staff often have none; both fall back to the company default.
+ */
+export function resolvePayFrequency(
+  paymentFrequency: string | null | undefined,
+  settings: CompanyPayrollSettings,
+): PayFrequency {
+  return isPayFrequency(paymentFrequency) ? paymentFrequency : settings.defaultFrequency
+}
+
+function normalizeNumber(value: unknown, fallback: number, min: number, max: number) {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value))
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.min(max, Math.max(min, Math.round(parsed * 100) / 100))
+}
+
+export function normalizePayrollSettings(raw: unknown): CompanyPayrollSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { ...defaultPayrollSettings }
+  }
+
+  const currency = typeof parsed.currency === "string" ? parsed.currency.trim().toUpperCase() : ""
+
+  return {
+    currency: /^[A-Z]{3}$/.test(currency) ? currency : defaultPayrollSettings.currency,
+    defaultFrequency: isPayFrequency(parsed.defaultFrequency)
+      ? parsed.defaultFrequency
+      : defaultPayrollSettings.defaultFrequency,
+    weekStartsOn: Math.round(normalizeNumber(parsed.weekStartsOn, defaultPayrollSettings.weekStartsOn, 0, 6)),
+    biWeeklyAnchor:
+      typeof parsed.biWeeklyAnchor === "string" &&
+      DATE_PATTERN.test(parsed.biWeeklyAnchor) &&
+      !Number.isNaN(Date.parse(parsed.biWeeklyAnchor))
+        ? parsed.biWeeklyAnchor
+        : defaultPayrollSettings.biWeeklyAnchor,
+    overtimeThresholdHours: normalizeNumber(
+      parsed.overtimeThresholdHours,
+      defaultPayrollSettings.overtimeThresholdHours,
+      0,
+      168,
+    ),
+    overtimeMultiplier: normalizeNumber(parsed.overtimeMultiplier, defaultPayrollSettings.overtimeMultiplier, 1, 5),
+    weekendMultiplier: normalizeNumber(parsed.weekendMultiplier, defaultPayrollSettings.weekendMultiplier, 1, 5),
+    payTravelTime: parsed.payTravelTime === true,
+    travelSpeedMph: normalizeNumber(parsed.travelSpeedMph, defaultPayrollSettings.travelSpeedMph, 1, 100),
+    mileageRate: normalizeNumber(parsed.mileageRate, defaultPayrollSettings.mileageRate, 0, 10),
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { getJobPay, getLastCompletedPayPeriod, getPayPeriod, normalizeAdjustments, PayrollError } from "@/lib/payroll"
+import { defaultPayrollSettings } from "@/lib/payroll-settings"
+
+describe("getJobPay", () => {
+  test("prefers the assignment's pay, then the job's", () => {
+    assert.equal(getJobPay({ payAmount: "35.00", employeePay: "30.00", durationMinutes: 120 }, 12), 35)
+    assert.equal(getJobPay({ payAmount: null, employeePay: "30.00", durationMinutes: 120 }, 12), 30)
+  })
+
+  test("falls back to the duration at the hourly rate", () => {
+    assert.equal(getJobPay({ payAmount: null, employeePay: null, durationMinutes: 90 }, 12.5), 18.75)
+    assert.equal(getJobPay({ durationMinutes: null }, 12), 12)
+    assert.equal(getJobPay({ durationMinutes: 90 }, 0), null)
+  })
+})
+
+describe("getPayPeriod", () => {
+  test("uses the company's week start for weekly periods", () => {
+    // Wednesday 4 March 2026
+    assert.deepEqual(getPayPeriod("weekly", new Date(2026, 2, 4), defaultPayrollSettings), {
+      start: "2026-03-02",
+      end: "2026-03-08",
+    })
+  })
+
+  test("counts bi-weekly periods from the anchor", () => {
+    const settings = { ...defaultPayrollSettings, biWeeklyAnchor: "2026-01-05" }
+    assert.deepEqual(getPayPeriod("bi-weekly", new Date(2026, 0, 20), settings), {
+      start: "2026-01-19",
+      end: "2026-02-01",
+    })
+  })
+
+  test("defaults a new run to the last period that has ended", () => {
+    assert.deepEqual(getLastCompletedPayPeriod("monthly", defaultPayrollSettings, new Date(2026, 2, 15)), {
+      start: "2026-02-01",
+      end: "2026-02-28",
+    })
+  })
+})
+
+describe("normalizeAdjustments", () => {
+  test("rounds amounts and defaults the type to an addition", () => {
+    const [adjustment] = normalizeAdjustments([{ id: "a1", description: " Bonus ", amount: "10.005" }])
+    assert.deepEqual(adjustment, { id: "a1", type: "addition", description: "Bonus", amount: 10.01 })
+  })
+
+  test("rejects adjustments without a description or a positive amount", () => {
+    assert.throws(() => normalizeAdjustments([{ description: "", amount: 5 }]), PayrollError)
+    assert.throws(() => normalizeAdjustments([{ description: "Uniform", type: "deduction", amount: -5 }]), PayrollError)
+  })
+})
@@ -0,0 +1,1093 @@
+import { and, asc, desc, eq, gte, inArray, lt, ne } from "drizzle-orm"
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { randomUUID } from "crypto"
+import { db, schema, type DbExecutor, type DbTransaction } from "@/lib/db"
+import type { Employee, PayrollRun, Payslip } from "@/lib/db/schema"
+import { calculateDistanceMeters, parseCoordinates } from "@/lib/geocoding"
+import { workedIntervals } from "@/lib/timesheets"
+import {
+  isPayFrequency,
+  normalizePayrollSettings,
+  payFrequencyLabels,
+  resolvePayFrequency,
+  type CompanyPayrollSettings,
+  type PayFrequency,
+} from "@/lib/payroll-settings"
+import type { PayslipPdfData } from "@/lib/pdf-generator"
+
+/**
+ * Payroll: pay periods, pay rules and payroll runs.
+ *
+ * Hourly staff are paid for their work sessions, with weekly overtime and a weekend multiplier.
+ * Pay-per-job staff are paid for the jobs they completed in the period. Salaried staff get their
+ * annual salary divided over the pay periods in a year. Anyone can get mileage, and hourly or
+ * per-job staff with an hourly rate can be paid for travel time, both estimated from the distance
+ * between consecutive jobs on the same day.
+ */
+
+export type PayrollRunStatus = "draft" | "approved" | "paid"
+export type PayType = "hourly" | "salary" | "per_job"
+
+export type PayslipLineKind =
+  | "basic"
+  | "weekend"
+  | "overtime"
+  | "weekend_overtime"
+  | "salary"
+  | "job"
+  | "travel"
+  | "mileage"
+
+export interface PayslipLine {
+  kind: PayslipLineKind
+  description: string
+  quantity: number | null // hours, miles or jobs
+  rate: number | null
+  amount: number
+  jobId?: number
+}
+
+export interface PayslipAdjustment {
+  id: string
+  type: "addition" | "deduction"
+  description: string
+  amount: number
+}
+
+export interface PayPeriod {
+  start: string // yyyy-MM-dd
+  end: string // yyyy-MM-dd, inclusive
+}
+
+export interface PayCalculation {
+  employeeId: number
+  payType: PayType
+  hoursWorked: number
+  sessionsCount: number
+  jobIds: number[]
+  lines: PayslipLine[]
+  warnings: string[]
+}
+
+export class PayrollError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "PayrollError"
+  }
+}
+
+const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  "bi-weekly": 26,
+  monthly: 12,
+}
+
+const METERS_PER_MILE = 1609.344
+
+const payTypeLabels: Record<PayType, string> = {
+  hourly: "Hourly",
+  salary: "Salary",
+  per_job: "Per job",
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function toNumber(value: string | null | undefined) {
+  const parsed = value === null || value === undefined ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function resolvePayType(payType: string | null | undefined): PayType {
+  return payType === "salary" || payType === "per_job" ? payType : "hourly"
+}
+
+/**
+ * The pay period of a given frequency that contains a date
+ */
+export function getPayPeriod(frequency: PayFrequency, date: Date, settings: CompanyPayrollSettings): PayPeriod {
+  let start: Date
+  let end: Date
+
+  if (frequency === "monthly") {
+    start = startOfMonth(date)
+    end = endOfMonth(date)
+  } else if (frequency === "bi-weekly") {
+    const anchor = startOfDay(parseISO(settings.biWeeklyAnchor))
+    const offset = Math.floor(differenceInCalendarDays(date, anchor) / 14) * 14
+    start = addDays(anchor, offset)
+    end = addDays(start, 13)
+  } else {
+    start = startOfWeek(date, { weekStartsOn: settings.weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6 })
+    end = addDays(start, 6)
+  }
+
+  return { start: format(start, "yyyy-MM-dd"), end: format(end, "yyyy-MM-dd") }
+}
+
+/**
+ * The most recent pay period that has already ended, used as the default for a new run
+ */
+export function getLastCompletedPayPeriod(
+  frequency: PayFrequency,
+  settings: CompanyPayrollSettings,
+  today: Date = new Date(),
+): PayPeriod {
+  const current = getPayPeriod(frequency, today, settings)
+  return getPayPeriod(frequency, addDays(parseISO(current.start), -1), settings)
+}
+
+/**
+ * What an employee earns for one completed job: the pay set on their assignment, then on the job,
+ * then the job's duration at their hourly rate. Null when none of these are available.
+ */
+export function getJobPay(
+  job: { payAmount?: string | null; employeePay?: string | null; durationMinutes?: number | null },
+  hourlyRate: number,
+): number | null {
+  const assignmentPay = toNumber(job.payAmount)
+  if (assignmentPay !== null) return assignmentPay
+  const jobPay = toNumber(job.employeePay)
+  if (jobPay !== null) return jobPay
+  if (hourlyRate > 0) return roundMoney(((job.durationMinutes || 60) / 60) * hourlyRate)
+  return null
+}
+
+export async function getPayrollSettings(executor: DbExecutor, companyId: number) {
+  const [company] = await executor
+    .select({ payrollSettings: schema.companies.payrollSettings })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+  return normalizePayrollSettings(company?.payrollSettings)
+}
+
+interface WorkedSession {
+  id: number
+  employeeId: number
+  jobId: number | null
+  startedAt: Date
+  endedAt: Date
+  latitude: string | null
+  longitude: string | null
+}
+
+interface CompletedJob {
+  employeeId: number
+  jobId: number
+  title: string
+  completedAt: Date
+  payAmount: string | null
+  employeePay: string | null
+  durationMinutes: number | null
+  latitude: string | null
+  longitude: string | null
+}
+
+/**
+ * Worked time in the range from approved timesheets, split around breaks. Sessions that are
+ * still open or not yet approved are counted so they can be flagged.
+ */
+async function loadWorkedSessions(executor: DbExecutor, employeeIds: number[], start: Date, end: Date) {
+  const rows = await executor
+    .select({
+      id: schema.workSessions.id,
+      employeeId: schema.workSessions.employeeId,
+      jobId: schema.workSessions.jobId,
+      startedAt: schema.workSessions.startedAt,
+      endedAt: schema.workSessions.endedAt,
+      durationMinutes: schema.workSessions.durationMinutes,
+      timesheetStatus: schema.timesheets.status,
+      latitude: schema.jobs.latitude,
+      longitude: schema.jobs.longitude,
+    })
+    .from(schema.workSessions)
+    .leftJoin(schema.jobs, eq(schema.workSessions.jobId, schema.jobs.id))
+    .leftJoin(schema.timesheets, eq(schema.workSessions.timesheetId, schema.timesheets.id))
+    .where(
+      and(
+        inArray(schema.workSessions.employeeId, employeeIds),
+        gte(schema.workSessions.startedAt, start),
+        lt(schema.workSessions.startedAt, end),
+      ),
+    )
+    .orderBy(asc(schema.workSessions.startedAt))
+
+  const approved = rows.filter((row) => row.timesheetStatus === "approved")
+  const breaks = approved.length
+    ? await executor
+        .select()
+        .from(schema.workSessionBreaks)
+        .where(
+          inArray(
+            schema.workSessionBreaks.workSessionId,
+            approved.map((row) => row.id),
+          ),
+        )
+    : []
+
+  const sessions: WorkedSession[] = []
+  const openSessions = new Map<number, number>()
+  const unapprovedSessions = new Map<number, number>()
+  for (const row of rows) {
+    if (row.timesheetStatus !== "approved") {
+      unapprovedSessions.set(row.employeeId, (unapprovedSessions.get(row.employeeId) ?? 0) + 1)
+      continue
+    }
+    const endedAt =
+      row.endedAt ??
+      (row.durationMinutes ? new Date(row.startedAt.getTime() + row.durationMinutes * 60000) : null)
+    if (!endedAt || endedAt <= row.startedAt) {
+      openSessions.set(row.employeeId, (openSessions.get(row.employeeId) ?? 0) + 1)
+      continue
+    }
+    const sessionBreaks = breaks.filter((item) => item.workSessionId === row.id)
+    for (const interval of workedIntervals(row.startedAt, endedAt, sessionBreaks)) {
+      sessions.push({ ...row, ...interval })
+    }
+  }
+  return { sessions, openSessions, unapprovedSessions }
+}
+
+async function loadCompletedJobs(
+  executor: DbExecutor,
+  companyId: number,
+  employeeIds: number[],
+  start: Date,
+  end: Date,
+): Promise<CompletedJob[]> {
+  const rows = await executor
+    .select({
+      employeeId: schema.jobAssignments.employeeId,
+      jobId: schema.jobs.id,
+      title: schema.jobs.title,
+      completedAt: schema.jobs.completedAt,
+      payAmount: schema.jobAssignments.payAmount,
+      employeePay: schema.jobs.employeePay,
+      durationMinutes: schema.jobs.durationMinutes,
+      latitude: schema.jobs.latitude,
+      longitude: schema.jobs.longitude,
+    })
+    .from(schema.jobAssignments)
+    .innerJoin(schema.jobs, eq(schema.jobAssignments.jobId, schema.jobs.id))
+    .where(
+      and(
+        eq(schema.jobAssignments.companyId, companyId),
+        inArray(schema.jobAssignments.employeeId, employeeIds),
+        ne(schema.jobAssignments.status, "declined"),
+        eq(schema.jobs.status, "completed"),
+        gte(schema.jobs.completedAt, start),
+        lt(schema.jobs.completedAt, end),
+      ),
+    )
+    .orderBy(asc(schema.jobs.completedAt))
+
+  // Jobs given to a single employee through jobs.assigned_to may have no assignment row
+  const directRows = await executor
+    .select({
+      employeeId: schema.jobs.assignedTo,
+      jobId: schema.jobs.id,
+      title: schema.jobs.title,
+      completedAt: schema.jobs.completedAt,
+      employeePay: schema.jobs.employeePay,
+      durationMinutes: schema.jobs.durationMinutes,
+      latitude: schema.jobs.latitude,
+      longitude: schema.jobs.longitude,
+    })
+    .from(schema.jobs)
+    .where(
+      and(
+        eq(schema.jobs.companyId, companyId),
+        inArray(schema.jobs.assignedTo, employeeIds),
+        eq(schema.jobs.status, "completed"),
+        gte(schema.jobs.completedAt, start),
+        lt(schema.jobs.completedAt, end),
+      ),
+    )
+
+  const assigned = new Set(rows.map((row) => `${row.employeeId}:${row.jobId}`))
+  const jobs: CompletedJob[] = rows.map((row) => ({ ...row, completedAt: row.completedAt as Date }))
+  for (const row of directRows) {
+    if (row.employeeId === null || assigned.has(`${row.employeeId}:${row.jobId}`)) continue
+    jobs.push({ ...row, employeeId: row.employeeId, payAmount: null, completedAt: row.completedAt as Date })
+  }
+
+  return jobs.sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+}
+
+/**
+ * Split hourly work into basic, weekend and overtime minutes. Overtime is counted per week
+ * (from the company's week start) within the period, from the first minute over the threshold.
+ */
+function splitHourlyMinutes(sessions: WorkedSession[], settings: CompanyPayrollSettings) {
+  const thresholdMinutes = settings.overtimeThresholdHours > 0 ? settings.overtimeThresholdHours * 60 : Infinity
+  const weekStartsOn = settings.weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6
+  const weeklyMinutes = new Map<string, number>()
+  const minutes: Record<"basic" | "weekend" | "overtime" | "weekend_overtime", number> = {
+    basic: 0,
+    weekend: 0,
+    overtime: 0,
+    weekend_overtime: 0,
+  }
+
+  for (const session of sessions) {
+    for (let day = startOfDay(session.startedAt); day < session.endedAt; day = addDays(day, 1)) {
+      const chunkStart = session.startedAt > day ? session.startedAt : day
+      const nextDay = addDays(day, 1)
+      const chunkEnd = session.endedAt < nextDay ? session.endedAt : nextDay
+      const chunkMinutes = (chunkEnd.getTime() - chunkStart.getTime()) / 60000
+      if (chunkMinutes <= 0) continue
+
+      const week = format(startOfWeek(day, { weekStartsOn }), "yyyy-MM-dd")
+      const used = weeklyMinutes.get(week) ?? 0
+      const regular = Math.max(0, Math.min(chunkMinutes, thresholdMinutes - used))
+      weeklyMinutes.set(week, used + chunkMinutes)
+
+      const isWeekend = day.getDay() === 0 || day.getDay() === 6
+      minutes[isWeekend ? "weekend" : "basic"] += regular
+      minutes[isWeekend ? "weekend_overtime" : "overtime"] += chunkMinutes - regular
+    }
+  }
+
+  return minutes
+}
+
+function hourlyLines(sessions: WorkedSession[], hourlyRate: number, settings: CompanyPayrollSettings) {
+  const minutes = splitHourlyMinutes(sessions, settings)
+  const weekendRate = settings.weekendMultiplier
+  const overtimeRate = settings.overtimeMultiplier
+  const weekendOvertimeRate = Math.max(weekendRate, overtimeRate)
+
+  // Weekend hours paid at the normal rate are shown as basic hours
+  const buckets: Array<{ kind: PayslipLineKind; description: string; minutes: number; multiplier: number }> = [
+    {
+      kind: "basic",
+      description: "Basic hours",
+      minutes: minutes.basic + (weekendRate === 1 ? minutes.weekend : 0),
+      multiplier: 1,
+    },
+    {
+      kind: "weekend",
+      description: `Weekend hours (x${weekendRate})`,
+      minutes: weekendRate === 1 ? 0 : minutes.weekend,
+      multiplier: weekendRate,
+    },
+    {
+      kind: "overtime",
+      description: `Overtime (x${overtimeRate})`,
+      minutes: minutes.overtime + (weekendOvertimeRate === overtimeRate ? minutes.weekend_overtime : 0),
+      multiplier: overtimeRate,
+    },
+    {
+      kind: "weekend_overtime",
+      description: `Weekend overtime (x${weekendOvertimeRate})`,
+      minutes: weekendOvertimeRate === overtimeRate ? 0 : minutes.weekend_overtime,
+      multiplier: weekendOvertimeRate,
+    },
+  ]
+
+  return buckets
+    .filter((bucket) => bucket.minutes > 0)
+    .map((bucket): PayslipLine => {
+      const hours = Math.round((bucket.minutes / 60) * 100) / 100
+      const rate = roundMoney(hourlyRate * bucket.multiplier)
+      return { kind: bucket.kind, description: bucket.description, quantity: hours, rate, amount: roundMoney(hours * rate) }
+    })
+}
+
+/**
+ * Miles driven between consecutive jobs on the same day. Uses work sessions where they were
+ * clocked, otherwise the order jobs were completed in.
+ */
+function milesBetweenJobs(sessions: WorkedSession[], jobs: CompletedJob[]) {
+  const stops = sessions.some((session) => session.jobId)
+    ? sessions.filter((session) => session.jobId).map((session) => ({ ...session, at: session.startedAt }))
+    : jobs.map((job) => ({ ...job, at: job.completedAt }))
+
+  let meters = 0
+  for (let i = 1; i < stops.length; i++) {
+    const previous = stops[i - 1]
+    const current = stops[i]
+    if (previous.jobId === current.jobId) continue
+    if (format(previous.at, "yyyy-MM-dd") !== format(current.at, "yyyy-MM-dd")) continue
+    const from = parseCoordinates(previous.latitude, previous.longitude)
+    const to = parseCoordinates(current.latitude, current.longitude)
+    if (from && to) meters += calculateDistanceMeters(from, to)
+  }
+  return Math.round((meters / METERS_PER_MILE) * 10) / 10
+}
+
+/**
+ * Share of a pay period the employee was employed for, for salaried starters and leavers
+ */
+function employedFraction(employee: Employee, period: PayPeriod) {
+  const periodStart = parseISO(period.start)
+  const periodEnd = parseISO(period.end)
+  const from = employee.startDate && employee.startDate > periodStart ? startOfDay(employee.startDate) : periodStart
+  const to = employee.endDate && employee.endDate < periodEnd ? startOfDay(employee.endDate) : periodEnd
+  const periodDays = differenceInCalendarDays(periodEnd, periodStart) + 1
+  const employedDays = Math.max(0, differenceInCalendarDays(to, from) + 1)
+  return { employedDays, periodDays }
+}
+
+function calculateEmployeePay(
+  employee: Employee,
+  frequency: PayFrequency,
+  period: PayPeriod,
+  sessions: WorkedSession[],
+  jobs: CompletedJob[],
+  openSessions: number,
+  unapprovedSessions: number,
+  settings: CompanyPayrollSettings,
+): PayCalculation {
+  const payType = resolvePayType(employee.payType)
+  const hourlyRate = toNumber(employee.hourlyRate) ?? 0
+  const lines: PayslipLine[] = []
+  const warnings: string[] = []
+
+  const workedMinutes = sessions.reduce(
+    (total, session) => total + (session.endedAt.getTime() - session.startedAt.getTime()) / 60000,
+    0,
+  )
+
+  if (openSessions > 0) {
+    warnings.push(`${openSessions} work session${openSessions === 1 ? " was" : "s were"} never clocked out and ${openSessions === 1 ? "is" : "are"} not included`)
+  }
+  if (unapprovedSessions > 0 && payType === "hourly") {
+    warnings.push(`${unapprovedSessions} work session${unapprovedSessions === 1 ? " isn't" : "s aren't"} on an approved timesheet and ${unapprovedSessions === 1 ? "is" : "are"} not included`)
+  }
+
+  if (payType === "hourly") {
+    if (hourlyRate <= 0) {
+      warnings.push("No hourly rate set")
+    } else {
+      lines.push(...hourlyLines(sessions, hourlyRate, settings))
+    }
+  } else if (payType === "per_job") {
+    for (const job of jobs) {
+      const amount = getJobPay(job, hourlyRate)
+      if (amount === null) {
+        warnings.push(`No pay set for job "${job.title}"`)
+      }
+      lines.push({
+        kind: "job",
+        description: `${job.title} (${format(job.completedAt, "d MMM")})`,
+        quantity: 1,
+        rate: amount,
+        amount: amount ?? 0,
+        jobId: job.jobId,
+      })
+    }
+  } else {
+    const salary = toNumber(employee.salary)
+    if (!salary) {
+      warnings.push("No salary set")
+    } else {
+      const { employedDays, periodDays } = employedFraction(employee, period)
+      // Ranges that aren't a whole pay period (e.g. the wages report) use a daily rate
+      const payPeriod = getPayPeriod(frequency, parseISO(period.start), settings)
+      const periodSalary =
+        payPeriod.start === period.start && payPeriod.end === period.end
+          ? salary / PERIODS_PER_YEAR[frequency]
+          : (salary / 365) * periodDays
+      const prorated = employedDays < periodDays
+      lines.push({
+        kind: "salary",
+        description: prorated
+          ? `Salary (${employedDays} of ${periodDays} days)`
+          : `Salary (${payFrequencyLabels[frequency].toLowerCase()})`,
+        quantity: null,
+        rate: null,
+        amount: roundMoney((periodSalary * employedDays) / periodDays),
+      })
+    }
+  }
+
+  const miles = milesBetweenJobs(sessions, jobs)
+  if (miles > 0) {
+    if (settings.payTravelTime && payType !== "salary" && hourlyRate > 0) {
+      const hours = Math.round((miles / settings.travelSpeedMph) * 100) / 100
+      lines.push({
+        kind: "travel",
+        description: "Travel time between jobs",
+        quantity: hours,
+        rate: hourlyRate,
+        amount: roundMoney(hours * hourlyRate),
+      })
+    }
+    if (settings.mileageRate > 0) {
+      lines.push({
+        kind: "mileage",
+        description: "Mileage between jobs",
+        quantity: miles,
+        rate: settings.mileageRate,
+        amount: roundMoney(miles * settings.mileageRate),
+      })
+    }
+  }
+
+  return {
+    employeeId: employee.id,
+    payType,
+    hoursWorked: Math.round((workedMinutes / 60) * 100) / 100,
+    sessionsCount: new Set(sessions.map((session) => session.id)).size,
+    jobIds: jobs.map((job) => job.jobId),
+    lines,
+    warnings,
+  }
+}
+
+/**
+ * Pay for each employee over a range of dates, using the company's pay rules
+ */
+export async function calculatePay(
+  executor: DbExecutor,
+  companyId: number,
+  employees: Employee[],
+  frequency: PayFrequency,
+  period: PayPeriod,
+  settings: CompanyPayrollSettings,
+): Promise<PayCalculation[]> {
+  if (employees.length === 0) return []
+
+  const start = parseISO(period.start)
+  const end = addDays(parseISO(period.end), 1)
+  const employeeIds = employees.map((employee) => employee.id)
+  const { sessions, openSessions, unapprovedSessions } = await loadWorkedSessions(executor, employeeIds, start, end)
+  const jobs = await loadCompletedJobs(executor, companyId, employeeIds, start, end)
+
+  return employees.map((employee) =>
+    calculateEmployeePay(
+      employee,
+      frequency,
+      period,
+      sessions.filter((session) => session.employeeId === employee.id),
+      jobs.filter((job) => job.employeeId === employee.id),
+      openSessions.get(employee.id) ?? 0,
+      unapprovedSessions.get(employee.id) ?? 0,
+      settings,
+    ),
+  )
+}
+
+export function normalizeAdjustments(input: unknown): PayslipAdjustment[] {
+  if (!Array.isArray(input)) {
+    throw new PayrollError("Adjustments must be a list")
+  }
+  return input.map((item) => {
+    const description = typeof item?.description === "string" ? item.description.trim().slice(0, 200) : ""
+    if (!description) {
+      throw new PayrollError("Each adjustment needs a description")
+    }
+    const amount = roundMoney(Number(item?.amount))
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new PayrollError(`${description}: amount must be greater than zero`)
+    }
+    return {
+      id: typeof item?.id === "string" && item.id ? item.id : randomUUID(),
+      type: item?.type === "deduction" ? "deduction" : "addition",
+      description,
+      amount,
+    }
+  })
+}
+
+function payslipTotals(lines: PayslipLine[], adjustments: PayslipAdjustment[]) {
+  const earnings = lines.reduce((total, line) => total + line.amount, 0)
+  const additions = adjustments
+    .filter((adjustment) => adjustment.type === "addition")
+    .reduce((total, adjustment) => total + adjustment.amount, 0)
+  const deductions = adjustments
+    .filter((adjustment) => adjustment.type === "deduction")
+    .reduce((total, adjustment) => total + adjustment.amount, 0)
+  const grossPay = roundMoney(earnings + additions)
+  return {
+    grossPay: grossPay.toFixed(2),
+    deductions: roundMoney(deductions).toFixed(2),
+    netPay: roundMoney(grossPay - deductions).toFixed(2),
+  }
+}
+
+/**
+ * Employees paid at this frequency who were employed during the period. Leavers are
+ * included for the period their end date falls in.
+ */
+async function loadPayableEmployees(
+  executor: DbExecutor,
+  companyId: number,
+  frequency: PayFrequency,
+  period: PayPeriod,
+  settings: CompanyPayrollSettings,
+) {
+  const start = parseISO(period.start)
+  const end = parseISO(period.end)
+  const employees = await executor
+    .select()
+    .from(schema.employees)
+    .where(eq(schema.employees.companyId, companyId))
+
+  return employees.filter((employee) => {
+    if (resolvePayFrequency(employee.paymentFrequency, settings) !== frequency) return false
+    if (employee.startDate && startOfDay(employee.startDate) > end) return false
+    if (employee.status === "active") return true
+    return !!employee.endDate && employee.endDate >= start
+  })
+}
+
+async function updateRunTotals(tx: DbTransaction, runId: number) {
+  const rows = await tx
+    .select({ grossPay: schema.payslips.grossPay, deductions: schema.payslips.deductions, netPay: schema.payslips.netPay })
+    .from(schema.payslips)
+    .where(eq(schema.payslips.runId, runId))
+
+  const sum = (key: "grossPay" | "deductions" | "netPay") =>
+    roundMoney(rows.reduce((total, row) => total + parseFloat(row[key]), 0)).toFixed(2)
+
+  await tx
+    .update(schema.payrollRuns)
+    .set({ totalGross: sum("grossPay"), totalDeductions: sum("deductions"), totalNet: sum("netPay"), updatedAt: new Date() })
+    .where(eq(schema.payrollRuns.id, runId))
+}
+
+/**
+ * Rebuild a draft run's payslips from the latest work sessions and jobs, keeping manual adjustments.
+ * Employees with nothing to pay and nothing to check are left out.
+ */
+async function buildPayslips(tx: DbTransaction, run: PayrollRun, settings: CompanyPayrollSettings) {
+  const frequency = run.frequency as PayFrequency
+  const period = { start: run.periodStart, end: run.periodEnd }
+  const employees = await loadPayableEmployees(tx, run.companyId, frequency, period, settings)
+  const calculations = await calculatePay(tx, run.companyId, employees, frequency, period, settings)
+
+  const existing = await tx.select().from(schema.payslips).where(eq(schema.payslips.runId, run.id))
+  const existingByEmployee = new Map(existing.map((payslip) => [payslip.employeeId, payslip]))
+  const kept = new Set<number>()
+
+  for (const calculation of calculations) {
+    const previous = existingByEmployee.get(calculation.employeeId)
+    const adjustments = (previous?.adjustments as PayslipAdjustment[] | undefined) ?? []
+    if (calculation.lines.length === 0 && calculation.warnings.length === 0 && adjustments.length === 0) {
+      continue
+    }
+
+    const values = {
+      payType: calculation.payType,
+      hoursWorked: calculation.hoursWorked.toFixed(2),
+      jobIds: calculation.jobIds,
+      lines: calculation.lines,
+      adjustments,
+      warnings: calculation.warnings,
+      ...payslipTotals(calculation.lines, adjustments),
+    }
+
+    if (previous) {
+      await tx
+        .update(schema.payslips)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(schema.payslips.id, previous.id))
+    } else {
+      await tx.insert(schema.payslips).values({
+        companyId: run.companyId,
+        runId: run.id,
+        employeeId: calculation.employeeId,
+        ...values,
+      })
+    }
+    kept.add(calculation.employeeId)
+  }
+
+  const removed = existing.filter((payslip) => !kept.has(payslip.employeeId)).map((payslip) => payslip.id)
+  if (removed.length > 0) {
+    await tx.delete(schema.payslips).where(inArray(schema.payslips.id, removed))
+  }
+
+  await updateRunTotals(tx, run.id)
+}
+
+/**
+ * Load a run. Changes pass `forUpdate` so the run stays locked until their transaction ends and
+ * two of them (e.g. a double-clicked approval) can't both pass the status check.
+ */
+async function findRun(executor: DbExecutor, companyId: number, runId: number, forUpdate = false) {
+  const query = executor
+    .select()
+    .from(schema.payrollRuns)
+    .where(and(eq(schema.payrollRuns.id, runId), eq(schema.payrollRuns.companyId, companyId)))
+  const [run] = forUpdate ? await query.for("update") : await query
+  if (!run) {
+    throw new PayrollError("Payroll run not found", 404)
+  }
+  return run
+}
+
+function assertStatus(run: PayrollRun, status: PayrollRunStatus, action: string) {
+  if (run.status !== status) {
+    throw new PayrollError(`Only ${status} payroll runs can be ${action}`, 409)
+  }
+}
+
+export async function listPayrollRuns(companyId: number) {
+  const database = requireDb()
+  return database
+    .select()
+    .from(schema.payrollRuns)
+    .where(eq(schema.payrollRuns.companyId, companyId))
+    .orderBy(desc(schema.payrollRuns.periodStart), asc(schema.payrollRuns.frequency))
+}
+
+export async function getPayrollRun(companyId: number, runId: number) {
+  const database = requireDb()
+  const run = await findRun(database, companyId, runId)
+  const payslips = await database
+    .select({
+      payslip: schema.payslips,
+      employee: {
+        id: schema.employees.id,
+        firstName: schema.employees.firstName,
+        lastName: schema.employees.lastName,
+        role: schema.employees.role,
+      },
+    })
+    .from(schema.payslips)
+    .innerJoin(schema.employees, eq(schema.payslips.employeeId, schema.employees.id))
+    .where(eq(schema.payslips.runId, run.id))
+    .orderBy(asc(schema.employees.firstName), asc(schema.employees.lastName))
+
+  return {
+    ...run,
+    payslips: payslips.map(({ payslip, employee }) => ({ ...payslip, employee })),
+  }
+}
+
+/**
+ * Start a draft run for the pay period of `frequency` containing `date`
+ */
+export async function createPayrollRun(
+  companyId: number,
+  input: { frequency?: unknown; date?: unknown; notes?: unknown },
+  createdBy: number | null,
+) {
+  const database = requireDb()
+  if (!isPayFrequency(input.frequency)) {
+    throw new PayrollError("Choose a weekly, bi-weekly or monthly pay period")
+  }
+  const frequency = input.frequency
+  const date = typeof input.date === "string" ? parseISO(input.date) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new PayrollError("A date within the pay period is required")
+  }
+
+  const settings = await getPayrollSettings(database, companyId)
+  const period = getPayPeriod(frequency, date, settings)
+
+  const [existing] = await database
+    .select({ id: schema.payrollRuns.id })
+    .from(schema.payrollRuns)
+    .where(
+      and(
+        eq(schema.payrollRuns.companyId, companyId),
+        eq(schema.payrollRuns.frequency, frequency),
+        eq(schema.payrollRuns.periodStart, period.start),
+      ),
+    )
+  if (existing) {
+    throw new PayrollError("There is already a payroll run for this pay period", 409)
+  }
+
+  const runId = await database.transaction(async (tx) => {
+    const [run] = await tx
+      .insert(schema.payrollRuns)
+      .values({
+        companyId,
+        frequency,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency: settings.currency,
+        notes: typeof input.notes === "string" && input.notes.trim() ? input.notes.trim() : null,
+        createdBy,
+      })
+      .returning()
+    await buildPayslips(tx, run, settings)
+    return run.id
+  })
+
+  return getPayrollRun(companyId, runId)
+}
+
+export async function recalculatePayrollRun(companyId: number, runId: number) {
+  const database = requireDb()
+  await database.transaction(async (tx) => {
+    const run = await findRun(tx, companyId, runId, true)
+    assertStatus(run, "draft", "recalculated")
+    const settings = await getPayrollSettings(tx, companyId)
+    await buildPayslips(tx, run, settings)
+  })
+  return getPayrollRun(companyId, runId)
+}
+
+export async function updatePayslipAdjustments(companyId: number, payslipId: number, input: unknown) {
+  const database = requireDb()
+  const adjustments = normalizeAdjustments(input)
+
+  return database.transaction(async (tx) => {
+    const [payslip] = await tx
+      .select()
+      .from(schema.payslips)
+      .where(and(eq(schema.payslips.id, payslipId), eq(schema.payslips.companyId, companyId)))
+    if (!payslip) {
+      throw new PayrollError("Payslip not found", 404)
+    }
+    const run = await findRun(tx, companyId, payslip.runId, true)
+    assertStatus(run, "draft", "adjusted")
+
+    const [updated] = await tx
+      .update(schema.payslips)
+      .set({
+        adjustments,
+        ...payslipTotals(payslip.lines as PayslipLine[], adjustments),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.payslips.id, payslip.id))
+      .returning()
+    await updateRunTotals(tx, run.id)
+    return updated
+  })
+}
+
+/**
+ * Lock a draft run and create a pending payout for each payslip
+ */
+export async function approvePayrollRun(companyId: number, runId: number, approvedBy: number | null) {
+  const database = requireDb()
+  await database.transaction(async (tx) => {
+    const run = await findRun(tx, companyId, runId, true)
+    assertStatus(run, "draft", "approved")
+
+    const payslips = await tx.select().from(schema.payslips).where(eq(schema.payslips.runId, run.id))
+    if (payslips.length === 0) {
+      throw new PayrollError("This payroll run has no payslips")
+    }
+    const negative = payslips.find((payslip) => parseFloat(payslip.netPay) < 0)
+    if (negative) {
+      throw new PayrollError("Deductions can't be more than gross pay; check the adjustments before approving")
+    }
+
+    const periodStart = parseISO(run.periodStart)
+    const periodEnd = new Date(addDays(parseISO(run.periodEnd), 1).getTime() - 1)
+
+    for (const payslip of payslips) {
+      const jobIds = payslip.jobIds as number[]
+      const [payout] = await tx
+        .insert(schema.employeePayouts)
+        .values({
+          companyId,
+          employeeId: payslip.employeeId,
+          amount: payslip.netPay,
+          currency: run.currency,
+          periodStart,
+          periodEnd,
+          jobIds: JSON.stringify(jobIds),
+          jobCount: jobIds.length,
+          status: "pending",
+          notes: `Payroll run ${run.periodStart} to ${run.periodEnd}`,
+          createdBy: approvedBy,
+        })
+        .returning({ id: schema.employeePayouts.id })
+
+      await tx
+        .update(schema.payslips)
+        .set({ payoutId: payout.id, updatedAt: new Date() })
+        .where(eq(schema.payslips.id, payslip.id))
+    }
+
+    await tx
+      .update(schema.payrollRuns)
+      .set({ status: "approved", approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+      .where(eq(schema.payrollRuns.id, run.id))
+  })
+  return getPayrollRun(companyId, runId)
+}
+
+/**
+ * Record that an approved run has been paid, marking its payouts paid
+ */
+export async function markPayrollRunPaid(
+  companyId: number,
+  runId: number,
+  input: { paymentMethod?: unknown; transactionReference?: unknown; paidAt?: unknown },
+) {
+  const database = requireDb()
+  const paidAt = typeof input.paidAt === "string" && input.paidAt ? new Date(input.paidAt) : new Date()
+  if (Number.isNaN(paidAt.getTime())) {
+    throw new PayrollError("Invalid payment date")
+  }
+  const paymentMethod =
+    typeof input.paymentMethod === "string" && input.paymentMethod.trim() ? input.paymentMethod.trim() : "bank_transfer"
+  const transactionReference =
+    typeof input.transactionReference === "string" && input.transactionReference.trim()
+      ? input.transactionReference.trim()
+      : null
+
+  await database.transaction(async (tx) => {
+    const run = await findRun(tx, companyId, runId, true)
+    assertStatus(run, "approved", "marked as paid")
+
+    const payoutIds = (
+      await tx
+        .select({ payoutId: schema.payslips.payoutId })
+        .from(schema.payslips)
+        .where(eq(schema.payslips.runId, run.id))
+    )
+      .map((row) => row.payoutId)
+      .filter((id): id is number => id !== null)
+
+    if (payoutIds.length > 0) {
+      await tx
+        .update(schema.employeePayouts)
+        .set({ status: "paid", paidAt, paymentMethod, transactionReference, updatedAt: new Date() })
+        .where(inArray(schema.employeePayouts.id, payoutIds))
+    }
+
+    await tx
+      .update(schema.payrollRuns)
+      .set({ status: "paid", paidAt, updatedAt: new Date() })
+      .where(eq(schema.payrollRuns.id, run.id))
+  })
+  return getPayrollRun(companyId, runId)
+}
+
+export async function deletePayrollRun(companyId: number, runId: number) {
+  const database = requireDb()
+  const run = await findRun(database, companyId, runId)
+  assertStatus(run, "draft", "deleted")
+  await database.delete(schema.payrollRuns).where(eq(schema.payrollRuns.id, run.id))
+}
+
+function toPdfData(
+  payslip: Payslip,
+  run: PayrollRun,
+  employee: { firstName: string; lastName: string; role: string | null },
+  company: { name: string; address: string | null; city: string | null; postcode: string | null },
+): PayslipPdfData {
+  const adjustments = payslip.adjustments as PayslipAdjustment[]
+  return {
+    reference: `PAYSLIP-${run.periodEnd}-${payslip.employeeId}`,
+    periodStart: run.periodStart,
+    periodEnd: run.periodEnd,
+    paidAt: run.paidAt?.toISOString() ?? null,
+    status: run.status,
+    currency: run.currency,
+    payType: payTypeLabels[resolvePayType(payslip.payType)],
+    company,
+    employee: { name: `${employee.firstName} ${employee.lastName}`.trim(), role: employee.role },
+    hoursWorked: payslip.hoursWorked,
+    earnings: [
+      ...(payslip.lines as PayslipLine[]).map(({ description, quantity, rate, amount }) => ({
+        description,
+        quantity,
+        rate,
+        amount,
+      })),
+      ...adjustments
+        .filter((adjustment) => adjustment.type === "addition")
+        .map(({ description, amount }) => ({ description, quantity: null, rate: null, amount })),
+    ],
+    deductions: adjustments
+      .filter((adjustment) => adjustment.type === "deduction")
+      .map(({ description, amount }) => ({ description, amount })),
+    grossPay: payslip.grossPay,
+    totalDeductions: payslip.deductions,
+    netPay: payslip.netPay,
+  }
+}
+
+/**
+ * Data for a payslip PDF. Pass an employee ID to only return that employee's payslips from
+ * approved or paid runs, as shown in the employee app.
+ */
+export async function getPayslipPdfData(
+  companyId: number,
+  payslipId: number,
+  employeeId?: number,
+): Promise<PayslipPdfData | null> {
+  const database = requireDb()
+  const [row] = await database
+    .select({
+      payslip: schema.payslips,
+      run: schema.payrollRuns,
+      employee: {
+        firstName: schema.employees.firstName,
+        lastName: schema.employees.lastName,
+        role: schema.employees.role,
+      },
+      company: {
+        name: schema.companies.name,
+        address: schema.companies.address,
+        city: schema.companies.city,
+        postcode: schema.companies.postcode,
+      },
+    })
+    .from(schema.payslips)
+    .innerJoin(schema.payrollRuns, eq(schema.payslips.runId, schema.payrollRuns.id))
+    .innerJoin(schema.employees, eq(schema.payslips.employeeId, schema.employees.id))
+    .innerJoin(schema.companies, eq(schema.payslips.companyId, schema.companies.id))
+    .where(
+      and(
+        eq(schema.payslips.id, payslipId),
+        eq(schema.payslips.companyId, companyId),
+        employeeId !== undefined ? eq(schema.payslips.employeeId, employeeId) : undefined,
+        employeeId !== undefined ? ne(schema.payrollRuns.status, "draft") : undefined,
+      ),
+    )
+
+  return row ? toPdfData(row.payslip, row.run, row.employee, row.company) : null
+}
+
+/**
+ * An employee's payslips from approved and paid runs, newest first
+ */
+export async function listEmployeePayslips(companyId: number, employeeId: number, limit = 24) {
+  const database = requireDb()
+  return database
+    .select({
+      id: schema.payslips.id,
+      periodStart: schema.payrollRuns.periodStart,
+      periodEnd: schema.payrollRuns.periodEnd,
+      status: schema.payrollRuns.status,
+      paidAt: schema.payrollRuns.paidAt,
+      currency: schema.payrollRuns.currency,
+      grossPay: schema.payslips.grossPay,
+      deductions: schema.payslips.deductions,
+      netPay: schema.payslips.netPay,
+    })
+    .from(schema.payslips)
+    .innerJoin(schema.payrollRuns, eq(schema.payslips.runId, schema.payrollRuns.id))
+    .where(
+      and(
+        eq(schema.payslips.companyId, companyId),
+        eq(schema.payslips.employeeId, employeeId),
+        ne(schema.payrollRuns.status, "draft"),
+      ),
+    )
+    .orderBy(desc(schema.payrollRuns.periodStart))
+    .limit(limit)
+}
@@ -1,5 +1,6 @@
 import jsPDF from "jspdf"
 import autoTable from "jspdf-autotable"
+import { REVERSE_CHARGE_NOTICE } from "@/lib/vat-settings"
 
 interface InvoiceData {
   invoiceNumber: string
@@ -13,6 +14,7 @@ interface InvoiceData {
     address?: string | null
     city?: string | null
     postcode?: string | null
+    vatNumber?: string | null
   }
   customer: {
     name: string
@@ -28,14 +30,29 @@ interface InvoiceData {
     quantity: string
     unitPrice: string
     amount: string
+    // Per-line VAT; absent on lines from before per-line rates
+    taxRate?: string | null
+    taxAmount?: string | null
   }>
   subtotal: string
   taxRate: string
   taxAmount: string
   discountAmount: string
   total: string
+  // Credit notes issued against the invoice, shown under the total
+  amountCredited?: string | null
+  // Line amounts include VAT
+  pricesIncludeVat?: boolean
+  reverseCharge?: boolean
   notes?: string | null
   terms?: string | null
+  // Overrides used when the same layout renders a credit note or quote
+  documentTitle?: string
+  totalLabel?: string
+  dueLabel?: string
+  reference?: string | null
+  // Fixed when the PDF must render the same bytes each time, as for signing
+  generatedAt?: Date
 }
 
 /**
@@ -75,12 +92,16 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
     doc.text(`${invoice.company.city || ""} ${invoice.company.postcode || ""}`.trim(), 20, yPos)
     yPos += 5
   }
+  if (invoice.company.vatNumber) {
+    doc.text(`VAT No: ${invoice.company.vatNumber}`, 20, yPos)
+    yPos += 5
+  }
 
   // Invoice Title and Number (Right side)
   doc.setFontSize(28)
   doc.setTextColor(...primaryColor)
   doc.setFont("helvetica", "bold")
-  doc.text("INVOICE", 200, 20, { align: "right" })
+  doc.text(invoice.documentTitle || "INVOICE", 200, 20, { align: "right" })
   
   doc.setFontSize(12)
   doc.setTextColor(...textColor)
@@ -94,6 +115,10 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
     paid: [34, 197, 94],
     overdue: [239, 68, 68],
     cancelled: [107, 114, 128],
+    credited: [107, 114, 128],
+    void: [107, 114, 128],
+    issued: [59, 130, 246],
+    refunded: [34, 197, 94],
   }
   const statusColor = statusColors[invoice.status] || statusColors.draft
   doc.setFillColor(...statusColor)
@@ -150,25 +175,41 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
   
   if (invoice.dueAt) {
     doc.setFont("helvetica", "bold")
-    doc.text("Due Date:", detailsX, detailsY)
+    doc.text(invoice.dueLabel || "Due Date:", detailsX, detailsY)
     doc.setFont("helvetica", "normal")
     doc.text(new Date(invoice.dueAt).toLocaleDateString(), detailsX + 30, detailsY)
     detailsY += 6
   }
 
+  if (invoice.reference) {
+    doc.setFont("helvetica", "bold")
+    doc.text("Reference:", detailsX, detailsY)
+    doc.setFont("helvetica", "normal")
+    const referenceLines = doc.splitTextToSize(invoice.reference, 50)
+    doc.text(referenceLines, detailsX + 30, detailsY)
+    detailsY += referenceLines.length * 5 + 1
+  }
+
   yPos = Math.max(yPos, detailsY) + 10
 
-  // Line Items Table
+  // Line Items Table, with a VAT column once lines carry their own rate
+  const hasLineVat = invoice.items.some((item) => item.taxRate !== null && item.taxRate !== undefined)
+  const amountHeader = invoice.pricesIncludeVat ? "Amount (inc. VAT)" : "Amount"
   const tableData = invoice.items.map((item) => [
     item.title + (item.description ? `\n${item.description}` : ""),
     item.quantity,
     `£${parseFloat(item.unitPrice).toFixed(2)}`,
+    ...(hasLineVat ? [`${parseFloat(item.taxRate || "0")}%`] : []),
     `£${parseFloat(item.amount).toFixed(2)}`,
   ])
 
   autoTable(doc, {
     startY: yPos,
-    head: [["Description", "Qty", "Unit Price", "Amount"]],
+    head: [
+      hasLineVat
+        ? ["Description", "Qty", "Unit Price", "VAT", amountHeader]
+        : ["Description", "Qty", "Unit Price", amountHeader],
+    ],
     body: tableData,
     theme: "striped",
     headStyles: {
@@ -181,12 +222,20 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
       fontSize: 10,
       cellPadding: 5,
     },
-    columnStyles: {
-      0: { cellWidth: 90 },
-      1: { cellWidth: 20, halign: "center" },
-      2: { cellWidth: 35, halign: "right" },
-      3: { cellWidth: 35, halign: "right" },
-    },
+    columnStyles: hasLineVat
+      ? {
+          0: { cellWidth: 75 },
+          1: { cellWidth: 20, halign: "center" },
+          2: { cellWidth: 30, halign: "right" },
+          3: { cellWidth: 20, halign: "center" },
+          4: { cellWidth: 35, halign: "right" },
+        }
+      : {
+          0: { cellWidth: 90 },
+          1: { cellWidth: 20, halign: "center" },
+          2: { cellWidth: 35, halign: "right" },
+          3: { cellWidth: 35, halign: "right" },
+        },
   })
 
   // Get Y position after table
@@ -197,11 +246,29 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
   doc.setFont("helvetica", "normal")
   doc.setFontSize(10)
   
-  doc.text("Subtotal:", totalsX, yPos)
+  doc.text(invoice.pricesIncludeVat ? "Subtotal (excl. VAT):" : "Subtotal:", totalsX, yPos)
   doc.text(`£${parseFloat(invoice.subtotal).toFixed(2)}`, 200, yPos, { align: "right" })
   yPos += 6
 
-  if (parseFloat(invoice.taxRate) > 0) {
+  if (invoice.reverseCharge) {
+    doc.text("VAT (reverse charge):", totalsX, yPos)
+    doc.text("£0.00", 200, yPos, { align: "right" })
+    yPos += 6
+  } else if (hasLineVat) {
+    // One line per VAT rate charged
+    const vatByRate = new Map<number, number>()
+    for (const item of invoice.items) {
+      const rate = parseFloat(item.taxRate || "0")
+      if (rate > 0) {
+        vatByRate.set(rate, (vatByRate.get(rate) ?? 0) + parseFloat(item.taxAmount || "0"))
+      }
+    }
+    for (const [rate, amount] of [...vatByRate.entries()].sort((a, b) => b[0] - a[0])) {
+      doc.text(`VAT @ ${rate}%:`, totalsX, yPos)
+      doc.text(`£${amount.toFixed(2)}`, 200, yPos, { align: "right" })
+      yPos += 6
+    }
+  } else if (parseFloat(invoice.taxRate) > 0) {
     doc.text(`Tax (${invoice.taxRate}%):`, totalsX, yPos)
     doc.text(`£${parseFloat(invoice.taxAmount).toFixed(2)}`, 200, yPos, { align: "right" })
     yPos += 6
@@ -221,11 +288,32 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
   
   doc.setFont("helvetica", "bold")
   doc.setFontSize(12)
-  doc.text("Total:", totalsX, yPos)
+  doc.text(invoice.totalLabel || "Total:", totalsX, yPos)
   doc.text(`£${parseFloat(invoice.total).toFixed(2)}`, 200, yPos, { align: "right" })
 
+  const amountCredited = parseFloat(invoice.amountCredited || "0")
+  if (amountCredited > 0) {
+    yPos += 7
+    doc.setFont("helvetica", "normal")
+    doc.setFontSize(10)
+    doc.text("Credited:", totalsX, yPos)
+    doc.text(`-£${amountCredited.toFixed(2)}`, 200, yPos, { align: "right" })
+    yPos += 6
+    doc.setFont("helvetica", "bold")
+    doc.text("Net total:", totalsX, yPos)
+    doc.text(`£${(parseFloat(invoice.total) - amountCredited).toFixed(2)}`, 200, yPos, { align: "right" })
+  }
+
   yPos += 15
 
+  if (invoice.reverseCharge) {
+    doc.setFont("helvetica", "bold")
+    doc.setFontSize(10)
+    const noticeLines = doc.splitTextToSize(REVERSE_CHARGE_NOTICE, 170)
+    doc.text(noticeLines, 20, yPos)
+    yPos += noticeLines.length * 5 + 5
+  }
+
   // Notes
   if (invoice.notes) {
     doc.setFont("helvetica", "bold")
@@ -243,7 +331,7 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
   if (invoice.terms) {
     doc.setFont("helvetica", "bold")
     doc.setFontSize(10)
-    doc.text("Payment Terms:", 20, yPos)
+    doc.text(invoice.documentTitle ? "Terms:" : "Payment Terms:", 20, yPos)
     yPos += 6
     doc.setFont("helvetica", "normal")
     doc.setFontSize(9)
@@ -255,7 +343,7 @@ export function generateInvoicePDF(invoice: InvoiceData): jsPDF {
   doc.setFontSize(8)
   doc.setTextColor(128, 128, 128)
   doc.text(
-    `Generated on ${new Date().toLocaleDateString()} | ${invoice.company.name}`,
+    `Generated on ${(invoice.generatedAt || new Date()).toLocaleDateString()} | ${invoice.company.name}`,
     105,
     285,
     { align: "center" }
@@ -272,6 +360,232 @@ export function downloadInvoicePDF(invoice: InvoiceData) {
   doc.save(`${invoice.invoiceNumber}.pdf`)
 }
 
+export interface CreditNotePdfData {
+  creditNoteNumber: string
+  invoiceNumber: string
+  issuedAt: string | null
+  status: string
+  reason?: string | null
+  company: InvoiceData["company"]
+  customer: InvoiceData["customer"]
+  items: InvoiceData["items"]
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  total: string
+  pricesIncludeVat?: boolean
+  reverseCharge?: boolean
+}
+
+/**
+ * Generate a credit note PDF, laid out like the invoice it corrects
+ */
+export function generateCreditNotePDF(creditNote: CreditNotePdfData): jsPDF {
+  return generateInvoicePDF({
+    invoiceNumber: creditNote.creditNoteNumber,
+    issuedAt: creditNote.issuedAt,
+    dueAt: null,
+    status: creditNote.status,
+    company: creditNote.company,
+    customer: creditNote.customer,
+    items: creditNote.items,
+    subtotal: creditNote.subtotal,
+    taxRate: creditNote.taxRate,
+    taxAmount: creditNote.taxAmount,
+    discountAmount: "0",
+    total: creditNote.total,
+    pricesIncludeVat: creditNote.pricesIncludeVat,
+    reverseCharge: creditNote.reverseCharge,
+    notes: creditNote.reason ? `Reason: ${creditNote.reason}` : null,
+    terms: `This credit note reduces the amount owed on invoice ${creditNote.invoiceNumber}.`,
+    documentTitle: "CREDIT NOTE",
+    totalLabel: "Total credit:",
+    reference: creditNote.invoiceNumber,
+  })
+}
+
+/**
+ * Download credit note as PDF
+ */
+export function downloadCreditNotePDF(creditNote: CreditNotePdfData) {
+  const doc = generateCreditNotePDF(creditNote)
+  doc.save(`${creditNote.creditNoteNumber}.pdf`)
+}
+
+export interface PayslipPdfData {
+  reference: string
+  periodStart: string
+  periodEnd: string
+  paidAt: string | null
+  status: string
+  currency: string
+  payType: string
+  company: {
+    name: string
+    address?: string | null
+    city?: string | null
+    postcode?: string | null
+  }
+  employee: {
+    name: string
+    role?: string | null
+  }
+  hoursWorked: string
+  earnings: Array<{
+    description: string
+    quantity: number | null
+    rate: number | null
+    amount: number
+  }>
+  deductions: Array<{
+    description: string
+    amount: number
+  }>
+  grossPay: string
+  totalDeductions: string
+  netPay: string
+}
+
+/**
+ * Generate a payslip PDF: earnings, deductions and net pay for one pay period
+ */
+export function generatePayslipPDF(payslip: PayslipPdfData): jsPDF {
+  const doc = new jsPDF()
+  const primaryColor: [number, number, number] = [79, 70, 229]
+  const textColor: [number, number, number] = [26, 26, 26]
+  const money = (value: number | string) =>
+    new Intl.NumberFormat("en-GB", { style: "currency", currency: payslip.currency }).format(
+      typeof value === "number" ? value : parseFloat(value),
+    )
+  const formatDate = (value: string) => new Date(value).toLocaleDateString("en-GB")
+
+  let yPos = 20
+
+  doc.setFontSize(20)
+  doc.setTextColor(...primaryColor)
+  doc.setFont("helvetica", "bold")
+  doc.text(payslip.company.name, 20, yPos)
+
+  doc.setFontSize(24)
+  doc.text("PAYSLIP", 200, yPos, { align: "right" })
+
+  yPos += 8
+  doc.setFontSize(10)
+  doc.setTextColor(...textColor)
+  doc.setFont("helvetica", "normal")
+  if (payslip.company.address) {
+    doc.text(payslip.company.address, 20, yPos)
+    yPos += 5
+  }
+  if (payslip.company.city || payslip.company.postcode) {
+    doc.text(`${payslip.company.city || ""} ${payslip.company.postcode || ""}`.trim(), 20, yPos)
+    yPos += 5
+  }
+  doc.text(payslip.reference, 200, 28, { align: "right" })
+
+  yPos = Math.max(yPos, 40) + 5
+
+  // Employee and period
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(11)
+  doc.text(payslip.employee.name, 20, yPos)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  if (payslip.employee.role) {
+    doc.text(payslip.employee.role, 20, yPos + 5)
+  }
+
+  const detailsX = 120
+  const details: Array<[string, string]> = [
+    ["Pay period:", `${formatDate(payslip.periodStart)} - ${formatDate(payslip.periodEnd)}`],
+    ["Pay date:", payslip.paidAt ? formatDate(payslip.paidAt) : "Not yet paid"],
+    ["Pay type:", payslip.payType],
+    ["Hours worked:", payslip.hoursWorked],
+  ]
+  details.forEach(([label, value], index) => {
+    doc.setFont("helvetica", "bold")
+    doc.text(label, detailsX, yPos + index * 6)
+    doc.setFont("helvetica", "normal")
+    doc.text(value, detailsX + 30, yPos + index * 6)
+  })
+
+  yPos += details.length * 6 + 8
+
+  autoTable(doc, {
+    startY: yPos,
+    head: [["Earnings", "Qty", "Rate", "Amount"]],
+    body: payslip.earnings.map((line) => [
+      line.description,
+      line.quantity === null ? "" : line.quantity.toFixed(2),
+      line.rate === null ? "" : money(line.rate),
+      money(line.amount),
+    ]),
+    theme: "striped",
+    headStyles: { fillColor: primaryColor, textColor: [255, 255, 255], fontStyle: "bold", fontSize: 10 },
+    styles: { fontSize: 10, cellPadding: 4 },
+    columnStyles: {
+      0: { cellWidth: 90 },
+      1: { cellWidth: 20, halign: "center" },
+      2: { cellWidth: 35, halign: "right" },
+      3: { cellWidth: 35, halign: "right" },
+    },
+  })
+  yPos = (doc as any).lastAutoTable.finalY + 8
+
+  if (payslip.deductions.length > 0) {
+    autoTable(doc, {
+      startY: yPos,
+      head: [["Deductions", "Amount"]],
+      body: payslip.deductions.map((line) => [line.description, money(line.amount)]),
+      theme: "striped",
+      headStyles: { fillColor: primaryColor, textColor: [255, 255, 255], fontStyle: "bold", fontSize: 10 },
+      styles: { fontSize: 10, cellPadding: 4 },
+      columnStyles: {
+        0: { cellWidth: 145 },
+        1: { cellWidth: 35, halign: "right" },
+      },
+    })
+    yPos = (doc as any).lastAutoTable.finalY + 8
+  }
+
+  const totalsX = 140
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  doc.text("Gross pay:", totalsX, yPos)
+  doc.text(money(payslip.grossPay), 200, yPos, { align: "right" })
+  yPos += 6
+  doc.text("Deductions:", totalsX, yPos)
+  doc.text(`-${money(payslip.totalDeductions)}`, 200, yPos, { align: "right" })
+  yPos += 3
+
+  doc.setDrawColor(...primaryColor)
+  doc.setLineWidth(0.5)
+  doc.line(totalsX, yPos, 200, yPos)
+  yPos += 7
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(12)
+  doc.text("Net pay:", totalsX, yPos)
+  doc.text(money(payslip.netPay), 200, yPos, { align: "right" })
+
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(8)
+  doc.setTextColor(128, 128, 128)
+  doc.text(`Generated on ${new Date().toLocaleDateString("en-GB")} | ${payslip.company.name}`, 105, 285, {
+    align: "center",
+  })
+
+  return doc
+}
+
+/**
+ * Download payslip as PDF
+ */
+export function downloadPayslipPDF(payslip: PayslipPdfData) {
+  const doc = generatePayslipPDF(payslip)
+  doc.save(`${payslip.reference}.pdf`)
+}
+
 interface ContractPdfData {
   contractNumber: string
   title: string
@@ -296,6 +610,7 @@ interface ContractPdfData {
     city?: string | null
     postcode?: string | null
   }
+  generatedAt?: Date
 }
 
 export function generateContractPDF(contract: ContractPdfData): jsPDF {
@@ -349,7 +664,151 @@ export function generateContractPDF(contract: ContractPdfData): jsPDF {
   }
 
   doc.setFontSize(9)
-  doc.text(`Generated on ${new Date().toLocaleDateString("en-GB")}`, 20, 280)
+  doc.text(`Generated on ${(contract.generatedAt || new Date()).toLocaleDateString("en-GB")}`, 20, 280)
+
+  return doc
+}
+
+export interface QuotePdfData {
+  quoteNumber: string
+  title: string
+  createdAt: string | null
+  validUntil: string | null
+  status: string
+  company: InvoiceData["company"]
+  customer: InvoiceData["customer"]
+  items: InvoiceData["items"]
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discountAmount: string
+  total: string
+  notes?: string | null
+  terms?: string | null
+  generatedAt?: Date
+}
+
+/**
+ * Generate a quote PDF, laid out like an invoice
+ */
+export function generateQuotePDF(quote: QuotePdfData): jsPDF {
+  return generateInvoicePDF({
+    invoiceNumber: quote.quoteNumber,
+    issuedAt: quote.createdAt,
+    dueAt: quote.validUntil,
+    status: quote.status,
+    company: quote.company,
+    customer: quote.customer,
+    items: quote.items,
+    subtotal: quote.subtotal,
+    taxRate: quote.taxRate,
+    taxAmount: quote.taxAmount,
+    discountAmount: quote.discountAmount,
+    total: quote.total,
+    notes: quote.notes,
+    terms: quote.terms,
+    documentTitle: "QUOTE",
+    dueLabel: "Valid Until:",
+    reference: quote.title,
+    generatedAt: quote.generatedAt,
+  })
+}
+
+export interface SignatureCertificateData {
+  documentTitle: string
+  documentNumber: string
+  companyName: string
+  // SHA-256 of the document as issued, before this page was added
+  documentHash: string
+  signatureType: "drawn" | "typed"
+  // PNG data URL for drawn signatures
+  signatureData: string
+  signerName: string
+  signerEmail?: string | null
+  signingMethod: string
+  ipAddress?: string | null
+  userAgent?: string | null
+  issuedAt: Date
+  signedAt: Date
+  reference: string
+}
+
+/**
+ * Append an audit certificate page recording who signed the document, when, from where, and the
+ * hash of the pages above it
+ */
+export function addSignatureCertificatePage(doc: jsPDF, certificate: SignatureCertificateData): jsPDF {
+  const formatTimestamp = (date: Date) => `${date.toISOString().replace("T", " ").slice(0, 19)} UTC`
+
+  doc.addPage()
+  doc.setTextColor(26, 26, 26)
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(18)
+  doc.text("SIGNATURE CERTIFICATE", 105, 20, { align: "center" })
+
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  doc.text(`${certificate.documentTitle} ${certificate.documentNumber} | ${certificate.companyName}`, 105, 28, {
+    align: "center",
+  })
+
+  let yPos = 45
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(12)
+  doc.text("Signature", 20, yPos)
+  yPos += 5
+
+  doc.setDrawColor(200, 200, 200)
+  doc.rect(20, yPos, 90, 35)
+  if (certificate.signatureType === "drawn") {
+    doc.addImage(certificate.signatureData, "PNG", 22, yPos + 2, 86, 31)
+  } else {
+    doc.setFont("times", "italic")
+    doc.setFontSize(22)
+    doc.text(certificate.signatureData, 65, yPos + 21, { align: "center", maxWidth: 86 })
+  }
+  yPos += 45
+
+  const rows: Array<[string, string]> = [
+    ["Signed by", certificate.signerName],
+    ["Email", certificate.signerEmail || "Not given"],
+    ["Signature", certificate.signatureType === "drawn" ? "Drawn by the signer" : "Typed by the signer"],
+    ["Signed", formatTimestamp(certificate.signedAt)],
+    ["Signed via", certificate.signingMethod === "portal" ? "Customer portal" : "Signing link"],
+    ["IP address", certificate.ipAddress || "Unknown"],
+    ["Device", certificate.userAgent || "Unknown"],
+    ["Issued for signing", formatTimestamp(certificate.issuedAt)],
+    ["Reference", certificate.reference],
+  ]
+
+  doc.setFontSize(10)
+  for (const [label, value] of rows) {
+    doc.setFont("helvetica", "bold")
+    doc.text(`${label}:`, 20, yPos)
+    doc.setFont("helvetica", "normal")
+    const lines = doc.splitTextToSize(value, 130)
+    doc.text(lines, 65, yPos)
+    yPos += lines.length * 5 + 2
+  }
+
+  yPos += 6
+  doc.setFont("helvetica", "bold")
+  doc.text("Document SHA-256:", 20, yPos)
+  doc.setFont("courier", "normal")
+  doc.setFontSize(9)
+  doc.text(certificate.documentHash, 20, yPos + 6)
+
+  yPos += 18
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(9)
+  doc.setTextColor(107, 107, 107)
+  const statement = doc.splitTextToSize(
+    "The signer confirmed their name and agreed to sign this document electronically. The hash above is of the " +
+      "document as issued for signing, before this certificate was added, and was checked against the document " +
+      "at the time of signing.",
+    170,
+  )
+  doc.text(statement, 20, yPos)
 
   return doc
 }
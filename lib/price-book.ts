@@ -0,0 +1,161 @@
+export interface PriceBookAddOn {
+  key: string
+  label: string
+  price: number
+}
+
+export interface CompanyPriceBook {
+  // Starting price of each service, by booking page service type
+  servicePrices: Record<string, number>
+  // Charged for every bedroom and bathroom beyond those included in the base price
+  perBedroom: number
+  perBathroom: number
+  includedBedrooms: number
+  includedBathrooms: number
+  // Charged per square foot over the included size; 0 turns size pricing off
+  perSquareFoot: number
+  includedSquareFeet: number
+  // Optional extras customers can add to a clean
+  addOns: PriceBookAddOn[]
+  // Percentage off each visit, by booking frequency
+  frequencyDiscounts: Record<string, number>
+  // Least a single visit is charged, before any area surcharge; 0 means no minimum
+  minimumCharge: number
+}
+
+export const priceBookServiceLabels: Record<string, string> = {
+  regular: "Regular Cleaning",
+  deep_clean: "Deep Cleaning",
+  move_in: "Move-In Cleaning",
+  move_out: "Move-Out Cleaning",
+  one_time: "One-Time Cleaning",
+  spring_clean: "Spring Cleaning",
+}
+
+export const priceBookFrequencyLabels: Record<string, string> = {
+  one_time: "One time",
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+}
+
+export const PRICE_BOOK_FREQUENCIES = Object.keys(priceBookFrequencyLabels)
+
+export const MAX_PRICE_BOOK_ADD_ONS = 20
+
+export const defaultServicePrices: Record<string, number> = {
+  regular: 50,
+  deep_clean: 120,
+  move_in: 150,
+  move_out: 150,
+  one_time: 70,
+  spring_clean: 180,
+}
+
+export const defaultPriceBookAddOns: PriceBookAddOn[] = [
+  { key: "oven", label: "Oven clean", price: 35 },
+  { key: "windows", label: "Interior windows", price: 25 },
+  { key: "fridge", label: "Inside the fridge", price: 20 },
+]
+
+export const defaultFrequencyDiscounts: Record<string, number> = {
+  one_time: 0,
+  weekly: 0,
+  biweekly: 0,
+  monthly: 0,
+}
+
+export const defaultPriceBook: CompanyPriceBook = {
+  servicePrices: defaultServicePrices,
+  perBedroom: 15,
+  perBathroom: 10,
+  includedBedrooms: 0,
+  includedBathrooms: 0,
+  perSquareFoot: 0,
+  includedSquareFeet: 0,
+  addOns: defaultPriceBookAddOns,
+  frequencyDiscounts: defaultFrequencyDiscounts,
+  minimumCharge: 0,
+}
+
+function normalizeAmount(value: unknown, fallback: number, min: number, max: number) {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value))
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.round(Math.min(max, Math.max(min, parsed)) * 100) / 100
+}
+
+function normalizeCount(value: unknown, fallback: number, min: number, max: number) {
+  return Math.round(normalizeAmount(value, fallback, min, max))
+}
+
+export function addOnKey(label: string) {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40)
+}
+
+function normalizeAddOns(raw: unknown): PriceBookAddOn[] {
+  if (!Array.isArray(raw)) return defaultPriceBookAddOns.map((addOn) => ({ ...addOn }))
+
+  const addOns: PriceBookAddOn[] = []
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue
+    const label = typeof item.label === "string" ? item.label.trim().slice(0, 80) : ""
+    if (!label) continue
+    const key = typeof item.key === "string" && item.key.trim() ? addOnKey(item.key) : addOnKey(label)
+    if (!key || addOns.some((addOn) => addOn.key === key)) continue
+    addOns.push({ key, label, price: normalizeAmount(item.price, 0, 0, 10000) })
+    if (addOns.length >= MAX_PRICE_BOOK_ADD_ONS) break
+  }
+  return addOns
+}
+
+export function normalizePriceBook(raw: unknown): CompanyPriceBook {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return {
+      ...defaultPriceBook,
+      servicePrices: { ...defaultServicePrices },
+      addOns: defaultPriceBookAddOns.map((addOn) => ({ ...addOn })),
+      frequencyDiscounts: { ...defaultFrequencyDiscounts },
+    }
+  }
+
+  const servicePrices = { ...defaultServicePrices }
+  if (parsed.servicePrices && typeof parsed.servicePrices === "object") {
+    for (const [serviceType, fallback] of Object.entries(defaultServicePrices)) {
+      servicePrices[serviceType] = normalizeAmount(parsed.servicePrices[serviceType], fallback, 0, 10000)
+    }
+  }
+
+  const frequencyDiscounts = { ...defaultFrequencyDiscounts }
+  if (parsed.frequencyDiscounts && typeof parsed.frequencyDiscounts === "object") {
+    for (const frequency of PRICE_BOOK_FREQUENCIES) {
+      frequencyDiscounts[frequency] = normalizeAmount(parsed.frequencyDiscounts[frequency], 0, 0, 90)
+    }
+  }
+
+  return {
+    servicePrices,
+    perBedroom: normalizeAmount(parsed.perBedroom, defaultPriceBook.perBedroom, 0, 1000),
+    perBathroom: normalizeAmount(parsed.perBathroom, defaultPriceBook.perBathroom, 0, 1000),
+    includedBedrooms: normalizeCount(parsed.includedBedrooms, defaultPriceBook.includedBedrooms, 0, 20),
+    includedBathrooms: normalizeCount(parsed.includedBathrooms, defaultPriceBook.includedBathrooms, 0, 20),
+    perSquareFoot: normalizeAmount(parsed.perSquareFoot, defaultPriceBook.perSquareFoot, 0, 100),
+    includedSquareFeet: normalizeCount(parsed.includedSquareFeet, defaultPriceBook.includedSquareFeet, 0, 100000),
+    addOns: normalizeAddOns(parsed.addOns),
+    frequencyDiscounts,
+    minimumCharge: normalizeAmount(parsed.minimumCharge, defaultPriceBook.minimumCharge, 0, 10000),
+  }
+}
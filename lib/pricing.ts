@@ -0,0 +1,303 @@
+import { eq } from "drizzle-orm"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { ServiceArea } from "@/lib/db/schema"
+import {
+  normalizePriceBook,
+  priceBookFrequencyLabels,
+  priceBookServiceLabels,
+  type CompanyPriceBook,
+} from "@/lib/price-book"
+import { calculateAreaSurcharge, type QuoteItemInput } from "@/lib/service-areas"
+
+/**
+ * Itemised pricing from a company's price book.
+ *
+ * Booking estimates, quotes and jobs are all priced here. The quote is stored with booking
+ * requests and jobs so the invoice repeats the lines the customer was shown.
+ */
+
+export class PricingError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "PricingError"
+  }
+}
+
+export interface PricingInput {
+  serviceType: string
+  bedrooms: number
+  bathrooms: number
+  squareFootage: number
+  addOns: string[]
+  frequency: string
+}
+
+export type PriceLineKind =
+  | "service"
+  | "bedrooms"
+  | "bathrooms"
+  | "size"
+  | "add_on"
+  | "frequency_discount"
+  | "minimum_charge"
+  | "area_surcharge"
+
+export interface PriceLine {
+  kind: PriceLineKind
+  title: string
+  quantity: number
+  unitPrice: number
+  amount: number
+  serviceAreaId?: number
+}
+
+export interface PriceQuote {
+  input: PricingInput
+  lines: PriceLine[]
+  // Before the area surcharge
+  subtotal: number
+  areaSurcharge: number
+  serviceAreaId: number | null
+  total: number
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function toCount(value: unknown) {
+  const parsed = typeof value === "number" ? value : parseInt(String(value ?? ""), 10)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0
+}
+
+/**
+ * Pricing input from a request body; unknown add-ons are dropped when the quote is calculated
+ */
+export function parsePricingInput(raw: any): PricingInput | null {
+  if (!raw || typeof raw !== "object" || typeof raw.serviceType !== "string" || !raw.serviceType) {
+    return null
+  }
+  return {
+    serviceType: raw.serviceType,
+    bedrooms: toCount(raw.bedrooms),
+    bathrooms: toCount(raw.bathrooms),
+    squareFootage: toCount(raw.squareFootage),
+    addOns: Array.isArray(raw.addOns)
+      ? Array.from(new Set<string>(raw.addOns.filter((key: unknown): key is string => typeof key === "string")))
+      : [],
+    frequency: typeof raw.frequency === "string" && raw.frequency ? raw.frequency : "one_time",
+  }
+}
+
+export async function getPriceBook(executor: DbExecutor, companyId: number) {
+  const [company] = await executor
+    .select({ priceBook: schema.companies.priceBook })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+  if (!company) {
+    throw new PricingError("Company not found", 404)
+  }
+  return normalizePriceBook(company.priceBook)
+}
+
+function withAreaSurchargeLine(
+  quote: Omit<PriceQuote, "areaSurcharge" | "serviceAreaId" | "total">,
+  area: ServiceArea | null | undefined,
+): PriceQuote {
+  const lines = quote.lines.filter((line) => line.kind !== "area_surcharge")
+  const surcharge = calculateAreaSurcharge(area, quote.subtotal)
+  if (area && surcharge > 0) {
+    lines.push({
+      kind: "area_surcharge",
+      title: `${area.name} area surcharge`,
+      quantity: 1,
+      unitPrice: surcharge,
+      amount: surcharge,
+      serviceAreaId: area.id,
+    })
+  }
+  return {
+    ...quote,
+    lines,
+    areaSurcharge: surcharge,
+    serviceAreaId: area && surcharge > 0 ? area.id : null,
+    total: roundMoney(quote.subtotal + surcharge),
+  }
+}
+
+/**
+ * Price a visit from the price book. Room, size and add-on charges are added to the service's
+ * base price, the frequency discount comes off that, the minimum charge is topped up to, and
+ * the area surcharge goes on last.
+ */
+export function calculatePrice(
+  priceBook: CompanyPriceBook,
+  input: PricingInput,
+  area?: ServiceArea | null,
+): PriceQuote {
+  const basePrice = priceBook.servicePrices[input.serviceType]
+  if (basePrice === undefined) {
+    throw new PricingError(`There's no price for ${input.serviceType.replace(/_/g, " ")}`)
+  }
+
+  const lines: PriceLine[] = [
+    {
+      kind: "service",
+      title: priceBookServiceLabels[input.serviceType] || input.serviceType,
+      quantity: 1,
+      unitPrice: basePrice,
+      amount: basePrice,
+    },
+  ]
+
+  const extraBedrooms = Math.max(0, input.bedrooms - priceBook.includedBedrooms)
+  if (extraBedrooms > 0 && priceBook.perBedroom > 0) {
+    lines.push({
+      kind: "bedrooms",
+      title: priceBook.includedBedrooms > 0 ? "Additional bedrooms" : "Bedrooms",
+      quantity: extraBedrooms,
+      unitPrice: priceBook.perBedroom,
+      amount: roundMoney(extraBedrooms * priceBook.perBedroom),
+    })
+  }
+
+  const extraBathrooms = Math.max(0, input.bathrooms - priceBook.includedBathrooms)
+  if (extraBathrooms > 0 && priceBook.perBathroom > 0) {
+    lines.push({
+      kind: "bathrooms",
+      title: priceBook.includedBathrooms > 0 ? "Additional bathrooms" : "Bathrooms",
+      quantity: extraBathrooms,
+      unitPrice: priceBook.perBathroom,
+      amount: roundMoney(extraBathrooms * priceBook.perBathroom),
+    })
+  }
+
+  // Charged as one line so the unit price doesn't need sub-penny precision
+  const extraSquareFeet = Math.max(0, input.squareFootage - priceBook.includedSquareFeet)
+  if (extraSquareFeet > 0 && priceBook.perSquareFoot > 0) {
+    const amount = roundMoney(extraSquareFeet * priceBook.perSquareFoot)
+    lines.push({
+      kind: "size",
+      title: `Property size (${extraSquareFeet.toLocaleString("en-GB")} sq ft${priceBook.includedSquareFeet > 0 ? " extra" : ""})`,
+      quantity: 1,
+      unitPrice: amount,
+      amount,
+    })
+  }
+
+  const addOns = priceBook.addOns.filter((addOn) => input.addOns.includes(addOn.key))
+  for (const addOn of addOns) {
+    lines.push({ kind: "add_on", title: addOn.label, quantity: 1, unitPrice: addOn.price, amount: addOn.price })
+  }
+
+  let subtotal = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+
+  const discountPercent = priceBook.frequencyDiscounts[input.frequency] || 0
+  const discount = roundMoney((subtotal * discountPercent) / 100)
+  if (discount > 0) {
+    lines.push({
+      kind: "frequency_discount",
+      title: `${priceBookFrequencyLabels[input.frequency] || input.frequency} discount (${discountPercent}%)`,
+      quantity: 1,
+      unitPrice: -discount,
+      amount: -discount,
+    })
+    subtotal = roundMoney(subtotal - discount)
+  }
+
+  if (subtotal < priceBook.minimumCharge) {
+    const topUp = roundMoney(priceBook.minimumCharge - subtotal)
+    lines.push({ kind: "minimum_charge", title: "Minimum charge", quantity: 1, unitPrice: topUp, amount: topUp })
+    subtotal = priceBook.minimumCharge
+  }
+
+  return withAreaSurchargeLine(
+    {
+      input: { ...input, addOns: addOns.map((addOn) => addOn.key) },
+      lines,
+      subtotal,
+    },
+    area,
+  )
+}
+
+/**
+ * Price a visit from the company's price book
+ */
+export async function priceVisit(
+  companyId: number,
+  input: PricingInput,
+  area?: ServiceArea | null,
+  executor: DbExecutor | null = db,
+) {
+  if (!executor) {
+    throw new Error("Database not configured")
+  }
+  const priceBook = await getPriceBook(executor, companyId)
+  return calculatePrice(priceBook, input, area)
+}
+
+/**
+ * A stored quote with its area surcharge worked out again for a new area, as when a job's
+ * address changes
+ */
+export function repriceAreaSurcharge(quote: PriceQuote, area: ServiceArea | null | undefined) {
+  return withAreaSurchargeLine(quote, area)
+}
+
+/**
+ * Quote stored on a booking request or job, or null when the price was set by hand
+ */
+export function parseStoredPriceQuote(raw: unknown): PriceQuote | null {
+  if (!raw || typeof raw !== "object") return null
+  const quote = raw as PriceQuote
+  if (!Array.isArray(quote.lines) || typeof quote.total !== "number" || typeof quote.subtotal !== "number") {
+    return null
+  }
+  return quote
+}
+
+/**
+ * Quote lines for a priced visit. The area surcharge line keeps its area so quote edits replace
+ * it rather than adding another.
+ */
+export function priceQuoteItems(quote: PriceQuote): QuoteItemInput[] {
+  return quote.lines.map((line) => ({
+    title: line.title,
+    description: null,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice.toFixed(2),
+    amount: line.amount.toFixed(2),
+    serviceAreaId: line.serviceAreaId ?? null,
+  }))
+}
+
+/**
+ * Invoice lines for a job: the lines it was priced with, or a single line when its price has
+ * since been changed by hand
+ */
+export function jobInvoiceLines(
+  job: { title?: string | null; description?: string | null; priceBreakdown?: unknown },
+  price: number,
+) {
+  const quote = parseStoredPriceQuote(job.priceBreakdown)
+  if (quote && roundMoney(quote.total) === roundMoney(price)) {
+    return quote.lines.map((line) => ({
+      title: line.title,
+      description: null,
+      quantity: String(line.quantity),
+      unitPrice: line.unitPrice.toFixed(2),
+    }))
+  }
+  return [
+    {
+      title: job.title || "Cleaning Service",
+      description: job.description || "",
+      quantity: "1",
+      unitPrice: price.toFixed(2),
+    },
+  ]
+}
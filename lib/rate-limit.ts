@@ -112,6 +112,13 @@ export const rateLimitConfigs = {
   resetPassword: { maxRequests: 5, windowMs: 60000 }, // 5 per minute
   verifyEmail: { maxRequests: 10, windowMs: 60000 }, // 10 per minute
   resendVerification: { maxRequests: 3, windowMs: 300000 }, // 3 per 5 minutes
+
+  // Public booking page
+  bookingAvailability: { maxRequests: 30, windowMs: 60000 }, // 30 per minute
+  bookingHold: { maxRequests: 10, windowMs: 60000 }, // 10 per minute
+
+  // Public document signing links
+  documentSigning: { maxRequests: 10, windowMs: 60000 }, // 10 per minute
   
   // General API endpoints
   api: { maxRequests: 60, windowMs: 60000 }, // 60 per minute
@@ -0,0 +1,127 @@
+/**
+ * UK bank holidays, calculated from the statutory rules so recurring visits can skip them
+ * without a network lookup. One-off holidays (coronations, jubilees) aren't included and
+ * should be added to a series as EXDATEs.
+ */
+
+export type BankHolidayRegion = "england-and-wales" | "scotland" | "northern-ireland"
+
+export interface BankHoliday {
+  date: string // yyyy-MM-dd
+  name: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function utcDate(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function toKey(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number) {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return utcDate(year, month, day)
+}
+
+function firstMonday(year: number, month: number) {
+  const first = utcDate(year, month, 1)
+  return new Date(first.getTime() + ((8 - first.getUTCDay()) % 7) * DAY_MS)
+}
+
+function lastMonday(year: number, month: number) {
+  const last = utcDate(year, month + 1, 0)
+  return new Date(last.getTime() - ((last.getUTCDay() + 6) % 7) * DAY_MS)
+}
+
+/**
+ * Fixed-date holidays move to the next free weekday when they fall on a weekend
+ */
+function withSubstitutes(fixed: Array<{ date: Date; name: string }>) {
+  const taken = new Set<string>()
+  return fixed.map(({ date, name }) => {
+    let observed = date
+    while (observed.getUTCDay() === 0 || observed.getUTCDay() === 6 || taken.has(toKey(observed))) {
+      observed = new Date(observed.getTime() + DAY_MS)
+    }
+    taken.add(toKey(observed))
+    return {
+      date: observed,
+      name: observed.getTime() === date.getTime() ? name : `${name} (substitute day)`,
+    }
+  })
+}
+
+export function getBankHolidays(year: number, region: BankHolidayRegion = "england-and-wales"): BankHoliday[] {
+  const easter = easterSunday(year)
+  const holidays: Array<{ date: Date; name: string }> = [
+    { date: new Date(easter.getTime() - 2 * DAY_MS), name: "Good Friday" },
+    { date: firstMonday(year, 5), name: "Early May bank holiday" },
+    { date: lastMonday(year, 5), name: "Spring bank holiday" },
+  ]
+
+  const newYear = [{ date: utcDate(year, 1, 1), name: "New Year's Day" }]
+  if (region === "scotland") {
+    newYear.push({ date: utcDate(year, 1, 2), name: "2nd January" })
+  }
+
+  if (region === "scotland") {
+    holidays.push({ date: firstMonday(year, 8), name: "Summer bank holiday" })
+  } else {
+    holidays.push({ date: new Date(easter.getTime() + DAY_MS), name: "Easter Monday" })
+    holidays.push({ date: lastMonday(year, 8), name: "Summer bank holiday" })
+  }
+
+  const fixed = [...newYear]
+  if (region === "scotland") {
+    fixed.push({ date: utcDate(year, 11, 30), name: "St Andrew's Day" })
+  }
+  if (region === "northern-ireland") {
+    fixed.push({ date: utcDate(year, 3, 17), name: "St Patrick's Day" })
+    fixed.push({ date: utcDate(year, 7, 12), name: "Battle of the Boyne (Orangemen's Day)" })
+  }
+  holidays.push(...withSubstitutes(fixed))
+  holidays.push(
+    ...withSubstitutes([
+      { date: utcDate(year, 12, 25), name: "Christmas Day" },
+      { date: utcDate(year, 12, 26), name: "Boxing Day" },
+    ]),
+  )
+
+  return holidays
+    .map((holiday) => ({ date: toKey(holiday.date), name: holiday.name }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Bank holiday dates (yyyy-MM-dd) between two years, inclusive
+ */
+export function getBankHolidayDates(
+  fromYear: number,
+  toYear: number,
+  region: BankHolidayRegion = "england-and-wales",
+): Set<string> {
+  const dates = new Set<string>()
+  for (let year = fromYear; year <= toYear; year++) {
+    for (const holiday of getBankHolidays(year, region)) {
+      dates.add(holiday.date)
+    }
+  }
+  return dates
+}
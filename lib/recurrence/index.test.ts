@@ -0,0 +1,94 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  addExdates,
+  expandRecurrence,
+  formatRecurrenceSet,
+  parseRecurrenceSet,
+  splitRecurrenceSet,
+} from "@/lib/recurrence"
+
+const weekly = (extra = "") =>
+  parseRecurrenceSet(`DTSTART;TZID=Europe/London:20260302T090000\nRRULE:FREQ=WEEKLY;COUNT=6${extra}`)
+
+const isoDays = (dates: Date[]) => dates.map((date) => date.toISOString().slice(0, 10))
+
+describe("splitRecurrenceSet", () => {
+  test("carries the remaining COUNT into the following series", () => {
+    const set = weekly()
+    const at = expandRecurrence(set)[2]
+
+    const { before, after } = splitRecurrenceSet(set, at)
+
+    assert.equal(before?.rule.count, 2)
+    assert.equal(after.rule.count, 4)
+    assert.equal(after.dtstart.getTime(), at.getTime())
+    assert.deepEqual(
+      [...expandRecurrence(before!), ...expandRecurrence(after)].map((date) => date.getTime()),
+      expandRecurrence(set).map((date) => date.getTime()),
+    )
+  })
+
+  test("has nothing before a split at the first visit", () => {
+    const set = weekly()
+
+    const { before, after } = splitRecurrenceSet(set, set.dtstart)
+
+    assert.equal(before, null)
+    assert.equal(after.rule.count, 6)
+  })
+
+  test("ends the earlier part just before the split when the rule has no COUNT", () => {
+    const set = parseRecurrenceSet("DTSTART;TZID=Europe/London:20260302T090000\nRRULE:FREQ=WEEKLY")
+    const at = new Date("2026-03-16T09:00:00Z")
+
+    const { before, after } = splitRecurrenceSet(set, at)
+
+    assert.deepEqual(isoDays(expandRecurrence(before!)), ["2026-03-02", "2026-03-09"])
+    assert.equal(after.rule.until, undefined)
+  })
+
+  test("keeps each EXDATE with the part of the series it falls in", () => {
+    const set = weekly("\nEXDATE;TZID=Europe/London:20260309T090000,20260323T090000\nEXDATE;VALUE=DATE:20260406")
+    const at = new Date("2026-03-16T09:00:00Z")
+
+    const { before, after } = splitRecurrenceSet(set, at)
+
+    assert.deepEqual(isoDays(before!.exdates), ["2026-03-09"])
+    assert.deepEqual(before!.exdateDays, [])
+    assert.deepEqual(isoDays(after.exdates), ["2026-03-23"])
+    assert.deepEqual(after.exdateDays, ["2026-04-06"])
+  })
+})
+
+describe("date-only EXDATEs", () => {
+  test("skip the visit on that calendar day", () => {
+    const set = weekly("\nEXDATE;VALUE=DATE:20260316")
+
+    assert.deepEqual(isoDays(expandRecurrence(set)), ["2026-03-02", "2026-03-09", "2026-03-23", "2026-03-30", "2026-04-06"])
+  })
+
+  test("use the series timezone, not UTC, to decide the day", () => {
+    // 00:30 in London during summer time is still the previous day in UTC
+    const set = parseRecurrenceSet(
+      "DTSTART;TZID=Europe/London:20260601T003000\nRRULE:FREQ=DAILY;COUNT=3\nEXDATE;VALUE=DATE:20260602",
+    )
+
+    assert.deepEqual(
+      expandRecurrence(set).map((date) => date.toISOString()),
+      ["2026-05-31T23:30:00.000Z", "2026-06-02T23:30:00.000Z"],
+    )
+  })
+
+  test("are accepted from API input alongside timed ones", () => {
+    const set = addExdates(weekly(), ["2026-03-09", "2026-03-16T09:00:00Z"])
+
+    assert.deepEqual(isoDays(expandRecurrence(set)), ["2026-03-02", "2026-03-23", "2026-03-30", "2026-04-06"])
+  })
+
+  test("survive a format and parse round trip", () => {
+    const set = addExdates(weekly(), ["2026-03-09"])
+
+    assert.deepEqual(parseRecurrenceSet(formatRecurrenceSet(set)).exdateDays, ["2026-03-09"])
+  })
+})
@@ -0,0 +1,488 @@
+import { db, schema } from "@/lib/db"
+import { and, asc, eq, gte } from "drizzle-orm"
+import { getBankHolidayDates, type BankHolidayRegion } from "./bank-holidays"
+import {
+  DEFAULT_TIMEZONE,
+  expandRecurrence,
+  formatRecurrenceSet,
+  fromLocalDateTime,
+  localDayKey,
+  parseRecurrenceSet,
+  parseRRule,
+  toLocalDateTime,
+  weekdayFromDate,
+  type RecurrenceRule,
+  type RecurrenceSet,
+  type Weekday,
+} from "./rrule"
+
+export {
+  DEFAULT_TIMEZONE,
+  expandRecurrence,
+  formatRecurrenceSet,
+  formatRRule,
+  fromLocalDateTime,
+  isValidTimezone,
+  localDayKey,
+  parseRecurrenceSet,
+  parseRRule,
+  toLocalDateTime,
+  weekdayFromDate,
+} from "./rrule"
+export type { RecurrenceFrequency, RecurrenceRule, RecurrenceSet, Weekday, WeekdaySpec } from "./rrule"
+export { getBankHolidays, getBankHolidayDates } from "./bank-holidays"
+export type { BankHoliday, BankHolidayRegion } from "./bank-holidays"
+
+const WEEKDAY_NAMES: Record<string, Weekday> = {
+  sunday: "SU",
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+}
+
+const JS_DAY_TO_WEEKDAY: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+/**
+ * Map a day name ("monday") or JavaScript day number (0 = Sunday) to an RRULE weekday
+ */
+export function toWeekday(day: string | number): Weekday | null {
+  if (typeof day === "number") {
+    return JS_DAY_TO_WEEKDAY[day] ?? null
+  }
+  return WEEKDAY_NAMES[day.trim().toLowerCase()] ?? null
+}
+
+/**
+ * Translate the free-text frequencies used before RRULE support ("weekly", "bi-weekly", ...)
+ * into a rule. Returns null for one-off or unknown frequencies.
+ */
+export function legacyFrequencyToRule(
+  frequency: string | null | undefined,
+  options: { weekdays?: Weekday[]; dtstart?: Date; timezone?: string } = {},
+): RecurrenceRule | null {
+  const normalized = frequency?.toLowerCase().replace(/[-_\s]/g, "")
+  const byDay = options.weekdays?.length ? options.weekdays.map((weekday) => ({ weekday })) : undefined
+
+  // Monthly visits on a weekday repeat on the same week of the month ("2nd Tuesday")
+  const monthlyByDay = () => {
+    if (!byDay || !options.dtstart) return undefined
+    const local = toLocalDateTime(options.dtstart, options.timezone ?? DEFAULT_TIMEZONE)
+    const week = Math.ceil(local.day / 7)
+    return byDay.map((spec) => ({ ...spec, ordinal: week >= 5 ? -1 : week }))
+  }
+
+  switch (normalized) {
+    case "daily":
+      return { freq: "DAILY", interval: 1, byDay }
+    case "weekly":
+      return { freq: "WEEKLY", interval: 1, byDay }
+    case "biweekly":
+    case "fortnightly":
+      return { freq: "WEEKLY", interval: 2, byDay }
+    case "monthly":
+      return { freq: "MONTHLY", interval: 1, byDay: monthlyByDay() }
+    case "quarterly":
+      return { freq: "MONTHLY", interval: 3, byDay: monthlyByDay() }
+    case "annually":
+    case "yearly":
+      return { freq: "YEARLY", interval: 1 }
+    default:
+      return null
+  }
+}
+
+/**
+ * Set a wall-clock time ("09:30") on the local date of `date`
+ */
+export function atLocalTime(date: Date, time: string, timezone = DEFAULT_TIMEZONE): Date {
+  const local = toLocalDateTime(date, timezone)
+  const [hour = 0, minute = 0] = time.split(":").map(Number)
+  return fromLocalDateTime({ ...local, hour, minute, second: 0 }, timezone)
+}
+
+/**
+ * First day on or after `date` that falls on `weekday`, at the given local time
+ */
+export function nextWeekdayAt(date: Date, weekday: Weekday, time: string, timezone = DEFAULT_TIMEZONE): Date {
+  let candidate = atLocalTime(date, time, timezone)
+  for (let i = 0; i < 7 && weekdayFromDate(candidate, timezone) !== weekday; i++) {
+    const local = toLocalDateTime(candidate, timezone)
+    candidate = fromLocalDateTime({ ...local, day: local.day + 1 }, timezone)
+  }
+  return candidate
+}
+
+export interface RecurrenceInput {
+  // Full DTSTART/RRULE/EXDATE block or a bare RRULE
+  rrule?: string | null
+  // Legacy frequency, used when no RRULE is given
+  frequency?: string | null
+  weekdays?: Weekday[]
+  dtstart: Date
+  timezone?: string
+  until?: Date | null
+  // Start times to skip; a date without a time ("2026-03-02") skips that whole day
+  exdates?: Array<Date | string>
+}
+
+/**
+ * Build a recurrence set from either an RRULE or a legacy frequency.
+ * Throws if an RRULE is given but invalid; returns null when there is nothing to repeat.
+ */
+export function buildRecurrenceSet(input: RecurrenceInput): RecurrenceSet | null {
+  const timezone = input.timezone || DEFAULT_TIMEZONE
+  let set: RecurrenceSet | null = null
+
+  if (input.rrule?.trim()) {
+    set = /DTSTART/i.test(input.rrule)
+      ? parseRecurrenceSet(input.rrule)
+      : { dtstart: input.dtstart, timezone, rule: parseRRule(input.rrule, timezone), exdates: [] }
+  } else {
+    const rule = legacyFrequencyToRule(input.frequency, { weekdays: input.weekdays, dtstart: input.dtstart, timezone })
+    if (rule) {
+      set = { dtstart: input.dtstart, timezone, rule, exdates: [] }
+    }
+  }
+
+  if (!set) return null
+
+  if (input.until && !set.rule.count && !set.rule.until) {
+    set.rule.until = input.until
+  }
+  if (input.exdates?.length) {
+    addExdates(set, input.exdates)
+  }
+  return set
+}
+
+/**
+ * Add EXDATEs to a set. Dates without a time ("2026-03-02") are kept as whole days in the
+ * series timezone, so they skip the visit that day whatever time it starts.
+ */
+export function addExdates(set: RecurrenceSet, values: Array<Date | string>): RecurrenceSet {
+  for (const value of values) {
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+      set.exdateDays = [...(set.exdateDays ?? []), value.trim()]
+    } else {
+      const date = typeof value === "string" ? new Date(value) : value
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid excluded date "${value}"`)
+      }
+      set.exdates = [...set.exdates, date]
+    }
+  }
+  return set
+}
+
+export interface OccurrenceOptions {
+  from?: Date
+  to?: Date
+  limit?: number
+  skipBankHolidays?: boolean
+  bankHolidayRegion?: BankHolidayRegion
+}
+
+/**
+ * Expand a recurrence set, optionally dropping occurrences that land on bank holidays.
+ * Like EXDATEs, skipped bank holidays still count towards COUNT.
+ */
+export function getOccurrences(set: RecurrenceSet, options: OccurrenceOptions = {}): Date[] {
+  if (!options.skipBankHolidays) {
+    return expandRecurrence(set, options)
+  }
+
+  const occurrences = expandRecurrence(set, { from: options.from, to: options.to })
+  if (occurrences.length === 0) return occurrences
+
+  const firstYear = toLocalDateTime(occurrences[0], set.timezone).year
+  const lastYear = toLocalDateTime(occurrences[occurrences.length - 1], set.timezone).year
+  const holidays = getBankHolidayDates(firstYear, lastYear, options.bankHolidayRegion)
+
+  const working = occurrences.filter((occurrence) => !holidays.has(localDayKey(occurrence, set.timezone)))
+  return options.limit ? working.slice(0, options.limit) : working
+}
+
+/**
+ * Next occurrence strictly after `after`, or null when the series has ended
+ */
+export function getNextOccurrence(set: RecurrenceSet, after: Date, options: OccurrenceOptions = {}): Date | null {
+  const [next] = getOccurrences(set, { ...options, from: new Date(after.getTime() + 1000), limit: 1 })
+  return next ?? null
+}
+
+/**
+ * Split a series at an occurrence for "this and following" edits.
+ * `before` ends just ahead of `at` (null if nothing is left); `after` starts at `at` and
+ * carries over the remaining COUNT and any EXDATEs from that point on.
+ */
+export function splitRecurrenceSet(set: RecurrenceSet, at: Date): { before: RecurrenceSet | null; after: RecurrenceSet } {
+  const endOfBefore = new Date(at.getTime() - 1000)
+  const atDay = localDayKey(at, set.timezone)
+  const generatedBefore = expandRecurrence({ ...set, exdates: [] }, { to: endOfBefore }).length
+
+  const before: RecurrenceSet | null =
+    generatedBefore === 0
+      ? null
+      : {
+          ...set,
+          rule: set.rule.count
+            ? { ...set.rule, count: generatedBefore }
+            : { ...set.rule, until: set.rule.until && set.rule.until < endOfBefore ? set.rule.until : endOfBefore },
+          exdates: set.exdates.filter((date) => date < at),
+          exdateDays: set.exdateDays?.filter((day) => day < atDay),
+        }
+
+  const after: RecurrenceSet = {
+    ...set,
+    dtstart: at,
+    rule: set.rule.count ? { ...set.rule, count: Math.max(1, set.rule.count - generatedBefore) } : { ...set.rule },
+    exdates: set.exdates.filter((date) => date >= at),
+    exdateDays: set.exdateDays?.filter((day) => day >= atDay),
+  }
+
+  return { before, after }
+}
+
+/**
+ * Read the recurrence of a subscription, falling back to its legacy frequency
+ */
+export function getSubscriptionRecurrence(
+  subscription: Pick<typeof schema.subscriptions.$inferSelect, "recurrenceRule" | "frequency" | "startDate" | "endDate">,
+): RecurrenceSet | null {
+  return buildRecurrenceSet({
+    rrule: subscription.recurrenceRule,
+    frequency: subscription.frequency,
+    dtstart: subscription.startDate,
+    until: subscription.endDate,
+  })
+}
+
+type Job = typeof schema.jobs.$inferSelect
+
+/**
+ * Copy a series parent into a new job for one occurrence
+ */
+function buildOccurrenceValues(parent: Job, occurrence: Date): typeof schema.jobs.$inferInsert {
+  let scheduledEnd: Date | null = null
+  if (parent.scheduledFor && parent.scheduledEnd) {
+    const duration = parent.scheduledEnd.getTime() - parent.scheduledFor.getTime()
+    scheduledEnd = new Date(occurrence.getTime() + duration)
+  }
+
+  return {
+    companyId: parent.companyId,
+    title: parent.title,
+    description: parent.description,
+    jobType: parent.jobType,
+    customerId: parent.customerId,
+    assignedTo: parent.assignedTo,
+    teamMembers: parent.teamMembers,
+    location: parent.location,
+    addressLine2: parent.addressLine2,
+    city: parent.city,
+    postcode: parent.postcode,
+    latitude: parent.latitude,
+    longitude: parent.longitude,
+    accessInstructions: parent.accessInstructions,
+    parkingInstructions: parent.parkingInstructions,
+    specialInstructions: parent.specialInstructions,
+    scheduledFor: occurrence,
+    scheduledEnd,
+    durationMinutes: parent.durationMinutes,
+    recurrence: "none", // Child jobs don't recur
+    recurrenceId: occurrence,
+    parentJobId: parent.id,
+    contractId: parent.contractId,
+    status: "scheduled",
+    priority: parent.priority,
+    estimatedPrice: parent.estimatedPrice,
+    serviceAreaId: parent.serviceAreaId,
+    areaSurcharge: parent.areaSurcharge,
+    priceBreakdown: parent.priceBreakdown,
+    employeePay: parent.employeePay,
+    currency: parent.currency,
+    internalNotes: parent.internalNotes,
+    planId: parent.planId,
+  }
+}
+
+async function copyPlanTasks(jobId: number, planId: number) {
+  if (!db) return
+  try {
+    const planTasks = await db.query.planTasks.findMany({
+      where: eq(schema.planTasks.planId, planId),
+      orderBy: (tasks, { asc: ascTask }) => [ascTask(tasks.order)],
+    })
+
+    if (planTasks.length > 0) {
+      await db.insert(schema.jobTasks).values(
+        planTasks.map((task) => ({
+          jobId,
+          title: task.title,
+          description: task.description || null,
+          order: task.order ?? 0,
+        })),
+      )
+    }
+  } catch (taskError) {
+    console.error("Failed to create job tasks from plan:", taskError)
+  }
+}
+
+export interface SeriesSyncResult {
+  created: Job[]
+  removedJobIds: number[]
+}
+
+/**
+ * Make a job series match its recurrence rule from `from` onwards.
+ *
+ * Children are matched to occurrences by their recurrence ID, so running this repeatedly
+ * never duplicates a visit. Occurrences without a job are created up to `to`; scheduled
+ * children that no longer match the rule are removed. Visits that have started, finished
+ * or been cancelled are never touched.
+ */
+export async function syncJobSeries(
+  parent: Job,
+  options: { from: Date; to: Date; limit?: number; skipBankHolidays?: boolean },
+): Promise<SeriesSyncResult> {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  if (!parent.recurrenceRule) {
+    throw new Error("Job is not part of a recurring series")
+  }
+
+  const set = parseRecurrenceSet(parent.recurrenceRule, parent.scheduledFor)
+  const parentOccurrence = (parent.recurrenceId ?? parent.scheduledFor)?.getTime()
+
+  const children = await db.query.jobs.findMany({
+    where: and(
+      eq(schema.jobs.parentJobId, parent.id),
+      eq(schema.jobs.companyId, parent.companyId),
+      gte(schema.jobs.scheduledFor, options.from),
+    ),
+    orderBy: [asc(schema.jobs.scheduledFor)],
+  })
+  const occurrenceKey = (job: Job) => (job.recurrenceId ?? job.scheduledFor)?.getTime()
+
+  // Check existing children against the rule as far out as the latest one
+  const latestChild = children.reduce<Date>(
+    (latest, child) => (child.scheduledFor && child.scheduledFor > latest ? child.scheduledFor : latest),
+    options.to,
+  )
+  const validOccurrences = new Set(
+    getOccurrences(set, { from: options.from, to: latestChild, skipBankHolidays: options.skipBankHolidays }).map(
+      (occurrence) => occurrence.getTime(),
+    ),
+  )
+
+  const removedJobIds: number[] = []
+  for (const child of children) {
+    const key = occurrenceKey(child)
+    if (child.status !== "scheduled" || (key !== undefined && validOccurrences.has(key))) continue
+    await db.delete(schema.jobs).where(eq(schema.jobs.id, child.id))
+    removedJobIds.push(child.id)
+  }
+
+  const existingKeys = new Set(
+    children.filter((child) => !removedJobIds.includes(child.id)).map(occurrenceKey),
+  )
+  const missing = getOccurrences(set, {
+    from: options.from,
+    to: options.to,
+    skipBankHolidays: options.skipBankHolidays,
+  }).filter((occurrence) => occurrence.getTime() !== parentOccurrence && !existingKeys.has(occurrence.getTime()))
+
+  const created: Job[] = []
+  for (const occurrence of options.limit ? missing.slice(0, options.limit) : missing) {
+    const [job] = await db.insert(schema.jobs).values(buildOccurrenceValues(parent, occurrence)).returning()
+    created.push(job)
+    if (job.planId) {
+      await copyPlanTasks(job.id, job.planId)
+    }
+  }
+
+  return { created, removedJobIds }
+}
+
+/**
+ * Apply a new rule to `job` and every later visit in its series ("this and following").
+ * The earlier part of the series keeps its old rule, ending just before this visit.
+ * Returns the job that now heads the following part of the series.
+ */
+export async function splitJobSeries(job: Job, newSet: RecurrenceSet): Promise<Job> {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const parentId = job.parentJobId ?? job.id
+  const parent =
+    parentId === job.id
+      ? job
+      : await db.query.jobs.findFirst({
+          where: and(eq(schema.jobs.id, parentId), eq(schema.jobs.companyId, job.companyId)),
+        })
+  if (!parent?.recurrenceRule) {
+    throw new Error("Job is not part of a recurring series")
+  }
+
+  const at = job.recurrenceId ?? job.scheduledFor
+  if (!at || parent.id === job.id) {
+    // Editing from the first visit changes the whole series
+    const [updated] = await db
+      .update(schema.jobs)
+      .set({
+        recurrenceRule: formatRecurrenceSet(newSet),
+        recurrenceEndDate: newSet.rule.until ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.jobs.id, parent.id))
+      .returning()
+    return updated
+  }
+
+  const { before } = splitRecurrenceSet(parseRecurrenceSet(parent.recurrenceRule, parent.scheduledFor), at)
+
+  // All three updates land together so a failure can't leave two half-linked series
+  return db.transaction(async (tx) => {
+    // Later visits move to the new series so they are kept if they still match the new rule
+    await tx
+      .update(schema.jobs)
+      .set({ parentJobId: job.id, updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.jobs.parentJobId, parent.id),
+          eq(schema.jobs.companyId, parent.companyId),
+          gte(schema.jobs.scheduledFor, at),
+        ),
+      )
+
+    const [head] = await tx
+      .update(schema.jobs)
+      .set({
+        parentJobId: null,
+        recurrence: parent.recurrence,
+        recurrenceRule: formatRecurrenceSet(newSet),
+        recurrenceEndDate: newSet.rule.until ?? null,
+        recurrenceId: at,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.jobs.id, job.id))
+      .returning()
+
+    await tx
+      .update(schema.jobs)
+      .set({
+        recurrenceRule: before ? formatRecurrenceSet(before) : null,
+        recurrenceEndDate: before?.rule.until ?? parent.recurrenceEndDate,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.jobs.id, parent.id))
+
+    return head
+  })
+}
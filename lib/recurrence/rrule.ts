@@ -0,0 +1,567 @@
+/**
+ * RFC 5545 recurrence rules.
+ *
+ * Supports the subset of RRULE we need for cleaning schedules (FREQ, INTERVAL, COUNT, UNTIL,
+ * BYDAY with ordinals, BYMONTHDAY, BYMONTH, BYSETPOS, WKST) plus EXDATEs. Occurrences are
+ * expanded on the wall clock of the series timezone so a 9am visit stays at 9am across
+ * daylight saving changes.
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"
+
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU"
+
+export interface WeekdaySpec {
+  weekday: Weekday
+  // 1 = first, -1 = last, etc. Only meaningful for MONTHLY and YEARLY rules
+  ordinal?: number
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: WeekdaySpec[]
+  byMonthDay?: number[]
+  byMonth?: number[]
+  bySetPos?: number[]
+  weekStart?: Weekday
+}
+
+export interface RecurrenceSet {
+  // First occurrence; its wall-clock time in `timezone` is used for every occurrence
+  dtstart: Date
+  timezone: string
+  rule: RecurrenceRule
+  // Occurrence start times that must be skipped (bank holidays, cancelled visits)
+  exdates: Date[]
+  // Whole days ("YYYY-MM-DD" in `timezone`) from date-only EXDATEs; any occurrence that day is skipped
+  exdateDays?: string[]
+}
+
+export const DEFAULT_TIMEZONE = "Europe/London"
+
+// Safety limit so a malformed rule can never loop forever
+const MAX_ITERATIONS = 10000
+
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// Timezone helpers
+// ---------------------------------------------------------------------------
+
+interface LocalDateTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string) {
+  let formatter = formatterCache.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatterCache.set(timezone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Read the wall-clock date and time of an instant in a timezone
+ */
+export function toLocalDateTime(date: Date, timezone: string): LocalDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timezone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  )
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  }
+}
+
+/**
+ * Calendar day of an instant in a timezone, as "YYYY-MM-DD"
+ */
+export function localDayKey(date: Date, timezone: string): string {
+  const local = toLocalDateTime(date, timezone)
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to a UTC instant.
+ * Times that don't exist (skipped by a DST change) move forward by the gap.
+ */
+export function fromLocalDateTime(local: LocalDateTime, timezone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second)
+  const offsetAt = (instant: number) => {
+    const wall = toLocalDateTime(new Date(instant), timezone)
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - instant
+  }
+
+  const firstGuess = asUtc - offsetAt(asUtc)
+  const secondGuess = asUtc - offsetAt(firstGuess)
+  return new Date(secondGuess)
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Calendar helpers (dates are represented as UTC midnight of the local date)
+// ---------------------------------------------------------------------------
+
+function calendarDate(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function addCalendarDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[date.getUTCDay()]
+}
+
+export function weekdayIndex(weekday: Weekday) {
+  return WEEKDAYS.indexOf(weekday)
+}
+
+export function weekdayFromDate(date: Date, timezone = DEFAULT_TIMEZONE): Weekday {
+  const local = toLocalDateTime(date, timezone)
+  return weekdayOf(calendarDate(local.year, local.month, local.day))
+}
+
+function startOfWeek(date: Date, weekStart: Weekday) {
+  const diff = (date.getUTCDay() - weekdayIndex(weekStart) + 7) % 7
+  return addCalendarDays(date, -diff)
+}
+
+function sortUnique(dates: Date[]) {
+  const seen = new Map<number, Date>()
+  for (const date of dates) seen.set(date.getTime(), date)
+  return Array.from(seen.values()).sort((a, b) => a.getTime() - b.getTime())
+}
+
+function applySetPos(dates: Date[], bySetPos?: number[]) {
+  if (!bySetPos?.length) return dates
+  const picked: Date[] = []
+  for (const position of bySetPos) {
+    const index = position > 0 ? position - 1 : dates.length + position
+    if (index >= 0 && index < dates.length) picked.push(dates[index])
+  }
+  return sortUnique(picked)
+}
+
+/**
+ * Candidate dates within a single month, honouring BYDAY (with ordinals) and BYMONTHDAY
+ */
+function datesInMonth(year: number, month: number, rule: RecurrenceRule, anchorDay: number): Date[] {
+  const total = daysInMonth(year, month)
+  let candidates: Date[] = []
+
+  if (rule.byMonthDay?.length) {
+    for (const monthDay of rule.byMonthDay) {
+      const day = monthDay > 0 ? monthDay : total + monthDay + 1
+      if (day >= 1 && day <= total) candidates.push(calendarDate(year, month, day))
+    }
+  }
+
+  if (rule.byDay?.length) {
+    const byDayDates: Date[] = []
+    for (const spec of rule.byDay) {
+      const matching: Date[] = []
+      for (let day = 1; day <= total; day++) {
+        const date = calendarDate(year, month, day)
+        if (weekdayOf(date) === spec.weekday) matching.push(date)
+      }
+      if (spec.ordinal) {
+        const index = spec.ordinal > 0 ? spec.ordinal - 1 : matching.length + spec.ordinal
+        if (index >= 0 && index < matching.length) byDayDates.push(matching[index])
+      } else {
+        byDayDates.push(...matching)
+      }
+    }
+    // BYMONTHDAY and BYDAY together means both must match
+    candidates = rule.byMonthDay?.length
+      ? candidates.filter((date) => byDayDates.some((other) => other.getTime() === date.getTime()))
+      : byDayDates
+  }
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length && anchorDay <= total) {
+    // Months without the anchor day (e.g. the 31st) are skipped, as RFC 5545 requires
+    candidates.push(calendarDate(year, month, anchorDay))
+  }
+
+  return sortUnique(candidates)
+}
+
+/**
+ * Candidate dates for the period starting at `periodStart`
+ */
+function datesInPeriod(periodStart: Date, rule: RecurrenceRule, anchor: Date): Date[] {
+  switch (rule.freq) {
+    case "DAILY": {
+      const matchesDay = !rule.byDay?.length || rule.byDay.some((spec) => spec.weekday === weekdayOf(periodStart))
+      const matchesMonth = !rule.byMonth?.length || rule.byMonth.includes(periodStart.getUTCMonth() + 1)
+      return matchesDay && matchesMonth ? [periodStart] : []
+    }
+
+    case "WEEKLY": {
+      const weekdays = rule.byDay?.length ? rule.byDay.map((spec) => spec.weekday) : [weekdayOf(anchor)]
+      const dates: Date[] = []
+      for (let offset = 0; offset < 7; offset++) {
+        const date = addCalendarDays(periodStart, offset)
+        if (!weekdays.includes(weekdayOf(date))) continue
+        if (rule.byMonth?.length && !rule.byMonth.includes(date.getUTCMonth() + 1)) continue
+        dates.push(date)
+      }
+      return applySetPos(dates, rule.bySetPos)
+    }
+
+    case "MONTHLY": {
+      const year = periodStart.getUTCFullYear()
+      const month = periodStart.getUTCMonth() + 1
+      if (rule.byMonth?.length && !rule.byMonth.includes(month)) return []
+      return applySetPos(datesInMonth(year, month, rule, anchor.getUTCDate()), rule.bySetPos)
+    }
+
+    case "YEARLY": {
+      const year = periodStart.getUTCFullYear()
+      const months = rule.byMonth?.length ? rule.byMonth : [anchor.getUTCMonth() + 1]
+      const hasDayFilter = Boolean(rule.byDay?.length || rule.byMonthDay?.length)
+      const dates = months.flatMap((month) =>
+        hasDayFilter || rule.byMonth?.length
+          ? datesInMonth(year, month, rule, anchor.getUTCDate())
+          : month === anchor.getUTCMonth() + 1 && anchor.getUTCDate() <= daysInMonth(year, month)
+            ? [calendarDate(year, month, anchor.getUTCDate())]
+            : [],
+      )
+      return applySetPos(sortUnique(dates), rule.bySetPos)
+    }
+  }
+}
+
+function firstPeriod(anchor: Date, rule: RecurrenceRule) {
+  switch (rule.freq) {
+    case "DAILY":
+      return anchor
+    case "WEEKLY":
+      return startOfWeek(anchor, rule.weekStart ?? "MO")
+    case "MONTHLY":
+      return calendarDate(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 1)
+    case "YEARLY":
+      return calendarDate(anchor.getUTCFullYear(), 1, 1)
+  }
+}
+
+function nextPeriod(periodStart: Date, rule: RecurrenceRule) {
+  switch (rule.freq) {
+    case "DAILY":
+      return addCalendarDays(periodStart, rule.interval)
+    case "WEEKLY":
+      return addCalendarDays(periodStart, 7 * rule.interval)
+    case "MONTHLY":
+      return calendarDate(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1 + rule.interval, 1)
+    case "YEARLY":
+      return calendarDate(periodStart.getUTCFullYear() + rule.interval, 1, 1)
+  }
+}
+
+export interface ExpandOptions {
+  // Only return occurrences at or after this instant
+  from?: Date
+  // Only return occurrences at or before this instant
+  to?: Date
+  // Stop after returning this many occurrences
+  limit?: number
+}
+
+/**
+ * Expand a recurrence set into occurrence start times (UTC instants).
+ * COUNT is applied before EXDATEs are removed, so skipping a visit doesn't extend the series.
+ */
+export function expandRecurrence(set: RecurrenceSet, options: ExpandOptions = {}): Date[] {
+  const { rule, timezone } = set
+  const start = toLocalDateTime(set.dtstart, timezone)
+  const anchor = calendarDate(start.year, start.month, start.day)
+  const excluded = new Set(set.exdates.map((date) => date.getTime()))
+  const excludedDays = new Set(set.exdateDays ?? [])
+
+  const occurrences: Date[] = []
+  let generated = 0
+  let period = firstPeriod(anchor, rule)
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    for (const date of datesInPeriod(period, rule, anchor)) {
+      if (date < anchor) continue
+
+      const occurrence = fromLocalDateTime(
+        {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          hour: start.hour,
+          minute: start.minute,
+          second: start.second,
+        },
+        timezone,
+      )
+
+      if (rule.until && occurrence > rule.until) return occurrences
+      if (options.to && occurrence > options.to) return occurrences
+
+      generated++
+      if (rule.count && generated > rule.count) return occurrences
+
+      if (excluded.has(occurrence.getTime())) continue
+      if (excludedDays.has(date.toISOString().slice(0, 10))) continue
+      if (options.from && occurrence < options.from) continue
+
+      occurrences.push(occurrence)
+      if (options.limit && occurrences.length >= options.limit) return occurrences
+    }
+
+    period = nextPeriod(period, rule)
+  }
+
+  return occurrences
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and formatting
+// ---------------------------------------------------------------------------
+
+function parseIcsDateTime(value: string, timezone: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    throw new Error(`Invalid date "${value}" in recurrence rule`)
+  }
+  const [, year, month, day, hour = "00", minute = "00", second = "00", utc] = match
+  const parts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  }
+  return utc
+    ? new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second))
+    : fromLocalDateTime(parts, timezone)
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+function formatIcsUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function formatIcsLocal(date: Date, timezone: string) {
+  const local = toLocalDateTime(date, timezone)
+  return `${local.year}${pad(local.month)}${pad(local.day)}T${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`
+}
+
+function parseNumberList(value: string, name: string) {
+  const numbers = value.split(",").map((item) => parseInt(item, 10))
+  if (numbers.some((number) => !Number.isFinite(number) || number === 0)) {
+    throw new Error(`Invalid ${name} value "${value}"`)
+  }
+  return numbers
+}
+
+/**
+ * Parse an RRULE value such as "FREQ=MONTHLY;BYDAY=-1FR"
+ */
+export function parseRRule(value: string, timezone = DEFAULT_TIMEZONE): RecurrenceRule {
+  const text = value.trim().replace(/^RRULE:/i, "")
+  const parts = new Map<string, string>()
+  for (const segment of text.split(";")) {
+    if (!segment) continue
+    const [key, ...rest] = segment.split("=")
+    parts.set(key.trim().toUpperCase(), rest.join("=").trim().toUpperCase())
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error("Recurrence rule must have FREQ of DAILY, WEEKLY, MONTHLY or YEARLY")
+  }
+
+  const interval = parts.has("INTERVAL") ? parseInt(parts.get("INTERVAL")!, 10) : 1
+  if (!Number.isFinite(interval) || interval < 1) {
+    throw new Error("INTERVAL must be a positive number")
+  }
+
+  const rule: RecurrenceRule = { freq, interval }
+
+  if (parts.has("COUNT")) {
+    const count = parseInt(parts.get("COUNT")!, 10)
+    if (!Number.isFinite(count) || count < 1) {
+      throw new Error("COUNT must be a positive number")
+    }
+    rule.count = count
+  }
+
+  if (parts.has("UNTIL")) {
+    if (rule.count) {
+      throw new Error("A recurrence rule can't have both COUNT and UNTIL")
+    }
+    rule.until = parseIcsDateTime(parts.get("UNTIL")!, timezone)
+    if (!/T/.test(parts.get("UNTIL")!)) {
+      // A date-only UNTIL includes the whole day
+      rule.until = new Date(rule.until.getTime() + DAY_MS - 1000)
+    }
+  }
+
+  if (parts.has("BYDAY")) {
+    rule.byDay = parts
+      .get("BYDAY")!
+      .split(",")
+      .map((item) => {
+        const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/)
+        if (!match) {
+          throw new Error(`Invalid BYDAY value "${item}"`)
+        }
+        const ordinal = match[1] ? parseInt(match[1], 10) : undefined
+        return ordinal ? { weekday: match[2] as Weekday, ordinal } : { weekday: match[2] as Weekday }
+      })
+  }
+
+  if (parts.has("BYMONTHDAY")) rule.byMonthDay = parseNumberList(parts.get("BYMONTHDAY")!, "BYMONTHDAY")
+  if (parts.has("BYMONTH")) rule.byMonth = parseNumberList(parts.get("BYMONTH")!, "BYMONTH")
+  if (parts.has("BYSETPOS")) rule.bySetPos = parseNumberList(parts.get("BYSETPOS")!, "BYSETPOS")
+  if (parts.has("WKST")) {
+    const weekStart = parts.get("WKST") as Weekday
+    if (!WEEKDAYS.includes(weekStart)) {
+      throw new Error(`Invalid WKST value "${weekStart}"`)
+    }
+    rule.weekStart = weekStart
+  }
+
+  return rule
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${formatIcsUtc(rule.until)}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((spec) => `${spec.ordinal ?? ""}${spec.weekday}`).join(",")}`)
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`)
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`)
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`)
+  if (rule.weekStart && rule.weekStart !== "MO") parts.push(`WKST=${rule.weekStart}`)
+  return parts.join(";")
+}
+
+/**
+ * Parse a stored recurrence set (DTSTART, RRULE and EXDATE lines).
+ * `fallbackStart` is used when the text is a bare RRULE without a DTSTART line.
+ */
+export function parseRecurrenceSet(text: string, fallbackStart?: Date | null): RecurrenceSet {
+  let timezone = DEFAULT_TIMEZONE
+  let dtstartValue: string | null = null
+  let rruleValue: string | null = null
+  const exdateValues: Array<{ value: string; timezone: string }> = []
+  const exdateDays: string[] = []
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    // A bare "FREQ=..." line is accepted as an RRULE
+    const separator = /^FREQ=/i.test(line) ? -1 : line.indexOf(":")
+    const [rawName, ...params] = (separator === -1 ? "RRULE" : line.slice(0, separator)).split(";")
+    const name = rawName.toUpperCase()
+    const value = separator === -1 ? line : line.slice(separator + 1)
+    // TZID values are case-sensitive ("Europe/London"), so only the parameter name is normalised
+    const tzParam = params.find((param) => param.toUpperCase().startsWith("TZID="))
+    const lineTimezone = tzParam ? tzParam.slice("TZID=".length) : null
+
+    if (name === "DTSTART") {
+      if (lineTimezone) timezone = lineTimezone
+      dtstartValue = value
+    } else if (name === "RRULE") {
+      rruleValue = value
+    } else if (name === "EXDATE") {
+      for (const item of value.split(",").map((part) => part.trim())) {
+        // A date-only EXDATE skips that whole day rather than a single start time
+        const dateOnly = item.match(/^(\d{4})(\d{2})(\d{2})$/)
+        if (dateOnly) {
+          exdateDays.push(`${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`)
+        } else {
+          exdateValues.push({ value: item, timezone: lineTimezone ?? timezone })
+        }
+      }
+    }
+  }
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone "${timezone}"`)
+  }
+  if (!rruleValue) {
+    throw new Error("Recurrence rule is missing an RRULE")
+  }
+
+  const dtstart = dtstartValue ? parseIcsDateTime(dtstartValue, timezone) : fallbackStart
+  if (!dtstart) {
+    throw new Error("Recurrence rule is missing a DTSTART")
+  }
+
+  return {
+    dtstart,
+    timezone,
+    rule: parseRRule(rruleValue, timezone),
+    exdates: exdateValues.map((exdate) => parseIcsDateTime(exdate.value, exdate.timezone)),
+    exdateDays,
+  }
+}
+
+export function formatRecurrenceSet(set: RecurrenceSet): string {
+  const lines = [
+    `DTSTART;TZID=${set.timezone}:${formatIcsLocal(set.dtstart, set.timezone)}`,
+    `RRULE:${formatRRule(set.rule)}`,
+  ]
+  if (set.exdates.length > 0) {
+    const values = sortUnique(set.exdates).map((date) => formatIcsLocal(date, set.timezone))
+    lines.push(`EXDATE;TZID=${set.timezone}:${values.join(",")}`)
+  }
+  if (set.exdateDays?.length) {
+    const days = [...new Set(set.exdateDays)].sort().map((day) => day.replace(/-/g, ""))
+    lines.push(`EXDATE;VALUE=DATE:${days.join(",")}`)
+  }
+  return lines.join("\n")
+}
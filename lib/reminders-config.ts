@@ -1,28 +1,48 @@
+export type ReminderTier = "friendly" | "firm" | "final"
+
+export const REMINDER_TIERS: ReminderTier[] = ["friendly", "firm", "final"]
+
+export interface ReminderTemplate {
+  subject: string
+  body: string
+}
+
 export interface ReminderConfig {
   enabled: boolean
   daysBeforeDue: number[]
   daysAfterDue: number[]
-  emailTemplate: {
-    subject: string
-    body: string
-  }
+  // Overdue reminders escalate to the firm template from this many days after the due date...
+  firmAfterDays: number
+  // ...and to the final notice from this many
+  finalAfterDays: number
+  templates: Record<ReminderTier, ReminderTemplate>
 }
 
+export const MAX_REMINDER_OFFSET_DAYS = 365
+
+export const reminderTemplateVariables = [
+  "{invoiceNumber}",
+  "{customerName}",
+  "{amount}",
+  "{dueDate}",
+  "{daysOverdue}",
+  "{status}",
+  "{companyName}",
+  "{paymentInstructions}",
+]
+
 export const defaultReminderConfig: ReminderConfig = {
   enabled: true,
   daysBeforeDue: [7, 3, 1],
   daysAfterDue: [1, 7, 14, 30],
-  emailTemplate: {
-    subject: "Payment Reminder: Invoice {invoiceNumber}",
-    body: `Dear {customerName},
+  firmAfterDays: 7,
+  finalAfterDays: 30,
+  templates: {
+    friendly: {
+      subject: "Payment Reminder: Invoice {invoiceNumber}",
+      body: `Dear {customerName},
 
-This is a friendly reminder about invoice {invoiceNumber} for {amount}.
-
-Invoice Details:
-- Invoice Number: {invoiceNumber}
-- Amount: {amount}
-- Due Date: {dueDate}
-- Status: {status}
+This is a friendly reminder about invoice {invoiceNumber} for {amount}, due on {dueDate}.
 
 {paymentInstructions}
 
@@ -32,5 +52,98 @@ Thank you for your business!
 
 Best regards,
 {companyName}`,
+    },
+    firm: {
+      subject: "Overdue: Invoice {invoiceNumber}",
+      body: `Dear {customerName},
+
+Invoice {invoiceNumber} for {amount} was due on {dueDate} and is now {daysOverdue} days overdue.
+
+Please arrange payment as soon as possible. {paymentInstructions}
+
+If you have already paid, or there is a problem with this invoice, please get in touch.
+
+Regards,
+{companyName}`,
+    },
+    final: {
+      subject: "Final Notice: Invoice {invoiceNumber}",
+      body: `Dear {customerName},
+
+Despite previous reminders, invoice {invoiceNumber} for {amount} remains unpaid {daysOverdue} days after its due date of {dueDate}.
+
+Please make payment immediately. If we do not hear from you, we may suspend further services and take steps to recover the amount owed.
+
+{paymentInstructions}
+
+{companyName}`,
+    },
   },
 }
+
+/**
+ * Template tier for a reminder sent `daysOverdue` days after the due date (negative = before)
+ */
+export function getReminderTier(config: ReminderConfig, daysOverdue: number): ReminderTier {
+  if (daysOverdue >= config.finalAfterDays) return "final"
+  if (daysOverdue >= config.firmAfterDays) return "firm"
+  return "friendly"
+}
+
+function normalizeOffsets(raw: unknown, fallback: number[]) {
+  if (!Array.isArray(raw)) return [...fallback]
+  const offsets = raw
+    .map((value) => Math.round(Number(value)))
+    .filter((value) => Number.isFinite(value) && value >= 1 && value <= MAX_REMINDER_OFFSET_DAYS)
+  return Array.from(new Set(offsets)).sort((a, b) => a - b)
+}
+
+function normalizeTemplate(raw: any, fallback: ReminderTemplate): ReminderTemplate {
+  const subject = typeof raw?.subject === "string" && raw.subject.trim() ? raw.subject.trim() : fallback.subject
+  const body = typeof raw?.body === "string" && raw.body.trim() ? raw.body : fallback.body
+  return { subject: subject.slice(0, 500), body }
+}
+
+export function normalizeReminderConfig(raw: unknown): ReminderConfig {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return {
+      ...defaultReminderConfig,
+      templates: { ...defaultReminderConfig.templates },
+    }
+  }
+
+  const firmAfterDays = Number(parsed.firmAfterDays)
+  const finalAfterDays = Number(parsed.finalAfterDays)
+  const firm = Number.isFinite(firmAfterDays)
+    ? Math.max(0, Math.round(firmAfterDays))
+    : defaultReminderConfig.firmAfterDays
+  const final = Number.isFinite(finalAfterDays)
+    ? Math.max(firm, Math.round(finalAfterDays))
+    : Math.max(firm, defaultReminderConfig.finalAfterDays)
+
+  // Configs saved before templates were tiered only had a single emailTemplate
+  const templates = parsed.templates ?? (parsed.emailTemplate ? { friendly: parsed.emailTemplate } : {})
+
+  return {
+    enabled: parsed.enabled !== false,
+    daysBeforeDue: normalizeOffsets(parsed.daysBeforeDue, defaultReminderConfig.daysBeforeDue).reverse(),
+    daysAfterDue: normalizeOffsets(parsed.daysAfterDue, defaultReminderConfig.daysAfterDue),
+    firmAfterDays: firm,
+    finalAfterDays: final,
+    templates: {
+      friendly: normalizeTemplate(templates.friendly, defaultReminderConfig.templates.friendly),
+      firm: normalizeTemplate(templates.firm, defaultReminderConfig.templates.firm),
+      final: normalizeTemplate(templates.final, defaultReminderConfig.templates.final),
+    },
+  }
+}
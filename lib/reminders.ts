@@ -1,20 +1,65 @@
 import "server-only"
 
 import { db } from "@/lib/db"
-import { companies, customers, invoices, invoiceItems } from "@/lib/db/schema"
-import { defaultReminderConfig, ReminderConfig } from "./reminders-config"
-import { eq, and } from "drizzle-orm"
+import { companies, customers, invoices, invoiceItems, invoiceReminderLogs } from "@/lib/db/schema"
+import {
+  getReminderTier,
+  normalizeReminderConfig,
+  defaultReminderConfig,
+  ReminderConfig,
+  ReminderTier,
+} from "./reminders-config"
+import { eq, and, desc, inArray, ne } from "drizzle-orm"
 import { sendPaymentReminderEmail } from "./email"
+import { formatCurrency } from "./email/utils"
 import { generateInvoicePDF } from "./pdf-generator"
+import { getInvoicePaymentUrl } from "./invoice-payments"
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// Invoices in these states are still waiting for payment
+const REMINDABLE_STATUSES = ["sent", "overdue"]
+
+export class ReminderError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "ReminderError"
+  }
+}
+
+/**
+ * Whole days from the due date to `today` (negative = before the due date)
+ */
+function getDaysOverdue(dueAt: Date, today = new Date()) {
+  const dueDate = new Date(dueAt)
+  dueDate.setHours(0, 0, 0, 0)
+  const start = new Date(today)
+  start.setHours(0, 0, 0, 0)
+  return Math.round((start.getTime() - dueDate.getTime()) / DAY_MS)
+}
+
+/**
+ * Load a company's reminder configuration, falling back to the defaults
+ */
+export async function getReminderConfig(companyId: number): Promise<ReminderConfig> {
+  const company = await db?.query.companies.findFirst({
+    where: eq(companies.id, companyId),
+    columns: { reminderSettings: true },
+  })
+  return normalizeReminderConfig(company?.reminderSettings)
+}
 
 /**
- * Get invoices that need reminders sent
+ * Get invoices that need reminders sent today, with the schedule offset and template tier for each
  */
-export async function getInvoicesNeedingReminders(companyId: number) {
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
+export async function getInvoicesNeedingReminders(companyId: number, today = new Date()) {
+  const config = await getReminderConfig(companyId)
+  if (!config.enabled) return []
 
-  // Get all unpaid invoices
+  // Get all unpaid invoices for customers who haven't opted out
   const unpaidInvoices = await db
     ?.select({
       invoice: invoices,
@@ -22,36 +67,50 @@ export async function getInvoicesNeedingReminders(companyId: number) {
       company: companies,
     })
     .from(invoices)
-    .leftJoin(customers, eq(invoices.customerId, customers.id))
+    .innerJoin(customers, eq(invoices.customerId, customers.id))
     .leftJoin(companies, eq(invoices.companyId, companies.id))
-    .where(and(eq(invoices.companyId, companyId), eq(invoices.status, "sent")))
+    .where(
+      and(
+        eq(invoices.companyId, companyId),
+        inArray(invoices.status, REMINDABLE_STATUSES),
+        eq(customers.paymentRemindersOptOut, 0),
+      ),
+    )
 
   if (!unpaidInvoices) return []
 
-  const config = defaultReminderConfig
-
-  const invoicesNeedingReminders = unpaidInvoices.filter((item) => {
-    if (!item.invoice.dueAt) return false
-
-    const dueDate = new Date(item.invoice.dueAt)
-    dueDate.setHours(0, 0, 0, 0)
+  const due = unpaidInvoices.flatMap((item) => {
+    if (!item.invoice.dueAt) return []
+    if (parseFloat(item.invoice.amountDue) <= 0) return []
 
-    const daysDiff = Math.floor((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+    const daysOverdue = getDaysOverdue(item.invoice.dueAt, today)
+    const scheduled =
+      (daysOverdue < 0 && config.daysBeforeDue.includes(-daysOverdue)) ||
+      (daysOverdue > 0 && config.daysAfterDue.includes(daysOverdue))
+    if (!scheduled) return []
 
-    // Check if reminder should be sent before due date
-    if (daysDiff > 0 && config.daysBeforeDue.includes(daysDiff)) {
-      return true
-    }
-
-    // Check if reminder should be sent after due date
-    if (daysDiff < 0 && config.daysAfterDue.includes(Math.abs(daysDiff))) {
-      return true
-    }
-
-    return false
+    return [{ ...item, offsetDays: daysOverdue, tier: getReminderTier(config, daysOverdue) }]
   })
 
-  return invoicesNeedingReminders
+  if (due.length === 0) return []
+
+  // Drop reminders already sent (or being sent) for the same invoice and offset
+  const logged = await db
+    ?.select({ invoiceId: invoiceReminderLogs.invoiceId, offsetDays: invoiceReminderLogs.offsetDays })
+    .from(invoiceReminderLogs)
+    .where(
+      and(
+        inArray(
+          invoiceReminderLogs.invoiceId,
+          due.map((item) => item.invoice.id),
+        ),
+        ne(invoiceReminderLogs.status, "failed"),
+      ),
+    )
+
+  return due.filter(
+    (item) => !logged?.some((log) => log.invoiceId === item.invoice.id && log.offsetDays === item.offsetDays),
+  )
 }
 
 /**
@@ -62,36 +121,59 @@ export function generateReminderEmail(
   customer: any,
   company: any,
   config: ReminderConfig = defaultReminderConfig,
+  tier: ReminderTier = "friendly",
 ) {
+  const daysOverdue = invoice.dueAt ? Math.max(0, getDaysOverdue(invoice.dueAt)) : 0
   const replacements: Record<string, string> = {
     "{invoiceNumber}": invoice.invoiceNumber,
     "{customerName}": customer.name || `${customer.firstName} ${customer.lastName}`,
-    "{amount}": `GBP ${parseFloat(invoice.total).toFixed(2)}`,
+    "{amount}": formatCurrency(invoice.amountDue ?? invoice.total, invoice.currency || "GBP"),
     "{dueDate}": invoice.dueAt ? new Date(invoice.dueAt).toLocaleDateString("en-GB") : "N/A",
+    "{daysOverdue}": String(daysOverdue),
     "{status}": invoice.status,
     "{companyName}": company.name,
     "{paymentInstructions}": company.paymentInstructions || "Please make payment at your earliest convenience.",
   }
 
-  let subject = config.emailTemplate.subject
-  let body = config.emailTemplate.body
+  const template = config.templates[tier]
+  let subject = template.subject
+  let body = template.body
 
   Object.entries(replacements).forEach(([key, value]) => {
-    subject = subject.replace(new RegExp(key, "g"), value)
-    body = body.replace(new RegExp(key, "g"), value)
+    subject = subject.split(key).join(value)
+    body = body.split(key).join(value)
   })
 
   return { subject, body }
 }
 
+interface SendPaymentReminderOptions {
+  // Offset from the due date this reminder was scheduled for; omitted for manual sends
+  offsetDays?: number | null
+  trigger?: "automatic" | "manual"
+  sentById?: number | null
+}
+
 /**
- * Send payment reminder
- * In a real implementation, this would integrate with an email service
+ * Send a payment reminder and record it in the reminder log. Scheduled reminders are claimed in the
+ * log before sending, so a reminder already sent for the same invoice and offset is skipped.
  */
-export async function sendPaymentReminder(invoiceId: number, customerId: number, companyId: number) {
+export async function sendPaymentReminder(
+  invoiceId: number,
+  customerId: number,
+  companyId: number,
+  options: SendPaymentReminderOptions = {},
+) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const offsetDays = options.offsetDays ?? null
+  const trigger = options.trigger ?? "automatic"
+
   // Get invoice, customer, and company details
-  const [result] = (await db
-    ?.select({
+  const [result] = await db
+    .select({
       invoice: invoices,
       customer: customers,
       company: companies,
@@ -99,22 +181,54 @@ export async function sendPaymentReminder(invoiceId: number, customerId: number,
     .from(invoices)
     .leftJoin(customers, eq(invoices.customerId, customers.id))
     .leftJoin(companies, eq(invoices.companyId, companies.id))
-    .where(eq(invoices.id, invoiceId))) || []
+    .where(and(eq(invoices.id, invoiceId), eq(invoices.companyId, companyId), eq(invoices.customerId, customerId)))
 
   if (!result) {
-    throw new Error("Invoice not found")
+    throw new ReminderError("Invoice not found", 404)
   }
 
   const { invoice, customer, company } = result
 
   if (!customer?.email) {
-    throw new Error("Customer email not found")
+    throw new ReminderError("Customer email not found")
   }
 
-  const { subject, body } = generateReminderEmail(invoice, customer, company)
+  if (customer.paymentRemindersOptOut) {
+    throw new ReminderError("Customer has opted out of payment reminders")
+  }
+
+  const config = normalizeReminderConfig(company?.reminderSettings)
+  const dueDate = invoice.dueAt ? new Date(invoice.dueAt) : new Date()
+  const daysOverdue = Math.max(0, getDaysOverdue(dueDate))
+  const tier = getReminderTier(config, offsetDays ?? daysOverdue)
+  const { subject, body } = generateReminderEmail(invoice, customer, company, config, tier)
+
+  const [log] = await db
+    .insert(invoiceReminderLogs)
+    .values({
+      companyId,
+      invoiceId,
+      offsetDays,
+      tier,
+      trigger,
+      recipient: customer.email,
+      subject,
+      status: "sending",
+      sentById: options.sentById ?? null,
+    })
+    .onConflictDoUpdate({
+      target: [invoiceReminderLogs.invoiceId, invoiceReminderLogs.offsetDays],
+      set: { tier, trigger, recipient: customer.email, subject, status: "sending", error: null, createdAt: new Date() },
+      setWhere: eq(invoiceReminderLogs.status, "failed"),
+    })
+    .returning()
+
+  if (!log) {
+    return { sent: false, to: customer.email, subject, tier, reason: "Reminder already sent" }
+  }
 
   const items = await db
-    ?.select()
+    .select()
     .from(invoiceItems)
     .where(eq(invoiceItems.invoiceId, invoiceId))
     .orderBy(invoiceItems.sortOrder)
@@ -131,62 +245,78 @@ export async function sendPaymentReminder(invoiceId: number, customerId: number,
       address: company?.address || null,
       city: company?.city || null,
       postcode: company?.postcode || null,
+      vatNumber: company?.taxId || null,
     },
     customer: {
-      name: customer?.name || `${customer?.firstName || ""} ${customer?.lastName || ""}`.trim(),
-      email: customer?.email || "",
-      phone: customer?.phone || null,
-      address: customer?.address || null,
-      city: customer?.city || null,
-      postcode: customer?.postcode || null,
+      name: `${customer.firstName || ""} ${customer.lastName || ""}`.trim(),
+      email: customer.email || "",
+      phone: customer.phone || null,
+      address: customer.address || null,
+      city: customer.city || null,
+      postcode: customer.postcode || null,
     },
-    items: (items || []).map((item) => ({
+    items: items.map((item) => ({
       title: item.title,
       description: item.description,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       amount: item.amount,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
     })),
     subtotal: invoice.subtotal,
     taxRate: invoice.taxRate,
     taxAmount: invoice.taxAmount,
     discountAmount: invoice.discountAmount,
     total: invoice.total,
+    pricesIncludeVat: invoice.pricesIncludeVat === 1,
+    reverseCharge: invoice.reverseCharge === 1,
     notes: invoice.notes,
     terms: invoice.terms,
   })
 
   const pdfBuffer = Buffer.from(pdfDoc.output("arraybuffer"))
-
-  // Calculate days overdue
-  const dueDate = invoice.dueAt ? new Date(invoice.dueAt) : new Date()
-  const today = new Date()
-  const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)))
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+  const paymentUrl = await getInvoicePaymentUrl(invoice.id)
 
   // Send the reminder email
   try {
     await sendPaymentReminderEmail({
       customerEmail: customer.email,
-      customerName: customer.name || `${customer.firstName} ${customer.lastName}`,
+      customerName: `${customer.firstName} ${customer.lastName}`,
       invoiceNumber: invoice.invoiceNumber,
-      amount: invoice.total,
-      currency: "EUR",
+      amount: invoice.amountDue,
+      currency: invoice.currency || "GBP",
       dueDate,
       daysOverdue,
-      companyName: company.name,
-      paymentUrl: `${baseUrl}/portal/dashboard`,
+      companyName: company?.name || "Company",
+      paymentUrl,
       pdfBuffer,
+      tier,
+      subject,
+      message: body,
     })
   } catch (emailError) {
     console.error("Failed to send reminder email:", emailError)
+    await db
+      .update(invoiceReminderLogs)
+      .set({
+        status: "failed",
+        error: emailError instanceof Error ? emailError.message : String(emailError),
+      })
+      .where(eq(invoiceReminderLogs.id, log.id))
     throw new Error("Failed to send reminder email")
   }
 
+  await db
+    .update(invoiceReminderLogs)
+    .set({ status: "sent", sentAt: new Date() })
+    .where(eq(invoiceReminderLogs.id, log.id))
+
   return {
     sent: true,
     to: customer.email,
     subject,
+    tier,
   }
 }
 
@@ -200,7 +330,11 @@ export async function processReminders(companyId: number) {
 
   for (const item of invoicesNeedingReminders) {
     try {
-      const result = await sendPaymentReminder(item.invoice.id, item.invoice.customerId, companyId)
+      const result = await sendPaymentReminder(item.invoice.id, item.invoice.customerId, companyId, {
+        offsetDays: item.offsetDays,
+      })
+      // Another run got there first
+      if (!result.sent) continue
       results.push({ invoiceId: item.invoice.id, success: true, result })
     } catch (error) {
       console.error(`Failed to send reminder for invoice ${item.invoice.id}:`, error)
@@ -211,3 +345,22 @@ export async function processReminders(companyId: number) {
   return results
 }
 
+/**
+ * Most recent reminders sent for a company
+ */
+export async function getReminderLog(companyId: number, limit = 50) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  return db
+    .select({
+      log: invoiceReminderLogs,
+      invoiceNumber: invoices.invoiceNumber,
+    })
+    .from(invoiceReminderLogs)
+    .innerJoin(invoices, eq(invoiceReminderLogs.invoiceId, invoices.id))
+    .where(eq(invoiceReminderLogs.companyId, companyId))
+    .orderBy(desc(invoiceReminderLogs.createdAt))
+    .limit(limit)
+}
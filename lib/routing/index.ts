@@ -0,0 +1,337 @@
+import { db, schema } from "@/lib/db"
+import { and, eq, gte, inArray, lte, ne, notInArray } from "drizzle-orm"
+import { endOfDay, startOfDay } from "date-fns"
+import {
+  ensureJobCoordinates,
+  formatAddressForGeocoding,
+  geocodeAddress,
+  METERS_PER_MILE,
+  type Coordinates,
+} from "@/lib/geocoding"
+import { evaluateRoute, optimizeRoute, type RouteEvaluation, type RouteStop } from "./optimizer"
+
+export { estimateTravelMinutes, evaluateRoute, optimizeRoute } from "./optimizer"
+export type { RouteEvaluation, RouteLeg, RouteOptions, RouteStop, PlannedStop } from "./optimizer"
+
+// HMRC approved mileage allowance, used to put a cost on the distance saved
+export const MILEAGE_COST_PER_MILE = 0.45
+
+// Jobs in these states are already under way or finished and keep their place
+const FIXED_JOB_STATUSES = ["completed", "cancelled", "in_progress", "in-progress"]
+
+export interface RoutedJob {
+  id: number
+  title: string
+  status: string
+  customerName: string | null
+  address: string
+  scheduledFor: string
+  durationMinutes: number
+}
+
+export interface RouteSummary {
+  order: number[]
+  totalMiles: number
+  travelMinutes: number
+  minutesLate: number
+  legs: Array<{ fromJobId: number | null; toJobId: number | null; miles: number; travelMinutes: number }>
+  schedule: Array<{ jobId: number; startAt: string; endAt: string }>
+}
+
+export interface DailyRoute {
+  employee: { id: number; name: string; hasHomeLocation: boolean }
+  jobs: RoutedJob[]
+  unlocatedJobs: RoutedJob[]
+  current: RouteSummary
+  optimized: RouteSummary
+  savingMiles: number
+  savingPercent: number
+  savingCost: number
+}
+
+type RoutableJob = typeof schema.jobs.$inferSelect & {
+  customer: typeof schema.customers.$inferSelect | null
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits
+
+function toSummary(evaluation: RouteEvaluation): RouteSummary {
+  return {
+    order: evaluation.order,
+    totalMiles: round(evaluation.totalDistanceMeters / METERS_PER_MILE),
+    travelMinutes: Math.round(evaluation.totalTravelMinutes),
+    minutesLate: evaluation.minutesLate,
+    legs: evaluation.legs.map((leg) => ({
+      fromJobId: leg.fromJobId,
+      toJobId: leg.toJobId,
+      miles: round(leg.distanceMeters / METERS_PER_MILE),
+      travelMinutes: Math.round(leg.travelMinutes),
+    })),
+    schedule: evaluation.schedule.map((stop) => ({
+      jobId: stop.jobId,
+      startAt: stop.startAt.toISOString(),
+      endAt: stop.endAt.toISOString(),
+    })),
+  }
+}
+
+function getJobAddress(job: RoutableJob): string {
+  return formatAddressForGeocoding([job.location, job.city, job.postcode])
+}
+
+async function safeGeocode(address: string): Promise<Coordinates | null> {
+  if (!address) return null
+  try {
+    return await geocodeAddress(address)
+  } catch (error) {
+    console.error(`Failed to geocode "${address}":`, error)
+    return null
+  }
+}
+
+async function resolveJobCoordinates(job: RoutableJob): Promise<Coordinates | null> {
+  try {
+    return await ensureJobCoordinates(job)
+  } catch (error) {
+    console.error(`Failed to locate job ${job.id}:`, error)
+    return null
+  }
+}
+
+function toRoutedJob(job: RoutableJob): RoutedJob {
+  return {
+    id: job.id,
+    title: job.title,
+    status: job.status,
+    customerName: job.customer ? `${job.customer.firstName} ${job.customer.lastName}` : null,
+    address: getJobAddress(job),
+    scheduledFor: job.scheduledFor!.toISOString(),
+    durationMinutes: job.durationMinutes || 60,
+  }
+}
+
+/**
+ * Load each employee's routable jobs for a day, grouped by employee
+ */
+async function loadJobsByEmployee(companyId: number, date: Date, employeeId?: number) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const dayJobs = await db.query.jobs.findMany({
+    where: and(
+      eq(schema.jobs.companyId, companyId),
+      gte(schema.jobs.scheduledFor, startOfDay(date)),
+      lte(schema.jobs.scheduledFor, endOfDay(date)),
+      notInArray(schema.jobs.status, FIXED_JOB_STATUSES),
+    ),
+    with: {
+      customer: true,
+    },
+  })
+
+  if (dayJobs.length === 0) {
+    return new Map<number, RoutableJob[]>()
+  }
+
+  const assignments = await db
+    .select({ jobId: schema.jobAssignments.jobId, employeeId: schema.jobAssignments.employeeId })
+    .from(schema.jobAssignments)
+    .where(
+      and(
+        eq(schema.jobAssignments.companyId, companyId),
+        inArray(
+          schema.jobAssignments.jobId,
+          dayJobs.map((job) => job.id),
+        ),
+        ne(schema.jobAssignments.status, "declined"),
+      ),
+    )
+
+  const jobsByEmployee = new Map<number, RoutableJob[]>()
+  const addJob = (assigneeId: number, job: RoutableJob) => {
+    if (employeeId && assigneeId !== employeeId) return
+    const list = jobsByEmployee.get(assigneeId) ?? []
+    if (!list.some((existing) => existing.id === job.id)) {
+      list.push(job)
+    }
+    jobsByEmployee.set(assigneeId, list)
+  }
+
+  for (const job of dayJobs) {
+    if (job.assignedTo) addJob(job.assignedTo, job)
+  }
+  for (const assignment of assignments) {
+    const job = dayJobs.find((candidate) => candidate.id === assignment.jobId)
+    if (job) addJob(assignment.employeeId, job)
+  }
+
+  return jobsByEmployee
+}
+
+async function buildStops(jobs: RoutableJob[]) {
+  const stops: RouteStop[] = []
+  const unlocated: RoutableJob[] = []
+
+  // Jobs without stored coordinates are geocoded one at a time to stay within the rate limit
+  for (const job of jobs) {
+    const coordinates = await resolveJobCoordinates(job)
+    if (!coordinates) {
+      unlocated.push(job)
+      continue
+    }
+    stops.push({
+      id: job.id,
+      coordinates,
+      scheduledFor: job.scheduledFor!,
+      durationMinutes: job.durationMinutes || 60,
+    })
+  }
+
+  return { stops, unlocated }
+}
+
+async function getEmployeeStart(employee: typeof schema.employees.$inferSelect) {
+  const address = formatAddressForGeocoding([employee.address, employee.city, employee.postcode])
+  return safeGeocode(address)
+}
+
+/**
+ * Compare each employee's current route for the day with the optimized order
+ */
+export async function planDailyRoutes(
+  companyId: number,
+  date: Date,
+  options: { employeeId?: number; timeWindowMinutes?: number } = {},
+): Promise<DailyRoute[]> {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const jobsByEmployee = await loadJobsByEmployee(companyId, date, options.employeeId)
+  if (jobsByEmployee.size === 0) {
+    return []
+  }
+
+  const employees = await db.query.employees.findMany({
+    where: and(
+      eq(schema.employees.companyId, companyId),
+      inArray(schema.employees.id, Array.from(jobsByEmployee.keys())),
+    ),
+  })
+
+  const routes: DailyRoute[] = []
+
+  for (const employee of employees) {
+    const jobs = jobsByEmployee.get(employee.id) ?? []
+    const { stops, unlocated } = await buildStops(jobs)
+    const start = await getEmployeeStart(employee)
+    const routeOptions = { start, timeWindowMinutes: options.timeWindowMinutes }
+
+    const currentOrder = [...stops].sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+    const current = evaluateRoute(currentOrder, routeOptions)
+    const optimized = optimizeRoute(stops, routeOptions)
+    const savingMeters = Math.max(0, current.totalDistanceMeters - optimized.totalDistanceMeters)
+    const savingMiles = savingMeters / METERS_PER_MILE
+
+    routes.push({
+      employee: {
+        id: employee.id,
+        name: `${employee.firstName} ${employee.lastName}`,
+        hasHomeLocation: Boolean(start),
+      },
+      jobs: currentOrder.map((stop) => toRoutedJob(jobs.find((job) => job.id === stop.id)!)),
+      unlocatedJobs: unlocated.map(toRoutedJob),
+      current: toSummary(current),
+      optimized: toSummary(optimized),
+      savingMiles: round(savingMiles),
+      savingPercent: current.totalDistanceMeters > 0 ? round((savingMeters / current.totalDistanceMeters) * 100) : 0,
+      savingCost: round(savingMiles * MILEAGE_COST_PER_MILE, 2),
+    })
+  }
+
+  return routes.sort((a, b) => a.employee.name.localeCompare(b.employee.name))
+}
+
+/**
+ * Reschedule an employee's jobs for the day to follow the given order.
+ * The order is re-evaluated server-side so start times always respect the time windows.
+ */
+export async function applyRouteOrder(params: {
+  companyId: number
+  employeeId: number
+  date: Date
+  jobIds: number[]
+  userId: number
+  timeWindowMinutes?: number
+}) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  const database = db
+
+  const jobsByEmployee = await loadJobsByEmployee(params.companyId, params.date, params.employeeId)
+  const jobs = jobsByEmployee.get(params.employeeId) ?? []
+
+  const employee = await database.query.employees.findFirst({
+    where: and(eq(schema.employees.id, params.employeeId), eq(schema.employees.companyId, params.companyId)),
+  })
+  if (!employee) {
+    throw new Error("Employee not found")
+  }
+
+  // Jobs that couldn't be located are left where they are
+  const { stops } = await buildStops(jobs)
+  const stopIds = new Set(stops.map((stop) => stop.id))
+  if (params.jobIds.length !== stopIds.size || params.jobIds.some((id) => !stopIds.has(id))) {
+    throw new Error("Route has changed since it was optimized")
+  }
+
+  const orderedStops = params.jobIds.map((id) => stops.find((stop) => stop.id === id)!)
+
+  const evaluation = evaluateRoute(orderedStops, {
+    start: await getEmployeeStart(employee),
+    timeWindowMinutes: params.timeWindowMinutes,
+  })
+
+  if (!evaluation.feasible) {
+    throw new Error("This order would make jobs start outside their time windows")
+  }
+
+  return database.transaction(async (tx) => {
+    const updated = []
+
+    for (const stop of evaluation.schedule) {
+      const job = jobs.find((candidate) => candidate.id === stop.jobId)!
+      if (job.scheduledFor?.getTime() === stop.startAt.getTime()) continue
+
+      const [updatedJob] = await tx
+        .update(schema.jobs)
+        .set({
+          scheduledFor: stop.startAt,
+          scheduledEnd: stop.endAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.jobs.id, job.id))
+        .returning()
+
+      await tx.insert(schema.jobEvents).values({
+        jobId: job.id,
+        type: "route_optimized",
+        message: `Job "${job.title}" moved to ${stop.startAt.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })} by route optimization`,
+        meta: JSON.stringify({
+          originalDate: job.scheduledFor?.toISOString(),
+          newDate: stop.startAt.toISOString(),
+          employeeId: params.employeeId,
+          order: params.jobIds,
+          optimizedByUserId: params.userId,
+        }),
+        actorId: null,
+      })
+
+      updated.push(updatedJob)
+    }
+
+    return { updated, route: toSummary(evaluation) }
+  })
+}
@@ -0,0 +1,54 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { evaluateRoute, optimizeRoute, type RouteStop } from "@/lib/routing/optimizer"
+
+const at = (time: string) => new Date(`2026-03-02T${time}:00Z`)
+
+// Two stops about 1.1km apart along a line of latitude, and one far away
+const near = { lat: 51.5, lng: -0.12 }
+const nextDoor = { lat: 51.51, lng: -0.12 }
+const farAway = { lat: 51.6, lng: -0.12 }
+
+describe("evaluateRoute", () => {
+  test("never starts a job before its booked time", () => {
+    const stops: RouteStop[] = [
+      { id: 1, coordinates: near, scheduledFor: at("09:00"), durationMinutes: 30 },
+      { id: 2, coordinates: nextDoor, scheduledFor: at("13:00"), durationMinutes: 60 },
+    ]
+
+    const { schedule, feasible } = evaluateRoute(stops)
+
+    assert.equal(feasible, true)
+    assert.equal(schedule[1].startAt.getTime(), at("13:00").getTime())
+    assert.ok(schedule[1].arrivalAt < schedule[1].startAt)
+  })
+
+  test("is infeasible when a job would start after its window", () => {
+    const stops: RouteStop[] = [
+      { id: 1, coordinates: near, scheduledFor: at("09:00"), durationMinutes: 240 },
+      { id: 2, coordinates: farAway, scheduledFor: at("10:00"), durationMinutes: 60 },
+    ]
+
+    const evaluation = evaluateRoute(stops, { timeWindowMinutes: 60 })
+
+    assert.equal(evaluation.feasible, false)
+    assert.ok(evaluation.schedule[1].minutesLate > 0)
+  })
+})
+
+describe("optimizeRoute", () => {
+  test("keeps every job at or after its booked start", () => {
+    const stops: RouteStop[] = [
+      { id: 1, coordinates: farAway, scheduledFor: at("09:00"), durationMinutes: 60 },
+      { id: 2, coordinates: near, scheduledFor: at("10:00"), durationMinutes: 60 },
+      { id: 3, coordinates: nextDoor, scheduledFor: at("11:30"), durationMinutes: 60 },
+    ]
+
+    const { schedule } = optimizeRoute(stops, { start: near })
+
+    for (const stop of schedule) {
+      const booked = stops.find((candidate) => candidate.id === stop.jobId)!.scheduledFor
+      assert.ok(stop.startAt >= booked, `job ${stop.jobId} starts before its booked time`)
+    }
+  })
+})
@@ -0,0 +1,248 @@
+import { calculateDistanceMeters, type Coordinates } from "@/lib/geocoding"
+
+/**
+ * Route optimizer for a single cleaner's day.
+ *
+ * Orders stops with nearest-neighbour construction followed by 2-opt improvement,
+ * keeping every job within its time window after the originally scheduled start. Jobs never
+ * move earlier than the time the customer booked.
+ */
+
+export interface RouteStop {
+  id: number
+  coordinates: Coordinates
+  scheduledFor: Date
+  durationMinutes: number
+}
+
+export interface RouteOptions {
+  // Where the cleaner starts the day (usually their home address)
+  start?: Coordinates | null
+  // Whether mileage includes driving back to the start point
+  returnToStart?: boolean
+  // How far after its booked start a job may move
+  timeWindowMinutes?: number
+  averageSpeedKmh?: number
+  // Straight-line distance is multiplied by this to approximate road distance
+  roadFactor?: number
+}
+
+export interface RouteLeg {
+  fromJobId: number | null
+  toJobId: number | null
+  distanceMeters: number
+  travelMinutes: number
+}
+
+export interface PlannedStop {
+  jobId: number
+  arrivalAt: Date
+  startAt: Date
+  endAt: Date
+  minutesLate: number
+}
+
+export interface RouteEvaluation {
+  order: number[]
+  legs: RouteLeg[]
+  schedule: PlannedStop[]
+  totalDistanceMeters: number
+  totalTravelMinutes: number
+  minutesLate: number
+  feasible: boolean
+}
+
+const DEFAULT_TIME_WINDOW_MINUTES = 120
+const DEFAULT_AVERAGE_SPEED_KMH = 30
+const DEFAULT_ROAD_FACTOR = 1.3
+const MAX_TWO_OPT_PASSES = 50
+
+const MINUTE_MS = 60 * 1000
+
+function resolveOptions(options: RouteOptions) {
+  return {
+    start: options.start ?? null,
+    returnToStart: options.returnToStart ?? Boolean(options.start),
+    timeWindowMinutes: options.timeWindowMinutes ?? DEFAULT_TIME_WINDOW_MINUTES,
+    averageSpeedKmh: options.averageSpeedKmh ?? DEFAULT_AVERAGE_SPEED_KMH,
+    roadFactor: options.roadFactor ?? DEFAULT_ROAD_FACTOR,
+  }
+}
+
+type ResolvedOptions = ReturnType<typeof resolveOptions>
+
+function buildLeg(
+  from: Coordinates,
+  to: Coordinates,
+  fromJobId: number | null,
+  toJobId: number | null,
+  options: ResolvedOptions,
+): RouteLeg {
+  const distanceMeters = calculateDistanceMeters(from, to) * options.roadFactor
+  const travelMinutes = distanceMeters / 1000 / options.averageSpeedKmh * 60
+  return { fromJobId, toJobId, distanceMeters, travelMinutes }
+}
+
+/**
+ * Estimated driving time between two points, using the same speed and road factor as route planning
+ */
+export function estimateTravelMinutes(from: Coordinates, to: Coordinates, options: RouteOptions = {}) {
+  return buildLeg(from, to, null, null, resolveOptions(options)).travelMinutes
+}
+
+/**
+ * Simulate driving the stops in the given order and work out when each job can start.
+ * A job never starts before its booked time; arriving after its window closes makes the
+ * route infeasible.
+ */
+export function evaluateRoute(stops: RouteStop[], options: RouteOptions = {}): RouteEvaluation {
+  const resolved = resolveOptions(options)
+  const windowMs = resolved.timeWindowMinutes * MINUTE_MS
+  const legs: RouteLeg[] = []
+  const schedule: PlannedStop[] = []
+
+  // The working day begins when the earliest job was originally booked
+  const dayStartMs = stops.length
+    ? Math.min(...stops.map((stop) => stop.scheduledFor.getTime()))
+    : 0
+
+  let cursorMs = dayStartMs
+  let previous: RouteStop | null = null
+  let minutesLate = 0
+
+  for (const stop of stops) {
+    const fromCoordinates = previous?.coordinates ?? resolved.start
+    let arrivalMs = cursorMs
+
+    if (fromCoordinates) {
+      const leg = buildLeg(fromCoordinates, stop.coordinates, previous?.id ?? null, stop.id, resolved)
+      legs.push(leg)
+      // Travel from home happens before the working day starts
+      if (previous) {
+        arrivalMs = cursorMs + leg.travelMinutes * MINUTE_MS
+      }
+    }
+
+    // Arriving early means waiting for the booked time
+    const earliestMs = stop.scheduledFor.getTime()
+    const latestMs = earliestMs + windowMs
+    const startMs = Math.max(arrivalMs, earliestMs)
+    const lateMinutes = Math.max(0, (startMs - latestMs) / MINUTE_MS)
+    const endMs = startMs + stop.durationMinutes * MINUTE_MS
+
+    schedule.push({
+      jobId: stop.id,
+      arrivalAt: new Date(arrivalMs),
+      startAt: new Date(startMs),
+      endAt: new Date(endMs),
+      minutesLate: Math.round(lateMinutes),
+    })
+
+    minutesLate += lateMinutes
+    cursorMs = endMs
+    previous = stop
+  }
+
+  if (previous && resolved.start && resolved.returnToStart) {
+    legs.push(buildLeg(previous.coordinates, resolved.start, previous.id, null, resolved))
+  }
+
+  return {
+    order: stops.map((stop) => stop.id),
+    legs,
+    schedule,
+    totalDistanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+    totalTravelMinutes: legs.reduce((sum, leg) => sum + leg.travelMinutes, 0),
+    minutesLate: Math.round(minutesLate),
+    feasible: minutesLate === 0,
+  }
+}
+
+function isBetter(candidate: RouteEvaluation, best: RouteEvaluation): boolean {
+  if (candidate.feasible !== best.feasible) return candidate.feasible
+  if (!candidate.feasible && candidate.minutesLate !== best.minutesLate) {
+    return candidate.minutesLate < best.minutesLate
+  }
+  // Ignore sub-metre differences so floating point noise doesn't reorder equal routes
+  return candidate.totalDistanceMeters < best.totalDistanceMeters - 1
+}
+
+function nearestNeighbour(stops: RouteStop[], options: RouteOptions): RouteStop[] {
+  const resolved = resolveOptions(options)
+  const remaining = [...stops]
+  const route: RouteStop[] = []
+
+  let position = resolved.start
+  if (!position) {
+    // Without a home location, start from the earliest booked job
+    remaining.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+    const first = remaining.shift()!
+    route.push(first)
+    position = first.coordinates
+  }
+
+  while (remaining.length > 0) {
+    let bestIndex = -1
+    let bestEvaluation: RouteEvaluation | null = null
+
+    for (let i = 0; i < remaining.length; i++) {
+      const evaluation = evaluateRoute([...route, remaining[i]], options)
+      if (!bestEvaluation || isBetter(evaluation, bestEvaluation)) {
+        bestEvaluation = evaluation
+        bestIndex = i
+      }
+    }
+
+    route.push(remaining.splice(bestIndex, 1)[0])
+  }
+
+  return route
+}
+
+function twoOpt(stops: RouteStop[], options: RouteOptions): RouteStop[] {
+  let best = stops
+  let bestEvaluation = evaluateRoute(best, options)
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false
+
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)]
+        const evaluation = evaluateRoute(candidate, options)
+        if (isBetter(evaluation, bestEvaluation)) {
+          best = candidate
+          bestEvaluation = evaluation
+          improved = true
+        }
+      }
+    }
+
+    if (!improved) break
+  }
+
+  return best
+}
+
+/**
+ * Find the shortest feasible visiting order for a set of stops.
+ * The current order (by scheduled start) is always considered, so the result is never worse.
+ */
+export function optimizeRoute(stops: RouteStop[], options: RouteOptions = {}): RouteEvaluation {
+  const currentOrder = [...stops].sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+  if (stops.length < 2) {
+    return evaluateRoute(currentOrder, options)
+  }
+
+  const candidates = [twoOpt(nearestNeighbour(stops, options), options), twoOpt(currentOrder, options)]
+
+  let best = evaluateRoute(currentOrder, options)
+  for (const candidate of candidates) {
+    const evaluation = evaluateRoute(candidate, options)
+    if (isBetter(evaluation, best)) {
+      best = evaluation
+    }
+  }
+
+  return best
+}
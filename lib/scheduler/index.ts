@@ -0,0 +1,270 @@
+import { db, schema } from "@/lib/db"
+import { and, desc, eq, gte, inArray, lt, ne, sql } from "drizzle-orm"
+import { randomUUID } from "crypto"
+import { getScheduledTask, scheduledTasks, type ScheduledTask, type TaskResult } from "./tasks"
+
+export { scheduledTasks, getScheduledTask } from "./tasks"
+export type { ScheduledTask, TaskContext, TaskResult } from "./tasks"
+
+export type RunTrigger = "cron" | "manual" | "worker"
+
+export interface TaskRunOutcome {
+  task: string
+  companyId: number | null
+  status: "succeeded" | "failed" | "skipped"
+  runId?: number
+  result?: TaskResult
+  error?: string
+  // Why a run was skipped (already done in this window, or locked by another process)
+  reason?: string
+}
+
+const MINUTE_MS = 60 * 1000
+const DEFAULT_LOCK_TIMEOUT_MINUTES = 15
+
+// Identifies this process when holding task locks
+const PROCESS_ID = `${process.pid}-${randomUUID().slice(0, 8)}`
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+/**
+ * Start of the schedule window containing `now`. Each task runs at most once per window.
+ */
+export function getWindowStart(task: ScheduledTask, now = new Date()): Date {
+  const intervalMs = task.intervalMinutes * MINUTE_MS
+  const offsetMs = (task.offsetMinutes ?? 0) * MINUTE_MS
+  return new Date(Math.floor((now.getTime() - offsetMs) / intervalMs) * intervalMs + offsetMs)
+}
+
+export function getNextRunAt(task: ScheduledTask, now = new Date()): Date {
+  return new Date(getWindowStart(task, now).getTime() + task.intervalMinutes * MINUTE_MS)
+}
+
+function buildIdempotencyKey(task: ScheduledTask, companyId: number | null, windowStart: Date) {
+  return `${task.name}:${companyId ?? "global"}:${windowStart.toISOString()}`
+}
+
+/**
+ * Take a named lock, or return false if another process holds an unexpired one
+ */
+async function acquireLock(name: string, timeoutMinutes: number): Promise<boolean> {
+  const database = requireDb()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + timeoutMinutes * MINUTE_MS)
+
+  const [lock] = await database
+    .insert(schema.scheduledTaskLocks)
+    .values({ name, lockedBy: PROCESS_ID, lockedAt: now, expiresAt })
+    .onConflictDoUpdate({
+      target: schema.scheduledTaskLocks.name,
+      set: { lockedBy: PROCESS_ID, lockedAt: now, expiresAt },
+      setWhere: lt(schema.scheduledTaskLocks.expiresAt, now),
+    })
+    .returning()
+
+  return Boolean(lock)
+}
+
+async function releaseLock(name: string) {
+  const database = requireDb()
+  await database
+    .delete(schema.scheduledTaskLocks)
+    .where(and(eq(schema.scheduledTaskLocks.name, name), eq(schema.scheduledTaskLocks.lockedBy, PROCESS_ID)))
+}
+
+/**
+ * Record the start of a run. Returns null if this idempotency key has already succeeded.
+ * Failed runs are retried; so are "running" ones, since the caller holds the task lock and
+ * any such row must have been left behind by a crashed process.
+ */
+async function startRun(task: ScheduledTask, companyId: number | null, idempotencyKey: string, trigger: RunTrigger) {
+  const database = requireDb()
+  const [run] = await database
+    .insert(schema.scheduledTaskRuns)
+    .values({ task: task.name, companyId, idempotencyKey, trigger, status: "running" })
+    .onConflictDoUpdate({
+      target: schema.scheduledTaskRuns.idempotencyKey,
+      set: {
+        status: "running",
+        trigger,
+        attempts: sql`${schema.scheduledTaskRuns.attempts} + 1`,
+        error: null,
+        result: null,
+        startedAt: new Date(),
+        finishedAt: null,
+        durationMs: null,
+      },
+      setWhere: inArray(schema.scheduledTaskRuns.status, ["failed", "running"]),
+    })
+    .returning()
+
+  return run ?? null
+}
+
+async function executeRun(
+  task: ScheduledTask,
+  companyId: number | null,
+  windowStart: Date,
+  idempotencyKey: string,
+  trigger: RunTrigger,
+): Promise<TaskRunOutcome> {
+  const database = requireDb()
+  const run = await startRun(task, companyId, idempotencyKey, trigger)
+  if (!run) {
+    return { task: task.name, companyId, status: "skipped", reason: "Already run for this window" }
+  }
+
+  const startedAt = Date.now()
+  try {
+    const result = await task.run({ companyId, windowStart })
+    await database
+      .update(schema.scheduledTaskRuns)
+      .set({ status: "succeeded", result, finishedAt: new Date(), durationMs: Date.now() - startedAt })
+      .where(eq(schema.scheduledTaskRuns.id, run.id))
+    return { task: task.name, companyId, status: "succeeded", runId: run.id, result }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Scheduled task ${task.name} failed for ${companyId ?? "all companies"}:`, error)
+    await database
+      .update(schema.scheduledTaskRuns)
+      .set({ status: "failed", error: message, finishedAt: new Date(), durationMs: Date.now() - startedAt })
+      .where(eq(schema.scheduledTaskRuns.id, run.id))
+    return { task: task.name, companyId, status: "failed", runId: run.id, error: message }
+  }
+}
+
+async function getActiveCompanyIds(companyId?: number | null): Promise<number[]> {
+  const database = requireDb()
+  const rows = await database
+    .select({ id: schema.companies.id })
+    .from(schema.companies)
+    .where(
+      and(
+        ne(schema.companies.subscriptionStatus, "cancelled"),
+        companyId ? eq(schema.companies.id, companyId) : undefined,
+      ),
+    )
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Run one task for every company it applies to, holding the task's lock throughout.
+ * Manual runs use a fresh idempotency key so they always execute.
+ */
+export async function runTask(
+  task: ScheduledTask,
+  options: { trigger?: RunTrigger; companyId?: number | null; now?: Date } = {},
+): Promise<TaskRunOutcome[]> {
+  const trigger = options.trigger ?? "cron"
+  const now = options.now ?? new Date()
+  const windowStart = getWindowStart(task, now)
+
+  const lockName = `task:${task.name}`
+  if (!(await acquireLock(lockName, task.lockTimeoutMinutes ?? DEFAULT_LOCK_TIMEOUT_MINUTES))) {
+    return [{ task: task.name, companyId: options.companyId ?? null, status: "skipped", reason: "Task is already running" }]
+  }
+
+  try {
+    const companyIds = task.scope === "company" ? await getActiveCompanyIds(options.companyId) : [null]
+    const outcomes: TaskRunOutcome[] = []
+
+    // Companies are processed one at a time to keep load on the database and email provider low
+    for (const companyId of companyIds) {
+      const idempotencyKey =
+        trigger === "manual"
+          ? `${task.name}:${companyId ?? "global"}:manual:${now.toISOString()}`
+          : buildIdempotencyKey(task, companyId, windowStart)
+      outcomes.push(await executeRun(task, companyId, windowStart, idempotencyKey, trigger))
+    }
+
+    return outcomes
+  } finally {
+    await releaseLock(lockName)
+  }
+}
+
+/**
+ * Run every task whose current window hasn't been processed yet
+ */
+export async function runDueTasks(options: { trigger?: RunTrigger; taskNames?: string[]; now?: Date } = {}) {
+  const tasks = options.taskNames?.length
+    ? scheduledTasks.filter((task) => options.taskNames!.includes(task.name))
+    : scheduledTasks
+
+  const outcomes: TaskRunOutcome[] = []
+  for (const task of tasks) {
+    outcomes.push(...(await runTask(task, { trigger: options.trigger, now: options.now })))
+  }
+  return outcomes
+}
+
+export async function runTaskByName(name: string, options: { trigger?: RunTrigger; companyId?: number | null } = {}) {
+  const task = getScheduledTask(name)
+  if (!task) {
+    throw new Error(`Unknown task "${name}"`)
+  }
+  return runTask(task, options)
+}
+
+/**
+ * Last/next run and recent failures for each task, for the admin scheduler screen
+ */
+export async function getSchedulerStatus(options: { recentRunLimit?: number } = {}) {
+  const database = requireDb()
+  const now = new Date()
+  const since = new Date(now.getTime() - 24 * 60 * MINUTE_MS)
+  const taskNames = scheduledTasks.map((task) => task.name)
+
+  const lastRuns = await database
+    .select({
+      task: schema.scheduledTaskRuns.task,
+      lastStartedAt: sql<Date | null>`max(${schema.scheduledTaskRuns.startedAt})`,
+      lastSucceededAt: sql<Date | null>`max(${schema.scheduledTaskRuns.finishedAt}) filter (where ${schema.scheduledTaskRuns.status} = 'succeeded')`,
+      failuresLast24h: sql<number>`count(*) filter (where ${schema.scheduledTaskRuns.status} = 'failed' and ${schema.scheduledTaskRuns.startedAt} >= ${since})`,
+    })
+    .from(schema.scheduledTaskRuns)
+    .where(inArray(schema.scheduledTaskRuns.task, taskNames))
+    .groupBy(schema.scheduledTaskRuns.task)
+
+  const locks = await database
+    .select()
+    .from(schema.scheduledTaskLocks)
+    .where(gte(schema.scheduledTaskLocks.expiresAt, now))
+
+  const recentRuns = await database
+    .select({
+      run: schema.scheduledTaskRuns,
+      companyName: schema.companies.name,
+    })
+    .from(schema.scheduledTaskRuns)
+    .leftJoin(schema.companies, eq(schema.scheduledTaskRuns.companyId, schema.companies.id))
+    .orderBy(desc(schema.scheduledTaskRuns.startedAt))
+    .limit(options.recentRunLimit ?? 50)
+
+  const tasks = scheduledTasks.map((task) => {
+    const stats = lastRuns.find((row) => row.task === task.name)
+    const toDate = (value: Date | string | null | undefined) => (value ? new Date(value) : null)
+    return {
+      name: task.name,
+      label: task.label,
+      description: task.description,
+      scope: task.scope,
+      intervalMinutes: task.intervalMinutes,
+      lastRunAt: toDate(stats?.lastStartedAt),
+      lastSuccessAt: toDate(stats?.lastSucceededAt),
+      nextRunAt: getNextRunAt(task, now),
+      failuresLast24h: Number(stats?.failuresLast24h ?? 0),
+      running: locks.some((lock) => lock.name === `task:${task.name}`),
+    }
+  })
+
+  return {
+    tasks,
+    recentRuns: recentRuns.map(({ run, companyName }) => ({ ...run, companyName })),
+  }
+}
@@ -0,0 +1,202 @@
+import { db, schema } from "@/lib/db"
+import { and, eq, gte, isNull, isNotNull, ne, or } from "drizzle-orm"
+import { addWeeks } from "date-fns"
+import { processReminders } from "@/lib/reminders"
+import { updateOverdueInvoices } from "@/lib/invoice-utils"
+import { cleanupExpiredSessions } from "@/lib/auth"
+import { ContractScheduleError, generateContractJobs } from "@/lib/contract-jobs"
+import { syncJobSeries } from "@/lib/recurrence"
+import { sendCertificationExpiryAlerts } from "@/lib/employee-skills"
+import { runContractLifecycle } from "@/lib/contract-lifecycle"
+import { processSubscriptionBilling } from "@/lib/subscriptions"
+
+export interface TaskContext {
+  // Null for global tasks
+  companyId: number | null
+  // Start of the schedule window this run covers
+  windowStart: Date
+}
+
+export type TaskResult = Record<string, unknown>
+
+export interface ScheduledTask {
+  name: string
+  label: string
+  description: string
+  // Company tasks run once per company; global tasks run once in total
+  scope: "company" | "global"
+  intervalMinutes: number
+  // Minutes into each interval (UTC) before the task becomes due, e.g. 540 = 09:00 for daily tasks
+  offsetMinutes?: number
+  // A run holding the lock longer than this is assumed to have crashed
+  lockTimeoutMinutes?: number
+  run: (context: TaskContext) => Promise<TaskResult>
+}
+
+const HOUR = 60
+const DAY = 24 * HOUR
+
+// How far ahead recurring visits are created
+const RECURRING_JOBS_WEEKS_AHEAD = 8
+const CONTRACT_JOBS_WEEKS_AHEAD = 4
+
+function requireCompanyId(context: TaskContext) {
+  if (context.companyId === null) {
+    throw new Error("Company task run without a company")
+  }
+  return context.companyId
+}
+
+async function generateRecurringJobs(companyId: number): Promise<TaskResult> {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const now = new Date()
+  const horizon = addWeeks(now, RECURRING_JOBS_WEEKS_AHEAD)
+
+  // Job series (parents carry the recurrence rule)
+  const seriesParents = await db.query.jobs.findMany({
+    where: and(
+      eq(schema.jobs.companyId, companyId),
+      isNotNull(schema.jobs.recurrenceRule),
+      isNull(schema.jobs.parentJobId),
+      ne(schema.jobs.status, "cancelled"),
+      or(isNull(schema.jobs.recurrenceEndDate), gte(schema.jobs.recurrenceEndDate, now)),
+    ),
+  })
+
+  let seriesJobsCreated = 0
+  let seriesJobsRemoved = 0
+  const seriesErrors: Array<{ jobId: number; error: string }> = []
+  for (const parent of seriesParents) {
+    try {
+      const { created, removedJobIds } = await syncJobSeries(parent, { from: now, to: horizon })
+      seriesJobsCreated += created.length
+      seriesJobsRemoved += removedJobIds.length
+    } catch (error) {
+      seriesErrors.push({ jobId: parent.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  // Active contracts
+  const activeContracts = await db.query.contracts.findMany({
+    where: and(eq(schema.contracts.companyId, companyId), eq(schema.contracts.status, "active")),
+  })
+
+  let contractJobsCreated = 0
+  const contractErrors: Array<{ contractId: number; error: string }> = []
+  for (const contract of activeContracts) {
+    try {
+      const created = await generateContractJobs(contract, {
+        weeksAhead: CONTRACT_JOBS_WEEKS_AHEAD,
+        unassignConflicts: true,
+      })
+      contractJobsCreated += created.length
+    } catch (error) {
+      // Contracts without a usable schedule are reported but don't fail the whole run
+      if (!(error instanceof ContractScheduleError)) throw error
+      contractErrors.push({ contractId: contract.id, error: error.message })
+    }
+  }
+
+  if (seriesErrors.length > 0 && seriesErrors.length === seriesParents.length) {
+    throw new Error(`Failed to update ${seriesErrors.length} recurring series: ${seriesErrors[0].error}`)
+  }
+
+  return {
+    seriesChecked: seriesParents.length,
+    seriesJobsCreated,
+    seriesJobsRemoved,
+    seriesErrors,
+    contractsChecked: activeContracts.length,
+    contractJobsCreated,
+    contractErrors,
+  }
+}
+
+/**
+ * Every task the scheduler knows about. Add new background work here.
+ */
+export const scheduledTasks: ScheduledTask[] = [
+  {
+    name: "payment-reminders",
+    label: "Payment reminders",
+    description: "Email customers about unpaid invoices according to the company's reminder schedule",
+    scope: "company",
+    intervalMinutes: DAY,
+    offsetMinutes: 9 * HOUR,
+    lockTimeoutMinutes: 30,
+    run: async (context) => {
+      const results = await processReminders(requireCompanyId(context))
+      return {
+        processed: results.length,
+        sent: results.filter((result) => result.success).length,
+        failed: results.filter((result) => !result.success).length,
+      }
+    },
+  },
+  {
+    name: "overdue-invoices",
+    label: "Overdue invoices",
+    description: "Mark sent invoices past their due date as overdue",
+    scope: "company",
+    intervalMinutes: HOUR,
+    run: async (context) => ({
+      markedOverdue: await updateOverdueInvoices(requireCompanyId(context)),
+    }),
+  },
+  {
+    name: "recurring-jobs",
+    label: "Recurring jobs",
+    description: "Create upcoming visits for recurring job series and active contracts",
+    scope: "company",
+    intervalMinutes: DAY,
+    offsetMinutes: 2 * HOUR,
+    lockTimeoutMinutes: 60,
+    run: (context) => generateRecurringJobs(requireCompanyId(context)),
+  },
+  {
+    name: "contract-lifecycle",
+    label: "Contract lifecycle",
+    description: "Renew or close out ended contracts, send renewal notices and invoice contracts due for billing",
+    scope: "company",
+    intervalMinutes: DAY,
+    offsetMinutes: 6 * HOUR,
+    lockTimeoutMinutes: 60,
+    run: (context) => runContractLifecycle(requireCompanyId(context)),
+  },
+  {
+    name: "subscription-billing",
+    label: "Subscription billing",
+    description: "Create and invoice upcoming subscription visits, charge saved cards and retry failed payments",
+    scope: "company",
+    intervalMinutes: DAY,
+    offsetMinutes: 7 * HOUR,
+    lockTimeoutMinutes: 60,
+    run: (context) => processSubscriptionBilling(requireCompanyId(context)),
+  },
+  {
+    name: "certification-expiry",
+    label: "Certification expiry alerts",
+    description: "Warn employees and the company about certifications expiring in the next 30 days",
+    scope: "company",
+    intervalMinutes: DAY,
+    offsetMinutes: 8 * HOUR,
+    run: (context) => sendCertificationExpiryAlerts(requireCompanyId(context)),
+  },
+  {
+    name: "session-cleanup",
+    label: "Session cleanup",
+    description: "Delete expired user and employee sessions",
+    scope: "global",
+    intervalMinutes: HOUR,
+    run: async () => ({
+      deleted: await cleanupExpiredSessions(),
+    }),
+  },
+]
+
+export function getScheduledTask(name: string) {
+  return scheduledTasks.find((task) => task.name === name) ?? null
+}
@@ -0,0 +1,629 @@
+import { and, asc, eq, gte, inArray, lt, lte, ne, notInArray, or } from "drizzle-orm"
+import { addDays, endOfDay, format, startOfDay } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import { parseCoordinates, type Coordinates } from "@/lib/geocoding"
+import { estimateTravelMinutes } from "@/lib/routing"
+import { findAvailabilityGap, loadAvailability, type EmployeeAvailability } from "@/lib/employee-availability"
+
+// Jobs in these states don't keep anyone busy
+const NON_BOOKING_JOB_STATUSES = ["cancelled", "rejected"]
+const NON_BOOKING_SHIFT_STATUSES = ["cancelled"]
+
+// Roles allowed to assign work over a conflict
+const OVERRIDE_ROLES = ["admin", "owner", "manager"]
+
+const DEFAULT_JOB_MINUTES = 60
+
+export type SchedulingConflictType = "double_booking" | "time_off" | "outside_availability" | "travel_time"
+
+export interface SchedulingConflict {
+  type: SchedulingConflictType
+  employeeId: number
+  employeeName: string
+  message: string
+  // The job or shift being scheduled, when it already exists
+  slotKind: "job" | "shift"
+  slotId: number | null
+  // When the slot is booked (ISO strings, as stored with an override)
+  slotStart: string
+  slotEnd: string
+  // What it clashes with, and when that is booked
+  jobId?: number
+  shiftId?: number
+  timeOffRequestId?: number
+  clashStart?: string
+  clashEnd?: string
+  // Set on conflicts a manager has already overridden
+  overridden?: boolean
+}
+
+export interface ScheduleSlot {
+  kind: "job" | "shift"
+  // Existing job or shift being assigned or moved, so it isn't reported as clashing with itself
+  id?: number | null
+  employeeIds: number[]
+  start: Date
+  end: Date
+  // Job location, for the travel time check
+  coordinates?: Coordinates | null
+  // Jobs the employees are giving up in the same change, e.g. the other side of a swap
+  releasedJobIds?: number[]
+}
+
+export class SchedulingConflictError extends Error {
+  constructor(
+    public conflicts: SchedulingConflict[],
+    message = "This assignment conflicts with the schedule",
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "SchedulingConflictError"
+  }
+}
+
+export interface BookedJob {
+  id: number
+  title: string
+  start: Date
+  end: Date
+  employeeIds: number[]
+  coordinates: Coordinates | null
+}
+
+interface BookedShift {
+  id: number
+  employeeId: number
+  title: string | null
+  start: Date
+  end: Date
+}
+
+interface Leave {
+  id: number
+  employeeId: number
+  type: string
+  start: Date
+  end: Date
+}
+
+export interface ScheduleContext {
+  employees: Map<number, { name: string; availability: EmployeeAvailability }>
+  jobs: BookedJob[]
+  shifts: BookedShift[]
+  leave: Leave[]
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd
+}
+
+function formatTime(date: Date) {
+  return format(date, "HH:mm")
+}
+
+function formatDay(date: Date) {
+  return format(date, "EEE d MMM")
+}
+
+// Identifies one clash: who, what with, and when both sides were booked
+function clashKey(conflict: SchedulingConflict) {
+  return [
+    conflict.type,
+    conflict.employeeId,
+    conflict.jobId ?? "",
+    conflict.shiftId ?? "",
+    conflict.timeOffRequestId ?? "",
+    conflict.slotStart,
+    conflict.slotEnd,
+    conflict.clashStart ?? "",
+    conflict.clashEnd ?? "",
+  ].join("|")
+}
+
+export function canOverrideConflicts(role: string | null | undefined) {
+  return !!role && OVERRIDE_ROLES.includes(role)
+}
+
+export function getJobWindow(job: {
+  scheduledFor: Date | null
+  scheduledEnd?: Date | null
+  durationMinutes?: number | null
+}) {
+  if (!job.scheduledFor) return null
+  const start = new Date(job.scheduledFor)
+  const minutes = job.durationMinutes && job.durationMinutes > 0 ? job.durationMinutes : DEFAULT_JOB_MINUTES
+  const end = job.scheduledEnd ? new Date(job.scheduledEnd) : new Date(start.getTime() + minutes * 60000)
+  return { start, end }
+}
+
+/**
+ * Everything booked for the employees between two dates, widened to whole days
+ */
+export async function loadScheduleContext(
+  executor: DbExecutor,
+  companyId: number,
+  employeeIds: number[],
+  from: Date,
+  to: Date,
+): Promise<ScheduleContext> {
+  const { jobs, jobAssignments, shifts, timeOffRequests, employees } = schema
+  // Whole days either side, so the travel check can see the jobs before and after
+  const windowStart = startOfDay(from)
+  const windowEnd = endOfDay(to)
+
+  const employeeRows = await executor
+    .select({
+      id: employees.id,
+      firstName: employees.firstName,
+      lastName: employees.lastName,
+    })
+    .from(employees)
+    .where(and(eq(employees.companyId, companyId), inArray(employees.id, employeeIds)))
+
+  const assignedJobIds = executor
+    .select({ jobId: jobAssignments.jobId })
+    .from(jobAssignments)
+    .where(and(inArray(jobAssignments.employeeId, employeeIds), ne(jobAssignments.status, "declined")))
+
+  const jobRows = await executor
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      assignedTo: jobs.assignedTo,
+      scheduledFor: jobs.scheduledFor,
+      scheduledEnd: jobs.scheduledEnd,
+      durationMinutes: jobs.durationMinutes,
+      latitude: jobs.latitude,
+      longitude: jobs.longitude,
+    })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.companyId, companyId),
+        notInArray(jobs.status, NON_BOOKING_JOB_STATUSES),
+        gte(jobs.scheduledFor, addDays(windowStart, -1)),
+        lte(jobs.scheduledFor, windowEnd),
+        or(inArray(jobs.assignedTo, employeeIds), inArray(jobs.id, assignedJobIds)),
+      ),
+    )
+
+  const assignmentRows = jobRows.length
+    ? await executor
+        .select({ jobId: jobAssignments.jobId, employeeId: jobAssignments.employeeId })
+        .from(jobAssignments)
+        .where(
+          and(
+            inArray(
+              jobAssignments.jobId,
+              jobRows.map((job) => job.id),
+            ),
+            ne(jobAssignments.status, "declined"),
+          ),
+        )
+    : []
+
+  const shiftRows = await executor
+    .select()
+    .from(shifts)
+    .where(
+      and(
+        eq(shifts.companyId, companyId),
+        inArray(shifts.employeeId, employeeIds),
+        notInArray(shifts.status, NON_BOOKING_SHIFT_STATUSES),
+        lt(shifts.startTime, windowEnd),
+        gte(shifts.endTime, windowStart),
+      ),
+    )
+
+  const leaveRows = await executor
+    .select()
+    .from(timeOffRequests)
+    .where(
+      and(
+        eq(timeOffRequests.companyId, companyId),
+        inArray(timeOffRequests.employeeId, employeeIds),
+        eq(timeOffRequests.status, "approved"),
+        lte(timeOffRequests.startDate, windowEnd),
+        gte(timeOffRequests.endDate, addDays(windowStart, -1)),
+      ),
+    )
+
+  const availability = await loadAvailability(executor, employeeIds, windowStart, windowEnd)
+
+  const bookedJobs: BookedJob[] = []
+  for (const job of jobRows) {
+    const window = getJobWindow(job)
+    if (!window) continue
+    const assignees = new Set(
+      assignmentRows.filter((row) => row.jobId === job.id).map((row) => row.employeeId),
+    )
+    if (job.assignedTo) assignees.add(job.assignedTo)
+    bookedJobs.push({
+      id: job.id,
+      title: job.title,
+      ...window,
+      employeeIds: Array.from(assignees),
+      coordinates: parseCoordinates(job.latitude, job.longitude),
+    })
+  }
+
+  return {
+    employees: new Map(
+      employeeRows.map((employee) => [
+        employee.id,
+        {
+          name: `${employee.firstName} ${employee.lastName}`.trim(),
+          availability: availability.get(employee.id) ?? { windows: [], overrides: [] },
+        },
+      ]),
+    ),
+    jobs: bookedJobs,
+    shifts: shiftRows.map((shift) => ({
+      id: shift.id,
+      employeeId: shift.employeeId,
+      title: shift.title,
+      start: shift.startTime,
+      end: shift.endTime,
+    })),
+    // Leave covers whole days, from the start of the first to the end of the last
+    leave: leaveRows.map((request) => ({
+      id: request.id,
+      employeeId: request.employeeId,
+      type: request.type,
+      start: startOfDay(request.startDate),
+      end: endOfDay(request.endDate),
+    })),
+  }
+}
+
+export function detectConflicts(context: ScheduleContext, slot: ScheduleSlot): SchedulingConflict[] {
+  const conflicts: SchedulingConflict[] = []
+  const slotId = slot.id ?? null
+
+  for (const employeeId of slot.employeeIds) {
+    const employeeName = context.employees.get(employeeId)?.name ?? "Employee"
+    const base = {
+      employeeId,
+      employeeName,
+      slotKind: slot.kind,
+      slotId,
+      slotStart: slot.start.toISOString(),
+      slotEnd: slot.end.toISOString(),
+    }
+    const clashTimes = (clash: { start: Date; end: Date }) => ({
+      clashStart: clash.start.toISOString(),
+      clashEnd: clash.end.toISOString(),
+    })
+
+    if (slot.kind === "job") {
+      const otherJobs = context.jobs.filter(
+        (job) =>
+          job.id !== slotId && !slot.releasedJobIds?.includes(job.id) && job.employeeIds.includes(employeeId),
+      )
+
+      for (const job of otherJobs) {
+        if (overlaps(slot.start, slot.end, job.start, job.end)) {
+          conflicts.push({
+            ...base,
+            type: "double_booking",
+            jobId: job.id,
+            ...clashTimes(job),
+            message: `${employeeName} is already booked on "${job.title}" from ${formatTime(job.start)} to ${formatTime(job.end)} on ${formatDay(job.start)}`,
+          })
+        }
+      }
+
+      // Travel from the job before and to the job after, on the same day
+      if (slot.coordinates) {
+        const sameDay = otherJobs.filter(
+          (job) =>
+            job.coordinates &&
+            !overlaps(slot.start, slot.end, job.start, job.end) &&
+            startOfDay(job.start).getTime() === startOfDay(slot.start).getTime(),
+        )
+        const previous = sameDay
+          .filter((job) => job.end <= slot.start)
+          .sort((a, b) => b.end.getTime() - a.end.getTime())[0]
+        const next = sameDay
+          .filter((job) => job.start >= slot.end)
+          .sort((a, b) => a.start.getTime() - b.start.getTime())[0]
+
+        for (const [job, gapMinutes] of [
+          [previous, previous ? (slot.start.getTime() - previous.end.getTime()) / 60000 : 0],
+          [next, next ? (next.start.getTime() - slot.end.getTime()) / 60000 : 0],
+        ] as const) {
+          if (!job?.coordinates) continue
+          const travelMinutes = Math.ceil(estimateTravelMinutes(job.coordinates, slot.coordinates))
+          if (travelMinutes > gapMinutes) {
+            conflicts.push({
+              ...base,
+              type: "travel_time",
+              jobId: job.id,
+              ...clashTimes(job),
+              message: `${employeeName} needs about ${travelMinutes} minutes to travel ${job === previous ? "from" : "to"} "${job.title}" but only has ${Math.max(0, Math.floor(gapMinutes))}`,
+            })
+          }
+        }
+      }
+    } else {
+      for (const shift of context.shifts) {
+        if (shift.id === slotId || shift.employeeId !== employeeId) continue
+        if (overlaps(slot.start, slot.end, shift.start, shift.end)) {
+          conflicts.push({
+            ...base,
+            type: "double_booking",
+            shiftId: shift.id,
+            ...clashTimes(shift),
+            message: `${employeeName} already has ${shift.title ? `the "${shift.title}" shift` : "a shift"} from ${formatTime(shift.start)} to ${formatTime(shift.end)} on ${formatDay(shift.start)}`,
+          })
+        }
+      }
+    }
+
+    for (const leave of context.leave) {
+      if (leave.employeeId !== employeeId) continue
+      if (overlaps(slot.start, slot.end, leave.start, leave.end)) {
+        conflicts.push({
+          ...base,
+          type: "time_off",
+          timeOffRequestId: leave.id,
+          ...clashTimes(leave),
+          message: `${employeeName} is on approved ${leave.type} leave from ${formatDay(leave.start)} to ${formatDay(leave.end)}`,
+        })
+      }
+    }
+
+    const availability = context.employees.get(employeeId)?.availability
+    const unavailable = availability ? findAvailabilityGap(availability, slot.start, slot.end) : null
+    if (unavailable) {
+      conflicts.push({
+        ...base,
+        type: "outside_availability",
+        message: `${employeeName} is ${unavailable}`,
+      })
+    }
+  }
+
+  return conflicts
+}
+
+/**
+ * Check jobs or shifts about to be assigned against each employee's other jobs, shifts, approved
+ * time off, weekly availability and travel time between consecutive jobs.
+ * Returns the conflicts for each slot, in the order given.
+ */
+export async function findSlotConflicts(
+  executor: DbExecutor,
+  companyId: number,
+  slots: ScheduleSlot[],
+): Promise<SchedulingConflict[][]> {
+  const isChecked = (slot: ScheduleSlot) => slot.employeeIds.length > 0 && slot.end > slot.start
+  const checked = slots.filter(isChecked)
+  if (checked.length === 0) return slots.map(() => [])
+
+  const employeeIds = Array.from(new Set(checked.flatMap((slot) => slot.employeeIds)))
+  const from = new Date(Math.min(...checked.map((slot) => slot.start.getTime())))
+  const to = new Date(Math.max(...checked.map((slot) => slot.end.getTime())))
+
+  const context = await loadScheduleContext(executor, companyId, employeeIds, from, to)
+  return slots.map((slot) => (isChecked(slot) ? detectConflicts(context, slot) : []))
+}
+
+export async function findSchedulingConflicts(
+  executor: DbExecutor,
+  companyId: number,
+  slots: ScheduleSlot[],
+): Promise<SchedulingConflict[]> {
+  return (await findSlotConflicts(executor, companyId, slots)).flat()
+}
+
+/**
+ * Lock the employees' rows until the surrounding transaction ends, so two bookings for the same
+ * people are checked one after the other rather than both passing against the same schedule
+ */
+async function lockEmployees(executor: DbExecutor, companyId: number, employeeIds: number[]) {
+  if (employeeIds.length === 0) return
+  await executor
+    .select({ id: schema.employees.id })
+    .from(schema.employees)
+    .where(and(eq(schema.employees.companyId, companyId), inArray(schema.employees.id, employeeIds)))
+    .orderBy(asc(schema.employees.id))
+    .for("update")
+}
+
+/**
+ * Throw a SchedulingConflictError unless the slots are clear or a manager gave a reason to
+ * override. Returns the override reason when one was needed, so it can be recorded once the
+ * job or shift is saved. Run it in the transaction that saves the booking: the employees are
+ * locked until it commits.
+ */
+export async function assertNoSchedulingConflicts(
+  executor: DbExecutor,
+  companyId: number,
+  slots: ScheduleSlot[],
+  options: { overrideReason?: unknown; role?: string | null },
+): Promise<{
+  conflicts: SchedulingConflict[]
+  slotConflicts: SchedulingConflict[][]
+  overrideReason: string | null
+}> {
+  await lockEmployees(executor, companyId, Array.from(new Set(slots.flatMap((slot) => slot.employeeIds))))
+
+  const slotConflicts = await findSlotConflicts(executor, companyId, slots)
+  const conflicts = slotConflicts.flat()
+  if (conflicts.length === 0) {
+    return { conflicts, slotConflicts, overrideReason: null }
+  }
+
+  const reason = typeof options.overrideReason === "string" ? options.overrideReason.trim() : ""
+  if (!reason) {
+    throw new SchedulingConflictError(conflicts)
+  }
+  if (!canOverrideConflicts(options.role)) {
+    throw new SchedulingConflictError(conflicts, "Only managers can override scheduling conflicts", 403)
+  }
+
+  return { conflicts, slotConflicts, overrideReason: reason }
+}
+
+export async function recordConflictOverride(
+  executor: DbExecutor,
+  companyId: number,
+  input: {
+    entityType: "job" | "shift"
+    entityId: number
+    conflicts: SchedulingConflict[]
+    reason: string
+    overriddenById?: number | null
+  },
+) {
+  await executor.insert(schema.schedulingConflictOverrides).values({
+    companyId,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    conflicts: input.conflicts,
+    reason: input.reason,
+    overriddenById: input.overriddenById ?? null,
+  })
+
+  if (input.entityType === "job") {
+    await executor.insert(schema.jobEvents).values({
+      jobId: input.entityId,
+      type: "conflict_overridden",
+      message: `Scheduling conflict overridden: ${input.reason}`,
+      meta: JSON.stringify({
+        conflicts: input.conflicts.map((conflict) => conflict.message),
+        overriddenByUserId: input.overriddenById ?? null,
+      }),
+      actorId: null,
+    })
+  }
+}
+
+/**
+ * Conflicts on every assigned job and shift in a date range, for the calendar views.
+ * Clashes a manager has already overridden are included and flagged; a clash that has changed
+ * since (other booking, other times) is reported afresh.
+ */
+export async function getScheduleConflicts(companyId: number, from: Date, to: Date) {
+  const database = requireDb()
+  const { jobs, jobAssignments, shifts, schedulingConflictOverrides } = schema
+
+  const jobRows = await database
+    .select({
+      id: jobs.id,
+      assignedTo: jobs.assignedTo,
+      scheduledFor: jobs.scheduledFor,
+      scheduledEnd: jobs.scheduledEnd,
+      durationMinutes: jobs.durationMinutes,
+      latitude: jobs.latitude,
+      longitude: jobs.longitude,
+    })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.companyId, companyId),
+        notInArray(jobs.status, [...NON_BOOKING_JOB_STATUSES, "completed"]),
+        gte(jobs.scheduledFor, from),
+        lt(jobs.scheduledFor, to),
+      ),
+    )
+
+  const assignmentRows = jobRows.length
+    ? await database
+        .select({ jobId: jobAssignments.jobId, employeeId: jobAssignments.employeeId })
+        .from(jobAssignments)
+        .where(
+          and(
+            inArray(
+              jobAssignments.jobId,
+              jobRows.map((job) => job.id),
+            ),
+            ne(jobAssignments.status, "declined"),
+          ),
+        )
+    : []
+
+  const shiftRows = await database
+    .select()
+    .from(shifts)
+    .where(
+      and(
+        eq(shifts.companyId, companyId),
+        notInArray(shifts.status, NON_BOOKING_SHIFT_STATUSES),
+        gte(shifts.startTime, from),
+        lt(shifts.startTime, to),
+      ),
+    )
+
+  const slots: ScheduleSlot[] = []
+  for (const job of jobRows) {
+    const window = getJobWindow(job)
+    if (!window) continue
+    const employeeIds = new Set(
+      assignmentRows.filter((row) => row.jobId === job.id).map((row) => row.employeeId),
+    )
+    if (job.assignedTo) employeeIds.add(job.assignedTo)
+    slots.push({
+      kind: "job",
+      id: job.id,
+      employeeIds: Array.from(employeeIds),
+      ...window,
+      coordinates: parseCoordinates(job.latitude, job.longitude),
+    })
+  }
+  for (const shift of shiftRows) {
+    slots.push({ kind: "shift", id: shift.id, employeeIds: [shift.employeeId], start: shift.startTime, end: shift.endTime })
+  }
+
+  const conflicts = await findSchedulingConflicts(database, companyId, slots)
+  if (conflicts.length === 0) return conflicts
+
+  const conflictedIds = (kind: ScheduleSlot["kind"]) =>
+    Array.from(
+      new Set(
+        conflicts
+          .filter((conflict) => conflict.slotKind === kind && conflict.slotId)
+          .map((conflict) => conflict.slotId as number),
+      ),
+    )
+  const jobIds = conflictedIds("job")
+  const shiftIds = conflictedIds("shift")
+
+  const overrides = await database
+    .select({
+      entityType: schedulingConflictOverrides.entityType,
+      entityId: schedulingConflictOverrides.entityId,
+      conflicts: schedulingConflictOverrides.conflicts,
+    })
+    .from(schedulingConflictOverrides)
+    .where(
+      and(
+        eq(schedulingConflictOverrides.companyId, companyId),
+        or(
+          and(eq(schedulingConflictOverrides.entityType, "job"), inArray(schedulingConflictOverrides.entityId, jobIds)),
+          and(eq(schedulingConflictOverrides.entityType, "shift"), inArray(schedulingConflictOverrides.entityId, shiftIds)),
+        ),
+      ),
+    )
+
+  // An override only covers the clashes it was shown, at the times they were booked
+  const overridden = new Set(
+    overrides.flatMap((override) =>
+      (Array.isArray(override.conflicts) ? (override.conflicts as SchedulingConflict[]) : []).map(
+        (conflict) => `${override.entityType}:${override.entityId}:${clashKey(conflict)}`,
+      ),
+    ),
+  )
+  return conflicts.map((conflict) => ({
+    ...conflict,
+    overridden: overridden.has(`${conflict.slotKind}:${conflict.slotId}:${clashKey(conflict)}`),
+  }))
+}
@@ -0,0 +1,381 @@
+import { and, eq, gte, inArray, lt, ne } from "drizzle-orm"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { ServiceArea } from "@/lib/db/schema"
+import {
+  calculateDistanceMeters,
+  formatAddressForGeocoding,
+  geocodeAddress,
+  parseCoordinates,
+  type Coordinates,
+} from "@/lib/geocoding"
+
+/**
+ * Service area resolution and surcharges.
+ *
+ * An address belongs to the active area whose postcode prefix matches it most specifically
+ * ("SW1A" beats "SW1", which beats "SW"). Addresses no prefix covers fall back to the radius
+ * areas, nearest centre first, which needs the address geocoding.
+ */
+
+export interface ServiceAreaLocation {
+  postcode?: string | null
+  // Street address parts, only geocoded when no postcode prefix matches
+  address?: Array<string | null | undefined>
+  coordinates?: Coordinates | null
+}
+
+export interface ServiceAreaMatch {
+  area: ServiceArea
+  matchedBy: "postcode" | "radius"
+  distanceKm: number | null
+}
+
+export interface ServiceAreaResolution {
+  // False when the company hasn't set up any active areas, so nowhere counts as out of area
+  hasAreas: boolean
+  match: ServiceAreaMatch | null
+}
+
+export interface QuoteItemInput {
+  title: string
+  description?: string | null
+  quantity?: number | string | null
+  unitPrice?: number | string | null
+  amount?: number | string | null
+  serviceAreaId?: number | null
+}
+
+export function normalizePostcodePrefix(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+/**
+ * Postcode prefixes stored on an area; a JSON array, or comma separated in older rows
+ */
+export function parseAreaPostcodes(value: string | null | undefined): string[] {
+  if (!value) return []
+  let items: unknown[] = []
+  try {
+    const parsed = JSON.parse(value)
+    items = Array.isArray(parsed) ? parsed : []
+  } catch {
+    items = value.split(",")
+  }
+  return Array.from(new Set(items.map((item) => normalizePostcodePrefix(String(item))).filter(Boolean)))
+}
+
+/**
+ * Whether a postcode falls under a prefix, respecting the area/district boundary:
+ * "SW1" covers "SW1A 1AA" but not "SW10 9AA", and "S" (Sheffield) doesn't cover "SW".
+ */
+export function postcodeMatchesPrefix(postcode: string, prefix: string) {
+  const normalized = normalizePostcodePrefix(postcode)
+  const normalizedPrefix = normalizePostcodePrefix(prefix)
+  if (!normalizedPrefix || !normalized.startsWith(normalizedPrefix)) return false
+
+  // Full postcodes end in a three character inward code; what is left is the outward code
+  const outward = normalized.length >= 5 ? normalized.slice(0, -3) : normalized
+  if (normalizedPrefix.length >= outward.length) return true
+
+  const next = outward[normalizedPrefix.length]
+  return /\d$/.test(normalizedPrefix) ? !/\d/.test(next) : /\d/.test(next)
+}
+
+function matchByPostcode(areas: ServiceArea[], postcode: string): ServiceArea | null {
+  let best: { area: ServiceArea; length: number } | null = null
+  for (const area of areas) {
+    for (const prefix of parseAreaPostcodes(area.postcodes)) {
+      if (postcodeMatchesPrefix(postcode, prefix) && (!best || prefix.length > best.length)) {
+        best = { area, length: prefix.length }
+      }
+    }
+  }
+  return best?.area ?? null
+}
+
+function matchByRadius(areas: ServiceArea[], point: Coordinates) {
+  let best: { area: ServiceArea; distanceKm: number } | null = null
+  for (const area of areas) {
+    const centre = parseCoordinates(area.centerLat, area.centerLng)
+    const radiusKm = area.radius ? parseFloat(area.radius) : NaN
+    if (!centre || !Number.isFinite(radiusKm) || radiusKm <= 0) continue
+    const distanceKm = calculateDistanceMeters(centre, point) / 1000
+    if (distanceKm <= radiusKm && (!best || distanceKm < best.distanceKm)) {
+      best = { area, distanceKm }
+    }
+  }
+  return best
+}
+
+export async function listActiveServiceAreas(executor: DbExecutor, companyId: number) {
+  return executor
+    .select()
+    .from(schema.serviceAreas)
+    .where(and(eq(schema.serviceAreas.companyId, companyId), eq(schema.serviceAreas.isActive, 1)))
+}
+
+/**
+ * Match an address against already loaded areas. Only geocodes when a radius area could
+ * still match.
+ */
+export async function matchServiceArea(
+  areas: ServiceArea[],
+  location: ServiceAreaLocation,
+): Promise<ServiceAreaMatch | null> {
+  if (location.postcode) {
+    const area = matchByPostcode(areas, location.postcode)
+    if (area) return { area, matchedBy: "postcode", distanceKm: null }
+  }
+
+  const radiusAreas = areas.filter((area) => area.radius && area.centerLat && area.centerLng)
+  if (radiusAreas.length === 0) return null
+
+  let point = location.coordinates ?? null
+  if (!point) {
+    const address = formatAddressForGeocoding([...(location.address ?? []), location.postcode])
+    if (!address) return null
+    try {
+      point = await geocodeAddress(address)
+    } catch (error) {
+      console.error(`Failed to geocode "${address}" for service areas:`, error)
+      return null
+    }
+  }
+  if (!point) return null
+
+  const nearest = matchByRadius(radiusAreas, point)
+  if (!nearest) return null
+  return { area: nearest.area, matchedBy: "radius", distanceKm: Math.round(nearest.distanceKm * 10) / 10 }
+}
+
+export async function resolveServiceArea(
+  companyId: number,
+  location: ServiceAreaLocation,
+  executor: DbExecutor | null = db,
+): Promise<ServiceAreaResolution> {
+  if (!executor) {
+    throw new Error("Database not configured")
+  }
+  const areas = await listActiveServiceAreas(executor, companyId)
+  if (areas.length === 0) {
+    return { hasAreas: false, match: null }
+  }
+  return { hasAreas: true, match: await matchServiceArea(areas, location) }
+}
+
+/**
+ * Surcharge for an area on a price: the fixed amount plus the percentage of the price
+ */
+export function calculateAreaSurcharge(
+  area: Pick<ServiceArea, "surchargeAmount" | "surchargePercent"> | null | undefined,
+  price: number,
+) {
+  if (!area) return 0
+  const fixed = area.surchargeAmount ? parseFloat(area.surchargeAmount) || 0 : 0
+  const percent = area.surchargePercent ? parseFloat(area.surchargePercent) || 0 : 0
+  const surcharge = fixed + (Math.max(price, 0) * percent) / 100
+  return Math.round(surcharge * 100) / 100
+}
+
+/**
+ * Price with the area surcharge added, as stored on jobs and booking requests
+ */
+export function applyAreaSurcharge(
+  area: Pick<ServiceArea, "surchargeAmount" | "surchargePercent"> | null | undefined,
+  price: number | string | null | undefined,
+) {
+  const base = typeof price === "number" ? price : parseFloat(price ?? "")
+  if (!Number.isFinite(base)) {
+    return { price: null, surcharge: null }
+  }
+  const surcharge = calculateAreaSurcharge(area, base)
+  return {
+    price: (base + surcharge).toFixed(2),
+    surcharge: surcharge > 0 ? surcharge.toFixed(2) : null,
+  }
+}
+
+/**
+ * Quote lines with the area surcharge line replaced by one for the customer's current area.
+ * Lines added for a surcharge carry the area id, so editing a quote never stacks them.
+ */
+export function withAreaSurchargeItem(items: QuoteItemInput[], area: ServiceArea | null) {
+  const lines = items.filter((item) => !item.serviceAreaId)
+  const subtotal = lines.reduce((sum, item) => sum + (parseFloat(String(item.amount ?? 0)) || 0), 0)
+  const surcharge = calculateAreaSurcharge(area, subtotal)
+  if (!area || surcharge <= 0) return lines
+
+  return [
+    ...lines,
+    {
+      title: `${area.name} area surcharge`,
+      description: null,
+      quantity: 1,
+      unitPrice: surcharge.toFixed(2),
+      amount: surcharge.toFixed(2),
+      serviceAreaId: area.id,
+    },
+  ]
+}
+
+/**
+ * Area for a customer's saved address, as used for their quotes
+ */
+export async function resolveCustomerServiceArea(executor: DbExecutor, companyId: number, customerId: number) {
+  const [customer] = await executor
+    .select({
+      address: schema.customers.address,
+      city: schema.customers.city,
+      postcode: schema.customers.postcode,
+      latitude: schema.customers.latitude,
+      longitude: schema.customers.longitude,
+    })
+    .from(schema.customers)
+    .where(and(eq(schema.customers.id, customerId), eq(schema.customers.companyId, companyId)))
+  if (!customer) return null
+
+  const { match } = await resolveServiceArea(
+    companyId,
+    {
+      postcode: customer.postcode,
+      address: [customer.address, customer.city],
+      coordinates: parseCoordinates(customer.latitude, customer.longitude),
+    },
+    executor,
+  )
+  return match?.area ?? null
+}
+
+export interface ServiceAreaReportRow {
+  // Null for work outside every area
+  areaId: number | null
+  name: string
+  isActive: boolean
+  jobs: number
+  completedJobs: number
+  revenue: number
+  surchargeRevenue: number
+  avgDurationMinutes: number
+  // Cleaners who worked in the area over the period
+  staff: number
+  customers: number
+}
+
+/**
+ * Jobs, revenue and staff coverage per area over a period. Jobs without a stored area (made
+ * before areas were tracked) are placed by postcode; revenue counts completed jobs only.
+ */
+export async function getServiceAreaReport(companyId: number, from: Date, to: Date) {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+
+  const [areas, jobs, customers] = await Promise.all([
+    db.select().from(schema.serviceAreas).where(eq(schema.serviceAreas.companyId, companyId)),
+    db
+      .select({
+        id: schema.jobs.id,
+        serviceAreaId: schema.jobs.serviceAreaId,
+        postcode: schema.jobs.postcode,
+        status: schema.jobs.status,
+        assignedTo: schema.jobs.assignedTo,
+        durationMinutes: schema.jobs.durationMinutes,
+        estimatedPrice: schema.jobs.estimatedPrice,
+        actualPrice: schema.jobs.actualPrice,
+        areaSurcharge: schema.jobs.areaSurcharge,
+      })
+      .from(schema.jobs)
+      .where(
+        and(
+          eq(schema.jobs.companyId, companyId),
+          gte(schema.jobs.scheduledFor, from),
+          lt(schema.jobs.scheduledFor, to),
+          ne(schema.jobs.status, "cancelled"),
+        ),
+      ),
+    db
+      .select({ postcode: schema.customers.postcode })
+      .from(schema.customers)
+      .where(and(eq(schema.customers.companyId, companyId), ne(schema.customers.status, "merged"))),
+  ])
+
+  const assignments =
+    jobs.length > 0
+      ? await db
+          .select({ jobId: schema.jobAssignments.jobId, employeeId: schema.jobAssignments.employeeId })
+          .from(schema.jobAssignments)
+          .where(
+            inArray(
+              schema.jobAssignments.jobId,
+              jobs.map((job) => job.id),
+            ),
+          )
+      : []
+  const staffByJob = new Map<number, Set<number>>()
+  for (const job of jobs) {
+    staffByJob.set(job.id, new Set(job.assignedTo ? [job.assignedTo] : []))
+  }
+  for (const assignment of assignments) {
+    staffByJob.get(assignment.jobId)?.add(assignment.employeeId)
+  }
+
+  const areaIds = new Set(areas.map((area) => area.id))
+  const areaFor = (serviceAreaId: number | null, postcode: string | null) => {
+    if (serviceAreaId && areaIds.has(serviceAreaId)) return serviceAreaId
+    return postcode ? matchByPostcode(areas, postcode)?.id ?? null : null
+  }
+
+  type RowTotals = ServiceAreaReportRow & { staffIds: Set<number>; durationSum: number; durationCount: number }
+  const totals = new Map<number | null, RowTotals>()
+  const rowFor = (areaId: number | null) => {
+    let row = totals.get(areaId)
+    if (!row) {
+      const area = areas.find((item) => item.id === areaId)
+      row = {
+        areaId,
+        name: area?.name ?? "Outside all areas",
+        isActive: area ? area.isActive === 1 : false,
+        jobs: 0,
+        completedJobs: 0,
+        revenue: 0,
+        surchargeRevenue: 0,
+        avgDurationMinutes: 0,
+        staff: 0,
+        customers: 0,
+        staffIds: new Set(),
+        durationSum: 0,
+        durationCount: 0,
+      }
+      totals.set(areaId, row)
+    }
+    return row
+  }
+  for (const area of areas) rowFor(area.id)
+
+  for (const job of jobs) {
+    const row = rowFor(areaFor(job.serviceAreaId, job.postcode))
+    row.jobs += 1
+    staffByJob.get(job.id)?.forEach((employeeId) => row.staffIds.add(employeeId))
+    if (job.durationMinutes && job.durationMinutes > 0) {
+      row.durationSum += job.durationMinutes
+      row.durationCount += 1
+    }
+    if (job.status === "completed") {
+      row.completedJobs += 1
+      row.revenue += parseFloat(job.actualPrice ?? job.estimatedPrice ?? "0") || 0
+      row.surchargeRevenue += parseFloat(job.areaSurcharge ?? "0") || 0
+    }
+  }
+
+  for (const customer of customers) {
+    rowFor(areaFor(null, customer.postcode)).customers += 1
+  }
+
+  return Array.from(totals.values()).map(({ staffIds, durationSum, durationCount, ...row }) => ({
+    ...row,
+    revenue: Math.round(row.revenue * 100) / 100,
+    surchargeRevenue: Math.round(row.surchargeRevenue * 100) / 100,
+    avgDurationMinutes: durationCount > 0 ? Math.round(durationSum / durationCount) : 0,
+    staff: staffIds.size,
+  }))
+}
@@ -0,0 +1,148 @@
+import { generateFileName, getFileType } from "@/lib/file-storage"
+import { createLocalStorage } from "./local"
+import { createS3Storage } from "./s3"
+import { createSupabaseStorage } from "./supabase"
+
+/**
+ * Private file storage for uploads. Files live outside `public` in the backend picked by
+ * STORAGE_DRIVER (local, s3 or supabase) and are only ever handed out as short-lived signed
+ * URLs, after the route serving them has checked the caller may see them.
+ */
+
+export const STORAGE_DRIVERS = ["local", "s3", "supabase"] as const
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number]
+
+// How long a signed URL stays valid
+export const SIGNED_URL_TTL_SECONDS = 15 * 60
+
+// Longest edge of generated image thumbnails, in pixels
+const THUMBNAIL_SIZE = 400
+
+export interface StoredObject {
+  body: Buffer
+  contentType: string
+}
+
+export interface StorageBackend {
+  driver: StorageDriver
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>
+}
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public status = 500,
+  ) {
+    super(message)
+    this.name = "StorageError"
+  }
+}
+
+let backend: StorageBackend | null = null
+
+export function getStorage(): StorageBackend {
+  if (backend) return backend
+
+  const driver = (process.env.STORAGE_DRIVER || "local") as StorageDriver
+  switch (driver) {
+    case "local":
+      backend = createLocalStorage()
+      break
+    case "s3":
+      backend = createS3Storage()
+      break
+    case "supabase":
+      backend = createSupabaseStorage()
+      break
+    default:
+      throw new StorageError(`Unknown STORAGE_DRIVER "${driver}". Use one of: ${STORAGE_DRIVERS.join(", ")}`)
+  }
+  return backend
+}
+
+// Keys are namespaced by company so a key alone never crosses tenants
+export function buildStorageKey(companyId: number, category: string, fileName: string) {
+  const safeCategory = category.replace(/[^a-z0-9_-]/gi, "") || "files"
+  const safeName = fileName.replace(/[^a-z0-9._-]/gi, "-").replace(/^\.+/, "")
+  return `companies/${companyId}/${safeCategory}/${safeName}`
+}
+
+export async function createThumbnail(body: Buffer, mimeType: string): Promise<Buffer | null> {
+  if (getFileType(mimeType) !== "image") return null
+  try {
+    const { default: sharp } = await import("sharp")
+    return await sharp(body)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer()
+  } catch (error) {
+    // A broken or unsupported image still uploads, just without a thumbnail
+    console.error("Failed to generate thumbnail:", error)
+    return null
+  }
+}
+
+/**
+ * Store an uploaded file (and a thumbnail for images) under the company's namespace
+ */
+export async function storeUpload(
+  file: File,
+  options: { companyId: number; category: string; fileName?: string },
+): Promise<{ fileName: string; storageKey: string; thumbnailKey: string | null }> {
+  const storage = getStorage()
+  const fileName = options.fileName || generateFileName(file.name)
+  const storageKey = buildStorageKey(options.companyId, options.category, fileName)
+  const body = Buffer.from(await file.arrayBuffer())
+
+  await storage.put(storageKey, body, file.type || "application/octet-stream")
+
+  let thumbnailKey: string | null = null
+  const thumbnail = await createThumbnail(body, file.type)
+  if (thumbnail) {
+    thumbnailKey = buildStorageKey(options.companyId, "thumbnails", `${fileName.replace(/\.[^.]+$/, "")}.webp`)
+    await storage.put(thumbnailKey, thumbnail, "image/webp")
+  }
+
+  return { fileName, storageKey, thumbnailKey }
+}
+
+export async function getSignedFileUrl(key: string, expiresInSeconds = SIGNED_URL_TTL_SECONDS) {
+  return getStorage().getSignedUrl(key, expiresInSeconds)
+}
+
+type FileRow = {
+  url: string | null
+  thumbnailUrl: string | null
+  storageKey: string | null
+  thumbnailKey: string | null
+}
+
+/**
+ * Swap a file row's stored keys for signed URLs. Rows uploaded before private storage keep
+ * the URL they were saved with.
+ */
+export async function withSignedUrls<T extends FileRow>(row: T): Promise<T> {
+  if (!row.storageKey) return row
+  const [url, thumbnailUrl] = await Promise.all([
+    getSignedFileUrl(row.storageKey),
+    row.thumbnailKey ? getSignedFileUrl(row.thumbnailKey) : null,
+  ])
+  return { ...row, url, thumbnailUrl: thumbnailUrl ?? url }
+}
+
+export async function deleteStoredFiles(...keys: Array<string | null | undefined>) {
+  const storage = getStorage()
+  for (const key of keys) {
+    if (!key) continue
+    try {
+      await storage.delete(key)
+    } catch (error) {
+      // The row is already gone; an orphaned object is better than a failed delete
+      console.error(`Failed to delete stored file ${key}:`, error)
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+import path from "path"
+import { createHmac, timingSafeEqual } from "crypto"
+import type { StorageBackend } from "./index"
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+}
+
+export function getLocalStorageRoot() {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "storage"))
+}
+
+function getSigningSecret() {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("Set STORAGE_SIGNING_SECRET (or NEXTAUTH_SECRET) to serve files from local storage")
+  }
+  return secret
+}
+
+// Resolve a key inside the storage root, refusing anything that climbs out of it
+function resolveKey(key: string) {
+  const root = getLocalStorageRoot()
+  const filePath = path.resolve(root, key)
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error("Invalid storage key")
+  }
+  return filePath
+}
+
+function sign(key: string, expires: number) {
+  return createHmac("sha256", getSigningSecret()).update(`${key}:${expires}`).digest("hex")
+}
+
+/**
+ * Check a signature issued by the local backend. Used by the route that serves local files.
+ */
+export function verifyLocalSignature(key: string, expires: number, signature: string) {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false
+  const expected = Buffer.from(sign(key, expires), "hex")
+  const given = Buffer.from(signature, "hex")
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+/**
+ * Files on local disk outside `public`, served through /api/files with an HMAC-signed expiry
+ */
+export function createLocalStorage(): StorageBackend {
+  return {
+    driver: "local",
+
+    async put(key, body) {
+      const filePath = resolveKey(key)
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, body)
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key)
+      try {
+        const body = await readFile(filePath)
+        return {
+          body,
+          contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] || "application/octet-stream",
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true })
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      const encodedKey = key.split("/").map(encodeURIComponent).join("/")
+      return `/api/files/${encodedKey}?expires=${expires}&signature=${sign(key, expires)}`
+    },
+  }
+}
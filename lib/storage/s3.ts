@@ -0,0 +1,177 @@
+import { createHash, createHmac } from "crypto"
+import type { StorageBackend } from "./index"
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...) signed with AWS Signature V4.
+ * Objects are private; reads go through presigned GET URLs.
+ *
+ * S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required. S3_REGION defaults to
+ * us-east-1. Set S3_ENDPOINT for anything other than AWS (e.g. http://localhost:9000 for
+ * MinIO); custom endpoints use path-style addressing unless S3_FORCE_PATH_STYLE=false.
+ */
+
+interface S3Config {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  endpoint: string
+  pathStyle: boolean
+}
+
+function readConfig(): S3Config {
+  const bucket = process.env.S3_BUCKET
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+  }
+  const region = process.env.S3_REGION || "us-east-1"
+  const customEndpoint = process.env.S3_ENDPOINT?.replace(/\/+$/, "")
+  return {
+    bucket,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    endpoint: customEndpoint || `https://s3.${region}.amazonaws.com`,
+    pathStyle: customEndpoint ? process.env.S3_FORCE_PATH_STYLE !== "false" : false,
+  }
+}
+
+const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex")
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest()
+
+// RFC 3986 encoding, as SigV4 expects
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function objectUrl(config: S3Config, key: string) {
+  const encodedKey = key.split("/").map(encodeRfc3986).join("/")
+  const endpoint = new URL(config.endpoint)
+  if (config.pathStyle) {
+    return new URL(`${endpoint.origin}/${config.bucket}/${encodedKey}`)
+  }
+  return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodedKey}`)
+}
+
+function amzDates(now: Date) {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "")
+  return { amzDate, dateStamp: amzDate.slice(0, 8) }
+}
+
+function signature(config: S3Config, dateStamp: string, stringToSign: string) {
+  const dateKey = hmac(`AWS4${config.secretAccessKey}`, dateStamp)
+  const regionKey = hmac(dateKey, config.region)
+  const serviceKey = hmac(regionKey, "s3")
+  const signingKey = hmac(serviceKey, "aws4_request")
+  return createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+}
+
+function canonicalQuery(params: URLSearchParams) {
+  return [...params.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&")
+}
+
+async function signedRequest(
+  config: S3Config,
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  body?: Buffer,
+  contentType?: string,
+) {
+  const url = objectUrl(config, key)
+  const { amzDate, dateStamp } = amzDates(new Date())
+  const payloadHash = sha256Hex(body ?? "")
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  }
+  if (contentType) headers["content-type"] = contentType
+
+  const headerNames = Object.keys(headers).sort()
+  const signedHeaders = headerNames.join(";")
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n")
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+
+  // fetch sets Host itself
+  const requestHeaders: Record<string, string> = { ...headers }
+  delete requestHeaders.host
+  return fetch(url, {
+    method,
+    headers: {
+      ...requestHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature(config, dateStamp, stringToSign)}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  })
+}
+
+async function describeFailure(response: Response) {
+  const text = await response.text().catch(() => "")
+  const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1]
+  return `${response.status}${code ? ` ${code}` : ""}`
+}
+
+export function createS3Storage(): StorageBackend {
+  const config = readConfig()
+
+  return {
+    driver: "s3",
+
+    async put(key, body, contentType) {
+      const response = await signedRequest(config, "PUT", key, body, contentType)
+      if (!response.ok) {
+        throw new Error(`S3 upload failed: ${await describeFailure(response)}`)
+      }
+    },
+
+    async get(key) {
+      const response = await signedRequest(config, "GET", key)
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(`S3 download failed: ${await describeFailure(response)}`)
+      }
+      return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+      }
+    },
+
+    async delete(key) {
+      const response = await signedRequest(config, "DELETE", key)
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed: ${await describeFailure(response)}`)
+      }
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      const url = objectUrl(config, key)
+      const { amzDate, dateStamp } = amzDates(new Date())
+      const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+      const params = new URLSearchParams({
+        "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+        "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+        "X-Amz-Date": amzDate,
+        "X-Amz-Expires": String(expiresInSeconds),
+        "X-Amz-SignedHeaders": "host",
+      })
+      const query = canonicalQuery(params)
+      const canonicalRequest = ["GET", url.pathname, query, `host:${url.host}\n`, "host", "UNSIGNED-PAYLOAD"].join("\n")
+      const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+      return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature(config, dateStamp, stringToSign)}`
+    },
+  }
+}
@@ -0,0 +1,50 @@
+import { supabase } from "@/lib/supabase"
+import type { StorageBackend } from "./index"
+
+/**
+ * Supabase Storage. Uses a private bucket (SUPABASE_STORAGE_BUCKET, default "uploads")
+ * and Supabase's own signed URLs for reads.
+ */
+export function createSupabaseStorage(): StorageBackend {
+  if (!supabase) {
+    throw new Error(
+      "Supabase Storage is not configured. Please add NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to your environment variables.",
+    )
+  }
+  const bucket = supabase.storage.from(process.env.SUPABASE_STORAGE_BUCKET || "uploads")
+
+  return {
+    driver: "supabase",
+
+    async put(key, body, contentType) {
+      const { error } = await bucket.upload(key, body, { contentType, cacheControl: "3600", upsert: false })
+      if (error) {
+        throw new Error(`Upload failed: ${error.message}`)
+      }
+    },
+
+    async get(key) {
+      const { data, error } = await bucket.download(key)
+      if (error || !data) return null
+      return {
+        body: Buffer.from(await data.arrayBuffer()),
+        contentType: data.type || "application/octet-stream",
+      }
+    },
+
+    async delete(key) {
+      const { error } = await bucket.remove([key])
+      if (error) {
+        throw new Error(`Delete failed: ${error.message}`)
+      }
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      const { data, error } = await bucket.createSignedUrl(key, expiresInSeconds)
+      if (error || !data) {
+        throw new Error(`Could not sign URL: ${error?.message || "unknown error"}`)
+      }
+      return data.signedUrl
+    },
+  }
+}
@@ -1,8 +1,16 @@
 import Stripe from "stripe"
 
+// Set STRIPE_API_BASE (e.g. http://localhost:12111) to run against stripe-mock instead of the live API
+const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null
+
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-12-15.clover",
   typescript: true,
+  ...(apiBase && {
+    host: apiBase.hostname,
+    port: apiBase.port || (apiBase.protocol === "http:" ? 80 : 443),
+    protocol: apiBase.protocol === "http:" ? "http" : "https",
+  }),
 })
 
 export const SUBSCRIPTION_PLANS = {
@@ -0,0 +1,887 @@
+import { and, asc, desc, eq, inArray, isNotNull, lte } from "drizzle-orm"
+import { addDays, addMinutes, format } from "date-fns"
+import Stripe from "stripe"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Customer, Subscription, SubscriptionCycle } from "@/lib/db/schema"
+import { stripe } from "@/lib/stripe"
+import { allocateDocumentNumber } from "@/lib/numbering"
+import { priceInvoice } from "@/lib/invoice-utils"
+import {
+  getInvoicePaymentUrl,
+  isInvoicePayable,
+  recordPaymentIntentPayment,
+  toMinorUnits,
+} from "@/lib/invoice-payments"
+import { atLocalTime, getNextOccurrence, getSubscriptionRecurrence, legacyFrequencyToRule } from "@/lib/recurrence"
+import { sendSubscriptionPaymentFailedEmail } from "@/lib/email"
+
+/**
+ * Customer self-service subscriptions. A customer picks one of the company's plans in the portal
+ * and saves a card through a Stripe Checkout session in setup mode. The scheduler then bills each
+ * visit BILLING_LEAD_DAYS ahead: it creates the visit as an unassigned job, raises the invoice and
+ * charges the saved card off-session. Declined charges are retried on the dunning schedule, with an
+ * email to the customer after every failure.
+ *
+ * A subscription's nextBillingDate is the start of its next visit that hasn't been billed or
+ * skipped yet. Every billed, skipped or missed visit gets a subscription_cycles row.
+ */
+
+export class SubscriptionError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "SubscriptionError"
+  }
+}
+
+// pending: waiting for the customer to save a card; past_due: a visit went unpaid after every retry
+export type SubscriptionStatus = "pending" | "active" | "paused" | "past_due" | "cancelled" | "completed"
+
+// missed: the visit's time had passed before a billing run reached it, so it was never billed
+export type SubscriptionCycleStatus = "skipped" | "missed" | "pending_payment" | "paid" | "payment_failed" | "unpaid"
+
+export const PLAN_FREQUENCIES = ["weekly", "biweekly", "monthly"]
+
+// Visits are billed and their card charged this many days before they take place
+export const BILLING_LEAD_DAYS = 2
+
+// Days to wait before retrying after the first, second and third failed charge; the fourth is final
+export const DUNNING_RETRY_DAYS = [3, 5, 7]
+
+// Cap on visits billed for one subscription in a single run
+const MAX_CYCLES_PER_RUN = 8
+
+const SUBSCRIPTION_INVOICE_NOTE = "Paid by card on file. Thank you for your business!"
+
+function requireDb(executor: DbExecutor | null = db) {
+  if (!executor) {
+    throw new Error("Database not configured")
+  }
+  return executor
+}
+
+function getBaseUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "https://moppissimo.space"
+}
+
+function getPortalUrl() {
+  return `${getBaseUrl()}/portal/dashboard?tab=subscriptions`
+}
+
+function formatVisit(date: Date) {
+  return format(date, "EEE d MMM yyyy, HH:mm")
+}
+
+export interface SubscriptionPlanInput {
+  name: string
+  description: string | null
+  amount: string
+  currency: string
+  frequency: string
+  durationMinutes: number
+  isActive: number
+}
+
+/**
+ * Validate a plan from a request body. With `partial`, only the fields present are returned.
+ */
+export function parsePlanInput(body: Record<string, unknown>, partial = false): Partial<SubscriptionPlanInput> {
+  const values: Partial<SubscriptionPlanInput> = {}
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    if (!name) throw new SubscriptionError("Plan name is required")
+    values.name = name
+  }
+  if (body.description !== undefined) {
+    values.description = typeof body.description === "string" && body.description.trim() ? body.description.trim() : null
+  }
+  if (!partial || body.amount !== undefined) {
+    const amount = parseFloat(String(body.amount))
+    if (!Number.isFinite(amount) || amount <= 0) throw new SubscriptionError("Price per visit must be greater than zero")
+    values.amount = amount.toFixed(2)
+  }
+  if (body.currency !== undefined) {
+    values.currency = String(body.currency).toUpperCase()
+  }
+  if (!partial || body.frequency !== undefined) {
+    if (!PLAN_FREQUENCIES.includes(String(body.frequency))) {
+      throw new SubscriptionError(`Frequency must be one of: ${PLAN_FREQUENCIES.join(", ")}`)
+    }
+    values.frequency = String(body.frequency)
+  }
+  if (body.durationMinutes !== undefined) {
+    const duration = parseInt(String(body.durationMinutes))
+    if (!Number.isFinite(duration) || duration < 15) throw new SubscriptionError("Visit length must be at least 15 minutes")
+    values.durationMinutes = duration
+  }
+  if (body.isActive !== undefined) {
+    values.isActive = body.isActive ? 1 : 0
+  }
+
+  return values
+}
+
+async function loadSubscription(companyId: number, subscriptionId: number, executor: DbExecutor) {
+  const subscription = await executor.query.subscriptions.findFirst({
+    where: and(eq(schema.subscriptions.id, subscriptionId), eq(schema.subscriptions.companyId, companyId)),
+  })
+  if (!subscription) {
+    throw new SubscriptionError("Subscription not found", 404)
+  }
+  return subscription
+}
+
+/**
+ * Start of the first visit strictly after `after`, or null once the subscription has run out
+ */
+function nextVisitAfter(subscription: Subscription, after: Date) {
+  const set = getSubscriptionRecurrence(subscription)
+  return set ? getNextOccurrence(set, after) : null
+}
+
+/**
+ * The Stripe customer a customer's cards are saved against, created on first use
+ */
+export async function getOrCreateStripeCustomer(customer: Customer, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  if (customer.stripeCustomerId) return customer.stripeCustomerId
+
+  const stripeCustomer = await stripe.customers.create({
+    email: customer.email,
+    name: `${customer.firstName} ${customer.lastName}`,
+    metadata: { customerId: customer.id.toString(), companyId: customer.companyId.toString() },
+  })
+
+  await database
+    .update(schema.customers)
+    .set({ stripeCustomerId: stripeCustomer.id, updatedAt: new Date() })
+    .where(eq(schema.customers.id, customer.id))
+
+  return stripeCustomer.id
+}
+
+/**
+ * Subscribe a customer to one of their company's plans. The subscription stays pending until a
+ * card is saved for it.
+ */
+export async function createSubscription(
+  customerId: number,
+  input: { planId: number; firstVisitDate: string; visitTime: string },
+  executor: DbExecutor | null = db,
+) {
+  const database = requireDb(executor)
+
+  const customer = await database.query.customers.findFirst({
+    where: eq(schema.customers.id, customerId),
+  })
+  if (!customer) {
+    throw new SubscriptionError("Customer not found", 404)
+  }
+
+  const plan = await database.query.subscriptionPlans.findFirst({
+    where: and(
+      eq(schema.subscriptionPlans.id, input.planId),
+      eq(schema.subscriptionPlans.companyId, customer.companyId),
+      eq(schema.subscriptionPlans.isActive, 1),
+    ),
+  })
+  if (!plan) {
+    throw new SubscriptionError("Plan not found", 404)
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.firstVisitDate) || !/^\d{2}:\d{2}$/.test(input.visitTime)) {
+    throw new SubscriptionError("Choose a date and time for your first visit")
+  }
+  // Midday UTC is on the same calendar day in the company's timezone
+  const firstVisit = atLocalTime(new Date(`${input.firstVisitDate}T12:00:00Z`), input.visitTime)
+  if (isNaN(firstVisit.getTime()) || firstVisit <= new Date()) {
+    throw new SubscriptionError("Your first visit must be in the future")
+  }
+  if (!legacyFrequencyToRule(plan.frequency)) {
+    throw new SubscriptionError("This plan has no repeating schedule")
+  }
+
+  const existing = await database.query.subscriptions.findFirst({
+    where: and(
+      eq(schema.subscriptions.customerId, customerId),
+      eq(schema.subscriptions.planId, plan.id),
+      inArray(schema.subscriptions.status, ["pending", "active", "paused", "past_due"]),
+    ),
+    columns: { id: true },
+  })
+  if (existing) {
+    throw new SubscriptionError("You already have a subscription to this plan", 409)
+  }
+
+  const [subscription] = await database
+    .insert(schema.subscriptions)
+    .values({
+      companyId: customer.companyId,
+      customerId,
+      planId: plan.id,
+      name: plan.name,
+      description: plan.description,
+      amount: plan.amount,
+      currency: plan.currency,
+      frequency: plan.frequency,
+      startDate: firstVisit,
+      nextBillingDate: firstVisit,
+      visitDurationMinutes: plan.durationMinutes,
+      status: "pending",
+      paymentMethod: "card",
+    })
+    .returning()
+
+  return subscription
+}
+
+/**
+ * Hosted Checkout session in setup mode that saves a card for a subscription. Used both to
+ * finish signing up and to replace the card later.
+ */
+export async function createCardSetupSession(subscription: Subscription, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+
+  if (subscription.status === "cancelled" || subscription.status === "completed") {
+    throw new SubscriptionError("This subscription has ended")
+  }
+
+  const customer = await database.query.customers.findFirst({
+    where: eq(schema.customers.id, subscription.customerId),
+  })
+  if (!customer) {
+    throw new SubscriptionError("Customer not found", 404)
+  }
+
+  const stripeCustomerId = await getOrCreateStripeCustomer(customer, database)
+  const metadata = {
+    type: "subscription_card",
+    subscriptionId: subscription.id.toString(),
+    companyId: subscription.companyId.toString(),
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "setup",
+    payment_method_types: ["card"],
+    customer: stripeCustomerId,
+    currency: (subscription.currency || "GBP").toLowerCase(),
+    success_url: `${getBaseUrl()}/portal/dashboard?tab=subscriptions&subscription_setup={CHECKOUT_SESSION_ID}`,
+    cancel_url: getPortalUrl(),
+    metadata,
+    setup_intent_data: { metadata },
+  })
+
+  if (!session.url) {
+    throw new Error("Stripe did not return a checkout URL")
+  }
+
+  return session
+}
+
+/**
+ * Save the card from a completed setup session and start (or restart) billing. Called from the
+ * webhook and when the customer returns to the portal, so it is safe to run more than once.
+ */
+export async function recordCardSetup(session: Stripe.Checkout.Session, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+
+  const subscriptionId = parseInt(session.metadata?.subscriptionId || "0")
+  if (session.mode !== "setup" || session.metadata?.type !== "subscription_card" || !subscriptionId) {
+    return { recorded: false, reason: "Not a subscription card setup" }
+  }
+  if (session.status !== "complete" || !session.setup_intent) {
+    return { recorded: false, reason: "Card setup not completed" }
+  }
+
+  const subscription = await database.query.subscriptions.findFirst({
+    where: eq(schema.subscriptions.id, subscriptionId),
+  })
+  if (!subscription) {
+    return { recorded: false, reason: "Subscription not found" }
+  }
+
+  const setupIntent =
+    typeof session.setup_intent === "string"
+      ? await stripe.setupIntents.retrieve(session.setup_intent, { expand: ["payment_method"] })
+      : session.setup_intent
+  if (setupIntent.status !== "succeeded" || !setupIntent.payment_method) {
+    return { recorded: false, reason: "Card setup not completed" }
+  }
+
+  const paymentMethod =
+    typeof setupIntent.payment_method === "string"
+      ? await stripe.paymentMethods.retrieve(setupIntent.payment_method)
+      : setupIntent.payment_method
+  // The card is attached to this Stripe customer, so it is the one to charge it against
+  const stripeCustomer = setupIntent.customer ?? session.customer
+  const stripeCustomerId = typeof stripeCustomer === "string" ? stripeCustomer : stripeCustomer?.id
+  if (!stripeCustomerId) {
+    return { recorded: false, reason: "Card setup has no Stripe customer" }
+  }
+
+  const now = new Date()
+  const status = subscription.status === "pending" || subscription.status === "past_due" ? "active" : subscription.status
+  // A first visit that passed while the card was being set up is not billed
+  const nextBillingDate =
+    subscription.status === "pending" && subscription.nextBillingDate && subscription.nextBillingDate <= now
+      ? nextVisitAfter(subscription, now)
+      : subscription.nextBillingDate
+
+  const [updated] = await database
+    .update(schema.subscriptions)
+    .set({
+      stripePaymentMethodId: paymentMethod.id,
+      stripeCustomerId,
+      cardBrand: paymentMethod.card?.brand ?? null,
+      cardLast4: paymentMethod.card?.last4 ?? null,
+      paymentMethod: "card",
+      status,
+      nextBillingDate,
+      updatedAt: now,
+    })
+    .where(eq(schema.subscriptions.id, subscription.id))
+    .returning()
+
+  // Outstanding visits are charged to the new card on the next run
+  if (status !== "cancelled") {
+    await database
+      .update(schema.subscriptionCycles)
+      .set({ status: "payment_failed", nextRetryAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(schema.subscriptionCycles.subscriptionId, subscription.id),
+          inArray(schema.subscriptionCycles.status, ["pending_payment", "payment_failed", "unpaid"]),
+        ),
+      )
+  }
+
+  return { recorded: true, subscription: updated }
+}
+
+/**
+ * Pause billing. Visits already billed still go ahead; with `resumeAt` the subscription resumes on
+ * its own from that date.
+ */
+export async function pauseSubscription(
+  companyId: number,
+  subscriptionId: number,
+  options: { resumeAt?: Date | null } = {},
+  executor: DbExecutor | null = db,
+) {
+  const database = requireDb(executor)
+  const subscription = await loadSubscription(companyId, subscriptionId, database)
+
+  if (subscription.status !== "active") {
+    throw new SubscriptionError("Only active subscriptions can be paused")
+  }
+  if (options.resumeAt && options.resumeAt <= new Date()) {
+    throw new SubscriptionError("The resume date must be in the future")
+  }
+
+  const [updated] = await database
+    .update(schema.subscriptions)
+    .set({ status: "paused", pausedAt: new Date(), resumeAt: options.resumeAt ?? null, updatedAt: new Date() })
+    .where(eq(schema.subscriptions.id, subscription.id))
+    .returning()
+  return updated
+}
+
+/**
+ * Resume a paused subscription from its next visit after now; visits during the pause are not billed
+ */
+export async function resumeSubscription(companyId: number, subscriptionId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const subscription = await loadSubscription(companyId, subscriptionId, database)
+
+  if (subscription.status !== "paused") {
+    throw new SubscriptionError("Only paused subscriptions can be resumed")
+  }
+
+  const nextVisit = nextVisitAfter(subscription, new Date())
+  const [updated] = await database
+    .update(schema.subscriptions)
+    .set({
+      status: nextVisit ? "active" : "completed",
+      pausedAt: null,
+      resumeAt: null,
+      nextBillingDate: nextVisit,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(schema.subscriptions.id, subscription.id), eq(schema.subscriptions.status, "paused")))
+    .returning()
+  return updated ?? subscription
+}
+
+/**
+ * Skip the next visit that hasn't been billed yet
+ */
+export async function skipNextVisit(companyId: number, subscriptionId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const subscription = await loadSubscription(companyId, subscriptionId, database)
+
+  if (!["pending", "active"].includes(subscription.status)) {
+    throw new SubscriptionError("Visits can only be skipped on an active subscription")
+  }
+  const occurrence = subscription.nextBillingDate
+  if (!occurrence) {
+    throw new SubscriptionError("There is no upcoming visit to skip")
+  }
+
+  const nextVisit = nextVisitAfter(subscription, occurrence)
+  return database.transaction(async (tx) => {
+    // Claimed against the visit being skipped so it can't be billed at the same time
+    const [updated] = await tx
+      .update(schema.subscriptions)
+      .set({
+        nextBillingDate: nextVisit,
+        status: nextVisit ? subscription.status : "completed",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.subscriptions.id, subscription.id), eq(schema.subscriptions.nextBillingDate, occurrence)))
+      .returning()
+    if (!updated) {
+      throw new SubscriptionError("That visit has already been billed", 409)
+    }
+
+    await tx.insert(schema.subscriptionCycles).values({
+      companyId: subscription.companyId,
+      subscriptionId: subscription.id,
+      occurrenceAt: occurrence,
+      status: "skipped",
+    })
+
+    return { subscription: updated, skipped: occurrence }
+  })
+}
+
+/**
+ * Cancel a subscription. Visits already billed still go ahead, and failed payments stop being retried
+ * but remain owed on their invoices.
+ */
+export async function cancelSubscription(
+  companyId: number,
+  subscriptionId: number,
+  options: { reason?: string | null } = {},
+  executor: DbExecutor | null = db,
+) {
+  const database = requireDb(executor)
+  const subscription = await loadSubscription(companyId, subscriptionId, database)
+
+  if (subscription.status === "cancelled" || subscription.status === "completed") {
+    throw new SubscriptionError("This subscription has already ended")
+  }
+
+  return database.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(schema.subscriptions)
+      .set({
+        status: "cancelled",
+        cancelledAt: new Date(),
+        cancellationReason: options.reason?.trim() || null,
+        nextBillingDate: null,
+        resumeAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.subscriptions.id, subscription.id))
+      .returning()
+
+    await tx
+      .update(schema.subscriptionCycles)
+      .set({ status: "unpaid", nextRetryAt: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.subscriptionCycles.subscriptionId, subscription.id),
+          inArray(schema.subscriptionCycles.status, ["pending_payment", "payment_failed"]),
+        ),
+      )
+
+    return updated
+  })
+}
+
+/**
+ * Claim one visit and create its job, invoice and cycle. Returns null when another run billed it first.
+ */
+async function billVisit(subscription: Subscription, occurrence: Date, nextVisit: Date | null, executor: DbExecutor) {
+  const customer = await executor.query.customers.findFirst({
+    where: eq(schema.customers.id, subscription.customerId),
+  })
+  if (!customer) return null
+
+  return executor.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(schema.subscriptions)
+      .set({ nextBillingDate: nextVisit, status: nextVisit ? subscription.status : "completed", updatedAt: new Date() })
+      .where(and(eq(schema.subscriptions.id, subscription.id), eq(schema.subscriptions.nextBillingDate, occurrence)))
+      .returning({ id: schema.subscriptions.id })
+    if (!claimed) return null
+
+    const [job] = await tx
+      .insert(schema.jobs)
+      .values({
+        companyId: subscription.companyId,
+        customerId: subscription.customerId,
+        title: subscription.name,
+        description: subscription.description,
+        location: customer.address,
+        addressLine2: customer.addressLine2,
+        city: customer.city,
+        postcode: customer.postcode,
+        latitude: customer.latitude,
+        longitude: customer.longitude,
+        accessInstructions: customer.accessInstructions,
+        scheduledFor: occurrence,
+        scheduledEnd: addMinutes(occurrence, subscription.visitDurationMinutes),
+        durationMinutes: subscription.visitDurationMinutes,
+        recurrence: "none", // The subscription books each visit; the job itself doesn't recur
+        // Left for someone to assign from the needs assignment list
+        status: "pending",
+        estimatedPrice: subscription.amount,
+        currency: subscription.currency || "GBP",
+        internalNotes: `Subscription visit (subscription #${subscription.id})`,
+      })
+      .returning()
+
+    await tx.insert(schema.jobEvents).values({
+      jobId: job.id,
+      type: "job_created",
+      message: `Job created from subscription "${subscription.name}"`,
+      createdAt: new Date(),
+    })
+
+    const invoiceNumber = await allocateDocumentNumber(tx, subscription.companyId, "invoice", {
+      date: new Date(),
+      customerId: subscription.customerId,
+    })
+    const priced = await priceInvoice(tx, subscription.companyId, {
+      items: [
+        {
+          title: subscription.name,
+          description: `Visit on ${formatVisit(occurrence)}`,
+          quantity: 1,
+          unitPrice: subscription.amount,
+        },
+      ],
+      customerId: subscription.customerId,
+    })
+
+    const [invoice] = await tx
+      .insert(schema.invoices)
+      .values({
+        companyId: subscription.companyId,
+        invoiceNumber,
+        customerId: subscription.customerId,
+        jobId: job.id,
+        currency: subscription.currency || "GBP",
+        ...priced.invoice,
+        amountDue: priced.invoice.total,
+        status: "sent",
+        issuedAt: new Date(),
+        dueAt: occurrence,
+        notes: `${subscription.name}, visit on ${formatVisit(occurrence)}`,
+        footer: SUBSCRIPTION_INVOICE_NOTE,
+      })
+      .returning()
+    await tx.insert(schema.invoiceItems).values(priced.items.map((item) => ({ ...item, invoiceId: invoice.id })))
+
+    const [cycle] = await tx
+      .insert(schema.subscriptionCycles)
+      .values({
+        companyId: subscription.companyId,
+        subscriptionId: subscription.id,
+        occurrenceAt: occurrence,
+        status: "pending_payment",
+        jobId: job.id,
+        invoiceId: invoice.id,
+        // Subscriptions without a saved card are paid through the invoice instead
+        nextRetryAt: subscription.stripePaymentMethodId ? new Date() : null,
+      })
+      .returning()
+
+    return cycle
+  })
+}
+
+/**
+ * Move past a visit whose time went by before it was billed, recording it as a missed cycle so it
+ * shows in the subscription's history. Returns null when another run claimed it first.
+ */
+async function recordMissedVisit(subscription: Subscription, occurrence: Date, nextVisit: Date | null, executor: DbExecutor) {
+  return executor.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(schema.subscriptions)
+      .set({ nextBillingDate: nextVisit, status: nextVisit ? "active" : "completed", updatedAt: new Date() })
+      .where(and(eq(schema.subscriptions.id, subscription.id), eq(schema.subscriptions.nextBillingDate, occurrence)))
+      .returning({ id: schema.subscriptions.id })
+    if (!claimed) return null
+
+    const [cycle] = await tx
+      .insert(schema.subscriptionCycles)
+      .values({
+        companyId: subscription.companyId,
+        subscriptionId: subscription.id,
+        occurrenceAt: occurrence,
+        status: "missed",
+      })
+      .returning()
+
+    await tx.insert(schema.eventLogs).values({
+      companyId: subscription.companyId,
+      eventType: "subscription_visit_missed",
+      entityType: "subscription",
+      entityId: subscription.id,
+      description: `Visit on ${formatVisit(occurrence)} for "${subscription.name}" was not billed before it was due`,
+      metadata: JSON.stringify({ subscriptionCycleId: cycle.id, occurrenceAt: occurrence.toISOString() }),
+    })
+
+    return cycle
+  })
+}
+
+/**
+ * Charge a cycle's invoice to the subscription's saved card. A decline schedules the next dunning
+ * attempt, or marks the visit unpaid and the subscription past due after the last one.
+ */
+export async function chargeSubscriptionCycle(cycle: SubscriptionCycle, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+
+  const [details] = await database
+    .select({ subscription: schema.subscriptions, invoice: schema.invoices, customer: schema.customers })
+    .from(schema.subscriptionCycles)
+    .innerJoin(schema.subscriptions, eq(schema.subscriptionCycles.subscriptionId, schema.subscriptions.id))
+    .innerJoin(schema.invoices, eq(schema.subscriptionCycles.invoiceId, schema.invoices.id))
+    .innerJoin(schema.customers, eq(schema.subscriptions.customerId, schema.customers.id))
+    .where(eq(schema.subscriptionCycles.id, cycle.id))
+    .limit(1)
+  if (!details) {
+    return { charged: false, reason: "Invoice not found" }
+  }
+
+  const { subscription, invoice, customer } = details
+  if (!isInvoicePayable(invoice)) {
+    // Paid some other way since the last attempt, or voided
+    await database
+      .update(schema.subscriptionCycles)
+      .set({ status: invoice.status === "paid" ? "paid" : cycle.status, nextRetryAt: null, updatedAt: new Date() })
+      .where(eq(schema.subscriptionCycles.id, cycle.id))
+    return { charged: false, reason: "Invoice is not awaiting payment" }
+  }
+  if (!subscription.stripePaymentMethodId || !subscription.stripeCustomerId) {
+    await database
+      .update(schema.subscriptionCycles)
+      .set({ nextRetryAt: null, updatedAt: new Date() })
+      .where(eq(schema.subscriptionCycles.id, cycle.id))
+    return { charged: false, reason: "No card saved" }
+  }
+
+  const attempt = cycle.paymentAttempts + 1
+  let paymentIntent: Stripe.PaymentIntent | null = null
+  let failure: string | null = null
+  try {
+    paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: toMinorUnits(parseFloat(invoice.amountDue)),
+        currency: invoice.currency.toLowerCase(),
+        customer: subscription.stripeCustomerId,
+        payment_method: subscription.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        description: `Invoice ${invoice.invoiceNumber}`,
+        metadata: {
+          type: "invoice",
+          invoiceId: invoice.id.toString(),
+          companyId: invoice.companyId.toString(),
+          subscriptionCycleId: cycle.id.toString(),
+        },
+      },
+      { idempotencyKey: `subscription-cycle-${cycle.id}-attempt-${attempt}` },
+    )
+    if (paymentIntent.status !== "succeeded" && paymentIntent.status !== "processing") {
+      failure = `Payment ${paymentIntent.status.replace(/_/g, " ")}`
+    }
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeError)) throw error
+    failure = error.message
+    paymentIntent = error.payment_intent ?? null
+  }
+
+  if (!failure && paymentIntent) {
+    await database
+      .update(schema.subscriptionCycles)
+      .set({
+        paymentAttempts: attempt,
+        stripePaymentIntentId: paymentIntent.id,
+        nextRetryAt: null,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.subscriptionCycles.id, cycle.id))
+    // Processing payments are recorded by the payment_intent.succeeded webhook
+    if (paymentIntent.status === "succeeded") {
+      await recordPaymentIntentPayment(paymentIntent)
+    }
+    return { charged: true, paymentIntentId: paymentIntent.id }
+  }
+
+  const finalAttempt = attempt > DUNNING_RETRY_DAYS.length
+  const nextRetryAt = finalAttempt ? null : addDays(new Date(), DUNNING_RETRY_DAYS[attempt - 1])
+  await database
+    .update(schema.subscriptionCycles)
+    .set({
+      status: finalAttempt ? "unpaid" : "payment_failed",
+      paymentAttempts: attempt,
+      stripePaymentIntentId: paymentIntent?.id ?? cycle.stripePaymentIntentId,
+      nextRetryAt,
+      lastError: failure,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.subscriptionCycles.id, cycle.id))
+
+  if (finalAttempt) {
+    await database
+      .update(schema.subscriptions)
+      .set({ status: "past_due", updatedAt: new Date() })
+      .where(and(eq(schema.subscriptions.id, subscription.id), eq(schema.subscriptions.status, "active")))
+  }
+
+  if (customer.email) {
+    try {
+      const company = await database.query.companies.findFirst({
+        where: eq(schema.companies.id, subscription.companyId),
+        columns: { name: true },
+      })
+      await sendSubscriptionPaymentFailedEmail({
+        customerEmail: customer.email,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        companyName: company?.name ?? "",
+        subscriptionName: subscription.name,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: invoice.amountDue,
+        visitDate: cycle.occurrenceAt,
+        nextRetryAt,
+        payUrl: await getInvoicePaymentUrl(invoice.id),
+        manageUrl: getPortalUrl(),
+        currency: invoice.currency,
+      })
+    } catch (emailError) {
+      console.error("Failed to send subscription payment failed email:", emailError)
+    }
+  }
+
+  return { charged: false, declined: true, reason: failure }
+}
+
+/**
+ * Charge an outstanding visit straight away, outside the dunning schedule
+ */
+export async function retrySubscriptionCycle(companyId: number, cycleId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+
+  const cycle = await database.query.subscriptionCycles.findFirst({
+    where: and(eq(schema.subscriptionCycles.id, cycleId), eq(schema.subscriptionCycles.companyId, companyId)),
+  })
+  if (!cycle) {
+    throw new SubscriptionError("Billing cycle not found", 404)
+  }
+  if (!["pending_payment", "payment_failed", "unpaid"].includes(cycle.status)) {
+    throw new SubscriptionError("This visit has nothing left to pay")
+  }
+
+  return chargeSubscriptionCycle(cycle, database)
+}
+
+/**
+ * The daily billing run: resume paused subscriptions that are due back, bill visits coming up
+ * within BILLING_LEAD_DAYS, then charge new visits and due dunning retries
+ */
+export async function processSubscriptionBilling(companyId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+  const now = new Date()
+
+  const resuming = await database.query.subscriptions.findMany({
+    where: and(
+      eq(schema.subscriptions.companyId, companyId),
+      eq(schema.subscriptions.status, "paused"),
+      isNotNull(schema.subscriptions.resumeAt),
+      lte(schema.subscriptions.resumeAt, now),
+    ),
+  })
+  for (const subscription of resuming) {
+    await resumeSubscription(companyId, subscription.id, database)
+  }
+
+  const due = await database.query.subscriptions.findMany({
+    where: and(
+      eq(schema.subscriptions.companyId, companyId),
+      eq(schema.subscriptions.status, "active"),
+      isNotNull(schema.subscriptions.nextBillingDate),
+      lte(schema.subscriptions.nextBillingDate, addDays(now, BILLING_LEAD_DAYS)),
+    ),
+  })
+
+  let visitsBilled = 0
+  let visitsMissed = 0
+  for (const subscription of due) {
+    let occurrence = subscription.nextBillingDate
+    for (let i = 0; i < MAX_CYCLES_PER_RUN && occurrence && occurrence <= addDays(now, BILLING_LEAD_DAYS); i++) {
+      const nextVisit = nextVisitAfter(subscription, occurrence)
+      if (occurrence <= now) {
+        // Too late to send anyone; move past it without billing
+        const missed = await recordMissedVisit(subscription, occurrence, nextVisit, database)
+        if (!missed) break
+        visitsMissed++
+      } else {
+        const cycle = await billVisit(subscription, occurrence, nextVisit, database)
+        if (!cycle) break
+        visitsBilled++
+      }
+      occurrence = nextVisit
+    }
+  }
+
+  const chargeable = await database.query.subscriptionCycles.findMany({
+    where: and(
+      eq(schema.subscriptionCycles.companyId, companyId),
+      inArray(schema.subscriptionCycles.status, ["pending_payment", "payment_failed"]),
+      isNotNull(schema.subscriptionCycles.nextRetryAt),
+      lte(schema.subscriptionCycles.nextRetryAt, now),
+    ),
+    orderBy: [asc(schema.subscriptionCycles.occurrenceAt)],
+  })
+
+  let paymentsTaken = 0
+  let paymentsFailed = 0
+  for (const cycle of chargeable) {
+    const result = await chargeSubscriptionCycle(cycle, database)
+    if (result.charged) paymentsTaken++
+    else if ("declined" in result) paymentsFailed++
+  }
+
+  return { subscriptionsResumed: resuming.length, visitsBilled, visitsMissed, paymentsTaken, paymentsFailed }
+}
+
+/**
+ * A customer's subscriptions with their most recent visits, for the portal
+ */
+export async function getCustomerSubscriptions(customerId: number, executor: DbExecutor | null = db) {
+  const database = requireDb(executor)
+
+  return database.query.subscriptions.findMany({
+    where: eq(schema.subscriptions.customerId, customerId),
+    orderBy: [desc(schema.subscriptions.createdAt)],
+    with: {
+      cycles: {
+        orderBy: [desc(schema.subscriptionCycles.occurrenceAt)],
+        limit: 6,
+        with: {
+          invoice: {
+            columns: { id: true, invoiceNumber: true, status: true, total: true, amountDue: true, currency: true },
+          },
+        },
+      },
+    },
+  })
+}
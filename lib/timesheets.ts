@@ -0,0 +1,1031 @@
+import { and, asc, desc, eq, gte, inArray, isNull, lt, ne, notInArray, sql } from "drizzle-orm"
+import { addDays, addHours, differenceInMinutes, format, parseISO, startOfDay, startOfWeek } from "date-fns"
+import { db, schema, type DbExecutor } from "@/lib/db"
+import type { Timesheet, WorkSession, WorkSessionBreak } from "@/lib/db/schema"
+import { normalizePayrollSettings } from "@/lib/payroll-settings"
+
+/**
+ * Timesheets.
+ *
+ * Every work session belongs to its employee's timesheet for the week it started in (weeks follow
+ * the payroll week start). Employees clock in and out, take breaks, and submit the week; managers
+ * compare it with scheduled shifts and jobs, then approve it or return it with comments. Approved
+ * timesheets are locked, and payroll only pays sessions on approved timesheets.
+ */
+
+export const TIMESHEET_STATUSES = ["open", "submitted", "returned", "approved"] as const
+export type TimesheetStatus = (typeof TIMESHEET_STATUSES)[number]
+
+// Employees can change their sessions while the week is with them
+const EMPLOYEE_EDITABLE_STATUSES: string[] = ["open", "returned"]
+
+// Shifts can be clocked into up to this long before they start
+const SHIFT_CLOCK_IN_WINDOW_HOURS = 2
+
+// Differences smaller than this aren't worth flagging
+const VARIANCE_TOLERANCE_MINUTES = 5
+const JOB_VARIANCE_TOLERANCE_MINUTES = 30
+
+export type TimesheetActor = { type: "manager"; userId: number } | { type: "employee"; employeeId: number }
+
+export interface TimesheetWeek {
+  start: string // yyyy-MM-dd
+  end: string // yyyy-MM-dd, inclusive
+}
+
+export interface TimesheetDay {
+  date: string
+  scheduledMinutes: number
+  jobMinutes: number
+  workedMinutes: number
+  breakMinutes: number
+  varianceMinutes: number
+}
+
+export class TimesheetError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "TimesheetError"
+  }
+}
+
+function requireDb() {
+  if (!db) {
+    throw new Error("Database not configured")
+  }
+  return db
+}
+
+function toCoordinate(value: unknown) {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value))
+  return Number.isFinite(parsed) ? parsed.toFixed(7) : null
+}
+
+function parseTimestamp(value: unknown, field: string) {
+  const parsed = typeof value === "string" || value instanceof Date ? new Date(value) : null
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new TimesheetError(`Invalid ${field}`)
+  }
+  return parsed
+}
+
+export function formatMinutes(minutes: number) {
+  const sign = minutes < 0 ? "-" : ""
+  const absolute = Math.abs(Math.round(minutes))
+  const hours = Math.floor(absolute / 60)
+  const rest = absolute % 60
+  return hours > 0 ? `${sign}${hours}h ${rest.toString().padStart(2, "0")}m` : `${sign}${rest}m`
+}
+
+async function getWeekStartsOn(executor: DbExecutor, companyId: number) {
+  const [company] = await executor
+    .select({ payrollSettings: schema.companies.payrollSettings })
+    .from(schema.companies)
+    .where(eq(schema.companies.id, companyId))
+  return normalizePayrollSettings(company?.payrollSettings).weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6
+}
+
+export function getTimesheetWeek(date: Date, weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6): TimesheetWeek {
+  const start = startOfWeek(date, { weekStartsOn })
+  return { start: format(start, "yyyy-MM-dd"), end: format(addDays(start, 6), "yyyy-MM-dd") }
+}
+
+/**
+ * Minutes spent on closed breaks, and on an open one up to `until`
+ */
+export function totalBreakMinutes(breaks: Pick<WorkSessionBreak, "startedAt" | "endedAt">[], until?: Date) {
+  return breaks.reduce((total, item) => {
+    const end = item.endedAt ?? until
+    return end ? total + Math.max(0, differenceInMinutes(end, item.startedAt)) : total
+  }, 0)
+}
+
+/**
+ * The parts of a session that were worked, with recorded breaks cut out
+ */
+export function workedIntervals(
+  startedAt: Date,
+  endedAt: Date,
+  breaks: Pick<WorkSessionBreak, "startedAt" | "endedAt">[],
+) {
+  const intervals: Array<{ startedAt: Date; endedAt: Date }> = []
+  let cursor = startedAt
+  const sorted = breaks
+    .filter((item) => item.endedAt && item.endedAt > startedAt && item.startedAt < endedAt)
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+  for (const item of sorted) {
+    if (item.startedAt > cursor) intervals.push({ startedAt: cursor, endedAt: item.startedAt })
+    if (item.endedAt! > cursor) cursor = item.endedAt!
+  }
+  if (endedAt > cursor) intervals.push({ startedAt: cursor, endedAt })
+  return intervals
+}
+
+function sessionMinutes(startedAt: Date, endedAt: Date, breakMinutes: number) {
+  return Math.max(0, differenceInMinutes(endedAt, startedAt) - breakMinutes)
+}
+
+async function findOrCreateTimesheet(executor: DbExecutor, companyId: number, employeeId: number, date: Date) {
+  const week = getTimesheetWeek(date, await getWeekStartsOn(executor, companyId))
+  const [created] = await executor
+    .insert(schema.timesheets)
+    .values({ companyId, employeeId, weekStart: week.start })
+    .onConflictDoNothing()
+    .returning()
+  if (created) return created
+
+  const [existing] = await executor
+    .select()
+    .from(schema.timesheets)
+    .where(and(eq(schema.timesheets.employeeId, employeeId), eq(schema.timesheets.weekStart, week.start)))
+  return existing
+}
+
+function assertEditable(timesheet: Timesheet | null | undefined, actor: TimesheetActor) {
+  if (!timesheet) return
+  if (timesheet.status === "approved") {
+    throw new TimesheetError("This week's timesheet has been approved and is locked", 409)
+  }
+  if (actor.type === "employee" && !EMPLOYEE_EDITABLE_STATUSES.includes(timesheet.status)) {
+    throw new TimesheetError(
+      "This week's timesheet has been submitted. Ask your manager to return it if something needs changing.",
+      409,
+    )
+  }
+}
+
+async function findTimesheetById(executor: DbExecutor, timesheetId: number | null) {
+  if (!timesheetId) return null
+  const [timesheet] = await executor.select().from(schema.timesheets).where(eq(schema.timesheets.id, timesheetId))
+  return timesheet ?? null
+}
+
+async function findOpenSession(executor: DbExecutor, employeeId: number) {
+  const [session] = await executor
+    .select()
+    .from(schema.workSessions)
+    .where(and(eq(schema.workSessions.employeeId, employeeId), isNull(schema.workSessions.endedAt)))
+    .orderBy(desc(schema.workSessions.startedAt))
+    .limit(1)
+  return session ?? null
+}
+
+async function findOpenBreak(executor: DbExecutor, workSessionId: number) {
+  const [openBreak] = await executor
+    .select()
+    .from(schema.workSessionBreaks)
+    .where(and(eq(schema.workSessionBreaks.workSessionId, workSessionId), isNull(schema.workSessionBreaks.endedAt)))
+    .limit(1)
+  return openBreak ?? null
+}
+
+/**
+ * The employee's shift that's on (or about to start) at `at`
+ */
+async function findCurrentShift(executor: DbExecutor, companyId: number, employeeId: number, at: Date) {
+  const [shift] = await executor
+    .select()
+    .from(schema.shifts)
+    .where(
+      and(
+        eq(schema.shifts.companyId, companyId),
+        eq(schema.shifts.employeeId, employeeId),
+        ne(schema.shifts.status, "cancelled"),
+        lt(schema.shifts.startTime, addHours(at, SHIFT_CLOCK_IN_WINDOW_HOURS)),
+        gte(schema.shifts.endTime, at),
+      ),
+    )
+    .orderBy(asc(schema.shifts.startTime))
+    .limit(1)
+  return shift ?? null
+}
+
+export async function getClockStatus(companyId: number, employeeId: number) {
+  const database = requireDb()
+  const session = await findOpenSession(database, employeeId)
+  const openBreak = session ? await findOpenBreak(database, session.id) : null
+  let job: { id: number; title: string } | null = null
+  if (session?.jobId) {
+    const [row] = await database
+      .select({ id: schema.jobs.id, title: schema.jobs.title })
+      .from(schema.jobs)
+      .where(and(eq(schema.jobs.id, session.jobId), eq(schema.jobs.companyId, companyId)))
+    job = row ?? null
+  }
+  return { session, openBreak, job }
+}
+
+export async function clockIn(
+  companyId: number,
+  employeeId: number,
+  input: { jobId?: unknown; latitude?: unknown; longitude?: unknown; notes?: unknown },
+) {
+  const database = requireDb()
+  if (await findOpenSession(database, employeeId)) {
+    throw new TimesheetError("You're already clocked in", 409)
+  }
+
+  const now = new Date()
+  const timesheet = await findOrCreateTimesheet(database, companyId, employeeId, now)
+  assertEditable(timesheet, { type: "employee", employeeId })
+
+  let jobId: number | null = null
+  let checkInId: number | null = null
+  if (input.jobId) {
+    jobId = parseInt(String(input.jobId))
+    const [assignment] = await database
+      .select({ id: schema.jobAssignments.id })
+      .from(schema.jobAssignments)
+      .where(
+        and(
+          eq(schema.jobAssignments.companyId, companyId),
+          eq(schema.jobAssignments.jobId, jobId),
+          eq(schema.jobAssignments.employeeId, employeeId),
+          ne(schema.jobAssignments.status, "declined"),
+        ),
+      )
+    if (!assignment) {
+      throw new TimesheetError("Job not found", 404)
+    }
+
+    // Tie the clock-in to today's GPS check-in at the job, if there is one
+    const [checkIn] = await database
+      .select({ id: schema.jobCheckIns.id })
+      .from(schema.jobCheckIns)
+      .where(
+        and(
+          eq(schema.jobCheckIns.jobId, jobId),
+          eq(schema.jobCheckIns.employeeId, employeeId),
+          eq(schema.jobCheckIns.type, "check_in"),
+          gte(schema.jobCheckIns.checkedAt, startOfDay(now)),
+        ),
+      )
+      .orderBy(desc(schema.jobCheckIns.checkedAt))
+      .limit(1)
+    checkInId = checkIn?.id ?? null
+  }
+
+  const shift = await findCurrentShift(database, companyId, employeeId, now)
+
+  return database.transaction(async (tx) => {
+    const [session] = await tx
+      .insert(schema.workSessions)
+      .values({
+        employeeId,
+        jobId,
+        timesheetId: timesheet.id,
+        shiftId: shift?.id ?? null,
+        checkInId,
+        startedAt: now,
+        clockInLatitude: toCoordinate(input.latitude),
+        clockInLongitude: toCoordinate(input.longitude),
+        notes: typeof input.notes === "string" && input.notes.trim() ? input.notes.trim() : null,
+      })
+      .returning()
+
+    if (shift && !shift.actualStartTime) {
+      await tx
+        .update(schema.shifts)
+        .set({ actualStartTime: now, updatedAt: now })
+        .where(eq(schema.shifts.id, shift.id))
+    }
+    return session
+  })
+}
+
+export async function clockOut(
+  companyId: number,
+  employeeId: number,
+  input: { latitude?: unknown; longitude?: unknown; notes?: unknown },
+) {
+  const database = requireDb()
+  const session = await findOpenSession(database, employeeId)
+  if (!session) {
+    throw new TimesheetError("You're not clocked in", 409)
+  }
+  assertEditable(await findTimesheetById(database, session.timesheetId), { type: "employee", employeeId })
+
+  const now = new Date()
+  return database.transaction(async (tx) => {
+    await tx
+      .update(schema.workSessionBreaks)
+      .set({ endedAt: now })
+      .where(and(eq(schema.workSessionBreaks.workSessionId, session.id), isNull(schema.workSessionBreaks.endedAt)))
+    const breaks = await tx
+      .select()
+      .from(schema.workSessionBreaks)
+      .where(eq(schema.workSessionBreaks.workSessionId, session.id))
+    const breakMinutes = totalBreakMinutes(breaks)
+
+    const notes = typeof input.notes === "string" && input.notes.trim() ? input.notes.trim() : session.notes
+    const [updated] = await tx
+      .update(schema.workSessions)
+      .set({
+        endedAt: now,
+        breakMinutes,
+        durationMinutes: sessionMinutes(session.startedAt, now, breakMinutes),
+        clockOutLatitude: toCoordinate(input.latitude),
+        clockOutLongitude: toCoordinate(input.longitude),
+        notes,
+      })
+      .where(eq(schema.workSessions.id, session.id))
+      .returning()
+
+    if (session.shiftId) {
+      await tx
+        .update(schema.shifts)
+        .set({ actualEndTime: now, updatedAt: now })
+        .where(and(eq(schema.shifts.id, session.shiftId), eq(schema.shifts.companyId, companyId)))
+    }
+    return updated
+  })
+}
+
+export async function startBreak(companyId: number, employeeId: number) {
+  const database = requireDb()
+  const session = await findOpenSession(database, employeeId)
+  if (!session) {
+    throw new TimesheetError("Clock in before starting a break", 409)
+  }
+  if (await findOpenBreak(database, session.id)) {
+    throw new TimesheetError("You're already on a break", 409)
+  }
+  assertEditable(await findTimesheetById(database, session.timesheetId), { type: "employee", employeeId })
+
+  const [created] = await database
+    .insert(schema.workSessionBreaks)
+    .values({ workSessionId: session.id, startedAt: new Date() })
+    .returning()
+  return created
+}
+
+export async function endBreak(companyId: number, employeeId: number) {
+  const database = requireDb()
+  const session = await findOpenSession(database, employeeId)
+  const openBreak = session ? await findOpenBreak(database, session.id) : null
+  if (!session || !openBreak) {
+    throw new TimesheetError("You're not on a break", 409)
+  }
+
+  const now = new Date()
+  return database.transaction(async (tx) => {
+    const [ended] = await tx
+      .update(schema.workSessionBreaks)
+      .set({ endedAt: now })
+      .where(eq(schema.workSessionBreaks.id, openBreak.id))
+      .returning()
+    const breaks = await tx
+      .select()
+      .from(schema.workSessionBreaks)
+      .where(eq(schema.workSessionBreaks.workSessionId, session.id))
+    await tx
+      .update(schema.workSessions)
+      .set({ breakMinutes: totalBreakMinutes(breaks) })
+      .where(eq(schema.workSessions.id, session.id))
+    return ended
+  })
+}
+
+/**
+ * Start a session when an employee starts a job. Someone already clocked in stays on their
+ * current session, so the time isn't counted twice.
+ */
+export async function startJobWorkSession(
+  executor: DbExecutor,
+  companyId: number,
+  employeeId: number,
+  jobId: number,
+  startedAt: Date,
+  notes: string | null,
+) {
+  const open = await findOpenSession(executor, employeeId)
+  if (open) return open
+
+  const timesheet = await findOrCreateTimesheet(executor, companyId, employeeId, startedAt)
+  if (timesheet.status === "approved") {
+    throw new TimesheetError("This week's timesheet has been approved and is locked", 409)
+  }
+  const shift = await findCurrentShift(executor, companyId, employeeId, startedAt)
+  const [session] = await executor
+    .insert(schema.workSessions)
+    .values({ employeeId, jobId, timesheetId: timesheet.id, shiftId: shift?.id ?? null, startedAt, notes })
+    .returning()
+  return session
+}
+
+/**
+ * Close the session started for a job when the job is completed, ending any break in progress
+ */
+export async function closeJobWorkSession(executor: DbExecutor, jobId: number, endedAt: Date) {
+  const [session] = await executor
+    .select()
+    .from(schema.workSessions)
+    .where(and(eq(schema.workSessions.jobId, jobId), isNull(schema.workSessions.endedAt)))
+    .limit(1)
+  if (!session) return null
+
+  await executor
+    .update(schema.workSessionBreaks)
+    .set({ endedAt })
+    .where(and(eq(schema.workSessionBreaks.workSessionId, session.id), isNull(schema.workSessionBreaks.endedAt)))
+  const breaks = await executor
+    .select()
+    .from(schema.workSessionBreaks)
+    .where(eq(schema.workSessionBreaks.workSessionId, session.id))
+  const breakMinutes = totalBreakMinutes(breaks)
+
+  const [updated] = await executor
+    .update(schema.workSessions)
+    .set({ endedAt, breakMinutes, durationMinutes: sessionMinutes(session.startedAt, endedAt, breakMinutes) })
+    .where(eq(schema.workSessions.id, session.id))
+    .returning()
+  return updated
+}
+
+async function findCompanySession(executor: DbExecutor, companyId: number, sessionId: number) {
+  const [row] = await executor
+    .select({ session: schema.workSessions })
+    .from(schema.workSessions)
+    .innerJoin(schema.employees, eq(schema.workSessions.employeeId, schema.employees.id))
+    .where(and(eq(schema.workSessions.id, sessionId), eq(schema.employees.companyId, companyId)))
+  if (!row) {
+    throw new TimesheetError("Work session not found", 404)
+  }
+  return row.session
+}
+
+function editorColumns(actor: TimesheetActor) {
+  return actor.type === "manager"
+    ? { editedBy: actor.userId, editedByEmployeeId: null }
+    : { editedBy: null, editedByEmployeeId: actor.employeeId }
+}
+
+function snapshot(session: Partial<WorkSession>) {
+  return {
+    startedAt: session.startedAt?.toISOString() ?? null,
+    endedAt: session.endedAt?.toISOString() ?? null,
+    breakMinutes: session.breakMinutes ?? 0,
+    jobId: session.jobId ?? null,
+    notes: session.notes ?? null,
+  }
+}
+
+/**
+ * Record time worked without clocking, e.g. a manager adding a forgotten shift
+ */
+export async function addWorkSession(
+  companyId: number,
+  input: {
+    employeeId?: unknown
+    jobId?: unknown
+    startedAt?: unknown
+    endedAt?: unknown
+    durationMinutes?: unknown
+    breakMinutes?: unknown
+    notes?: unknown
+    reason?: unknown
+  },
+  actor: TimesheetActor,
+) {
+  const database = requireDb()
+  const employeeId = actor.type === "employee" ? actor.employeeId : parseInt(String(input.employeeId))
+  if (!employeeId || Number.isNaN(employeeId)) {
+    throw new TimesheetError("Employee ID is required")
+  }
+  const [employee] = await database
+    .select({ id: schema.employees.id })
+    .from(schema.employees)
+    .where(and(eq(schema.employees.id, employeeId), eq(schema.employees.companyId, companyId)))
+  if (!employee) {
+    throw new TimesheetError("Employee not found", 404)
+  }
+
+  const startedAt = input.startedAt ? parseTimestamp(input.startedAt, "start time") : new Date()
+  const breakMinutes = Math.max(0, parseInt(String(input.breakMinutes ?? 0)) || 0)
+  let endedAt = input.endedAt ? parseTimestamp(input.endedAt, "end time") : null
+  if (!endedAt && input.durationMinutes) {
+    const minutes = parseInt(String(input.durationMinutes))
+    if (minutes > 0) endedAt = new Date(startedAt.getTime() + (minutes + breakMinutes) * 60000)
+  }
+  if (endedAt && endedAt <= startedAt) {
+    throw new TimesheetError("End time must be after the start time")
+  }
+
+  const timesheet = await findOrCreateTimesheet(database, companyId, employeeId, startedAt)
+  assertEditable(timesheet, actor)
+  const shift = await findCurrentShift(database, companyId, employeeId, startedAt)
+  const reason = typeof input.reason === "string" && input.reason.trim() ? input.reason.trim() : null
+
+  return database.transaction(async (tx) => {
+    const [session] = await tx
+      .insert(schema.workSessions)
+      .values({
+        employeeId,
+        jobId: input.jobId ? parseInt(String(input.jobId)) : null,
+        timesheetId: timesheet.id,
+        shiftId: shift?.id ?? null,
+        startedAt,
+        endedAt,
+        breakMinutes,
+        durationMinutes: endedAt ? sessionMinutes(startedAt, endedAt, breakMinutes) : null,
+        notes: typeof input.notes === "string" && input.notes.trim() ? input.notes.trim() : null,
+      })
+      .returning()
+
+    await tx.insert(schema.workSessionEdits).values({
+      workSessionId: session.id,
+      ...editorColumns(actor),
+      reason: reason ?? "Added manually",
+      previousValues: {},
+      newValues: snapshot(session),
+    })
+    return session
+  })
+}
+
+/**
+ * Change a recorded session. Every change is kept in the session's edit history; employees have
+ * to say why.
+ */
+export async function updateWorkSession(
+  companyId: number,
+  sessionId: number,
+  input: {
+    startedAt?: unknown
+    endedAt?: unknown
+    durationMinutes?: unknown
+    breakMinutes?: unknown
+    jobId?: unknown
+    notes?: unknown
+    reason?: unknown
+  },
+  actor: TimesheetActor,
+) {
+  const database = requireDb()
+  const existing = await findCompanySession(database, companyId, sessionId)
+  if (actor.type === "employee" && existing.employeeId !== actor.employeeId) {
+    throw new TimesheetError("Work session not found", 404)
+  }
+  assertEditable(await findTimesheetById(database, existing.timesheetId), actor)
+
+  const reason = typeof input.reason === "string" && input.reason.trim() ? input.reason.trim() : null
+  if (actor.type === "employee" && !reason) {
+    throw new TimesheetError("Say why the times are being changed")
+  }
+
+  const startedAt = input.startedAt !== undefined ? parseTimestamp(input.startedAt, "start time") : existing.startedAt
+  const breakMinutes =
+    input.breakMinutes !== undefined
+      ? Math.max(0, parseInt(String(input.breakMinutes)) || 0)
+      : existing.breakMinutes
+  let endedAt = existing.endedAt
+  if (input.endedAt !== undefined) {
+    endedAt = input.endedAt ? parseTimestamp(input.endedAt, "end time") : null
+  } else if (input.durationMinutes !== undefined) {
+    const minutes = parseInt(String(input.durationMinutes))
+    endedAt = minutes > 0 ? new Date(startedAt.getTime() + (minutes + breakMinutes) * 60000) : existing.endedAt
+  }
+  if (endedAt && endedAt <= startedAt) {
+    throw new TimesheetError("End time must be after the start time")
+  }
+  if (!endedAt && existing.endedAt && actor.type === "employee") {
+    throw new TimesheetError("An end time is required")
+  }
+
+  const changes: Partial<WorkSession> = {
+    startedAt,
+    endedAt,
+    breakMinutes,
+    jobId: input.jobId !== undefined ? (input.jobId ? parseInt(String(input.jobId)) : null) : existing.jobId,
+    notes:
+      input.notes !== undefined
+        ? typeof input.notes === "string" && input.notes.trim()
+          ? input.notes.trim()
+          : null
+        : existing.notes,
+  }
+
+  const previous = snapshot(existing)
+  const next = snapshot(changes)
+  const changed = (Object.keys(next) as Array<keyof typeof next>).filter((key) => previous[key] !== next[key])
+  if (changed.length === 0) return existing
+
+  // Moving a session into another week moves it onto that week's timesheet
+  let timesheetId = existing.timesheetId
+  if (startedAt.getTime() !== existing.startedAt.getTime()) {
+    const timesheet = await findOrCreateTimesheet(database, companyId, existing.employeeId, startedAt)
+    assertEditable(timesheet, actor)
+    timesheetId = timesheet.id
+  }
+
+  return database.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(schema.workSessions)
+      .set({
+        ...changes,
+        timesheetId,
+        durationMinutes: endedAt ? sessionMinutes(startedAt, endedAt, breakMinutes) : null,
+      })
+      .where(eq(schema.workSessions.id, sessionId))
+      .returning()
+
+    await tx.insert(schema.workSessionEdits).values({
+      workSessionId: sessionId,
+      ...editorColumns(actor),
+      reason,
+      previousValues: Object.fromEntries(changed.map((key) => [key, previous[key]])),
+      newValues: Object.fromEntries(changed.map((key) => [key, next[key]])),
+    })
+    return updated
+  })
+}
+
+export async function deleteWorkSession(companyId: number, sessionId: number, actor: TimesheetActor) {
+  const database = requireDb()
+  const existing = await findCompanySession(database, companyId, sessionId)
+  if (actor.type === "employee" && existing.employeeId !== actor.employeeId) {
+    throw new TimesheetError("Work session not found", 404)
+  }
+  assertEditable(await findTimesheetById(database, existing.timesheetId), actor)
+  await database.delete(schema.workSessions).where(eq(schema.workSessions.id, sessionId))
+}
+
+async function sessionTotals(executor: DbExecutor, timesheetIds: number[]) {
+  const totals = new Map<number, { workedMinutes: number; breakMinutes: number; sessionsCount: number; openSessions: number }>()
+  if (timesheetIds.length === 0) return totals
+
+  const rows = await executor
+    .select({
+      timesheetId: schema.workSessions.timesheetId,
+      workedMinutes: sql<number>`COALESCE(SUM(${schema.workSessions.durationMinutes}), 0)::integer`,
+      breakMinutes: sql<number>`COALESCE(SUM(${schema.workSessions.breakMinutes}), 0)::integer`,
+      sessionsCount: sql<number>`COUNT(*)::integer`,
+      openSessions: sql<number>`COUNT(*) FILTER (WHERE ${schema.workSessions.endedAt} IS NULL)::integer`,
+    })
+    .from(schema.workSessions)
+    .where(inArray(schema.workSessions.timesheetId, timesheetIds))
+    .groupBy(schema.workSessions.timesheetId)
+
+  for (const row of rows) {
+    if (row.timesheetId) totals.set(row.timesheetId, row)
+  }
+  return totals
+}
+
+/**
+ * Timesheets for the manager's review list, newest week first
+ */
+export async function listTimesheets(
+  companyId: number,
+  filters: { status?: string | null; weekStart?: string | null; employeeId?: number | null },
+) {
+  const database = requireDb()
+  const rows = await database
+    .select({
+      timesheet: schema.timesheets,
+      employee: {
+        id: schema.employees.id,
+        firstName: schema.employees.firstName,
+        lastName: schema.employees.lastName,
+      },
+    })
+    .from(schema.timesheets)
+    .innerJoin(schema.employees, eq(schema.timesheets.employeeId, schema.employees.id))
+    .where(
+      and(
+        eq(schema.timesheets.companyId, companyId),
+        filters.status ? eq(schema.timesheets.status, filters.status) : undefined,
+        filters.weekStart ? eq(schema.timesheets.weekStart, filters.weekStart) : undefined,
+        filters.employeeId ? eq(schema.timesheets.employeeId, filters.employeeId) : undefined,
+      ),
+    )
+    .orderBy(desc(schema.timesheets.weekStart), asc(schema.employees.firstName), asc(schema.employees.lastName))
+
+  const totals = await sessionTotals(
+    database,
+    rows.map((row) => row.timesheet.id),
+  )
+  return rows.map((row) => {
+    const total = totals.get(row.timesheet.id)
+    return {
+      ...row.timesheet,
+      employee: row.employee,
+      workedMinutes: total?.workedMinutes ?? 0,
+      breakMinutes: total?.breakMinutes ?? 0,
+      sessionsCount: total?.sessionsCount ?? 0,
+      openSessions: total?.openSessions ?? 0,
+    }
+  })
+}
+
+async function buildTimesheetDetail(executor: DbExecutor, timesheet: Timesheet) {
+  const weekStart = parseISO(timesheet.weekStart)
+  const weekEnd = addDays(weekStart, 7)
+  const week: TimesheetWeek = { start: timesheet.weekStart, end: format(addDays(weekStart, 6), "yyyy-MM-dd") }
+
+  const [employee] = await executor
+    .select({
+      id: schema.employees.id,
+      firstName: schema.employees.firstName,
+      lastName: schema.employees.lastName,
+    })
+    .from(schema.employees)
+    .where(eq(schema.employees.id, timesheet.employeeId))
+
+  const sessionRows = await executor
+    .select({
+      session: schema.workSessions,
+      jobTitle: schema.jobs.title,
+      jobDurationMinutes: schema.jobs.durationMinutes,
+      shift: {
+        id: schema.shifts.id,
+        title: schema.shifts.title,
+        startTime: schema.shifts.startTime,
+        endTime: schema.shifts.endTime,
+        breakMinutes: schema.shifts.breakMinutes,
+      },
+    })
+    .from(schema.workSessions)
+    .leftJoin(schema.jobs, eq(schema.workSessions.jobId, schema.jobs.id))
+    .leftJoin(schema.shifts, eq(schema.workSessions.shiftId, schema.shifts.id))
+    .where(eq(schema.workSessions.timesheetId, timesheet.id))
+    .orderBy(asc(schema.workSessions.startedAt))
+
+  const sessionIds = sessionRows.map((row) => row.session.id)
+  const breaks = sessionIds.length
+    ? await executor
+        .select()
+        .from(schema.workSessionBreaks)
+        .where(inArray(schema.workSessionBreaks.workSessionId, sessionIds))
+        .orderBy(asc(schema.workSessionBreaks.startedAt))
+    : []
+  const edits = sessionIds.length
+    ? await executor
+        .select({
+          edit: schema.workSessionEdits,
+          editorFirstName: schema.users.firstName,
+          editorLastName: schema.users.lastName,
+        })
+        .from(schema.workSessionEdits)
+        .leftJoin(schema.users, eq(schema.workSessionEdits.editedBy, schema.users.id))
+        .where(inArray(schema.workSessionEdits.workSessionId, sessionIds))
+        .orderBy(asc(schema.workSessionEdits.createdAt))
+    : []
+
+  // Scheduled shifts and assigned jobs for the week, to compare against
+  const shifts = await executor
+    .select()
+    .from(schema.shifts)
+    .where(
+      and(
+        eq(schema.shifts.companyId, timesheet.companyId),
+        eq(schema.shifts.employeeId, timesheet.employeeId),
+        ne(schema.shifts.status, "cancelled"),
+        gte(schema.shifts.startTime, weekStart),
+        lt(schema.shifts.startTime, weekEnd),
+      ),
+    )
+  const jobs = await executor
+    .select({
+      id: schema.jobs.id,
+      title: schema.jobs.title,
+      scheduledFor: schema.jobs.scheduledFor,
+      durationMinutes: schema.jobs.durationMinutes,
+    })
+    .from(schema.jobAssignments)
+    .innerJoin(schema.jobs, eq(schema.jobAssignments.jobId, schema.jobs.id))
+    .where(
+      and(
+        eq(schema.jobAssignments.companyId, timesheet.companyId),
+        eq(schema.jobAssignments.employeeId, timesheet.employeeId),
+        ne(schema.jobAssignments.status, "declined"),
+        notInArray(schema.jobs.status, ["cancelled", "rejected"]),
+        gte(schema.jobs.scheduledFor, weekStart),
+        lt(schema.jobs.scheduledFor, weekEnd),
+      ),
+    )
+
+  const now = new Date()
+  const today = format(now, "yyyy-MM-dd")
+  const sessions = sessionRows.map((row) => {
+    const session = row.session
+    const sessionBreaks = breaks.filter((item) => item.workSessionId === session.id)
+    const sessionEdits = edits
+      .filter((item) => item.edit.workSessionId === session.id)
+      .map((item) => ({
+        ...item.edit,
+        editorName: item.editorFirstName ? `${item.editorFirstName} ${item.editorLastName}` : null,
+      }))
+    const flags: string[] = []
+
+    if (!session.endedAt && format(session.startedAt, "yyyy-MM-dd") !== today) {
+      flags.push("Not clocked out")
+    }
+    if (row.shift?.id) {
+      const lateBy = differenceInMinutes(session.startedAt, row.shift.startTime)
+      if (lateBy > VARIANCE_TOLERANCE_MINUTES) {
+        flags.push(`Clocked in ${formatMinutes(lateBy)} late for ${row.shift.title || "the shift"}`)
+      }
+      const leftEarlyBy = session.endedAt ? differenceInMinutes(row.shift.endTime, session.endedAt) : 0
+      if (leftEarlyBy > VARIANCE_TOLERANCE_MINUTES) {
+        flags.push(`Clocked out ${formatMinutes(leftEarlyBy)} before the shift ended`)
+      }
+      if (leftEarlyBy < -VARIANCE_TOLERANCE_MINUTES) {
+        flags.push(`Clocked out ${formatMinutes(-leftEarlyBy)} after the shift ended`)
+      }
+    }
+    if (session.jobId && row.jobDurationMinutes && session.durationMinutes !== null) {
+      const overBy = session.durationMinutes - row.jobDurationMinutes
+      if (Math.abs(overBy) >= JOB_VARIANCE_TOLERANCE_MINUTES) {
+        flags.push(
+          overBy > 0
+            ? `${formatMinutes(overBy)} over the job's estimated time`
+            : `${formatMinutes(-overBy)} under the job's estimated time`,
+        )
+      }
+    }
+    if (sessionEdits.length > 0) {
+      flags.push(`Edited ${sessionEdits.length} time${sessionEdits.length === 1 ? "" : "s"}`)
+    }
+
+    return {
+      ...session,
+      job: session.jobId ? { id: session.jobId, title: row.jobTitle, durationMinutes: row.jobDurationMinutes } : null,
+      shift: row.shift?.id ? row.shift : null,
+      breaks: sessionBreaks,
+      edits: sessionEdits,
+      flags,
+    }
+  })
+
+  const flags: string[] = []
+  const days: TimesheetDay[] = []
+  for (let day = weekStart; day < weekEnd; day = addDays(day, 1)) {
+    const date = format(day, "yyyy-MM-dd")
+    const sameDay = (value: Date | null) => !!value && format(value, "yyyy-MM-dd") === date
+    const scheduledMinutes = shifts
+      .filter((shift) => sameDay(shift.startTime))
+      .reduce(
+        (total, shift) =>
+          total + Math.max(0, differenceInMinutes(shift.endTime, shift.startTime) - (shift.breakMinutes ?? 0)),
+        0,
+      )
+    const jobMinutes = jobs
+      .filter((job) => sameDay(job.scheduledFor))
+      .reduce((total, job) => total + (job.durationMinutes ?? 0), 0)
+    const daySessions = sessions.filter((session) => sameDay(session.startedAt))
+    const workedMinutes = daySessions.reduce((total, session) => total + (session.durationMinutes ?? 0), 0)
+    const breakMinutes = daySessions.reduce((total, session) => total + session.breakMinutes, 0)
+    // Without shifts, the jobs booked for the day are what was expected
+    const expected = scheduledMinutes || jobMinutes
+
+    days.push({
+      date,
+      scheduledMinutes,
+      jobMinutes,
+      workedMinutes,
+      breakMinutes,
+      varianceMinutes: expected ? workedMinutes - expected : 0,
+    })
+
+    const label = format(day, "EEE d MMM")
+    if (expected && workedMinutes === 0 && date < today) {
+      flags.push(`${label}: scheduled for ${formatMinutes(expected)} but no time recorded`)
+    } else if (expected && Math.abs(workedMinutes - expected) > VARIANCE_TOLERANCE_MINUTES * 3) {
+      flags.push(`${label}: worked ${formatMinutes(workedMinutes)} against ${formatMinutes(expected)} scheduled`)
+    } else if (!expected && workedMinutes > 0) {
+      flags.push(`${label}: ${formatMinutes(workedMinutes)} worked with nothing scheduled`)
+    }
+  }
+
+  const totals = {
+    workedMinutes: days.reduce((total, day) => total + day.workedMinutes, 0),
+    breakMinutes: days.reduce((total, day) => total + day.breakMinutes, 0),
+    scheduledMinutes: days.reduce((total, day) => total + (day.scheduledMinutes || day.jobMinutes), 0),
+    openSessions: sessions.filter((session) => !session.endedAt).length,
+  }
+
+  return {
+    timesheet,
+    employee,
+    week,
+    sessions,
+    days,
+    totals: { ...totals, varianceMinutes: totals.workedMinutes - totals.scheduledMinutes },
+    flags,
+  }
+}
+
+export type TimesheetDetail = Awaited<ReturnType<typeof buildTimesheetDetail>>
+
+export async function getTimesheetDetail(companyId: number, timesheetId: number) {
+  const database = requireDb()
+  const [timesheet] = await database
+    .select()
+    .from(schema.timesheets)
+    .where(and(eq(schema.timesheets.id, timesheetId), eq(schema.timesheets.companyId, companyId)))
+  if (!timesheet) {
+    throw new TimesheetError("Timesheet not found", 404)
+  }
+  return buildTimesheetDetail(database, timesheet)
+}
+
+/**
+ * An employee's timesheet for the week containing `date`
+ */
+export async function getEmployeeTimesheet(companyId: number, employeeId: number, date: Date = new Date()) {
+  const database = requireDb()
+  const timesheet = await findOrCreateTimesheet(database, companyId, employeeId, date)
+  return buildTimesheetDetail(database, timesheet)
+}
+
+export async function submitTimesheet(companyId: number, employeeId: number, timesheetId: number, notes?: unknown) {
+  const database = requireDb()
+  const [timesheet] = await database
+    .select()
+    .from(schema.timesheets)
+    .where(
+      and(
+        eq(schema.timesheets.id, timesheetId),
+        eq(schema.timesheets.companyId, companyId),
+        eq(schema.timesheets.employeeId, employeeId),
+      ),
+    )
+  if (!timesheet) {
+    throw new TimesheetError("Timesheet not found", 404)
+  }
+  if (!EMPLOYEE_EDITABLE_STATUSES.includes(timesheet.status)) {
+    throw new TimesheetError("This timesheet has already been submitted", 409)
+  }
+
+  const total = (await sessionTotals(database, [timesheet.id])).get(timesheet.id)
+  if (total?.openSessions) {
+    throw new TimesheetError("Clock out before submitting your timesheet", 409)
+  }
+  if (!total?.sessionsCount) {
+    throw new TimesheetError("There's no time recorded for this week")
+  }
+
+  const now = new Date()
+  const [updated] = await database
+    .update(schema.timesheets)
+    .set({
+      status: "submitted",
+      workedMinutes: total.workedMinutes,
+      breakMinutes: total.breakMinutes,
+      employeeNotes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+      submittedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(schema.timesheets.id, timesheet.id))
+    .returning()
+  return updated
+}
+
+/**
+ * Approve a submitted timesheet, locking it for payroll, or return it to the employee with comments
+ */
+export async function reviewTimesheet(
+  companyId: number,
+  timesheetId: number,
+  action: "approve" | "return",
+  reviewedBy: number,
+  comments?: unknown,
+) {
+  const database = requireDb()
+  const [timesheet] = await database
+    .select()
+    .from(schema.timesheets)
+    .where(and(eq(schema.timesheets.id, timesheetId), eq(schema.timesheets.companyId, companyId)))
+  if (!timesheet) {
+    throw new TimesheetError("Timesheet not found", 404)
+  }
+  if (timesheet.status !== "submitted") {
+    throw new TimesheetError("Only submitted timesheets can be reviewed", 409)
+  }
+
+  const reviewComments = typeof comments === "string" && comments.trim() ? comments.trim() : null
+  if (action === "return" && !reviewComments) {
+    throw new TimesheetError("Add a comment so the employee knows what to change")
+  }
+
+  const total = (await sessionTotals(database, [timesheet.id])).get(timesheet.id)
+  const now = new Date()
+  const [updated] = await database
+    .update(schema.timesheets)
+    .set({
+      status: action === "approve" ? "approved" : "returned",
+      workedMinutes: total?.workedMinutes ?? 0,
+      breakMinutes: total?.breakMinutes ?? 0,
+      reviewedBy,
+      reviewedAt: now,
+      reviewComments,
+      updatedAt: now,
+    })
+    .where(eq(schema.timesheets.id, timesheet.id))
+    .returning()
+  return updated
+}
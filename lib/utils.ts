@@ -18,6 +18,10 @@ const statusThemes: Record<string, StatusTheme> = {
   draft: { label: "Draft", badgeClass: "bg-muted text-muted-foreground" },
   overdue: { label: "Overdue", badgeClass: "bg-destructive text-white" },
   paid: { label: "Paid", badgeClass: "bg-chart-2 text-white" },
+  credited: { label: "Credited", badgeClass: "bg-chart-3 text-white" },
+  void: { label: "Void", badgeClass: "bg-muted text-muted-foreground line-through" },
+  issued: { label: "Issued", badgeClass: "bg-chart-4 text-white" },
+  refunded: { label: "Refunded", badgeClass: "bg-chart-2 text-white" },
   active: { label: "Active", badgeClass: "bg-chart-2 text-white" },
   paused: { label: "Paused", badgeClass: "bg-muted text-muted-foreground" },
   "at-risk": { label: "At Risk", badgeClass: "bg-amber-500 text-white" },
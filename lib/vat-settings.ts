@@ -0,0 +1,213 @@
+export type VatRateCode = "standard" | "reduced" | "zero" | "exempt"
+
+export const VAT_RATE_CODES: VatRateCode[] = ["standard", "reduced", "zero", "exempt"]
+
+export const vatRateLabels: Record<VatRateCode, string> = {
+  standard: "Standard",
+  reduced: "Reduced",
+  zero: "Zero rated",
+  exempt: "Exempt",
+}
+
+export interface CompanyVatSettings {
+  // Companies that aren't VAT registered charge no VAT on any line
+  registered: boolean
+  standardRate: number
+  reducedRate: number
+  // Rate given to new invoice lines
+  defaultRate: VatRateCode
+  // Whether new invoices are priced with VAT included
+  pricesIncludeVat: boolean
+  // Apply the domestic reverse charge to commercial customers with a VAT number
+  reverseChargeForCommercial: boolean
+}
+
+export const defaultVatSettings: CompanyVatSettings = {
+  registered: true,
+  standardRate: 20,
+  reducedRate: 5,
+  defaultRate: "standard",
+  pricesIncludeVat: false,
+  reverseChargeForCommercial: false,
+}
+
+export const REVERSE_CHARGE_NOTICE =
+  "Reverse charge: customer to account to HMRC for the VAT on this supply (VAT Act 1994 Section 55A)."
+
+const MAX_RATE = 100
+
+// HMRC wording for the nine boxes of a VAT return
+export const vatReturnBoxLabels: Record<`box${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`, string> = {
+  box1: "VAT due on sales and other outputs",
+  box2: "VAT due on acquisitions from EU member states",
+  box3: "Total VAT due",
+  box4: "VAT reclaimed on purchases and other inputs",
+  box5: "Net VAT to pay to HMRC or reclaim",
+  box6: "Total value of sales excluding VAT",
+  box7: "Total value of purchases excluding VAT",
+  box8: "Total value of supplies to EU member states excluding VAT",
+  box9: "Total value of acquisitions from EU member states excluding VAT",
+}
+
+export function isVatRateCode(value: unknown): value is VatRateCode {
+  return typeof value === "string" && VAT_RATE_CODES.includes(value as VatRateCode)
+}
+
+/**
+ * Percentage charged for a rate code under the company's settings
+ */
+export function getVatRatePercent(code: VatRateCode, settings: CompanyVatSettings) {
+  if (!settings.registered) return 0
+  if (code === "standard") return settings.standardRate
+  if (code === "reduced") return settings.reducedRate
+  return 0
+}
+
+export function isReverseChargeCustomer(
+  settings: CompanyVatSettings,
+  customer: { customerType?: string | null; taxId?: string | null } | null | undefined,
+) {
+  return (
+    settings.registered &&
+    settings.reverseChargeForCommercial &&
+    customer?.customerType === "commercial" &&
+    !!customer.taxId?.trim()
+  )
+}
+
+export interface VatLineInput {
+  quantity: string | number
+  unitPrice: string | number
+  // Rate code chosen for the line; resolved to a percentage with the company settings
+  vatRate?: string | null
+  // Percentage already stored on the line, used when there's no rate code
+  taxRate?: string | number | null
+  taxable?: boolean | number | null
+}
+
+export interface InvoiceTotalsOptions {
+  settings?: CompanyVatSettings
+  // Rate for lines saved before per-line VAT (no code and no rate of their own)
+  taxRate?: number
+  discountAmount?: number
+  pricesIncludeVat?: boolean
+  reverseCharge?: boolean
+}
+
+export interface VatLineTotals {
+  vatRate: VatRateCode | null
+  taxRate: number
+  // Quantity x unit price, as entered (gross when prices include VAT)
+  amount: number
+  net: number
+  tax: number
+}
+
+export interface VatBreakdownRow {
+  taxRate: number
+  net: number
+  tax: number
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function resolveLineRate(item: VatLineInput, options: InvoiceTotalsOptions) {
+  if (isVatRateCode(item.vatRate)) {
+    return getVatRatePercent(item.vatRate, options.settings ?? defaultVatSettings)
+  }
+  if (item.taxRate !== null && item.taxRate !== undefined && item.taxRate !== "") {
+    return parseFloat(String(item.taxRate)) || 0
+  }
+  const taxable = item.taxable !== false && item.taxable !== 0
+  return taxable ? options.taxRate ?? 0 : 0
+}
+
+/**
+ * Work out per-line VAT and the invoice totals. VAT is rounded per line; with VAT-inclusive prices
+ * the VAT is taken out of each line's amount. Under the reverse charge lines keep their rate but
+ * no VAT is charged. The discount comes off the VAT-inclusive total, as it always has.
+ */
+export function calculateInvoiceTotals(items: VatLineInput[], options: InvoiceTotalsOptions = {}) {
+  const pricesIncludeVat = !!options.pricesIncludeVat && !options.reverseCharge
+
+  const lines: VatLineTotals[] = items.map((item) => {
+    const quantity = parseFloat(String(item.quantity || "0")) || 0
+    const unitPrice = parseFloat(String(item.unitPrice || "0")) || 0
+    const amount = roundMoney(quantity * unitPrice)
+    const taxRate = Math.min(MAX_RATE, Math.max(0, resolveLineRate(item, options)))
+
+    let tax = 0
+    if (!options.reverseCharge) {
+      tax = pricesIncludeVat
+        ? roundMoney((amount * taxRate) / (100 + taxRate))
+        : roundMoney((amount * taxRate) / 100)
+    }
+
+    return {
+      vatRate: isVatRateCode(item.vatRate) ? item.vatRate : null,
+      taxRate,
+      amount,
+      net: pricesIncludeVat ? roundMoney(amount - tax) : amount,
+      tax,
+    }
+  })
+
+  const breakdown: VatBreakdownRow[] = []
+  for (const line of lines) {
+    const row = breakdown.find((entry) => entry.taxRate === line.taxRate)
+    if (row) {
+      row.net = roundMoney(row.net + line.net)
+      row.tax = roundMoney(row.tax + line.tax)
+    } else {
+      breakdown.push({ taxRate: line.taxRate, net: line.net, tax: line.tax })
+    }
+  }
+  breakdown.sort((a, b) => b.taxRate - a.taxRate)
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.net, 0))
+  const taxAmount = roundMoney(lines.reduce((sum, line) => sum + line.tax, 0))
+  const discountAmount = options.discountAmount ?? 0
+  const total = subtotal + taxAmount - discountAmount
+
+  return {
+    subtotal: subtotal.toFixed(2),
+    taxAmount: taxAmount.toFixed(2),
+    total: total.toFixed(2),
+    // Highest rate on the invoice, kept on the invoice row for older readers
+    taxRate: (breakdown[0]?.taxRate ?? 0).toFixed(2),
+    lines,
+    breakdown,
+  }
+}
+
+function normalizeRate(value: unknown, fallback: number) {
+  const rate = typeof value === "number" ? value : parseFloat(String(value))
+  return Number.isFinite(rate) && rate >= 0 && rate <= MAX_RATE ? Math.round(rate * 100) / 100 : fallback
+}
+
+export function normalizeVatSettings(raw: unknown): CompanyVatSettings {
+  let parsed: any = raw
+
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      parsed = null
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    parsed = {}
+  }
+
+  return {
+    registered: typeof parsed.registered === "boolean" ? parsed.registered : defaultVatSettings.registered,
+    standardRate: normalizeRate(parsed.standardRate, defaultVatSettings.standardRate),
+    reducedRate: normalizeRate(parsed.reducedRate, defaultVatSettings.reducedRate),
+    defaultRate: isVatRateCode(parsed.defaultRate) ? parsed.defaultRate : defaultVatSettings.defaultRate,
+    pricesIncludeVat: parsed.pricesIncludeVat === true,
+    reverseChargeForCommercial: parsed.reverseChargeForCommercial === true,
+  }
+}
@@ -0,0 +1,141 @@
+import { and, count, eq, gte, isNotNull, lt, notInArray, sql } from "drizzle-orm"
+import { schema, type DbExecutor } from "@/lib/db"
+import { normalizeVatSettings, type CompanyVatSettings } from "./vat-settings"
+
+// Invoices that never went to the customer don't create a tax point
+const NON_VAT_INVOICE_STATUSES = ["draft", "cancelled"]
+
+export interface VatReturnPeriod {
+  start: Date
+  // Exclusive
+  end: Date
+}
+
+export interface VatReturn {
+  periodStart: string
+  periodEnd: string
+  box1: number
+  box2: number
+  box3: number
+  box4: number
+  box5: number
+  box6: number
+  box7: number
+  box8: number
+  box9: number
+  // Box 4 is more than box 3, so HMRC owes the company
+  repaymentDue: boolean
+  invoiceCount: number
+  creditNoteCount: number
+  expenseCount: number
+}
+
+export async function getVatSettings(executor: DbExecutor, companyId: number): Promise<CompanyVatSettings> {
+  const company = await executor.query.companies.findFirst({
+    where: eq(schema.companies.id, companyId),
+    columns: { vatSettings: true },
+  })
+  return normalizeVatSettings(company?.vatSettings)
+}
+
+/**
+ * The most recent calendar quarter that has ended
+ */
+export function getPreviousVatQuarter(today = new Date()): VatReturnPeriod {
+  const quarterStartMonth = Math.floor(today.getMonth() / 3) * 3
+  const end = new Date(today.getFullYear(), quarterStartMonth, 1)
+  const start = new Date(end.getFullYear(), end.getMonth() - 3, 1)
+  return { start, end }
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Compute the nine VAT return boxes for a period from issued invoices and credit notes (by issue
+ * date) and expenses (by expense date). Boxes 2, 8 and 9 only apply to Northern Ireland trade with
+ * the EU and are always zero here. Boxes 6 to 9 are whole pounds, as HMRC expects.
+ */
+export async function calculateVatReturn(
+  executor: DbExecutor,
+  companyId: number,
+  period: VatReturnPeriod,
+): Promise<VatReturn> {
+  const { invoices, creditNotes, expenses } = schema
+
+  const [sales] = await executor
+    .select({
+      invoiceCount: count(),
+      vat: sql<string>`COALESCE(SUM(CAST(${invoices.taxAmount} AS DECIMAL)), 0)`,
+      net: sql<string>`COALESCE(SUM(CAST(${invoices.total} AS DECIMAL) - CAST(${invoices.taxAmount} AS DECIMAL)), 0)`,
+    })
+    .from(invoices)
+    .where(
+      and(
+        eq(invoices.companyId, companyId),
+        notInArray(invoices.status, NON_VAT_INVOICE_STATUSES),
+        isNotNull(invoices.issuedAt),
+        gte(invoices.issuedAt, period.start),
+        lt(invoices.issuedAt, period.end),
+      ),
+    )
+
+  const [credits] = await executor
+    .select({
+      creditNoteCount: count(),
+      vat: sql<string>`COALESCE(SUM(CAST(${creditNotes.taxAmount} AS DECIMAL)), 0)`,
+      net: sql<string>`COALESCE(SUM(CAST(${creditNotes.total} AS DECIMAL) - CAST(${creditNotes.taxAmount} AS DECIMAL)), 0)`,
+    })
+    .from(creditNotes)
+    .where(
+      and(
+        eq(creditNotes.companyId, companyId),
+        gte(creditNotes.issuedAt, period.start),
+        lt(creditNotes.issuedAt, period.end),
+      ),
+    )
+
+  const [purchases] = await executor
+    .select({
+      expenseCount: count(),
+      reclaimable: sql<string>`COALESCE(SUM(CASE WHEN ${expenses.vatReclaimable} = 1 THEN CAST(${expenses.vatAmount} AS DECIMAL) ELSE 0 END), 0)`,
+      net: sql<string>`COALESCE(SUM(CAST(${expenses.amount} AS DECIMAL) - CAST(${expenses.vatAmount} AS DECIMAL)), 0)`,
+    })
+    .from(expenses)
+    .where(
+      and(
+        eq(expenses.companyId, companyId),
+        gte(expenses.expenseDate, period.start),
+        lt(expenses.expenseDate, period.end),
+      ),
+    )
+
+  const box1 = roundMoney(parseFloat(sales?.vat ?? "0") - parseFloat(credits?.vat ?? "0"))
+  const box2 = 0
+  const box3 = roundMoney(box1 + box2)
+  const box4 = roundMoney(parseFloat(purchases?.reclaimable ?? "0"))
+  const box5 = roundMoney(Math.abs(box3 - box4))
+  const box6 = Math.trunc(parseFloat(sales?.net ?? "0") - parseFloat(credits?.net ?? "0"))
+  const box7 = Math.trunc(parseFloat(purchases?.net ?? "0"))
+
+  const lastDay = new Date(period.end.getTime() - 1)
+
+  return {
+    periodStart: period.start.toISOString(),
+    periodEnd: lastDay.toISOString(),
+    box1,
+    box2,
+    box3,
+    box4,
+    box5,
+    box6,
+    box7,
+    box8: 0,
+    box9: 0,
+    repaymentDue: box4 > box3,
+    invoiceCount: sales?.invoiceCount ?? 0,
+    creditNoteCount: credits?.creditNoteCount ?? 0,
+    expenseCount: purchases?.expenseCount ?? 0,
+  }
+}
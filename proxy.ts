@@ -11,6 +11,8 @@ const publicPaths = [
   "/portal", 
   "/booking", 
   "/customer-portal",
+  "/pay",
+  "/sign",
   "/admin/login"
 ]
 
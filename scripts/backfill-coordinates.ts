@@ -0,0 +1,86 @@
+import { neon } from "@neondatabase/serverless"
+import { config } from "dotenv"
+import { geocodeToColumns } from "../lib/geocoding"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+const sql = neon(process.env.DATABASE_URL!)
+
+// Nominatim's usage policy allows at most one request per second
+const GEOCODE_DELAY_MS = 1100
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+type Row = { id: number; address: string | null; city: string | null; postcode: string | null }
+
+async function geocodeRows(label: string, rows: Row[], save: (id: number, lat: string, lng: string) => Promise<unknown>) {
+  console.log(`\n📍 Geocoding ${rows.length} ${label}...`)
+  let located = 0
+
+  for (const row of rows) {
+    let columns = await geocodeToColumns([row.address, row.city, row.postcode])
+    if (!columns.latitude && row.postcode) {
+      await sleep(GEOCODE_DELAY_MS)
+      columns = await geocodeToColumns([row.postcode])
+    }
+
+    if (columns.latitude && columns.longitude) {
+      await save(row.id, columns.latitude, columns.longitude)
+      located++
+      console.log(`  ✓ ${label} #${row.id} → ${columns.latitude}, ${columns.longitude}`)
+    } else {
+      console.log(`  ✗ ${label} #${row.id} could not be located`)
+    }
+
+    await sleep(GEOCODE_DELAY_MS)
+  }
+
+  console.log(`  ${located}/${rows.length} ${label} located`)
+}
+
+async function backfillCoordinates() {
+  console.log("🔧 Backfilling coordinates for jobs, customers and customer addresses...")
+
+  try {
+    const jobs = (await sql`
+      SELECT id, location AS address, city, postcode FROM jobs
+      WHERE latitude IS NULL AND (location IS NOT NULL OR postcode IS NOT NULL)
+      ORDER BY id
+    `) as Row[]
+    await geocodeRows("jobs", jobs, (id, lat, lng) =>
+      sql`UPDATE jobs SET latitude = ${lat}, longitude = ${lng} WHERE id = ${id}`,
+    )
+
+    const customers = (await sql`
+      SELECT id, address, city, postcode FROM customers
+      WHERE latitude IS NULL AND (address IS NOT NULL OR postcode IS NOT NULL)
+      ORDER BY id
+    `) as Row[]
+    await geocodeRows("customers", customers, (id, lat, lng) =>
+      sql`UPDATE customers SET latitude = ${lat}, longitude = ${lng} WHERE id = ${id}`,
+    )
+
+    const addresses = (await sql`
+      SELECT id, address, city, postcode FROM customer_addresses
+      WHERE latitude IS NULL
+      ORDER BY id
+    `) as Row[]
+    await geocodeRows("customer addresses", addresses, (id, lat, lng) =>
+      sql`UPDATE customer_addresses SET latitude = ${lat}, longitude = ${lng} WHERE id = ${id}`,
+    )
+  } catch (error) {
+    console.error("❌ Error backfilling coordinates:", error)
+    throw error
+  }
+}
+
+backfillCoordinates()
+  .then(() => {
+    console.log("\n✅ Script completed successfully!")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("\n❌ Script failed:", error)
+    process.exit(1)
+  })
@@ -0,0 +1,104 @@
+import { neon } from "@neondatabase/serverless"
+import { config } from "dotenv"
+import { readFile, unlink } from "fs/promises"
+import path from "path"
+import { buildStorageKey, createThumbnail, getStorage } from "../lib/storage"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+const sql = neon(process.env.DATABASE_URL!)
+
+type Row = {
+  id: number
+  company_id: number
+  file_name: string
+  mime_type: string
+  url: string
+  category: string | null
+}
+
+// Old uploads are either under public/uploads or public URLs in Supabase Storage
+async function loadLegacyFile(url: string) {
+  if (url.startsWith("/uploads/")) {
+    const filePath = path.join(process.cwd(), "public", url)
+    return { body: await readFile(filePath), localPath: filePath }
+  }
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+  return { body: Buffer.from(await response.arrayBuffer()), localPath: null }
+}
+
+async function migrateRows(table: "attachments" | "task_verification_photos", rows: Row[]) {
+  console.log(`\n📦 Moving ${rows.length} ${table} into ${getStorage().driver} storage...`)
+  const storage = getStorage()
+  let moved = 0
+
+  for (const row of rows) {
+    try {
+      const { body, localPath } = await loadLegacyFile(row.url)
+      const category = table === "attachments" ? row.category || "files" : "verification-photos"
+      const storageKey = buildStorageKey(row.company_id, category, row.file_name)
+      await storage.put(storageKey, body, row.mime_type)
+
+      let thumbnailKey: string | null = null
+      const thumbnail = await createThumbnail(body, row.mime_type)
+      if (thumbnail) {
+        thumbnailKey = buildStorageKey(row.company_id, "thumbnails", `${row.file_name.replace(/\.[^.]+$/, "")}.webp`)
+        await storage.put(thumbnailKey, thumbnail, "image/webp")
+      }
+
+      if (table === "attachments") {
+        await sql`UPDATE attachments SET storage_key = ${storageKey}, thumbnail_key = ${thumbnailKey}, url = NULL, thumbnail_url = NULL WHERE id = ${row.id}`
+      } else {
+        await sql`UPDATE task_verification_photos SET storage_key = ${storageKey}, thumbnail_key = ${thumbnailKey}, url = NULL, thumbnail_url = NULL WHERE id = ${row.id}`
+      }
+
+      // The public copy is what made the file reachable; remove it once the row points elsewhere
+      if (localPath) {
+        await unlink(localPath).catch(() => {})
+      }
+      moved++
+      console.log(`  ✓ ${table} #${row.id} → ${storageKey}`)
+    } catch (error) {
+      console.log(`  ✗ ${table} #${row.id} (${row.url}): ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  console.log(`  ${moved}/${rows.length} ${table} moved`)
+}
+
+async function migrateUploads() {
+  console.log("🔧 Moving public uploads into private storage...")
+
+  try {
+    const attachments = (await sql`
+      SELECT id, company_id, file_name, mime_type, url, category FROM attachments
+      WHERE storage_key IS NULL AND url IS NOT NULL
+      ORDER BY id
+    `) as Row[]
+    await migrateRows("attachments", attachments)
+
+    const photos = (await sql`
+      SELECT id, company_id, file_name, mime_type, url, NULL AS category FROM task_verification_photos
+      WHERE storage_key IS NULL AND url IS NOT NULL
+      ORDER BY id
+    `) as Row[]
+    await migrateRows("task_verification_photos", photos)
+  } catch (error) {
+    console.error("❌ Error moving uploads:", error)
+    throw error
+  }
+}
+
+migrateUploads()
+  .then(() => {
+    console.log("\n✅ Script completed successfully!")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("\n❌ Script failed:", error)
+    process.exit(1)
+  })
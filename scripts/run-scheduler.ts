@@ -0,0 +1,67 @@
+import { config } from "dotenv"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+/**
+ * Local scheduler worker for environments without Vercel Cron.
+ * Calls the secured /api/cron endpoint on an interval; the endpoint decides what is due,
+ * so running several workers at once is safe.
+ *
+ * Usage: npm run scheduler            (runs forever)
+ *        npm run scheduler -- --once  (single pass, e.g. from system cron)
+ */
+
+const APP_URL = process.env.SCHEDULER_URL || process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+const CRON_SECRET = process.env.CRON_SECRET
+const INTERVAL_MINUTES = parseInt(process.env.SCHEDULER_INTERVAL_MINUTES || "5", 10)
+
+async function runOnce() {
+  const started = new Date()
+  const res = await fetch(`${APP_URL}/api/cron?trigger=worker`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${CRON_SECRET}` },
+  })
+  const data = await res.json().catch(() => ({}))
+
+  if (!res.ok) {
+    throw new Error(data.error || `Scheduler request failed with status ${res.status}`)
+  }
+
+  console.log(
+    `[${started.toISOString()}] ✓ ${data.succeeded} succeeded, ${data.failed} failed, ${data.skipped} skipped`,
+  )
+  for (const run of data.runs ?? []) {
+    if (run.status === "failed") {
+      console.log(`  ✗ ${run.task} (company ${run.companyId ?? "all"}): ${run.error}`)
+    }
+  }
+}
+
+async function runScheduler() {
+  if (!CRON_SECRET) {
+    throw new Error("CRON_SECRET must be set to run the scheduler")
+  }
+
+  if (process.argv.includes("--once")) {
+    await runOnce()
+    return
+  }
+
+  console.log(`🕒 Scheduler worker calling ${APP_URL}/api/cron every ${INTERVAL_MINUTES} minutes`)
+  for (;;) {
+    try {
+      await runOnce()
+    } catch (error) {
+      console.error("❌ Scheduler run failed:", error)
+    }
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_MINUTES * 60 * 1000))
+  }
+}
+
+runScheduler()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Scheduler failed:", error)
+    process.exit(1)
+  })